@@ -0,0 +1,70 @@
+/**
+ * POST /api/analyze-responses
+ *
+ * Runs mention/sentiment analysis over a project's stored responses.
+ * By default only responses without an analysis are processed; pass
+ * `force: true` to re-analyze (e.g. after editing brand or competitor
+ * aliases). Call repeatedly until `remaining` reaches 0; with force, send
+ * back the `cursor` from each response to continue where it stopped.
+ *
+ * Body: { projectId: string, limit?: number, force?: boolean, cursor?: string }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { reanalyzeProjectResponses } from '@/lib/response-analysis/reanalyze';
+import { requireAccess } from '@/lib/supabase-server';
+import { recordAuditEvent } from '@/lib/audit';
+
+export const maxDuration = 300;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { projectId, limit = 25, force = false, cursor = null } = body;
+
+    if (!projectId) {
+      return NextResponse.json(
+        { error: 'Project ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (cursor !== null && typeof cursor !== 'string') {
+      return NextResponse.json(
+        { error: 'cursor must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const denied = await requireAccess('projects', projectId, 'collection:run');
+    if (denied) return denied;
+
+    const result = await reanalyzeProjectResponses({ projectId, limit, force, cursor });
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAuditEvent({
+      projectId,
+      action: 'responses.reanalyze',
+      entityType: 'project',
+      entityId: projectId,
+      changes: { force, limit, cursor },
+    });
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Response analysis error:', error);
+    return NextResponse.json(
+      { error: 'Response analysis failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Anthropic from '@anthropic-ai/sdk';
 import { crawlWebsite, CrawlResult, NavigationItem } from '@/lib/crawler';
+import { requireUser } from '@/lib/supabase-server';
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
@@ -8,6 +9,9 @@ const anthropic = new Anthropic({
 
 export async function POST(request: NextRequest) {
   try {
+    const denied = await requireUser();
+    if (denied) return denied;
+
     const { websiteUrl, brandName: userProvidedBrandName } = await request.json();
 
     if (!websiteUrl) {
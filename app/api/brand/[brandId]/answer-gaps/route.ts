@@ -0,0 +1,39 @@
+/**
+ * POST /api/brand/[brandId]/answer-gaps
+ *
+ * Re-runs the answer gap analysis for a project (lib/answer-gaps/analyze.ts).
+ * It also runs after every collection; this is for refreshing on demand.
+ * Gaps are read and dismissed straight through the answer_gaps table, where
+ * RLS limits status changes to owners and editors.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccess } from '@/lib/supabase-server';
+import { analyzeAnswerGaps } from '@/lib/answer-gaps/analyze';
+
+export const maxDuration = 60;
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ brandId: string }> }
+) {
+  try {
+    const { brandId } = await params;
+
+    const denied = await requireAccess('projects', brandId, 'collection:run');
+    if (denied) return denied;
+
+    const result = await analyzeAnswerGaps(brandId);
+    if (!result) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error('[AnswerGaps] Analyze error:', error);
+    return NextResponse.json(
+      { error: 'Failed to analyze answer gaps' },
+      { status: 500 }
+    );
+  }
+}
@@ -17,7 +17,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
+import { createRouteClient, getSessionUser, requireAccess } from '@/lib/supabase-server';
+import { recordAuditEvent } from '@/lib/audit';
 import { generateBrandOverviewForProject, getBrandOverview } from '@/lib/brand-overview/generate';
 
 export async function POST(
@@ -34,6 +35,9 @@ export async function POST(
       );
     }
 
+    const denied = await requireAccess('projects', brandId, 'project:manage');
+    if (denied) return denied;
+
     // Parse request body for options
     let force = false;
     try {
@@ -44,6 +48,7 @@ export async function POST(
     }
 
     // Get the project to verify it exists and get website URL
+    const supabase = await createRouteClient();
     const { data: projectData, error: projectError } = await supabase
       .from('projects')
       .select('id, tracked_brand, website_url')
@@ -91,6 +96,15 @@ export async function POST(
       });
     }
 
+    await recordAuditEvent({
+      projectId: brandId,
+      action: 'brand_overview.generate',
+      entityType: 'brand_overview',
+      changes: { force },
+    });
+
+    const user = await getSessionUser();
+
     // Start generation (runs in background via promise, returns immediately)
     // We don't await here to make the endpoint respond quickly
     generateBrandOverviewForProject({
@@ -98,6 +112,7 @@ export async function POST(
       websiteUrl: websiteUrl,
       brandName: project.tracked_brand,
       force,
+      actor: user ? { id: user.id, email: user.email } : undefined,
     }).catch((error) => {
       // Log error but don't fail the response
       console.error('[BrandOverview Generate] Background error:', error);
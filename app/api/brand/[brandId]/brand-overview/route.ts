@@ -11,6 +11,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getBrandOverview } from '@/lib/brand-overview/generate';
+import { requireAccess } from '@/lib/supabase-server';
 
 export async function GET(
   request: NextRequest,
@@ -26,6 +27,9 @@ export async function GET(
       );
     }
 
+    const denied = await requireAccess('projects', brandId);
+    if (denied) return denied;
+
     const overview = await getBrandOverview(brandId);
 
     if (!overview) {
@@ -0,0 +1,35 @@
+/**
+ * GET /api/brand/[brandId]/citations/outreach
+ *
+ * Third-party pages cited alongside competitors but not the brand, highest
+ * leverage first (lib/citations/outreach.ts). Any member can read them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccess } from '@/lib/supabase-server';
+import { buildOutreachTargets } from '@/lib/citations/outreach';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ brandId: string }> }
+) {
+  try {
+    const { brandId } = await params;
+
+    const denied = await requireAccess('projects', brandId);
+    if (denied) return denied;
+
+    const targets = await buildOutreachTargets(brandId);
+    if (!targets) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ targets });
+  } catch (error) {
+    console.error('[Outreach] Build targets error:', error);
+    return NextResponse.json(
+      { error: 'Failed to build outreach targets' },
+      { status: 500 }
+    );
+  }
+}
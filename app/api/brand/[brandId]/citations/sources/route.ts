@@ -0,0 +1,40 @@
+/**
+ * POST /api/brand/[brandId]/citations/sources
+ *
+ * Re-computes the project's citation sources (lib/citations/sources.ts):
+ * category, authority and per-engine citation counts for every cited domain.
+ * It also runs after every collection; this is for refreshing on demand.
+ * Sources are read and recategorized straight through the citation_sources
+ * table, where RLS limits changes to owners and editors.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccess } from '@/lib/supabase-server';
+import { refreshCitationSources } from '@/lib/citations/sources';
+
+export const maxDuration = 60;
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ brandId: string }> }
+) {
+  try {
+    const { brandId } = await params;
+
+    const denied = await requireAccess('projects', brandId, 'collection:run');
+    if (denied) return denied;
+
+    const sources = await refreshCitationSources(brandId);
+    if (sources === null) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, sources });
+  } catch (error) {
+    console.error('[CitationSources] Refresh error:', error);
+    return NextResponse.json(
+      { error: 'Failed to refresh citation sources' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * GET /api/brand/[brandId]/export
+ *
+ * Downloads the whole project - brand bible, competitors, personas, monitors,
+ * prompts, responses, citations, metrics, keywords, content and brand
+ * overviews - as a gzipped JSON archive that /api/organizations/[orgId]/import
+ * can recreate. Owners and editors only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccess } from '@/lib/supabase-server';
+import { recordAuditEvent } from '@/lib/audit';
+import { compressArchive, exportProject } from '@/lib/project-archive/export';
+
+export const maxDuration = 300;
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ brandId: string }> }
+) {
+  try {
+    const { brandId } = await params;
+
+    const denied = await requireAccess('projects', brandId, 'project:manage');
+    if (denied) return denied;
+
+    const archive = await exportProject(brandId);
+    if (!archive) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+    }
+
+    const counts = Object.fromEntries(
+      Object.entries(archive.tables).map(([table, rows]) => [table, rows?.length || 0])
+    );
+
+    await recordAuditEvent({
+      projectId: brandId,
+      action: 'project.export',
+      entityType: 'projects',
+      entityId: brandId,
+      changes: counts,
+    });
+
+    const name = String(archive.project.name || archive.project.tracked_brand || 'project')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+
+    return new NextResponse(compressArchive(archive) as BodyInit, {
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Content-Disposition': `attachment; filename="${name}-export-${archive.exportedAt.split('T')[0]}.json.gz"`,
+      },
+    });
+  } catch (error) {
+    console.error('[Export] Export project error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export project' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * POST /api/brand/[brandId]/reports
+ *
+ * Generates a client report for a period and adds it to the archive. Any
+ * member can generate one; emailing it to recipients needs project:manage.
+ * Schedules go straight through the report_schedules table, where RLS limits
+ * changes to owners and editors.
+ *
+ * Body: {
+ *   periodStart: string, periodEnd: string,   // YYYY-MM-DD, inclusive
+ *   sections: ReportSection[],
+ *   title?: string,
+ *   recipients?: string[],
+ *   format?: 'pdf' | 'html'                  // attachment format when emailing
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, requireAccess } from '@/lib/supabase-server';
+import { recordAuditEvent } from '@/lib/audit';
+import { generateReport } from '@/lib/reports/generate';
+import { REPORT_SECTIONS, type ReportSection } from '@/lib/types';
+
+export const maxDuration = 120;
+
+const SECTIONS = REPORT_SECTIONS.map(section => section.value);
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_PERIOD_DAYS = 366;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ brandId: string }> }
+) {
+  try {
+    const { brandId } = await params;
+
+    const denied = await requireAccess('projects', brandId);
+    if (denied) return denied;
+
+    const { periodStart, periodEnd, sections, title, recipients = [], format = 'pdf' } = await request.json();
+
+    if (!DATE_PATTERN.test(periodStart || '') || !DATE_PATTERN.test(periodEnd || '') || periodStart > periodEnd) {
+      return NextResponse.json(
+        { error: 'periodStart and periodEnd must be YYYY-MM-DD dates, start first' },
+        { status: 400 }
+      );
+    }
+
+    if ((Date.parse(periodEnd) - Date.parse(periodStart)) / (24 * 60 * 60 * 1000) >= MAX_PERIOD_DAYS) {
+      return NextResponse.json(
+        { error: 'Reports can cover at most a year' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(sections) || sections.length === 0 || !sections.every((s: ReportSection) => SECTIONS.includes(s))) {
+      return NextResponse.json(
+        { error: `Sections must be one or more of: ${SECTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(recipients) || !recipients.every((r: unknown) => typeof r === 'string' && EMAIL_PATTERN.test(r))) {
+      return NextResponse.json(
+        { error: 'Recipients must be email addresses' },
+        { status: 400 }
+      );
+    }
+
+    if (format !== 'pdf' && format !== 'html') {
+      return NextResponse.json(
+        { error: 'Format must be pdf or html' },
+        { status: 400 }
+      );
+    }
+
+    if (recipients.length > 0) {
+      const cannotSend = await requireAccess('projects', brandId, 'project:manage');
+      if (cannotSend) return cannotSend;
+    }
+
+    const user = await getSessionUser();
+    const report = await generateReport({
+      projectId: brandId,
+      title: typeof title === 'string' && title.trim() ? title.trim() : 'Visibility Report',
+      periodStart,
+      periodEnd,
+      sections,
+      recipients,
+      format,
+      createdBy: user?.id ?? null,
+    });
+
+    await recordAuditEvent({
+      projectId: brandId,
+      action: 'report.generate',
+      entityType: 'reports',
+      entityId: report.id,
+      changes: { period_start: periodStart, period_end: periodEnd, sections, recipients },
+    });
+
+    if (report.status === 'failed') {
+      return NextResponse.json(
+        { error: report.error || 'Failed to generate report', report },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, report });
+  } catch (error) {
+    console.error('[Reports] Generate report error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * POST /api/brand/[brandId]/shares
+ *
+ * Creates a read-only dashboard link for people without an account. Only the
+ * token's hash is stored, so the link is returned in this response and never
+ * again. Owners and editors only; listing and revoking links go straight
+ * through the dashboard_shares table.
+ *
+ * Body: { name: string, expiresInDays: number, periodDays?: number }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, requireAccess, supabaseAdmin } from '@/lib/supabase-server';
+import { recordAuditEvent } from '@/lib/audit';
+import { generateShareToken } from '@/lib/dashboard-shares';
+import type { DashboardShare } from '@/lib/types';
+
+const MAX_EXPIRY_DAYS = 365;
+const PERIOD_DAYS = [7, 30, 90];
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ brandId: string }> }
+) {
+  try {
+    const { brandId } = await params;
+
+    const denied = await requireAccess('projects', brandId, 'project:manage');
+    if (denied) return denied;
+
+    const { name, expiresInDays, periodDays = 30 } = await request.json();
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json(
+        { error: 'Name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS) {
+      return NextResponse.json(
+        { error: `Links must expire within 1 to ${MAX_EXPIRY_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    if (!PERIOD_DAYS.includes(periodDays)) {
+      return NextResponse.json(
+        { error: `periodDays must be one of: ${PERIOD_DAYS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const user = await getSessionUser();
+    const { token, prefix, hash } = generateShareToken();
+
+    const { data, error } = await supabaseAdmin
+      .from('dashboard_shares')
+      .insert({
+        project_id: brandId,
+        name: name.trim(),
+        token_prefix: prefix,
+        token_hash: hash,
+        period_days: periodDays,
+        expires_at: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+        created_by: user?.id ?? null,
+      } as never)
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[Shares] Failed to create share link:', error);
+      return NextResponse.json(
+        { error: 'Failed to create share link' },
+        { status: 500 }
+      );
+    }
+
+    const share = data as DashboardShare;
+
+    await recordAuditEvent({
+      projectId: brandId,
+      action: 'dashboard_share.create',
+      entityType: 'dashboard_shares',
+      entityId: share.id,
+      changes: { name: share.name, expires_at: share.expires_at, period_days: share.period_days },
+    });
+
+    return NextResponse.json({
+      success: true,
+      share: { ...share, token_hash: undefined },
+      url: `${request.nextUrl.origin}/share/${token}`,
+    });
+  } catch (error) {
+    console.error('[Shares] Create share link error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create share link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * POST /api/brand/[brandId]/webhooks/[endpointId]/test
+ *
+ * Sends a signed `ping` event to the endpoint once and returns the logged
+ * delivery, including the endpoint's response status.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccess, supabaseAdmin } from '@/lib/supabase-server';
+import { sendTestDelivery } from '@/lib/webhooks/dispatch';
+import type { WebhookEndpoint } from '@/lib/types';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ brandId: string; endpointId: string }> }
+) {
+  try {
+    const { brandId, endpointId } = await params;
+
+    const denied = await requireAccess('projects', brandId, 'integrations:manage');
+    if (denied) return denied;
+
+    const { data: endpoint } = await supabaseAdmin
+      .from('webhook_endpoints')
+      .select('*')
+      .eq('id', endpointId)
+      .eq('project_id', brandId)
+      .maybeSingle();
+
+    if (!endpoint) {
+      return NextResponse.json(
+        { error: 'Webhook endpoint not found' },
+        { status: 404 }
+      );
+    }
+
+    const delivery = await sendTestDelivery(endpoint as WebhookEndpoint);
+
+    if (!delivery) {
+      return NextResponse.json(
+        { error: 'Failed to send test delivery' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: delivery.status === 'succeeded',
+      delivery,
+    });
+  } catch (error) {
+    console.error('[Webhooks] Test delivery error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send test delivery' },
+      { status: 500 }
+    );
+  }
+}
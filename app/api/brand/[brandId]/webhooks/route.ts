@@ -0,0 +1,101 @@
+/**
+ * POST /api/brand/[brandId]/webhooks
+ *
+ * Registers a webhook endpoint. The signing secret is generated and
+ * encrypted here and returned only in this response, and the URL must
+ * resolve to a public address. Listing, toggling and deleting endpoints go
+ * straight through the webhook_endpoints table, where RLS limits them to
+ * owners and editors; the URL can't be changed afterwards.
+ *
+ * Body: { url: string, events: WebhookEvent[], description?: string }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccess, supabaseAdmin } from '@/lib/supabase-server';
+import { recordAuditEvent } from '@/lib/audit';
+import { generateWebhookSecret } from '@/lib/webhooks/dispatch';
+import { checkPublicUrl } from '@/lib/public-url';
+import { WEBHOOK_EVENT_OPTIONS, type WebhookEndpoint, type WebhookEvent } from '@/lib/types';
+
+const WEBHOOK_EVENTS = WEBHOOK_EVENT_OPTIONS.map(option => option.value);
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ brandId: string }> }
+) {
+  try {
+    const { brandId } = await params;
+
+    const denied = await requireAccess('projects', brandId, 'integrations:manage');
+    if (denied) return denied;
+
+    const { url, events, description } = await request.json();
+
+    if (!url || typeof url !== 'string') {
+      return NextResponse.json(
+        { error: 'A valid http(s) URL is required' },
+        { status: 400 }
+      );
+    }
+
+    const urlError = await checkPublicUrl(url);
+    if (urlError) {
+      return NextResponse.json(
+        { error: urlError },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(events) || events.length === 0 || !events.every((e: WebhookEvent) => WEBHOOK_EVENTS.includes(e))) {
+      return NextResponse.json(
+        { error: `Events must be one or more of: ${WEBHOOK_EVENTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { secret, encrypted } = generateWebhookSecret();
+
+    const { data, error } = await supabaseAdmin
+      .from('webhook_endpoints')
+      .insert({
+        project_id: brandId,
+        url: url.trim(),
+        description: typeof description === 'string' && description.trim() ? description.trim() : null,
+        events,
+        secret: encrypted,
+        is_active: true,
+      } as never)
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[Webhooks] Failed to create endpoint:', error);
+      return NextResponse.json(
+        { error: 'Failed to create webhook endpoint' },
+        { status: 500 }
+      );
+    }
+
+    const endpoint = data as WebhookEndpoint;
+
+    await recordAuditEvent({
+      projectId: brandId,
+      action: 'webhook.create',
+      entityType: 'webhook_endpoints',
+      entityId: endpoint.id,
+      changes: { url: endpoint.url, events: endpoint.events },
+    });
+
+    return NextResponse.json({
+      success: true,
+      endpoint: { ...endpoint, secret: undefined },
+      secret,
+    });
+  } catch (error) {
+    console.error('[Webhooks] Create endpoint error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create webhook endpoint' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,22 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
 import {
   collectResponses,
-  checkBrandMention,
   checkDomainCitation,
-  analyzeSentiment,
-  extractMentionedBrands,
+  toCitationContext,
 } from '@/lib/ai-providers';
 import { AIModel } from '@/lib/types';
-
-// Server-side Supabase client
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+import { buildLocaleQueryOptions, getLocalizedPromptText } from '@/lib/collection/locale';
+import { loadPersonas, withPersonaContext } from '@/lib/collection/persona';
+import { updatePromptMetrics } from '@/lib/collection/metrics';
+import { updateShareOfVoice } from '@/lib/collection/share-of-voice';
+import { evaluateAlertRules } from '@/lib/alerts/evaluate';
+import { queueWebhookEvent, toResponseEventData } from '@/lib/webhooks/dispatch';
+import { analyzeResponse } from '@/lib/response-analysis/analyze';
+import type { AIResponse } from '@/lib/ai-providers';
+import { createRouteClient, requireAccess } from '@/lib/supabase-server';
 
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createRouteClient();
     const body = await request.json();
     const { promptId, models } = body;
 
@@ -27,23 +28,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const denied = await requireAccess('prompts', promptId, 'collection:run');
+    if (denied) return denied;
+
     // Fetch the prompt and its associated project/monitor data
     const { data: prompt, error: promptError } = await supabase
       .from('prompts')
       .select(`
         id,
         prompt_text,
+        translations,
         monitor_id,
         monitors!inner (
           id,
           project_id,
           ai_models,
+          persona_ids,
+          samples_per_prompt,
+          language,
+          location,
           projects!inner (
             id,
             tracked_brand,
+            brand_aliases,
             website_url,
             competitors (
-              name
+              name,
+              aliases
             )
           )
         )
@@ -63,40 +74,69 @@ export async function POST(request: NextRequest) {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const monitorData = prompt.monitors as any;
     const monitor = {
+      project_id: monitorData.project_id as string,
       ai_models: monitorData.ai_models as AIModel[],
+      persona_ids: (monitorData.persona_ids || []) as string[],
+      samples_per_prompt: (monitorData.samples_per_prompt || 1) as number,
+      language: monitorData.language as string,
+      location: monitorData.location as string,
       projects: monitorData.projects as {
         tracked_brand: string;
+        brand_aliases: string[] | null;
         website_url: string | null;
-        competitors: { name: string }[] | null;
+        competitors: { name: string; aliases: string[] | null }[] | null;
       },
     };
     const project = monitor.projects;
-    const brandName = project.tracked_brand;
+    const brand = { name: project.tracked_brand, aliases: project.brand_aliases || [] };
     const websiteUrl = project.website_url || '';
-    const competitors = project.competitors?.map((c: { name: string }) => c.name) || [];
+    const competitors = project.competitors?.map(c => ({ name: c.name, aliases: c.aliases || [] })) || [];
 
     // Use specified models or fall back to monitor's configured models
     const modelsToQuery: AIModel[] = models || monitor.ai_models;
 
+    // Ask in the monitor's language and market
+    const locale = { language: monitor.language, location: monitor.location };
+    const queryText = await getLocalizedPromptText(
+      promptId,
+      prompt.prompt_text,
+      prompt.translations as Record<string, string> | null,
+      locale.language
+    );
+
+    // Ask once per monitor persona, or once without a persona, repeating each
+    // model for the monitor's samples
+    const personas = await loadPersonas(monitor.persona_ids);
+    const personaIds: (string | null)[] = personas.size > 0 ? [...personas.keys()] : [null];
+    const localeOptions = buildLocaleQueryOptions(locale);
+
     // Collect responses from AI models
     console.log(`Collecting responses for prompt: "${prompt.prompt_text.slice(0, 50)}..." from ${modelsToQuery.join(', ')}`);
-    const result = await collectResponses(prompt.prompt_text, modelsToQuery);
+    const collected: { aiResponse: AIResponse; personaId: string | null }[] = [];
+    let successCount = 0;
+    let failedCount = 0;
+
+    for (const personaId of personaIds) {
+      const persona = personaId ? personas.get(personaId) : undefined;
+      const result = await collectResponses(queryText, modelsToQuery, withPersonaContext(localeOptions, persona), monitor.samples_per_prompt);
+      successCount += result.successCount;
+      failedCount += result.failedCount;
+      collected.push(...result.responses.map(aiResponse => ({ aiResponse, personaId })));
+    }
 
     // Process and save each response
     const savedResponses = [];
     const savedCitations = [];
 
-    for (const aiResponse of result.responses) {
+    for (const { aiResponse, personaId } of collected) {
       if (!aiResponse.success) {
         console.error(`${aiResponse.model} failed:`, aiResponse.error);
         continue;
       }
 
       // Analyze the response
-      const mentionsBrand = checkBrandMention(aiResponse.responseText, brandName);
       const citesDomain = checkDomainCitation(aiResponse.citedUrls || [], websiteUrl);
-      const sentimentScore = analyzeSentiment(aiResponse.responseText, brandName);
-      const brandsMentioned = extractMentionedBrands(aiResponse.responseText, [brandName, ...competitors]);
+      const analyzed = await analyzeResponse({ responseText: aiResponse.responseText, brand, competitors });
 
       // Save response to database
       const { data: response, error: responseError } = await supabase
@@ -105,11 +145,19 @@ export async function POST(request: NextRequest) {
           prompt_id: promptId,
           ai_model: aiResponse.model,
           response_text: aiResponse.responseText,
-          sentiment_score: sentimentScore,
-          mentions_brand: mentionsBrand,
+          sentiment_score: analyzed.sentimentScore,
+          mentions_brand: analyzed.mentionsBrand,
           cites_domain: citesDomain,
           is_featured: false, // Can be updated later based on analysis
-          brands_mentioned: brandsMentioned,
+          brands_mentioned: analyzed.brandsMentioned,
+          analysis: analyzed.analysis,
+          analysis_confidence: analyzed.confidence,
+          brand_rank: analyzed.brandRank,
+          competitor_ranks: analyzed.competitorRanks,
+          language: locale.language,
+          location: locale.location,
+          persona_id: personaId,
+          sample_index: aiResponse.sampleIndex || 0,
         })
         .select()
         .single();
@@ -122,27 +170,31 @@ export async function POST(request: NextRequest) {
       savedResponses.push(response);
 
       // Save citations
-      if (aiResponse.citedUrls && aiResponse.citedUrls.length > 0) {
-        for (const url of aiResponse.citedUrls) {
-          const domain = extractDomain(url);
+      let citationsCount = 0;
+      if (aiResponse.sources && aiResponse.sources.length > 0) {
+        for (const source of aiResponse.sources) {
+          const domain = extractDomain(source.url);
           if (domain) {
             const { data: citation, error: citationError } = await supabase
               .from('citations')
               .insert({
                 response_id: response.id,
                 cited_domain: domain,
-                cited_url: url,
-                citation_context: null, // Could extract context around URL in the future
+                cited_url: source.url,
+                citation_context: toCitationContext(source),
               })
               .select()
               .single();
 
             if (!citationError) {
               savedCitations.push(citation);
+              citationsCount++;
             }
           }
         }
       }
+
+      await queueWebhookEvent(monitor.project_id, 'response.created', toResponseEventData(response, citationsCount));
     }
 
     // Update prompt's last collected timestamp (if column exists)
@@ -151,13 +203,18 @@ export async function POST(request: NextRequest) {
       .update({ last_collected_at: new Date().toISOString() } as never)
       .eq('id', promptId);
 
+    // Refresh this prompt's daily metrics and visibility_pct
+    await updatePromptMetrics(monitor.project_id, [promptId]);
+    await updateShareOfVoice(monitor.project_id);
+    await evaluateAlertRules(monitor.project_id, savedResponses.map(r => r.id));
+
     return NextResponse.json({
       success: true,
       promptId,
       results: {
-        total: modelsToQuery.length,
-        successful: result.successCount,
-        failed: result.failedCount,
+        total: modelsToQuery.length * personaIds.length * monitor.samples_per_prompt,
+        successful: successCount,
+        failed: failedCount,
         responsessSaved: savedResponses.length,
         citationsSaved: savedCitations.length,
       },
@@ -0,0 +1,76 @@
+/**
+ * POST /api/collection-runs/[runId]/resume
+ *
+ * Resumes an interrupted collection run, or a 'running' one whose request
+ * died without marking it. Items left running by a request that timed out
+ * are reset to pending, then every pending prompt x model is collected.
+ * Items that already succeeded are not re-queried. Responds 409 while
+ * another request is still processing the run.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resumeCollectionRun, COLLECTION_TIME_BUDGET_MS } from '@/lib/collection/collect';
+import { requireAccess } from '@/lib/supabase-server';
+import { recordAuditEvent } from '@/lib/audit';
+
+export const maxDuration = 300;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  try {
+    const { runId } = await params;
+
+    if (!runId) {
+      return NextResponse.json(
+        { error: 'Run ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const denied = await requireAccess('collection_runs', runId, 'collection:run');
+    if (denied) return denied;
+
+    const outcome = await resumeCollectionRun(runId, {
+      deadline: Date.now() + COLLECTION_TIME_BUDGET_MS,
+    });
+
+    if (!outcome) {
+      return NextResponse.json(
+        { error: 'Collection run not found' },
+        { status: 404 }
+      );
+    }
+
+    if (outcome.busy) {
+      return NextResponse.json(
+        { error: 'This run is already being collected' },
+        { status: 409 }
+      );
+    }
+
+    if (outcome.run) {
+      await recordAuditEvent({
+        projectId: outcome.run.project_id,
+        action: 'collection.resume',
+        entityType: 'collection_run',
+        entityId: runId,
+        changes: { status: outcome.status },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      runId,
+      status: outcome.status,
+      results: outcome.results,
+    });
+  } catch (error) {
+    console.error('Resume collection run error:', error);
+    return NextResponse.json(
+      { error: 'Failed to resume collection run' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * PATCH /api/content/[contentId]/status
+ *
+ * Moves generated content to another status and fires the
+ * content.status_changed webhook. Writers and above.
+ *
+ * Body: { status: ContentStatus }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteClient, requireAccess } from '@/lib/supabase-server';
+import { dispatchWebhookEvent } from '@/lib/webhooks/dispatch';
+import { CONTENT_STATUS_LABELS, type ContentStatus, type GeneratedContent } from '@/lib/types';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ contentId: string }> }
+) {
+  try {
+    const { contentId } = await params;
+    const { status } = await request.json();
+
+    if (!status || !(status in CONTENT_STATUS_LABELS)) {
+      return NextResponse.json(
+        { error: `Status must be one of: ${Object.keys(CONTENT_STATUS_LABELS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const denied = await requireAccess('generated_content', contentId, 'content:write');
+    if (denied) return denied;
+
+    // Update as the user so RLS and the audit trigger apply
+    const supabase = await createRouteClient();
+    const { data: existing } = await supabase
+      .from('generated_content')
+      .select('status')
+      .eq('id', contentId)
+      .single();
+
+    const { data, error } = await supabase
+      .from('generated_content')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', contentId)
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[Content] Failed to update status:', error);
+      return NextResponse.json(
+        { error: 'Failed to update content status' },
+        { status: 500 }
+      );
+    }
+
+    const content = data as GeneratedContent;
+    const previousStatus = (existing as { status: ContentStatus } | null)?.status ?? null;
+
+    if (previousStatus !== content.status) {
+      await dispatchWebhookEvent(content.project_id, 'content.status_changed', {
+        content_id: content.id,
+        title: content.title,
+        previous_status: previousStatus,
+        status: content.status,
+      });
+    }
+
+    return NextResponse.json(content);
+  } catch (error) {
+    console.error('[Content] Status update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update content status' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
 import OpenAI from 'openai';
-
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+import { createRouteClient, requireAccess } from '@/lib/supabase-server';
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -35,6 +30,7 @@ interface ContentAnalysis {
 // POST - Analyze and optimize content
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createRouteClient();
     const body = await request.json();
     const { projectId, targetUrl, targetKeyword, pageContent, action = 'analyze' } = body;
 
@@ -45,6 +41,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const denied = await requireAccess('projects', projectId, 'content:write');
+    if (denied) return denied;
+
     // Get project info for brand context
     const { data: project } = await supabase
       .from('projects')
@@ -131,6 +130,7 @@ export async function POST(request: NextRequest) {
 // GET - Fetch optimization tasks for a project
 export async function GET(request: NextRequest) {
   try {
+    const supabase = await createRouteClient();
     const { searchParams } = new URL(request.url);
     const projectId = searchParams.get('projectId');
     const status = searchParams.get('status');
@@ -142,6 +142,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const denied = await requireAccess('projects', projectId);
+    if (denied) return denied;
+
     let query = supabase
       .from('optimization_tasks')
       .select('*')
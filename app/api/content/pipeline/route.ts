@@ -9,20 +9,19 @@ import { NextRequest, NextResponse } from 'next/server';
 // Pro plan allows up to 800 seconds (13+ minutes)
 export const maxDuration = 800;
 export const dynamic = 'force-dynamic';
-import { createClient } from '@supabase/supabase-js';
 import { runContentPipeline } from '@/lib/content-pipeline';
 import type { PipelineInput, PipelineRequest } from '@/lib/content-pipeline/types';
-
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+import { createRouteClient, requireAccess } from '@/lib/supabase-server';
+import { dispatchWebhookEvent, toContentEventData } from '@/lib/webhooks/dispatch';
+import type { GeneratedContent } from '@/lib/types';
+import { getAnswerGap, linkGapContent, withGapBrief } from '@/lib/answer-gaps/content';
 
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createRouteClient();
     const body: PipelineRequest = await request.json();
 
-    const { projectId, topic, targetKeyword, secondaryKeywords, targetWordCount, contentType, additionalNotes } = body;
+    const { projectId, topic, targetKeyword, secondaryKeywords, targetWordCount, contentType, additionalNotes, answerGapId } = body;
 
     // Validation
     if (!projectId) {
@@ -32,6 +31,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'topic and targetKeyword are required' }, { status: 400 });
     }
 
+    const denied = await requireAccess('projects', projectId, 'content:write');
+    if (denied) return denied;
+
     // Fetch project data for brand context
     const { data: project, error: projectError } = await supabase
       .from('projects')
@@ -43,6 +45,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 });
     }
 
+    // Content for an answer gap carries the gap's findings into the pipeline
+    const gap = answerGapId ? await getAnswerGap(projectId, answerGapId) : null;
+    if (answerGapId && !gap) {
+      return NextResponse.json({ error: 'Answer gap not found' }, { status: 404 });
+    }
+
     // Build pipeline input with project context
     const pipelineInput: PipelineInput = {
       projectId,
@@ -51,7 +59,7 @@ export async function POST(request: NextRequest) {
       secondaryKeywords: secondaryKeywords || [],
       targetWordCount: targetWordCount || 1500,
       contentType: contentType || 'article',
-      additionalNotes,
+      additionalNotes: withGapBrief(additionalNotes, gap, project.tracked_brand || project.name),
       brandName: project.tracked_brand || project.name,
       websiteUrl: project.website_url,
       brandBible: project.brand_bible,
@@ -72,8 +80,9 @@ export async function POST(request: NextRequest) {
     // Optionally save the generated content to the database
     if (result.finalOutput) {
       try {
-        const { error: insertError } = await supabase.from('generated_content').insert({
+        const { data: savedContent, error: insertError } = await supabase.from('generated_content').insert({
           project_id: projectId,
+          prompt_id: gap?.prompt_id ?? null,
           title: result.stages.editedContent?.metaTitle || topic,
           meta_description: result.stages.editedContent?.metaDescription,
           content_markdown: result.finalOutput.markdown,
@@ -87,9 +96,12 @@ export async function POST(request: NextRequest) {
           pipeline_id: result.pipelineId,
           content_type: contentType || 'article',
           status: 'completed',
-        });
+        }).select().single();
         if (insertError) {
           console.error('[Pipeline API] Database insert error:', insertError);
+        } else {
+          if (gap) await linkGapContent(gap, (savedContent as GeneratedContent).id);
+          await dispatchWebhookEvent(projectId, 'content.generated', toContentEventData(savedContent as GeneratedContent));
         }
       } catch (saveError) {
         console.warn('[Pipeline API] Failed to save content to database:', saveError);
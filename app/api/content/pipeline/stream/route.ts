@@ -9,19 +9,17 @@ import { NextRequest } from 'next/server';
 // Pro plan allows up to 800 seconds (13+ minutes)
 export const maxDuration = 800;
 export const dynamic = 'force-dynamic';
-import { createClient } from '@supabase/supabase-js';
 import { runContentPipeline } from '@/lib/content-pipeline';
 import type { PipelineInput, PipelineStreamEvent, PipelineRequest } from '@/lib/content-pipeline/types';
-
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+import { createRouteClient, requireAccess } from '@/lib/supabase-server';
+import { dispatchWebhookEvent, toContentEventData } from '@/lib/webhooks/dispatch';
+import type { GeneratedContent } from '@/lib/types';
+import { getAnswerGap, linkGapContent, withGapBrief } from '@/lib/answer-gaps/content';
 
 export async function POST(request: NextRequest) {
   const body: PipelineRequest = await request.json();
 
-  const { projectId, topic, targetKeyword, secondaryKeywords, targetWordCount, contentType, additionalNotes } = body;
+  const { projectId, topic, targetKeyword, secondaryKeywords, targetWordCount, contentType, additionalNotes, answerGapId } = body;
 
   // Validation
   if (!projectId || !topic || !targetKeyword) {
@@ -31,6 +29,20 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  const denied = await requireAccess('projects', projectId, 'content:write');
+  if (denied) return denied;
+
+  // Content for an answer gap carries the gap's findings into the pipeline
+  const gap = answerGapId ? await getAnswerGap(projectId, answerGapId) : null;
+  if (answerGapId && !gap) {
+    return new Response(
+      JSON.stringify({ error: 'Answer gap not found' }),
+      { status: 404, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const supabase = await createRouteClient();
+
   // Create a TransformStream for SSE
   const encoder = new TextEncoder();
   const stream = new TransformStream();
@@ -70,7 +82,7 @@ export async function POST(request: NextRequest) {
         secondaryKeywords: secondaryKeywords || [],
         targetWordCount: targetWordCount || 1500,
         contentType: contentType || 'article',
-        additionalNotes,
+        additionalNotes: withGapBrief(additionalNotes, gap, project.tracked_brand || project.name),
         brandName: project.tracked_brand || project.name,
         websiteUrl: project.website_url,
         brandBible: project.brand_bible,
@@ -97,8 +109,9 @@ export async function POST(request: NextRequest) {
         // Save to database
         if (result.finalOutput) {
           try {
-            const { error: insertError } = await supabase.from('generated_content').insert({
+            const { data: savedContent, error: insertError } = await supabase.from('generated_content').insert({
               project_id: projectId,
+              prompt_id: gap?.prompt_id ?? null,
               title: result.stages.editedContent?.metaTitle || topic,
               meta_description: result.stages.editedContent?.metaDescription,
               content_markdown: result.finalOutput.markdown,
@@ -112,9 +125,12 @@ export async function POST(request: NextRequest) {
               pipeline_id: result.pipelineId,
               content_type: contentType || 'article',
               status: 'completed',
-            });
+            }).select().single();
             if (insertError) {
               console.error('[Pipeline Stream] Database insert error:', insertError);
+            } else {
+              if (gap) await linkGapContent(gap, (savedContent as GeneratedContent).id);
+              await dispatchWebhookEvent(projectId, 'content.generated', toContentEventData(savedContent as GeneratedContent));
             }
           } catch (saveError) {
             console.warn('[Pipeline Stream] Failed to save:', saveError);
@@ -0,0 +1,33 @@
+/**
+ * GET /api/cron/cited-pages
+ *
+ * Fetches newly cited pages queued after collection and records whether
+ * they mention the brand or its competitors. Invoked by Vercel Cron (see
+ * vercel.json) every 10 minutes.
+ *
+ * Requests must carry `Authorization: Bearer <CRON_SECRET>` (see lib/cron.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '@/lib/cron';
+import { fetchPendingPages } from '@/lib/citations/pages';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const denied = requireCronSecret(request);
+  if (denied) return denied;
+
+  try {
+    const fetched = await fetchPendingPages();
+
+    return NextResponse.json({ success: true, fetched });
+  } catch (error) {
+    console.error('[CitedPages] Cron fetch error:', error);
+    return NextResponse.json(
+      { error: 'Cited page fetch failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * GET /api/cron/collect
+ *
+ * Scheduler entry point. Invoked by Vercel Cron (see vercel.json) every
+ * 15 minutes; collects responses for every active monitor whose schedule
+ * is due and records each run in collection_runs.
+ *
+ * Requests must carry `Authorization: Bearer <CRON_SECRET>` (see lib/cron.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '@/lib/cron';
+import { runDueMonitors } from '@/lib/collection/scheduler';
+import { COLLECTION_TIME_BUDGET_MS } from '@/lib/collection/collect';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const denied = requireCronSecret(request);
+  if (denied) return denied;
+
+  try {
+    const runs = await runDueMonitors(new Date(), Date.now() + COLLECTION_TIME_BUDGET_MS);
+
+    return NextResponse.json({
+      success: true,
+      monitorsRun: runs.filter(r => r.status !== 'skipped').length,
+      runs,
+    });
+  } catch (error) {
+    console.error('[Scheduler] Cron collection error:', error);
+    return NextResponse.json(
+      { error: 'Scheduled collection failed' },
+      { status: 500 }
+    );
+  }
+}
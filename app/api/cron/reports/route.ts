@@ -0,0 +1,36 @@
+/**
+ * GET /api/cron/reports
+ *
+ * Generates and emails scheduled client reports that are due. Invoked by
+ * Vercel Cron (see vercel.json) every hour.
+ *
+ * Requests must carry `Authorization: Bearer <CRON_SECRET>` (see lib/cron.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '@/lib/cron';
+import { runDueReportSchedules } from '@/lib/reports/scheduler';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const denied = requireCronSecret(request);
+  if (denied) return denied;
+
+  try {
+    const reports = await runDueReportSchedules();
+
+    return NextResponse.json({
+      success: true,
+      reportsSent: reports.filter(r => r.status === 'completed').length,
+      reports,
+    });
+  } catch (error) {
+    console.error('[Reports] Cron report error:', error);
+    return NextResponse.json(
+      { error: 'Scheduled reports failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * GET /api/cron/webhooks
+ *
+ * Sends queued webhook deliveries and retries failed ones whose backoff has
+ * elapsed. Invoked by Vercel Cron (see vercel.json) every minute.
+ *
+ * Requests must carry `Authorization: Bearer <CRON_SECRET>` (see lib/cron.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireCronSecret } from '@/lib/cron';
+import { retryDueDeliveries } from '@/lib/webhooks/dispatch';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const denied = requireCronSecret(request);
+  if (denied) return denied;
+
+  try {
+    const retried = await retryDueDeliveries();
+
+    return NextResponse.json({ success: true, retried });
+  } catch (error) {
+    console.error('[Webhooks] Cron retry error:', error);
+    return NextResponse.json(
+      { error: 'Webhook retry failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Anthropic from '@anthropic-ai/sdk';
-import { createClient } from '@supabase/supabase-js';
+import { createRouteClient, requireAccess } from '@/lib/supabase-server';
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
 });
 
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
 interface BrandBibleData {
   name: string;
   tracked_brand: string;
@@ -31,6 +26,7 @@ interface BrandBibleData {
 
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createRouteClient();
     const { projectId, currentData } = await request.json();
 
     if (!projectId || !currentData) {
@@ -40,6 +36,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const denied = await requireAccess('projects', projectId, 'project:manage');
+    if (denied) return denied;
+
     // Get the project's edit history for context
     const { data: project } = await supabase
       .from('projects')
@@ -1,17 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import Anthropic from '@anthropic-ai/sdk'
-import { createClient } from '@supabase/supabase-js'
-import type { ContentGenerationRequest, ContentType, Project, BrandVoice } from '@/lib/types'
+import type { ContentGenerationRequest, ContentType, GeneratedContent, Project, BrandVoice } from '@/lib/types'
+import { createRouteClient, requireUser } from '@/lib/supabase-server'
+import { dispatchWebhookEvent, toContentEventData } from '@/lib/webhooks/dispatch'
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
 })
 
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-)
-
 function getContentTypePrompt(contentType: ContentType): string {
   switch (contentType) {
     case 'article':
@@ -231,6 +227,10 @@ function calculateSeoScore(content: string, keywords: string[], project?: Projec
 
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createRouteClient()
+    const denied = await requireUser()
+    if (denied) return denied
+
     const body: ContentGenerationRequest = await request.json()
 
     if (!body.promptText || !body.brandName || !body.contentType) {
@@ -331,6 +331,8 @@ export async function POST(request: NextRequest) {
       })
     }
 
+    await dispatchWebhookEvent(project.id, 'content.generated', toContentEventData(savedContent as GeneratedContent))
+
     return NextResponse.json({
       success: true,
       content: savedContent,
@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { supabase } from '@/lib/supabase'
+import { getSessionUser, requireAccess, supabaseAdmin } from '@/lib/supabase-server'
+import { recordAuditEvent } from '@/lib/audit'
+import { encryptSecret } from '@/lib/crypto'
 import {
   exchangeCodeForTokens,
   getGoogleUserInfo,
   fetchGSCProperties,
+  verifyOAuthState,
+  OAUTH_NONCE_COOKIE,
 } from '@/lib/google-oauth'
 
 export const dynamic = 'force-dynamic'
@@ -13,18 +17,19 @@ export async function GET(request: NextRequest) {
   const state = request.nextUrl.searchParams.get('state')
   const error = request.nextUrl.searchParams.get('error')
 
-  // Try to decode project ID from state for error redirects
-  let projectId: string | null = null
-  if (state) {
-    try {
-      const decodedState = JSON.parse(Buffer.from(state, 'base64').toString())
-      projectId = decodedState.projectId
-    } catch {
-      // Will handle below
-    }
+  // Only a state we signed, for this browser's nonce, identifies the project
+  const verified = state
+    ? verifyOAuthState(state, request.cookies.get(OAUTH_NONCE_COOKIE)?.value)
+    : null
+  const projectId = verified?.projectId ?? null
+
+  // Helper for redirects with or without projectId. The nonce is single-use,
+  // so every outcome clears it.
+  const redirectTo = (url: URL) => {
+    const response = NextResponse.redirect(url)
+    response.cookies.delete({ name: OAUTH_NONCE_COOKIE, path: '/api/google/callback' })
+    return response
   }
-
-  // Helper for redirects with or without projectId
   const getSettingsUrl = (params: string) => {
     if (projectId) {
       return new URL(`/brand/${projectId}/settings?${params}`, request.url)
@@ -35,15 +40,25 @@ export async function GET(request: NextRequest) {
   // Handle OAuth errors
   if (error) {
     console.error('Google OAuth error:', error)
-    return NextResponse.redirect(getSettingsUrl(`google_error=${error}`))
+    return redirectTo(getSettingsUrl(`google_error=${error}`))
   }
 
   if (!code || !state) {
-    return NextResponse.redirect(getSettingsUrl('google_error=missing_params'))
+    return redirectTo(getSettingsUrl('google_error=missing_params'))
   }
 
-  if (!projectId) {
-    return NextResponse.redirect(getSettingsUrl('google_error=invalid_state'))
+  if (!verified || !projectId) {
+    return redirectTo(getSettingsUrl('google_error=invalid_state'))
+  }
+
+  // The flow must finish as the user who started it, and they must still
+  // be allowed to attach a Google account to the project
+  const user = await getSessionUser()
+  if (
+    user?.id !== verified.userId ||
+    await requireAccess('projects', projectId, 'integrations:manage')
+  ) {
+    return redirectTo(new URL('/?google_error=unauthorized', request.url))
   }
 
   try {
@@ -72,14 +87,14 @@ export async function GET(request: NextRequest) {
 
     // Upsert Google connection for this project
     // Note: Using type assertion since google_connections table may not be in generated types yet
-    const { error: upsertError } = await supabase
+    const { error: upsertError } = await supabaseAdmin
       .from('google_connections' as 'projects')
       .upsert({
         project_id: projectId,
         google_email: userInfo.email,
         google_sub: userInfo.sub,
-        access_token: tokens.access_token,
-        refresh_token: tokens.refresh_token || null,
+        access_token: encryptSecret(tokens.access_token),
+        refresh_token: tokens.refresh_token ? encryptSecret(tokens.refresh_token) : null,
         token_expiry: tokenExpiry.toISOString(),
         scopes: tokens.scope.split(' '),
         // Auto-select first GSC property if only one
@@ -91,17 +106,24 @@ export async function GET(request: NextRequest) {
 
     if (upsertError) {
       console.error('Failed to save Google connection:', upsertError)
-      return NextResponse.redirect(
+      return redirectTo(
         new URL(`/brand/${projectId}/settings?google_error=save_failed`, request.url)
       )
     }
 
+    await recordAuditEvent({
+      projectId,
+      action: 'google.connect',
+      entityType: 'google_connection',
+      changes: { google_email: userInfo.email },
+    })
+
     // Redirect to settings page with success
-    return NextResponse.redirect(
+    return redirectTo(
       new URL(`/brand/${projectId}/settings?google_connected=true`, request.url)
     )
   } catch (err) {
     console.error('Google callback error:', err)
-    return NextResponse.redirect(getSettingsUrl('google_error=callback_failed'))
+    return redirectTo(getSettingsUrl('google_error=callback_failed'))
   }
 }
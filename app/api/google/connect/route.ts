@@ -1,5 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getGoogleAuthUrl, isGoogleOAuthConfigured } from '@/lib/google-oauth'
+import {
+  createOAuthState,
+  getGoogleAuthUrl,
+  isGoogleOAuthConfigured,
+  OAUTH_NONCE_COOKIE,
+} from '@/lib/google-oauth'
+import { getSessionUser, requireAccess } from '@/lib/supabase-server'
 
 export async function GET(request: NextRequest) {
   try {
@@ -20,8 +26,13 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Generate state with project ID for callback
-    const state = Buffer.from(JSON.stringify({ projectId })).toString('base64')
+    const denied = await requireAccess('projects', projectId, 'integrations:manage')
+    if (denied) return denied
+
+    // Signed state binding the project to this user and browser; the
+    // callback rejects anything that doesn't verify
+    const user = await getSessionUser()
+    const { state, nonce } = createOAuthState(projectId, user!.id)
 
     // Determine redirect URI based on environment
     // NEXT_PUBLIC_APP_URL takes priority, then VERCEL_URL, then localhost
@@ -32,7 +43,15 @@ export async function GET(request: NextRequest) {
     // Generate OAuth URL and redirect
     const authUrl = getGoogleAuthUrl(redirectUri, state)
 
-    return NextResponse.redirect(authUrl)
+    const response = NextResponse.redirect(authUrl)
+    response.cookies.set(OAUTH_NONCE_COOKIE, nonce, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/api/google/callback',
+      maxAge: 10 * 60,
+    })
+    return response
   } catch (error) {
     console.error('Google connect error:', error)
     return NextResponse.json(
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { supabase } from '@/lib/supabase'
+import { requireAccess, supabaseAdmin } from '@/lib/supabase-server'
+import { recordAuditEvent } from '@/lib/audit'
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,9 +13,12 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const denied = await requireAccess('projects', projectId, 'integrations:manage')
+    if (denied) return denied
+
     // Delete Google connection for this project
     // Note: Using type assertion since google_connections table may not be in generated types yet
-    const { error } = await supabase
+    const { error } = await supabaseAdmin
       .from('google_connections' as 'projects')
       .delete()
       .eq('project_id' as 'id', projectId)
@@ -27,6 +31,12 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    await recordAuditEvent({
+      projectId,
+      action: 'google.disconnect',
+      entityType: 'google_connection',
+    })
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Google disconnect error:', error)
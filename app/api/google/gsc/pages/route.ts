@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { supabase } from '@/lib/supabase'
+import { requireAccess, supabaseAdmin } from '@/lib/supabase-server'
 import { getValidAccessToken } from '@/lib/google-oauth'
 import type { GoogleConnection, GSCPageData } from '@/lib/types'
 
@@ -18,8 +18,11 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Project ID is required' }, { status: 400 })
     }
 
+    const denied = await requireAccess('projects', projectId)
+    if (denied) return denied
+
     // Get Google connection for this project
-    const { data: connection, error: connError } = await supabase
+    const { data: connection, error: connError } = await supabaseAdmin
       .from('google_connections' as 'projects')
       .select('*')
       .eq('project_id' as 'id', projectId)
@@ -39,24 +42,8 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Get valid access token (refresh if needed)
-    const { accessToken, newExpiry } = await getValidAccessToken(
-      connection.access_token,
-      connection.refresh_token || null,
-      new Date(connection.token_expiry)
-    )
-
-    // Update tokens if refreshed
-    if (newExpiry) {
-      await supabase
-        .from('google_connections' as 'projects')
-        .update({
-          access_token: accessToken,
-          token_expiry: newExpiry.toISOString(),
-          updated_at: new Date().toISOString(),
-        } as never)
-        .eq('id' as 'id', connection.id)
-    }
+    // Get valid access token (refreshed and saved if needed)
+    const accessToken = await getValidAccessToken(connection)
 
     // Calculate date range (GSC has 2-3 day delay)
     const endDate = new Date()
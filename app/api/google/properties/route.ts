@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { supabase } from '@/lib/supabase'
+import { requireAccess, supabaseAdmin } from '@/lib/supabase-server'
+import { recordAuditEvent } from '@/lib/audit'
 import {
   getValidAccessToken,
   fetchGSCProperties,
@@ -19,9 +20,12 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const denied = await requireAccess('projects', projectId)
+    if (denied) return denied
+
     // Get Google connection for this project
     // Note: Using type assertion since google_connections table may not be in generated types yet
-    const { data: connection, error: connError } = await supabase
+    const { data: connection, error: connError } = await supabaseAdmin
       .from('google_connections' as 'projects')
       .select('*')
       .eq('project_id' as 'id', projectId)
@@ -34,24 +38,8 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Get valid access token (refresh if needed)
-    const { accessToken, newExpiry } = await getValidAccessToken(
-      connection.access_token,
-      connection.refresh_token || null,
-      new Date(connection.token_expiry)
-    )
-
-    // Update tokens if refreshed
-    if (newExpiry) {
-      await supabase
-        .from('google_connections' as 'projects')
-        .update({
-          access_token: accessToken,
-          token_expiry: newExpiry.toISOString(),
-          updated_at: new Date().toISOString(),
-        } as never)
-        .eq('id' as 'id', connection.id)
-    }
+    // Get valid access token (refreshed and saved if needed)
+    const accessToken = await getValidAccessToken(connection)
 
     // Fetch properties in parallel
     const [gscProperties, ga4Properties] = await Promise.all([
@@ -97,8 +85,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const denied = await requireAccess('projects', projectId, 'integrations:manage')
+    if (denied) return denied
+
     // Update Google connection with selected properties
-    const { error } = await supabase
+    const { error } = await supabaseAdmin
       .from('google_connections' as 'projects')
       .update({
         gsc_property: gscProperty || null,
@@ -115,6 +106,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    await recordAuditEvent({
+      projectId,
+      action: 'google.properties',
+      entityType: 'google_connection',
+      changes: { gsc_property: gscProperty || null, ga4_property: ga4Property || null },
+    })
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Update properties error:', error)
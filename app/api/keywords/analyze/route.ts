@@ -1,18 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import Anthropic from '@anthropic-ai/sdk'
-import { createClient } from '@supabase/supabase-js'
 import type { KeywordAnalysisRequest, KeywordAnalysisResponse, Keyword, KeywordSource } from '@/lib/types'
 import { calculateOpportunityScore } from '@/lib/types'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createRouteClient, requireAccess } from '@/lib/supabase-server'
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
 })
 
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-)
-
 interface GeneratedKeyword {
   keyword: string
   search_volume?: number
@@ -25,7 +21,8 @@ interface GeneratedKeyword {
 // Generate keywords using Claude for "Plan" analysis
 async function generatePlanKeywords(
   seedKeywords: string[],
-  projectId: string
+  projectId: string,
+  supabase: SupabaseClient
 ): Promise<Partial<Keyword>[]> {
   // Get project info for context
   const { data: project } = await supabase
@@ -108,7 +105,8 @@ Ensure you return valid JSON only, no markdown or explanation.`
 // Analyze competitor domain for keywords
 async function analyzeCompetitorKeywords(
   competitorDomain: string,
-  projectId: string
+  projectId: string,
+  supabase: SupabaseClient
 ): Promise<Partial<Keyword>[]> {
   // Get project info for context
   const { data: project } = await supabase
@@ -194,6 +192,7 @@ Ensure you return valid JSON only, no markdown or explanation.`
 
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createRouteClient()
     const body: KeywordAnalysisRequest = await request.json()
 
     if (!body.projectId || !body.type) {
@@ -203,6 +202,9 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const denied = await requireAccess('projects', body.projectId, 'keywords:manage')
+    if (denied) return denied
+
     if (!process.env.ANTHROPIC_API_KEY) {
       return NextResponse.json(
         { error: 'ANTHROPIC_API_KEY not configured' },
@@ -219,7 +221,7 @@ export async function POST(request: NextRequest) {
           { status: 400 }
         )
       }
-      keywords = await generatePlanKeywords(body.seedKeywords, body.projectId)
+      keywords = await generatePlanKeywords(body.seedKeywords, body.projectId, supabase)
     } else if (body.type === 'compete') {
       if (!body.competitorDomain) {
         return NextResponse.json(
@@ -227,7 +229,7 @@ export async function POST(request: NextRequest) {
           { status: 400 }
         )
       }
-      keywords = await analyzeCompetitorKeywords(body.competitorDomain, body.projectId)
+      keywords = await analyzeCompetitorKeywords(body.competitorDomain, body.projectId, supabase)
 
       // Update competitor domain with keywords found count
       await supabase
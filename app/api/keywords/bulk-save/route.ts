@@ -1,19 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+import { createRouteClient, requireAccess } from '@/lib/supabase-server';
 
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createRouteClient();
     const { projectId, keywords, source = 'manual' } = await request.json();
 
     if (!projectId) {
       return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
     }
 
+    const denied = await requireAccess('projects', projectId, 'keywords:manage');
+    if (denied) return denied;
+
     if (!keywords || !Array.isArray(keywords) || keywords.length === 0) {
       return NextResponse.json({ error: 'No keywords provided' }, { status: 400 });
     }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Anthropic from '@anthropic-ai/sdk';
+import { requireUser } from '@/lib/supabase-server';
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY!,
@@ -7,6 +8,9 @@ const anthropic = new Anthropic({
 
 export async function POST(request: NextRequest) {
   try {
+    const denied = await requireUser();
+    if (denied) return denied;
+
     const { industry, services, targetAudience, competitors, existingKeywords = [] } = await request.json();
 
     const prompt = `You are an SEO keyword research expert. Generate keyword ideas for a business.
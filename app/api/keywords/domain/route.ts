@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/supabase-server';
 
 const getAuthHeader = () => {
   const login = process.env.DATAFORSEO_LOGIN || '';
@@ -15,6 +16,9 @@ const getAuthHeader = () => {
 // Get keywords a domain ranks for (without GSC)
 export async function POST(request: NextRequest) {
   try {
+    const denied = await requireUser();
+    if (denied) return denied;
+
     const { domain, limit = 100, location_code = 2840 } = await request.json();
 
     if (!domain) {
@@ -1,10 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+import { createRouteClient, requireAccess } from '@/lib/supabase-server';
 
 const getAuthHeader = () => {
   const login = process.env.DATAFORSEO_LOGIN || '';
@@ -20,12 +15,16 @@ const getAuthHeader = () => {
 
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createRouteClient();
     const { projectId, keywordIds } = await request.json();
 
     if (!projectId) {
       return NextResponse.json({ error: 'projectId is required' }, { status: 400 });
     }
 
+    const denied = await requireAccess('projects', projectId, 'keywords:manage');
+    if (denied) return denied;
+
     // Fetch keywords to enrich
     let query = supabase
       .from('keywords')
@@ -1,19 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
 import {
   getRelatedKeywords,
   getSerpResults,
   getCompetitorKeywords,
   getKeywordData,
 } from '@/lib/dataforseo';
-
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+import { createRouteClient, requireAccess } from '@/lib/supabase-server';
 
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createRouteClient();
     const body = await request.json();
     const { projectId, type, keyword, domain, limit = 50 } = body;
 
@@ -24,6 +20,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const denied = await requireAccess('projects', projectId, 'keywords:manage');
+    if (denied) return denied;
+
     switch (type) {
       case 'related': {
         // Get related keyword suggestions
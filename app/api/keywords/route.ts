@@ -1,14 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+import { createRouteClient, requireAccess, requireUser } from '@/lib/supabase-server';
 
 // GET - Fetch keywords for a project
 export async function GET(request: NextRequest) {
   try {
+    const supabase = await createRouteClient();
     const { searchParams } = new URL(request.url);
     const projectId = searchParams.get('projectId');
     const tracked = searchParams.get('tracked');
@@ -25,6 +21,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const denied = await requireAccess('projects', projectId);
+    if (denied) return denied;
+
     let query = supabase
       .from('keywords')
       .select('*', { count: 'exact' })
@@ -73,6 +72,7 @@ export async function GET(request: NextRequest) {
 // POST - Add new keywords
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createRouteClient();
     const body = await request.json();
     const { projectId, keywords } = body;
 
@@ -83,6 +83,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const denied = await requireAccess('projects', projectId, 'keywords:manage');
+    if (denied) return denied;
+
     const keywordsToInsert = keywords.map((kw: { keyword: string; search_volume?: number; cpc?: number; competition?: number; difficulty?: number; intent_type?: string; url?: string; source?: string }) => ({
       project_id: projectId,
       keyword: kw.keyword.toLowerCase().trim(),
@@ -126,6 +129,7 @@ export async function POST(request: NextRequest) {
 // PATCH - Update keyword (e.g., toggle tracking)
 export async function PATCH(request: NextRequest) {
   try {
+    const supabase = await createRouteClient();
     const body = await request.json();
     const { keywordId, updates } = body;
 
@@ -136,6 +140,9 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    const denied = await requireUser();
+    if (denied) return denied;
+
     const allowedFields = ['is_tracked', 'intent_type', 'url'];
     const filteredUpdates: Record<string, unknown> = { last_updated: new Date().toISOString() };
 
@@ -176,6 +183,7 @@ export async function PATCH(request: NextRequest) {
 // DELETE - Remove keywords
 export async function DELETE(request: NextRequest) {
   try {
+    const supabase = await createRouteClient();
     const body = await request.json();
     const { keywordIds } = body;
 
@@ -186,6 +194,9 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    const denied = await requireUser();
+    if (denied) return denied;
+
     const { error } = await supabase
       .from('keywords')
       .delete()
@@ -1,15 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
 import { getSearchAnalytics, getDateRange, isGSCConfigured } from '@/lib/google-search-console';
 import { getKeywordData, getKeywordDifficulty } from '@/lib/dataforseo';
-
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+import { createRouteClient, requireAccess } from '@/lib/supabase-server';
 
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createRouteClient();
     const body = await request.json();
     const { projectId, source = 'both', days = 28 } = body;
 
@@ -20,6 +16,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const denied = await requireAccess('projects', projectId, 'keywords:manage');
+    if (denied) return denied;
+
     // Get project to find website URL
     const { data: project, error: projectError } = await supabase
       .from('projects')
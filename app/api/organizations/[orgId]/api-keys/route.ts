@@ -0,0 +1,126 @@
+/**
+ * POST /api/organizations/[orgId]/api-keys
+ *
+ * Creates an API key for the public API. Only the key's hash is stored, so
+ * the key is returned in this response and never again. Owners only.
+ * Listing and revoking keys go straight through the api_keys table, where
+ * RLS limits them to owners.
+ *
+ * Body: { name: string, scopes: ApiKeyScope[], rateLimitPerMinute?: number, expiresAt?: string }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteClient, supabaseAdmin } from '@/lib/supabase-server';
+import { can } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit';
+import { generateApiKey } from '@/lib/api/keys';
+import { API_KEY_SCOPES, type ApiKey, type ApiKeyScope, type MembershipRole } from '@/lib/types';
+
+const SCOPES = API_KEY_SCOPES.map(scope => scope.value);
+const MAX_RATE_LIMIT = 1000;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> }
+) {
+  try {
+    const { orgId } = await params;
+    const { name, scopes, rateLimitPerMinute = 60, expiresAt } = await request.json();
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json(
+        { error: 'Name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every((scope: ApiKeyScope) => SCOPES.includes(scope))) {
+      return NextResponse.json(
+        { error: `Scopes must be one or more of: ${SCOPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(rateLimitPerMinute) || rateLimitPerMinute < 1 || rateLimitPerMinute > MAX_RATE_LIMIT) {
+      return NextResponse.json(
+        { error: `Rate limit must be between 1 and ${MAX_RATE_LIMIT} requests per minute` },
+        { status: 400 }
+      );
+    }
+
+    if (expiresAt !== undefined && expiresAt !== null && (typeof expiresAt !== 'string' || isNaN(Date.parse(expiresAt)))) {
+      return NextResponse.json(
+        { error: 'expiresAt must be an ISO date' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createRouteClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabase
+      .from('memberships')
+      .select('role')
+      .eq('organization_id', orgId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+    }
+
+    if (!can(membership.role as MembershipRole, 'members:manage')) {
+      return NextResponse.json({ error: 'Your role does not allow this action' }, { status: 403 });
+    }
+
+    const { key, prefix, hash } = generateApiKey();
+
+    const { data, error } = await supabaseAdmin
+      .from('api_keys')
+      .insert({
+        organization_id: orgId,
+        name: name.trim(),
+        key_prefix: prefix,
+        key_hash: hash,
+        scopes: [...new Set(scopes)],
+        rate_limit_per_minute: rateLimitPerMinute,
+        created_by: user.id,
+        expires_at: expiresAt || null,
+      } as never)
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('[API Keys] Failed to create key:', error);
+      return NextResponse.json(
+        { error: 'Failed to create API key' },
+        { status: 500 }
+      );
+    }
+
+    const apiKey = data as ApiKey;
+
+    await recordAuditEvent({
+      organizationId: orgId,
+      action: 'api_key.create',
+      entityType: 'api_keys',
+      entityId: apiKey.id,
+      changes: { name: apiKey.name, scopes: apiKey.scopes, rate_limit_per_minute: apiKey.rate_limit_per_minute },
+    });
+
+    return NextResponse.json({
+      success: true,
+      apiKey: { ...apiKey, key_hash: undefined },
+      key,
+    });
+  } catch (error) {
+    console.error('[API Keys] Create key error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create API key' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * POST /api/organizations/[orgId]/import?name=...
+ *
+ * Recreates a project from an archive made by /api/brand/[brandId]/export,
+ * with new ids, in this workspace. The request body is the archive file
+ * itself (gzipped or plain JSON); `name` optionally renames the project.
+ * Owners and editors only, like creating a project. Vercel caps request
+ * bodies at 4.5 MB, which the gzipped export keeps most projects under.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteClient } from '@/lib/supabase-server';
+import { can } from '@/lib/permissions';
+import { recordAuditEvent } from '@/lib/audit';
+import { importProject, parseArchive } from '@/lib/project-archive/import';
+import type { MembershipRole } from '@/lib/types';
+
+export const maxDuration = 300;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> }
+) {
+  try {
+    const { orgId } = await params;
+
+    const supabase = await createRouteClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabase
+      .from('memberships')
+      .select('role')
+      .eq('organization_id', orgId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+    }
+
+    if (!can(membership.role as MembershipRole, 'project:manage')) {
+      return NextResponse.json({ error: 'Your role does not allow this action' }, { status: 403 });
+    }
+
+    const { archive, error } = parseArchive(new Uint8Array(await request.arrayBuffer()));
+    if (!archive) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const { project, counts } = await importProject(archive, {
+      organizationId: orgId,
+      name: request.nextUrl.searchParams.get('name') || undefined,
+    });
+
+    await recordAuditEvent({
+      organizationId: orgId,
+      projectId: project.id,
+      action: 'project.import',
+      entityType: 'projects',
+      entityId: project.id,
+      changes: { exported_at: archive.exportedAt, source_project_id: archive.project.id, counts },
+    });
+
+    return NextResponse.json({ success: true, project, counts });
+  } catch (error) {
+    console.error('[Import] Import project error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to import project' },
+      { status: 500 }
+    );
+  }
+}
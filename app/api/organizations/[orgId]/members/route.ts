@@ -0,0 +1,132 @@
+/**
+ * POST /api/organizations/[orgId]/members
+ *
+ * Adds someone to a workspace. Existing accounts are added directly; new
+ * email addresses are sent a Supabase Auth invite first. Owners only.
+ * Role changes and removals go straight through the memberships table,
+ * where RLS limits them to owners.
+ *
+ * Body: { email: string, role?: MembershipRole }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteClient, supabaseAdmin } from '@/lib/supabase-server';
+import { can } from '@/lib/permissions';
+import { MEMBERSHIP_ROLES, type MembershipRole } from '@/lib/types';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orgId: string }> }
+) {
+  try {
+    const { orgId } = await params;
+    const { email, role = 'viewer' } = await request.json();
+
+    if (!email || typeof email !== 'string') {
+      return NextResponse.json(
+        { error: 'Email is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!MEMBERSHIP_ROLES.includes(role)) {
+      return NextResponse.json(
+        { error: `Role must be one of: ${MEMBERSHIP_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createRouteClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: membership } = await supabase
+      .from('memberships')
+      .select('role')
+      .eq('organization_id', orgId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!membership) {
+      return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+    }
+
+    if (!can(membership.role as MembershipRole, 'members:manage')) {
+      return NextResponse.json({ error: 'Your role does not allow this action' }, { status: 403 });
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const userId = await findOrInviteUser(normalizedEmail, request.nextUrl.origin);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Failed to invite user' },
+        { status: 500 }
+      );
+    }
+
+    // Insert as the owner so RLS and the audit trigger see who added them
+    const { data: added, error: insertError } = await supabase
+      .from('memberships')
+      .insert({
+        organization_id: orgId,
+        user_id: userId,
+        email: normalizedEmail,
+        role,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      if (insertError.code === '23505') {
+        return NextResponse.json(
+          { error: 'This person is already a member' },
+          { status: 409 }
+        );
+      }
+      console.error('[Members] Failed to add member:', insertError);
+      return NextResponse.json(
+        { error: 'Failed to add member' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, membership: added });
+  } catch (error) {
+    console.error('[Members] Add member error:', error);
+    return NextResponse.json(
+      { error: 'Failed to add member' },
+      { status: 500 }
+    );
+  }
+}
+
+// Existing accounts are looked up in auth.users (memberships.email is only
+// a copy), new addresses are invited
+async function findOrInviteUser(email: string, origin: string): Promise<string | null> {
+  const { data: existing, error: lookupError } = await supabaseAdmin.rpc('find_user_id_by_email' as never, {
+    lookup_email: email,
+  } as never);
+
+  if (lookupError) {
+    console.error('[Members] User lookup failed:', lookupError);
+    return null;
+  }
+
+  if (existing) {
+    return existing as unknown as string;
+  }
+
+  const { data, error } = await supabaseAdmin.auth.admin.inviteUserByEmail(email, {
+    redirectTo: `${origin}/auth/callback`,
+  });
+
+  if (error) {
+    console.error('[Members] Invite failed:', error);
+    return null;
+  }
+
+  return data.user.id;
+}
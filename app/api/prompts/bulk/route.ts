@@ -1,10 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-)
+import { createRouteClient, requireAccess } from '@/lib/supabase-server'
 
 interface BulkPromptData {
   prompt_text: string
@@ -15,6 +10,7 @@ interface BulkPromptData {
 
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createRouteClient()
     const { projectId, prompts, monitorId } = await request.json()
 
     if (!projectId) {
@@ -24,6 +20,9 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const denied = await requireAccess('projects', projectId, 'prompts:manage')
+    if (denied) return denied
+
     if (!prompts || !Array.isArray(prompts) || prompts.length === 0) {
       return NextResponse.json(
         { error: 'No prompts provided' },
@@ -0,0 +1,53 @@
+/**
+ * GET /api/reports/[reportId]/download?format=pdf|html
+ *
+ * Renders an archived report from its data snapshot. HTML opens in the
+ * browser; PDF downloads.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAccess, supabaseAdmin } from '@/lib/supabase-server';
+import { renderReport } from '@/lib/reports/generate';
+import type { Report } from '@/lib/types';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ reportId: string }> }
+) {
+  try {
+    const { reportId } = await params;
+    const format = request.nextUrl.searchParams.get('format') === 'html' ? 'html' : 'pdf';
+
+    const denied = await requireAccess('reports', reportId);
+    if (denied) return denied;
+
+    const { data } = await supabaseAdmin
+      .from('reports')
+      .select('*')
+      .eq('id', reportId)
+      .single();
+
+    const report = data as Report | null;
+    if (!report || report.status !== 'completed' || !report.data) {
+      return NextResponse.json(
+        { error: 'Report is not ready' },
+        { status: 409 }
+      );
+    }
+
+    const { body, contentType, fileName } = await renderReport(report, format);
+
+    return new NextResponse(body as BodyInit, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `${format === 'pdf' ? 'attachment' : 'inline'}; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('[Reports] Download error:', error);
+    return NextResponse.json(
+      { error: 'Failed to render report' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { collectSingleResponse } from '@/lib/ai-providers';
-import type { AIModel } from '@/lib/types';
+import { AI_MODELS } from '@/lib/types';
+import { requireUser } from '@/lib/supabase-server';
 
 export async function GET(request: NextRequest) {
-  const models: AIModel[] = ['chatgpt', 'claude', 'gemini', 'perplexity', 'copilot'];
+  const denied = await requireUser();
+  if (denied) return denied;
+
   const testPrompt = 'Say hello in one word.';
 
   const results: Record<string, { success: boolean; error?: string; hasResponse: boolean }> = {};
 
-  for (const model of models) {
+  for (const model of AI_MODELS) {
     try {
       const response = await collectSingleResponse(testPrompt, model);
       results[model] = {
@@ -1,14 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-
-// Server-side Supabase client
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+import { computeResponseMetrics, toMetricsRow } from '@/lib/collection/metrics';
+import { createRouteClient, requireAccess } from '@/lib/supabase-server';
 
 export async function POST(request: NextRequest) {
   try {
+    const supabase = await createRouteClient();
     const body = await request.json();
     const { projectId } = body;
 
@@ -19,6 +15,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const denied = await requireAccess('projects', projectId, 'collection:run');
+    if (denied) return denied;
+
     // Get all prompts for this project
     const { data: prompts } = await supabase
       .from('prompts')
@@ -38,7 +37,7 @@ export async function POST(request: NextRequest) {
     // Get response stats
     const { data: responses } = await supabase
       .from('responses')
-      .select('mentions_brand, cites_domain, sentiment_score')
+      .select('mentions_brand, cites_domain, sentiment_score, brand_rank')
       .in('prompt_id', promptIds);
 
     if (!responses || responses.length === 0) {
@@ -49,39 +48,21 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    const total = responses.length;
-    const mentions = responses.filter(r => r.mentions_brand).length;
-    const citations = responses.filter(r => r.cites_domain).length;
-
-    // Calculate average sentiment (only from non-null values)
-    const sentimentValues = responses
-      .map(r => r.sentiment_score)
-      .filter((s): s is number => s !== null);
-    const avgSentiment = sentimentValues.length > 0
-      ? sentimentValues.reduce((sum, s) => sum + s, 0) / sentimentValues.length
-      : 0.5; // Default to neutral
-
-    // Calculate visibility score (weighted: mentions 60%, citations 40%)
-    const mentionRate = total > 0 ? (mentions / total) * 100 : 0;
-    const citationRate = total > 0 ? (citations / total) * 100 : 0;
-    const visibilityScore = (mentionRate * 0.6) + (citationRate * 0.4);
-
+    const computed = computeResponseMetrics(responses);
     const today = new Date().toISOString().split('T')[0];
 
     const metrics = {
       project_id: projectId,
       prompt_id: null, // Aggregate metrics for the whole project
+      ai_model: null,
       date: today,
-      visibility_score: Math.round(visibilityScore * 10) / 10,
-      mention_count: mentions,
-      citation_count: citations,
-      sentiment_avg: Math.round(avgSentiment * 100) / 100,
+      ...toMetricsRow(computed),
     };
 
     // Upsert to visibility_metrics
     const { error } = await supabase
       .from('visibility_metrics')
-      .upsert(metrics, { onConflict: 'project_id,prompt_id,date' });
+      .upsert(metrics, { onConflict: 'project_id,prompt_id,ai_model,date' });
 
     if (error) {
       console.error('Error updating visibility_metrics:', error);
@@ -96,12 +77,14 @@ export async function POST(request: NextRequest) {
       message: `Updated visibility metrics for project`,
       metrics,
       stats: {
-        totalResponses: total,
-        mentions,
-        citations,
-        mentionRate: mentionRate.toFixed(1) + '%',
-        citationRate: citationRate.toFixed(1) + '%',
-        sentimentAvg: avgSentiment.toFixed(2),
+        totalResponses: computed.total,
+        mentions: computed.mentions,
+        citations: computed.citations,
+        mentionRate: computed.mentionRate.toFixed(1) + '%',
+        citationRate: computed.citationRate.toFixed(1) + '%',
+        sentimentAvg: computed.sentimentAvg.toFixed(2),
+        avgPosition: computed.avgPosition,
+        top3Rate: computed.top3Rate.toFixed(1) + '%',
       },
     });
 
@@ -0,0 +1,12 @@
+/**
+ * GET /api/v1/openapi.json
+ *
+ * The OpenAPI document for the public API. No key needed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/api/v1/openapi';
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin));
+}
@@ -0,0 +1,45 @@
+/**
+ * GET /api/v1/projects/[projectId]/citations
+ *
+ * Sources cited by AI responses, newest first. Scope: citations:read
+ */
+
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { apiError, apiJson, pageRange, paginated, readQuery, requireApiProject } from '@/lib/api/v1/http';
+import { toApiCitation } from '@/lib/api/v1/resources';
+import { listCitationsQuery } from '@/lib/api/v1/routes';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await params;
+  const { auth, denied } = await requireApiProject(request, projectId, 'citations:read');
+  if (denied) return denied;
+
+  const { value: query, invalid } = readQuery(auth, request, listCitationsQuery);
+  if (invalid) return invalid;
+
+  const page = pageRange(query);
+  let citationsQuery = supabaseAdmin
+    .from('citations')
+    .select('*, responses!inner(prompt_id, ai_model, prompts!inner(monitors!inner(project_id)))')
+    .eq('responses.prompts.monitors.project_id', projectId)
+    .order('created_at', { ascending: false })
+    .range(page.offset, page.offset + page.limit);
+
+  if (query.domain) citationsQuery = citationsQuery.eq('cited_domain', query.domain.toLowerCase());
+  if (query.since) citationsQuery = citationsQuery.gte('created_at', query.since);
+  if (query.until) citationsQuery = citationsQuery.lt('created_at', query.until);
+
+  const { data, error } = await citationsQuery;
+
+  if (error) {
+    console.error('[API] Failed to list citations:', error);
+    return apiError(auth, 500, 'Failed to list citations');
+  }
+
+  const rows = (data || []) as unknown as Parameters<typeof toApiCitation>[0][];
+  return apiJson(auth, paginated(rows.map(toApiCitation), page));
+}
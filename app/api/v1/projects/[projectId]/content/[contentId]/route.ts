@@ -0,0 +1,37 @@
+/**
+ * GET /api/v1/projects/[projectId]/content/[contentId]
+ *
+ * One piece of generated content with its body. Scope: content:read
+ */
+
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { apiError, apiJson, requireApiProject } from '@/lib/api/v1/http';
+import { toApiContent } from '@/lib/api/v1/resources';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string; contentId: string }> }
+) {
+  const { projectId, contentId } = await params;
+  const { auth, denied } = await requireApiProject(request, projectId, 'content:read');
+  if (denied) return denied;
+
+  const { data, error } = await supabaseAdmin
+    .from('generated_content')
+    .select('*')
+    .eq('id', contentId)
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[API] Failed to load content:', error);
+    return apiError(auth, 500, 'Failed to load content');
+  }
+
+  if (!data) {
+    return apiError(auth, 404, 'Content not found');
+  }
+
+  return apiJson(auth, { data: toApiContent(data) });
+}
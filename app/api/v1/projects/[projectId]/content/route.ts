@@ -0,0 +1,42 @@
+/**
+ * GET /api/v1/projects/[projectId]/content
+ *
+ * Generated content without bodies, newest first. Scope: content:read
+ */
+
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { apiError, apiJson, pageRange, paginated, readQuery, requireApiProject } from '@/lib/api/v1/http';
+import { toApiContentSummary } from '@/lib/api/v1/resources';
+import { listContentQuery } from '@/lib/api/v1/routes';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await params;
+  const { auth, denied } = await requireApiProject(request, projectId, 'content:read');
+  if (denied) return denied;
+
+  const { value: query, invalid } = readQuery(auth, request, listContentQuery);
+  if (invalid) return invalid;
+
+  const page = pageRange(query);
+  let contentQuery = supabaseAdmin
+    .from('generated_content')
+    .select('id, prompt_id, title, content_type, status, word_count, seo_score, meta_description, created_at, updated_at')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .range(page.offset, page.offset + page.limit);
+
+  if (query.status) contentQuery = contentQuery.eq('status', query.status);
+
+  const { data, error } = await contentQuery;
+
+  if (error) {
+    console.error('[API] Failed to list content:', error);
+    return apiError(auth, 500, 'Failed to list content');
+  }
+
+  return apiJson(auth, paginated((data || []).map(toApiContentSummary), page));
+}
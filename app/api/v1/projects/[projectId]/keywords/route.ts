@@ -0,0 +1,93 @@
+/**
+ * GET  /api/v1/projects/[projectId]/keywords  - scope keywords:read
+ * POST /api/v1/projects/[projectId]/keywords  - scope keywords:write
+ *
+ * POST adds manual keywords; ones the project already tracks are updated
+ * with the values sent.
+ */
+
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { recordAuditEvent } from '@/lib/audit';
+import { apiError, apiJson, pageRange, paginated, readBody, readQuery, requireApiProject } from '@/lib/api/v1/http';
+import { toApiKeyword } from '@/lib/api/v1/resources';
+import { addKeywordsBody, listKeywordsQuery } from '@/lib/api/v1/routes';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await params;
+  const { auth, denied } = await requireApiProject(request, projectId, 'keywords:read');
+  if (denied) return denied;
+
+  const { value: query, invalid } = readQuery(auth, request, listKeywordsQuery);
+  if (invalid) return invalid;
+
+  const page = pageRange(query);
+  let keywordsQuery = supabaseAdmin
+    .from('keywords')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true })
+    .range(page.offset, page.offset + page.limit);
+
+  if (query.source) keywordsQuery = keywordsQuery.eq('source', query.source);
+
+  const { data, error } = await keywordsQuery;
+
+  if (error) {
+    console.error('[API] Failed to list keywords:', error);
+    return apiError(auth, 500, 'Failed to list keywords');
+  }
+
+  return apiJson(auth, paginated((data || []).map(toApiKeyword), page));
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await params;
+  const { auth, denied } = await requireApiProject(request, projectId, 'keywords:write');
+  if (denied) return denied;
+
+  const { value: body, invalid } = await readBody(auth, request, addKeywordsBody);
+  if (invalid) return invalid;
+
+  // Last one wins when the same keyword is sent twice; upsert rejects duplicates
+  const byKeyword = new Map(body.keywords.map(kw => [kw.keyword.toLowerCase().trim(), kw]));
+
+  const keywordsToUpsert = [...byKeyword].map(([keyword, kw]) => ({
+    project_id: projectId,
+    keyword,
+    search_volume: kw.search_volume ?? null,
+    cpc: kw.cpc ?? null,
+    difficulty: kw.difficulty ?? null,
+    intent_type: kw.intent_type ?? null,
+    url: kw.url ?? null,
+    source: 'manual',
+  }));
+
+  const { data, error } = await supabaseAdmin
+    .from('keywords')
+    .upsert(keywordsToUpsert as never, { onConflict: 'project_id,keyword' })
+    .select();
+
+  if (error) {
+    console.error('[API] Failed to add keywords:', error);
+    return apiError(auth, 500, 'Failed to add keywords');
+  }
+
+  await recordAuditEvent({
+    projectId,
+    action: 'keywords.import',
+    entityType: 'keywords',
+    changes: {
+      keywords: keywordsToUpsert.length,
+      api_key: { id: auth.key.id, name: auth.key.name },
+    },
+  });
+
+  return apiJson(auth, { data: (data || []).map(toApiKeyword) }, 201);
+}
@@ -0,0 +1,49 @@
+/**
+ * GET /api/v1/projects/[projectId]/metrics
+ *
+ * Daily visibility metrics, oldest first. Without filters this is the
+ * project-wide, all-model series the dashboard charts. Scope: metrics:read
+ */
+
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { apiError, apiJson, readQuery, requireApiProject } from '@/lib/api/v1/http';
+import { toApiMetric } from '@/lib/api/v1/resources';
+import { listMetricsQuery } from '@/lib/api/v1/routes';
+
+const DEFAULT_DAYS = 30;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await params;
+  const { auth, denied } = await requireApiProject(request, projectId, 'metrics:read');
+  if (denied) return denied;
+
+  const { value: query, invalid } = readQuery(auth, request, listMetricsQuery);
+  if (invalid) return invalid;
+
+  const from = query.from || new Date(Date.now() - DEFAULT_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const to = query.to || new Date().toISOString().split('T')[0];
+
+  let metricsQuery = supabaseAdmin
+    .from('visibility_metrics')
+    .select('*')
+    .eq('project_id', projectId)
+    .gte('date', from)
+    .lte('date', to)
+    .order('date', { ascending: true });
+
+  metricsQuery = query.prompt_id ? metricsQuery.eq('prompt_id', query.prompt_id) : metricsQuery.is('prompt_id', null);
+  metricsQuery = query.ai_model ? metricsQuery.eq('ai_model', query.ai_model) : metricsQuery.is('ai_model', null);
+
+  const { data, error } = await metricsQuery;
+
+  if (error) {
+    console.error('[API] Failed to list metrics:', error);
+    return apiError(auth, 500, 'Failed to list metrics');
+  }
+
+  return apiJson(auth, { data: (data || []).map(toApiMetric) });
+}
@@ -0,0 +1,32 @@
+/**
+ * GET /api/v1/projects/[projectId]/monitors
+ *
+ * Scope: monitors:read
+ */
+
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { apiError, apiJson, requireApiProject } from '@/lib/api/v1/http';
+import { toApiMonitor } from '@/lib/api/v1/resources';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await params;
+  const { auth, denied } = await requireApiProject(request, projectId, 'monitors:read');
+  if (denied) return denied;
+
+  const { data, error } = await supabaseAdmin
+    .from('monitors')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('[API] Failed to list monitors:', error);
+    return apiError(auth, 500, 'Failed to list monitors');
+  }
+
+  return apiJson(auth, { data: (data || []).map(toApiMonitor) });
+}
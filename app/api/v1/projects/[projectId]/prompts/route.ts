@@ -0,0 +1,127 @@
+/**
+ * GET  /api/v1/projects/[projectId]/prompts  - scope prompts:read
+ * POST /api/v1/projects/[projectId]/prompts  - scope prompts:write
+ *
+ * POST adds prompts to one of the project's monitors. Prompts the monitor
+ * already has (compared case-insensitively) are skipped and reported back.
+ */
+
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { recordAuditEvent } from '@/lib/audit';
+import { apiError, apiJson, pageRange, paginated, readBody, readQuery, requireApiProject } from '@/lib/api/v1/http';
+import { toApiPrompt } from '@/lib/api/v1/resources';
+import { importPromptsBody, listPromptsQuery } from '@/lib/api/v1/routes';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await params;
+  const { auth, denied } = await requireApiProject(request, projectId, 'prompts:read');
+  if (denied) return denied;
+
+  const { value: query, invalid } = readQuery(auth, request, listPromptsQuery);
+  if (invalid) return invalid;
+
+  const page = pageRange(query);
+  let promptsQuery = supabaseAdmin
+    .from('prompts')
+    .select('*, monitors!inner(project_id)')
+    .eq('monitors.project_id', projectId)
+    .order('created_at', { ascending: true })
+    .range(page.offset, page.offset + page.limit);
+
+  if (query.monitor_id) promptsQuery = promptsQuery.eq('monitor_id', query.monitor_id);
+
+  const { data, error } = await promptsQuery;
+
+  if (error) {
+    console.error('[API] Failed to list prompts:', error);
+    return apiError(auth, 500, 'Failed to list prompts');
+  }
+
+  return apiJson(auth, paginated((data || []).map(toApiPrompt), page));
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await params;
+  const { auth, denied } = await requireApiProject(request, projectId, 'prompts:write');
+  if (denied) return denied;
+
+  const { value: body, invalid } = await readBody(auth, request, importPromptsBody);
+  if (invalid) return invalid;
+
+  const { data: monitor } = await supabaseAdmin
+    .from('monitors')
+    .select('id')
+    .eq('id', body.monitor_id)
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  if (!monitor) {
+    return apiError(auth, 404, 'Monitor not found');
+  }
+
+  const { data: existingPrompts } = await supabaseAdmin
+    .from('prompts')
+    .select('prompt_text')
+    .eq('monitor_id', body.monitor_id);
+
+  const existing = new Set(
+    ((existingPrompts || []) as { prompt_text: string }[]).map(p => p.prompt_text.toLowerCase().trim())
+  );
+
+  const toInsert: { monitor_id: string; prompt_text: string; intent_type: 'organic' | 'commercial'; tags: string[] }[] = [];
+  const skipped: string[] = [];
+
+  for (const prompt of body.prompts) {
+    const normalized = prompt.prompt_text.toLowerCase().trim();
+    if (!normalized) continue;
+
+    if (existing.has(normalized)) {
+      skipped.push(prompt.prompt_text);
+      continue;
+    }
+
+    existing.add(normalized);
+    toInsert.push({
+      monitor_id: body.monitor_id,
+      prompt_text: prompt.prompt_text.trim(),
+      intent_type: prompt.intent_type || 'organic',
+      tags: prompt.tags || [],
+    });
+  }
+
+  let created: Record<string, unknown>[] = [];
+  if (toInsert.length > 0) {
+    const { data, error } = await supabaseAdmin
+      .from('prompts')
+      .insert(toInsert as never)
+      .select();
+
+    if (error) {
+      console.error('[API] Failed to import prompts:', error);
+      return apiError(auth, 500, 'Failed to import prompts');
+    }
+
+    created = data || [];
+
+    await recordAuditEvent({
+      projectId,
+      action: 'prompts.import',
+      entityType: 'prompts',
+      changes: {
+        monitor_id: body.monitor_id,
+        created: created.length,
+        skipped: skipped.length,
+        api_key: { id: auth.key.id, name: auth.key.name },
+      },
+    });
+  }
+
+  return apiJson(auth, { data: { created: created.map(toApiPrompt), skipped } }, 201);
+}
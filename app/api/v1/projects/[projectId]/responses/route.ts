@@ -0,0 +1,46 @@
+/**
+ * GET /api/v1/projects/[projectId]/responses
+ *
+ * Collected AI responses, newest first. Scope: responses:read
+ */
+
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { apiError, apiJson, pageRange, paginated, readQuery, requireApiProject } from '@/lib/api/v1/http';
+import { toApiResponse } from '@/lib/api/v1/resources';
+import { listResponsesQuery } from '@/lib/api/v1/routes';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await params;
+  const { auth, denied } = await requireApiProject(request, projectId, 'responses:read');
+  if (denied) return denied;
+
+  const { value: query, invalid } = readQuery(auth, request, listResponsesQuery);
+  if (invalid) return invalid;
+
+  const page = pageRange(query);
+  let responsesQuery = supabaseAdmin
+    .from('responses')
+    .select('*, prompts!inner(monitors!inner(project_id))')
+    .eq('prompts.monitors.project_id', projectId)
+    .order('collected_at', { ascending: false })
+    .range(page.offset, page.offset + page.limit);
+
+  if (query.prompt_id) responsesQuery = responsesQuery.eq('prompt_id', query.prompt_id);
+  if (query.ai_model) responsesQuery = responsesQuery.eq('ai_model', query.ai_model);
+  if (query.mentions_brand !== undefined) responsesQuery = responsesQuery.eq('mentions_brand', query.mentions_brand);
+  if (query.since) responsesQuery = responsesQuery.gte('collected_at', query.since);
+  if (query.until) responsesQuery = responsesQuery.lt('collected_at', query.until);
+
+  const { data, error } = await responsesQuery;
+
+  if (error) {
+    console.error('[API] Failed to list responses:', error);
+    return apiError(auth, 500, 'Failed to list responses');
+  }
+
+  return apiJson(auth, paginated((data || []).map(toApiResponse), page));
+}
@@ -0,0 +1,32 @@
+/**
+ * GET /api/v1/projects/[projectId]
+ *
+ * One project with its Brand Bible fields. Scope: projects:read
+ */
+
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { apiError, apiJson, requireApiProject } from '@/lib/api/v1/http';
+import { toApiProject } from '@/lib/api/v1/resources';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  const { projectId } = await params;
+  const { auth, denied } = await requireApiProject(request, projectId, 'projects:read');
+  if (denied) return denied;
+
+  const { data, error } = await supabaseAdmin
+    .from('projects')
+    .select('*')
+    .eq('id', projectId)
+    .single();
+
+  if (error || !data) {
+    console.error('[API] Failed to load project:', error);
+    return apiError(auth, 500, 'Failed to load project');
+  }
+
+  return apiJson(auth, { data: toApiProject(data) });
+}
@@ -0,0 +1,29 @@
+/**
+ * GET /api/v1/projects
+ *
+ * Projects in the API key's workspace. Scope: projects:read
+ */
+
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireApiKey } from '@/lib/api/keys';
+import { apiError, apiJson } from '@/lib/api/v1/http';
+import { toApiProject } from '@/lib/api/v1/resources';
+
+export async function GET(request: NextRequest) {
+  const { auth, denied } = await requireApiKey(request, 'projects:read');
+  if (denied) return denied;
+
+  const { data, error } = await supabaseAdmin
+    .from('projects')
+    .select('*')
+    .eq('organization_id', auth.key.organization_id)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('[API] Failed to list projects:', error);
+    return apiError(auth, 500, 'Failed to list projects');
+  }
+
+  return apiJson(auth, { data: (data || []).map(toApiProject) });
+}
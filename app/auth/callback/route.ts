@@ -0,0 +1,27 @@
+/**
+ * GET /auth/callback
+ *
+ * Landing point for Supabase Auth email links (sign-up confirmation).
+ * Exchanges the one-time code for a session cookie, then continues to
+ * `next` (defaults to the brand list).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteClient } from '@/lib/supabase-server';
+
+export async function GET(request: NextRequest) {
+  const code = request.nextUrl.searchParams.get('code');
+  const requested = request.nextUrl.searchParams.get('next') || '/';
+  const next = requested.startsWith('/') && !requested.startsWith('//') ? requested : '/';
+
+  if (code) {
+    const supabase = await createRouteClient();
+    const { error } = await supabase.auth.exchangeCodeForSession(code);
+    if (!error) {
+      return NextResponse.redirect(new URL(next, request.url));
+    }
+    console.error('[Auth] Code exchange failed:', error);
+  }
+
+  return NextResponse.redirect(new URL('/login?error=auth_callback', request.url));
+}
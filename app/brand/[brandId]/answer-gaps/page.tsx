@@ -30,24 +30,41 @@ import {
   ArrowUpDown,
   Loader2,
   Target,
-  ExternalLink,
+  RefreshCw,
+  FileText,
 } from 'lucide-react'
-import { usePrompts, useProject, useCompetitors, type PromptWithResponses } from '@/hooks'
+import { toast } from 'sonner'
+import { AnswerGapDetailSheet } from '@/components/answer-gaps'
+import { useAnswerGaps, useAnalyzeAnswerGaps, useProject, useProjectRole, type AnswerGapWithPrompt } from '@/hooks'
+import { can } from '@/lib/permissions'
+import type { AnswerGapStatus } from '@/lib/types'
 
-type SortField = 'priority' | 'prompt_text' | 'competitor_count' | 'visibility_pct'
+type SortField = 'priority' | 'prompt_text' | 'competitor_count' | 'brand_mention_rate'
 type SortDirection = 'asc' | 'desc'
 
-interface GapAnalysis {
-  promptId: string
-  promptText: string
-  intentType: 'organic' | 'commercial'
-  monitorName: string
-  mentionsBrand: boolean
-  competitorsMentioned: string[]
-  competitorCount: number
-  totalResponses: number
-  visibilityPct: number
-  priority: 'high' | 'medium' | 'low'
+// 'active' is open and in progress
+type StatusFilter = 'active' | AnswerGapStatus
+
+const STATUS_LABELS: Record<AnswerGapStatus, string> = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  resolved: 'Resolved',
+  expired: 'Expired',
+  dismissed: 'Dismissed',
+}
+
+function getStatusColor(status: AnswerGapStatus) {
+  switch (status) {
+    case 'in_progress':
+      return 'bg-blue-100 text-blue-800 border-blue-200'
+    case 'resolved':
+      return 'bg-green-100 text-green-800 border-green-200'
+    case 'expired':
+    case 'dismissed':
+      return 'text-muted-foreground'
+    default:
+      return ''
+  }
 }
 
 function getPriorityColor(priority: string) {
@@ -67,77 +84,42 @@ export default function AnswerGapsPage() {
   const params = useParams()
   const brandId = params.brandId as string
 
-  const { data: prompts, isLoading: promptsLoading } = usePrompts(brandId)
+  const { data: gaps, isLoading: gapsLoading } = useAnswerGaps(brandId)
   const { data: project, isLoading: projectLoading } = useProject(brandId)
-  const { data: competitors, isLoading: competitorsLoading } = useCompetitors(brandId)
+  const analyze = useAnalyzeAnswerGaps()
+  const canAnalyze = can(useProjectRole(brandId), 'collection:run')
 
   const [searchQuery, setSearchQuery] = useState('')
   const [priorityFilter, setPriorityFilter] = useState('all')
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active')
   const [sortField, setSortField] = useState<SortField>('priority')
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
+  const [selectedGapId, setSelectedGapId] = useState<string | null>(null)
 
-  const isLoading = promptsLoading || projectLoading || competitorsLoading
-  const trackedBrand = project?.tracked_brand?.toLowerCase()
-  const competitorNames = competitors?.map(c => c.name.toLowerCase()) || []
-
-  // Analyze gaps - prompts where competitors are mentioned but brand isn't
-  const gapAnalysis: GapAnalysis[] = useMemo(() => {
-    if (!prompts || !trackedBrand) return []
-
-    return prompts.map((prompt: PromptWithResponses) => {
-      const responses = prompt.responses || []
-
-      const totalResponses = responses.length
-      const mentionsBrand = responses.some(r => r.mentions_brand)
-
-      // Find which competitors are mentioned
-      const competitorsMentioned = new Set<string>()
-      responses.forEach(r => {
-        const brands = r.brands_mentioned || []
-        brands.forEach(brand => {
-          const brandLower = brand.toLowerCase()
-          if (competitorNames.includes(brandLower) && brandLower !== trackedBrand) {
-            competitorsMentioned.add(brand)
-          }
-        })
-      })
-
-      // Calculate priority based on gap analysis
-      let priority: 'high' | 'medium' | 'low' = 'low'
-      if (!mentionsBrand && competitorsMentioned.size > 0) {
-        priority = competitorsMentioned.size >= 2 ? 'high' : 'medium'
-      } else if (!mentionsBrand && totalResponses > 0) {
-        priority = 'medium'
-      }
-
-      return {
-        promptId: prompt.id,
-        promptText: prompt.prompt_text,
-        intentType: prompt.intent_type,
-        monitorName: prompt.monitor?.name || 'Unknown',
-        mentionsBrand,
-        competitorsMentioned: Array.from(competitorsMentioned),
-        competitorCount: competitorsMentioned.size,
-        totalResponses,
-        visibilityPct: prompt.visibility_pct || 0,
-        priority,
-      }
-    }).filter(gap =>
-      // Only show actual gaps (not mentioned or competitors are mentioned)
-      !gap.mentionsBrand || gap.competitorCount > 0
-    )
-  }, [prompts, trackedBrand, competitorNames])
+  const isLoading = gapsLoading || projectLoading
+  const brandName = project?.tracked_brand || project?.name || 'Your brand'
+  const activeGaps = useMemo(
+    () => (gaps || []).filter(gap => gap.status === 'open' || gap.status === 'in_progress'),
+    [gaps]
+  )
+  const selectedGap = gaps?.find(gap => gap.id === selectedGapId) || null
+  const lastAnalyzed = gaps?.reduce<string | null>(
+    (latest, gap) => (!latest || gap.analyzed_at > latest ? gap.analyzed_at : latest),
+    null
+  )
 
   // Filter and sort gaps
   const filteredGaps = useMemo(() => {
-    let filtered = gapAnalysis
+    let filtered: AnswerGapWithPrompt[] = statusFilter === 'active'
+      ? activeGaps
+      : (gaps || []).filter(gap => gap.status === statusFilter)
 
     // Search filter
     if (searchQuery) {
       const query = searchQuery.toLowerCase()
       filtered = filtered.filter(gap =>
-        gap.promptText.toLowerCase().includes(query) ||
-        gap.competitorsMentioned.some(c => c.toLowerCase().includes(query))
+        (gap.prompt?.prompt_text || '').toLowerCase().includes(query) ||
+        gap.competitors.some(c => c.name.toLowerCase().includes(query))
       )
     }
 
@@ -147,38 +129,46 @@ export default function AnswerGapsPage() {
     }
 
     // Sort
-    filtered.sort((a, b) => {
+    return [...filtered].sort((a, b) => {
       let comparison = 0
       switch (sortField) {
         case 'priority':
-          const priorityOrder = { high: 3, medium: 2, low: 1 }
-          comparison = priorityOrder[a.priority] - priorityOrder[b.priority]
+          comparison = a.score - b.score
           break
         case 'prompt_text':
-          comparison = a.promptText.localeCompare(b.promptText)
+          comparison = (a.prompt?.prompt_text || '').localeCompare(b.prompt?.prompt_text || '')
           break
         case 'competitor_count':
-          comparison = a.competitorCount - b.competitorCount
+          comparison = a.competitors.length - b.competitors.length
           break
-        case 'visibility_pct':
-          comparison = a.visibilityPct - b.visibilityPct
+        case 'brand_mention_rate':
+          comparison = a.brand_mention_rate - b.brand_mention_rate
           break
       }
       return sortDirection === 'asc' ? comparison : -comparison
     })
-
-    return filtered
-  }, [gapAnalysis, searchQuery, priorityFilter, sortField, sortDirection])
+  }, [gaps, activeGaps, statusFilter, searchQuery, priorityFilter, sortField, sortDirection])
 
   // Stats
   const stats = useMemo(() => {
-    const highPriority = gapAnalysis.filter(g => g.priority === 'high').length
-    const mediumPriority = gapAnalysis.filter(g => g.priority === 'medium').length
-    const lowPriority = gapAnalysis.filter(g => g.priority === 'low').length
-    const totalGaps = gapAnalysis.length
+    const highPriority = activeGaps.filter(g => g.priority === 'high').length
+    const mediumPriority = activeGaps.filter(g => g.priority === 'medium').length
+    const lowPriority = activeGaps.filter(g => g.priority === 'low').length
+    const totalGaps = activeGaps.length
 
     return { highPriority, mediumPriority, lowPriority, totalGaps }
-  }, [gapAnalysis])
+  }, [activeGaps])
+
+  const handleAnalyze = async () => {
+    try {
+      const result = await analyze.mutateAsync(brandId)
+      toast.success('Gap analysis updated', {
+        description: `${result.gaps} gaps across ${result.analyzed} prompts${result.resolved > 0 ? `, ${result.resolved} resolved` : ''}${result.expired > 0 ? `, ${result.expired} expired` : ''}.`,
+      })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to analyze answer gaps')
+    }
+  }
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -207,11 +197,30 @@ export default function AnswerGapsPage() {
 
   return (
     <div className="flex flex-col gap-6 p-6">
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight">Answer Gap Analysis</h1>
-        <p className="text-muted-foreground">
-          Identify opportunities where competitors appear but your brand doesn&apos;t
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Answer Gap Analysis</h1>
+          <p className="text-muted-foreground">
+            Identify opportunities where competitors appear but your brand doesn&apos;t
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {lastAnalyzed && (
+            <span className="text-xs text-muted-foreground">
+              Analyzed {new Date(lastAnalyzed).toLocaleString()}
+            </span>
+          )}
+          {canAnalyze && (
+            <Button variant="outline" onClick={handleAnalyze} disabled={analyze.isPending}>
+              {analyze.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin mr-2" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-2" />
+              )}
+              Re-analyze
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -240,7 +249,7 @@ export default function AnswerGapsPage() {
           <CardContent>
             <div className="text-2xl font-bold text-red-600">{stats.highPriority}</div>
             <p className="text-xs text-muted-foreground">
-              Multiple competitors mentioned
+              Score 70 or more
             </p>
           </CardContent>
         </Card>
@@ -254,7 +263,7 @@ export default function AnswerGapsPage() {
           <CardContent>
             <div className="text-2xl font-bold text-yellow-600">{stats.mediumPriority}</div>
             <p className="text-xs text-muted-foreground">
-              Single competitor or no brand mention
+              Score 45 to 69
             </p>
           </CardContent>
         </Card>
@@ -268,7 +277,7 @@ export default function AnswerGapsPage() {
           <CardContent>
             <div className="text-2xl font-bold text-green-600">{stats.lowPriority}</div>
             <p className="text-xs text-muted-foreground">
-              Minor optimization opportunities
+              Score below 45
             </p>
           </CardContent>
         </Card>
@@ -282,9 +291,10 @@ export default function AnswerGapsPage() {
             <div>
               <p className="font-medium text-blue-900">How Gap Analysis Works</p>
               <p className="text-sm text-blue-700 mt-1">
-                We analyze all AI responses to your prompts and identify cases where competitors
-                are mentioned but your brand isn&apos;t. High priority gaps have multiple competitors
-                mentioned, indicating strong market presence you&apos;re missing out on.
+                After every collection we look at the last 30 days of AI responses to each prompt.
+                Prompts where your brand appears in fewer than half of the answers become gaps, scored
+                by how often you&apos;re missing and how strongly competitors show up instead. Open a gap
+                to see why competitors won, what you&apos;re missing and what to do about it.
               </p>
             </div>
           </div>
@@ -313,6 +323,17 @@ export default function AnswerGapsPage() {
             <SelectItem value="low">Low</SelectItem>
           </SelectContent>
         </Select>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="active">Active</SelectItem>
+            {(Object.keys(STATUS_LABELS) as AnswerGapStatus[]).map(status => (
+              <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
 
       {/* Gaps Table */}
@@ -329,7 +350,7 @@ export default function AnswerGapsPage() {
               <Target className="h-12 w-12 mx-auto mb-3 opacity-50" />
               <p>No content gaps found</p>
               <p className="text-sm mt-1">
-                {gapAnalysis.length === 0
+                {(gaps || []).length === 0
                   ? 'Collect AI responses to identify gaps'
                   : 'Try adjusting your filters'}
               </p>
@@ -366,49 +387,58 @@ export default function AnswerGapsPage() {
                       <ArrowUpDown className="h-3 w-3" />
                     </button>
                   </TableHead>
-                  <TableHead>Your Brand</TableHead>
-                  <TableHead className="text-right">
+                  <TableHead>
                     <button
-                      className="flex items-center gap-1 ml-auto hover:text-foreground"
-                      onClick={() => handleSort('visibility_pct')}
+                      className="flex items-center gap-1 hover:text-foreground"
+                      onClick={() => handleSort('brand_mention_rate')}
                     >
-                      Visibility
+                      Your Brand
                       <ArrowUpDown className="h-3 w-3" />
                     </button>
                   </TableHead>
+                  <TableHead className="text-right">Status</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {filteredGaps.map((gap) => (
-                  <TableRow key={gap.promptId} className="cursor-pointer hover:bg-muted/50">
+                  <TableRow
+                    key={gap.id}
+                    className="cursor-pointer hover:bg-muted/50"
+                    onClick={() => setSelectedGapId(gap.id)}
+                  >
                     <TableCell>
-                      <Badge className={getPriorityColor(gap.priority)} variant="outline">
-                        {gap.priority.charAt(0).toUpperCase() + gap.priority.slice(1)}
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        <Badge className={getPriorityColor(gap.priority)} variant="outline">
+                          {gap.priority.charAt(0).toUpperCase() + gap.priority.slice(1)}
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">{Math.round(gap.score)}</span>
+                      </div>
                     </TableCell>
                     <TableCell>
                       <div className="space-y-1">
-                        <span className="line-clamp-2 font-medium">{gap.promptText}</span>
-                        <span className="text-xs text-muted-foreground">{gap.monitorName}</span>
+                        <span className="line-clamp-2 font-medium">{gap.prompt?.prompt_text || 'Unknown prompt'}</span>
+                        <span className="text-xs text-muted-foreground">{gap.prompt?.monitor?.name || 'Unknown'}</span>
                       </div>
                     </TableCell>
                     <TableCell>
-                      <Badge variant={gap.intentType === 'commercial' ? 'default' : 'secondary'}>
-                        {gap.intentType}
-                      </Badge>
+                      {gap.prompt && (
+                        <Badge variant={gap.prompt.intent_type === 'commercial' ? 'default' : 'secondary'}>
+                          {gap.prompt.intent_type}
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell>
-                      {gap.competitorCount > 0 ? (
+                      {gap.competitors.length > 0 ? (
                         <div className="flex flex-wrap gap-1">
-                          {gap.competitorsMentioned.slice(0, 2).map(comp => (
-                            <Badge key={comp} variant="outline" className="text-xs">
+                          {gap.competitors.slice(0, 2).map(comp => (
+                            <Badge key={comp.name} variant="outline" className="text-xs">
                               <Building2 className="h-3 w-3 mr-1" />
-                              {comp}
+                              {comp.name}
                             </Badge>
                           ))}
-                          {gap.competitorsMentioned.length > 2 && (
+                          {gap.competitors.length > 2 && (
                             <Badge variant="outline" className="text-xs">
-                              +{gap.competitorsMentioned.length - 2}
+                              +{gap.competitors.length - 2}
                             </Badge>
                           )}
                         </div>
@@ -417,10 +447,10 @@ export default function AnswerGapsPage() {
                       )}
                     </TableCell>
                     <TableCell>
-                      {gap.mentionsBrand ? (
-                        <Badge variant="secondary" className="bg-green-100 text-green-800">
-                          Mentioned
-                        </Badge>
+                      {gap.brand_mention_rate > 0 ? (
+                        <span className="text-sm">
+                          In {Math.round(gap.brand_mention_rate)}% of {gap.response_count}
+                        </span>
                       ) : (
                         <Badge variant="outline" className="text-red-600 border-red-200">
                           Not mentioned
@@ -428,13 +458,12 @@ export default function AnswerGapsPage() {
                       )}
                     </TableCell>
                     <TableCell className="text-right">
-                      {gap.visibilityPct > 0 ? (
-                        <span className={gap.visibilityPct >= 50 ? 'text-green-600' : 'text-muted-foreground'}>
-                          {gap.visibilityPct.toFixed(1)}%
-                        </span>
-                      ) : (
-                        <span className="text-muted-foreground">—</span>
-                      )}
+                      <div className="flex items-center justify-end gap-1">
+                        {gap.content && <FileText className="h-3 w-3 text-muted-foreground" />}
+                        <Badge variant="outline" className={getStatusColor(gap.status)}>
+                          {STATUS_LABELS[gap.status]}
+                        </Badge>
+                      </div>
                     </TableCell>
                   </TableRow>
                 ))}
@@ -443,6 +472,13 @@ export default function AnswerGapsPage() {
           )}
         </CardContent>
       </Card>
+
+      <AnswerGapDetailSheet
+        projectId={brandId}
+        brandName={brandName}
+        gap={selectedGap}
+        onClose={() => setSelectedGapId(null)}
+      />
     </div>
   )
 }
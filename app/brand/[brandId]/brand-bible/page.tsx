@@ -46,11 +46,12 @@ import {
   FileJson,
   FileText,
 } from 'lucide-react'
-import { useProject, useUpdateProject } from '@/hooks'
-import type { BrandVoice } from '@/lib/types'
+import { useProject, useUpdateProject, useWorkspaceBranding } from '@/hooks'
+import type { BrandVoice, ConfigChangeSource } from '@/lib/types'
 import { BRAND_VOICE_OPTIONS } from '@/lib/types'
 import { toast } from 'sonner'
 import { exportBrandBibleAsPDF, exportBrandBibleAsJSON } from '@/lib/export-utils'
+import { BrandBibleHistory } from '@/components/brand-bible'
 
 // Reusable component for array inputs (tags)
 function ArrayInput({
@@ -129,15 +130,19 @@ export default function BrandBiblePage() {
   const projectId = params.brandId as string
 
   const { data: project, isLoading } = useProject(projectId)
+  const branding = useWorkspaceBranding(projectId)
   const updateProject = useUpdateProject()
 
   const [isEnhancing, setIsEnhancing] = useState(false)
   const [showEnhanceDialog, setShowEnhanceDialog] = useState(false)
   const [hasChanges, setHasChanges] = useState(false)
+  // Recorded on the config version; edits on top of an AI enhancement count as AI
+  const [changeSource, setChangeSource] = useState<ConfigChangeSource>('human')
 
   const [formData, setFormData] = useState({
     name: '',
     tracked_brand: '',
+    brand_aliases: [] as string[],
     website_url: '',
     industry: '',
     description: '',
@@ -155,9 +160,11 @@ export default function BrandBiblePage() {
 
   useEffect(() => {
     if (project) {
+      setChangeSource('human')
       setFormData({
         name: project.name || '',
         tracked_brand: project.tracked_brand || '',
+        brand_aliases: project.brand_aliases || [],
         website_url: project.website_url || '',
         industry: project.industry || '',
         description: project.description || '',
@@ -190,8 +197,10 @@ export default function BrandBiblePage() {
         id: projectId,
         ...formData,
         brand_voice: formData.brand_voice || undefined,
+        source: changeSource,
       })
       setHasChanges(false)
+      setChangeSource('human')
       toast.success('Brand Bible saved successfully')
     } catch (error) {
       toast.error('Failed to save Brand Bible')
@@ -224,6 +233,7 @@ export default function BrandBiblePage() {
         ...enhancedData,
       }))
       setHasChanges(true)
+      setChangeSource('ai_enhancement')
 
       if (suggestions && suggestions.length > 0) {
         toast.success(`AI enhanced your Brand Bible with ${suggestions.length} improvements`)
@@ -258,6 +268,7 @@ export default function BrandBiblePage() {
           </p>
         </div>
         <div className="flex items-center gap-3">
+          <BrandBibleHistory projectId={projectId} />
           <Button
             variant="outline"
             onClick={() => {
@@ -275,8 +286,9 @@ export default function BrandBiblePage() {
             variant="outline"
             onClick={() => {
               if (project) {
-                exportBrandBibleAsPDF(project)
-                toast.success('PDF file downloaded')
+                exportBrandBibleAsPDF(project, branding)
+                  .then(() => toast.success('PDF file downloaded'))
+                  .catch(() => toast.error('Failed to export PDF'))
               }
             }}
             disabled={!project}
@@ -378,6 +390,15 @@ export default function BrandBiblePage() {
                 rows={3}
               />
             </div>
+
+            <ArrayInput
+              label="Brand Aliases"
+              description="Other names AI answers may use for your brand (abbreviations, product names, former names)"
+              icon={Tags}
+              values={formData.brand_aliases}
+              placeholder="Add an alias..."
+              onChange={(values) => updateField('brand_aliases', values)}
+            />
           </CardContent>
         </Card>
 
@@ -16,6 +16,7 @@ import {
 } from '@/components/ui/table';
 import { AI_MODEL_LABELS, AI_MODEL_COLORS, type AIModel } from '@/lib/types';
 import { useCitations, useCitationsByDomain, useCitationStats, useResponseStats, useProject, type CitationWithResponse } from '@/hooks';
+import { CitationSourcesCard, OutreachTargetsCard, UnmentionedPagesCard } from '@/components/citations';
 
 function formatDate(dateString: string) {
   return new Date(dateString).toLocaleString('en-US', {
@@ -64,7 +65,8 @@ export default function CitationsPage() {
       const promptText = c.response?.prompt?.prompt_text || '';
       return (
         c.cited_domain.toLowerCase().includes(query) ||
-        (c.citation_context && c.citation_context.toLowerCase().includes(query)) ||
+        (c.citation_context?.title || '').toLowerCase().includes(query) ||
+        (c.citation_context?.snippet || '').toLowerCase().includes(query) ||
         promptText.toLowerCase().includes(query)
       );
     });
@@ -265,8 +267,13 @@ export default function CitationsPage() {
                           )}
                         </TableCell>
                         <TableCell className="max-w-[300px]">
+                          {citation.citation_context?.title && (
+                            <span className="line-clamp-1 text-sm font-medium">
+                              {citation.citation_context.title}
+                            </span>
+                          )}
                           <span className="line-clamp-2 text-sm text-muted-foreground">
-                            {citation.citation_context || 'No context available'}
+                            {citation.citation_context?.snippet || 'No context available'}
                           </span>
                         </TableCell>
                         <TableCell>
@@ -300,6 +307,12 @@ export default function CitationsPage() {
           </CardContent>
         </Card>
       </div>
+
+      <OutreachTargetsCard projectId={brandId} />
+
+      <UnmentionedPagesCard projectId={brandId} />
+
+      <CitationSourcesCard projectId={brandId} />
     </div>
   );
 }
@@ -2,9 +2,12 @@
 
 import { useParams } from 'next/navigation';
 import { StatsCards } from '@/components/dashboard/StatsCards';
+import { VisibilityConfidence } from '@/components/dashboard/VisibilityConfidence';
 import { VisibilityChart } from '@/components/dashboard/VisibilityChart';
 import { ModelDistribution } from '@/components/dashboard/ModelDistribution';
 import { ShareOfVoice } from '@/components/dashboard/ShareOfVoice';
+import { ShareOfVoiceTrend } from '@/components/dashboard/ShareOfVoiceTrend';
+import { CompetitorAlerts } from '@/components/dashboard/CompetitorAlerts';
 import { RecentResponses } from '@/components/dashboard/RecentResponses';
 import { TopBrands } from '@/components/dashboard/TopBrands';
 import { TopDomains } from '@/components/dashboard/TopDomains';
@@ -42,6 +45,10 @@ export default function DashboardPage() {
 
       <StatsCards projectId={brandId} />
 
+      <VisibilityConfidence projectId={brandId} />
+
+      <CompetitorAlerts projectId={brandId} />
+
       {/* Google Connect CTA - shown when not connected */}
       <GoogleConnectCTA projectId={brandId} />
 
@@ -68,6 +75,8 @@ export default function DashboardPage() {
         <RecentResponses projectId={brandId} />
         <ShareOfVoice projectId={brandId} />
       </div>
+
+      <ShareOfVoiceTrend projectId={brandId} />
     </div>
   );
 }
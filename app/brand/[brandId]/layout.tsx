@@ -1,10 +1,15 @@
 'use client';
 
-import { useParams, usePathname } from 'next/navigation';
+import { useParams, usePathname, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useProject } from '@/hooks/useProjects';
+import { useCurrentUser, useMemberships, useSignOut } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { NotificationCenter } from '@/components/alerts';
 import { cn } from '@/lib/utils';
+import { can, type Permission } from '@/lib/permissions';
+import { MEMBERSHIP_ROLE_LABELS } from '@/lib/types';
 import {
   ArrowLeft,
   LayoutDashboard,
@@ -25,10 +30,13 @@ import {
   BarChart3,
   Wand2,
   Search,
+  LogOut,
+  FileBarChart,
 } from 'lucide-react';
 import { useState } from 'react';
 
-const navigation = [
+// Pages whose only purpose is an action the role may not be allowed to take
+const navigation: { name: string; href: string; icon: typeof LayoutDashboard; permission?: Permission }[] = [
   { name: 'Dashboard', href: 'dashboard', icon: LayoutDashboard },
   { name: 'Brand Bible', href: 'brand-bible', icon: BookOpen },
   { name: 'Prompts', href: 'prompts', icon: MessageSquare },
@@ -40,9 +48,10 @@ const navigation = [
   { name: 'Google Insights', href: 'google-insights', icon: Search },
   { name: 'Keyword Fueler', href: 'keyword-fueler', icon: Fuel },
   { name: 'Launchpad', href: 'visibility-launchpad', icon: Rocket },
-  { name: 'Create Content', href: 'create-content', icon: PenTool },
-  { name: 'Content Optimizer', href: 'content-optimizer', icon: Wand2 },
+  { name: 'Create Content', href: 'create-content', icon: PenTool, permission: 'content:write' },
+  { name: 'Content Optimizer', href: 'content-optimizer', icon: Wand2, permission: 'content:write' },
   { name: 'Content Library', href: 'content-library', icon: Library },
+  { name: 'Reports', href: 'reports', icon: FileBarChart },
 ];
 
 export default function BrandLayout({
@@ -53,9 +62,26 @@ export default function BrandLayout({
   const params = useParams();
   const pathname = usePathname();
   const brandId = params.brandId as string;
+  const router = useRouter();
   const [collapsed, setCollapsed] = useState(false);
 
   const { data: project, isLoading } = useProject(brandId);
+  const { data: user } = useCurrentUser();
+  const { data: memberships } = useMemberships();
+  const signOut = useSignOut();
+
+  const membership = memberships?.find(
+    (m) => m.organization_id === project?.organization_id
+  );
+  const role = membership?.role;
+  const visibleNavigation = navigation.filter(
+    (item) => !item.permission || can(role, item.permission)
+  );
+
+  const handleSignOut = async () => {
+    await signOut.mutateAsync();
+    router.replace('/login');
+  };
 
   if (isLoading) {
     return (
@@ -118,7 +144,7 @@ export default function BrandLayout({
 
         {/* Navigation */}
         <nav className="flex-1 space-y-1 p-2 overflow-y-auto">
-          {navigation.map((item) => {
+          {visibleNavigation.map((item) => {
             const href = `/brand/${brandId}/${item.href}`;
             const isActive = pathname === href || pathname.startsWith(href + '/');
 
@@ -142,8 +168,9 @@ export default function BrandLayout({
           })}
         </nav>
 
-        {/* Settings */}
+        {/* Notifications & Settings */}
         <div className="border-t p-2 space-y-1">
+          <NotificationCenter projectId={brandId} collapsed={collapsed} />
           <Link
             href={`/brand/${brandId}/settings`}
             className={cn(
@@ -157,6 +184,37 @@ export default function BrandLayout({
           </Link>
         </div>
 
+        {/* Account */}
+        <div className="border-t p-2">
+          <div className={cn('flex items-center gap-2 px-1', collapsed && 'justify-center px-0')}>
+            {!collapsed && (
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <p className="truncate text-sm font-medium">
+                    {membership?.organization.name || 'Workspace'}
+                  </p>
+                  {role && (
+                    <Badge variant="secondary" className="shrink-0 text-xs">
+                      {MEMBERSHIP_ROLE_LABELS[role]}
+                    </Badge>
+                  )}
+                </div>
+                <p className="truncate text-xs text-muted-foreground">{user?.email}</p>
+              </div>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={handleSignOut}
+              disabled={signOut.isPending}
+              title="Sign out"
+            >
+              <LogOut className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
         {/* Collapse Toggle */}
         <Button
           variant="ghost"
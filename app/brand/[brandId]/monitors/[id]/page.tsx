@@ -1,11 +1,14 @@
 'use client';
 
+import { useState } from 'react';
 import { useParams } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { ArrowLeft, Play, Settings, Plus } from 'lucide-react';
+import { ArrowLeft, Play, Settings, Loader2 } from 'lucide-react';
 import Link from 'next/link';
 import {
   Table,
@@ -15,53 +18,103 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { AI_MODEL_LABELS, type AIModel } from '@/lib/types';
-
-// Placeholder data
-const monitor = {
-  id: '1',
-  name: 'Product Reviews Monitor',
-  language: 'en',
-  location: 'US',
-  ai_models: ['chatgpt', 'claude', 'gemini'] as AIModel[],
-  is_active: true,
-  created_at: '2024-01-01',
-};
-
-const prompts = [
-  {
-    id: '1',
-    prompt_text: 'What are the best project management tools?',
-    intent_type: 'commercial' as const,
-    responses_count: 25,
-    mentions_rate: 68,
-  },
-  {
-    id: '2',
-    prompt_text: 'How to improve team productivity?',
-    intent_type: 'organic' as const,
-    responses_count: 18,
-    mentions_rate: 45,
-  },
-  {
-    id: '3',
-    prompt_text: 'Best tools for remote team collaboration',
-    intent_type: 'commercial' as const,
-    responses_count: 32,
-    mentions_rate: 72,
-  },
-];
-
-const recentRuns = [
-  { date: '2024-01-15 10:30', prompts: 15, responses: 75, mentions: 52 },
-  { date: '2024-01-14 10:30', prompts: 15, responses: 75, mentions: 48 },
-  { date: '2024-01-13 10:30', prompts: 15, responses: 75, mentions: 55 },
-];
+import { MonitorChangesDigest, RunHistoryTable } from '@/components/monitors';
+import { useMonitor, usePrompts, usePersonas, useProject, useProjectRole } from '@/hooks';
+import { can } from '@/lib/permissions';
+import { proportionInterval } from '@/lib/response-analysis/confidence';
+import { AI_MODEL_LABELS, type Monitor } from '@/lib/types';
 
 export default function MonitorDetailPage() {
   const params = useParams();
   const brandId = params.brandId as string;
   const monitorId = params.id as string;
+  const queryClient = useQueryClient();
+  const [isRunning, setIsRunning] = useState(false);
+  const canCollect = can(useProjectRole(brandId), 'collection:run');
+
+  const { data: monitorData, isLoading } = useMonitor(monitorId);
+  const { data: prompts } = usePrompts(undefined, monitorId);
+  const { data: personas } = usePersonas(brandId);
+  const { data: project } = useProject(brandId);
+  const monitor = monitorData as Monitor | undefined;
+
+  const totalResponses = prompts?.reduce((sum, p) => sum + (p.responses?.length || 0), 0) || 0;
+  const totalMentions = prompts?.reduce(
+    (sum, p) => sum + (p.responses?.filter(r => r.mentions_brand).length || 0),
+    0
+  ) || 0;
+  const mentionRate = totalResponses > 0 ? Math.round((totalMentions / totalResponses) * 100) : 0;
+  const mentionMargin = Math.round(proportionInterval(totalMentions, totalResponses).margin);
+
+  // Mention rate per persona, for monitors that collect as personas
+  const personaStats = (personas || [])
+    .filter(persona => monitor?.persona_ids?.includes(persona.id))
+    .map(persona => {
+      const responses = (prompts || []).flatMap(p => p.responses || []).filter(r => r.persona_id === persona.id);
+      const mentions = responses.filter(r => r.mentions_brand).length;
+      return {
+        id: persona.id,
+        name: persona.name,
+        responses: responses.length,
+        mentionRate: responses.length > 0 ? Math.round((mentions / responses.length) * 100) : 0,
+      };
+    });
+
+  const handleRunNow = async () => {
+    setIsRunning(true);
+    toast.info(`Starting collection for ${monitor?.name || 'monitor'}...`);
+
+    try {
+      const response = await fetch('/api/collect-all', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ monitorId }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Collection failed');
+      }
+
+      const result = await response.json();
+
+      await queryClient.invalidateQueries({ queryKey: ['collection-runs'] });
+      await queryClient.invalidateQueries({ queryKey: ['prompts'] });
+
+      if (result.status === 'interrupted') {
+        toast.warning('Collection paused before finishing', {
+          description: 'Open the run from Run History to resume it.',
+        });
+      } else {
+        toast.success('Collection complete!', {
+          description: `Collected ${result.results.responsessSaved} responses from ${result.results.processed} prompts.`,
+        });
+      }
+    } catch (error) {
+      console.error('Collection error:', error);
+      toast.error('Failed to run collection. Please try again.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!monitor) {
+    return (
+      <div className="flex flex-col items-center gap-4 p-12 text-center">
+        <p className="text-muted-foreground">Monitor not found</p>
+        <Link href={`/brand/${brandId}/monitors`}>
+          <Button variant="outline">Back to Monitors</Button>
+        </Link>
+      </div>
+    );
+  }
 
   return (
     <div className="flex flex-col gap-6 p-6">
@@ -79,17 +132,24 @@ export default function MonitorDetailPage() {
             </Badge>
           </div>
           <p className="text-muted-foreground">
-            {monitor.language.toUpperCase()} / {monitor.location} • Created {monitor.created_at}
+            {monitor.language.toUpperCase()} / {monitor.location} • Created{' '}
+            {new Date(monitor.created_at).toLocaleDateString()}
           </p>
         </div>
         <div className="flex items-center gap-2">
           <Button variant="outline" size="icon">
             <Settings className="h-4 w-4" />
           </Button>
-          <Button>
-            <Play className="mr-2 h-4 w-4" />
-            Run Now
-          </Button>
+          {canCollect && (
+            <Button onClick={handleRunNow} disabled={isRunning || !prompts?.length}>
+              {isRunning ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Play className="mr-2 h-4 w-4" />
+              )}
+              {isRunning ? 'Running...' : 'Run Now'}
+            </Button>
+          )}
         </div>
       </div>
 
@@ -102,7 +162,7 @@ export default function MonitorDetailPage() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">15</div>
+            <div className="text-2xl font-bold">{prompts?.length || 0}</div>
           </CardContent>
         </Card>
         <Card>
@@ -112,7 +172,7 @@ export default function MonitorDetailPage() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">225</div>
+            <div className="text-2xl font-bold">{totalResponses}</div>
           </CardContent>
         </Card>
         <Card>
@@ -122,7 +182,10 @@ export default function MonitorDetailPage() {
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">62%</div>
+            <div className="text-2xl font-bold">{mentionRate}%</div>
+            {totalResponses > 1 && (
+              <p className="text-xs text-muted-foreground">± {mentionMargin}% (95% confidence)</p>
+            )}
           </CardContent>
         </Card>
         <Card>
@@ -139,25 +202,50 @@ export default function MonitorDetailPage() {
                 </Badge>
               ))}
             </div>
+            {(monitor.samples_per_prompt || 1) > 1 && (
+              <p className="mt-2 text-xs text-muted-foreground">
+                {monitor.samples_per_prompt} samples per prompt
+              </p>
+            )}
           </CardContent>
         </Card>
       </div>
 
+      {personaStats.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Mention Rate by Persona
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-3 md:grid-cols-3">
+              {personaStats.map((stat) => (
+                <div key={stat.id} className="flex items-center justify-between rounded-md border p-3">
+                  <div>
+                    <p className="font-medium">{stat.name}</p>
+                    <p className="text-xs text-muted-foreground">{stat.responses} responses</p>
+                  </div>
+                  <span className={`text-xl font-bold ${stat.mentionRate >= 50 ? 'text-green-600' : ''}`}>
+                    {stat.mentionRate}%
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <Tabs defaultValue="prompts" className="w-full">
         <TabsList>
           <TabsTrigger value="prompts">Prompts</TabsTrigger>
+          <TabsTrigger value="changes">What Changed</TabsTrigger>
           <TabsTrigger value="runs">Run History</TabsTrigger>
           <TabsTrigger value="settings">Settings</TabsTrigger>
         </TabsList>
 
         <TabsContent value="prompts" className="mt-6">
-          <div className="flex items-center justify-between mb-4">
-            <h2 className="text-lg font-semibold">Monitor Prompts</h2>
-            <Button size="sm">
-              <Plus className="mr-2 h-4 w-4" />
-              Add Prompt
-            </Button>
-          </div>
+          <h2 className="text-lg font-semibold mb-4">Monitor Prompts</h2>
           <div className="rounded-md border">
             <Table>
               <TableHeader>
@@ -169,53 +257,45 @@ export default function MonitorDetailPage() {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {prompts.map((prompt) => (
-                  <TableRow key={prompt.id}>
-                    <TableCell className="font-medium">
-                      {prompt.prompt_text}
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant={prompt.intent_type === 'commercial' ? 'default' : 'secondary'}>
-                        {prompt.intent_type}
-                      </Badge>
-                    </TableCell>
-                    <TableCell className="text-right">{prompt.responses_count}</TableCell>
-                    <TableCell className="text-right">
-                      <span className={prompt.mentions_rate >= 50 ? 'text-green-600' : ''}>
-                        {prompt.mentions_rate}%
-                      </span>
-                    </TableCell>
-                  </TableRow>
-                ))}
+                {(prompts || []).map((prompt) => {
+                  const responsesCount = prompt.responses?.length || 0;
+                  const mentions = prompt.responses?.filter(r => r.mentions_brand).length || 0;
+                  const promptMentionRate = responsesCount > 0
+                    ? Math.round((mentions / responsesCount) * 100)
+                    : 0;
+
+                  return (
+                    <TableRow key={prompt.id}>
+                      <TableCell className="font-medium">
+                        {prompt.prompt_text}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={prompt.intent_type === 'commercial' ? 'default' : 'secondary'}>
+                          {prompt.intent_type}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{responsesCount}</TableCell>
+                      <TableCell className="text-right">
+                        <span className={promptMentionRate >= 50 ? 'text-green-600' : ''}>
+                          {promptMentionRate}%
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
               </TableBody>
             </Table>
           </div>
         </TabsContent>
 
+        <TabsContent value="changes" className="mt-6">
+          <h2 className="text-lg font-semibold mb-4">What Changed Since the Last Run</h2>
+          <MonitorChangesDigest brandId={brandId} monitorId={monitorId} brandName={project?.tracked_brand} />
+        </TabsContent>
+
         <TabsContent value="runs" className="mt-6">
-          <h2 className="text-lg font-semibold mb-4">Recent Runs</h2>
-          <div className="rounded-md border">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Date</TableHead>
-                  <TableHead className="text-right">Prompts</TableHead>
-                  <TableHead className="text-right">Responses</TableHead>
-                  <TableHead className="text-right">Mentions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {recentRuns.map((run, index) => (
-                  <TableRow key={index}>
-                    <TableCell>{run.date}</TableCell>
-                    <TableCell className="text-right">{run.prompts}</TableCell>
-                    <TableCell className="text-right">{run.responses}</TableCell>
-                    <TableCell className="text-right">{run.mentions}</TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          </div>
+          <h2 className="text-lg font-semibold mb-4">Run History</h2>
+          <RunHistoryTable brandId={brandId} monitorId={monitorId} />
         </TabsContent>
 
         <TabsContent value="settings" className="mt-6">
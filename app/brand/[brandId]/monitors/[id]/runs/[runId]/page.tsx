@@ -0,0 +1,234 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, Loader2, Play, RotateCcw } from 'lucide-react';
+import { RunStatusBadge } from '@/components/monitors';
+import { useCollectionRun, useResumeCollectionRun, useRetryFailedRunItems, useProjectRole } from '@/hooks';
+import { can } from '@/lib/permissions';
+import { canClaimRun, isStaleRun } from '@/lib/collection/run-state';
+import { AI_MODEL_LABELS, type CollectionRunItemStatus } from '@/lib/types';
+
+const ITEM_STATUS_VARIANTS: Record<CollectionRunItemStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  running: 'secondary',
+  succeeded: 'default',
+  failed: 'destructive',
+};
+
+export default function CollectionRunDetailPage() {
+  const params = useParams();
+  const brandId = params.brandId as string;
+  const monitorId = params.id as string;
+  const runId = params.runId as string;
+
+  const { data, isLoading } = useCollectionRun(runId);
+  const resumeRun = useResumeCollectionRun();
+  const retryFailed = useRetryFailedRunItems();
+  const canRun = can(useProjectRole(brandId), 'collection:run');
+
+  const isBusy = resumeRun.isPending || retryFailed.isPending;
+
+  const handleResume = async () => {
+    try {
+      const result = await resumeRun.mutateAsync(runId);
+      toast.success(
+        result.status === 'interrupted' ? 'Run paused again before finishing' : 'Run resumed',
+        { description: `${result.results.responsessSaved} responses saved in total.` }
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to resume run');
+    }
+  };
+
+  const handleRetry = async () => {
+    try {
+      const result = await retryFailed.mutateAsync(runId);
+      toast.success('Retried failed items', {
+        description: `${result.results.failed} items still failing.`,
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to retry items');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="flex flex-col items-center gap-4 p-12 text-center">
+        <p className="text-muted-foreground">Run not found</p>
+        <Link href={`/brand/${brandId}/monitors/${monitorId}`}>
+          <Button variant="outline">Back to Monitor</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const { run, items } = data;
+  const pendingCount = items.filter(i => i.status === 'pending' || i.status === 'running').length;
+  const failedCount = items.filter(i => i.status === 'failed').length;
+  const succeededCount = items.filter(i => i.status === 'succeeded').length;
+  const hasSamples = items.some(i => (i.sample_index || 0) > 0);
+  // A run left 'running' by a request that died can be picked up again
+  const canResume = canRun && pendingCount > 0 && (run.status === 'interrupted' || isStaleRun(run));
+  const canRetry = canRun && failedCount > 0 && canClaimRun(run);
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div className="flex items-center gap-4">
+        <Link href={`/brand/${brandId}/monitors/${monitorId}`}>
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div className="flex-1">
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold tracking-tight">Collection Run</h1>
+            <RunStatusBadge status={run.status} />
+          </div>
+          <p className="text-muted-foreground capitalize">
+            {run.trigger} • Started {new Date(run.started_at).toLocaleString()}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {canResume && (
+            <Button onClick={handleResume} disabled={isBusy}>
+              {resumeRun.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Play className="mr-2 h-4 w-4" />
+              )}
+              Resume
+            </Button>
+          )}
+          {canRetry && (
+            <Button variant="outline" onClick={handleRetry} disabled={isBusy}>
+              {retryFailed.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCcw className="mr-2 h-4 w-4" />
+              )}
+              Retry Failed
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {run.error && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="pt-6 text-sm text-red-700">{run.error}</CardContent>
+        </Card>
+      )}
+
+      {/* Stats */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Prompts
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {run.prompts_processed}/{run.prompts_total}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Succeeded
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-green-600">{succeededCount}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Failed
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-red-600">{failedCount}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Pending
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{pendingCount}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[360px]">Prompt</TableHead>
+              <TableHead>Model</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Latency</TableHead>
+              <TableHead className="text-right">Attempts</TableHead>
+              <TableHead>Error</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item) => (
+              <TableRow key={item.id}>
+                <TableCell className="font-medium">
+                  <span className="line-clamp-2">{item.prompt?.prompt_text || 'Deleted prompt'}</span>
+                  {item.persona && (
+                    <Badge variant="secondary" className="mt-1 text-xs">{item.persona.name}</Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {AI_MODEL_LABELS[item.ai_model] || item.ai_model}
+                  {hasSamples && (
+                    <span className="ml-1 text-xs text-muted-foreground">#{(item.sample_index || 0) + 1}</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={ITEM_STATUS_VARIANTS[item.status]} className="capitalize">
+                    {item.status}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right text-muted-foreground">
+                  {item.latency_ms !== null ? `${(item.latency_ms / 1000).toFixed(1)}s` : '—'}
+                </TableCell>
+                <TableCell className="text-right">{item.attempts}</TableCell>
+                <TableCell className="max-w-[280px] text-sm text-red-600">
+                  <span className="line-clamp-2">{item.error}</span>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { PromptTrendChart } from '@/components/prompts';
+import { usePrompt } from '@/hooks';
+import { AI_MODEL_LABELS, type Prompt, type Response } from '@/lib/types';
+
+type PromptDetail = Prompt & {
+  monitor?: { name: string } | null;
+  responses?: Response[];
+};
+
+export default function PromptDetailPage() {
+  const params = useParams();
+  const brandId = params.brandId as string;
+  const promptId = params.promptId as string;
+
+  const { data, isLoading } = usePrompt(promptId);
+  const prompt = data as PromptDetail | undefined;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!prompt) {
+    return (
+      <div className="flex flex-col items-center gap-4 p-12 text-center">
+        <p className="text-muted-foreground">Prompt not found</p>
+        <Link href={`/brand/${brandId}/prompts`}>
+          <Button variant="outline">Back to Prompts</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const responses = [...(prompt.responses || [])].sort(
+    (a, b) => new Date(b.collected_at).getTime() - new Date(a.collected_at).getTime()
+  );
+  const mentions = responses.filter(r => r.mentions_brand).length;
+  const mentionRate = responses.length > 0 ? Math.round((mentions / responses.length) * 100) : 0;
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div className="flex items-center gap-4">
+        <Link href={`/brand/${brandId}/prompts`}>
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div className="flex-1">
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold tracking-tight">{prompt.prompt_text}</h1>
+            <Badge variant={prompt.intent_type === 'commercial' ? 'default' : 'secondary'}>
+              {prompt.intent_type}
+            </Badge>
+          </div>
+          <p className="text-muted-foreground">
+            {prompt.monitor?.name || 'No monitor'}
+            {prompt.last_collected_at && (
+              <> • Last collected {new Date(prompt.last_collected_at).toLocaleString()}</>
+            )}
+          </p>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Visibility
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {prompt.visibility_pct != null ? `${prompt.visibility_pct.toFixed(1)}%` : '—'}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Total Responses
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{responses.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Mention Rate
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{mentionRate}%</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <PromptTrendChart promptId={promptId} />
+
+      <div>
+        <h2 className="text-lg font-semibold mb-4">Recent Responses</h2>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead className="w-[480px]">Response</TableHead>
+                <TableHead>Mentioned</TableHead>
+                <TableHead>Collected</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {responses.slice(0, 20).map((response) => (
+                <TableRow key={response.id}>
+                  <TableCell>{AI_MODEL_LABELS[response.ai_model] || response.ai_model}</TableCell>
+                  <TableCell>
+                    <span className="line-clamp-2 text-sm text-muted-foreground">
+                      {response.response_text}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    {response.mentions_brand ? (
+                      <Badge variant="secondary">
+                        Mentioned{response.brand_rank != null && ` #${response.brand_rank}`}
+                      </Badge>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(response.collected_at).toLocaleDateString()}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {responses.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    No responses collected yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  );
+}
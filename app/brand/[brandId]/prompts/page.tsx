@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useMemo } from 'react';
-import { useParams } from 'next/navigation';
+import { useParams, useRouter } from 'next/navigation';
 import { Badge } from '@/components/ui/badge';
 import { Search, ArrowUpDown, Loader2, Upload } from 'lucide-react';
 import { Input } from '@/components/ui/input';
@@ -21,7 +21,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { usePrompts, useMonitors } from '@/hooks';
+import { usePrompts, useMonitors, useProjectRole } from '@/hooks';
+import { can } from '@/lib/permissions';
 import { AddPromptDialog } from '@/components/prompts';
 import { ExcelUpload } from '@/components/ui/excel-upload';
 import { PROMPT_COLUMNS, ParsedRow } from '@/lib/excel-utils';
@@ -34,10 +35,12 @@ type SortDirection = 'asc' | 'desc';
 export default function PromptsPage() {
   const params = useParams();
   const brandId = params.brandId as string;
+  const router = useRouter();
   const queryClient = useQueryClient();
 
   const { data: prompts, isLoading } = usePrompts(brandId);
   const { data: monitors } = useMonitors(brandId);
+  const canManagePrompts = can(useProjectRole(brandId), 'prompts:manage');
 
   const [searchQuery, setSearchQuery] = useState('');
   const [monitorFilter, setMonitorFilter] = useState('all');
@@ -155,24 +158,26 @@ export default function PromptsPage() {
             Manage prompts used to query AI models
           </p>
         </div>
-        <div className="flex items-center gap-2">
-          <ExcelUpload
-            columns={PROMPT_COLUMNS}
-            onImport={handleBulkImport}
-            templateName="prompts-template"
-            title="Bulk Import Prompts"
-            description="Upload an Excel or CSV file to import multiple prompts at once."
-            uniqueKey="prompt_text"
-            existingValues={existingPromptTexts}
-            trigger={
-              <Button variant="outline">
-                <Upload className="mr-2 h-4 w-4" />
-                Upload Excel
-              </Button>
-            }
-          />
-          <AddPromptDialog projectId={brandId} />
-        </div>
+        {canManagePrompts && (
+          <div className="flex items-center gap-2">
+            <ExcelUpload
+              columns={PROMPT_COLUMNS}
+              onImport={handleBulkImport}
+              templateName="prompts-template"
+              title="Bulk Import Prompts"
+              description="Upload an Excel or CSV file to import multiple prompts at once."
+              uniqueKey="prompt_text"
+              existingValues={existingPromptTexts}
+              trigger={
+                <Button variant="outline">
+                  <Upload className="mr-2 h-4 w-4" />
+                  Upload Excel
+                </Button>
+              }
+            />
+            <AddPromptDialog projectId={brandId} />
+          </div>
+        )}
       </div>
 
       <div className="flex items-center gap-4">
@@ -277,7 +282,11 @@ export default function PromptsPage() {
                 </TableRow>
               ) : (
                 filteredPrompts.map((prompt) => (
-                  <TableRow key={prompt.id} className="cursor-pointer hover:bg-muted/50">
+                  <TableRow
+                    key={prompt.id}
+                    className="cursor-pointer hover:bg-muted/50"
+                    onClick={() => router.push(`/brand/${brandId}/prompts/${prompt.id}`)}
+                  >
                     <TableCell className="font-medium">
                       <div className="space-y-1">
                         <span className="line-clamp-1">{prompt.prompt_text}</span>
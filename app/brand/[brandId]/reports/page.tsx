@@ -0,0 +1,24 @@
+'use client'
+
+import { useParams } from 'next/navigation'
+import { ReportBuilderCard, ReportSchedulesCard, ReportArchiveCard } from '@/components/reports'
+
+export default function ReportsPage() {
+  const params = useParams()
+  const brandId = params.brandId as string
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Reports</h1>
+        <p className="text-muted-foreground">
+          Branded PDF and HTML reports for clients and stakeholders
+        </p>
+      </div>
+
+      <ReportBuilderCard projectId={brandId} />
+      <ReportSchedulesCard projectId={brandId} />
+      <ReportArchiveCard projectId={brandId} />
+    </div>
+  )
+}
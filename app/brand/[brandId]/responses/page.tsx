@@ -8,7 +8,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Search, ExternalLink, ThumbsUp, ThumbsDown, Minus, Loader2, Play, RefreshCw } from 'lucide-react';
+import { Search, GitCompare, ThumbsUp, ThumbsDown, Minus, Loader2, Play, RefreshCw } from 'lucide-react';
 import {
   Select,
   SelectContent,
@@ -17,7 +17,9 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { AI_MODEL_LABELS, AI_MODEL_COLORS, AI_MODELS, type AIModel } from '@/lib/types';
-import { useResponses, usePrompts, type ResponseWithPrompt } from '@/hooks';
+import { ResponseCompareDialog } from '@/components/responses';
+import { useResponses, usePrompts, useProject, useProjectRole, type ResponseWithPrompt } from '@/hooks';
+import { can } from '@/lib/permissions';
 import { toast } from 'sonner';
 
 function getSentimentIcon(score: number | null) {
@@ -36,6 +38,21 @@ function formatDate(dateString: string) {
   });
 }
 
+// Market key for the locale a response was collected under, e.g. "de-DE"
+function getMarketKey(r: ResponseWithPrompt) {
+  return `${r.language || 'en'}-${r.location || 'US'}`;
+}
+
+function formatMarket(marketKey: string) {
+  const [language, location] = marketKey.split('-');
+  return `${language.toUpperCase()} / ${location}`;
+}
+
+// First sentence that mentions the tracked brand, from the stored analysis
+function brandSentence(r: ResponseWithPrompt) {
+  return r.analysis?.entities.find(e => e.is_brand && e.mentioned)?.sentences[0] || null;
+}
+
 type TabFilter = 'all' | 'mentions' | 'citations' | 'featured';
 type SentimentFilter = 'all' | 'positive' | 'neutral' | 'negative';
 
@@ -46,12 +63,17 @@ export default function ResponsesPage() {
 
   const { data: responses, isLoading } = useResponses(brandId);
   const { data: prompts } = usePrompts(brandId);
+  const { data: project } = useProject(brandId);
 
   const [searchQuery, setSearchQuery] = useState('');
   const [modelFilter, setModelFilter] = useState('all');
+  const [marketFilter, setMarketFilter] = useState('all');
+  const [personaFilter, setPersonaFilter] = useState('all');
   const [sentimentFilter, setSentimentFilter] = useState<SentimentFilter>('all');
   const [activeTab, setActiveTab] = useState<TabFilter>('all');
   const [isCollecting, setIsCollecting] = useState(false);
+  const [comparing, setComparing] = useState<ResponseWithPrompt | null>(null);
+  const canCollect = can(useProjectRole(brandId), 'collection:run');
 
   const promptCount = prompts?.length || 0;
   const hasPrompts = promptCount > 0;
@@ -83,9 +105,15 @@ export default function ResponsesPage() {
       // Invalidate the responses query to refresh data
       await queryClient.invalidateQueries({ queryKey: ['responses'] });
 
-      toast.success('Response collection complete!', {
-        description: `Collected ${result.results.responsessSaved} responses from ${result.results.processed} prompts.`,
-      });
+      if (result.status === 'interrupted') {
+        toast.warning('Collection paused before finishing', {
+          description: `Collected ${result.results.responsessSaved} responses so far. Resume the run from the monitor's run history.`,
+        });
+      } else {
+        toast.success('Response collection complete!', {
+          description: `Collected ${result.results.responsessSaved} responses from ${result.results.processed} prompts.`,
+        });
+      }
     } catch (error) {
       console.error('Collection error:', error);
       toast.error('Failed to collect responses. Please try again.');
@@ -113,6 +141,16 @@ export default function ResponsesPage() {
         return false;
       }
 
+      // Market filter
+      if (marketFilter !== 'all' && getMarketKey(r) !== marketFilter) {
+        return false;
+      }
+
+      // Persona filter
+      if (personaFilter !== 'all' && (r.persona_id || 'none') !== personaFilter) {
+        return false;
+      }
+
       // Sentiment filter
       if (sentimentFilter !== 'all') {
         const score = r.sentiment_score;
@@ -136,7 +174,7 @@ export default function ResponsesPage() {
 
       return true;
     });
-  }, [responses, searchQuery, modelFilter, sentimentFilter, activeTab]);
+  }, [responses, searchQuery, modelFilter, marketFilter, personaFilter, sentimentFilter, activeTab]);
 
   // Count for tab badges
   const counts = useMemo(() => {
@@ -149,6 +187,21 @@ export default function ResponsesPage() {
     };
   }, [responses]);
 
+  const markets = useMemo(() => {
+    if (!responses) return [];
+    return [...new Set(responses.map(getMarketKey))].sort();
+  }, [responses]);
+
+  // Personas responses were collected for
+  const personaOptions = useMemo(() => {
+    if (!responses) return [];
+    const options = new Map<string, string>();
+    for (const r of responses) {
+      if (r.persona_id) options.set(r.persona_id, r.persona?.name || 'Unknown persona');
+    }
+    return [...options.entries()].map(([id, name]) => ({ id, name }));
+  }, [responses]);
+
   const ResponseCard = ({ response }: { response: ResponseWithPrompt }) => (
     <Card>
       <CardHeader className="pb-3">
@@ -167,6 +220,12 @@ export default function ResponsesPage() {
               >
                 {AI_MODEL_LABELS[response.ai_model as AIModel]}
               </Badge>
+              {markets.length > 1 && (
+                <Badge variant="outline">{formatMarket(getMarketKey(response))}</Badge>
+              )}
+              {response.persona && (
+                <Badge variant="secondary">{response.persona.name}</Badge>
+              )}
               <span>{formatDate(response.collected_at)}</span>
             </div>
           </div>
@@ -174,6 +233,14 @@ export default function ResponsesPage() {
             {response.mentions_brand && (
               <Badge variant="secondary">Mentioned</Badge>
             )}
+            {response.brand_rank != null && (
+              <Badge variant={response.brand_rank <= 3 ? 'default' : 'outline'}>
+                #{response.brand_rank}
+                {response.analysis?.method === 'llm' && response.analysis.ranking?.length
+                  ? ` of ${response.analysis.ranking.length}`
+                  : ''}
+              </Badge>
+            )}
             {response.cites_domain && (
               <Badge variant="secondary">Cited</Badge>
             )}
@@ -188,6 +255,11 @@ export default function ResponsesPage() {
           <p className="text-sm text-muted-foreground line-clamp-3">
             {response.response_text}
           </p>
+          {brandSentence(response) && (
+            <blockquote className="border-l-2 pl-3 text-sm italic">
+              {brandSentence(response)}
+            </blockquote>
+          )}
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
               {getSentimentIcon(response.sentiment_score)}
@@ -196,10 +268,16 @@ export default function ResponsesPage() {
                   ? `${(response.sentiment_score * 100).toFixed(0)}%`
                   : 'N/A'}
               </span>
+              {response.analysis_confidence != null && (
+                <span className="text-xs text-muted-foreground">
+                  ({Math.round(response.analysis_confidence * 100)}% confidence
+                  {response.analysis?.method === 'heuristic' && ', keyword match'})
+                </span>
+              )}
             </div>
-            <Button variant="ghost" size="sm">
-              View Full Response
-              <ExternalLink className="ml-2 h-3 w-3" />
+            <Button variant="ghost" size="sm" onClick={() => setComparing(response)}>
+              Compare with Previous
+              <GitCompare className="ml-2 h-3 w-3" />
             </Button>
           </div>
         </div>
@@ -216,28 +294,30 @@ export default function ResponsesPage() {
             View AI responses collected from your prompts
           </p>
         </div>
-        <Button
-          onClick={handleCollectResponses}
-          disabled={isCollecting || !hasPrompts}
-          size="lg"
-        >
-          {isCollecting ? (
-            <>
-              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-              Collecting...
-            </>
-          ) : responses && responses.length > 0 ? (
-            <>
-              <RefreshCw className="mr-2 h-4 w-4" />
-              Refresh Responses
-            </>
-          ) : (
-            <>
-              <Play className="mr-2 h-4 w-4" />
-              Collect Responses
-            </>
-          )}
-        </Button>
+        {canCollect && (
+          <Button
+            onClick={handleCollectResponses}
+            disabled={isCollecting || !hasPrompts}
+            size="lg"
+          >
+            {isCollecting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Collecting...
+              </>
+            ) : responses && responses.length > 0 ? (
+              <>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Refresh Responses
+              </>
+            ) : (
+              <>
+                <Play className="mr-2 h-4 w-4" />
+                Collect Responses
+              </>
+            )}
+          </Button>
+        )}
       </div>
 
       {!hasPrompts && (
@@ -272,6 +352,37 @@ export default function ResponsesPage() {
             ))}
           </SelectContent>
         </Select>
+        {markets.length > 1 && (
+          <Select value={marketFilter} onValueChange={setMarketFilter}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue placeholder="Market" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Markets</SelectItem>
+              {markets.map(market => (
+                <SelectItem key={market} value={market}>
+                  {formatMarket(market)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {personaOptions.length > 0 && (
+          <Select value={personaFilter} onValueChange={setPersonaFilter}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Persona" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Personas</SelectItem>
+              <SelectItem value="none">No Persona</SelectItem>
+              {personaOptions.map(persona => (
+                <SelectItem key={persona.id} value={persona.id}>
+                  {persona.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
         <Select value={sentimentFilter} onValueChange={(v) => setSentimentFilter(v as SentimentFilter)}>
           <SelectTrigger className="w-[140px]">
             <SelectValue placeholder="Sentiment" />
@@ -323,6 +434,18 @@ export default function ResponsesPage() {
           </TabsContent>
         )}
       </Tabs>
+
+      <ResponseCompareDialog
+        series={comparing && {
+          promptId: comparing.prompt_id,
+          aiModel: comparing.ai_model,
+          personaId: comparing.persona_id || null,
+        }}
+        promptText={comparing?.prompt?.prompt_text}
+        responseId={comparing?.id}
+        brandName={project?.tracked_brand}
+        onClose={() => setComparing(null)}
+      />
     </div>
   );
 }
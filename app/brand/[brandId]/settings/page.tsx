@@ -8,7 +8,7 @@ import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Database, Loader2, Map } from 'lucide-react'
 import { useProject } from '@/hooks'
-import { CompetitorList, PersonaList, GoogleConnectionCard } from '@/components/settings'
+import { CompetitorList, PersonaList, GoogleConnectionCard, TeamCard, AuditLogCard, AlertRulesCard, WebhooksCard, WebhookDeliveriesCard, ApiKeysCard, BrandingCard, ShareLinksCard, BackupCard } from '@/components/settings'
 
 export default function SettingsPage() {
   const params = useParams()
@@ -17,7 +17,7 @@ export default function SettingsPage() {
 
   // Get tab from URL parameter, default to 'competitors'
   const tabParam = searchParams.get('tab')
-  const validTabs = ['competitors', 'personas', 'google', 'sitemap', 'database']
+  const validTabs = ['competitors', 'personas', 'google', 'alerts', 'webhooks', 'api', 'white-label', 'team', 'activity', 'backup', 'sitemap', 'database']
   const defaultTab = tabParam && validTabs.includes(tabParam) ? tabParam : 'competitors'
 
   const { data: project, isLoading } = useProject(brandId)
@@ -70,6 +70,13 @@ export default function SettingsPage() {
           <TabsTrigger value="competitors">Competitors</TabsTrigger>
           <TabsTrigger value="personas">Personas</TabsTrigger>
           <TabsTrigger value="google">Google</TabsTrigger>
+          <TabsTrigger value="alerts">Alerts</TabsTrigger>
+          <TabsTrigger value="webhooks">Webhooks</TabsTrigger>
+          <TabsTrigger value="api">API</TabsTrigger>
+          <TabsTrigger value="white-label">White Label</TabsTrigger>
+          <TabsTrigger value="team">Team</TabsTrigger>
+          <TabsTrigger value="activity">Activity</TabsTrigger>
+          <TabsTrigger value="backup">Backup</TabsTrigger>
           <TabsTrigger value="sitemap">Sitemap</TabsTrigger>
           <TabsTrigger value="database">Database</TabsTrigger>
         </TabsList>
@@ -86,6 +93,36 @@ export default function SettingsPage() {
           <GoogleConnectionCard projectId={brandId} />
         </TabsContent>
 
+        <TabsContent value="alerts" className="space-y-6 mt-6">
+          <AlertRulesCard projectId={brandId} />
+        </TabsContent>
+
+        <TabsContent value="webhooks" className="space-y-6 mt-6">
+          <WebhooksCard projectId={brandId} />
+          <WebhookDeliveriesCard projectId={brandId} />
+        </TabsContent>
+
+        <TabsContent value="api" className="space-y-6 mt-6">
+          <ApiKeysCard projectId={brandId} organizationId={project.organization_id} />
+        </TabsContent>
+
+        <TabsContent value="white-label" className="space-y-6 mt-6">
+          <BrandingCard projectId={brandId} organizationId={project.organization_id} />
+          <ShareLinksCard projectId={brandId} />
+        </TabsContent>
+
+        <TabsContent value="team" className="space-y-6 mt-6">
+          <TeamCard projectId={brandId} organizationId={project.organization_id} />
+        </TabsContent>
+
+        <TabsContent value="activity" className="space-y-6 mt-6">
+          <AuditLogCard projectId={brandId} />
+        </TabsContent>
+
+        <TabsContent value="backup" className="space-y-6 mt-6">
+          <BackupCard projectId={brandId} />
+        </TabsContent>
+
         <TabsContent value="sitemap" className="space-y-6 mt-6">
           <Card>
             <CardHeader>
@@ -2,6 +2,9 @@
 
 import { useState } from 'react';
 import { useProjects, useDeleteProject, type ProjectWithStats } from '@/hooks/useProjects';
+import { useMemberships, useSignOut } from '@/hooks/useAuth';
+import { can } from '@/lib/permissions';
+import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -27,21 +30,37 @@ import {
   FileText,
   Target,
   Trash2,
+  LogOut,
 } from 'lucide-react';
 import Link from 'next/link';
 import { toast } from 'sonner';
+import { ImportProjectDialog } from '@/components/projects';
 
 export default function BrandsPage() {
   const { data: projects, isLoading } = useProjects();
   const deleteProject = useDeleteProject();
+  const { data: memberships } = useMemberships();
+  const signOut = useSignOut();
+  const router = useRouter();
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [brandToDelete, setBrandToDelete] = useState<ProjectWithStats | null>(null);
 
+  // Only owners of the brand's workspace may delete it
+  const canDelete = (project: ProjectWithStats) => can(
+    memberships?.find((m) => m.organization_id === project.organization_id)?.role,
+    'project:delete'
+  );
+
   const handleDeleteBrand = (project: ProjectWithStats) => {
     setBrandToDelete(project);
     setDeleteDialogOpen(true);
   };
 
+  const handleSignOut = async () => {
+    await signOut.mutateAsync();
+    router.replace('/login');
+  };
+
   const confirmDelete = async () => {
     if (!brandToDelete) return;
 
@@ -78,19 +97,29 @@ export default function BrandsPage() {
               AI Visibility Monitoring Platform
             </p>
           </div>
-          <Link href="/setup">
-            <Button size="lg">
-              <Plus className="h-5 w-5 mr-2" />
-              Add Brand
+          <div className="flex items-center gap-2">
+            <ImportProjectDialog />
+            <Link href="/setup">
+              <Button size="lg">
+                <Plus className="h-5 w-5 mr-2" />
+                Add Brand
+              </Button>
+            </Link>
+            <Button variant="ghost" size="icon" onClick={handleSignOut} title="Sign out">
+              <LogOut className="h-5 w-5" />
             </Button>
-          </Link>
+          </div>
         </div>
 
         {/* Brand Cards Grid */}
         {projects && projects.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {projects.map((project) => (
-              <BrandCard key={project.id} project={project} onDelete={handleDeleteBrand} />
+              <BrandCard
+                key={project.id}
+                project={project}
+                onDelete={canDelete(project) ? handleDeleteBrand : undefined}
+              />
             ))}
 
             {/* Add Brand Card */}
@@ -168,7 +197,7 @@ export default function BrandsPage() {
 
 interface BrandCardProps {
   project: ProjectWithStats;
-  onDelete: (project: ProjectWithStats) => void;
+  onDelete?: (project: ProjectWithStats) => void;
 }
 
 function BrandCard({ project, onDelete }: BrandCardProps) {
@@ -180,7 +209,7 @@ function BrandCard({ project, onDelete }: BrandCardProps) {
   const handleDelete = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    onDelete(project);
+    onDelete?.(project);
   };
 
   return (
@@ -203,14 +232,16 @@ function BrandCard({ project, onDelete }: BrandCardProps) {
               <Badge variant={visibilityScore > 50 ? 'default' : 'secondary'}>
                 {visibilityScore > 0 ? `${visibilityScore}%` : 'New'}
               </Badge>
-              <Button
-                variant="ghost"
-                size="icon"
-                className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive hover:bg-destructive/10"
-                onClick={handleDelete}
-              >
-                <Trash2 className="h-4 w-4" />
-              </Button>
+              {onDelete && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                  onClick={handleDelete}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
             </div>
           </div>
         </CardHeader>
@@ -0,0 +1,60 @@
+/**
+ * Shared dashboard
+ *
+ * Read-only view of a project for people without an account, opened with a
+ * token from Settings > White Label. Shows the share's period ending
+ * yesterday, in the workspace's branding.
+ */
+
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import { findActiveShare } from '@/lib/dashboard-shares';
+import { getProjectBranding } from '@/lib/branding/server';
+import { buildReportData } from '@/lib/reports/data';
+import { addDays } from '@/lib/reports/schedule';
+import { SharedDashboard, ShareUnavailable } from '@/components/share';
+
+export const dynamic = 'force-dynamic';
+
+// Metadata and the page share one lookup, so a visit counts once
+const loadSharedDashboard = cache(async (token: string) => {
+  const share = await findActiveShare(token);
+  if (!share) return null;
+
+  const periodEnd = addDays(new Date().toISOString().split('T')[0], -1);
+  const periodStart = addDays(periodEnd, -(share.period_days - 1));
+
+  const [data, branding] = await Promise.all([
+    buildReportData(share.project_id, periodStart, periodEnd, ['visibility', 'share_of_voice', 'citations', 'sentiment', 'answer_gaps']),
+    getProjectBranding(share.project_id),
+  ]);
+
+  return { data, branding };
+});
+
+export async function generateMetadata(
+  { params }: { params: Promise<{ token: string }> }
+): Promise<Metadata> {
+  const { token } = await params;
+  const dashboard = await loadSharedDashboard(token);
+
+  return {
+    title: dashboard
+      ? `${dashboard.data.project.name || dashboard.data.project.tracked_brand} - ${dashboard.branding.name}`
+      : 'Link unavailable',
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function SharedDashboardPage(
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  const dashboard = await loadSharedDashboard(token);
+
+  if (!dashboard) {
+    return <ShareUnavailable />;
+  }
+
+  return <SharedDashboard data={dashboard.data} branding={dashboard.branding} />;
+}
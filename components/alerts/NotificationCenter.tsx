@@ -0,0 +1,130 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet'
+import { Bell, CheckCheck, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { useNotifications, useMarkNotificationsRead } from '@/hooks'
+import { cn } from '@/lib/utils'
+import type { NotificationSeverity } from '@/lib/types'
+
+interface NotificationCenterProps {
+  projectId: string
+  collapsed?: boolean
+}
+
+const SEVERITY_STYLES: Record<NotificationSeverity, string> = {
+  info: 'bg-blue-100 text-blue-700',
+  warning: 'bg-amber-100 text-amber-700',
+  critical: 'bg-red-100 text-red-700',
+}
+
+export function NotificationCenter({ projectId, collapsed }: NotificationCenterProps) {
+  const { data: notifications, isLoading } = useNotifications(projectId)
+  const markRead = useMarkNotificationsRead()
+
+  const unreadCount = notifications?.filter((n) => !n.read_at).length || 0
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markRead.mutateAsync({ projectId })
+    } catch {
+      toast.error('Failed to mark notifications read')
+    }
+  }
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <button
+          className={cn(
+            'flex w-full items-center gap-3 rounded-lg px-3 py-2 text-sm font-medium text-muted-foreground transition-colors hover:bg-muted hover:text-foreground',
+            collapsed && 'justify-center px-2'
+          )}
+          title={collapsed ? 'Notifications' : undefined}
+        >
+          <span className="relative shrink-0">
+            <Bell className="h-5 w-5" />
+            {collapsed && unreadCount > 0 && (
+              <span className="absolute -right-1 -top-1 h-2 w-2 rounded-full bg-destructive" />
+            )}
+          </span>
+          {!collapsed && (
+            <>
+              <span className="flex-1 text-left">Notifications</span>
+              {unreadCount > 0 && (
+                <Badge variant="destructive" className="h-5 px-1.5 text-xs">
+                  {unreadCount}
+                </Badge>
+              )}
+            </>
+          )}
+        </button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Notifications</SheetTitle>
+          <SheetDescription>
+            Alerts raised by your alert rules after each collection
+          </SheetDescription>
+        </SheetHeader>
+
+        {unreadCount > 0 && (
+          <div className="px-4">
+            <Button variant="outline" size="sm" onClick={handleMarkAllRead} disabled={markRead.isPending}>
+              <CheckCheck className="mr-2 h-4 w-4" />
+              Mark all read
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : notifications && notifications.length > 0 ? (
+          <div className="space-y-3 px-4 pb-4">
+            {notifications.map((notification) => (
+              <div
+                key={notification.id}
+                className={cn('rounded-lg border p-3 space-y-1', !notification.read_at && 'border-primary/40 bg-primary/5')}
+                onClick={() => {
+                  if (!notification.read_at) {
+                    markRead.mutate({ projectId, ids: [notification.id] })
+                  }
+                }}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <span className="text-sm font-medium">{notification.title}</span>
+                  <Badge variant="secondary" className={cn('shrink-0 capitalize', SEVERITY_STYLES[notification.severity])}>
+                    {notification.severity}
+                  </Badge>
+                </div>
+                {notification.body && (
+                  <p className="whitespace-pre-line text-xs text-muted-foreground">{notification.body}</p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {new Date(notification.created_at).toLocaleString()}
+                </p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12 text-muted-foreground">
+            <Bell className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>No notifications yet</p>
+            <p className="text-sm">Set up alert rules in Settings to get notified of changes</p>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,291 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import {
+  Building2,
+  EyeOff,
+  FileText,
+  Globe,
+  Loader2,
+  Megaphone,
+  PenLine,
+  RotateCcw,
+  Sparkles,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { useUpdateAnswerGapStatus, useProjectRole, type AnswerGapWithPrompt } from '@/hooks'
+import { useContentPipeline } from '@/hooks/useContent'
+import { buildGapContentBrief } from '@/lib/answer-gaps/brief'
+import { can } from '@/lib/permissions'
+
+interface AnswerGapDetailSheetProps {
+  projectId: string
+  brandName: string
+  gap: AnswerGapWithPrompt | null
+  onClose: () => void
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold">{title}</h3>
+      {children}
+    </div>
+  )
+}
+
+function CreateContentForm({ projectId, brandName, gap }: { projectId: string; brandName: string; gap: AnswerGapWithPrompt }) {
+  const promptText = gap.prompt?.prompt_text || ''
+  const [topic, setTopic] = useState(promptText)
+  const [targetKeyword, setTargetKeyword] = useState(gap.prompt?.tags?.[0] || '')
+  const [notes, setNotes] = useState('')
+  const pipeline = useContentPipeline()
+
+  const handleGenerate = async () => {
+    try {
+      await pipeline.mutateAsync({
+        projectId,
+        topic: topic.trim(),
+        targetKeyword: targetKeyword.trim(),
+        additionalNotes: notes.trim() || undefined,
+        contentType: 'article',
+        answerGapId: gap.id,
+      })
+      toast.success('Content generated', { description: 'It has been added to your content library.' })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to generate content')
+    }
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Topic / Title</label>
+        <Input value={topic} onChange={(e) => setTopic(e.target.value)} disabled={pipeline.isPending} />
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Target Keyword</label>
+        <Input
+          placeholder="Primary keyword to target..."
+          value={targetKeyword}
+          onChange={(e) => setTargetKeyword(e.target.value)}
+          disabled={pipeline.isPending}
+        />
+      </div>
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Additional Notes (optional)</label>
+        <Textarea
+          rows={2}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          disabled={pipeline.isPending}
+        />
+      </div>
+      <details className="text-sm">
+        <summary className="cursor-pointer text-muted-foreground">Gap context sent with the request</summary>
+        <pre className="mt-2 whitespace-pre-wrap rounded bg-muted p-3 text-xs">{buildGapContentBrief(gap, brandName)}</pre>
+      </details>
+      <Button
+        className="w-full"
+        onClick={handleGenerate}
+        disabled={pipeline.isPending || !topic.trim() || !targetKeyword.trim()}
+      >
+        {pipeline.isPending ? (
+          <>
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            Generating (this can take a few minutes)...
+          </>
+        ) : (
+          <>
+            <Sparkles className="h-4 w-4 mr-2" />
+            Generate Content
+          </>
+        )}
+      </Button>
+    </div>
+  )
+}
+
+export function AnswerGapDetailSheet({ projectId, brandName, gap, onClose }: AnswerGapDetailSheetProps) {
+  const role = useProjectRole(projectId)
+  const updateStatus = useUpdateAnswerGapStatus()
+  const [creating, setCreating] = useState(false)
+
+  const handleStatus = async (status: 'open' | 'dismissed') => {
+    if (!gap) return
+    try {
+      await updateStatus.mutateAsync({ id: gap.id, status })
+      toast.success(status === 'dismissed' ? 'Gap dismissed' : 'Gap reopened')
+      if (status === 'dismissed') onClose()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update gap')
+    }
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setCreating(false)
+      onClose()
+    }
+  }
+
+  const contentActions = gap?.recommendations.filter(r => r.type === 'content') || []
+  const prActions = gap?.recommendations.filter(r => r.type === 'pr') || []
+
+  return (
+    <Sheet open={!!gap} onOpenChange={handleOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        {gap && (
+          <>
+            <SheetHeader>
+              <SheetTitle className="pr-6">{gap.prompt?.prompt_text || 'Unknown prompt'}</SheetTitle>
+              <SheetDescription>
+                {brandName} appears in {Math.round(gap.brand_mention_rate)}% of {gap.response_count} recent answers
+                {' · '}gap score {Math.round(gap.score)}
+              </SheetDescription>
+            </SheetHeader>
+
+            <div className="space-y-6 px-4 pb-6">
+              <Section title="Why competitors won">
+                {gap.competitors.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No tracked competitor appeared; the answers recommended other brands or none at all.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {gap.competitors.map(competitor => (
+                      <div key={competitor.name} className="rounded-lg border p-3 space-y-2">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="flex items-center gap-1 font-medium">
+                            <Building2 className="h-4 w-4 text-muted-foreground" />
+                            {competitor.name}
+                          </span>
+                          <span className="text-xs text-muted-foreground">
+                            in {competitor.mention_rate}% of answers
+                            {competitor.avg_rank !== null && ` · avg. rank #${competitor.avg_rank}`}
+                          </span>
+                        </div>
+                        {competitor.attributes.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {competitor.attributes.map(attribute => (
+                              <Badge key={attribute} variant="secondary" className="text-xs">{attribute}</Badge>
+                            ))}
+                          </div>
+                        )}
+                        {competitor.quotes.map(quote => (
+                          <p key={quote} className="border-l-2 pl-3 text-xs italic text-muted-foreground">{quote}</p>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </Section>
+
+              {gap.cited_sources.length > 0 && (
+                <Section title="Sources the answers cited">
+                  <ul className="space-y-1 text-sm">
+                    {gap.cited_sources.map(source => (
+                      <li key={source.domain} className="flex items-center justify-between gap-2">
+                        <span className="flex min-w-0 items-center gap-1">
+                          <Globe className="h-3 w-3 shrink-0 text-muted-foreground" />
+                          {source.url ? (
+                            <a href={source.url} target="_blank" rel="noopener noreferrer" className="truncate hover:underline">
+                              {source.title || source.domain}
+                            </a>
+                          ) : (
+                            <span className="truncate">{source.title || source.domain}</span>
+                          )}
+                          {source.owner && (
+                            <Badge variant="outline" className="text-xs">{source.owner}&apos;s site</Badge>
+                          )}
+                        </span>
+                        <span className="shrink-0 text-xs text-muted-foreground">{source.citations}×</span>
+                      </li>
+                    ))}
+                  </ul>
+                </Section>
+              )}
+
+              {gap.missing_content.length > 0 && (
+                <Section title="What you're missing">
+                  <ul className="list-disc space-y-1 pl-5 text-sm">
+                    {gap.missing_content.map(item => <li key={item}>{item}</li>)}
+                  </ul>
+                </Section>
+              )}
+
+              {gap.recommendations.length > 0 && (
+                <Section title="Recommended actions">
+                  <div className="space-y-2">
+                    {[...contentActions, ...prActions].map(action => (
+                      <div key={action.title} className="flex gap-3 rounded-lg border p-3">
+                        {action.type === 'content'
+                          ? <PenLine className="mt-0.5 h-4 w-4 shrink-0 text-blue-600" />
+                          : <Megaphone className="mt-0.5 h-4 w-4 shrink-0 text-purple-600" />}
+                        <div>
+                          <p className="text-sm font-medium">{action.title}</p>
+                          <p className="text-xs text-muted-foreground">{action.detail}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </Section>
+              )}
+
+              {gap.content && (
+                <Section title="Generated content">
+                  <Link
+                    href={`/brand/${projectId}/content-library`}
+                    className="flex items-center gap-2 text-sm hover:underline"
+                  >
+                    <FileText className="h-4 w-4 text-muted-foreground" />
+                    {gap.content.title}
+                    <Badge variant="outline" className="text-xs">{gap.content.status}</Badge>
+                  </Link>
+                </Section>
+              )}
+
+              <div className="space-y-3 border-t pt-4">
+                {creating ? (
+                  <CreateContentForm key={gap.id} projectId={projectId} brandName={brandName} gap={gap} />
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {can(role, 'content:write') && gap.status !== 'resolved' && gap.status !== 'expired' && (
+                      <Button onClick={() => setCreating(true)}>
+                        <Sparkles className="h-4 w-4 mr-2" />
+                        {gap.content ? 'Create More Content' : 'Create Content'}
+                      </Button>
+                    )}
+                    {can(role, 'project:manage') && (gap.status === 'dismissed' ? (
+                      <Button variant="outline" onClick={() => handleStatus('open')} disabled={updateStatus.isPending}>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Reopen
+                      </Button>
+                    ) : (
+                      <Button variant="outline" onClick={() => handleStatus('dismissed')} disabled={updateStatus.isPending}>
+                        <EyeOff className="h-4 w-4 mr-2" />
+                        Dismiss
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
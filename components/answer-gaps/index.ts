@@ -0,0 +1 @@
+export { AnswerGapDetailSheet } from './AnswerGapDetailSheet'
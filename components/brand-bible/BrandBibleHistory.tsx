@@ -0,0 +1,156 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from '@/components/ui/sheet'
+import { History, Loader2, RotateCcw } from 'lucide-react'
+import { toast } from 'sonner'
+import { useConfigVersions, useRevertConfigVersion, useProjectRole } from '@/hooks'
+import { can } from '@/lib/permissions'
+import { CONFIG_CHANGE_SOURCE_LABELS, type ConfigChangeSource, type ConfigVersion } from '@/lib/types'
+
+interface BrandBibleHistoryProps {
+  projectId: string
+}
+
+const ENTITY_LABELS: Record<ConfigVersion['entity_type'], string> = {
+  projects: 'Brand Bible',
+  competitors: 'Competitor',
+  personas: 'Persona',
+  monitors: 'Monitor',
+}
+
+const OPERATION_LABELS: Record<ConfigVersion['operation'], string> = {
+  insert: 'added',
+  update: 'updated',
+  delete: 'removed',
+}
+
+const SOURCE_STYLES: Record<ConfigChangeSource, string> = {
+  human: 'bg-slate-100 text-slate-700',
+  ai_enhancement: 'bg-purple-100 text-purple-700',
+  crawler: 'bg-blue-100 text-blue-700',
+  revert: 'bg-amber-100 text-amber-700',
+  system: 'bg-gray-100 text-gray-600',
+}
+
+function describeVersion(version: ConfigVersion): string {
+  const row = version.after_data || version.before_data
+  const name = typeof row?.name === 'string' && version.entity_type !== 'projects' ? ` "${row.name}"` : ''
+  return `${ENTITY_LABELS[version.entity_type]}${name} ${OPERATION_LABELS[version.operation]}`
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return 'empty'
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'empty'
+  const text = typeof value === 'string' ? value : JSON.stringify(value)
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text
+}
+
+export function BrandBibleHistory({ projectId }: BrandBibleHistoryProps) {
+  const { data: versions, isLoading } = useConfigVersions(projectId)
+  const revert = useRevertConfigVersion()
+  const canRevert = can(useProjectRole(projectId), 'project:manage')
+
+  const latestVersion = versions?.[0]?.version
+
+  const handleRevert = async (version: number) => {
+    if (!confirm(`Restore the brand configuration to version ${version}? Every later change will be undone.`)) {
+      return
+    }
+
+    try {
+      const undone = await revert.mutateAsync({ projectId, version })
+      toast.success(`Restored version ${version}`, {
+        description: `Undid ${undone} change${undone === 1 ? '' : 's'}.`,
+      })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to restore version')
+    }
+  }
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline">
+          <History className="mr-2 h-4 w-4" />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Configuration History</SheetTitle>
+          <SheetDescription>
+            Changes to the Brand Bible, competitors, personas and monitors, newest first
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : versions && versions.length > 0 ? (
+          <div className="space-y-3 px-4 pb-4">
+            {versions.map((version) => (
+              <div key={version.id} className="rounded-lg border p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-mono text-muted-foreground">v{version.version}</span>
+                      <span className="text-sm font-medium">{describeVersion(version)}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {version.user_email || 'System'} • {new Date(version.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                  <Badge variant="secondary" className={SOURCE_STYLES[version.source]}>
+                    {CONFIG_CHANGE_SOURCE_LABELS[version.source]}
+                  </Badge>
+                </div>
+
+                {version.operation === 'update' && version.after_data && (
+                  <ul className="space-y-1 text-xs">
+                    {Object.entries(version.after_data).map(([field, value]) => (
+                      <li key={field}>
+                        <span className="font-medium">{field.replace(/_/g, ' ')}:</span>{' '}
+                        <span className="text-muted-foreground line-through">
+                          {formatValue(version.before_data?.[field])}
+                        </span>{' '}
+                        → {formatValue(value)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {canRevert && version.version !== latestVersion && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => handleRevert(version.version)}
+                    disabled={revert.isPending}
+                  >
+                    <RotateCcw className="mr-1 h-3 w-3" />
+                    Restore this version
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12 text-muted-foreground">
+            <History className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>No changes recorded yet</p>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
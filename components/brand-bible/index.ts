@@ -0,0 +1 @@
+export { BrandBibleHistory } from './BrandBibleHistory'
@@ -0,0 +1,233 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ExternalLink, Globe, Loader2, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import { useCitationSources, useRefreshCitationSources, useUpdateSourceCategory, useProjectRole } from '@/hooks'
+import { can } from '@/lib/permissions'
+import { formatDistanceToNow } from '@/lib/utils'
+import {
+  AI_MODEL_COLORS,
+  AI_MODEL_LABELS,
+  SOURCE_CATEGORY_LABELS,
+  type AIModel,
+  type SourceCategory,
+} from '@/lib/types'
+
+const CATEGORIES = Object.keys(SOURCE_CATEGORY_LABELS) as SourceCategory[]
+const PAGE_SIZE = 25
+
+interface CitationSourcesCardProps {
+  projectId: string
+}
+
+export function CitationSourcesCard({ projectId }: CitationSourcesCardProps) {
+  const { data: sources, isLoading } = useCitationSources(projectId)
+  const refreshSources = useRefreshCitationSources()
+  const updateCategory = useUpdateSourceCategory()
+  const role = useProjectRole(projectId)
+  const canRefresh = can(role, 'collection:run')
+  const canRecategorize = can(role, 'project:manage')
+
+  const [category, setCategory] = useState<SourceCategory | null>(null)
+  const [showAll, setShowAll] = useState(false)
+
+  // Domains and citations per category, largest share first
+  const breakdown = useMemo(() => {
+    const totals = new Map<SourceCategory, { domains: number; citations: number }>()
+    for (const source of sources || []) {
+      const total = totals.get(source.category) || { domains: 0, citations: 0 }
+      total.domains++
+      total.citations += source.citation_count
+      totals.set(source.category, total)
+    }
+    return [...totals.entries()].sort((a, b) => b[1].citations - a[1].citations)
+  }, [sources])
+
+  const totalCitations = breakdown.reduce((sum, [, total]) => sum + total.citations, 0)
+  const filtered = (sources || []).filter((source) => !category || source.category === category)
+  const visible = showAll ? filtered : filtered.slice(0, PAGE_SIZE)
+
+  const handleRefresh = async () => {
+    try {
+      const result = await refreshSources.mutateAsync(projectId)
+      toast.success(`Refreshed ${result.sources} sources`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to refresh citation sources')
+    }
+  }
+
+  const handleCategoryChange = async (id: string, value: SourceCategory) => {
+    try {
+      await updateCategory.mutateAsync({ id, category: value })
+    } catch {
+      toast.error('Failed to update category')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Globe className="h-5 w-5" />
+              Citation Sources
+            </CardTitle>
+            <CardDescription>
+              What kind of sites the AI engines cite, how authoritative they are and which engines cite them
+            </CardDescription>
+          </div>
+          {canRefresh && (
+            <Button variant="outline" size="sm" onClick={handleRefresh} disabled={refreshSources.isPending}>
+              {refreshSources.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="mr-2 h-4 w-4" />
+              )}
+              Refresh
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : sources && sources.length > 0 ? (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant={category === null ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => setCategory(null)}
+              >
+                All ({sources.length})
+              </Button>
+              {breakdown.map(([key, total]) => (
+                <Button
+                  key={key}
+                  variant={category === key ? 'secondary' : 'outline'}
+                  size="sm"
+                  onClick={() => setCategory(key)}
+                >
+                  {SOURCE_CATEGORY_LABELS[key]} ({total.domains})
+                  <span className="ml-1 text-muted-foreground">
+                    {totalCitations > 0 ? Math.round((total.citations / totalCitations) * 100) : 0}%
+                  </span>
+                </Button>
+              ))}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Domain</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Authority</TableHead>
+                  <TableHead className="text-right">Citations</TableHead>
+                  <TableHead>Engines</TableHead>
+                  <TableHead className="text-right">Prompts</TableHead>
+                  <TableHead>Last cited</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map((source) => (
+                  <TableRow key={source.id}>
+                    <TableCell>
+                      <a
+                        href={`https://${source.domain}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 font-medium hover:underline"
+                      >
+                        {source.domain}
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    </TableCell>
+                    <TableCell>
+                      {canRecategorize ? (
+                        <Select
+                          value={source.category}
+                          onValueChange={(value) => handleCategoryChange(source.id, value as SourceCategory)}
+                        >
+                          <SelectTrigger className="h-8 w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {CATEGORIES.map((key) => (
+                              <SelectItem key={key} value={key}>
+                                {SOURCE_CATEGORY_LABELS[key]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant="outline">{SOURCE_CATEGORY_LABELS[source.category]}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {source.authority !== null ? Math.round(source.authority) : '—'}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{source.citation_count}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {(Object.entries(source.engine_counts) as [AIModel, number][]).map(([model, count]) => (
+                          <Badge
+                            key={model}
+                            variant="outline"
+                            className="text-xs"
+                            style={{ borderColor: AI_MODEL_COLORS[model], color: AI_MODEL_COLORS[model] }}
+                          >
+                            {AI_MODEL_LABELS[model]} {count}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{source.prompt_count}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {source.last_cited_at ? formatDistanceToNow(source.last_cited_at) : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {filtered.length > PAGE_SIZE && (
+              <div className="flex justify-center">
+                <Button variant="ghost" size="sm" onClick={() => setShowAll(!showAll)}>
+                  {showAll ? 'Show less' : `Show all ${filtered.length} domains`}
+                </Button>
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <Globe className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>No citation sources yet</p>
+            <p className="text-sm">Sources are refreshed after every collection</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
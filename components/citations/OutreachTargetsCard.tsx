@@ -0,0 +1,166 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Download, ExternalLink, Loader2, Target } from 'lucide-react'
+import { useOutreachTargets } from '@/hooks'
+import { exportToExcel, type ColumnDef } from '@/lib/excel-utils'
+import {
+  AI_MODEL_COLORS,
+  AI_MODEL_LABELS,
+  SOURCE_CATEGORY_LABELS,
+  type OutreachTarget,
+} from '@/lib/types'
+
+const EXPORT_COLUMNS: ColumnDef[] = [
+  { name: 'URL', key: 'url', required: true, type: 'string' },
+  { name: 'Domain', key: 'domain', required: true, type: 'string' },
+  { name: 'Title', key: 'title', required: false, type: 'string' },
+  { name: 'Category', key: 'category', required: true, type: 'string' },
+  { name: 'Leverage', key: 'leverage', required: true, type: 'number' },
+  { name: 'Authority', key: 'authority', required: false, type: 'number' },
+  { name: 'Citations', key: 'citations', required: true, type: 'number' },
+  { name: 'Engines', key: 'engines', required: true, type: 'string' },
+  { name: 'Competitors Cited', key: 'competitors', required: true, type: 'string' },
+  { name: 'Evidence', key: 'evidence', required: true, type: 'string' },
+  { name: 'Example Prompts', key: 'prompts', required: false, type: 'string' },
+  { name: 'Suggested Action', key: 'action', required: true, type: 'string' },
+]
+
+const EVIDENCE_LABELS: Record<OutreachTarget['evidence'], string> = {
+  page: 'Page names competitors',
+  answer: 'Cited in competitor answers',
+}
+
+interface OutreachTargetsCardProps {
+  projectId: string
+}
+
+export function OutreachTargetsCard({ projectId }: OutreachTargetsCardProps) {
+  const { data: targets, isLoading } = useOutreachTargets(projectId)
+
+  const handleExport = () => {
+    if (!targets) return
+
+    const rows = targets.map((target) => ({
+      ...target,
+      category: SOURCE_CATEGORY_LABELS[target.category],
+      engines: target.engines.map((model) => AI_MODEL_LABELS[model]).join(', '),
+      competitors: target.competitors.join(', '),
+      evidence: EVIDENCE_LABELS[target.evidence],
+      prompts: target.prompts.join(' | '),
+    }))
+
+    exportToExcel(rows, EXPORT_COLUMNS, `outreach-targets-${new Date().toISOString().slice(0, 10)}`)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              Outreach Targets
+            </CardTitle>
+            <CardDescription>
+              Third-party pages the AI engines cite for competitors but not for you, highest leverage first
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={!targets || targets.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : targets && targets.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-right">Leverage</TableHead>
+                <TableHead>Page</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Competitors</TableHead>
+                <TableHead>Engines</TableHead>
+                <TableHead className="text-right">Citations</TableHead>
+                <TableHead>Suggested action</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {targets.slice(0, 50).map((target) => (
+                <TableRow key={target.url}>
+                  <TableCell className="text-right font-medium">{target.leverage}</TableCell>
+                  <TableCell className="max-w-[320px]">
+                    <a
+                      href={target.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-primary hover:underline"
+                    >
+                      <span className="line-clamp-1">{target.title || target.url}</span>
+                      <ExternalLink className="h-3 w-3 shrink-0" />
+                    </a>
+                    <span className="text-xs text-muted-foreground">
+                      {target.domain}
+                      {target.authority !== null && ` · Authority ${Math.round(target.authority)}`}
+                      {' · '}
+                      {EVIDENCE_LABELS[target.evidence]}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{SOURCE_CATEGORY_LABELS[target.category]}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {target.competitors.map((name) => (
+                        <Badge key={name} variant="secondary" className="text-xs">
+                          {name}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {target.engines.map((model) => (
+                        <Badge
+                          key={model}
+                          variant="outline"
+                          className="text-xs"
+                          style={{ borderColor: AI_MODEL_COLORS[model], color: AI_MODEL_COLORS[model] }}
+                        >
+                          {AI_MODEL_LABELS[model]}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{target.citations}</TableCell>
+                  <TableCell className="max-w-[240px] text-sm text-muted-foreground">{target.action}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <Target className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>No outreach targets found</p>
+            <p className="text-sm">Pages cited for competitors but not for you will appear here</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
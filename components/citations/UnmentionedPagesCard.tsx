@@ -0,0 +1,122 @@
+'use client'
+
+import { useMemo } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { EyeOff, ExternalLink, Loader2 } from 'lucide-react'
+import { useCitationSources, useUnmentionedPages } from '@/hooks'
+import { SOURCE_CATEGORY_LABELS } from '@/lib/types'
+
+interface UnmentionedPagesCardProps {
+  projectId: string
+}
+
+export function UnmentionedPagesCard({ projectId }: UnmentionedPagesCardProps) {
+  const { data, isLoading } = useUnmentionedPages(projectId)
+  const { data: sources } = useCitationSources(projectId)
+
+  const sourcesByDomain = useMemo(
+    () => new Map((sources || []).map((source) => [source.domain, source])),
+    [sources]
+  )
+
+  // Competitor sites never mention the brand; leave them out
+  const pages = (data?.pages || []).filter((page) => {
+    const category = sourcesByDomain.get(page.domain)?.category
+    return category !== 'own' && category !== 'competitor'
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <EyeOff className="h-5 w-5" />
+          Trusted Pages That Don&apos;t Mention You
+        </CardTitle>
+        <CardDescription>
+          Pages the AI engines cite whose content never names your brand
+          {data && data.pending > 0 && ` · ${data.pending} cited pages waiting to be fetched`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : pages.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Page</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Competitors mentioned</TableHead>
+                <TableHead className="text-right">Citations</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pages.slice(0, 25).map((page) => {
+                const source = sourcesByDomain.get(page.domain)
+
+                return (
+                  <TableRow key={page.id}>
+                    <TableCell className="max-w-[420px]">
+                      <a
+                        href={page.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-primary hover:underline"
+                      >
+                        <span className="line-clamp-1">{page.title || page.url}</span>
+                        <ExternalLink className="h-3 w-3 shrink-0" />
+                      </a>
+                      <span className="text-xs text-muted-foreground">
+                        {page.domain}
+                        {source?.authority != null && ` · Authority ${Math.round(source.authority)}`}
+                      </span>
+                      {(page.meta_description || page.excerpt) && (
+                        <p className="line-clamp-2 text-sm text-muted-foreground">
+                          {page.meta_description || page.excerpt}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {source && <Badge variant="outline">{SOURCE_CATEGORY_LABELS[source.category]}</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      {page.competitors_mentioned.length > 0 ? (
+                        <div className="flex flex-wrap gap-1">
+                          {page.competitors_mentioned.map((name) => (
+                            <Badge key={name} variant="secondary" className="text-xs">
+                              {name}
+                            </Badge>
+                          ))}
+                        </div>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">None</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{page.citation_count}</TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <EyeOff className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>No unmentioned pages found</p>
+            <p className="text-sm">Cited pages are fetched in the background after each collection</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
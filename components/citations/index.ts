@@ -0,0 +1,3 @@
+export { CitationSourcesCard } from './CitationSourcesCard'
+export { OutreachTargetsCard } from './OutreachTargetsCard'
+export { UnmentionedPagesCard } from './UnmentionedPagesCard'
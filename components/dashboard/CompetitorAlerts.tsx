@@ -0,0 +1,54 @@
+'use client'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { AlertTriangle, X } from 'lucide-react'
+import { useCompetitorAlerts, useDismissCompetitorAlert } from '@/hooks'
+
+interface CompetitorAlertsProps {
+  projectId: string
+}
+
+export function CompetitorAlerts({ projectId }: CompetitorAlertsProps) {
+  const { data: alerts } = useCompetitorAlerts(projectId)
+  const dismissAlert = useDismissCompetitorAlert()
+
+  // Only shown while there is something to act on
+  if (!alerts || alerts.length === 0) return null
+
+  return (
+    <Card className="border-orange-200 bg-orange-50/50">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <AlertTriangle className="h-4 w-4 text-orange-600" />
+          Competitors overtaking you
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {alerts.map((alert) => (
+          <div key={alert.id} className="flex items-center justify-between gap-4 rounded-md border bg-background p-3">
+            <div className="text-sm">
+              <span className="font-medium">{alert.competitor_name}</span> now leads on{' '}
+              <Badge variant="outline" className="mx-1">
+                {alert.segment_type === 'tag' ? `#${alert.segment_value}` : `${alert.segment_value} intent`}
+              </Badge>
+              <span className="text-muted-foreground">
+                {alert.competitor_mentions} vs {alert.brand_mentions} mentions •{' '}
+                {new Date(alert.date).toLocaleDateString()}
+              </span>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => dismissAlert.mutate(alert.id)}
+              disabled={dismissAlert.isPending}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
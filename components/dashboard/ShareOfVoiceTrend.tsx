@@ -0,0 +1,161 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend
+} from 'recharts'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Loader2, TrendingUp } from 'lucide-react'
+import { useShareOfVoiceTrend, useMonitors } from '@/hooks'
+import { AI_MODELS, AI_MODEL_LABELS, type AIModel, type ShareOfVoiceMetric } from '@/lib/types'
+
+type TrendMetric = 'share' | 'mention_count' | 'citation_count' | 'avg_rank' | 'sentiment_avg'
+
+const METRIC_LABELS: Record<TrendMetric, string> = {
+  share: 'Share of Voice (%)',
+  mention_count: 'Mentions',
+  citation_count: 'Citations',
+  avg_rank: 'Average Rank',
+  sentiment_avg: 'Sentiment',
+}
+
+const ENTITY_COLORS = ['#f97316', '#8b5cf6', '#06b6d4', '#ec4899', '#84cc16', '#eab308', '#64748b']
+
+interface ShareOfVoiceTrendProps {
+  projectId: string
+}
+
+export function ShareOfVoiceTrend({ projectId }: ShareOfVoiceTrendProps) {
+  const [aiModel, setAiModel] = useState<string>('all')
+  const [monitorId, setMonitorId] = useState<string>('all')
+  const [metric, setMetric] = useState<TrendMetric>('share')
+
+  const { data: monitors } = useMonitors(projectId)
+  const { data: rows, isLoading } = useShareOfVoiceTrend(projectId, {
+    aiModel: aiModel === 'all' ? undefined : aiModel as AIModel,
+    monitorId: monitorId === 'all' ? undefined : monitorId,
+  })
+
+  // Brand first, then competitors in the order they first appear
+  const entities = [...new Map(
+    (rows || [])
+      .slice()
+      .sort((a, b) => Number(b.is_brand) - Number(a.is_brand))
+      .map(r => [r.entity_name, r.is_brand])
+  )]
+
+  const competitors = entities.filter(([, isBrand]) => !isBrand).map(([name]) => name)
+
+  // One point per date with a value per entity
+  const byDate = new Map<string, Record<string, number | string | null>>()
+  for (const row of rows || []) {
+    const point = byDate.get(row.date) || {
+      date: new Date(row.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+    }
+    point[row.entity_name] = row[metric as keyof ShareOfVoiceMetric] as number | null
+    byDate.set(row.date, point)
+  }
+  const chartData = [...byDate.values()]
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-2 flex-wrap">
+        <CardTitle>Share of Voice Trend</CardTitle>
+        <div className="flex gap-2">
+          <Select value={metric} onValueChange={(v) => setMetric(v as TrendMetric)}>
+            <SelectTrigger className="w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(METRIC_LABELS) as TrendMetric[]).map((m) => (
+                <SelectItem key={m} value={m}>{METRIC_LABELS[m]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={aiModel} onValueChange={setAiModel}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Models</SelectItem>
+              {AI_MODELS.map((m) => (
+                <SelectItem key={m} value={m}>{AI_MODEL_LABELS[m]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={monitorId} onValueChange={setMonitorId}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Monitors</SelectItem>
+              {(monitors || []).map((m) => (
+                <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-[300px]">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : chartData.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-[300px] text-muted-foreground">
+            <TrendingUp className="h-12 w-12 mb-3 opacity-50" />
+            <p>No share of voice history yet</p>
+            <p className="text-sm">A data point is recorded each day responses are collected</p>
+          </div>
+        ) : (
+          <div className="h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis
+                  dataKey="date"
+                  className="text-xs"
+                  tick={{ fill: 'hsl(var(--muted-foreground))' }}
+                />
+                <YAxis
+                  // Rank 1 is best, so put it at the top
+                  reversed={metric === 'avg_rank'}
+                  className="text-xs"
+                  tick={{ fill: 'hsl(var(--muted-foreground))' }}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--background))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px',
+                  }}
+                />
+                <Legend />
+                {entities.map(([name, isBrand]) => (
+                  <Line
+                    key={name}
+                    type="monotone"
+                    dataKey={name}
+                    name={name}
+                    stroke={isBrand ? 'hsl(var(--primary))' : ENTITY_COLORS[competitors.indexOf(name) % ENTITY_COLORS.length]}
+                    strokeWidth={isBrand ? 3 : 1.5}
+                    dot={isBrand ? { fill: 'hsl(var(--primary))' } : false}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
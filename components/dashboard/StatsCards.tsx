@@ -1,7 +1,7 @@
 'use client'
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { MessageSquare, Link2, Eye, ThumbsUp, Loader2 } from 'lucide-react'
+import { MessageSquare, Link2, Eye, ThumbsUp, ListOrdered, Trophy, Loader2 } from 'lucide-react'
 import { useResponseStats, useAggregatedMetrics } from '@/hooks'
 
 interface StatsCardsProps {
@@ -16,8 +16,8 @@ export function StatsCards({ projectId }: StatsCardsProps) {
 
   if (isLoading) {
     return (
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-        {[...Array(4)].map((_, i) => (
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
+        {[...Array(6)].map((_, i) => (
           <Card key={i}>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <div className="h-4 w-24 bg-muted animate-pulse rounded" />
@@ -57,12 +57,24 @@ export function StatsCards({ projectId }: StatsCardsProps) {
       subtitle: 'Average sentiment',
       icon: ThumbsUp,
     },
+    {
+      title: 'Avg Position',
+      value: stats?.avgPosition != null ? `#${stats.avgPosition.toFixed(1)}` : 'N/A',
+      subtitle: 'When recommended',
+      icon: ListOrdered,
+    },
+    {
+      title: 'Top-3 Rate',
+      value: `${stats?.top3Rate?.toFixed(1) || 0}%`,
+      subtitle: 'Ranked in the top 3',
+      icon: Trophy,
+    },
   ]
 
   // Show empty state if no data
   if (stats?.total === 0) {
     return (
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
         {statCards.map((stat) => (
           <Card key={stat.title}>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -82,7 +94,7 @@ export function StatsCards({ projectId }: StatsCardsProps) {
   }
 
   return (
-    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+    <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6">
       {statCards.map((stat) => (
         <Card key={stat.title}>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -0,0 +1,107 @@
+'use client'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Sigma, TrendingDown, TrendingUp } from 'lucide-react'
+import { useVisibilityConfidence, type CollectionDayEstimate } from '@/hooks'
+import type { ChangeTest, RateInterval } from '@/lib/response-analysis/confidence'
+
+interface VisibilityConfidenceProps {
+  projectId: string
+}
+
+function formatDay(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
+// "34% ± 8%"; a single prompt has no measurable spread
+function formatInterval(interval: RateInterval, prompts: number, unit: string) {
+  const value = `${Math.round(interval.rate)}${unit}`
+  return prompts > 1 ? `${value} ± ${Math.round(interval.margin)}${unit}` : value
+}
+
+function ChangeBadge({ change, unit }: { change: ChangeTest | null; unit: string }) {
+  if (!change) return null
+
+  const difference = `${change.difference >= 0 ? '+' : ''}${change.difference.toFixed(1)} ${unit}`
+
+  if (!change.significant) {
+    return (
+      <Badge variant="outline" className="text-muted-foreground">
+        {difference} · within noise
+      </Badge>
+    )
+  }
+
+  const Icon = change.difference >= 0 ? TrendingUp : TrendingDown
+  return (
+    <Badge
+      variant="outline"
+      className={change.difference >= 0
+        ? 'border-green-500/20 bg-green-500/10 text-green-600'
+        : 'border-red-500/20 bg-red-500/10 text-red-600'}
+    >
+      <Icon className="mr-1 h-3 w-3" />
+      {difference} · significant
+    </Badge>
+  )
+}
+
+function Estimate({ label, interval, estimate, unit, change, changeUnit }: {
+  label: string
+  interval: RateInterval
+  estimate: CollectionDayEstimate
+  unit: string
+  change: ChangeTest | null
+  changeUnit: string
+}) {
+  return (
+    <div className="space-y-1">
+      <p className="text-sm text-muted-foreground">{label}</p>
+      <p className="text-2xl font-bold">{formatInterval(interval, estimate.prompts, unit)}</p>
+      <ChangeBadge change={change} unit={changeUnit} />
+    </div>
+  )
+}
+
+export function VisibilityConfidence({ projectId }: VisibilityConfidenceProps) {
+  const { data } = useVisibilityConfidence(projectId)
+
+  // Nothing collected in the lookback window
+  if (!data) return null
+
+  const { latest, previous } = data
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Sigma className="h-4 w-4 text-muted-foreground" />
+          Latest Collection
+        </CardTitle>
+        <CardDescription>
+          {formatDay(latest.date)} · {latest.responses} responses to {latest.prompts} prompts · 95% confidence
+          {previous && ` · compared with ${formatDay(previous.date)} on ${data.sharedPrompts} shared prompts`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 sm:grid-cols-2">
+        <Estimate
+          label="Visibility score"
+          interval={latest.visibility}
+          estimate={latest}
+          unit=""
+          change={data.visibilityChange}
+          changeUnit="pts"
+        />
+        <Estimate
+          label="Mention rate"
+          interval={latest.mentionRate}
+          estimate={latest}
+          unit="%"
+          change={data.mentionRateChange}
+          changeUnit="pts"
+        />
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,7 +1,7 @@
 'use client'
 
 import Link from 'next/link'
-import { usePathname } from 'next/navigation'
+import { usePathname, useRouter } from 'next/navigation'
 import { cn } from '@/lib/utils'
 import {
   LayoutDashboard,
@@ -22,6 +22,7 @@ import {
   Fuel,
   Rocket,
   Plus,
+  LogOut,
 } from 'lucide-react'
 import { useState } from 'react'
 import { Button } from '@/components/ui/button'
@@ -31,7 +32,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
-import { useProjects } from '@/hooks'
+import { useProjects, useCurrentUser, useMemberships, useSignOut } from '@/hooks'
 
 const navigation = [
   { name: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
@@ -49,7 +50,16 @@ const navigation = [
 
 export function Sidebar() {
   const pathname = usePathname()
+  const router = useRouter()
   const [collapsed, setCollapsed] = useState(false)
+  const { data: user } = useCurrentUser()
+  const { data: memberships } = useMemberships()
+  const signOut = useSignOut()
+
+  const handleSignOut = async () => {
+    await signOut.mutateAsync()
+    router.replace('/login')
+  }
 
   return (
     <div
@@ -131,6 +141,30 @@ export function Sidebar() {
         </Link>
       </div>
 
+      {/* Account */}
+      <div className="border-t p-2">
+        <div className={cn('flex items-center gap-2 px-1', collapsed && 'justify-center px-0')}>
+          {!collapsed && (
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-medium">
+                {memberships?.[0]?.organization.name || 'Workspace'}
+              </p>
+              <p className="truncate text-xs text-muted-foreground">{user?.email}</p>
+            </div>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            onClick={handleSignOut}
+            disabled={signOut.isPending}
+            title="Sign out"
+          >
+            <LogOut className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
       {/* Collapse Toggle */}
       <Button
         variant="ghost"
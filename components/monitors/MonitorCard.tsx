@@ -20,9 +20,10 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { AI_MODEL_LABELS, type AIModel, type Monitor } from '@/lib/types'
-import { useUpdateMonitor, useDeleteMonitor } from '@/hooks'
-import { MoreVertical, Play, Pause, Loader2, Trash2 } from 'lucide-react'
+import { AI_MODEL_LABELS, SCHEDULE_FREQUENCY_OPTIONS, type AIModel, type Monitor } from '@/lib/types'
+import { useUpdateMonitor, useDeleteMonitor, useProjectRole } from '@/hooks'
+import { can } from '@/lib/permissions'
+import { MoreVertical, Play, Pause, Loader2, Trash2, CalendarClock } from 'lucide-react'
 import { formatDistanceToNow } from '@/lib/utils'
 
 interface MonitorCardProps {
@@ -35,8 +36,13 @@ export function MonitorCard({ monitor, onEdit }: MonitorCardProps) {
 
   const updateMonitor = useUpdateMonitor()
   const deleteMonitor = useDeleteMonitor()
+  const canManage = can(useProjectRole(monitor.project_id), 'project:manage')
 
   const promptsCount = monitor.prompts?.length || 0
+  const isScheduled = !!monitor.schedule_frequency && monitor.schedule_frequency !== 'manual'
+  const scheduleLabel = monitor.schedule_frequency === 'cron'
+    ? monitor.schedule_cron
+    : SCHEDULE_FREQUENCY_OPTIONS.find((o) => o.value === monitor.schedule_frequency)?.label
   const isUpdating = updateMonitor.isPending
   const isDeleting = deleteMonitor.isPending
 
@@ -59,7 +65,7 @@ export function MonitorCard({ monitor, onEdit }: MonitorCardProps) {
           <div>
             <CardTitle className="text-lg">
               <Link
-                href={`/monitors/${monitor.id}`}
+                href={`/brand/${monitor.project_id}/monitors/${monitor.id}`}
                 className="hover:underline"
               >
                 {monitor.name}
@@ -76,22 +82,28 @@ export function MonitorCard({ monitor, onEdit }: MonitorCardProps) {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
-              <DropdownMenuItem onClick={onEdit}>
-                Edit
-              </DropdownMenuItem>
+              {canManage && (
+                <DropdownMenuItem onClick={onEdit}>
+                  Edit
+                </DropdownMenuItem>
+              )}
               <DropdownMenuItem asChild>
-                <Link href={`/monitors/${monitor.id}`}>
+                <Link href={`/brand/${monitor.project_id}/monitors/${monitor.id}`}>
                   View Details
                 </Link>
               </DropdownMenuItem>
-              <DropdownMenuSeparator />
-              <DropdownMenuItem
-                className="text-destructive focus:text-destructive"
-                onClick={() => setDeleteDialogOpen(true)}
-              >
-                <Trash2 className="mr-2 h-4 w-4" />
-                Delete
-              </DropdownMenuItem>
+              {canManage && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    className="text-destructive focus:text-destructive"
+                    onClick={() => setDeleteDialogOpen(true)}
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete
+                  </DropdownMenuItem>
+                </>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
         </CardHeader>
@@ -111,6 +123,22 @@ export function MonitorCard({ monitor, onEdit }: MonitorCardProps) {
               Created {formatDistanceToNow(monitor.created_at)}
             </span>
           </div>
+          {isScheduled && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CalendarClock className="h-4 w-4" />
+              <span>
+                {scheduleLabel}
+                {monitor.is_active && monitor.next_run_at && (
+                  <> • Next run {new Date(monitor.next_run_at).toLocaleString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}</>
+                )}
+              </span>
+            </div>
+          )}
           <div className="flex items-center justify-between">
             <Badge variant={monitor.is_active ? 'default' : 'secondary'}>
               {monitor.is_active ? 'Active' : 'Paused'}
@@ -119,7 +147,7 @@ export function MonitorCard({ monitor, onEdit }: MonitorCardProps) {
               variant="ghost"
               size="sm"
               onClick={handleToggleActive}
-              disabled={isUpdating}
+              disabled={isUpdating || !canManage}
             >
               {isUpdating ? (
                 <Loader2 className="mr-1 h-3 w-3 animate-spin" />
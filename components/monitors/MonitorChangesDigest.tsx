@@ -0,0 +1,157 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { GitCompare, Loader2 } from 'lucide-react'
+import { ResponseCompareDialog, ResponseDiffBadges } from '@/components/responses'
+import { useMonitorChanges, type MonitorChange } from '@/hooks'
+import { hasChanges } from '@/lib/response-diff'
+import { AI_MODEL_LABELS } from '@/lib/types'
+
+interface MonitorChangesDigestProps {
+  brandId: string
+  monitorId: string
+  brandName?: string
+}
+
+export function MonitorChangesDigest({ brandId, monitorId, brandName }: MonitorChangesDigestProps) {
+  const { data: digest, isLoading } = useMonitorChanges(monitorId, brandName)
+  const [showUnchanged, setShowUnchanged] = useState(false)
+  const [comparing, setComparing] = useState<MonitorChange | null>(null)
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (!digest) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center text-muted-foreground">
+        <GitCompare className="h-10 w-10 mb-3 opacity-50" />
+        <p>No finished collection runs yet</p>
+        <p className="text-sm">Changes appear here once a run has saved responses</p>
+      </div>
+    )
+  }
+
+  const diffs = digest.changes.flatMap(c => (c.diff ? [c.diff] : []))
+  const stats = [
+    { label: 'Compared', value: digest.compared },
+    { label: 'Changed', value: digest.changed },
+    { label: 'Brand gained', value: diffs.filter(d => d.brandMention === 'gained').length, className: 'text-green-600' },
+    { label: 'Brand lost', value: diffs.filter(d => d.brandMention === 'lost').length, className: 'text-red-600' },
+    { label: 'Citation changes', value: diffs.filter(d => d.citationsAdded.length + d.citationsRemoved.length > 0).length },
+    { label: 'Sentiment shifts', value: diffs.filter(d => d.sentiment.shifted).length },
+  ]
+
+  const rows = showUnchanged
+    ? digest.changes
+    : digest.changes.filter(c => !c.diff || hasChanges(c.diff))
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Responses from the{' '}
+        <Link href={`/brand/${brandId}/monitors/${monitorId}/runs/${digest.run.id}`} className="underline">
+          run started {new Date(digest.run.started_at).toLocaleString()}
+        </Link>
+        . Each prompt and model is compared with the previous run through its representative sample, the one closest to the rest of its samples.
+      </p>
+
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-6">
+        {stats.map((stat) => (
+          <Card key={stat.label}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">
+                {stat.label}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${stat.className || ''}`}>{stat.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <Button variant="ghost" size="sm" onClick={() => setShowUnchanged(!showUnchanged)}>
+          {showUnchanged ? 'Hide unchanged' : `Show unchanged (${digest.compared - digest.changed})`}
+        </Button>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="py-8 text-center text-muted-foreground">
+          Nothing tracked changed since the previous responses
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[360px]">Prompt</TableHead>
+                <TableHead>Model</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead className="w-[100px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((change) => (
+                <TableRow key={change.key}>
+                  <TableCell className="font-medium">
+                    {change.promptText}
+                    {change.personaName && (
+                      <Badge variant="secondary" className="ml-2">{change.personaName}</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {AI_MODEL_LABELS[change.series.aiModel]}
+                    {change.samples > 1 && (
+                      <span className="block text-xs text-muted-foreground">{change.samples} samples</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {change.diff ? (
+                      <ResponseDiffBadges diff={change.diff} />
+                    ) : (
+                      <span className="text-xs text-muted-foreground">First response</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {change.diff && (
+                      <Button variant="ghost" size="sm" onClick={() => setComparing(change)}>
+                        Compare
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <ResponseCompareDialog
+        series={comparing?.series || null}
+        promptText={comparing?.promptText}
+        responseId={comparing?.current.id}
+        previousResponseId={comparing?.previous?.id}
+        brandName={brandName}
+        onClose={() => setComparing(null)}
+      />
+    </div>
+  )
+}
@@ -18,32 +18,21 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { AI_MODELS, AI_MODEL_LABELS, type AIModel } from '@/lib/types'
-import { useCreateMonitor, useUpdateMonitor } from '@/hooks'
+import {
+  AI_MODELS,
+  AI_MODEL_LABELS,
+  DEFAULT_AI_MODELS,
+  MONITOR_LANGUAGES,
+  MONITOR_LOCATIONS,
+  MAX_SAMPLES_PER_PROMPT,
+  SCHEDULE_FREQUENCY_OPTIONS,
+  type AIModel,
+  type ScheduleFrequency,
+} from '@/lib/types'
+import { useCreateMonitor, useUpdateMonitor, usePersonas } from '@/hooks'
+import { computeNextRunAt, isValidCronExpression } from '@/lib/collection/schedule'
 import { Loader2 } from 'lucide-react'
 
-const LANGUAGES = [
-  { value: 'en', label: 'English' },
-  { value: 'es', label: 'Spanish' },
-  { value: 'fr', label: 'French' },
-  { value: 'de', label: 'German' },
-  { value: 'pt', label: 'Portuguese' },
-  { value: 'it', label: 'Italian' },
-  { value: 'nl', label: 'Dutch' },
-  { value: 'ja', label: 'Japanese' },
-  { value: 'zh', label: 'Chinese' },
-]
-
-const LOCATIONS = [
-  { value: 'US', label: 'United States' },
-  { value: 'UK', label: 'United Kingdom' },
-  { value: 'CA', label: 'Canada' },
-  { value: 'AU', label: 'Australia' },
-  { value: 'DE', label: 'Germany' },
-  { value: 'FR', label: 'France' },
-  { value: 'Global', label: 'Global' },
-]
-
 interface MonitorFormProps {
   open: boolean
   onOpenChange: (open: boolean) => void
@@ -54,7 +43,11 @@ interface MonitorFormProps {
     language: string
     location: string
     ai_models: AIModel[]
+    persona_ids?: string[]
+    samples_per_prompt?: number
     is_active: boolean
+    schedule_frequency?: ScheduleFrequency
+    schedule_cron?: string | null
   }
 }
 
@@ -65,10 +58,17 @@ export function MonitorForm({ open, onOpenChange, projectId, monitor }: MonitorF
   const [language, setLanguage] = useState(monitor?.language || 'en')
   const [location, setLocation] = useState(monitor?.location || 'US')
   const [selectedModels, setSelectedModels] = useState<AIModel[]>(
-    monitor?.ai_models || [...AI_MODELS]
+    monitor?.ai_models || [...DEFAULT_AI_MODELS]
+  )
+  const [selectedPersonas, setSelectedPersonas] = useState<string[]>(monitor?.persona_ids || [])
+  const [samplesPerPrompt, setSamplesPerPrompt] = useState(monitor?.samples_per_prompt || 1)
+  const [scheduleFrequency, setScheduleFrequency] = useState<ScheduleFrequency>(
+    monitor?.schedule_frequency || 'manual'
   )
+  const [scheduleCron, setScheduleCron] = useState(monitor?.schedule_cron || '')
   const [error, setError] = useState('')
 
+  const { data: personas } = usePersonas(projectId)
   const createMonitor = useCreateMonitor()
   const updateMonitor = useUpdateMonitor()
 
@@ -88,6 +88,17 @@ export function MonitorForm({ open, onOpenChange, projectId, monitor }: MonitorF
       return
     }
 
+    if (scheduleFrequency === 'cron' && !isValidCronExpression(scheduleCron)) {
+      setError('Enter a valid cron expression that runs at least once, e.g. "0 6 * * 1-5"')
+      return
+    }
+
+    const schedule = {
+      schedule_frequency: scheduleFrequency,
+      schedule_cron: scheduleFrequency === 'cron' ? scheduleCron.trim() : null,
+    }
+    const nextRunAt = computeNextRunAt(schedule)?.toISOString() || null
+
     try {
       if (isEditing && monitor) {
         await updateMonitor.mutateAsync({
@@ -96,6 +107,10 @@ export function MonitorForm({ open, onOpenChange, projectId, monitor }: MonitorF
           language,
           location,
           ai_models: selectedModels,
+          persona_ids: selectedPersonas,
+          samples_per_prompt: samplesPerPrompt,
+          ...schedule,
+          next_run_at: nextRunAt,
         })
       } else {
         await createMonitor.mutateAsync({
@@ -104,7 +119,11 @@ export function MonitorForm({ open, onOpenChange, projectId, monitor }: MonitorF
           language,
           location,
           ai_models: selectedModels,
+          persona_ids: selectedPersonas,
+          samples_per_prompt: samplesPerPrompt,
           is_active: true,
+          ...schedule,
+          next_run_at: nextRunAt,
         })
       }
 
@@ -112,7 +131,11 @@ export function MonitorForm({ open, onOpenChange, projectId, monitor }: MonitorF
       setName('')
       setLanguage('en')
       setLocation('US')
-      setSelectedModels([...AI_MODELS])
+      setSelectedModels([...DEFAULT_AI_MODELS])
+      setSelectedPersonas([])
+      setSamplesPerPrompt(1)
+      setScheduleFrequency('manual')
+      setScheduleCron('')
       onOpenChange(false)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
@@ -127,6 +150,14 @@ export function MonitorForm({ open, onOpenChange, projectId, monitor }: MonitorF
     )
   }
 
+  const togglePersona = (personaId: string) => {
+    setSelectedPersonas((prev) =>
+      prev.includes(personaId)
+        ? prev.filter((id) => id !== personaId)
+        : [...prev, personaId]
+    )
+  }
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md">
@@ -161,7 +192,7 @@ export function MonitorForm({ open, onOpenChange, projectId, monitor }: MonitorF
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {LANGUAGES.map((lang) => (
+                    {MONITOR_LANGUAGES.map((lang) => (
                       <SelectItem key={lang.value} value={lang.value}>
                         {lang.label}
                       </SelectItem>
@@ -177,7 +208,7 @@ export function MonitorForm({ open, onOpenChange, projectId, monitor }: MonitorF
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {LOCATIONS.map((loc) => (
+                    {MONITOR_LOCATIONS.map((loc) => (
                       <SelectItem key={loc.value} value={loc.value}>
                         {loc.label}
                       </SelectItem>
@@ -204,6 +235,84 @@ export function MonitorForm({ open, onOpenChange, projectId, monitor }: MonitorF
               </div>
             </div>
 
+            {personas && personas.length > 0 && (
+              <div className="grid gap-2">
+                <label className="text-sm font-medium">Personas</label>
+                <div className="flex flex-wrap gap-2">
+                  {personas.map((persona) => (
+                    <Button
+                      key={persona.id}
+                      type="button"
+                      variant={selectedPersonas.includes(persona.id) ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => togglePersona(persona.id)}
+                    >
+                      {persona.name}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {selectedPersonas.length > 0
+                    ? `Each prompt is asked once per selected persona (${selectedPersonas.length}x queries).`
+                    : 'No persona selected: prompts are asked without persona context.'}
+                </p>
+              </div>
+            )}
+
+            <div className="grid gap-2">
+              <label className="text-sm font-medium">Samples per Prompt</label>
+              <Select
+                value={String(samplesPerPrompt)}
+                onValueChange={(value) => setSamplesPerPrompt(Number(value))}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: MAX_SAMPLES_PER_PROMPT }, (_, i) => i + 1).map((count) => (
+                    <SelectItem key={count} value={String(count)}>
+                      {count === 1 ? '1 (single answer)' : `${count} samples`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {samplesPerPrompt > 1
+                  ? `Each prompt is asked ${samplesPerPrompt} times per model (${samplesPerPrompt}x queries), narrowing the confidence intervals on visibility.`
+                  : 'AI answers vary between requests; asking more than once gives more reliable rates.'}
+              </p>
+            </div>
+
+            <div className="grid gap-2">
+              <label className="text-sm font-medium">Collection Schedule</label>
+              <Select
+                value={scheduleFrequency}
+                onValueChange={(value) => setScheduleFrequency(value as ScheduleFrequency)}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SCHEDULE_FREQUENCY_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {SCHEDULE_FREQUENCY_OPTIONS.find((o) => o.value === scheduleFrequency)?.description}
+              </p>
+              {scheduleFrequency === 'cron' && (
+                <Input
+                  value={scheduleCron}
+                  onChange={(e) => setScheduleCron(e.target.value)}
+                  placeholder="0 6 * * 1-5"
+                  className="font-mono"
+                />
+              )}
+            </div>
+
             {error && (
               <p className="text-sm text-destructive">{error}</p>
             )}
@@ -0,0 +1,124 @@
+'use client'
+
+import Link from 'next/link'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { COLLECTION_RUN_STATUS_LABELS, type CollectionRun, type CollectionRunStatus } from '@/lib/types'
+import { useCollectionRuns } from '@/hooks'
+import { Loader2, History } from 'lucide-react'
+
+const STATUS_VARIANTS: Record<CollectionRunStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  running: 'secondary',
+  completed: 'default',
+  failed: 'destructive',
+  interrupted: 'outline',
+}
+
+export function RunStatusBadge({ status }: { status: CollectionRunStatus }) {
+  return (
+    <Badge variant={STATUS_VARIANTS[status]}>
+      {status === 'running' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+      {COLLECTION_RUN_STATUS_LABELS[status]}
+    </Badge>
+  )
+}
+
+function formatRunDate(dateString: string) {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function formatDuration(run: CollectionRun) {
+  if (!run.completed_at) return '—'
+  const seconds = Math.round(
+    (new Date(run.completed_at).getTime() - new Date(run.started_at).getTime()) / 1000
+  )
+  if (seconds < 60) return `${seconds}s`
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+interface RunHistoryTableProps {
+  brandId: string
+  monitorId: string
+}
+
+export function RunHistoryTable({ brandId, monitorId }: RunHistoryTableProps) {
+  const { data: runs, isLoading } = useCollectionRuns(monitorId)
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (!runs || runs.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center text-muted-foreground">
+        <History className="h-10 w-10 mb-3 opacity-50" />
+        <p>No collection runs yet</p>
+        <p className="text-sm">Runs appear here after a manual or scheduled collection</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Started</TableHead>
+            <TableHead>Trigger</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Prompts</TableHead>
+            <TableHead className="text-right">Responses</TableHead>
+            <TableHead className="text-right">Failed</TableHead>
+            <TableHead className="text-right">Duration</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {runs.map((run) => (
+            <TableRow key={run.id} className="hover:bg-muted/50">
+              <TableCell>
+                <Link
+                  href={`/brand/${brandId}/monitors/${monitorId}/runs/${run.id}`}
+                  className="hover:underline"
+                >
+                  {formatRunDate(run.started_at)}
+                </Link>
+              </TableCell>
+              <TableCell className="capitalize text-muted-foreground">{run.trigger}</TableCell>
+              <TableCell>
+                <RunStatusBadge status={run.status} />
+              </TableCell>
+              <TableCell className="text-right">
+                {run.prompts_processed}/{run.prompts_total}
+              </TableCell>
+              <TableCell className="text-right">{run.responses_saved}</TableCell>
+              <TableCell className="text-right">
+                <span className={run.failed_count > 0 ? 'text-red-600' : ''}>
+                  {run.failed_count}
+                </span>
+              </TableCell>
+              <TableCell className="text-right text-muted-foreground">
+                {formatDuration(run)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
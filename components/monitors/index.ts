@@ -1,2 +1,4 @@
 export { MonitorForm } from './MonitorForm'
 export { MonitorCard } from './MonitorCard'
+export { RunHistoryTable, RunStatusBadge } from './RunHistoryTable'
+export { MonitorChangesDigest } from './MonitorChangesDigest'
@@ -0,0 +1,130 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Upload, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { useImportProject, useMemberships } from '@/hooks'
+import { can } from '@/lib/permissions'
+
+export function ImportProjectDialog() {
+  const router = useRouter()
+  const { data: memberships } = useMemberships()
+  const importProject = useImportProject()
+
+  const workspaces = (memberships || []).filter((m) => can(m.role, 'project:manage'))
+
+  const [isOpen, setIsOpen] = useState(false)
+  const [file, setFile] = useState<File | null>(null)
+  const [name, setName] = useState('')
+  const [organizationId, setOrganizationId] = useState<string | null>(null)
+  const targetOrganizationId = organizationId || workspaces[0]?.organization_id
+
+  const handleImport = async () => {
+    if (!file || !targetOrganizationId) return
+
+    try {
+      const { project, counts } = await importProject.mutateAsync({
+        organizationId: targetOrganizationId,
+        file,
+        name: name.trim() || undefined,
+      })
+      toast.success(`Imported "${project.name}"`, {
+        description: `${counts.prompts || 0} prompts, ${counts.responses || 0} responses`,
+      })
+      setIsOpen(false)
+      router.push(`/brand/${project.id}/dashboard`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import project')
+    }
+  }
+
+  if (workspaces.length === 0) return null
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button size="lg" variant="outline">
+          <Upload className="h-5 w-5 mr-2" />
+          Import Brand
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Import Brand</DialogTitle>
+          <DialogDescription>
+            Recreate a brand from a project export, with all its prompts, responses, metrics and content.
+            Importing the same export twice makes two independent copies.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Export file</label>
+            <Input
+              type="file"
+              accept=".gz,.json,application/gzip,application/json"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Name (optional)</label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Keep the exported name"
+            />
+          </div>
+          {workspaces.length > 1 && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Workspace</label>
+              <Select value={targetOrganizationId} onValueChange={setOrganizationId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {workspaces.map((m) => (
+                    <SelectItem key={m.organization_id} value={m.organization_id}>
+                      {m.organization.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={importProject.isPending || !file}>
+            {importProject.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              'Import'
+            )}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1 @@
+export { ImportProjectDialog } from './ImportProjectDialog'
@@ -0,0 +1,129 @@
+'use client'
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend
+} from 'recharts'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { usePromptVisibilityTrend } from '@/hooks'
+import { AI_MODEL_COLORS, AI_MODEL_LABELS, type AIModel } from '@/lib/types'
+import { BarChart3 } from 'lucide-react'
+
+interface PromptTrendChartProps {
+  promptId: string
+  days?: number
+}
+
+export function PromptTrendChart({ promptId, days = 90 }: PromptTrendChartProps) {
+  const { data: trendData, isLoading } = usePromptVisibilityTrend(promptId, days)
+
+  // One point per date with the all-model score and each model's score
+  const models = [...new Set(
+    (trendData || []).map(d => d.ai_model).filter((m): m is AIModel => m !== null)
+  )]
+  const byDate = new Map<string, Record<string, number | string>>()
+  for (const d of trendData || []) {
+    const point = byDate.get(d.date) || {
+      date: new Date(d.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+    }
+    point[d.ai_model || 'all'] = d.visibility_score
+    byDate.set(d.date, point)
+  }
+  const chartData = [...byDate.values()]
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Visibility Trend</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[300px] flex items-center justify-center">
+            <div className="animate-pulse text-muted-foreground">Loading chart...</div>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (chartData.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Visibility Trend</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[300px] flex flex-col items-center justify-center text-center">
+            <BarChart3 className="h-12 w-12 text-muted-foreground/50 mb-4" />
+            <h3 className="font-semibold text-lg">No visibility data yet</h3>
+            <p className="text-muted-foreground text-sm max-w-sm mt-1">
+              Metrics are recorded each time this prompt is collected.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Visibility Trend</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+              <XAxis
+                dataKey="date"
+                className="text-xs"
+                tick={{ fill: 'hsl(var(--muted-foreground))' }}
+              />
+              <YAxis
+                domain={[0, 100]}
+                className="text-xs"
+                tick={{ fill: 'hsl(var(--muted-foreground))' }}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--background))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: '8px',
+                }}
+              />
+              <Legend />
+              <Line
+                type="monotone"
+                dataKey="all"
+                name="All Models"
+                stroke="hsl(var(--primary))"
+                strokeWidth={3}
+                dot={{ fill: 'hsl(var(--primary))' }}
+                connectNulls
+              />
+              {models.map((model) => (
+                <Line
+                  key={model}
+                  type="monotone"
+                  dataKey={model}
+                  name={AI_MODEL_LABELS[model] || model}
+                  stroke={AI_MODEL_COLORS[model]}
+                  strokeWidth={1.5}
+                  dot={false}
+                  connectNulls
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1 +1,2 @@
 export { AddPromptDialog } from './AddPromptDialog'
+export { PromptTrendChart } from './PromptTrendChart'
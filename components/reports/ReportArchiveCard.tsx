@@ -0,0 +1,112 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Archive, Download, ExternalLink, Loader2, Mail, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { useReports, useDeleteReport, useProjectRole, reportDownloadUrl } from '@/hooks'
+import { can } from '@/lib/permissions'
+import { formatDistanceToNow } from '@/lib/utils'
+import { formatPeriod } from '@/lib/reports/format'
+
+interface ReportArchiveCardProps {
+  projectId: string
+}
+
+export function ReportArchiveCard({ projectId }: ReportArchiveCardProps) {
+  const { data: reports, isLoading } = useReports(projectId)
+  const deleteReport = useDeleteReport()
+  const canManage = can(useProjectRole(projectId), 'project:manage')
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this report from the archive?')) return
+
+    try {
+      await deleteReport.mutateAsync({ id, projectId })
+    } catch {
+      toast.error('Failed to delete report')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Archive className="h-5 w-5" />
+          Report Archive
+        </CardTitle>
+        <CardDescription>Every generated report, manual or scheduled</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : reports && reports.length > 0 ? (
+          <div className="space-y-3">
+            {reports.map((report) => (
+              <div key={report.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{report.title}</span>
+                    {report.schedule_id && <Badge variant="secondary">Scheduled</Badge>}
+                    {report.status === 'generating' && <Badge variant="outline">Generating</Badge>}
+                    {report.status === 'failed' && <Badge variant="destructive">Failed</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {formatPeriod({ periodStart: report.period_start, periodEnd: report.period_end })}
+                    {' · '}
+                    {formatDistanceToNow(report.created_at)}
+                  </p>
+                  {report.sent_at ? (
+                    <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Mail className="h-3 w-3" />
+                      Sent to {report.recipients.join(', ')}
+                    </p>
+                  ) : report.error ? (
+                    <p className="text-xs text-destructive">{report.error}</p>
+                  ) : null}
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  {report.status === 'completed' && (
+                    <>
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={reportDownloadUrl(report.id, 'html')} target="_blank" rel="noopener noreferrer">
+                          <ExternalLink className="mr-1 h-3 w-3" />
+                          View
+                        </a>
+                      </Button>
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={reportDownloadUrl(report.id, 'pdf')}>
+                          <Download className="mr-1 h-3 w-3" />
+                          PDF
+                        </a>
+                      </Button>
+                    </>
+                  )}
+                  {canManage && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(report.id)}
+                      disabled={deleteReport.isPending}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <Archive className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>No reports yet</p>
+            <p className="text-sm">Generate one above or add a schedule</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,175 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { FileBarChart, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { useGenerateReport, useProjectRole } from '@/hooks'
+import { can } from '@/lib/permissions'
+import { addDays, getReportPeriod } from '@/lib/reports/schedule'
+import { REPORT_SECTIONS, type ReportFormat, type ReportSection } from '@/lib/types'
+import { SectionPicker, parseRecipients } from './SectionPicker'
+
+interface ReportBuilderCardProps {
+  projectId: string
+}
+
+type PeriodPreset = 'last_7' | 'last_30' | 'last_month' | 'custom'
+
+function presetPeriod(preset: Exclude<PeriodPreset, 'custom'>): { periodStart: string; periodEnd: string } {
+  if (preset === 'last_month') return getReportPeriod('monthly')
+
+  const today = new Date().toISOString().split('T')[0]
+  return { periodStart: addDays(today, preset === 'last_7' ? -7 : -30), periodEnd: addDays(today, -1) }
+}
+
+export function ReportBuilderCard({ projectId }: ReportBuilderCardProps) {
+  const generateReport = useGenerateReport()
+  const canSend = can(useProjectRole(projectId), 'project:manage')
+
+  const [title, setTitle] = useState('Visibility Report')
+  const [preset, setPreset] = useState<PeriodPreset>('last_30')
+  const [period, setPeriod] = useState(() => presetPeriod('last_30'))
+  const [sections, setSections] = useState<ReportSection[]>(REPORT_SECTIONS.slice(0, 6).map((s) => s.value))
+  const [recipients, setRecipients] = useState('')
+  const [format, setFormat] = useState<ReportFormat>('pdf')
+
+  const handlePresetChange = (value: PeriodPreset) => {
+    setPreset(value)
+    if (value !== 'custom') setPeriod(presetPeriod(value))
+  }
+
+  const handleGenerate = async () => {
+    const emails = parseRecipients(recipients)
+
+    try {
+      const { report } = await generateReport.mutateAsync({
+        projectId,
+        title: title.trim() || undefined,
+        ...period,
+        sections,
+        recipients: emails,
+        format,
+      })
+      if (emails.length > 0 && report.error) {
+        toast.warning('Report generated but not emailed', { description: report.error })
+      } else {
+        toast.success(emails.length > 0 ? `Report sent to ${emails.length} recipient(s)` : 'Report generated')
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to generate report')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileBarChart className="h-5 w-5" />
+          New Report
+        </CardTitle>
+        <CardDescription>
+          Pick a period and the sections to include. Generated reports are kept in the archive below.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Title</label>
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Period</label>
+            <Select value={preset} onValueChange={(value) => handlePresetChange(value as PeriodPreset)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="last_7">Last 7 days</SelectItem>
+                <SelectItem value="last_30">Last 30 days</SelectItem>
+                <SelectItem value="last_month">Last calendar month</SelectItem>
+                <SelectItem value="custom">Custom</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {preset === 'custom' && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">From</label>
+              <Input
+                type="date"
+                value={period.periodStart}
+                onChange={(e) => setPeriod((prev) => ({ ...prev, periodStart: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">To</label>
+              <Input
+                type="date"
+                value={period.periodEnd}
+                onChange={(e) => setPeriod((prev) => ({ ...prev, periodEnd: e.target.value }))}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Sections</label>
+          <SectionPicker id="report-section" value={sections} onChange={setSections} />
+        </div>
+
+        {canSend && (
+          <div className="grid gap-4 md:grid-cols-[1fr_160px]">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Email to (optional)</label>
+              <Input
+                value={recipients}
+                onChange={(e) => setRecipients(e.target.value)}
+                placeholder="client@example.com, team@example.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Attachment</label>
+              <Select value={format} onValueChange={(value) => setFormat(value as ReportFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pdf">PDF</SelectItem>
+                  <SelectItem value="html">HTML</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            onClick={handleGenerate}
+            disabled={generateReport.isPending || sections.length === 0 || !period.periodStart || !period.periodEnd}
+          >
+            {generateReport.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Generating...
+              </>
+            ) : (
+              'Generate Report'
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,278 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CalendarClock, Plus, Trash2, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  useReportSchedules,
+  useCreateReportSchedule,
+  useUpdateReportSchedule,
+  useDeleteReportSchedule,
+  useProjectRole,
+} from '@/hooks'
+import { can } from '@/lib/permissions'
+import { REPORT_SECTIONS, type ReportFormat, type ReportFrequency, type ReportSection } from '@/lib/types'
+import { SectionPicker, parseRecipients } from './SectionPicker'
+
+interface ReportSchedulesCardProps {
+  projectId: string
+}
+
+const FREQUENCY_LABELS: Record<ReportFrequency, string> = {
+  weekly: 'Weekly (Mondays, previous 7 days)',
+  monthly: 'Monthly (1st, previous month)',
+}
+
+const EMPTY_SCHEDULE = {
+  name: '',
+  frequency: 'monthly' as ReportFrequency,
+  sections: REPORT_SECTIONS.slice(0, 6).map((s) => s.value) as ReportSection[],
+  recipients: '',
+  format: 'pdf' as ReportFormat,
+}
+
+export function ReportSchedulesCard({ projectId }: ReportSchedulesCardProps) {
+  const { data: schedules, isLoading } = useReportSchedules(projectId)
+  const createSchedule = useCreateReportSchedule()
+  const updateSchedule = useUpdateReportSchedule()
+  const deleteSchedule = useDeleteReportSchedule()
+  const canManage = can(useProjectRole(projectId), 'project:manage')
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [newSchedule, setNewSchedule] = useState(EMPTY_SCHEDULE)
+
+  const recipients = parseRecipients(newSchedule.recipients)
+
+  const handleCreate = async () => {
+    if (!newSchedule.name.trim() || newSchedule.sections.length === 0 || recipients.length === 0) return
+
+    try {
+      await createSchedule.mutateAsync({
+        projectId,
+        name: newSchedule.name.trim(),
+        frequency: newSchedule.frequency,
+        sections: newSchedule.sections,
+        recipients,
+        format: newSchedule.format,
+      })
+      toast.success('Report schedule created')
+      setNewSchedule(EMPTY_SCHEDULE)
+      setIsDialogOpen(false)
+    } catch {
+      toast.error('Failed to create report schedule')
+    }
+  }
+
+  const handleToggle = async (id: string, isActive: boolean) => {
+    try {
+      await updateSchedule.mutateAsync({ id, is_active: isActive })
+    } catch {
+      toast.error('Failed to update report schedule')
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this report schedule? Reports it already sent stay in the archive.')) return
+
+    try {
+      await deleteSchedule.mutateAsync({ id, projectId })
+    } catch {
+      toast.error('Failed to delete report schedule')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Scheduled Reports
+            </CardTitle>
+            <CardDescription>
+              Email a report to clients or stakeholders every week or month
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Schedule
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[560px]">
+                <DialogHeader>
+                  <DialogTitle>Schedule a Report</DialogTitle>
+                  <DialogDescription>
+                    Each run covers the period since the previous one. Times are UTC.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 py-4">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Name</label>
+                    <Input
+                      value={newSchedule.name}
+                      onChange={(e) => setNewSchedule((prev) => ({ ...prev, name: e.target.value }))}
+                      placeholder="e.g., Monthly client report"
+                    />
+                  </div>
+                  <div className="grid gap-4 sm:grid-cols-[1fr_120px]">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Frequency</label>
+                      <Select
+                        value={newSchedule.frequency}
+                        onValueChange={(value) => setNewSchedule((prev) => ({ ...prev, frequency: value as ReportFrequency }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(FREQUENCY_LABELS) as ReportFrequency[]).map((frequency) => (
+                            <SelectItem key={frequency} value={frequency}>
+                              {FREQUENCY_LABELS[frequency]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Attachment</label>
+                      <Select
+                        value={newSchedule.format}
+                        onValueChange={(value) => setNewSchedule((prev) => ({ ...prev, format: value as ReportFormat }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="pdf">PDF</SelectItem>
+                          <SelectItem value="html">HTML</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Recipients</label>
+                    <Input
+                      value={newSchedule.recipients}
+                      onChange={(e) => setNewSchedule((prev) => ({ ...prev, recipients: e.target.value }))}
+                      placeholder="client@example.com, team@example.com"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Sections</label>
+                    <SectionPicker
+                      id="schedule-section"
+                      value={newSchedule.sections}
+                      onChange={(sections) => setNewSchedule((prev) => ({ ...prev, sections }))}
+                    />
+                  </div>
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleCreate}
+                    disabled={
+                      createSchedule.isPending ||
+                      !newSchedule.name.trim() ||
+                      newSchedule.sections.length === 0 ||
+                      recipients.length === 0
+                    }
+                  >
+                    {createSchedule.isPending ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      'Create Schedule'
+                    )}
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : schedules && schedules.length > 0 ? (
+          <div className="space-y-3">
+            {schedules.map((schedule) => (
+              <div key={schedule.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{schedule.name}</span>
+                    <Badge variant="secondary">{schedule.frequency === 'weekly' ? 'Weekly' : 'Monthly'}</Badge>
+                    <Badge variant="outline">{schedule.format.toUpperCase()}</Badge>
+                    {!schedule.is_active && <Badge variant="outline">Paused</Badge>}
+                  </div>
+                  <p className="truncate text-xs text-muted-foreground">
+                    To {schedule.recipients.join(', ')}
+                  </p>
+                  {schedule.is_active && schedule.next_run_at && (
+                    <p className="text-xs text-muted-foreground">
+                      Next report {new Date(schedule.next_run_at).toLocaleString()}
+                    </p>
+                  )}
+                </div>
+                {canManage && (
+                  <div className="flex shrink-0 items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleToggle(schedule.id, !schedule.is_active)}
+                      disabled={updateSchedule.isPending}
+                    >
+                      {schedule.is_active ? 'Pause' : 'Resume'}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(schedule.id)}
+                      disabled={deleteSchedule.isPending}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <CalendarClock className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>No scheduled reports</p>
+            {canManage && <p className="text-sm">Add a schedule to send reports automatically</p>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
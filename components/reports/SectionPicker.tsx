@@ -0,0 +1,45 @@
+'use client'
+
+import { Checkbox } from '@/components/ui/checkbox'
+import { REPORT_SECTIONS, type ReportSection } from '@/lib/types'
+
+interface SectionPickerProps {
+  id: string
+  value: ReportSection[]
+  onChange: (sections: ReportSection[]) => void
+}
+
+export function SectionPicker({ id, value, onChange }: SectionPickerProps) {
+  const toggle = (section: ReportSection, enabled: boolean) => {
+    // Keep the report's section order regardless of click order
+    onChange(REPORT_SECTIONS
+      .map((option) => option.value)
+      .filter((s) => (s === section ? enabled : value.includes(s))))
+  }
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      {REPORT_SECTIONS.map((option) => (
+        <div key={option.value} className="flex items-start gap-2">
+          <Checkbox
+            id={`${id}-${option.value}`}
+            checked={value.includes(option.value)}
+            onCheckedChange={(checked) => toggle(option.value, checked === true)}
+          />
+          <label htmlFor={`${id}-${option.value}`} className="text-sm leading-none">
+            {option.label}
+            <span className="block text-xs text-muted-foreground">{option.description}</span>
+          </label>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+// Comma- or newline-separated addresses from a text field
+export function parseRecipients(value: string): string[] {
+  return value
+    .split(/[\s,;]+/)
+    .map((email) => email.trim())
+    .filter(Boolean)
+}
@@ -0,0 +1,3 @@
+export { ReportBuilderCard } from './ReportBuilderCard'
+export { ReportSchedulesCard } from './ReportSchedulesCard'
+export { ReportArchiveCard } from './ReportArchiveCard'
@@ -0,0 +1,185 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ArrowRight, Loader2 } from 'lucide-react'
+import { useResponseSeries, type ResponseSeries, type SeriesResponse } from '@/hooks'
+import { diffResponses, type TextDiffSegment } from '@/lib/response-diff'
+import { AI_MODEL_LABELS } from '@/lib/types'
+import { ResponseDiffSummary } from './ResponseDiffSummary'
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+const SEGMENT_STYLES: Record<TextDiffSegment['type'], string> = {
+  same: 'text-muted-foreground',
+  added: 'border-l-2 border-green-500 bg-green-50 pl-2 text-green-900',
+  removed: 'border-l-2 border-red-500 bg-red-50 pl-2 text-red-900 line-through',
+}
+
+interface ResponseCompareDialogProps {
+  // Series to compare; the dialog is open while this is set
+  series: ResponseSeries | null
+  promptText?: string
+  // Response to start from (compared with the one before it); defaults to the latest
+  responseId?: string
+  // Response to compare it with, when not simply the one before
+  previousResponseId?: string
+  brandName?: string
+  onClose: () => void
+}
+
+export function ResponseCompareDialog({ series, promptText, responseId, previousResponseId, brandName, onClose }: ResponseCompareDialogProps) {
+  return (
+    <Dialog open={!!series} onOpenChange={(open) => { if (!open) onClose() }}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Compare Responses</DialogTitle>
+          <DialogDescription>
+            {promptText || 'Consecutive answers to the same prompt'}
+            {series && ` · ${AI_MODEL_LABELS[series.aiModel]}`}
+          </DialogDescription>
+        </DialogHeader>
+        {series && (
+          <ComparisonView
+            series={series}
+            responseId={responseId}
+            previousResponseId={previousResponseId}
+            brandName={brandName}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// Mounted per open dialog so the picked pair resets between series
+function ComparisonView({ series, responseId, previousResponseId, brandName }: {
+  series: ResponseSeries
+  responseId?: string
+  previousResponseId?: string
+  brandName?: string
+}) {
+  const { data: responses, isLoading } = useResponseSeries(series)
+  const [currentId, setCurrentId] = useState<string | null>(null)
+  const [previousId, setPreviousId] = useState<string | null>(previousResponseId || null)
+  const [changesOnly, setChangesOnly] = useState(false)
+
+  const list = useMemo(() => responses || [], [responses])
+  // Runs with several samples list each one
+  const label = (response: SeriesResponse) =>
+    list.some(r => r.sample_index)
+      ? `${formatDate(response.collected_at)} · sample ${(response.sample_index || 0) + 1}`
+      : formatDate(response.collected_at)
+  const currentIndex = Math.max(0, list.findIndex(r => r.id === (currentId || responseId)))
+  const current = list[currentIndex]
+  const previous = list.find(r => r.id === previousId) || list[currentIndex + 1]
+
+  const diff = useMemo(
+    () => (current && previous ? diffResponses(previous, current, brandName) : null),
+    [current, previous, brandName]
+  )
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (!current || !previous || !diff) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        There is no earlier response from this model to compare with yet.
+      </p>
+    )
+  }
+
+  const visibleSegments = changesOnly ? diff.text?.filter(s => s.type !== 'same') : diff.text
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={previous.id} onValueChange={setPreviousId}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {list.filter(r => r.collected_at < current.collected_at).map((r) => (
+              <SelectItem key={r.id} value={r.id}>{label(r)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ArrowRight className="h-4 w-4 text-muted-foreground" />
+        <Select
+          value={current.id}
+          onValueChange={(id) => {
+            setCurrentId(id)
+            setPreviousId(null)
+          }}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {list.slice(0, -1).map((r) => (
+              <SelectItem key={r.id} value={r.id}>{label(r)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <ResponseDiffSummary diff={diff} />
+
+      {visibleSegments && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">Answer text</p>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className="border-green-300 text-green-800">
+                +{diff.text!.filter(s => s.type === 'added').length}
+              </Badge>
+              <Badge variant="outline" className="border-red-300 text-red-800">
+                −{diff.text!.filter(s => s.type === 'removed').length}
+              </Badge>
+              <Button variant="ghost" size="sm" onClick={() => setChangesOnly(!changesOnly)}>
+                {changesOnly ? 'Show full text' : 'Show changes only'}
+              </Button>
+            </div>
+          </div>
+          <div className="space-y-1 rounded-md border p-3 text-sm">
+            {visibleSegments.length === 0 ? (
+              <p className="text-muted-foreground">The text is unchanged.</p>
+            ) : (
+              visibleSegments.map((segment, index) => (
+                <p key={index} className={SEGMENT_STYLES[segment.type]}>{segment.text}</p>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+'use client'
+
+import { Badge } from '@/components/ui/badge'
+import { ArrowDown, ArrowRight, ArrowUp } from 'lucide-react'
+import { hasChanges, type RankChange, type ResponseDiff } from '@/lib/response-diff'
+
+function formatSentiment(score: number | null) {
+  return score === null ? 'N/A' : `${Math.round(score * 100)}%`
+}
+
+function formatRankChange(change: RankChange) {
+  if (change.from === null) return `new at #${change.to}`
+  if (change.to === null) return `dropped from #${change.from}`
+  return `#${change.from} → #${change.to}`
+}
+
+// Lower rank number is better
+function RankIcon({ change }: { change: RankChange }) {
+  if (change.from !== null && change.to !== null) {
+    return change.to < change.from
+      ? <ArrowUp className="h-3 w-3 text-green-600" />
+      : <ArrowDown className="h-3 w-3 text-red-600" />
+  }
+  return change.to !== null
+    ? <ArrowUp className="h-3 w-3 text-green-600" />
+    : <ArrowDown className="h-3 w-3 text-red-600" />
+}
+
+function ChangeList({ label, items, tone }: { label: string; items: string[]; tone: 'added' | 'removed' }) {
+  if (items.length === 0) return null
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-muted-foreground">{label}</p>
+      <div className="flex flex-wrap gap-1">
+        {items.map((item) => (
+          <Badge
+            key={item}
+            variant="outline"
+            className={tone === 'added'
+              ? 'border-green-300 bg-green-50 text-green-800'
+              : 'border-red-300 bg-red-50 text-red-800'}
+          >
+            {tone === 'added' ? '+' : '−'} {item}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Compact one-line summary, used in the monitor digest
+export function ResponseDiffBadges({ diff }: { diff: ResponseDiff }) {
+  if (!hasChanges(diff)) {
+    return <span className="text-xs text-muted-foreground">No tracked changes</span>
+  }
+
+  const brandRank = diff.rankChanges.find(c => c.isBrand)
+  const otherRankMoves = diff.rankChanges.filter(c => !c.isBrand).length
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {diff.brandMention === 'gained' && <Badge className="bg-green-600">Brand now mentioned</Badge>}
+      {diff.brandMention === 'lost' && <Badge variant="destructive">Brand dropped out</Badge>}
+      {brandRank && <Badge variant="outline">Rank {formatRankChange(brandRank)}</Badge>}
+      {diff.brandsAdded.length > 0 && <Badge variant="outline">+{diff.brandsAdded.length} brands</Badge>}
+      {diff.brandsRemoved.length > 0 && <Badge variant="outline">−{diff.brandsRemoved.length} brands</Badge>}
+      {otherRankMoves > 0 && <Badge variant="outline">{otherRankMoves} competitor rank moves</Badge>}
+      {diff.citationsAdded.length > 0 && <Badge variant="outline">+{diff.citationsAdded.length} citations</Badge>}
+      {diff.citationsRemoved.length > 0 && <Badge variant="outline">−{diff.citationsRemoved.length} citations</Badge>}
+      {diff.sentiment.shifted && (
+        <Badge variant="outline">
+          Sentiment {formatSentiment(diff.sentiment.from)} → {formatSentiment(diff.sentiment.to)}
+        </Badge>
+      )}
+    </div>
+  )
+}
+
+// Full breakdown, used in the comparison view
+export function ResponseDiffSummary({ diff }: { diff: ResponseDiff }) {
+  if (!hasChanges(diff)) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Same brands, rankings, citations and sentiment in both responses.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {diff.brandMention && (
+        <Badge variant={diff.brandMention === 'gained' ? 'default' : 'destructive'}>
+          {diff.brandMention === 'gained' ? 'Brand now mentioned' : 'Brand no longer mentioned'}
+        </Badge>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <ChangeList label="Brands added" items={diff.brandsAdded} tone="added" />
+        <ChangeList label="Brands removed" items={diff.brandsRemoved} tone="removed" />
+        <ChangeList label="New citations" items={diff.citationsAdded} tone="added" />
+        <ChangeList label="Lost citations" items={diff.citationsRemoved} tone="removed" />
+      </div>
+
+      {diff.rankChanges.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">Ranking changes</p>
+          <ul className="space-y-1 text-sm">
+            {diff.rankChanges.map((change) => (
+              <li key={change.name} className="flex items-center gap-2">
+                <RankIcon change={change} />
+                <span className={change.isBrand ? 'font-medium' : undefined}>{change.name}</span>
+                <span className="text-muted-foreground">{formatRankChange(change)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {diff.sentiment.shifted && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-xs font-medium text-muted-foreground">Sentiment</span>
+          <span>{formatSentiment(diff.sentiment.from)}</span>
+          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+          <span className={diff.sentiment.delta! > 0 ? 'text-green-600' : 'text-red-600'}>
+            {formatSentiment(diff.sentiment.to)}
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
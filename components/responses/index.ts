@@ -0,0 +1,2 @@
+export { ResponseCompareDialog } from './ResponseCompareDialog'
+export { ResponseDiffBadges, ResponseDiffSummary } from './ResponseDiffSummary'
@@ -0,0 +1,313 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { BellRing, Plus, Trash2, Loader2, Mail, Webhook } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  useAlertRules,
+  useCreateAlertRule,
+  useUpdateAlertRule,
+  useDeleteAlertRule,
+  useProjectRole,
+} from '@/hooks'
+import { can } from '@/lib/permissions'
+import { ALERT_RULE_TYPE_OPTIONS, type AlertChannel, type AlertRuleType } from '@/lib/types'
+
+interface AlertRulesCardProps {
+  projectId: string
+}
+
+const EMPTY_RULE = {
+  name: '',
+  rule_type: 'visibility_drop' as AlertRuleType,
+  threshold: String(ALERT_RULE_TYPE_OPTIONS[0].threshold?.default ?? ''),
+  channels: [] as AlertChannel[],
+  email_recipients: '',
+  webhook_url: '',
+}
+
+export function AlertRulesCard({ projectId }: AlertRulesCardProps) {
+  const { data: rules, isLoading } = useAlertRules(projectId)
+  const createRule = useCreateAlertRule()
+  const updateRule = useUpdateAlertRule()
+  const deleteRule = useDeleteAlertRule()
+  const canManage = can(useProjectRole(projectId), 'project:manage')
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [newRule, setNewRule] = useState(EMPTY_RULE)
+
+  const selectedType = ALERT_RULE_TYPE_OPTIONS.find((o) => o.value === newRule.rule_type)!
+
+  const handleTypeChange = (ruleType: AlertRuleType) => {
+    const option = ALERT_RULE_TYPE_OPTIONS.find((o) => o.value === ruleType)!
+    setNewRule((prev) => ({
+      ...prev,
+      rule_type: ruleType,
+      threshold: String(option.threshold?.default ?? ''),
+    }))
+  }
+
+  const toggleChannel = (channel: AlertChannel, enabled: boolean) => {
+    setNewRule((prev) => ({
+      ...prev,
+      channels: enabled ? [...prev.channels, channel] : prev.channels.filter((c) => c !== channel),
+    }))
+  }
+
+  const handleCreate = async () => {
+    const recipients = newRule.email_recipients
+      .split(/[,\s]+/)
+      .map((email) => email.trim())
+      .filter(Boolean)
+
+    if (newRule.channels.includes('email') && recipients.length === 0) {
+      toast.error('Add at least one email recipient')
+      return
+    }
+    if (newRule.channels.includes('webhook') && !newRule.webhook_url.trim()) {
+      toast.error('Add a webhook URL')
+      return
+    }
+
+    try {
+      await createRule.mutateAsync({
+        project_id: projectId,
+        name: newRule.name.trim() || selectedType.label,
+        rule_type: newRule.rule_type,
+        threshold: selectedType.threshold && newRule.threshold !== '' ? Number(newRule.threshold) : null,
+        channels: newRule.channels,
+        email_recipients: recipients,
+        webhook_url: newRule.webhook_url.trim() || null,
+        is_active: true,
+      })
+      setNewRule(EMPTY_RULE)
+      setIsDialogOpen(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create alert rule')
+    }
+  }
+
+  const handleToggle = async (id: string, isActive: boolean) => {
+    try {
+      await updateRule.mutateAsync({ id, is_active: isActive })
+    } catch {
+      toast.error('Failed to update alert rule')
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this alert rule? Its past notifications are kept.')) return
+
+    try {
+      await deleteRule.mutateAsync({ id, projectId })
+    } catch {
+      toast.error('Failed to delete alert rule')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BellRing className="h-5 w-5" />
+              Alert Rules
+            </CardTitle>
+            <CardDescription>
+              Checked after every collection. Alerts appear in Notifications and can also be sent by email or to a Slack webhook.
+            </CardDescription>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            {canManage && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Rule
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="sm:max-w-[500px]">
+              <DialogHeader>
+                <DialogTitle>Add Alert Rule</DialogTitle>
+                <DialogDescription>{selectedType.description}</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Condition</label>
+                  <Select value={newRule.rule_type} onValueChange={(value) => handleTypeChange(value as AlertRuleType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ALERT_RULE_TYPE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Name (optional)</label>
+                    <Input
+                      value={newRule.name}
+                      onChange={(e) => setNewRule((prev) => ({ ...prev, name: e.target.value }))}
+                      placeholder={selectedType.label}
+                    />
+                  </div>
+                  {selectedType.threshold && (
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">{selectedType.threshold.label}</label>
+                      <Input
+                        type="number"
+                        step="any"
+                        value={newRule.threshold}
+                        onChange={(e) => setNewRule((prev) => ({ ...prev, threshold: e.target.value }))}
+                      />
+                    </div>
+                  )}
+                </div>
+                <div className="space-y-3">
+                  <label className="text-sm font-medium">Also send to</label>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="alert-channel-email"
+                      checked={newRule.channels.includes('email')}
+                      onCheckedChange={(checked) => toggleChannel('email', checked === true)}
+                    />
+                    <label htmlFor="alert-channel-email" className="text-sm">Email</label>
+                  </div>
+                  {newRule.channels.includes('email') && (
+                    <Input
+                      value={newRule.email_recipients}
+                      onChange={(e) => setNewRule((prev) => ({ ...prev, email_recipients: e.target.value }))}
+                      placeholder="alice@agency.com, bob@agency.com"
+                    />
+                  )}
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="alert-channel-webhook"
+                      checked={newRule.channels.includes('webhook')}
+                      onCheckedChange={(checked) => toggleChannel('webhook', checked === true)}
+                    />
+                    <label htmlFor="alert-channel-webhook" className="text-sm">Slack webhook</label>
+                  </div>
+                  {newRule.channels.includes('webhook') && (
+                    <Input
+                      type="url"
+                      value={newRule.webhook_url}
+                      onChange={(e) => setNewRule((prev) => ({ ...prev, webhook_url: e.target.value }))}
+                      placeholder="https://hooks.slack.com/services/..."
+                    />
+                  )}
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleCreate} disabled={createRule.isPending}>
+                  {createRule.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Adding...
+                    </>
+                  ) : (
+                    'Add Rule'
+                  )}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!canManage ? (
+          <p className="text-sm text-muted-foreground">
+            Only owners and editors can see and change alert rules.
+          </p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : rules && rules.length > 0 ? (
+          <div className="space-y-3">
+            {rules.map((rule) => {
+              const option = ALERT_RULE_TYPE_OPTIONS.find((o) => o.value === rule.rule_type)
+
+              return (
+                <div key={rule.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{rule.name}</span>
+                      {!rule.is_active && <Badge variant="outline">Paused</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {option?.label}
+                      {option?.threshold && rule.threshold !== null && ` • ${option.threshold.label}: ${rule.threshold}`}
+                      {rule.last_triggered_at && ` • Last triggered ${new Date(rule.last_triggered_at).toLocaleDateString()}`}
+                    </p>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      {rule.channels.includes('email') && (
+                        <span className="flex items-center gap-1">
+                          <Mail className="h-3 w-3" />
+                          {rule.email_recipients.join(', ')}
+                        </span>
+                      )}
+                      {rule.channels.includes('webhook') && (
+                        <span className="flex items-center gap-1">
+                          <Webhook className="h-3 w-3" />
+                          Slack webhook
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleToggle(rule.id, !rule.is_active)}
+                      disabled={updateRule.isPending}
+                    >
+                      {rule.is_active ? 'Pause' : 'Resume'}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(rule.id)}
+                      disabled={deleteRule.isPending}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <BellRing className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>No alert rules yet</p>
+            <p className="text-sm">Add a rule to hear about visibility changes as soon as they happen</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
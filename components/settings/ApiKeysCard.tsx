@@ -0,0 +1,260 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { KeyRound, Plus, Loader2, Copy, Check, ExternalLink } from 'lucide-react'
+import { toast } from 'sonner'
+import { useApiKeys, useCreateApiKey, useRevokeApiKey, useProjectRole } from '@/hooks'
+import { can } from '@/lib/permissions'
+import { formatDistanceToNow } from '@/lib/utils'
+import { API_KEY_SCOPES, type ApiKeyScope } from '@/lib/types'
+
+interface ApiKeysCardProps {
+  projectId: string
+  organizationId?: string | null
+}
+
+const EMPTY_KEY = {
+  name: '',
+  scopes: API_KEY_SCOPES.filter((scope) => scope.value.endsWith(':read')).map((scope) => scope.value),
+  rateLimitPerMinute: 60,
+}
+
+export function ApiKeysCard({ projectId, organizationId }: ApiKeysCardProps) {
+  const canManage = can(useProjectRole(projectId), 'members:manage')
+  const { data: apiKeys, isLoading } = useApiKeys(canManage ? organizationId : null)
+  const createApiKey = useCreateApiKey()
+  const revokeApiKey = useRevokeApiKey()
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [newKey, setNewKey] = useState(EMPTY_KEY)
+  // Shown once after creation; the server only keeps a hash
+  const [createdKey, setCreatedKey] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const toggleScope = (scope: ApiKeyScope, enabled: boolean) => {
+    setNewKey((prev) => ({
+      ...prev,
+      scopes: enabled ? [...prev.scopes, scope] : prev.scopes.filter((s) => s !== scope),
+    }))
+  }
+
+  const handleCreate = async () => {
+    if (!organizationId || !newKey.name.trim() || newKey.scopes.length === 0) return
+
+    try {
+      const { key } = await createApiKey.mutateAsync({
+        organizationId,
+        name: newKey.name.trim(),
+        scopes: newKey.scopes,
+        rateLimitPerMinute: newKey.rateLimitPerMinute,
+      })
+      setCreatedKey(key)
+      setNewKey(EMPTY_KEY)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create API key')
+    }
+  }
+
+  const handleDialogChange = (open: boolean) => {
+    setIsDialogOpen(open)
+    if (!open) {
+      setCreatedKey(null)
+      setCopied(false)
+    }
+  }
+
+  const handleCopyKey = async () => {
+    if (!createdKey) return
+    await navigator.clipboard.writeText(createdKey)
+    setCopied(true)
+  }
+
+  const handleRevoke = async (id: string, name: string) => {
+    if (!organizationId || !confirm(`Revoke "${name}"? Requests using it will fail immediately.`)) return
+
+    try {
+      await revokeApiKey.mutateAsync({ id, organizationId })
+    } catch {
+      toast.error('Failed to revoke API key')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              API Keys
+            </CardTitle>
+            <CardDescription>
+              Read data and manage prompts and keywords from your own tools. Keys reach every brand in
+              this workspace.{' '}
+              <a href="/api/v1/openapi.json" target="_blank" rel="noreferrer" className="inline-flex items-center gap-1 underline">
+                OpenAPI spec
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            </CardDescription>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={handleDialogChange}>
+            {canManage && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create Key
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="sm:max-w-[500px]">
+              <DialogHeader>
+                <DialogTitle>{createdKey ? 'API Key Created' : 'Create API Key'}</DialogTitle>
+                <DialogDescription>
+                  {createdKey
+                    ? 'Copy the key now. It won’t be shown again.'
+                    : 'Send it as Authorization: Bearer <key> with each request'}
+                </DialogDescription>
+              </DialogHeader>
+              {createdKey ? (
+                <div className="space-y-4 py-4">
+                  <div className="flex gap-2">
+                    <Input value={createdKey} readOnly className="font-mono text-xs" />
+                    <Button variant="outline" onClick={handleCopyKey}>
+                      {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                  <div className="flex justify-end">
+                    <Button onClick={() => handleDialogChange(false)}>Done</Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="space-y-4 py-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Name</label>
+                      <Input
+                        value={newKey.name}
+                        onChange={(e) => setNewKey((prev) => ({ ...prev, name: e.target.value }))}
+                        placeholder="e.g., Looker export"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Requests per minute</label>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={1000}
+                        value={newKey.rateLimitPerMinute}
+                        onChange={(e) => setNewKey((prev) => ({ ...prev, rateLimitPerMinute: parseInt(e.target.value) || 1 }))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Scopes</label>
+                      {API_KEY_SCOPES.map((scope) => (
+                        <div key={scope.value} className="flex items-start gap-2">
+                          <Checkbox
+                            id={`api-key-scope-${scope.value}`}
+                            checked={newKey.scopes.includes(scope.value)}
+                            onCheckedChange={(checked) => toggleScope(scope.value, checked === true)}
+                          />
+                          <label htmlFor={`api-key-scope-${scope.value}`} className="text-sm leading-none">
+                            <span className="font-mono">{scope.value}</span>
+                            <span className="block text-xs text-muted-foreground">{scope.description}</span>
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => handleDialogChange(false)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      onClick={handleCreate}
+                      disabled={createApiKey.isPending || !newKey.name.trim() || newKey.scopes.length === 0}
+                    >
+                      {createApiKey.isPending ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Creating...
+                        </>
+                      ) : (
+                        'Create Key'
+                      )}
+                    </Button>
+                  </div>
+                </>
+              )}
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!canManage ? (
+          <p className="text-sm text-muted-foreground">
+            Only workspace owners can see and create API keys.
+          </p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : apiKeys && apiKeys.length > 0 ? (
+          <div className="space-y-3">
+            {apiKeys.map((apiKey) => (
+              <div key={apiKey.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{apiKey.name}</span>
+                    <span className="font-mono text-xs text-muted-foreground">{apiKey.key_prefix}…</span>
+                    {apiKey.revoked_at && <Badge variant="outline">Revoked</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {apiKey.rate_limit_per_minute} req/min ·{' '}
+                    {apiKey.last_used_at ? `Last used ${formatDistanceToNow(apiKey.last_used_at)}` : 'Never used'}
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {apiKey.scopes.map((scope) => (
+                      <Badge key={scope} variant="secondary" className="font-mono text-xs">
+                        {scope}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                {!apiKey.revoked_at && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="shrink-0"
+                    onClick={() => handleRevoke(apiKey.id, apiKey.name)}
+                    disabled={revokeApiKey.isPending}
+                  >
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <KeyRound className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>No API keys yet</p>
+            <p className="text-sm">Create a key to pull visibility data into your own dashboards</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
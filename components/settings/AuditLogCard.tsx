@@ -0,0 +1,88 @@
+'use client'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { History, Loader2 } from 'lucide-react'
+import { useAuditLog } from '@/hooks'
+import type { AuditLogEntry } from '@/lib/types'
+
+interface AuditLogCardProps {
+  projectId: string
+}
+
+// Update rows store { column: { old, new } }; list the columns that changed
+function describeChanges(entry: AuditLogEntry): string | null {
+  if (!entry.changes) return null
+  if (entry.action === 'update') {
+    return `Changed ${Object.keys(entry.changes).join(', ')}`
+  }
+  const name = entry.changes.name ?? entry.changes.prompt_text ?? entry.changes.title ?? entry.changes.email
+  return typeof name === 'string' ? name : null
+}
+
+export function AuditLogCard({ projectId }: AuditLogCardProps) {
+  const { data: entries, isLoading } = useAuditLog(projectId)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Activity
+        </CardTitle>
+        <CardDescription>
+          Who changed what in this brand, newest first
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries && entries.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[180px]">When</TableHead>
+                <TableHead>Who</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(entry.created_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-sm">{entry.user_email || 'System'}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="font-mono text-xs">
+                      {entry.action.includes('.') ? entry.action : `${entry.entity_type}.${entry.action}`}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="max-w-[320px] truncate text-sm text-muted-foreground">
+                    {describeChanges(entry) || '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <History className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>No activity recorded yet</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
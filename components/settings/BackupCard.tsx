@@ -0,0 +1,59 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Download, HardDriveDownload } from 'lucide-react'
+import { useProjectRole } from '@/hooks'
+import { can } from '@/lib/permissions'
+
+interface BackupCardProps {
+  projectId: string
+}
+
+const INCLUDED = [
+  'Brand Bible, competitors and personas',
+  'Monitors and prompts',
+  'Responses and citations',
+  'Visibility and share of voice metrics',
+  'Keywords, keyword history and competitor domains',
+  'Generated content and brand overviews',
+]
+
+export function BackupCard({ projectId }: BackupCardProps) {
+  const canExport = can(useProjectRole(projectId), 'project:manage')
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HardDriveDownload className="h-5 w-5" />
+          Export Project
+        </CardTitle>
+        <CardDescription>
+          Download everything in this project as one archive, for offline backups or to move it to
+          another workspace or environment. Import it from the brands page with Import Brand.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="list-disc space-y-1 pl-5 text-sm text-muted-foreground">
+          {INCLUDED.map((item) => (
+            <li key={item}>{item}</li>
+          ))}
+        </ul>
+        <p className="text-sm text-muted-foreground">
+          Team members, integrations, alerts, webhooks, reports and share links are not included.
+        </p>
+        {canExport ? (
+          <Button asChild>
+            <a href={`/api/brand/${projectId}/export`}>
+              <Download className="mr-2 h-4 w-4" />
+              Download Export
+            </a>
+          </Button>
+        ) : (
+          <p className="text-sm text-muted-foreground">Only owners and editors can export projects.</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,143 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Palette, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { useWorkspaceBranding, useUpdateWorkspaceBranding, useProjectRole } from '@/hooks'
+import { can } from '@/lib/permissions'
+import { DEFAULT_BRANDING, HEX_COLOR_PATTERN, type Branding } from '@/lib/branding'
+
+interface BrandingCardProps {
+  projectId: string
+  organizationId?: string | null
+}
+
+export function BrandingCard({ projectId, organizationId }: BrandingCardProps) {
+  const branding = useWorkspaceBranding(projectId)
+  const updateBranding = useUpdateWorkspaceBranding()
+  const canManage = can(useProjectRole(projectId), 'members:manage')
+
+  // Unsaved edits; the saved branding until the first change
+  const [edits, setEdits] = useState<Branding | null>(null)
+  const form = edits || branding
+  const setForm = (update: (prev: Branding) => Branding) => setEdits(update(form))
+
+  const colorsValid = HEX_COLOR_PATTERN.test(form.primaryColor) && HEX_COLOR_PATTERN.test(form.accentColor)
+
+  const handleSave = async () => {
+    if (!organizationId || !colorsValid) return
+
+    // Defaults are stored as NULL so they follow any future change to them
+    const orNull = (value: string | null, fallback: string | null) => (value && value !== fallback ? value : null)
+
+    try {
+      await updateBranding.mutateAsync({
+        organizationId,
+        brand_name: orNull(form.name.trim(), DEFAULT_BRANDING.name),
+        brand_logo_url: orNull(form.logoUrl?.trim() || null, null),
+        brand_primary_color: orNull(form.primaryColor.toLowerCase(), DEFAULT_BRANDING.primaryColor),
+        brand_accent_color: orNull(form.accentColor.toLowerCase(), DEFAULT_BRANDING.accentColor),
+      })
+      setEdits(null)
+      toast.success('Branding saved')
+    } catch {
+      toast.error('Failed to save branding')
+    }
+  }
+
+  const colorField = (label: string, key: 'primaryColor' | 'accentColor') => (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">{label}</label>
+      <div className="flex gap-2">
+        <input
+          type="color"
+          value={HEX_COLOR_PATTERN.test(form[key]) ? form[key] : DEFAULT_BRANDING[key]}
+          onChange={(e) => setForm((prev) => ({ ...prev, [key]: e.target.value }))}
+          disabled={!canManage}
+          className="h-9 w-12 cursor-pointer rounded border"
+        />
+        <Input
+          value={form[key]}
+          onChange={(e) => setForm((prev) => ({ ...prev, [key]: e.target.value }))}
+          disabled={!canManage}
+          className="font-mono"
+        />
+      </div>
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Palette className="h-5 w-5" />
+          White Label
+        </CardTitle>
+        <CardDescription>
+          Your workspace&apos;s name, logo and colors replace Luminari&apos;s on reports, Brand Bible PDFs
+          and shared dashboards. Applies to every project in the workspace.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Brand name</label>
+            <Input
+              value={form.name}
+              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+              placeholder={DEFAULT_BRANDING.name}
+              disabled={!canManage}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Logo URL</label>
+            <Input
+              type="url"
+              value={form.logoUrl || ''}
+              onChange={(e) => setForm((prev) => ({ ...prev, logoUrl: e.target.value }))}
+              placeholder="https://agency.com/logo.png"
+              disabled={!canManage}
+            />
+            <p className="text-xs text-muted-foreground">PNG or JPEG, publicly reachable, so it can be embedded in PDFs</p>
+          </div>
+          {colorField('Primary color', 'primaryColor')}
+          {colorField('Accent color', 'accentColor')}
+        </div>
+
+        <div className="overflow-hidden rounded-lg border">
+          <div className="flex items-center justify-between px-4 py-3 text-white" style={{ backgroundColor: HEX_COLOR_PATTERN.test(form.primaryColor) ? form.primaryColor : DEFAULT_BRANDING.primaryColor }}>
+            <span className="font-semibold">Report preview</span>
+            {form.logoUrl && (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={form.logoUrl} alt="" className="max-h-8 max-w-32 object-contain" />
+            )}
+          </div>
+          <div className="flex items-center gap-2 px-4 py-3 text-xs text-muted-foreground">
+            <span className="h-2 w-16 rounded-full" style={{ backgroundColor: HEX_COLOR_PATTERN.test(form.accentColor) ? form.accentColor : DEFAULT_BRANDING.accentColor }} />
+            Generated by {form.name.trim() || DEFAULT_BRANDING.name}
+          </div>
+        </div>
+
+        {canManage ? (
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={updateBranding.isPending || !colorsValid}>
+              {updateBranding.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Save Branding'
+              )}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Only workspace owners can change branding.</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -21,7 +21,8 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { Users, Plus, Trash2, ExternalLink, Loader2 } from 'lucide-react'
-import { useCompetitors, useCreateCompetitor, useDeleteCompetitor } from '@/hooks'
+import { useCompetitors, useCreateCompetitor, useDeleteCompetitor, useProjectRole } from '@/hooks'
+import { can } from '@/lib/permissions'
 import type { Competitor } from '@/lib/types'
 
 interface CompetitorListProps {
@@ -32,11 +33,13 @@ export function CompetitorList({ projectId }: CompetitorListProps) {
   const { data: competitors, isLoading } = useCompetitors(projectId)
   const createCompetitor = useCreateCompetitor()
   const deleteCompetitor = useDeleteCompetitor()
+  const canManage = can(useProjectRole(projectId), 'project:manage')
 
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [newCompetitor, setNewCompetitor] = useState({
     name: '',
     website_url: '',
+    aliases: '',
   })
 
   const handleCreate = async () => {
@@ -46,9 +49,10 @@ export function CompetitorList({ projectId }: CompetitorListProps) {
       project_id: projectId,
       name: newCompetitor.name.trim(),
       website_url: newCompetitor.website_url.trim() || undefined,
+      aliases: newCompetitor.aliases.split(',').map(a => a.trim()).filter(Boolean),
     })
 
-    setNewCompetitor({ name: '', website_url: '' })
+    setNewCompetitor({ name: '', website_url: '', aliases: '' })
     setIsDialogOpen(false)
   }
 
@@ -72,12 +76,14 @@ export function CompetitorList({ projectId }: CompetitorListProps) {
             </CardDescription>
           </div>
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="mr-2 h-4 w-4" />
-                Add Competitor
-              </Button>
-            </DialogTrigger>
+            {canManage && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Competitor
+                </Button>
+              </DialogTrigger>
+            )}
             <DialogContent>
               <DialogHeader>
                 <DialogTitle>Add Competitor</DialogTitle>
@@ -102,6 +108,17 @@ export function CompetitorList({ projectId }: CompetitorListProps) {
                     placeholder="https://competitor.com"
                   />
                 </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Aliases (optional)</label>
+                  <Input
+                    value={newCompetitor.aliases}
+                    onChange={(e) => setNewCompetitor(prev => ({ ...prev, aliases: e.target.value }))}
+                    placeholder="e.g., CompInc, Competitor Pro"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Comma-separated names AI answers may use for this competitor
+                  </p>
+                </div>
               </div>
               <div className="flex justify-end gap-2">
                 <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
@@ -139,7 +156,14 @@ export function CompetitorList({ projectId }: CompetitorListProps) {
             <TableBody>
               {competitors.map((competitor) => (
                 <TableRow key={competitor.id}>
-                  <TableCell className="font-medium">{competitor.name}</TableCell>
+                  <TableCell className="font-medium">
+                    {competitor.name}
+                    {competitor.aliases && competitor.aliases.length > 0 && (
+                      <p className="text-xs font-normal text-muted-foreground">
+                        aka {competitor.aliases.join(', ')}
+                      </p>
+                    )}
+                  </TableCell>
                   <TableCell>
                     {competitor.website_url ? (
                       <a
@@ -156,14 +180,16 @@ export function CompetitorList({ projectId }: CompetitorListProps) {
                     )}
                   </TableCell>
                   <TableCell>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDelete(competitor.id)}
-                      disabled={deleteCompetitor.isPending}
-                    >
-                      <Trash2 className="h-4 w-4 text-destructive" />
-                    </Button>
+                    {canManage && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(competitor.id)}
+                        disabled={deleteCompetitor.isPending}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    )}
                   </TableCell>
                 </TableRow>
               ))}
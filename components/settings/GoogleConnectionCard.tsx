@@ -7,7 +7,8 @@ import { Badge } from '@/components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { AlertCircle, CheckCircle2, ExternalLink, Info, Loader2, Unplug, Check } from 'lucide-react'
 import { toast } from 'sonner'
-import { useGoogleConnection, useUpdateGoogleProperties, useDisconnectGoogle } from '@/hooks'
+import { useGoogleConnection, useUpdateGoogleProperties, useDisconnectGoogle, useProjectRole } from '@/hooks'
+import { can } from '@/lib/permissions'
 
 interface GoogleConnectionCardProps {
   projectId: string
@@ -17,6 +18,7 @@ export function GoogleConnectionCard({ projectId }: GoogleConnectionCardProps) {
   const { data, isLoading, error, refetch } = useGoogleConnection(projectId)
   const updateProperties = useUpdateGoogleProperties()
   const disconnectGoogle = useDisconnectGoogle()
+  const canManage = can(useProjectRole(projectId), 'integrations:manage')
 
   const [selectedGSC, setSelectedGSC] = useState<string | null>(null)
   const [selectedGA4, setSelectedGA4] = useState<string | null>(null)
@@ -133,7 +135,7 @@ export function GoogleConnectionCard({ projectId }: GoogleConnectionCardProps) {
               </Badge>
             )}
           </div>
-          {isConnected ? (
+          {!canManage ? null : isConnected ? (
             <Button
               variant="outline"
               size="sm"
@@ -165,6 +167,7 @@ export function GoogleConnectionCard({ projectId }: GoogleConnectionCardProps) {
                 <Select
                   value={selectedGSC || 'none'}
                   onValueChange={(value) => setSelectedGSC(value === 'none' ? null : value)}
+                  disabled={!canManage}
                 >
                   <SelectTrigger>
                     <SelectValue placeholder="Select a property" />
@@ -191,6 +194,7 @@ export function GoogleConnectionCard({ projectId }: GoogleConnectionCardProps) {
                 <Select
                   value={selectedGA4 || 'none'}
                   onValueChange={(value) => setSelectedGA4(value === 'none' ? null : value)}
+                  disabled={!canManage}
                 >
                   <SelectTrigger>
                     <SelectValue placeholder="Select a property" />
@@ -214,20 +218,22 @@ export function GoogleConnectionCard({ projectId }: GoogleConnectionCardProps) {
               </div>
 
               {/* Save Button */}
-              <div className="flex justify-end pt-2">
-                <Button
-                  onClick={handleUpdateProperties}
-                  disabled={updateProperties.isPending}
-                  className={saveSuccess ? 'bg-green-600 hover:bg-green-700' : ''}
-                >
-                  {updateProperties.isPending ? (
-                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                  ) : saveSuccess ? (
-                    <Check className="h-4 w-4 mr-2" />
-                  ) : null}
-                  {updateProperties.isPending ? 'Saving...' : saveSuccess ? 'Saved!' : 'Save Properties'}
-                </Button>
-              </div>
+              {canManage && (
+                <div className="flex justify-end pt-2">
+                  <Button
+                    onClick={handleUpdateProperties}
+                    disabled={updateProperties.isPending}
+                    className={saveSuccess ? 'bg-green-600 hover:bg-green-700' : ''}
+                  >
+                    {updateProperties.isPending ? (
+                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    ) : saveSuccess ? (
+                      <Check className="h-4 w-4 mr-2" />
+                    ) : null}
+                    {updateProperties.isPending ? 'Saving...' : saveSuccess ? 'Saved!' : 'Save Properties'}
+                  </Button>
+                </div>
+              )}
             </div>
 
             {/* Info about GSC data */}
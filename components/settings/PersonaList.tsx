@@ -15,7 +15,8 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog'
 import { UserCircle, Plus, Trash2, X, Loader2 } from 'lucide-react'
-import { usePersonas, useCreatePersona, useDeletePersona } from '@/hooks'
+import { usePersonas, useCreatePersona, useDeletePersona, useProjectRole } from '@/hooks'
+import { can } from '@/lib/permissions'
 
 interface PersonaListProps {
   projectId: string
@@ -25,6 +26,7 @@ export function PersonaList({ projectId }: PersonaListProps) {
   const { data: personas, isLoading } = usePersonas(projectId)
   const createPersona = useCreatePersona()
   const deletePersona = useDeletePersona()
+  const canManage = can(useProjectRole(projectId), 'project:manage')
 
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [newPersona, setNewPersona] = useState({
@@ -87,12 +89,14 @@ export function PersonaList({ projectId }: PersonaListProps) {
             </CardDescription>
           </div>
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="mr-2 h-4 w-4" />
-                Add Persona
-              </Button>
-            </DialogTrigger>
+            {canManage && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Persona
+                </Button>
+              </DialogTrigger>
+            )}
             <DialogContent className="sm:max-w-[500px]">
               <DialogHeader>
                 <DialogTitle>Add Persona</DialogTitle>
@@ -185,15 +189,17 @@ export function PersonaList({ projectId }: PersonaListProps) {
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
             {personas.map((persona) => (
               <Card key={persona.id} className="relative">
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  className="absolute top-2 right-2"
-                  onClick={() => handleDelete(persona.id)}
-                  disabled={deletePersona.isPending}
-                >
-                  <Trash2 className="h-4 w-4 text-destructive" />
-                </Button>
+                {canManage && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="absolute top-2 right-2"
+                    onClick={() => handleDelete(persona.id)}
+                    disabled={deletePersona.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                )}
                 <CardContent className="pt-6">
                   <h3 className="font-semibold text-lg">{persona.name}</h3>
                   {persona.age_range && (
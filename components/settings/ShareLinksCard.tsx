@@ -0,0 +1,258 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Share2, Plus, Loader2, Copy, Check } from 'lucide-react'
+import { toast } from 'sonner'
+import { useDashboardShares, useCreateDashboardShare, useRevokeDashboardShare, useProjectRole } from '@/hooks'
+import { can } from '@/lib/permissions'
+import { formatDistanceToNow } from '@/lib/utils'
+
+interface ShareLinksCardProps {
+  projectId: string
+}
+
+const EXPIRY_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: '1 year' },
+]
+
+const EMPTY_SHARE = { name: '', expiresInDays: 30, periodDays: 30 }
+
+export function ShareLinksCard({ projectId }: ShareLinksCardProps) {
+  const { data: shares, isLoading } = useDashboardShares(projectId)
+  const createShare = useCreateDashboardShare()
+  const revokeShare = useRevokeDashboardShare()
+  const canManage = can(useProjectRole(projectId), 'project:manage')
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [newShare, setNewShare] = useState(EMPTY_SHARE)
+  // Shown once after creation; the server only keeps a hash of the token
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const handleCreate = async () => {
+    if (!newShare.name.trim()) return
+
+    try {
+      const { url } = await createShare.mutateAsync({ projectId, ...newShare, name: newShare.name.trim() })
+      setCreatedUrl(url)
+      setNewShare(EMPTY_SHARE)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create share link')
+    }
+  }
+
+  const handleDialogChange = (open: boolean) => {
+    setIsDialogOpen(open)
+    if (!open) {
+      setCreatedUrl(null)
+      setCopied(false)
+    }
+  }
+
+  const handleCopyUrl = async () => {
+    if (!createdUrl) return
+    await navigator.clipboard.writeText(createdUrl)
+    setCopied(true)
+  }
+
+  const handleRevoke = async (id: string) => {
+    if (!confirm('Revoke this link? Anyone using it will lose access immediately.')) return
+
+    try {
+      await revokeShare.mutateAsync({ id, projectId })
+    } catch {
+      toast.error('Failed to revoke share link')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Share2 className="h-5 w-5" />
+              Shared Dashboards
+            </CardTitle>
+            <CardDescription>
+              Read-only dashboard links for clients without an account. Links always expire.
+            </CardDescription>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={handleDialogChange}>
+            {canManage && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Create Link
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="sm:max-w-[500px]">
+              <DialogHeader>
+                <DialogTitle>{createdUrl ? 'Link Created' : 'Share Dashboard'}</DialogTitle>
+                <DialogDescription>
+                  {createdUrl
+                    ? 'Copy the link now. It won’t be shown again.'
+                    : 'Anyone with the link can view this project’s visibility, share of voice, citations, sentiment and answer gaps'}
+                </DialogDescription>
+              </DialogHeader>
+              {createdUrl ? (
+                <div className="space-y-4 py-4">
+                  <div className="flex gap-2">
+                    <Input value={createdUrl} readOnly className="font-mono text-xs" />
+                    <Button variant="outline" onClick={handleCopyUrl}>
+                      {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                  <div className="flex justify-end">
+                    <Button onClick={() => handleDialogChange(false)}>Done</Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="space-y-4 py-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Name</label>
+                      <Input
+                        value={newShare.name}
+                        onChange={(e) => setNewShare((prev) => ({ ...prev, name: e.target.value }))}
+                        placeholder="e.g., Acme Corp client"
+                      />
+                    </div>
+                    <div className="grid gap-4 sm:grid-cols-2">
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Shows</label>
+                        <Select
+                          value={String(newShare.periodDays)}
+                          onValueChange={(value) => setNewShare((prev) => ({ ...prev, periodDays: Number(value) }))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="7">Last 7 days</SelectItem>
+                            <SelectItem value="30">Last 30 days</SelectItem>
+                            <SelectItem value="90">Last 90 days</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Expires after</label>
+                        <Select
+                          value={String(newShare.expiresInDays)}
+                          onValueChange={(value) => setNewShare((prev) => ({ ...prev, expiresInDays: Number(value) }))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {EXPIRY_OPTIONS.map((option) => (
+                              <SelectItem key={option.days} value={String(option.days)}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => handleDialogChange(false)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={handleCreate} disabled={createShare.isPending || !newShare.name.trim()}>
+                      {createShare.isPending ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Creating...
+                        </>
+                      ) : (
+                        'Create Link'
+                      )}
+                    </Button>
+                  </div>
+                </>
+              )}
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : shares && shares.length > 0 ? (
+          <div className="space-y-3">
+            {shares.map((share) => {
+              const expired = new Date(share.expires_at) <= new Date()
+              const active = !share.revoked_at && !expired
+
+              return (
+                <div key={share.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{share.name}</span>
+                      <span className="font-mono text-xs text-muted-foreground">{share.token_prefix}…</span>
+                      {share.revoked_at ? (
+                        <Badge variant="outline">Revoked</Badge>
+                      ) : expired ? (
+                        <Badge variant="outline">Expired</Badge>
+                      ) : null}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Last {share.period_days} days
+                      {' · '}
+                      {active ? `Expires ${new Date(share.expires_at).toLocaleDateString()}` : `Created ${formatDistanceToNow(share.created_at)}`}
+                      {' · '}
+                      {share.view_count} {share.view_count === 1 ? 'view' : 'views'}
+                      {share.last_viewed_at && `, last ${formatDistanceToNow(share.last_viewed_at)}`}
+                    </p>
+                  </div>
+                  {canManage && active && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRevoke(share.id)}
+                      disabled={revokeShare.isPending}
+                    >
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <Share2 className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>No shared dashboards</p>
+            {canManage && <p className="text-sm">Create a link to give a client read-only access</p>}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
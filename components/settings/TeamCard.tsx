@@ -0,0 +1,206 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { UserPlus, Trash2, Loader2, Shield } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  useCurrentUser,
+  useOrganizationMembers,
+  useAddMember,
+  useUpdateMemberRole,
+  useRemoveMember,
+  useProjectRole,
+} from '@/hooks'
+import { can } from '@/lib/permissions'
+import { MEMBERSHIP_ROLES, MEMBERSHIP_ROLE_LABELS, type MembershipRole } from '@/lib/types'
+
+const ROLE_DESCRIPTIONS: Record<MembershipRole, string> = {
+  owner: 'Full access, including members and deleting the brand',
+  editor: 'Runs collections, manages prompts, keywords and integrations',
+  writer: 'Creates and optimizes content',
+  viewer: 'Read-only access to dashboards and reports',
+}
+
+interface TeamCardProps {
+  projectId: string
+  organizationId?: string | null
+}
+
+export function TeamCard({ projectId, organizationId }: TeamCardProps) {
+  const { data: user } = useCurrentUser()
+  const { data: members, isLoading } = useOrganizationMembers(organizationId)
+  const addMember = useAddMember()
+  const updateRole = useUpdateMemberRole()
+  const removeMember = useRemoveMember()
+  const canManage = can(useProjectRole(projectId), 'members:manage')
+
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<MembershipRole>('viewer')
+
+  const handleAdd = async () => {
+    if (!organizationId || !email.trim()) return
+
+    try {
+      await addMember.mutateAsync({ organizationId, email: email.trim(), role })
+      toast.success(`Added ${email.trim()} as ${MEMBERSHIP_ROLE_LABELS[role].toLowerCase()}`)
+      setEmail('')
+      setRole('viewer')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add member')
+    }
+  }
+
+  const handleRoleChange = async (id: string, newRole: MembershipRole) => {
+    if (!organizationId) return
+
+    try {
+      await updateRole.mutateAsync({ id, organizationId, role: newRole })
+    } catch {
+      toast.error('Failed to change role')
+    }
+  }
+
+  const handleRemove = async (id: string, memberEmail: string | null) => {
+    if (!organizationId) return
+    if (!confirm(`Remove ${memberEmail || 'this member'} from the workspace?`)) return
+
+    try {
+      await removeMember.mutateAsync({ id, organizationId })
+    } catch {
+      toast.error('Failed to remove member')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shield className="h-5 w-5" />
+          Team
+        </CardTitle>
+        <CardDescription>
+          Everyone in this workspace can see its brands. Roles decide what they can change.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {canManage && (
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <label className="text-sm font-medium">Invite by email</label>
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="teammate@agency.com"
+              />
+            </div>
+            <Select value={role} onValueChange={(value) => setRole(value as MembershipRole)}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MEMBERSHIP_ROLES.map((r) => (
+                  <SelectItem key={r} value={r}>
+                    {MEMBERSHIP_ROLE_LABELS[r]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleAdd} disabled={addMember.isPending || !email.trim()}>
+              {addMember.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <UserPlus className="mr-2 h-4 w-4" />
+              )}
+              Add
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Member</TableHead>
+                <TableHead className="w-[180px]">Role</TableHead>
+                {canManage && <TableHead className="w-[80px]" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members?.map((member) => {
+                const isSelf = member.user_id === user?.id
+
+                return (
+                  <TableRow key={member.id}>
+                    <TableCell>
+                      <div className="font-medium">
+                        {member.email || 'Unknown'}
+                        {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {ROLE_DESCRIPTIONS[member.role]}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      {canManage && !isSelf ? (
+                        <Select
+                          value={member.role}
+                          onValueChange={(value) => handleRoleChange(member.id, value as MembershipRole)}
+                          disabled={updateRole.isPending}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {MEMBERSHIP_ROLES.map((r) => (
+                              <SelectItem key={r} value={r}>
+                                {MEMBERSHIP_ROLE_LABELS[r]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant="secondary">{MEMBERSHIP_ROLE_LABELS[member.role]}</Badge>
+                      )}
+                    </TableCell>
+                    {canManage && (
+                      <TableCell>
+                        {!isSelf && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemove(member.id, member.email)}
+                            disabled={removeMember.isPending}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
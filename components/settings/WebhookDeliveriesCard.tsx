@@ -0,0 +1,103 @@
+'use client'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { ListChecks, Loader2 } from 'lucide-react'
+import { useWebhookDeliveries, useWebhookEndpoints } from '@/hooks'
+import type { WebhookDelivery, WebhookDeliveryStatus } from '@/lib/types'
+
+interface WebhookDeliveriesCardProps {
+  projectId: string
+}
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  succeeded: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+}
+
+function describeResult(delivery: WebhookDelivery): string {
+  if (delivery.status === 'pending' && delivery.next_attempt_at && delivery.attempts > 0) {
+    return `Retrying ${new Date(delivery.next_attempt_at).toLocaleTimeString()}`
+  }
+  if (delivery.response_status) return `HTTP ${delivery.response_status}`
+  return delivery.response_body || '—'
+}
+
+export function WebhookDeliveriesCard({ projectId }: WebhookDeliveriesCardProps) {
+  const { data: deliveries, isLoading } = useWebhookDeliveries(projectId)
+  const { data: endpoints } = useWebhookEndpoints(projectId)
+
+  const endpointUrls = new Map(endpoints?.map((endpoint) => [endpoint.id, endpoint.url]))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Delivery Log
+        </CardTitle>
+        <CardDescription>
+          Recent webhook deliveries. Failed deliveries are retried with backoff for about 15 hours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : deliveries && deliveries.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[180px]">When</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Endpoint</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Attempts</TableHead>
+                <TableHead>Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(delivery.created_at).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="font-mono text-xs">{delivery.event}</Badge>
+                  </TableCell>
+                  <TableCell className="max-w-[220px] truncate font-mono text-xs text-muted-foreground">
+                    {endpointUrls.get(delivery.endpoint_id) || '—'}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="secondary" className={`capitalize ${STATUS_STYLES[delivery.status]}`}>
+                      {delivery.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right text-sm">{delivery.attempts}</TableCell>
+                  <TableCell className="max-w-[240px] truncate text-sm text-muted-foreground" title={delivery.response_body || undefined}>
+                    {describeResult(delivery)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <ListChecks className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>No deliveries yet</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,301 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Webhook, Plus, Trash2, Loader2, Send, Copy, Check } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  useWebhookEndpoints,
+  useCreateWebhookEndpoint,
+  useUpdateWebhookEndpoint,
+  useDeleteWebhookEndpoint,
+  useTestWebhookEndpoint,
+  useProjectRole,
+} from '@/hooks'
+import { can } from '@/lib/permissions'
+import { WEBHOOK_EVENT_OPTIONS, type WebhookEvent } from '@/lib/types'
+
+interface WebhooksCardProps {
+  projectId: string
+}
+
+const EMPTY_ENDPOINT = {
+  url: '',
+  description: '',
+  events: WEBHOOK_EVENT_OPTIONS.map((option) => option.value),
+}
+
+export function WebhooksCard({ projectId }: WebhooksCardProps) {
+  const { data: endpoints, isLoading } = useWebhookEndpoints(projectId)
+  const createEndpoint = useCreateWebhookEndpoint()
+  const updateEndpoint = useUpdateWebhookEndpoint()
+  const deleteEndpoint = useDeleteWebhookEndpoint()
+  const testEndpoint = useTestWebhookEndpoint()
+  const canManage = can(useProjectRole(projectId), 'integrations:manage')
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [newEndpoint, setNewEndpoint] = useState(EMPTY_ENDPOINT)
+  // Shown once after creation; the server never returns it again
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const toggleEvent = (event: WebhookEvent, enabled: boolean) => {
+    setNewEndpoint((prev) => ({
+      ...prev,
+      events: enabled ? [...prev.events, event] : prev.events.filter((e) => e !== event),
+    }))
+  }
+
+  const handleCreate = async () => {
+    if (!newEndpoint.url.trim() || newEndpoint.events.length === 0) return
+
+    try {
+      const { secret } = await createEndpoint.mutateAsync({
+        projectId,
+        url: newEndpoint.url.trim(),
+        description: newEndpoint.description.trim() || undefined,
+        events: newEndpoint.events,
+      })
+      setCreatedSecret(secret)
+      setNewEndpoint(EMPTY_ENDPOINT)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create webhook endpoint')
+    }
+  }
+
+  const handleDialogChange = (open: boolean) => {
+    setIsDialogOpen(open)
+    if (!open) {
+      setCreatedSecret(null)
+      setCopied(false)
+    }
+  }
+
+  const handleCopySecret = async () => {
+    if (!createdSecret) return
+    await navigator.clipboard.writeText(createdSecret)
+    setCopied(true)
+  }
+
+  const handleTest = async (id: string) => {
+    try {
+      const { success, delivery } = await testEndpoint.mutateAsync({ projectId, id })
+      if (success) {
+        toast.success(`Test delivered (HTTP ${delivery.response_status})`)
+      } else {
+        toast.error('Test delivery failed', {
+          description: delivery.response_status
+            ? `HTTP ${delivery.response_status}`
+            : delivery.response_body || undefined,
+        })
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send test delivery')
+    }
+  }
+
+  const handleToggle = async (id: string, isActive: boolean) => {
+    try {
+      await updateEndpoint.mutateAsync({ id, is_active: isActive })
+    } catch {
+      toast.error('Failed to update webhook endpoint')
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this webhook endpoint and its delivery log?')) return
+
+    try {
+      await deleteEndpoint.mutateAsync({ id, projectId })
+    } catch {
+      toast.error('Failed to delete webhook endpoint')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Webhook className="h-5 w-5" />
+              Webhooks
+            </CardTitle>
+            <CardDescription>
+              Send collection and content events to your own systems. Requests are signed with the
+              endpoint&apos;s secret in the X-Luminari-Signature header.
+            </CardDescription>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={handleDialogChange}>
+            {canManage && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Endpoint
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="sm:max-w-[500px]">
+              <DialogHeader>
+                <DialogTitle>{createdSecret ? 'Endpoint Created' : 'Add Webhook Endpoint'}</DialogTitle>
+                <DialogDescription>
+                  {createdSecret
+                    ? 'Copy the signing secret now. It won’t be shown again.'
+                    : 'We POST a JSON payload to this URL for each selected event'}
+                </DialogDescription>
+              </DialogHeader>
+              {createdSecret ? (
+                <div className="space-y-4 py-4">
+                  <div className="flex gap-2">
+                    <Input value={createdSecret} readOnly className="font-mono text-xs" />
+                    <Button variant="outline" onClick={handleCopySecret}>
+                      {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    </Button>
+                  </div>
+                  <div className="flex justify-end">
+                    <Button onClick={() => handleDialogChange(false)}>Done</Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="space-y-4 py-4">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Endpoint URL</label>
+                      <Input
+                        type="url"
+                        value={newEndpoint.url}
+                        onChange={(e) => setNewEndpoint((prev) => ({ ...prev, url: e.target.value }))}
+                        placeholder="https://example.com/webhooks/luminari"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Description (optional)</label>
+                      <Input
+                        value={newEndpoint.description}
+                        onChange={(e) => setNewEndpoint((prev) => ({ ...prev, description: e.target.value }))}
+                        placeholder="e.g., Reporting warehouse"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Events</label>
+                      {WEBHOOK_EVENT_OPTIONS.map((option) => (
+                        <div key={option.value} className="flex items-start gap-2">
+                          <Checkbox
+                            id={`webhook-event-${option.value}`}
+                            checked={newEndpoint.events.includes(option.value)}
+                            onCheckedChange={(checked) => toggleEvent(option.value, checked === true)}
+                          />
+                          <label htmlFor={`webhook-event-${option.value}`} className="text-sm leading-none">
+                            <span className="font-mono">{option.value}</span>
+                            <span className="block text-xs text-muted-foreground">{option.description}</span>
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => handleDialogChange(false)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      onClick={handleCreate}
+                      disabled={createEndpoint.isPending || !newEndpoint.url.trim() || newEndpoint.events.length === 0}
+                    >
+                      {createEndpoint.isPending ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Adding...
+                        </>
+                      ) : (
+                        'Add Endpoint'
+                      )}
+                    </Button>
+                  </div>
+                </>
+              )}
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!canManage ? (
+          <p className="text-sm text-muted-foreground">
+            Only owners and editors can see and change webhooks.
+          </p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : endpoints && endpoints.length > 0 ? (
+          <div className="space-y-3">
+            {endpoints.map((endpoint) => (
+              <div key={endpoint.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate font-mono text-sm">{endpoint.url}</span>
+                    {!endpoint.is_active && <Badge variant="outline">Disabled</Badge>}
+                  </div>
+                  {endpoint.description && (
+                    <p className="text-xs text-muted-foreground">{endpoint.description}</p>
+                  )}
+                  <div className="flex flex-wrap gap-1">
+                    {endpoint.events.map((event) => (
+                      <Badge key={event} variant="secondary" className="font-mono text-xs">
+                        {event}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleTest(endpoint.id)}
+                    disabled={testEndpoint.isPending || !endpoint.is_active}
+                  >
+                    <Send className="mr-1 h-3 w-3" />
+                    Test
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleToggle(endpoint.id, !endpoint.is_active)}
+                    disabled={updateEndpoint.isPending}
+                  >
+                    {endpoint.is_active ? 'Disable' : 'Enable'}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(endpoint.id)}
+                    disabled={deleteEndpoint.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <Webhook className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>No webhook endpoints yet</p>
+            <p className="text-sm">Add an endpoint to stop polling for new data</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,3 +2,12 @@ export { BrandBookForm } from './BrandBookForm'
 export { CompetitorList } from './CompetitorList'
 export { PersonaList } from './PersonaList'
 export { GoogleConnectionCard } from './GoogleConnectionCard'
+export { TeamCard } from './TeamCard'
+export { AuditLogCard } from './AuditLogCard'
+export { AlertRulesCard } from './AlertRulesCard'
+export { WebhooksCard } from './WebhooksCard'
+export { WebhookDeliveriesCard } from './WebhookDeliveriesCard'
+export { ApiKeysCard } from './ApiKeysCard'
+export { BrandingCard } from './BrandingCard'
+export { ShareLinksCard } from './ShareLinksCard'
+export { BackupCard } from './BackupCard'
@@ -0,0 +1,231 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import type { Branding } from '@/lib/branding'
+import { formatDate, formatNumber, formatPeriod, formatVisibilityChange } from '@/lib/reports/format'
+import type { ReportData } from '@/lib/types'
+
+interface SharedDashboardProps {
+  data: ReportData
+  branding: Branding
+}
+
+// Rendered on the server for /share/[token]; no client hooks
+export function SharedDashboard({ data, branding }: SharedDashboardProps) {
+  const { visibility, shareOfVoice, citations, sentiment, answerGaps } = data
+  const sentimentTotal = sentiment ? sentiment.positive + sentiment.neutral + sentiment.negative : 0
+  const maxScore = Math.max(100, ...(visibility?.daily.map((day) => day.visibility_score) || []))
+
+  return (
+    <div className="min-h-screen bg-muted/40">
+      <header style={{ backgroundColor: branding.primaryColor }} className="text-white">
+        <div className="mx-auto flex max-w-5xl items-center justify-between gap-4 px-6 py-8">
+          <div>
+            {data.project.website_url && <p className="text-sm opacity-80">{data.project.website_url}</p>}
+            <h1 className="text-3xl font-bold tracking-tight">{data.project.name || data.project.tracked_brand}</h1>
+            <p className="opacity-90">AI visibility · {formatPeriod(data)}</p>
+          </div>
+          {branding.logoUrl && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={branding.logoUrl} alt={branding.name} className="max-h-12 max-w-40 object-contain" />
+          )}
+        </div>
+      </header>
+
+      <main className="mx-auto flex max-w-5xl flex-col gap-6 px-6 py-8">
+        {visibility && (
+          <div className="grid gap-4 md:grid-cols-4">
+            <Stat
+              label="Average visibility"
+              value={visibility.average === null ? '—' : `${formatNumber(visibility.average, 1)}%`}
+              note={formatVisibilityChange(visibility)}
+            />
+            <Stat label="AI responses" value={formatNumber(visibility.responseCount)} />
+            <Stat label="Brand mentions" value={formatNumber(visibility.mentionCount)} />
+            <Stat label="Domain citations" value={formatNumber(visibility.citationCount)} />
+          </div>
+        )}
+
+        {visibility && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Visibility trend</CardTitle>
+              <CardDescription>Daily share of AI responses mentioning the brand</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {visibility.daily.length > 0 ? (
+                <>
+                  <div className="flex h-40 items-end gap-px">
+                    {visibility.daily.map((day) => (
+                      <div
+                        key={day.date}
+                        title={`${formatDate(day.date)}: ${formatNumber(day.visibility_score, 1)}%`}
+                        className="flex-1 rounded-t-sm"
+                        style={{
+                          backgroundColor: branding.primaryColor,
+                          height: `${Math.max(1, (day.visibility_score / maxScore) * 100)}%`,
+                        }}
+                      />
+                    ))}
+                  </div>
+                  <div className="mt-2 flex justify-between text-xs text-muted-foreground">
+                    <span>{formatDate(visibility.daily[0].date)}</span>
+                    <span>{formatDate(visibility.daily[visibility.daily.length - 1].date)}</span>
+                  </div>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">No collections in this period</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid gap-6 md:grid-cols-2">
+          {shareOfVoice && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Share of voice</CardTitle>
+                <CardDescription>Mentions of the brand and its competitors</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {shareOfVoice.entities.length > 0 ? (
+                  shareOfVoice.entities.slice(0, 8).map((entity) => (
+                    <div key={entity.name} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span className={entity.isBrand ? 'font-semibold' : ''}>{entity.name}</span>
+                        <span className="text-muted-foreground">{formatNumber(entity.share, 1)}%</span>
+                      </div>
+                      <div className="h-2 rounded-full bg-muted">
+                        <div
+                          className="h-2 rounded-full"
+                          style={{
+                            width: `${Math.min(entity.share, 100)}%`,
+                            backgroundColor: entity.isBrand ? branding.primaryColor : branding.accentColor,
+                          }}
+                        />
+                      </div>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-muted-foreground">No mentions in this period</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {citations && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Top cited domains</CardTitle>
+                <CardDescription>
+                  {formatNumber(citations.total)} citations, {formatNumber(citations.ownDomain)} to the brand&apos;s site
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {citations.topDomains.length > 0 ? (
+                  <ul className="space-y-2 text-sm">
+                    {citations.topDomains.map((domain) => (
+                      <li key={domain.domain} className="flex justify-between">
+                        <span className={domain.isOwnDomain ? 'font-semibold' : ''}>{domain.domain}</span>
+                        <span className="text-muted-foreground">{formatNumber(domain.count)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No citations in this period</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          {sentiment && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Sentiment</CardTitle>
+                <CardDescription>How AI engines talk about the brand when they mention it</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {sentimentTotal > 0 ? (
+                  <>
+                    <div className="flex h-3 overflow-hidden rounded-full">
+                      <div className="bg-green-600" style={{ width: `${(sentiment.positive / sentimentTotal) * 100}%` }} />
+                      <div className="bg-yellow-500" style={{ width: `${(sentiment.neutral / sentimentTotal) * 100}%` }} />
+                      <div className="bg-red-600" style={{ width: `${(sentiment.negative / sentimentTotal) * 100}%` }} />
+                    </div>
+                    <div className="flex justify-between text-sm text-muted-foreground">
+                      <span>{formatNumber(sentiment.positive)} positive</span>
+                      <span>{formatNumber(sentiment.neutral)} neutral</span>
+                      <span>{formatNumber(sentiment.negative)} negative</span>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No brand mentions with sentiment in this period</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {answerGaps && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Answer gaps</CardTitle>
+                <CardDescription>
+                  Missing from {formatNumber(answerGaps.gapCount)} of {formatNumber(answerGaps.promptCount)} prompts
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {answerGaps.gaps.length > 0 ? (
+                  <ul className="space-y-2 text-sm">
+                    {answerGaps.gaps.slice(0, 5).map((gap) => (
+                      <li key={gap.promptText}>
+                        {gap.promptText}
+                        {gap.competitors.length > 0 && (
+                          <span className="block text-xs text-muted-foreground">
+                            Mentioned instead: {gap.competitors.slice(0, 3).join(', ')}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">The brand appeared for every prompt</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <p className="text-center text-xs text-muted-foreground">
+          Powered by {branding.name} · Updated {formatDate(data.generatedAt.split('T')[0])}
+        </p>
+      </main>
+    </div>
+  )
+}
+
+export function ShareUnavailable() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted/40 p-6">
+      <Card className="max-w-md">
+        <CardHeader>
+          <CardTitle>This link is no longer available</CardTitle>
+          <CardDescription>
+            It may have expired or been revoked. Ask whoever shared it for a new link.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    </div>
+  )
+}
+
+function Stat({ label, value, note }: { label: string; value: string; note?: string | null }) {
+  return (
+    <Card>
+      <CardContent>
+        <p className="text-sm text-muted-foreground">{label}</p>
+        <p className="text-2xl font-bold">{value}</p>
+        {note && <p className="text-xs text-muted-foreground">{note}</p>}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1 @@
+export { SharedDashboard, ShareUnavailable } from './SharedDashboard'
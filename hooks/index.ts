@@ -1,3 +1,27 @@
+// Auth & Workspaces
+export {
+  useCurrentUser,
+  useMemberships,
+  useProjectRole,
+  useSignOut,
+  type MembershipWithOrganization,
+} from './useAuth'
+
+// Brand Config History
+export {
+  useConfigVersions,
+  useRevertConfigVersion,
+} from './useConfigVersions'
+
+// Team & Audit
+export {
+  useOrganizationMembers,
+  useAddMember,
+  useUpdateMemberRole,
+  useRemoveMember,
+  useAuditLog,
+} from './useTeam'
+
 // Projects
 export {
   useProjects,
@@ -5,6 +29,7 @@ export {
   useCreateProject,
   useUpdateProject,
   useDeleteProject,
+  useImportProject,
 } from './useProjects'
 
 // Monitors
@@ -16,6 +41,16 @@ export {
   useDeleteMonitor,
 } from './useMonitors'
 
+// Collection Runs
+export {
+  useCollectionRuns,
+  useCollectionRun,
+  useResumeCollectionRun,
+  useRetryFailedRunItems,
+  type CollectionRunItemWithPrompt,
+  type CollectionRunActionResult,
+} from './useCollectionRuns'
+
 // Prompts
 export {
   usePrompts,
@@ -38,11 +73,35 @@ export {
   type ResponseWithPrompt,
 } from './useResponses'
 
+// Response Diffs
+export {
+  useResponseSeries,
+  useMonitorChanges,
+  type ResponseSeries,
+  type SeriesResponse,
+  type MonitorChange,
+  type MonitorChangeDigest,
+} from './useResponseDiffs'
+
+// Answer Gaps
+export {
+  useAnswerGaps,
+  useAnalyzeAnswerGaps,
+  useUpdateAnswerGapStatus,
+  type AnswerGapWithPrompt,
+  type AnswerGapAnalysisResult,
+} from './useAnswerGaps'
+
 // Citations
 export {
   useCitations,
   useCitationsByDomain,
   useCitationStats,
+  useCitationSources,
+  useRefreshCitationSources,
+  useUpdateSourceCategory,
+  useOutreachTargets,
+  useUnmentionedPages,
   type DomainCount,
   type CitationWithResponse,
 } from './useCitations'
@@ -52,7 +111,12 @@ export {
   useVisibilityTrend,
   useVisibilityScore,
   useAggregatedMetrics,
+  usePromptVisibilityTrend,
+  useVisibilityConfidence,
   type VisibilityTrendData,
+  type PromptTrendData,
+  type CollectionDayEstimate,
+  type VisibilityConfidence,
 } from './useVisibilityMetrics'
 
 // Competitors
@@ -64,6 +128,68 @@ export {
   useDeleteCompetitor,
 } from './useCompetitors'
 
+// Share of Voice
+export {
+  useShareOfVoiceTrend,
+  useCompetitorAlerts,
+  useDismissCompetitorAlert,
+  type ShareOfVoiceTrendFilters,
+} from './useShareOfVoice'
+
+// Alerts & Notifications
+export {
+  useAlertRules,
+  useCreateAlertRule,
+  useUpdateAlertRule,
+  useDeleteAlertRule,
+  useNotifications,
+  useMarkNotificationsRead,
+} from './useAlerts'
+
+// Outbound Webhooks
+export {
+  useWebhookEndpoints,
+  useCreateWebhookEndpoint,
+  useUpdateWebhookEndpoint,
+  useDeleteWebhookEndpoint,
+  useTestWebhookEndpoint,
+  useWebhookDeliveries,
+  type WebhookEndpointSummary,
+} from './useWebhooks'
+
+// Public API Keys
+export {
+  useApiKeys,
+  useCreateApiKey,
+  useRevokeApiKey,
+  type ApiKeySummary,
+} from './useApiKeys'
+
+// Reports
+export {
+  useReportSchedules,
+  useCreateReportSchedule,
+  useUpdateReportSchedule,
+  useDeleteReportSchedule,
+  useReports,
+  useGenerateReport,
+  useDeleteReport,
+  reportDownloadUrl,
+  type ReportSummary,
+} from './useReports'
+
+// White Label & Shared Dashboards
+export {
+  useWorkspaceBranding,
+  useUpdateWorkspaceBranding,
+} from './useBranding'
+export {
+  useDashboardShares,
+  useCreateDashboardShare,
+  useRevokeDashboardShare,
+  type DashboardShareSummary,
+} from './useDashboardShares'
+
 // Personas
 export {
   usePersonas,
@@ -0,0 +1,126 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import type { AlertRule, Notification } from '@/lib/types'
+
+type AlertRuleInput = Omit<AlertRule, 'id' | 'created_at' | 'updated_at' | 'last_triggered_at'>
+
+export function useAlertRules(projectId?: string) {
+  return useQuery({
+    queryKey: ['alert-rules', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('alert_rules')
+        .select('*')
+        .eq('project_id', projectId!)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as AlertRule[]
+    },
+    enabled: !!projectId,
+  })
+}
+
+export function useCreateAlertRule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (rule: AlertRuleInput) => {
+      const { data, error } = await supabase
+        .from('alert_rules')
+        .insert(rule as never)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data as AlertRule
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['alert-rules', data.project_id] })
+    },
+  })
+}
+
+export function useUpdateAlertRule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: Partial<AlertRuleInput> & { id: string }) => {
+      const { data, error } = await supabase
+        .from('alert_rules')
+        .update({ ...updates, updated_at: new Date().toISOString() } as never)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data as AlertRule
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['alert-rules', data.project_id] })
+    },
+  })
+}
+
+export function useDeleteAlertRule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; projectId: string }) => {
+      const { error } = await supabase
+        .from('alert_rules')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: (_, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: ['alert-rules', projectId] })
+    },
+  })
+}
+
+export function useNotifications(projectId?: string, limit = 50) {
+  return useQuery({
+    queryKey: ['notifications', projectId, limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('project_id', projectId!)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) throw error
+      return (data || []) as Notification[]
+    },
+    enabled: !!projectId,
+    // Collections run in the background; pick up their alerts
+    refetchInterval: 60000,
+  })
+}
+
+// Mark the given notifications read, or every unread one in the project
+export function useMarkNotificationsRead() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ projectId, ids }: { projectId: string; ids?: string[] }) => {
+      let query = supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() } as never)
+        .eq('project_id', projectId)
+        .is('read_at', null)
+
+      if (ids) {
+        query = query.in('id', ids)
+      }
+
+      const { error } = await query
+      if (error) throw error
+    },
+    onSuccess: (_, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: ['notifications', projectId] })
+    },
+  })
+}
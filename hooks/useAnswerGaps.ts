@@ -0,0 +1,75 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import type { AnswerGap, AnswerGapStatus, ContentStatus, Prompt } from '@/lib/types'
+
+export type AnswerGapWithPrompt = AnswerGap & {
+  prompt: (Pick<Prompt, 'prompt_text' | 'intent_type' | 'tags'> & { monitor: { name: string } | null }) | null
+  content: { id: string; title: string; status: ContentStatus } | null
+}
+
+export interface AnswerGapAnalysisResult {
+  analyzed: number
+  gaps: number
+  resolved: number
+  expired: number
+}
+
+export function useAnswerGaps(projectId?: string) {
+  return useQuery({
+    queryKey: ['answer-gaps', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('answer_gaps')
+        .select('*, prompt:prompts(prompt_text, intent_type, tags, monitor:monitors(name)), content:generated_content(id, title, status)')
+        .eq('project_id', projectId!)
+        .order('score', { ascending: false })
+
+      if (error) throw error
+      return (data || []) as unknown as AnswerGapWithPrompt[]
+    },
+    enabled: !!projectId,
+  })
+}
+
+export function useAnalyzeAnswerGaps() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (projectId: string) => {
+      const response = await fetch(`/api/brand/${projectId}/answer-gaps`, { method: 'POST' })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to analyze answer gaps')
+      }
+      return response.json() as Promise<{ success: boolean } & AnswerGapAnalysisResult>
+    },
+    onSuccess: (_, projectId) => {
+      queryClient.invalidateQueries({ queryKey: ['answer-gaps', projectId] })
+    },
+  })
+}
+
+export function useUpdateAnswerGapStatus() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: AnswerGapStatus }) => {
+      const { data, error } = await supabase
+        .from('answer_gaps')
+        .update({
+          status,
+          resolved_at: status === 'resolved' ? new Date().toISOString() : null,
+          updated_at: new Date().toISOString(),
+        } as never)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data as AnswerGap
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['answer-gaps', data.project_id] })
+    },
+  })
+}
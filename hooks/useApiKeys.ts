@@ -0,0 +1,73 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import type { ApiKey, ApiKeyScope } from '@/lib/types'
+
+// Everything but the hash, which only the server uses
+const KEY_COLUMNS = 'id, organization_id, name, key_prefix, scopes, rate_limit_per_minute, created_by, last_used_at, expires_at, revoked_at, created_at'
+
+export type ApiKeySummary = Omit<ApiKey, 'key_hash'>
+
+export function useApiKeys(organizationId?: string | null) {
+  return useQuery({
+    queryKey: ['api-keys', organizationId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('api_keys')
+        .select(KEY_COLUMNS)
+        .eq('organization_id', organizationId!)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return (data || []) as ApiKeySummary[]
+    },
+    enabled: !!organizationId,
+  })
+}
+
+// Created through the API so the key is generated and hashed server-side.
+// The key is only returned here; show it to the user right away.
+export function useCreateApiKey() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ organizationId, ...apiKey }: {
+      organizationId: string
+      name: string
+      scopes: ApiKeyScope[]
+      rateLimitPerMinute?: number
+      expiresAt?: string | null
+    }) => {
+      const response = await fetch(`/api/organizations/${organizationId}/api-keys`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(apiKey),
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to create API key')
+      }
+      return response.json() as Promise<{ apiKey: ApiKeySummary; key: string }>
+    },
+    onSuccess: (_, { organizationId }) => {
+      queryClient.invalidateQueries({ queryKey: ['api-keys', organizationId] })
+    },
+  })
+}
+
+export function useRevokeApiKey() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; organizationId: string }) => {
+      const { error } = await supabase
+        .from('api_keys')
+        .update({ revoked_at: new Date().toISOString() } as never)
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: (_, { organizationId }) => {
+      queryClient.invalidateQueries({ queryKey: ['api-keys', organizationId] })
+    },
+  })
+}
@@ -0,0 +1,64 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import type { Membership, MembershipRole, Organization } from '@/lib/types'
+import { useProject } from './useProjects'
+
+export type MembershipWithOrganization = Membership & {
+  organization: Organization
+}
+
+export function useCurrentUser() {
+  return useQuery({
+    queryKey: ['current-user'],
+    queryFn: async () => {
+      const { data, error } = await supabase.auth.getUser()
+      if (error) throw error
+      return data.user
+    },
+  })
+}
+
+export function useMemberships() {
+  const { data: user } = useCurrentUser()
+
+  return useQuery({
+    queryKey: ['memberships', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('memberships')
+        .select('*, organization:organizations(*)')
+        .eq('user_id', user!.id)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as MembershipWithOrganization[]
+    },
+    enabled: !!user,
+  })
+}
+
+/**
+ * The signed-in user's role in the organization that owns a project.
+ * Undefined while loading; pair with can() from lib/permissions.
+ */
+export function useProjectRole(projectId?: string): MembershipRole | undefined {
+  const { data: project } = useProject(projectId || '')
+  const { data: memberships } = useMemberships()
+
+  if (!project || !memberships) return undefined
+  return memberships.find(m => m.organization_id === project.organization_id)?.role
+}
+
+export function useSignOut() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.auth.signOut()
+      if (error) throw error
+    },
+    onSuccess: () => {
+      // Nothing cached belongs to the next user
+      queryClient.clear()
+    },
+  })
+}
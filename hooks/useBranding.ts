@@ -0,0 +1,43 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { resolveBranding, type Branding } from '@/lib/branding'
+import type { Organization } from '@/lib/types'
+import { useMemberships } from './useAuth'
+import { useProject } from './useProjects'
+
+type BrandingFields = Pick<Organization, 'brand_name' | 'brand_logo_url' | 'brand_primary_color' | 'brand_accent_color'>
+
+/**
+ * The white label of the workspace that owns a project, for client-facing
+ * exports. Luminari's own branding until memberships load.
+ */
+export function useWorkspaceBranding(projectId?: string): Branding {
+  const { data: project } = useProject(projectId || '')
+  const { data: memberships } = useMemberships()
+
+  const organization = memberships?.find(m => m.organization_id === project?.organization_id)?.organization
+  return resolveBranding(organization)
+}
+
+// Owners only (RLS on organizations)
+export function useUpdateWorkspaceBranding() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ organizationId, ...branding }: { organizationId: string } & BrandingFields) => {
+      const { data, error } = await supabase
+        .from('organizations')
+        .update(branding as never)
+        .eq('id', organizationId)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data as Organization
+    },
+    onSuccess: () => {
+      // Organizations are loaded with the memberships
+      queryClient.invalidateQueries({ queryKey: ['memberships'] })
+    },
+  })
+}
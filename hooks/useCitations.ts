@@ -1,13 +1,13 @@
-import { useQuery } from '@tanstack/react-query'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { supabase } from '@/lib/supabase'
-import type { AIModel } from '@/lib/types'
+import type { AIModel, CitationContext, CitationSource, CitedPage, OutreachTarget, SourceCategory } from '@/lib/types'
 
 export interface CitationWithResponse {
   id: string
   response_id: string
   cited_domain: string
   cited_url: string | null
-  citation_context: string | null
+  citation_context: CitationContext | null
   created_at: string
   response?: {
     ai_model: AIModel
@@ -109,3 +109,112 @@ export function useCitationStats(projectId?: string) {
     },
   })
 }
+
+export function useCitationSources(projectId?: string) {
+  return useQuery({
+    queryKey: ['citations', 'sources', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('citation_sources')
+        .select('*')
+        .eq('project_id', projectId!)
+        .order('citation_count', { ascending: false })
+
+      if (error) throw error
+      return (data || []) as CitationSource[]
+    },
+    enabled: !!projectId,
+  })
+}
+
+export function useRefreshCitationSources() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (projectId: string) => {
+      const response = await fetch(`/api/brand/${projectId}/citations/sources`, { method: 'POST' })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to refresh citation sources')
+      }
+      return response.json() as Promise<{ success: boolean; sources: number }>
+    },
+    onSuccess: (_, projectId) => {
+      queryClient.invalidateQueries({ queryKey: ['citations', 'sources', projectId] })
+      queryClient.invalidateQueries({ queryKey: ['citations', 'outreach', projectId] })
+    },
+  })
+}
+
+export function useUpdateSourceCategory() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, category }: { id: string; category: SourceCategory }) => {
+      const { data, error } = await supabase
+        .from('citation_sources')
+        .update({ category, category_overridden: true, updated_at: new Date().toISOString() } as never)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data as CitationSource
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['citations', 'sources', data.project_id] })
+      queryClient.invalidateQueries({ queryKey: ['citations', 'outreach', data.project_id] })
+    },
+  })
+}
+
+// Third-party pages cited alongside competitors but not the brand
+export function useOutreachTargets(projectId?: string) {
+  return useQuery({
+    queryKey: ['citations', 'outreach', projectId],
+    queryFn: async () => {
+      const response = await fetch(`/api/brand/${projectId}/citations/outreach`)
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to load outreach targets')
+      }
+      const { targets } = await response.json() as { targets: OutreachTarget[] }
+      return targets
+    },
+    enabled: !!projectId,
+  })
+}
+
+// Fetched cited pages that don't mention the brand, most cited first, and
+// how many cited pages are still waiting to be fetched
+export function useUnmentionedPages(projectId?: string) {
+  return useQuery({
+    queryKey: ['citations', 'pages', projectId],
+    queryFn: async () => {
+      const [pagesResult, pendingResult] = await Promise.all([
+        supabase
+          .from('cited_pages')
+          .select('*')
+          .eq('project_id', projectId!)
+          .eq('status', 'fetched')
+          .eq('mentions_brand', false)
+          .order('citation_count', { ascending: false })
+          .limit(100),
+        supabase
+          .from('cited_pages')
+          .select('*', { count: 'exact', head: true })
+          .eq('project_id', projectId!)
+          .eq('status', 'pending'),
+      ])
+
+      if (pagesResult.error) throw pagesResult.error
+      if (pendingResult.error) throw pendingResult.error
+
+      return {
+        pages: (pagesResult.data || []) as CitedPage[],
+        pending: pendingResult.count || 0,
+      }
+    },
+    enabled: !!projectId,
+  })
+}
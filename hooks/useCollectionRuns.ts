@@ -0,0 +1,108 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import type { CollectionRun, CollectionRunItem, CollectionRunStatus } from '@/lib/types'
+
+export interface CollectionRunItemWithPrompt extends CollectionRunItem {
+  prompt?: { prompt_text: string } | null
+  persona?: { name: string } | null
+}
+
+export interface CollectionRunActionResult {
+  success: boolean
+  runId: string
+  status: CollectionRunStatus
+  results: {
+    total: number
+    processed: number
+    successful: number
+    failed: number
+    responsessSaved: number
+    citationsSaved: number
+  }
+}
+
+export function useCollectionRuns(monitorId?: string, limit = 50) {
+  return useQuery({
+    queryKey: ['collection-runs', monitorId, limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('collection_runs')
+        .select('*')
+        .eq('monitor_id', monitorId!)
+        .order('started_at', { ascending: false })
+        .limit(limit)
+
+      if (error) throw error
+      return (data || []) as CollectionRun[]
+    },
+    enabled: !!monitorId,
+  })
+}
+
+export function useCollectionRun(runId?: string) {
+  return useQuery({
+    queryKey: ['collection-runs', 'detail', runId],
+    queryFn: async () => {
+      const [runResult, itemsResult] = await Promise.all([
+        supabase
+          .from('collection_runs')
+          .select('*')
+          .eq('id', runId!)
+          .single(),
+        supabase
+          .from('collection_run_items')
+          .select('*, prompt:prompts(prompt_text), persona:personas(name)')
+          .eq('run_id', runId!)
+          .order('created_at', { ascending: true }),
+      ])
+
+      if (runResult.error) throw runResult.error
+      if (itemsResult.error) throw itemsResult.error
+
+      return {
+        run: runResult.data as CollectionRun,
+        items: (itemsResult.data || []) as CollectionRunItemWithPrompt[],
+      }
+    },
+    enabled: !!runId,
+    // Poll while the run is still in progress
+    refetchInterval: (query) => query.state.data?.run.status === 'running' ? 5000 : false,
+  })
+}
+
+async function postRunAction(runId: string, action: 'resume' | 'retry'): Promise<CollectionRunActionResult> {
+  const response = await fetch(`/api/collection-runs/${runId}/${action}`, {
+    method: 'POST',
+  })
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || `Failed to ${action} collection run`)
+  }
+  return response.json()
+}
+
+// Resume an interrupted run from where it stopped
+export function useResumeCollectionRun() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (runId: string) => postRunAction(runId, 'resume'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['collection-runs'] })
+      queryClient.invalidateQueries({ queryKey: ['responses'] })
+    },
+  })
+}
+
+// Retry only the failed prompt x model items of a run
+export function useRetryFailedRunItems() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (runId: string) => postRunAction(runId, 'retry'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['collection-runs'] })
+      queryClient.invalidateQueries({ queryKey: ['responses'] })
+    },
+  })
+}
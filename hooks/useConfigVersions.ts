@@ -0,0 +1,46 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import type { ConfigVersion } from '@/lib/types'
+
+export function useConfigVersions(projectId?: string, limit = 100) {
+  return useQuery({
+    queryKey: ['config-versions', projectId, limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('config_versions')
+        .select('*')
+        .eq('project_id', projectId!)
+        .order('version', { ascending: false })
+        .limit(limit)
+
+      if (error) throw error
+      return (data || []) as ConfigVersion[]
+    },
+    enabled: !!projectId,
+  })
+}
+
+// Restore brand fields, competitors, personas and monitors to how they were
+// right after the given version. Returns how many changes were undone.
+export function useRevertConfigVersion() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ projectId, version }: { projectId: string; version: number }) => {
+      const { data, error } = await supabase.rpc('revert_config_to_version' as never, {
+        project: projectId,
+        target_version: version,
+      } as never)
+
+      if (error) throw error
+      return data as unknown as number
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['config-versions'] })
+      queryClient.invalidateQueries({ queryKey: ['projects'] })
+      queryClient.invalidateQueries({ queryKey: ['competitors'] })
+      queryClient.invalidateQueries({ queryKey: ['personas'] })
+      queryClient.invalidateQueries({ queryKey: ['monitors'] })
+    },
+  })
+}
@@ -80,17 +80,18 @@ export function useUpdateContentStatus() {
   const queryClient = useQueryClient()
 
   return useMutation({
+    // Goes through the API so the content.status_changed webhook fires
     mutationFn: async ({ id, status }: { id: string; status: ContentStatus }) => {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const { data, error } = await (supabase as any)
-        .from('generated_content')
-        .update({ status, updated_at: new Date().toISOString() })
-        .eq('id', id)
-        .select()
-        .single()
-
-      if (error) throw error
-      return data as GeneratedContent
+      const response = await fetch(`/api/content/${id}/status`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to update content status')
+      }
+      return response.json() as Promise<GeneratedContent>
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['generated-content'] })
@@ -367,6 +368,8 @@ export interface PipelineRequest {
   targetWordCount?: number
   contentType?: 'article' | 'blog-post' | 'guide' | 'how-to'
   additionalNotes?: string
+  // Answer gap the content is for; its findings are added to the notes
+  answerGapId?: string
 }
 
 export interface PipelineResult {
@@ -405,8 +408,11 @@ export function useContentPipeline() {
 
       return response.json()
     },
-    onSuccess: () => {
+    onSuccess: (_, request) => {
       queryClient.invalidateQueries({ queryKey: ['generated-content'] })
+      if (request.answerGapId) {
+        queryClient.invalidateQueries({ queryKey: ['answer-gaps'] })
+      }
     },
   })
 }
@@ -0,0 +1,67 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import type { DashboardShare } from '@/lib/types'
+
+// Everything but the token hash, which only the server uses
+const SHARE_COLUMNS = 'id, project_id, name, token_prefix, period_days, expires_at, revoked_at, last_viewed_at, view_count, created_by, created_at'
+
+export type DashboardShareSummary = Omit<DashboardShare, 'token_hash'>
+
+export function useDashboardShares(projectId?: string) {
+  return useQuery({
+    queryKey: ['dashboard-shares', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('dashboard_shares')
+        .select(SHARE_COLUMNS)
+        .eq('project_id', projectId!)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return (data || []) as DashboardShareSummary[]
+    },
+    enabled: !!projectId,
+  })
+}
+
+// Created through the API so the token is generated server-side. The link is
+// only returned here; show it to the user right away.
+export function useCreateDashboardShare() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ projectId, ...share }: { projectId: string; name: string; expiresInDays: number; periodDays: number }) => {
+      const response = await fetch(`/api/brand/${projectId}/shares`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(share),
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to create share link')
+      }
+      return response.json() as Promise<{ success: boolean; share: DashboardShareSummary; url: string }>
+    },
+    onSuccess: (_, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: ['dashboard-shares', projectId] })
+    },
+  })
+}
+
+export function useRevokeDashboardShare() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; projectId: string }) => {
+      const { error } = await supabase
+        .from('dashboard_shares')
+        .update({ revoked_at: new Date().toISOString() } as never)
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: (_, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: ['dashboard-shares', projectId] })
+    },
+  })
+}
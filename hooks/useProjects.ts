@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { supabase } from '@/lib/supabase'
-import type { Project } from '@/lib/types'
+import { CONFIG_CHANGE_SOURCE_HEADER, type ConfigChangeSource, type Project } from '@/lib/types'
 
 export interface ProjectWithStats extends Project {
   prompt_count: number
@@ -120,18 +120,25 @@ export function useCreateProject() {
 export function useUpdateProject() {
   const queryClient = useQueryClient()
   return useMutation({
-    mutationFn: async ({ id, ...updates }: Partial<Project> & { id: string }) => {
+    mutationFn: async ({
+      id,
+      source = 'human',
+      ...updates
+    }: Partial<Project> & { id: string; source?: ConfigChangeSource }) => {
+      // The source is recorded on the brand config version this creates
       const { data, error } = await supabase
         .from('projects')
         .update(updates as never)
         .eq('id', id)
         .select()
         .single()
+        .setHeader(CONFIG_CHANGE_SOURCE_HEADER, source)
       if (error) throw error
       return data as Project
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['projects'] })
+      queryClient.invalidateQueries({ queryKey: ['config-versions'] })
     },
   })
 }
@@ -151,3 +158,27 @@ export function useDeleteProject() {
     },
   })
 }
+
+// Recreates a project from an export archive (Settings > Backup) in a
+// workspace. The file is sent as-is; the server unzips and remaps it.
+export function useImportProject() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: async ({ organizationId, file, name }: { organizationId: string; file: File; name?: string }) => {
+      const query = name ? `?name=${encodeURIComponent(name)}` : ''
+      const response = await fetch(`/api/organizations/${organizationId}/import${query}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: file,
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to import project')
+      }
+      return response.json() as Promise<{ success: boolean; project: Project; counts: Record<string, number> }>
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projects'] })
+    },
+  })
+}
@@ -17,6 +17,7 @@ export interface PromptWithResponses {
     id: string
     mentions_brand: boolean
     brands_mentioned?: string[]
+    persona_id?: string | null
   }>
 }
 
@@ -26,7 +27,7 @@ export function usePrompts(projectId?: string, monitorId?: string) {
     queryFn: async () => {
       let query = supabase
         .from('prompts')
-        .select('*, monitor:monitors(name, project_id), responses(id, mentions_brand, brands_mentioned)')
+        .select('*, monitor:monitors(name, project_id), responses(id, mentions_brand, brands_mentioned, persona_id)')
         .order('created_at', { ascending: false })
 
       if (monitorId) {
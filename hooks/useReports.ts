@@ -0,0 +1,176 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { computeReportNextRunAt } from '@/lib/reports/schedule'
+import type { Report, ReportFormat, ReportSchedule, ReportSection } from '@/lib/types'
+
+// Everything but the data snapshot, which is only needed to render a report
+const REPORT_COLUMNS = 'id, project_id, schedule_id, title, period_start, period_end, sections, status, error, recipients, sent_at, created_by, created_at'
+
+export type ReportSummary = Omit<Report, 'data'>
+
+type ReportScheduleInput = Pick<ReportSchedule, 'name' | 'frequency' | 'sections' | 'recipients' | 'format'>
+
+export function useReportSchedules(projectId?: string) {
+  return useQuery({
+    queryKey: ['report-schedules', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('report_schedules')
+        .select('*')
+        .eq('project_id', projectId!)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as ReportSchedule[]
+    },
+    enabled: !!projectId,
+  })
+}
+
+export function useCreateReportSchedule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ projectId, ...schedule }: { projectId: string } & ReportScheduleInput) => {
+      const { data, error } = await supabase
+        .from('report_schedules')
+        .insert({
+          ...schedule,
+          project_id: projectId,
+          next_run_at: computeReportNextRunAt(schedule.frequency)?.toISOString() ?? null,
+        } as never)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data as ReportSchedule
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['report-schedules', data.project_id] })
+    },
+  })
+}
+
+export function useUpdateReportSchedule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: { id: string } & Partial<ReportScheduleInput & Pick<ReportSchedule, 'is_active'>>) => {
+      const changes: Record<string, unknown> = { ...updates, updated_at: new Date().toISOString() }
+      // Re-anchor the next run when the cadence changes or a paused schedule resumes
+      if (updates.frequency || updates.is_active) {
+        const { data: current } = await supabase
+          .from('report_schedules')
+          .select('frequency')
+          .eq('id', id)
+          .single()
+        const frequency = updates.frequency || (current as Pick<ReportSchedule, 'frequency'> | null)?.frequency
+        if (frequency) {
+          changes.next_run_at = computeReportNextRunAt(frequency)?.toISOString() ?? null
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('report_schedules')
+        .update(changes as never)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data as ReportSchedule
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['report-schedules', data.project_id] })
+    },
+  })
+}
+
+export function useDeleteReportSchedule() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; projectId: string }) => {
+      const { error } = await supabase
+        .from('report_schedules')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: (_, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: ['report-schedules', projectId] })
+    },
+  })
+}
+
+export function useReports(projectId?: string, limit = 50) {
+  return useQuery({
+    queryKey: ['reports', projectId, limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('reports')
+        .select(REPORT_COLUMNS)
+        .eq('project_id', projectId!)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) throw error
+      return (data || []) as ReportSummary[]
+    },
+    enabled: !!projectId,
+  })
+}
+
+// Generated through the API, which builds the data snapshot and emails any recipients
+export function useGenerateReport() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ projectId, ...options }: {
+      projectId: string
+      periodStart: string
+      periodEnd: string
+      sections: ReportSection[]
+      title?: string
+      recipients?: string[]
+      format?: ReportFormat
+    }) => {
+      const response = await fetch(`/api/brand/${projectId}/reports`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(options),
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to generate report')
+      }
+      return response.json() as Promise<{ success: boolean; report: Report }>
+    },
+    onSettled: (_, __, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: ['reports', projectId] })
+    },
+  })
+}
+
+export function useDeleteReport() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; projectId: string }) => {
+      const { error } = await supabase
+        .from('reports')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: (_, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: ['reports', projectId] })
+    },
+  })
+}
+
+export function reportDownloadUrl(reportId: string, format: ReportFormat): string {
+  return `/api/reports/${reportId}/download?format=${format}`
+}
@@ -0,0 +1,189 @@
+import { useQuery } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import { diffResponses, hasChanges, representativeResponse, seriesKey, type ResponseDiff } from '@/lib/response-diff'
+import type { AIModel, CollectionRun, Response } from '@/lib/types'
+
+// Responses shown in the comparison view's pickers, across every sample
+const SERIES_LIMIT = 50
+// Ids per .in() filter, to keep request URLs short
+const ID_CHUNK_SIZE = 100
+
+// Everything the digest compares; response_text is left out to keep it light
+const DIGEST_COLUMNS =
+  'id, prompt_id, ai_model, persona_id, sample_index, mentions_brand, sentiment_score, brands_mentioned, brand_rank, competitor_ranks, collected_at, citations(cited_domain, cited_url)'
+
+export interface ResponseSeries {
+  promptId: string
+  aiModel: AIModel
+  personaId: string | null
+}
+
+type CitationRef = { cited_domain: string; cited_url: string | null }
+
+export type SeriesResponse = Response & { citations: CitationRef[] }
+
+type DigestResponse = Pick<
+  Response,
+  'id' | 'prompt_id' | 'ai_model' | 'persona_id' | 'sample_index' | 'mentions_brand' | 'sentiment_score' | 'brands_mentioned' | 'brand_rank' | 'competitor_ranks' | 'collected_at'
+> & {
+  citations: CitationRef[]
+  prompt?: { prompt_text: string } | null
+  persona?: { name: string } | null
+}
+
+export interface MonitorChange {
+  key: string
+  series: ResponseSeries
+  promptText: string
+  personaName: string | null
+  // Representative samples of this run and the previous one
+  current: DigestResponse
+  // null when the previous run didn't collect the series
+  previous: DigestResponse | null
+  samples: number
+  diff: ResponseDiff | null
+}
+
+export interface MonitorChangeDigest {
+  run: CollectionRun
+  changes: MonitorChange[]
+  compared: number
+  changed: number
+}
+
+// Recent responses (every sample) for one prompt x model x persona, newest first
+export function useResponseSeries(series: ResponseSeries | null) {
+  return useQuery({
+    queryKey: ['responses', 'series', series?.promptId, series?.aiModel, series?.personaId],
+    queryFn: async () => {
+      let query = supabase
+        .from('responses')
+        .select('*, citations(cited_domain, cited_url)')
+        .eq('prompt_id', series!.promptId)
+        .eq('ai_model', series!.aiModel)
+        .order('collected_at', { ascending: false })
+        .limit(SERIES_LIMIT)
+
+      query = series!.personaId
+        ? query.eq('persona_id', series!.personaId)
+        : query.is('persona_id', null)
+
+      const { data, error } = await query
+      if (error) throw error
+      return (data || []) as SeriesResponse[]
+    },
+    enabled: !!series,
+  })
+}
+
+/**
+ * What changed in the monitor's latest finished run: for each series it
+ * collected, its representative sample diffed against the representative
+ * sample of the run before
+ */
+export function useMonitorChanges(monitorId?: string, brandName?: string) {
+  return useQuery({
+    queryKey: ['responses', 'monitor-changes', monitorId, brandName],
+    queryFn: async (): Promise<MonitorChangeDigest | null> => {
+      const [run, previousRun] = await loadFinishedRuns(monitorId!)
+      if (!run) return null
+
+      const current = await loadRunResponses(run.id, `${DIGEST_COLUMNS}, prompt:prompts(prompt_text), persona:personas(name)`)
+      const previous = previousRun ? await loadRunResponses(previousRun.id, DIGEST_COLUMNS) : []
+
+      const previousByKey = groupBySeries(previous)
+
+      const changes = [...groupBySeries(current)].map(([key, samples]): MonitorChange => {
+        const response = representativeResponse(samples)
+        const previousSamples = previousByKey.get(key)
+        const previousResponse = previousSamples ? representativeResponse(previousSamples) : null
+        return {
+          key,
+          series: {
+            promptId: response.prompt_id,
+            aiModel: response.ai_model,
+            personaId: response.persona_id || null,
+          },
+          promptText: response.prompt?.prompt_text || 'Unknown prompt',
+          personaName: response.persona?.name || null,
+          current: response,
+          previous: previousResponse,
+          samples: samples.length,
+          diff: previousResponse ? diffResponses(previousResponse, response, brandName) : null,
+        }
+      })
+
+      const changed = changes.filter(c => c.diff && hasChanges(c.diff))
+
+      return {
+        run,
+        // Changed series first, then new ones, then the unchanged rest
+        changes: [
+          ...changed,
+          ...changes.filter(c => !c.diff),
+          ...changes.filter(c => c.diff && !hasChanges(c.diff)),
+        ],
+        compared: changes.filter(c => c.diff).length,
+        changed: changed.length,
+      }
+    },
+    enabled: !!monitorId,
+  })
+}
+
+// The monitor's latest two finished runs that saved responses, newest first
+async function loadFinishedRuns(monitorId: string): Promise<CollectionRun[]> {
+  const { data, error } = await supabase
+    .from('collection_runs')
+    .select('*')
+    .eq('monitor_id', monitorId)
+    .neq('status', 'running')
+    .gt('responses_saved', 0)
+    .order('started_at', { ascending: false })
+    .limit(2)
+
+  if (error) throw error
+  return (data || []) as CollectionRun[]
+}
+
+async function loadRunResponses(runId: string, columns: string): Promise<DigestResponse[]> {
+  const { data: items, error: itemsError } = await supabase
+    .from('collection_run_items')
+    .select('response_id')
+    .eq('run_id', runId)
+    .not('response_id', 'is', null)
+
+  if (itemsError) throw itemsError
+  const responseIds = ((items || []) as { response_id: string }[]).map(i => i.response_id)
+
+  const responses: DigestResponse[] = []
+  for (const ids of chunk(responseIds, ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('responses')
+      .select(columns)
+      .in('id', ids)
+      .order('sample_index', { ascending: true })
+
+    if (error) throw error
+    responses.push(...((data || []) as unknown as DigestResponse[]))
+  }
+
+  return responses
+}
+
+function groupBySeries(responses: DigestResponse[]): Map<string, DigestResponse[]> {
+  const groups = new Map<string, DigestResponse[]>()
+  for (const response of responses) {
+    const key = seriesKey(response)
+    groups.set(key, [...(groups.get(key) || []), response])
+  }
+  return groups
+}
+
+function chunk<T>(values: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size))
+  }
+  return chunks
+}
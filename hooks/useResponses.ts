@@ -1,6 +1,7 @@
 import { useQuery } from '@tanstack/react-query'
 import { supabase } from '@/lib/supabase'
-import type { Response, AIModel } from '@/lib/types'
+import { computeRankMetrics } from '@/lib/response-analysis/rank-metrics'
+import type { Response, AIModel, ResponseAnalysis } from '@/lib/types'
 
 export interface ResponseWithPrompt {
   id: string
@@ -12,10 +13,21 @@ export interface ResponseWithPrompt {
   cites_domain: boolean
   is_featured: boolean
   brands_mentioned?: string[]
+  language?: string | null
+  location?: string | null
+  persona_id?: string | null
+  sample_index?: number
+  analysis?: ResponseAnalysis | null
+  analysis_confidence?: number | null
+  brand_rank?: number | null
+  competitor_ranks?: Record<string, number> | null
   collected_at: string
   prompt?: {
     prompt_text: string
   } | null
+  persona?: {
+    name: string
+  } | null
 }
 
 export function useResponses(projectId?: string, promptId?: string) {
@@ -24,7 +36,7 @@ export function useResponses(projectId?: string, promptId?: string) {
     queryFn: async () => {
       let query = supabase
         .from('responses')
-        .select('*, prompt:prompts(prompt_text, monitor:monitors(project_id))')
+        .select('*, prompt:prompts(prompt_text, monitor:monitors(project_id)), persona:personas(name)')
         .order('collected_at', { ascending: false })
         .limit(100)
 
@@ -72,6 +84,8 @@ export interface ResponseStats {
   citationRate: number
   mentions: number
   citations: number
+  avgPosition: number | null
+  top3Rate: number
 }
 
 export function useResponseStats(projectId?: string) {
@@ -80,11 +94,11 @@ export function useResponseStats(projectId?: string) {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('responses')
-        .select('ai_model, mentions_brand, cites_domain, prompt:prompts(monitor:monitors(project_id))')
-        .returns<{ ai_model: string; mentions_brand: boolean; cites_domain: boolean; prompt?: { monitor?: { project_id: string } | null } | null }[]>()
+        .select('ai_model, mentions_brand, cites_domain, brand_rank, prompt:prompts(monitor:monitors(project_id))')
+        .returns<{ ai_model: string; mentions_brand: boolean; cites_domain: boolean; brand_rank: number | null; prompt?: { monitor?: { project_id: string } | null } | null }[]>()
 
       if (error) throw error
-      if (!data) return { total: 0, byModel: {}, mentions: 0, citations: 0, mentionRate: 0, citationRate: 0 } as ResponseStats
+      if (!data) return { total: 0, byModel: {}, mentions: 0, citations: 0, mentionRate: 0, citationRate: 0, avgPosition: null, top3Rate: 0 } as ResponseStats
 
       // Filter by projectId if provided
       let filteredData = data
@@ -103,6 +117,8 @@ export function useResponseStats(projectId?: string) {
         if (r.cites_domain) citations++
       })
 
+      const { avgPosition, top3Rate } = computeRankMetrics(filteredData.map(r => r.brand_rank))
+
       return {
         total,
         byModel,
@@ -110,6 +126,8 @@ export function useResponseStats(projectId?: string) {
         citations,
         mentionRate: total > 0 ? (mentions / total) * 100 : 0,
         citationRate: total > 0 ? (citations / total) * 100 : 0,
+        avgPosition,
+        top3Rate,
       } as ResponseStats
     },
   })
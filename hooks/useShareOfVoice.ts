@@ -0,0 +1,73 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import type { AIModel, CompetitorAlert, ShareOfVoiceMetric } from '@/lib/types'
+
+export interface ShareOfVoiceTrendFilters {
+  // Omit for all models / all monitors
+  aiModel?: AIModel
+  monitorId?: string
+  days?: number
+}
+
+export function useShareOfVoiceTrend(projectId?: string, filters: ShareOfVoiceTrendFilters = {}) {
+  const { aiModel, monitorId, days = 30 } = filters
+
+  return useQuery({
+    queryKey: ['share-of-voice', projectId, aiModel, monitorId, days],
+    queryFn: async () => {
+      const startDate = new Date()
+      startDate.setDate(startDate.getDate() - days)
+
+      let query = supabase
+        .from('share_of_voice_metrics')
+        .select('*')
+        .eq('project_id', projectId!)
+        .eq('segment_type', 'all')
+        .gte('date', startDate.toISOString().split('T')[0])
+        .order('date', { ascending: true })
+
+      query = aiModel ? query.eq('ai_model', aiModel) : query.is('ai_model', null)
+      query = monitorId ? query.eq('monitor_id', monitorId) : query.is('monitor_id', null)
+
+      const { data, error } = await query
+      if (error) throw error
+      return (data || []) as ShareOfVoiceMetric[]
+    },
+    enabled: !!projectId,
+  })
+}
+
+export function useCompetitorAlerts(projectId?: string, limit = 20) {
+  return useQuery({
+    queryKey: ['competitor-alerts', projectId, limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('competitor_alerts')
+        .select('*')
+        .eq('project_id', projectId!)
+        .is('dismissed_at', null)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) throw error
+      return (data || []) as CompetitorAlert[]
+    },
+    enabled: !!projectId,
+  })
+}
+
+export function useDismissCompetitorAlert() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('competitor_alerts')
+        .update({ dismissed_at: new Date().toISOString() } as never)
+        .eq('id', id)
+      if (error) throw error
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['competitor-alerts'] })
+    },
+  })
+}
@@ -0,0 +1,101 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import type { AuditLogEntry, Membership, MembershipRole } from '@/lib/types'
+
+export function useOrganizationMembers(organizationId?: string | null) {
+  return useQuery({
+    queryKey: ['organization-members', organizationId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('memberships')
+        .select('*')
+        .eq('organization_id', organizationId!)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as Membership[]
+    },
+    enabled: !!organizationId,
+  })
+}
+
+// Invites go through the API so new email addresses can be sent a sign-up link
+export function useAddMember() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ organizationId, email, role }: { organizationId: string; email: string; role: MembershipRole }) => {
+      const response = await fetch(`/api/organizations/${organizationId}/members`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, role }),
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to add member')
+      }
+      return response.json()
+    },
+    onSuccess: (_, { organizationId }) => {
+      queryClient.invalidateQueries({ queryKey: ['organization-members', organizationId] })
+    },
+  })
+}
+
+export function useUpdateMemberRole() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, role }: { id: string; organizationId: string; role: MembershipRole }) => {
+      const { data, error } = await supabase
+        .from('memberships')
+        .update({ role } as never)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data as Membership
+    },
+    onSuccess: (_, { organizationId }) => {
+      queryClient.invalidateQueries({ queryKey: ['organization-members', organizationId] })
+      queryClient.invalidateQueries({ queryKey: ['memberships'] })
+    },
+  })
+}
+
+export function useRemoveMember() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; organizationId: string }) => {
+      const { error } = await supabase
+        .from('memberships')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: (_, { organizationId }) => {
+      queryClient.invalidateQueries({ queryKey: ['organization-members', organizationId] })
+    },
+  })
+}
+
+export function useAuditLog(projectId?: string, limit = 50) {
+  return useQuery({
+    queryKey: ['audit-log', projectId, limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('audit_log')
+        .select('*')
+        .eq('project_id', projectId!)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) throw error
+      return (data || []) as AuditLogEntry[]
+    },
+    enabled: !!projectId,
+  })
+}
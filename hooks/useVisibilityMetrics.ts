@@ -1,5 +1,12 @@
 import { useQuery } from '@tanstack/react-query'
 import { supabase } from '@/lib/supabase'
+import {
+  comparePaired,
+  meanInterval,
+  type ChangeTest,
+  type RateInterval,
+} from '@/lib/response-analysis/confidence'
+import type { AIModel } from '@/lib/types'
 
 export interface VisibilityTrendData {
   date: string
@@ -15,6 +22,7 @@ interface MetricsRow {
   sentiment_avg: number | null
 }
 
+// Project-wide rows only; per-prompt rows are read by usePromptVisibilityTrend
 export function useVisibilityTrend(projectId?: string, days = 30) {
   return useQuery({
     queryKey: ['visibility', projectId, days],
@@ -26,12 +34,16 @@ export function useVisibilityTrend(projectId?: string, days = 30) {
         ? supabase
             .from('visibility_metrics')
             .select('date, visibility_score, mention_count, citation_count')
+            .is('prompt_id', null)
+            .is('ai_model', null)
             .eq('project_id', projectId)
             .gte('date', startDate.toISOString().split('T')[0])
             .order('date', { ascending: true })
         : supabase
             .from('visibility_metrics')
             .select('date, visibility_score, mention_count, citation_count')
+            .is('prompt_id', null)
+            .is('ai_model', null)
             .gte('date', startDate.toISOString().split('T')[0])
             .order('date', { ascending: true })
 
@@ -51,12 +63,16 @@ export function useVisibilityScore(projectId?: string) {
         ? supabase
             .from('visibility_metrics')
             .select('visibility_score, date')
+            .is('prompt_id', null)
+            .is('ai_model', null)
             .eq('project_id', projectId)
             .order('date', { ascending: false })
             .limit(1)
         : supabase
             .from('visibility_metrics')
             .select('visibility_score, date')
+            .is('prompt_id', null)
+            .is('ai_model', null)
             .order('date', { ascending: false })
             .limit(1)
 
@@ -80,11 +96,15 @@ export function useAggregatedMetrics(projectId?: string) {
         ? supabase
             .from('visibility_metrics')
             .select('visibility_score, mention_count, citation_count, sentiment_avg')
+            .is('prompt_id', null)
+            .is('ai_model', null)
             .eq('project_id', projectId)
             .gte('date', thirtyDaysAgo.toISOString().split('T')[0])
         : supabase
             .from('visibility_metrics')
             .select('visibility_score, mention_count, citation_count, sentiment_avg')
+            .is('prompt_id', null)
+            .is('ai_model', null)
             .gte('date', thirtyDaysAgo.toISOString().split('T')[0])
 
       const { data, error } = await query
@@ -120,3 +140,161 @@ export function useAggregatedMetrics(projectId?: string) {
     },
   })
 }
+
+export interface PromptTrendData extends VisibilityTrendData {
+  ai_model: AIModel | null
+  response_count: number
+}
+
+export function usePromptVisibilityTrend(promptId?: string, days = 90) {
+  return useQuery({
+    queryKey: ['visibility', 'prompt', promptId, days],
+    queryFn: async () => {
+      const startDate = new Date()
+      startDate.setDate(startDate.getDate() - days)
+
+      const { data, error } = await supabase
+        .from('visibility_metrics')
+        .select('date, ai_model, visibility_score, mention_count, citation_count, response_count')
+        .eq('prompt_id', promptId!)
+        .gte('date', startDate.toISOString().split('T')[0])
+        .order('date', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as PromptTrendData[]
+    },
+    enabled: !!promptId,
+  })
+}
+
+// How far back to look for the latest collection day and the one before
+const CONFIDENCE_LOOKBACK_DAYS = 30
+
+interface PromptDayRow {
+  prompt_id: string
+  visibility_score: number
+  mention_count: number
+  response_count: number
+}
+
+export interface CollectionDayEstimate {
+  date: string
+  prompts: number
+  responses: number
+  visibility: RateInterval
+  mentionRate: RateInterval
+}
+
+export interface VisibilityConfidence {
+  latest: CollectionDayEstimate
+  previous: CollectionDayEstimate | null
+  // Prompts collected on both days; the changes are measured over these
+  sharedPrompts: number
+  // Latest vs previous collection day; null without a previous day
+  visibilityChange: ChangeTest | null
+  mentionRateChange: ChangeTest | null
+}
+
+function promptMentionRate(row: PromptDayRow) {
+  return row.response_count > 0 ? (row.mention_count / row.response_count) * 100 : 0
+}
+
+// Prompts are the unit: responses to one prompt aren't independent trials
+function estimateDay(date: string, rows: PromptDayRow[]): CollectionDayEstimate {
+  return {
+    date,
+    prompts: rows.length,
+    responses: rows.reduce((sum, row) => sum + row.response_count, 0),
+    visibility: meanInterval(rows.map(row => row.visibility_score)),
+    mentionRate: meanInterval(rows.map(promptMentionRate)),
+  }
+}
+
+/**
+ * Visibility and mention rate of the latest collection day with 95%
+ * confidence intervals across its prompts, and whether they moved
+ * significantly since the previous collection of the same prompts. Reads
+ * the per-prompt rows in visibility_metrics.
+ */
+export function useVisibilityConfidence(projectId?: string) {
+  return useQuery({
+    queryKey: ['visibility', 'confidence', projectId],
+    queryFn: async (): Promise<VisibilityConfidence | null> => {
+      const startDate = new Date()
+      startDate.setDate(startDate.getDate() - CONFIDENCE_LOOKBACK_DAYS)
+      const since = startDate.toISOString().split('T')[0]
+
+      const promptRows = () => supabase
+        .from('visibility_metrics')
+        .select('prompt_id, visibility_score, mention_count, response_count')
+        .eq('project_id', projectId!)
+        .not('prompt_id', 'is', null)
+        .is('ai_model', null)
+
+      const { data: latestDay, error: latestDateError } = await supabase
+        .from('visibility_metrics')
+        .select('date')
+        .eq('project_id', projectId!)
+        .not('prompt_id', 'is', null)
+        .is('ai_model', null)
+        .gte('date', since)
+        .order('date', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (latestDateError) throw latestDateError
+      const latestDate = latestDay as { date: string } | null
+      if (!latestDate) return null
+
+      const { data: latestData, error: latestError } = await promptRows().eq('date', latestDate.date)
+      if (latestError) throw latestError
+
+      const latestRows = (latestData || []) as PromptDayRow[]
+      const latest = estimateDay(latestDate.date, latestRows)
+      const withoutPrevious = { latest, previous: null, sharedPrompts: 0, visibilityChange: null, mentionRateChange: null }
+
+      // The most recent earlier day on which any of the same prompts ran
+      const promptIds = latestRows.map(row => row.prompt_id)
+      const { data: previousDay, error: previousDateError } = await supabase
+        .from('visibility_metrics')
+        .select('date')
+        .eq('project_id', projectId!)
+        .in('prompt_id', promptIds)
+        .is('ai_model', null)
+        .gte('date', since)
+        .lt('date', latestDate.date)
+        .order('date', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (previousDateError) throw previousDateError
+      const previousDate = previousDay as { date: string } | null
+      if (!previousDate) return withoutPrevious
+
+      const { data: previousData, error: previousError } = await promptRows()
+        .eq('date', previousDate.date)
+        .in('prompt_id', promptIds)
+      if (previousError) throw previousError
+
+      // Compare only the prompts collected on both days
+      const previousRows = (previousData || []) as PromptDayRow[]
+      const latestByPrompt = new Map(latestRows.map(row => [row.prompt_id, row]))
+      const pairs = previousRows.map(row => [row, latestByPrompt.get(row.prompt_id)!] as const)
+
+      return {
+        latest,
+        previous: estimateDay(previousDate.date, previousRows),
+        sharedPrompts: pairs.length,
+        visibilityChange: comparePaired(
+          pairs.map(([before]) => before.visibility_score),
+          pairs.map(([, after]) => after.visibility_score)
+        ),
+        mentionRateChange: comparePaired(
+          pairs.map(([before]) => promptMentionRate(before)),
+          pairs.map(([, after]) => promptMentionRate(after))
+        ),
+      }
+    },
+    enabled: !!projectId,
+  })
+}
@@ -0,0 +1,125 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { supabase } from '@/lib/supabase'
+import type { WebhookDelivery, WebhookEndpoint, WebhookEvent } from '@/lib/types'
+
+// Everything but the encrypted secret, which only the server uses
+const ENDPOINT_COLUMNS = 'id, project_id, url, description, events, is_active, created_at, updated_at'
+
+export type WebhookEndpointSummary = Omit<WebhookEndpoint, 'secret'>
+
+export function useWebhookEndpoints(projectId?: string) {
+  return useQuery({
+    queryKey: ['webhook-endpoints', projectId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('webhook_endpoints')
+        .select(ENDPOINT_COLUMNS)
+        .eq('project_id', projectId!)
+        .order('created_at', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as WebhookEndpointSummary[]
+    },
+    enabled: !!projectId,
+  })
+}
+
+// Created through the API so the signing secret is generated server-side.
+// The secret is only returned here; show it to the user right away.
+export function useCreateWebhookEndpoint() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ projectId, ...endpoint }: { projectId: string; url: string; events: WebhookEvent[]; description?: string }) => {
+      const response = await fetch(`/api/brand/${projectId}/webhooks`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(endpoint),
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to create webhook endpoint')
+      }
+      return response.json() as Promise<{ endpoint: WebhookEndpointSummary; secret: string }>
+    },
+    onSuccess: (_, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-endpoints', projectId] })
+    },
+  })
+}
+
+export function useUpdateWebhookEndpoint() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: { id: string } & Partial<Pick<WebhookEndpoint, 'description' | 'events' | 'is_active'>>) => {
+      const { data, error } = await supabase
+        .from('webhook_endpoints')
+        .update({ ...updates, updated_at: new Date().toISOString() } as never)
+        .eq('id', id)
+        .select(ENDPOINT_COLUMNS)
+        .single()
+
+      if (error) throw error
+      return data as WebhookEndpointSummary
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-endpoints', data.project_id] })
+    },
+  })
+}
+
+export function useDeleteWebhookEndpoint() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; projectId: string }) => {
+      const { error } = await supabase
+        .from('webhook_endpoints')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    },
+    onSuccess: (_, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-endpoints', projectId] })
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries', projectId] })
+    },
+  })
+}
+
+export function useTestWebhookEndpoint() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ projectId, id }: { projectId: string; id: string }) => {
+      const response = await fetch(`/api/brand/${projectId}/webhooks/${id}/test`, { method: 'POST' })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Failed to send test delivery')
+      }
+      return response.json() as Promise<{ success: boolean; delivery: WebhookDelivery }>
+    },
+    onSuccess: (_, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries', projectId] })
+    },
+  })
+}
+
+export function useWebhookDeliveries(projectId?: string, limit = 50) {
+  return useQuery({
+    queryKey: ['webhook-deliveries', projectId, limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('webhook_deliveries')
+        .select('*')
+        .eq('project_id', projectId!)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (error) throw error
+      return (data || []) as WebhookDelivery[]
+    },
+    enabled: !!projectId,
+  })
+}
@@ -0,0 +1,370 @@
+/**
+ * Provider Adapters
+ *
+ * Factories that turn an engine config into a registry entry. Most engines
+ * speak the OpenAI chat completions protocol, so one adapter covers them;
+ * Anthropic and Gemini use their own SDKs. OpenAI, Anthropic and Gemini
+ * answer with their native web search / grounding enabled, so citations come
+ * from the sources the engine reports rather than URLs printed in the text.
+ */
+
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import type { AIModel } from '@/lib/types';
+import type { Tool as GeminiTool } from '@google/generative-ai';
+import type { AIProvider, CitedSource, ProviderParams, ProviderQueryOptions } from './registry';
+
+/**
+ * Pulls cited sources out of a provider's raw response. The default
+ * extractor only looks for URLs written into the answer text.
+ */
+export type CitationExtractor = (text: string, raw: unknown) => CitedSource[];
+
+// Extract URLs from text
+export function extractUrls(text: string): string[] {
+  const urlRegex = /https?:\/\/[^\s\)\]\}\"\'<>]+/g;
+  const matches = text.match(urlRegex) || [];
+  // Clean up and deduplicate
+  const cleaned = matches.map(url => url.replace(/[.,;:!?]+$/, ''));
+  return [...new Set(cleaned)];
+}
+
+const defaultCitations: CitationExtractor = (text) => urlSources(extractUrls(text));
+
+// Sources known only by URL
+export function urlSources(urls: string[]): CitedSource[] {
+  return urls.map(url => ({ url, title: null, snippet: null }));
+}
+
+/**
+ * Merge sources by URL, keeping the first title and every distinct snippet,
+ * then add any URLs written into the answer text that the engine didn't
+ * report
+ */
+export function mergeSources(sources: CitedSource[], text = ''): CitedSource[] {
+  const byUrl = new Map<string, { title: string | null; snippets: string[] }>();
+
+  for (const source of [...sources, ...urlSources(extractUrls(text))]) {
+    const existing = byUrl.get(source.url) || { title: null, snippets: [] };
+    existing.title = existing.title || source.title;
+    const snippet = source.snippet?.trim();
+    if (snippet && !existing.snippets.includes(snippet)) {
+      existing.snippets.push(snippet);
+    }
+    byUrl.set(source.url, existing);
+  }
+
+  return Array.from(byUrl, ([url, { title, snippets }]) => ({
+    url,
+    title,
+    snippet: snippets.length > 0 ? snippets.join(' … ') : null,
+  }));
+}
+
+// Web searches allowed per Claude answer
+const CLAUDE_MAX_SEARCHES = 3;
+
+const DEFAULT_PARAMS: ProviderParams = { maxTokens: 2000 };
+
+// Join the provider's own system prompt with per-request context
+function buildSystemPrompt(params: ProviderParams, options: ProviderQueryOptions = {}): string | undefined {
+  const parts = [params.systemPrompt, options.systemContext].filter(Boolean);
+  return parts.length > 0 ? parts.join('\n\n') : undefined;
+}
+
+// Clients are created lazily to avoid errors when keys aren't set
+const openAIClients = new Map<string, OpenAI>();
+let anthropicClient: Anthropic | null = null;
+let googleClient: GoogleGenerativeAI | null = null;
+
+function getOpenAIClient(apiKeyEnv: string | undefined, baseURL?: string): OpenAI {
+  const cacheKey = `${baseURL || 'openai'}:${apiKeyEnv || ''}`;
+  let client = openAIClients.get(cacheKey);
+  if (!client) {
+    client = new OpenAI({
+      // Local OpenAI-compatible servers usually accept any key
+      apiKey: (apiKeyEnv && process.env[apiKeyEnv]) || 'not-needed',
+      baseURL,
+    });
+    openAIClients.set(cacheKey, client);
+  }
+  return client;
+}
+
+function getAnthropic(): Anthropic {
+  if (!anthropicClient) {
+    anthropicClient = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+    });
+  }
+  return anthropicClient;
+}
+
+function getGoogleAI(): GoogleGenerativeAI {
+  if (!googleClient) {
+    googleClient = new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY || '');
+  }
+  return googleClient;
+}
+
+interface OpenAICompatibleConfig {
+  engine: AIModel;
+  model: string;
+  apiKeyEnv?: string;
+  /** Omit for api.openai.com */
+  baseURL?: string;
+  /** Extra env vars required besides the API key (e.g. a base URL) */
+  requiredEnv?: string[];
+  params?: Partial<ProviderParams>;
+  extractCitations?: CitationExtractor;
+  /** Extra request fields that localize web search to a country */
+  webSearchLocation?: (countryCode: string) => Record<string, unknown>;
+}
+
+/**
+ * Provider for any engine exposing an OpenAI-compatible chat completions API
+ */
+export function openAICompatibleProvider(config: OpenAICompatibleConfig): AIProvider {
+  const params = { ...DEFAULT_PARAMS, ...config.params };
+  const extractCitations = config.extractCitations || defaultCitations;
+
+  return {
+    engine: config.engine,
+    model: config.model,
+    params,
+    requiredEnv: [
+      ...(config.apiKeyEnv ? [config.apiKeyEnv] : []),
+      ...(config.requiredEnv || []),
+    ],
+    query: async (prompt, options = {}) => {
+      const client = getOpenAIClient(config.apiKeyEnv, config.baseURL);
+      const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [];
+      const systemPrompt = buildSystemPrompt(params, options);
+      if (systemPrompt) {
+        messages.push({ role: 'system', content: systemPrompt });
+      }
+      messages.push({ role: 'user', content: prompt });
+
+      const response = await client.chat.completions.create({
+        model: config.model,
+        messages,
+        max_tokens: params.maxTokens,
+        ...(params.temperature !== undefined && { temperature: params.temperature }),
+        ...(options.countryCode && config.webSearchLocation?.(options.countryCode)),
+      });
+
+      const text = response.choices[0]?.message?.content || '';
+      return { text, sources: extractCitations(text, response) };
+    },
+  };
+}
+
+interface OpenAIWebSearchConfig {
+  engine: AIModel;
+  model: string;
+  params?: Partial<ProviderParams>;
+}
+
+/**
+ * Provider backed by the OpenAI Responses API with the web search tool.
+ * Citations come from the url_citation annotations on the answer.
+ */
+export function openAIWebSearchProvider(config: OpenAIWebSearchConfig): AIProvider {
+  const params = { ...DEFAULT_PARAMS, ...config.params };
+
+  return {
+    engine: config.engine,
+    model: config.model,
+    params,
+    requiredEnv: ['OPENAI_API_KEY'],
+    query: async (prompt, options = {}) => {
+      const systemPrompt = buildSystemPrompt(params, options);
+      const response = await getOpenAIClient('OPENAI_API_KEY').responses.create({
+        model: config.model,
+        input: prompt,
+        max_output_tokens: params.maxTokens,
+        tools: [{
+          type: 'web_search',
+          ...(options.countryCode && {
+            user_location: { type: 'approximate', country: options.countryCode },
+          }),
+        }],
+        ...(systemPrompt && { instructions: systemPrompt }),
+        ...(params.temperature !== undefined && { temperature: params.temperature }),
+      });
+
+      const sources: CitedSource[] = [];
+      for (const item of response.output) {
+        if (item.type !== 'message') continue;
+        for (const part of item.content) {
+          if (part.type !== 'output_text') continue;
+          for (const annotation of part.annotations) {
+            if (annotation.type !== 'url_citation') continue;
+            sources.push({
+              url: annotation.url,
+              title: annotation.title || null,
+              snippet: part.text.slice(annotation.start_index, annotation.end_index) || null,
+            });
+          }
+        }
+      }
+
+      const text = response.output_text || '';
+      return { text, sources: mergeSources(sources, text) };
+    },
+  };
+}
+
+interface SDKProviderConfig {
+  engine: AIModel;
+  model: string;
+  params?: Partial<ProviderParams>;
+  extractCitations?: CitationExtractor;
+}
+
+/**
+ * Provider backed by the Anthropic Messages API with the web search tool.
+ * Citations come from the web_search_result_location citations attached to
+ * the answer's text blocks.
+ */
+export function anthropicProvider(config: SDKProviderConfig): AIProvider {
+  const params = { ...DEFAULT_PARAMS, ...config.params };
+
+  return {
+    engine: config.engine,
+    model: config.model,
+    params,
+    requiredEnv: ['ANTHROPIC_API_KEY'],
+    query: async (prompt, options = {}) => {
+      const systemPrompt = buildSystemPrompt(params, options);
+      const response = await getAnthropic().messages.create({
+        model: config.model,
+        max_tokens: params.maxTokens,
+        messages: [{ role: 'user', content: prompt }],
+        tools: [{
+          type: 'web_search_20250305',
+          name: 'web_search',
+          max_uses: CLAUDE_MAX_SEARCHES,
+          ...(options.countryCode && {
+            user_location: { type: 'approximate' as const, country: options.countryCode },
+          }),
+        }],
+        ...(systemPrompt && { system: systemPrompt }),
+        ...(params.temperature !== undefined && { temperature: params.temperature }),
+      });
+
+      // With web search the answer is split across several text blocks
+      // around the tool calls; cited claims get their own block
+      const sources: CitedSource[] = [];
+      let text = '';
+      for (const block of response.content) {
+        if (block.type !== 'text') continue;
+        text += block.text;
+        for (const citation of block.citations || []) {
+          if (citation.type !== 'web_search_result_location') continue;
+          sources.push({
+            url: citation.url,
+            title: citation.title,
+            snippet: block.text.trim() || citation.cited_text,
+          });
+        }
+      }
+
+      const extracted = config.extractCitations?.(text, response) || [];
+      return { text, sources: mergeSources([...sources, ...extracted], text) };
+    },
+  };
+}
+
+// Grounding metadata as the API returns it; the SDK's typings for
+// groundingSupports don't match the wire format
+interface GeminiGroundingMetadata {
+  groundingChunks?: { web?: { uri?: string; title?: string } }[];
+  groundingSupports?: {
+    segment?: { text?: string };
+    groundingChunkIndices?: number[];
+  }[];
+}
+
+type GeminiGroundingChunk = NonNullable<GeminiGroundingMetadata['groundingChunks']>[number];
+
+const GROUNDING_REDIRECT_HOST = 'vertexaisearch.cloud.google.com';
+const REDIRECT_TIMEOUT_MS = 5000;
+
+/**
+ * Gemini reports grounding sources as redirect links; follow each one to the
+ * page it points at so citations carry the real domain. Links that can't be
+ * resolved are kept as they are.
+ */
+async function resolveGroundingChunks(chunks: GeminiGroundingChunk[]): Promise<GeminiGroundingChunk[]> {
+  return Promise.all(chunks.map(async (chunk) => {
+    const uri = chunk.web?.uri;
+    if (!uri || !uri.includes(GROUNDING_REDIRECT_HOST)) return chunk;
+
+    try {
+      const response = await fetch(uri, {
+        method: 'HEAD',
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REDIRECT_TIMEOUT_MS),
+      });
+      const location = response.headers.get('location');
+      return location ? { web: { ...chunk.web, uri: location } } : chunk;
+    } catch {
+      return chunk;
+    }
+  }));
+}
+
+/**
+ * Provider backed by the Google Gemini API
+ */
+export function geminiProvider(config: SDKProviderConfig): AIProvider {
+  const params = { ...DEFAULT_PARAMS, ...config.params };
+  const extractCitations = config.extractCitations || defaultCitations;
+
+  return {
+    engine: config.engine,
+    model: config.model,
+    params,
+    requiredEnv: ['GOOGLE_AI_API_KEY'],
+    query: async (prompt, options = {}) => {
+      const systemPrompt = buildSystemPrompt(params, options);
+      const model = getGoogleAI().getGenerativeModel({
+        model: config.model,
+        // Gemini 2.x grounding tool; the SDK only types the 1.5-era
+        // googleSearchRetrieval tool
+        tools: [{ googleSearch: {} } as unknown as GeminiTool],
+        ...(systemPrompt && { systemInstruction: systemPrompt }),
+        generationConfig: {
+          maxOutputTokens: params.maxTokens,
+          ...(params.temperature !== undefined && { temperature: params.temperature }),
+        },
+      });
+      const result = await model.generateContent(prompt);
+      const response = await result.response;
+      const text = response.text();
+
+      const grounding = response.candidates?.[0]?.groundingMetadata as GeminiGroundingMetadata | undefined;
+      const chunks = await resolveGroundingChunks(grounding?.groundingChunks || []);
+      const sources: CitedSource[] = [];
+
+      // Each support ties a segment of the answer to the chunks backing it
+      for (const support of grounding?.groundingSupports || []) {
+        for (const index of support.groundingChunkIndices || []) {
+          const web = chunks[index]?.web;
+          if (!web?.uri) continue;
+          sources.push({ url: web.uri, title: web.title || null, snippet: support.segment?.text || null });
+        }
+      }
+      // Chunks no support points at are still sources the answer drew on
+      for (const chunk of chunks) {
+        if (chunk.web?.uri) {
+          sources.push({ url: chunk.web.uri, title: chunk.web.title || null, snippet: null });
+        }
+      }
+
+      return { text, sources: mergeSources([...sources, ...extractCitations(text, response)]) };
+    },
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Built-in Providers
+ *
+ * Registers the query adapter for every engine in AI_ENGINES. To add an
+ * engine, add it to AI_ENGINES in lib/types.ts and register it here.
+ */
+
+import {
+  mergeSources,
+  urlSources,
+  anthropicProvider,
+  geminiProvider,
+  openAICompatibleProvider,
+  openAIWebSearchProvider,
+} from './adapters';
+import { registerProvider } from './registry';
+
+registerProvider(openAIWebSearchProvider({
+  engine: 'chatgpt',
+  model: 'gpt-4o-mini',
+}));
+
+registerProvider(anthropicProvider({
+  engine: 'claude',
+  model: 'claude-sonnet-4-20250514',
+}));
+
+registerProvider(geminiProvider({
+  engine: 'gemini',
+  model: 'gemini-2.0-flash',
+}));
+
+registerProvider(openAICompatibleProvider({
+  engine: 'perplexity',
+  model: 'sonar',
+  apiKeyEnv: 'PERPLEXITY_API_KEY',
+  baseURL: 'https://api.perplexity.ai',
+  // Perplexity returns its sources in top-level search_results (with titles
+  // and snippets) and citations arrays
+  extractCitations: (text, raw) => {
+    const { search_results: results = [], citations = [] } = raw as {
+      search_results?: { url: string; title?: string; snippet?: string }[];
+      citations?: string[];
+    };
+    return mergeSources([
+      ...results.map(r => ({ url: r.url, title: r.title || null, snippet: r.snippet || null })),
+      ...urlSources(citations),
+    ], text);
+  },
+  webSearchLocation: (countryCode) => ({
+    web_search_options: { user_location: { country: countryCode } },
+  }),
+}));
+
+// Microsoft Copilot has no public API, so GPT-4o-mini with web search and a
+// Copilot-style system prompt stands in for it
+registerProvider(openAIWebSearchProvider({
+  engine: 'copilot',
+  model: 'gpt-4o-mini',
+  params: {
+    systemPrompt: 'You are a helpful AI assistant similar to Microsoft Copilot. Provide helpful, accurate information.',
+  },
+}));
+
+registerProvider(openAICompatibleProvider({
+  engine: 'grok',
+  model: 'grok-3-mini',
+  apiKeyEnv: 'XAI_API_KEY',
+  baseURL: 'https://api.x.ai/v1',
+}));
+
+registerProvider(openAICompatibleProvider({
+  engine: 'mistral',
+  model: 'mistral-small-latest',
+  apiKeyEnv: 'MISTRAL_API_KEY',
+  baseURL: 'https://api.mistral.ai/v1',
+}));
+
+registerProvider(openAICompatibleProvider({
+  engine: 'deepseek',
+  model: 'deepseek-chat',
+  apiKeyEnv: 'DEEPSEEK_API_KEY',
+  baseURL: 'https://api.deepseek.com',
+}));
+
+// Meta AI has no consumer API; the Llama API serves the same models
+registerProvider(openAICompatibleProvider({
+  engine: 'meta',
+  model: 'Llama-4-Maverick-17B-128E-Instruct-FP8',
+  apiKeyEnv: 'LLAMA_API_KEY',
+  baseURL: 'https://api.llama.com/compat/v1/',
+}));
+
+// Any self-hosted OpenAI-compatible server (Ollama, vLLM, LM Studio, ...)
+registerProvider(openAICompatibleProvider({
+  engine: 'local',
+  model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+  apiKeyEnv: process.env.LOCAL_LLM_API_KEY ? 'LOCAL_LLM_API_KEY' : undefined,
+  baseURL: process.env.LOCAL_LLM_BASE_URL,
+  requiredEnv: ['LOCAL_LLM_BASE_URL'],
+}));
@@ -0,0 +1,200 @@
+import { DEFAULT_AI_MODELS, type AIModel, type CitationContext } from '@/lib/types';
+import { getProvider, getProviderUnavailableReason, type CitedSource, type ProviderQueryOptions } from './registry';
+import './builtin';
+
+export {
+  registerProvider,
+  getProvider,
+  listProviders,
+  isProviderConfigured,
+  getProviderUnavailableReason,
+  type AIProvider,
+  type ProviderParams,
+  type ProviderQueryResult,
+  type ProviderQueryOptions,
+  type CitedSource,
+} from './registry';
+export {
+  openAICompatibleProvider,
+  openAIWebSearchProvider,
+  anthropicProvider,
+  geminiProvider,
+  extractUrls,
+  mergeSources,
+  urlSources,
+  type CitationExtractor,
+} from './adapters';
+
+export interface AIResponse {
+  model: AIModel;
+  responseText: string;
+  success: boolean;
+  error?: string;
+  citedUrls?: string[];
+  /** Cited sources with title and supported snippet, where the engine reports them */
+  sources?: CitedSource[];
+  /** 0-based sample when a prompt is asked more than once */
+  sampleIndex?: number;
+}
+
+/**
+ * Citation context stored for a source; null when only the URL is known
+ */
+export function toCitationContext(source: CitedSource): CitationContext | null {
+  if (!source.title && !source.snippet) return null;
+  return { title: source.title, snippet: source.snippet };
+}
+
+export interface CollectionResult {
+  responses: AIResponse[];
+  successCount: number;
+  failedCount: number;
+}
+
+// Check if brand is mentioned in response
+export function checkBrandMention(text: string, brandName: string): boolean {
+  const lowerText = text.toLowerCase();
+  const lowerBrand = brandName.toLowerCase();
+
+  // Build variations to check
+  const variations: string[] = [
+    lowerBrand,                           // "bill allen law"
+    lowerBrand.replace(/\s+/g, ''),       // "billallenlaw"
+    lowerBrand.replace(/\s+/g, '-'),      // "bill-allen-law"
+  ];
+
+  // Add partial matches for multi-word brands
+  const words = lowerBrand.split(/\s+/);
+  if (words.length >= 2) {
+    // First two words (e.g., "bill allen")
+    variations.push(words.slice(0, 2).join(' '));
+    // Last two words (e.g., "allen law")
+    variations.push(words.slice(-2).join(' '));
+    // Without common suffixes like "law", "firm", "inc", "llc"
+    const withoutSuffix = words.filter(w => !['law', 'firm', 'inc', 'llc', 'llp', 'pc', 'pllc', 'group', 'associates'].includes(w));
+    if (withoutSuffix.length >= 1) {
+      variations.push(withoutSuffix.join(' '));
+    }
+  }
+
+  // Check for "brand + law firm" or "brand + firm" variations
+  if (!lowerBrand.includes('firm')) {
+    variations.push(lowerBrand.replace(' law', ' law firm'));
+    variations.push(lowerBrand + ' firm');
+  }
+
+  // Filter out very short variations (less than 4 chars) to avoid false positives
+  const filteredVariations = variations.filter(v => v.length >= 4);
+
+  return filteredVariations.some(v => lowerText.includes(v));
+}
+
+// Check if domain is cited in response
+export function checkDomainCitation(citedUrls: string[], domain: string): boolean {
+  const cleanDomain = domain.replace(/^(https?:\/\/)?(www\.)?/, '').replace(/\/$/, '');
+  return citedUrls.some(url => {
+    try {
+      const urlDomain = new URL(url).hostname.replace(/^www\./, '');
+      return urlDomain.includes(cleanDomain) || cleanDomain.includes(urlDomain);
+    } catch {
+      return url.toLowerCase().includes(cleanDomain.toLowerCase());
+    }
+  });
+}
+
+// Simple sentiment analysis (returns -1 to 1)
+export function analyzeSentiment(text: string, brandName: string): number | null {
+  const lowerText = text.toLowerCase();
+  const lowerBrand = brandName.toLowerCase();
+
+  // Only analyze if brand is mentioned
+  if (!lowerText.includes(lowerBrand)) {
+    return null;
+  }
+
+  // Simple keyword-based sentiment
+  const positiveWords = ['great', 'excellent', 'best', 'recommended', 'leading', 'top', 'popular', 'trusted', 'reliable', 'innovative', 'effective', 'powerful', 'impressive', 'outstanding'];
+  const negativeWords = ['bad', 'poor', 'worst', 'avoid', 'issues', 'problems', 'complaints', 'expensive', 'overpriced', 'disappointing', 'limited', 'outdated', 'unreliable'];
+
+  let score = 0;
+  positiveWords.forEach(word => {
+    if (lowerText.includes(word)) score += 0.1;
+  });
+  negativeWords.forEach(word => {
+    if (lowerText.includes(word)) score -= 0.1;
+  });
+
+  // Clamp between -1 and 1
+  return Math.max(-1, Math.min(1, score));
+}
+
+// Extract mentioned brands from response
+export function extractMentionedBrands(text: string, knownCompetitors: string[]): string[] {
+  const lowerText = text.toLowerCase();
+  return knownCompetitors.filter(competitor =>
+    lowerText.includes(competitor.toLowerCase())
+  );
+}
+
+// Main collection function - queries all specified models, `samples` times
+// each since answers vary between requests
+export async function collectResponses(
+  prompt: string,
+  models: AIModel[] = DEFAULT_AI_MODELS,
+  options?: ProviderQueryOptions,
+  samples = 1
+): Promise<CollectionResult> {
+  const responses: AIResponse[] = [];
+
+  // Query all models in parallel, one sample round at a time
+  for (let sampleIndex = 0; sampleIndex < samples; sampleIndex++) {
+    const round = await Promise.all(models.map(model => collectSingleResponse(prompt, model, options)));
+    responses.push(...round.map(response => ({ ...response, sampleIndex })));
+  }
+
+  const successCount = responses.filter(r => r.success).length;
+  const failedCount = responses.filter(r => !r.success).length;
+
+  return {
+    responses,
+    successCount,
+    failedCount,
+  };
+}
+
+// Query a single model through its registered provider
+export async function collectSingleResponse(
+  prompt: string,
+  model: AIModel,
+  options?: ProviderQueryOptions
+): Promise<AIResponse> {
+  const unavailableReason = getProviderUnavailableReason(model);
+  const provider = getProvider(model);
+  if (unavailableReason || !provider) {
+    return {
+      model,
+      responseText: '',
+      success: false,
+      error: unavailableReason || 'Unknown provider',
+    };
+  }
+
+  try {
+    const { text, sources } = await provider.query(prompt, options);
+    return {
+      model,
+      responseText: text,
+      success: true,
+      citedUrls: sources.map(s => s.url),
+      sources,
+    };
+  } catch (error) {
+    console.error(`${model} error:`, error);
+    return {
+      model,
+      responseText: '',
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * AI Provider Registry
+ *
+ * Each AI engine is registered once with the model id it queries, its
+ * request parameters and how citations are extracted from its output.
+ * Collection code looks providers up by engine id instead of switching on
+ * hard-coded query functions.
+ */
+
+import { AI_MODEL_LABELS, type AIModel } from '@/lib/types';
+
+export interface ProviderParams {
+  maxTokens: number;
+  temperature?: number;
+  systemPrompt?: string;
+}
+
+/**
+ * A source the answer cites. Engines with native web search report the
+ * page title and the part of the answer the source supports; sources found
+ * in the answer text only have a URL.
+ */
+export interface CitedSource {
+  url: string;
+  title: string | null;
+  snippet: string | null;
+}
+
+export interface ProviderQueryResult {
+  text: string;
+  sources: CitedSource[];
+}
+
+export interface ProviderQueryOptions {
+  /** Extra system instructions, e.g. the monitor's locale context */
+  systemContext?: string;
+  /** ISO 3166-1 alpha-2 country used to localize web search, where supported */
+  countryCode?: string | null;
+}
+
+export interface AIProvider {
+  engine: AIModel;
+  /** Upstream model id sent to the API (e.g. gpt-4o-mini) */
+  model: string;
+  params: ProviderParams;
+  /** Environment variables that must be set for this provider to run */
+  requiredEnv: string[];
+  query: (prompt: string, options?: ProviderQueryOptions) => Promise<ProviderQueryResult>;
+}
+
+const providers = new Map<AIModel, AIProvider>();
+
+/**
+ * Register (or replace) the provider for an engine
+ */
+export function registerProvider(provider: AIProvider): void {
+  providers.set(provider.engine, provider);
+}
+
+/**
+ * Get the provider registered for an engine, if any
+ */
+export function getProvider(engine: AIModel): AIProvider | undefined {
+  return providers.get(engine);
+}
+
+/**
+ * List every registered provider
+ */
+export function listProviders(): AIProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Whether all of a provider's required environment variables are set
+ */
+export function isProviderConfigured(provider: AIProvider): boolean {
+  return provider.requiredEnv.every(name => !!process.env[name]);
+}
+
+/**
+ * Human-readable reason a provider can't be used, or null when it can
+ */
+export function getProviderUnavailableReason(engine: AIModel): string | null {
+  const provider = providers.get(engine);
+  if (!provider) {
+    return `No provider registered for ${AI_MODEL_LABELS[engine] || engine}`;
+  }
+
+  const missing = provider.requiredEnv.filter(name => !process.env[name]);
+  if (missing.length > 0) {
+    return `${AI_MODEL_LABELS[engine]} is not configured (missing ${missing.join(', ')})`;
+  }
+
+  return null;
+}
@@ -0,0 +1,103 @@
+/**
+ * Alert Delivery
+ *
+ * Sends a notification on the channels its rule has enabled, besides the
+ * in-app notification center which reads the notifications table directly:
+ *  - email through the Resend API (RESEND_API_KEY, ALERTS_FROM_EMAIL)
+ *  - a Slack-compatible incoming webhook, posted { text }; the URL must
+ *    resolve to a public address (lib/public-url.ts) and redirects are
+ *    not followed
+ * Delivery failures are logged and never fail collection.
+ */
+
+import { checkPublicUrl } from '@/lib/public-url';
+import type { AlertRule, Notification } from '@/lib/types';
+
+const DELIVERY_TIMEOUT_MS = 10000;
+
+export async function deliverNotification(
+  rule: AlertRule,
+  notification: Notification,
+  projectName: string
+): Promise<void> {
+  const link = `${getAppUrl()}/brand/${notification.project_id}/dashboard`;
+
+  if (rule.channels.includes('webhook') && rule.webhook_url) {
+    await sendWebhook(rule.webhook_url, notification, projectName, link);
+  }
+
+  if (rule.channels.includes('email') && rule.email_recipients.length > 0) {
+    await sendEmail(rule.email_recipients, notification, projectName, link);
+  }
+}
+
+async function sendWebhook(url: string, notification: Notification, projectName: string, link: string): Promise<void> {
+  const text = [
+    `*[${projectName}] ${notification.title}*`,
+    notification.body,
+    `<${link}|Open dashboard>`,
+  ].filter(Boolean).join('\n');
+
+  try {
+    // Editors set the URL, so it's checked right before every send
+    const urlError = await checkPublicUrl(url);
+    if (urlError) throw new Error(urlError);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text }),
+      // A redirect could lead past the address check; 3xx counts as a failure
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      console.error(`[Alerts] Webhook responded ${response.status} for notification ${notification.id}`);
+    }
+  } catch (error) {
+    console.error(`[Alerts] Webhook delivery failed for notification ${notification.id}:`, error);
+  }
+}
+
+async function sendEmail(to: string[], notification: Notification, projectName: string, link: string): Promise<void> {
+  const apiKey = process.env.RESEND_API_KEY;
+  const from = process.env.ALERTS_FROM_EMAIL;
+
+  if (!apiKey || !from) {
+    console.warn('[Alerts] Email channel skipped: RESEND_API_KEY and ALERTS_FROM_EMAIL are not configured');
+    return;
+  }
+
+  const text = `${notification.body || notification.title}\n\nOpen the dashboard: ${link}`;
+
+  try {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from,
+        to,
+        subject: `[${projectName}] ${notification.title}`,
+        text,
+      }),
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error(`[Alerts] Email delivery failed for notification ${notification.id}:`, error);
+    }
+  } catch (error) {
+    console.error(`[Alerts] Email delivery failed for notification ${notification.id}:`, error);
+  }
+}
+
+// NEXT_PUBLIC_APP_URL takes priority, then VERCEL_URL, then localhost
+function getAppUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL ||
+    (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : 'http://localhost:3000');
+}
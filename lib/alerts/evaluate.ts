@@ -0,0 +1,470 @@
+/**
+ * Alert Rule Evaluation
+ *
+ * Runs after each collection over the responses it saved. Every active rule
+ * on the project is checked; conditions that hold become notifications for
+ * the in-app notification center and are delivered on the rule's channels.
+ *
+ * Notifications carry a dedupe key (per day, prompt or competitor) so that
+ * several collections on the same day don't repeat an alert.
+ */
+
+import { selectAllRows, supabaseAdmin } from '@/lib/supabase-server';
+import { computeResponseMetrics, toMetricsRow } from '@/lib/collection/metrics';
+import {
+  ALERT_RULE_TYPE_OPTIONS,
+  type AlertRule,
+  type AlertRuleType,
+  type Notification,
+  type NotificationSeverity,
+} from '@/lib/types';
+import { deliverNotification } from './deliver';
+
+interface AlertResponseRow {
+  id: string;
+  prompt_id: string;
+  ai_model: string;
+  mentions_brand: boolean;
+  cites_domain: boolean;
+  sentiment_score: number | null;
+  brands_mentioned: string[] | null;
+  collected_at: string;
+  prompts: { prompt_text: string };
+}
+
+interface AlertContext {
+  projectId: string;
+  projectName: string;
+  brand: string;
+  // Lowercased brand and competitor names and aliases
+  trackedNames: Set<string>;
+  today: string;
+  responses: AlertResponseRow[];
+  // Most recent earlier response per prompt x model, loaded on first use
+  previous?: Map<string, AlertResponseRow[]>;
+}
+
+export interface AlertCandidate {
+  severity: NotificationSeverity;
+  title: string;
+  body: string;
+  data: Record<string, unknown>;
+  dedupeKey: string;
+}
+
+type RuleEvaluator = (rule: AlertRule, context: AlertContext) => Promise<AlertCandidate[]>;
+
+const RESPONSE_FIELDS =
+  'id, prompt_id, ai_model, mentions_brand, cites_domain, sentiment_score, brands_mentioned, collected_at, prompts!inner(prompt_text)';
+
+// How far back to look for earlier responses to compare against
+const LOOKBACK_DAYS = 30;
+// Ids per .in() filter, to keep request URLs short
+const ID_CHUNK_SIZE = 150;
+
+/**
+ * Evaluate a project's active alert rules against newly collected responses.
+ * Failures are logged; alerting never fails the collection.
+ */
+export async function evaluateAlertRules(projectId: string, responseIds: string[]): Promise<void> {
+  if (responseIds.length === 0) return;
+
+  try {
+    const { data: ruleData, error: rulesError } = await supabaseAdmin
+      .from('alert_rules')
+      .select('*')
+      .eq('project_id', projectId)
+      .eq('is_active', true);
+
+    if (rulesError) {
+      console.error('[Alerts] Failed to load rules:', rulesError);
+      return;
+    }
+
+    const rules = (ruleData || []) as AlertRule[];
+    if (rules.length === 0) return;
+
+    const context = await loadContext(projectId, responseIds);
+    if (!context) return;
+
+    for (const rule of rules) {
+      const candidates = await EVALUATORS[rule.rule_type](rule, context);
+      if (candidates.length === 0) continue;
+
+      await raiseNotifications(rule, candidates, context);
+    }
+  } catch (error) {
+    console.error('[Alerts] Evaluation failed:', error);
+  }
+}
+
+async function loadContext(projectId: string, responseIds: string[]): Promise<AlertContext | null> {
+  const { data: projectData, error: projectError } = await supabaseAdmin
+    .from('projects')
+    .select('name, tracked_brand, brand_aliases, competitors(name, aliases)')
+    .eq('id', projectId)
+    .single();
+
+  if (projectError || !projectData) return null;
+
+  const project = projectData as unknown as {
+    name: string;
+    tracked_brand: string;
+    brand_aliases: string[] | null;
+    competitors: { name: string; aliases: string[] | null }[] | null;
+  };
+
+  const responses: AlertResponseRow[] = [];
+  for (let i = 0; i < responseIds.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('responses')
+      .select(RESPONSE_FIELDS)
+      .in('id', responseIds.slice(i, i + ID_CHUNK_SIZE));
+
+    if (error) {
+      console.error('[Alerts] Failed to load responses:', error);
+      return null;
+    }
+
+    responses.push(...(data || []) as unknown as AlertResponseRow[]);
+  }
+
+  const trackedNames = new Set(
+    [
+      project.tracked_brand,
+      ...(project.brand_aliases || []),
+      ...(project.competitors || []).flatMap(c => [c.name, ...(c.aliases || [])]),
+    ].map(name => name.toLowerCase())
+  );
+
+  return {
+    projectId,
+    projectName: project.name,
+    brand: project.tracked_brand,
+    trackedNames,
+    today: new Date().toISOString().split('T')[0],
+    responses,
+  };
+}
+
+const EVALUATORS: Record<AlertRuleType, RuleEvaluator> = {
+  visibility_drop: evaluateVisibilityDrop,
+  prompt_lost: evaluatePromptLost,
+  negative_sentiment: evaluateNegativeSentiment,
+  new_competitor: evaluateNewCompetitor,
+  citation_lost: evaluateCitationLost,
+};
+
+function thresholdFor(rule: AlertRule): number {
+  return rule.threshold
+    ?? ALERT_RULE_TYPE_OPTIONS.find(o => o.value === rule.rule_type)?.threshold?.default
+    ?? 0;
+}
+
+/**
+ * Project visibility score over today's responses against the score over
+ * the responses of the most recent earlier day with any
+ */
+async function evaluateVisibilityDrop(rule: AlertRule, context: AlertContext): Promise<AlertCandidate[]> {
+  const since = new Date();
+  since.setDate(since.getDate() - LOOKBACK_DAYS);
+
+  const { data: latestEarlier, error } = await supabaseAdmin
+    .from('responses')
+    .select('collected_at, prompts!inner(monitors!inner(project_id))')
+    .eq('prompts.monitors.project_id', context.projectId)
+    .gte('collected_at', since.toISOString())
+    .lt('collected_at', `${context.today}T00:00:00Z`)
+    .order('collected_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[Alerts] Failed to find the previous collection day:', error);
+    return [];
+  }
+  if (!latestEarlier) return [];
+
+  const previousDate = (latestEarlier as { collected_at: string }).collected_at.split('T')[0];
+  const [current, previous] = await Promise.all([
+    loadDayVisibility(context.projectId, context.today),
+    loadDayVisibility(context.projectId, previousDate),
+  ]);
+  if (current === null || previous === null) return [];
+
+  const threshold = thresholdFor(rule);
+  const drop = Math.round((previous - current) * 10) / 10;
+  if (drop < threshold) return [];
+
+  return [{
+    severity: drop >= threshold * 2 ? 'critical' : 'warning',
+    title: `Visibility dropped ${drop} points`,
+    body: `${context.brand}'s visibility score fell from ${previous} on ${previousDate} to ${current} today.`,
+    data: { previous, current, previous_date: previousDate },
+    dedupeKey: context.today,
+  }];
+}
+
+/**
+ * Visibility score over a project's responses collected on one (UTC) day,
+ * or null when there are none or they can't be loaded
+ */
+async function loadDayVisibility(projectId: string, date: string): Promise<number | null> {
+  const nextDay = new Date(`${date}T00:00:00Z`);
+  nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+
+  const { data, error } = await selectAllRows<{
+    mentions_brand: boolean;
+    cites_domain: boolean;
+    sentiment_score: number | null;
+    brand_rank: number | null;
+  }>((from, to) => supabaseAdmin
+    .from('responses')
+    .select('id, mentions_brand, cites_domain, sentiment_score, brand_rank, prompts!inner(monitors!inner(project_id))')
+    .eq('prompts.monitors.project_id', projectId)
+    .gte('collected_at', `${date}T00:00:00Z`)
+    .lt('collected_at', nextDay.toISOString())
+    .order('id')
+    .range(from, to));
+
+  if (error) {
+    console.error(`[Alerts] Failed to load responses for ${date}:`, error);
+    return null;
+  }
+  if (data.length === 0) return null;
+
+  return toMetricsRow(computeResponseMetrics(data)).visibility_score;
+}
+
+/**
+ * Prompts where the brand was in at least threshold % of the previous
+ * collection's answers and in none of the new ones
+ */
+async function evaluatePromptLost(rule: AlertRule, context: AlertContext): Promise<AlertCandidate[]> {
+  const previous = await loadPreviousResponses(context);
+  const threshold = thresholdFor(rule);
+  const candidates: AlertCandidate[] = [];
+
+  for (const [promptId, responses] of groupByPrompt(context.responses)) {
+    const before = previous.get(promptId);
+    if (!before || before.length === 0) continue;
+
+    const previousRate = (before.filter(r => r.mentions_brand).length / before.length) * 100;
+    if (previousRate < threshold || responses.some(r => r.mentions_brand)) continue;
+
+    const promptText = responses[0].prompts.prompt_text;
+    candidates.push({
+      severity: 'warning',
+      title: `${context.brand} disappeared from a prompt`,
+      body: `"${promptText}" mentioned ${context.brand} in ${Math.round(previousRate)}% of answers last time and in none of the ${responses.length} new answers.`,
+      data: { prompt_id: promptId, prompt_text: promptText, previous_rate: Math.round(previousRate) },
+      dedupeKey: `${promptId}:${context.today}`,
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * New answers that mention the brand with sentiment at or below threshold
+ */
+async function evaluateNegativeSentiment(rule: AlertRule, context: AlertContext): Promise<AlertCandidate[]> {
+  const threshold = thresholdFor(rule);
+  const negative = context.responses
+    .filter(r => r.mentions_brand && r.sentiment_score !== null && r.sentiment_score <= threshold)
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  if (negative.length === 0) return [];
+
+  const examples = negative
+    .slice(0, 3)
+    .map(r => `• ${r.ai_model}: "${r.prompts.prompt_text}" (sentiment ${r.sentiment_score})`);
+
+  return [{
+    severity: 'warning',
+    title: `${negative.length} negative answer${negative.length === 1 ? '' : 's'} about ${context.brand}`,
+    body: [
+      ...examples,
+      ...(negative.length > examples.length ? [`…and ${negative.length - examples.length} more`] : []),
+    ].join('\n'),
+    data: { response_ids: negative.map(r => r.id) },
+    dedupeKey: negative[0].id,
+  }];
+}
+
+/**
+ * Untracked brands named in at least threshold new answers that no earlier
+ * answer in the lookback window mentioned
+ */
+async function evaluateNewCompetitor(rule: AlertRule, context: AlertContext): Promise<AlertCandidate[]> {
+  const counts = new Map<string, { name: string; count: number }>();
+  for (const response of context.responses) {
+    for (const name of new Set(response.brands_mentioned || [])) {
+      const key = name.toLowerCase();
+      if (context.trackedNames.has(key)) continue;
+      const entry = counts.get(key) || { name, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    }
+  }
+
+  const threshold = thresholdFor(rule);
+  const names = [...counts.values()].filter(c => c.count >= threshold).map(c => c.name);
+  if (names.length === 0) return [];
+
+  const since = new Date();
+  since.setDate(since.getDate() - LOOKBACK_DAYS);
+  const earliestNew = context.responses.reduce(
+    (min, r) => (r.collected_at < min ? r.collected_at : min),
+    context.responses[0].collected_at
+  );
+
+  const { data, error } = await supabaseAdmin
+    .from('responses')
+    .select('brands_mentioned, prompts!inner(monitors!inner(project_id))')
+    .eq('prompts.monitors.project_id', context.projectId)
+    .overlaps('brands_mentioned', names)
+    .gte('collected_at', since.toISOString())
+    .lt('collected_at', earliestNew);
+
+  if (error) {
+    console.error('[Alerts] Failed to check earlier brand mentions:', error);
+    return [];
+  }
+
+  const seenBefore = new Set(
+    ((data || []) as { brands_mentioned: string[] | null }[])
+      .flatMap(r => r.brands_mentioned || [])
+      .map(name => name.toLowerCase())
+  );
+
+  return names
+    .filter(name => !seenBefore.has(name.toLowerCase()))
+    .map(name => {
+      const count = counts.get(name.toLowerCase())!.count;
+      return {
+        severity: 'info' as const,
+        title: `New competitor detected: ${name}`,
+        body: `${name} appeared in ${count} new answer${count === 1 ? '' : 's'} and isn't tracked as a competitor yet.`,
+        data: { competitor_name: name, mentions: count },
+        dedupeKey: name.toLowerCase(),
+      };
+    });
+}
+
+/**
+ * Prompts whose previous collection cited our domain and whose new answers
+ * don't
+ */
+async function evaluateCitationLost(_rule: AlertRule, context: AlertContext): Promise<AlertCandidate[]> {
+  const previous = await loadPreviousResponses(context);
+  const candidates: AlertCandidate[] = [];
+
+  for (const [promptId, responses] of groupByPrompt(context.responses)) {
+    const before = previous.get(promptId);
+    if (!before?.some(r => r.cites_domain) || responses.some(r => r.cites_domain)) continue;
+
+    const promptText = responses[0].prompts.prompt_text;
+    const lostModels = [...new Set(before.filter(r => r.cites_domain).map(r => r.ai_model))];
+    candidates.push({
+      severity: 'warning',
+      title: 'Your domain is no longer cited on a prompt',
+      body: `"${promptText}" was cited by ${lostModels.join(', ')} last time; none of the new answers cite your domain.`,
+      data: { prompt_id: promptId, prompt_text: promptText, models: lostModels },
+      dedupeKey: `${promptId}:${context.today}`,
+    });
+  }
+
+  return candidates;
+}
+
+function groupByPrompt(responses: AlertResponseRow[]): Map<string, AlertResponseRow[]> {
+  const groups = new Map<string, AlertResponseRow[]>();
+  for (const response of responses) {
+    const group = groups.get(response.prompt_id) || [];
+    group.push(response);
+    groups.set(response.prompt_id, group);
+  }
+  return groups;
+}
+
+/**
+ * The latest earlier response per prompt x model for the prompts in the new
+ * responses, grouped by prompt
+ */
+async function loadPreviousResponses(context: AlertContext): Promise<Map<string, AlertResponseRow[]>> {
+  if (context.previous) return context.previous;
+
+  const newIds = new Set(context.responses.map(r => r.id));
+  const since = new Date();
+  since.setDate(since.getDate() - LOOKBACK_DAYS);
+
+  const promptIds = [...new Set(context.responses.map(r => r.prompt_id))];
+  const latest = new Map<string, AlertResponseRow>();
+
+  for (let i = 0; i < promptIds.length; i += ID_CHUNK_SIZE) {
+    const { data, error } = await selectAllRows<AlertResponseRow>((from, to) => supabaseAdmin
+      .from('responses')
+      .select(RESPONSE_FIELDS)
+      .in('prompt_id', promptIds.slice(i, i + ID_CHUNK_SIZE))
+      .gte('collected_at', since.toISOString())
+      .order('collected_at', { ascending: false })
+      .order('id')
+      .range(from, to));
+
+    if (error) {
+      console.error('[Alerts] Failed to load previous responses:', error);
+    }
+
+    for (const response of data) {
+      if (newIds.has(response.id)) continue;
+      const key = `${response.prompt_id}:${response.ai_model}`;
+      if (!latest.has(key)) latest.set(key, response);
+    }
+  }
+
+  context.previous = groupByPrompt([...latest.values()]);
+  return context.previous;
+}
+
+/**
+ * Save new notifications for a rule and deliver the ones that weren't
+ * raised before
+ */
+async function raiseNotifications(rule: AlertRule, candidates: AlertCandidate[], context: AlertContext): Promise<void> {
+  const { data, error } = await supabaseAdmin
+    .from('notifications')
+    .upsert(candidates.map(candidate => ({
+      project_id: context.projectId,
+      rule_id: rule.id,
+      rule_type: rule.rule_type,
+      severity: candidate.severity,
+      title: candidate.title,
+      body: candidate.body,
+      data: candidate.data,
+      dedupe_key: candidate.dedupeKey,
+    })) as never, {
+      onConflict: 'rule_id,dedupe_key',
+      ignoreDuplicates: true,
+    })
+    .select();
+
+  if (error) {
+    console.error(`[Alerts] Failed to save notifications for rule ${rule.id}:`, error);
+    return;
+  }
+
+  const created = (data || []) as Notification[];
+  if (created.length === 0) return;
+
+  console.log(`[Alerts] Rule "${rule.name}" raised ${created.length} notifications for project ${context.projectId}`);
+
+  await supabaseAdmin
+    .from('alert_rules')
+    .update({ last_triggered_at: new Date().toISOString() } as never)
+    .eq('id', rule.id);
+
+  for (const notification of created) {
+    await deliverNotification(rule, notification, context.projectName);
+  }
+}
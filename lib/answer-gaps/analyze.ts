@@ -0,0 +1,456 @@
+/**
+ * Answer Gap Analysis
+ *
+ * Finds the prompts the brand is missing from and keeps one answer_gaps row
+ * per prompt. Responses from the last ANALYSIS_WINDOW_DAYS are grouped by
+ * prompt, and a prompt is a gap when fewer than half of them mention the
+ * brand. For each gap the analysis records why competitors won (who
+ * appeared, how they ranked, what the answers praised them for and which
+ * sources were cited), what the brand lacks, and suggested content and PR
+ * actions. Runs after every collection and on demand from the Answer Gaps
+ * page. Gaps that close are marked resolved, gaps whose prompt has no
+ * responses in the window expire, and dismissed gaps stay dismissed.
+ */
+
+import { selectAllRows, supabaseAdmin } from '@/lib/supabase-server';
+import type {
+  AnswerGap,
+  AnswerGapCompetitor,
+  AnswerGapPriority,
+  AnswerGapRecommendation,
+  AnswerGapSource,
+  AnswerGapStatus,
+  CitationContext,
+  Project,
+  ResponseAnalysis,
+} from '@/lib/types';
+
+const ANALYSIS_WINDOW_DAYS = 30;
+// Brand mention rate (0-1) below which a prompt is a gap
+const GAP_MENTION_RATE = 0.5;
+// Entity sentiment (0-1) from which a sentence counts as praise
+const PRAISE_SENTIMENT = 0.5;
+const MAX_ATTRIBUTES = 5;
+const MAX_QUOTES = 2;
+const MAX_QUOTE_LENGTH = 240;
+const MAX_SOURCES = 8;
+// Third-party sources turned into missing content notes and PR actions
+const MAX_PR_TARGETS = 3;
+
+// Phrases that introduce what an answer likes about a brand, up to the next
+// clause, e.g. "known for its generous free tier and ..." -> "generous free tier"
+const PRAISE_PATTERN =
+  /\b(?:known for|praised for|popular for|loved for|stands? out for|excels? (?:at|in)|best for|ideal for|great for|strong (?:at|in|on)|offers?|provides?|features?)\s+(?:its\s+|their\s+|an?\s+|the\s+)?([^.,;:!?()]+?)(?=\s+(?:and|but|which|that|while|with|for|to)\b|[.,;:!?()]|$)/gi;
+const MAX_ATTRIBUTE_WORDS = 6;
+
+interface GapResponseRow {
+  prompt_id: string;
+  mentions_brand: boolean;
+  cites_domain: boolean;
+  brands_mentioned: string[] | null;
+  competitor_ranks: Record<string, number> | null;
+  analysis: ResponseAnalysis | null;
+  prompts: { prompt_text: string; intent_type: 'organic' | 'commercial' };
+  citations: { cited_domain: string; cited_url: string | null; citation_context: CitationContext | null }[] | null;
+}
+
+interface ProjectContext {
+  brand: string;
+  domain: string | null;
+  // Lowercased Brand Bible claims, to tell which praised attributes the brand already covers
+  claims: string;
+  competitors: { name: string; domain: string | null }[];
+}
+
+interface GapFindings {
+  priority: AnswerGapPriority;
+  score: number;
+  response_count: number;
+  brand_mention_rate: number;
+  competitors: AnswerGapCompetitor[];
+  cited_sources: AnswerGapSource[];
+  missing_content: string[];
+  recommendations: AnswerGapRecommendation[];
+}
+
+export interface AnswerGapAnalysisResult {
+  // Prompts with responses in the window
+  analyzed: number;
+  // Gaps found, including dismissed ones
+  gaps: number;
+  // Previously open gaps the brand now appears in
+  resolved: number;
+  // Previously open gaps whose prompt has no responses in the window
+  expired: number;
+}
+
+/**
+ * Re-analyze a project's prompts and update its answer gaps. Returns null
+ * when the project doesn't exist.
+ */
+export async function analyzeAnswerGaps(projectId: string): Promise<AnswerGapAnalysisResult | null> {
+  const context = await loadProjectContext(projectId);
+  if (!context) return null;
+
+  const since = new Date(Date.now() - ANALYSIS_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data, error } = await selectAllRows<GapResponseRow>((from, to) => supabaseAdmin
+    .from('responses')
+    .select(`
+      prompt_id, mentions_brand, cites_domain, brands_mentioned, competitor_ranks, analysis,
+      prompts!inner(prompt_text, intent_type, monitors!inner(project_id)),
+      citations(cited_domain, cited_url, citation_context)
+    `)
+    .eq('prompts.monitors.project_id', projectId)
+    .gte('collected_at', since)
+    .order('collected_at', { ascending: false })
+    .order('id')
+    .range(from, to));
+
+  if (error) throw new Error(`Failed to load responses: ${error.message}`);
+
+  const byPrompt = new Map<string, GapResponseRow[]>();
+  for (const response of data) {
+    const responses = byPrompt.get(response.prompt_id) || [];
+    responses.push(response);
+    byPrompt.set(response.prompt_id, responses);
+  }
+
+  const { data: existingData, error: existingError } = await supabaseAdmin
+    .from('answer_gaps')
+    .select('id, prompt_id, status')
+    .eq('project_id', projectId);
+
+  if (existingError) throw new Error(`Failed to load answer gaps: ${existingError.message}`);
+
+  const existing = new Map(
+    ((existingData || []) as Pick<AnswerGap, 'id' | 'prompt_id' | 'status'>[]).map(gap => [gap.prompt_id, gap])
+  );
+
+  const now = new Date().toISOString();
+  const rows = [];
+  const closed: string[] = [];
+
+  for (const [promptId, responses] of byPrompt) {
+    const findings = analyzePrompt(responses, context);
+    const previous = existing.get(promptId);
+
+    if (!findings) {
+      if (previous && (previous.status === 'open' || previous.status === 'in_progress')) {
+        closed.push(previous.id);
+      }
+      continue;
+    }
+
+    rows.push({
+      project_id: projectId,
+      prompt_id: promptId,
+      status: nextStatus(previous?.status),
+      ...findings,
+      analyzed_at: now,
+      resolved_at: null,
+      updated_at: now,
+    });
+  }
+
+  // Nothing to judge the gap on any more, e.g. its monitor was paused
+  const expired = [...existing.values()]
+    .filter(gap => !byPrompt.has(gap.prompt_id) && (gap.status === 'open' || gap.status === 'in_progress'))
+    .map(gap => gap.id);
+
+  if (rows.length > 0) {
+    const { error: upsertError } = await supabaseAdmin
+      .from('answer_gaps')
+      .upsert(rows as never, { onConflict: 'project_id,prompt_id' });
+
+    if (upsertError) throw new Error(`Failed to save answer gaps: ${upsertError.message}`);
+  }
+
+  if (closed.length > 0) {
+    const { error: resolveError } = await supabaseAdmin
+      .from('answer_gaps')
+      .update({ status: 'resolved', resolved_at: now, analyzed_at: now, updated_at: now } as never)
+      .in('id', closed);
+
+    if (resolveError) throw new Error(`Failed to resolve answer gaps: ${resolveError.message}`);
+  }
+
+  if (expired.length > 0) {
+    const { error: expireError } = await supabaseAdmin
+      .from('answer_gaps')
+      .update({ status: 'expired', analyzed_at: now, updated_at: now } as never)
+      .in('id', expired);
+
+    if (expireError) throw new Error(`Failed to expire answer gaps: ${expireError.message}`);
+  }
+
+  console.log(`[AnswerGaps] Project ${projectId}: ${rows.length} gaps across ${byPrompt.size} prompts, ${closed.length} resolved, ${expired.length} expired`);
+
+  return { analyzed: byPrompt.size, gaps: rows.length, resolved: closed.length, expired: expired.length };
+}
+
+// Dismissed gaps stay dismissed and gaps with content stay in progress;
+// everything else, including a resolved gap that reappeared, is open
+function nextStatus(previous: AnswerGapStatus | undefined): AnswerGapStatus {
+  return previous === 'dismissed' || previous === 'in_progress' ? previous : 'open';
+}
+
+async function loadProjectContext(projectId: string): Promise<ProjectContext | null> {
+  const { data, error } = await supabaseAdmin
+    .from('projects')
+    .select('tracked_brand, website_url, description, unique_selling_points, key_differentiators, key_messages, competitors(name, website_url)')
+    .eq('id', projectId)
+    .single();
+
+  if (error || !data) return null;
+
+  const project = data as unknown as Pick<
+    Project,
+    'tracked_brand' | 'website_url' | 'description' | 'unique_selling_points' | 'key_differentiators' | 'key_messages'
+  > & { competitors: { name: string; website_url: string | null }[] | null };
+
+  return {
+    brand: project.tracked_brand,
+    domain: toDomain(project.website_url),
+    claims: [
+      project.description || '',
+      ...(project.unique_selling_points || []),
+      ...(project.key_differentiators || []),
+      ...(project.key_messages || []),
+    ].join(' ').toLowerCase(),
+    competitors: (project.competitors || [])
+      .filter(c => c.name.toLowerCase() !== project.tracked_brand.toLowerCase())
+      .map(c => ({ name: c.name, domain: toDomain(c.website_url) })),
+  };
+}
+
+// Findings for one prompt, or null when the brand appears in most answers
+function analyzePrompt(responses: GapResponseRow[], context: ProjectContext): GapFindings | null {
+  const mentioned = responses.filter(r => r.mentions_brand).length;
+  const mentionRate = mentioned / responses.length;
+  if (mentionRate >= GAP_MENTION_RATE) return null;
+
+  // Why competitors won is read from the answers the brand was left out of
+  const lost = responses.filter(r => !r.mentions_brand);
+  const competitors = summarizeCompetitors(lost, context);
+  const sources = summarizeSources(lost, context);
+  const brandCited = responses.some(r => r.cites_domain);
+
+  const withCompetitor = lost.filter(r => context.competitors.some(c => mentionsEntity(r, c.name))).length;
+  const score = round(
+    100 * (0.5 * (1 - mentionRate) + 0.3 * (withCompetitor / responses.length) + 0.2 * (Math.min(competitors.length, 3) / 3))
+  );
+
+  const uncovered = competitors
+    .flatMap(c => c.attributes.map(attribute => ({ attribute, competitor: c.name })))
+    .filter(({ attribute }) => !claimsCover(context.claims, attribute))
+    .slice(0, MAX_ATTRIBUTES);
+  const prTargets = sources.filter(s => !s.owner).slice(0, MAX_PR_TARGETS);
+
+  const missing: string[] = [];
+  if (!brandCited) {
+    missing.push(context.domain
+      ? `No page on ${context.domain} is cited for this question`
+      : 'No website is set for the brand, so the answers have nothing of yours to cite');
+  }
+  for (const { attribute, competitor } of uncovered) {
+    missing.push(`Nothing about ${attribute}, which the answers praised ${competitor} for`);
+  }
+  for (const source of prTargets) {
+    missing.push(`No coverage on ${source.domain}, cited ${plural(source.citations, 'time')} in answers without ${context.brand}`);
+  }
+
+  return {
+    priority: score >= 70 ? 'high' : score >= 45 ? 'medium' : 'low',
+    score,
+    response_count: responses.length,
+    brand_mention_rate: round(mentionRate * 100),
+    competitors,
+    cited_sources: sources,
+    missing_content: missing,
+    recommendations: recommend(responses[0].prompts, context, competitors, uncovered.map(u => u.attribute), prTargets, brandCited),
+  };
+}
+
+function summarizeCompetitors(lost: GapResponseRow[], context: ProjectContext): AnswerGapCompetitor[] {
+  return context.competitors
+    .map(competitor => {
+      const mentions = lost.filter(r => mentionsEntity(r, competitor.name));
+      const ranks = mentions
+        .map(r => rankOf(r.competitor_ranks, competitor.name))
+        .filter((rank): rank is number => rank !== null);
+
+      const sentences = mentions.flatMap(r => praiseSentences(r, competitor.name));
+      const attributes = new Map<string, number>();
+      for (const sentence of sentences) {
+        for (const attribute of extractAttributes(sentence, competitor.name)) {
+          attributes.set(attribute, (attributes.get(attribute) || 0) + 1);
+        }
+      }
+
+      return {
+        name: competitor.name,
+        mentions: mentions.length,
+        mention_rate: lost.length > 0 ? round((mentions.length / lost.length) * 100) : 0,
+        avg_rank: ranks.length > 0 ? round(ranks.reduce((sum, rank) => sum + rank, 0) / ranks.length) : null,
+        attributes: [...attributes.entries()]
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, MAX_ATTRIBUTES)
+          .map(([attribute]) => attribute),
+        quotes: [...new Set(sentences)]
+          .slice(0, MAX_QUOTES)
+          .map(s => (s.length > MAX_QUOTE_LENGTH ? `${s.slice(0, MAX_QUOTE_LENGTH - 1)}…` : s)),
+      };
+    })
+    .filter(c => c.mentions > 0)
+    .sort((a, b) => b.mentions - a.mentions || (a.avg_rank ?? Infinity) - (b.avg_rank ?? Infinity));
+}
+
+function summarizeSources(lost: GapResponseRow[], context: ProjectContext): AnswerGapSource[] {
+  const byDomain = new Map<string, AnswerGapSource>();
+
+  for (const response of lost) {
+    for (const citation of response.citations || []) {
+      const domain = citation.cited_domain.toLowerCase().replace(/^www\./, '');
+      if (context.domain && matchesDomain(domain, context.domain)) continue;
+
+      const source = byDomain.get(domain) || {
+        domain,
+        url: citation.cited_url,
+        title: citation.citation_context?.title || null,
+        citations: 0,
+        owner: context.competitors.find(c => c.domain && matchesDomain(domain, c.domain))?.name || null,
+      };
+      source.citations++;
+      source.title = source.title || citation.citation_context?.title || null;
+      byDomain.set(domain, source);
+    }
+  }
+
+  return [...byDomain.values()]
+    .sort((a, b) => b.citations - a.citations)
+    .slice(0, MAX_SOURCES);
+}
+
+function recommend(
+  prompt: GapResponseRow['prompts'],
+  context: ProjectContext,
+  competitors: AnswerGapCompetitor[],
+  uncovered: string[],
+  prTargets: AnswerGapSource[],
+  brandCited: boolean
+): AnswerGapRecommendation[] {
+  const recommendations: AnswerGapRecommendation[] = [];
+  const leader = competitors[0];
+
+  if (!brandCited) {
+    recommendations.push({
+      type: 'content',
+      title: `Answer "${prompt.prompt_text}" directly`,
+      detail: `Publish a page that answers the question in its first paragraph, with specific facts the assistants can cite, and make ${context.brand} part of the answer.`,
+    });
+  }
+
+  if (leader && prompt.intent_type === 'commercial') {
+    recommendations.push({
+      type: 'content',
+      title: `Publish a ${context.brand} vs ${leader.name} comparison`,
+      detail: `${leader.name} appeared in ${leader.mention_rate}% of the answers that left ${context.brand} out${leader.attributes.length > 0 ? `, praised for ${leader.attributes.slice(0, 3).join(', ')}` : ''}. Compare the two point by point and show where ${context.brand} is stronger.`,
+    });
+  } else if (leader) {
+    recommendations.push({
+      type: 'content',
+      title: `Cover the topic as thoroughly as ${leader.name}`,
+      detail: `Answers cited ${leader.name} for this question. Publish a guide with the depth, examples and data the answers draw on.`,
+    });
+  }
+
+  if (uncovered.length > 0) {
+    recommendations.push({
+      type: 'content',
+      title: `Show how ${context.brand} handles ${uncovered.slice(0, 3).join(', ')}`,
+      detail: 'The answers praised competitors for these and nothing in your Brand Bible covers them. Add concrete facts, numbers or customer examples, or add them to the Brand Bible if they already apply.',
+    });
+  }
+
+  for (const source of prTargets) {
+    recommendations.push({
+      type: 'pr',
+      title: `Get ${context.brand} featured on ${source.domain}`,
+      detail: `Cited ${plural(source.citations, 'time')}${source.title ? ` ("${source.title}")` : ''} in answers that left ${context.brand} out. Pitch an update, a review or an expert quote.`,
+    });
+  }
+
+  return recommendations;
+}
+
+// Same rule as share of voice: the response analysis when present, otherwise
+// the brands list extracted at collection
+function mentionsEntity(response: GapResponseRow, name: string): boolean {
+  const lower = name.toLowerCase();
+  const analyzed = response.analysis?.entities?.find(e => !e.is_brand && e.name.toLowerCase() === lower);
+  return analyzed?.mentioned ?? (response.brands_mentioned || []).some(b => b.toLowerCase() === lower);
+}
+
+function rankOf(ranks: Record<string, number> | null, name: string): number | null {
+  if (!ranks) return null;
+  const lower = name.toLowerCase();
+  const entry = Object.entries(ranks).find(([key]) => key.toLowerCase() === lower);
+  return entry ? entry[1] : null;
+}
+
+// Sentences about the competitor that read neutral or better
+function praiseSentences(response: GapResponseRow, name: string): string[] {
+  const lower = name.toLowerCase();
+  const entity = response.analysis?.entities?.find(e => !e.is_brand && e.name.toLowerCase() === lower);
+  if (!entity?.mentioned) return [];
+  if (entity.sentiment !== null && entity.sentiment < PRAISE_SENTIMENT) return [];
+  return entity.sentences.map(s => s.trim()).filter(Boolean);
+}
+
+function extractAttributes(sentence: string, name: string): string[] {
+  const attributes: string[] = [];
+  const lowerName = name.toLowerCase();
+
+  for (const match of sentence.matchAll(PRAISE_PATTERN)) {
+    const phrase = match[1]
+      .split(/\s+/)
+      .slice(0, MAX_ATTRIBUTE_WORDS)
+      .join(' ')
+      .replace(/[*_`"']/g, '')
+      .trim()
+      .toLowerCase();
+
+    if (phrase.length >= 3 && !phrase.includes(lowerName)) attributes.push(phrase);
+  }
+
+  return attributes;
+}
+
+// Most of the attribute's significant words appear in the Brand Bible
+function claimsCover(claims: string, attribute: string): boolean {
+  const words = attribute.split(/\s+/).filter(w => w.length > 3);
+  if (words.length === 0) return claims.includes(attribute);
+  return words.filter(w => claims.includes(w)).length >= Math.ceil(words.length / 2);
+}
+
+function matchesDomain(domain: string, target: string): boolean {
+  return domain === target || domain.endsWith(`.${target}`);
+}
+
+function toDomain(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url.startsWith('http') ? url : `https://${url}`).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
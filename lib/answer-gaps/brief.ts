@@ -0,0 +1,45 @@
+/**
+ * Content brief for an answer gap
+ *
+ * Turns a gap's findings into notes for the content pipeline, so content
+ * generated from a gap targets what the winning answers drew on. Shared by
+ * the pipeline routes and the Answer Gaps page, which previews it.
+ */
+
+import type { AnswerGap } from '@/lib/types';
+
+export type GapBriefInput = Pick<AnswerGap, 'brand_mention_rate' | 'competitors' | 'cited_sources' | 'missing_content' | 'recommendations'>;
+
+export function buildGapContentBrief(gap: GapBriefInput, brandName: string): string {
+  const lines = [
+    `This content closes an answer gap: AI assistants mention ${brandName} in only ${Math.round(gap.brand_mention_rate)}% of answers to this question.`,
+  ];
+
+  if (gap.competitors.length > 0) {
+    lines.push('Competitors the answers recommend instead:');
+    for (const competitor of gap.competitors.slice(0, 3)) {
+      const praised = competitor.attributes.length > 0 ? `, praised for ${competitor.attributes.join(', ')}` : '';
+      lines.push(`- ${competitor.name} (in ${competitor.mention_rate}% of those answers${praised})`);
+    }
+  }
+
+  const sources = gap.cited_sources.slice(0, 5);
+  if (sources.length > 0) {
+    lines.push(`Sources the answers cite: ${sources.map(s => s.domain).join(', ')}`);
+  }
+
+  if (gap.missing_content.length > 0) {
+    lines.push('What the brand is missing:');
+    lines.push(...gap.missing_content.map(item => `- ${item}`));
+  }
+
+  const contentActions = gap.recommendations.filter(r => r.type === 'content');
+  if (contentActions.length > 0) {
+    lines.push('Angles to cover:');
+    lines.push(...contentActions.map(r => `- ${r.title}: ${r.detail}`));
+  }
+
+  lines.push(`Answer the question directly and give ${brandName} concrete, citable facts on the points above.`);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,51 @@
+/**
+ * Content generated from answer gaps
+ *
+ * The content pipeline routes accept an answerGapId: the gap's brief is
+ * added to the pipeline notes and the saved content is linked back to the
+ * gap, which moves it to in progress.
+ */
+
+import { supabaseAdmin } from '@/lib/supabase-server';
+import type { AnswerGap } from '@/lib/types';
+import { buildGapContentBrief } from './brief';
+
+/**
+ * A project's gap, or null when it doesn't exist or belongs to another project
+ */
+export async function getAnswerGap(projectId: string, gapId: string): Promise<AnswerGap | null> {
+  const { data } = await supabaseAdmin
+    .from('answer_gaps')
+    .select('*')
+    .eq('id', gapId)
+    .eq('project_id', projectId)
+    .maybeSingle();
+
+  return (data as AnswerGap | null) || null;
+}
+
+/**
+ * Pipeline notes with the gap's brief appended
+ */
+export function withGapBrief(notes: string | undefined, gap: AnswerGap | null, brandName: string): string | undefined {
+  if (!gap) return notes;
+  return [notes?.trim(), buildGapContentBrief(gap, brandName)].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Record content generated from a gap; open gaps move to in progress
+ */
+export async function linkGapContent(gap: AnswerGap, contentId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('answer_gaps')
+    .update({
+      content_id: contentId,
+      status: gap.status === 'open' ? 'in_progress' : gap.status,
+      updated_at: new Date().toISOString(),
+    } as never)
+    .eq('id', gap.id);
+
+  if (error) {
+    console.error('[AnswerGaps] Failed to link content to gap:', error);
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * API Keys
+ *
+ * Public API requests authenticate with `Authorization: Bearer lum_...`.
+ * Keys are looked up by their SHA-256 hash, must not be revoked or expired,
+ * must carry the scope the route needs and are limited to
+ * rate_limit_per_minute requests (counted by consume_api_rate_limit in
+ * supabase/migrations/022_add_api_keys.sql).
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import type { ApiKey, ApiKeyScope } from '@/lib/types';
+
+const KEY_PREFIX = 'lum_';
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// last_used_at is refreshed at most this often per key
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+export interface ApiKeyContext {
+  key: ApiKey;
+  // X-RateLimit-* headers to send with the response
+  headers: Record<string, string>;
+}
+
+export type ApiKeyCheck =
+  | { auth: ApiKeyContext; denied: null }
+  | { auth: null; denied: NextResponse };
+
+/**
+ * A new API key, and the prefix and hash to store for it
+ */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${KEY_PREFIX}${randomBytes(30).toString('base64url')}`;
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), hash: hashApiKey(key) };
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Authenticate an API request. Returns the key, or the 401/403/429 response
+ * to send instead.
+ */
+export async function requireApiKey(request: NextRequest, scope: ApiKeyScope): Promise<ApiKeyCheck> {
+  const authorization = request.headers.get('authorization') || '';
+  const token = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : '';
+
+  if (!token.startsWith(KEY_PREFIX)) {
+    return deny(401, 'Missing or malformed API key. Send Authorization: Bearer <key>.');
+  }
+
+  const { data } = await supabaseAdmin
+    .from('api_keys')
+    .select('*')
+    .eq('key_hash', hashApiKey(token))
+    .maybeSingle();
+
+  const key = data as ApiKey | null;
+  if (!key || key.revoked_at || (key.expires_at && new Date(key.expires_at) <= new Date())) {
+    return deny(401, 'Invalid, revoked or expired API key');
+  }
+
+  const { data: limitData, error: limitError } = await supabaseAdmin.rpc('consume_api_rate_limit' as never, {
+    key: key.id,
+    max_requests: key.rate_limit_per_minute,
+  } as never);
+
+  if (limitError) {
+    console.error('[API] Rate limit check failed:', limitError);
+    return deny(500, 'Failed to check rate limit');
+  }
+
+  const [limit] = (limitData || []) as unknown as { allowed: boolean; remaining: number; reset_at: string }[];
+  const resetSeconds = Math.ceil(new Date(limit.reset_at).getTime() / 1000);
+  const headers = {
+    'X-RateLimit-Limit': String(key.rate_limit_per_minute),
+    'X-RateLimit-Remaining': String(limit.remaining),
+    'X-RateLimit-Reset': String(resetSeconds),
+  };
+
+  if (!limit.allowed) {
+    const denied = deny(429, `Rate limit of ${key.rate_limit_per_minute} requests per minute exceeded`).denied;
+    for (const [name, value] of Object.entries(headers)) denied.headers.set(name, value);
+    denied.headers.set('Retry-After', String(Math.max(resetSeconds - Math.floor(Date.now() / 1000), 1)));
+    return { auth: null, denied };
+  }
+
+  if (!key.scopes.includes(scope)) {
+    return deny(403, `This API key is missing the ${scope} scope`);
+  }
+
+  if (!key.last_used_at || Date.now() - new Date(key.last_used_at).getTime() > LAST_USED_INTERVAL_MS) {
+    await supabaseAdmin
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() } as never)
+      .eq('id', key.id);
+  }
+
+  return { auth: { key, headers }, denied: null };
+}
+
+function deny(status: number, error: string): { auth: null; denied: NextResponse } {
+  return { auth: null, denied: NextResponse.json({ error }, { status }) };
+}
@@ -0,0 +1,275 @@
+/**
+ * API Schemas
+ *
+ * Small schema builder for the public API. A schema validates request
+ * values and describes itself as JSON Schema, so route handlers get their
+ * TypeScript types (Infer<>) and the OpenAPI document (lib/api/v1/openapi.ts)
+ * its definitions from the same source.
+ *
+ * Unknown object keys are dropped. Query strings are parsed with coercion:
+ * numbers and booleans from their string form, arrays from comma-separated
+ * values.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string };
+
+interface ParseContext {
+  path: string;
+  coerce: boolean;
+}
+
+export interface Schema<T> {
+  readonly jsonSchema: JsonSchema;
+  readonly isOptional?: boolean;
+  parse(value: unknown, context: ParseContext): ParseResult<T>;
+}
+
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly isOptional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never;
+}[keyof S];
+
+type InferShape<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+interface Annotations {
+  description?: string;
+  example?: unknown;
+}
+
+function ok<T>(data: T): ParseResult<T> {
+  return { success: true, data };
+}
+
+function fail<T>(context: ParseContext, message: string): ParseResult<T> {
+  return { success: false, error: `${context.path || 'value'} ${message}` };
+}
+
+function annotate(jsonSchema: JsonSchema, annotations: Annotations = {}): JsonSchema {
+  return {
+    ...jsonSchema,
+    ...(annotations.description ? { description: annotations.description } : {}),
+    ...(annotations.example !== undefined ? { example: annotations.example } : {}),
+  };
+}
+
+function string(options: Annotations & { minLength?: number; maxLength?: number; format?: 'uuid' | 'date' | 'date-time' | 'uri' } = {}): Schema<string> {
+  const { minLength, maxLength, format, ...annotations } = options;
+
+  return {
+    jsonSchema: annotate({
+      type: 'string',
+      ...(minLength !== undefined ? { minLength } : {}),
+      ...(maxLength !== undefined ? { maxLength } : {}),
+      ...(format ? { format } : {}),
+    }, annotations),
+    parse(value, context) {
+      if (typeof value !== 'string') return fail(context, 'must be a string');
+      if (minLength !== undefined && value.trim().length < minLength) {
+        return fail(context, `must be at least ${minLength} characters`);
+      }
+      if (maxLength !== undefined && value.length > maxLength) {
+        return fail(context, `must be at most ${maxLength} characters`);
+      }
+      if (format && !FORMAT_PATTERNS[format].test(value)) {
+        return fail(context, `must be a valid ${format}`);
+      }
+      return ok(value);
+    },
+  };
+}
+
+const FORMAT_PATTERNS: Record<'uuid' | 'date' | 'date-time' | 'uri', RegExp> = {
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/,
+  uri: /^https?:\/\/\S+$/,
+};
+
+function number(options: Annotations & { integer?: boolean; minimum?: number; maximum?: number } = {}): Schema<number> {
+  const { integer, minimum, maximum, ...annotations } = options;
+
+  return {
+    jsonSchema: annotate({
+      type: integer ? 'integer' : 'number',
+      ...(minimum !== undefined ? { minimum } : {}),
+      ...(maximum !== undefined ? { maximum } : {}),
+    }, annotations),
+    parse(value, context) {
+      const parsed = context.coerce && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof parsed !== 'number' || Number.isNaN(parsed)) return fail(context, 'must be a number');
+      if (integer && !Number.isInteger(parsed)) return fail(context, 'must be an integer');
+      if (minimum !== undefined && parsed < minimum) return fail(context, `must be at least ${minimum}`);
+      if (maximum !== undefined && parsed > maximum) return fail(context, `must be at most ${maximum}`);
+      return ok(parsed);
+    },
+  };
+}
+
+function boolean(annotations: Annotations = {}): Schema<boolean> {
+  return {
+    jsonSchema: annotate({ type: 'boolean' }, annotations),
+    parse(value, context) {
+      if (context.coerce && (value === 'true' || value === 'false')) return ok(value === 'true');
+      if (typeof value !== 'boolean') return fail(context, 'must be a boolean');
+      return ok(value);
+    },
+  };
+}
+
+function enumOf<const T extends string>(values: readonly T[], annotations: Annotations = {}): Schema<T> {
+  return {
+    jsonSchema: annotate({ type: 'string', enum: values }, annotations),
+    parse(value, context) {
+      if (typeof value !== 'string' || !values.includes(value as T)) {
+        return fail(context, `must be one of: ${values.join(', ')}`);
+      }
+      return ok(value as T);
+    },
+  };
+}
+
+function array<T>(item: Schema<T>, options: Annotations & { minItems?: number; maxItems?: number } = {}): Schema<T[]> {
+  const { minItems, maxItems, ...annotations } = options;
+
+  return {
+    jsonSchema: annotate({
+      type: 'array',
+      items: item.jsonSchema,
+      ...(minItems !== undefined ? { minItems } : {}),
+      ...(maxItems !== undefined ? { maxItems } : {}),
+    }, annotations),
+    parse(value, context) {
+      const values = context.coerce && typeof value === 'string' ? value.split(',').map(v => v.trim()) : value;
+      if (!Array.isArray(values)) return fail(context, 'must be an array');
+      if (minItems !== undefined && values.length < minItems) return fail(context, `must have at least ${minItems} items`);
+      if (maxItems !== undefined && values.length > maxItems) return fail(context, `must have at most ${maxItems} items`);
+
+      const parsed: T[] = [];
+      for (let i = 0; i < values.length; i++) {
+        const result = item.parse(values[i], { ...context, path: `${context.path}[${i}]` });
+        if (!result.success) return result;
+        parsed.push(result.data);
+      }
+      return ok(parsed);
+    },
+  };
+}
+
+function object<S extends Shape>(shape: S, annotations: Annotations = {}): Schema<InferShape<S>> & { shape: S } {
+  const required = Object.keys(shape).filter(key => !shape[key].isOptional);
+
+  return {
+    shape,
+    jsonSchema: annotate({
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.jsonSchema])),
+      ...(required.length > 0 ? { required } : {}),
+    }, annotations),
+    parse(value, context) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail(context, 'must be an object');
+      }
+
+      const input = value as Record<string, unknown>;
+      const parsed: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        const result = schema.parse(input[key], {
+          ...context,
+          path: context.path ? `${context.path}.${key}` : key,
+        });
+        if (!result.success) return result;
+        if (result.data !== undefined) parsed[key] = result.data;
+      }
+      return ok(parsed as InferShape<S>);
+    },
+  };
+}
+
+// Free-form JSON, e.g. analysis blobs passed through from the database
+function json(annotations: Annotations = {}): Schema<unknown> {
+  return {
+    jsonSchema: annotate({}, annotations),
+    parse: value => ok(value),
+  };
+}
+
+function record<T>(values: Schema<T>, annotations: Annotations = {}): Schema<Record<string, T>> {
+  return {
+    jsonSchema: annotate({ type: 'object', additionalProperties: values.jsonSchema }, annotations),
+    parse(value, context) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return fail(context, 'must be an object');
+      }
+      const parsed: Record<string, T> = {};
+      for (const [key, entry] of Object.entries(value)) {
+        const result = values.parse(entry, { ...context, path: `${context.path}.${key}` });
+        if (!result.success) return result;
+        parsed[key] = result.data;
+      }
+      return ok(parsed);
+    },
+  };
+}
+
+function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    isOptional: true,
+    jsonSchema: schema.jsonSchema,
+    parse: (value, context) => (value === undefined || value === null || value === ''
+      ? ok(undefined)
+      : schema.parse(value, context)),
+  };
+}
+
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    jsonSchema: { ...schema.jsonSchema, nullable: true },
+    parse: (value, context) => (value === null ? ok(null) : schema.parse(value, context)),
+  };
+}
+
+export const s = {
+  string,
+  number,
+  boolean,
+  enumOf,
+  array,
+  object,
+  json,
+  record,
+  optional,
+  nullable,
+};
+
+/**
+ * Validate a JSON request body
+ */
+export function parseBody<T>(schema: Schema<T>, value: unknown): ParseResult<T> {
+  return schema.parse(value, { path: '', coerce: false });
+}
+
+/**
+ * Validate query parameters; repeated parameters are joined with commas
+ */
+export function parseQuery<T>(schema: Schema<T>, params: URLSearchParams): ParseResult<T> {
+  const values: Record<string, string> = {};
+  for (const key of new Set(params.keys())) {
+    values[key] = params.getAll(key).join(',');
+  }
+  return schema.parse(values, { path: '', coerce: true });
+}
@@ -0,0 +1,94 @@
+/**
+ * Request and response helpers shared by the /api/v1 route handlers
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { requireApiKey, type ApiKeyCheck, type ApiKeyContext } from '@/lib/api/keys';
+import { parseBody, parseQuery, type Schema } from '@/lib/api/schema';
+import type { ApiKeyScope } from '@/lib/types';
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Authenticate the request and check the project belongs to the key's
+ * workspace. Projects in other workspaces are reported as missing.
+ */
+export async function requireApiProject(
+  request: NextRequest,
+  projectId: string,
+  scope: ApiKeyScope
+): Promise<ApiKeyCheck> {
+  const { auth, denied } = await requireApiKey(request, scope);
+  if (denied) return { auth: null, denied };
+
+  const { data } = await supabaseAdmin
+    .from('projects')
+    .select('id')
+    .eq('id', projectId)
+    .eq('organization_id', auth.key.organization_id)
+    .maybeSingle();
+
+  if (!data) {
+    return { auth: null, denied: apiError(auth, 404, 'Project not found') };
+  }
+
+  return { auth, denied: null };
+}
+
+export function apiJson(auth: ApiKeyContext, body: unknown, status = 200): NextResponse {
+  return NextResponse.json(body, { status, headers: auth.headers });
+}
+
+export function apiError(auth: ApiKeyContext | null, status: number, error: string): NextResponse {
+  return NextResponse.json({ error }, { status, headers: auth?.headers });
+}
+
+/**
+ * Validate query parameters; returns the values or a 400 response
+ */
+export function readQuery<T>(
+  auth: ApiKeyContext,
+  request: NextRequest,
+  schema: Schema<T>
+): { value: T; invalid: null } | { value: null; invalid: NextResponse } {
+  const result = parseQuery(schema, request.nextUrl.searchParams);
+  return result.success
+    ? { value: result.data, invalid: null }
+    : { value: null, invalid: apiError(auth, 400, result.error) };
+}
+
+/**
+ * Validate a JSON body; returns the values or a 400 response
+ */
+export async function readBody<T>(
+  auth: ApiKeyContext,
+  request: NextRequest,
+  schema: Schema<T>
+): Promise<{ value: T; invalid: null } | { value: null; invalid: NextResponse }> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { value: null, invalid: apiError(auth, 400, 'Request body must be JSON') };
+  }
+
+  const result = parseBody(schema, body);
+  return result.success
+    ? { value: result.data, invalid: null }
+    : { value: null, invalid: apiError(auth, 400, result.error) };
+}
+
+export function pageRange(query: { limit?: number; offset?: number }): { limit: number; offset: number } {
+  return { limit: query.limit ?? DEFAULT_PAGE_SIZE, offset: query.offset ?? 0 };
+}
+
+/**
+ * A page of results. Queries fetch limit + 1 rows so has_more needs no count.
+ */
+export function paginated<T>(rows: T[], page: { limit: number; offset: number }) {
+  return {
+    data: rows.slice(0, page.limit),
+    pagination: { ...page, has_more: rows.length > page.limit },
+  };
+}
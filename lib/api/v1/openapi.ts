@@ -0,0 +1,126 @@
+/**
+ * OpenAPI 3.0 document for /api/v1, built from the route registry and the
+ * resource schemas. Served at /api/v1/openapi.json.
+ */
+
+import { API_KEY_SCOPES } from '@/lib/types';
+import { API_RESOURCES } from './resources';
+import { API_V1_ROUTES, type ApiRoute } from './routes';
+
+const ERROR_RESPONSES = {
+  400: 'Invalid parameters or body',
+  401: 'Missing, invalid, revoked or expired API key',
+  403: 'The API key lacks the required scope',
+  404: 'Not found, or not in the API key\'s workspace',
+  429: 'Rate limit exceeded; see Retry-After',
+};
+
+export function buildOpenApiDocument(serverUrl: string) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const route of API_V1_ROUTES) {
+    paths[route.path] = {
+      ...paths[route.path],
+      [route.method]: buildOperation(route),
+    };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Luminari API',
+      version: '1.0.0',
+      description: [
+        'Read AI visibility data and manage prompts and keywords.',
+        '',
+        'Authenticate with a workspace API key: `Authorization: Bearer lum_...`. Keys are created by workspace owners in Settings → API and reach every project in the workspace, limited to their scopes.',
+        '',
+        'Each key has a per-minute rate limit, reported in the X-RateLimit-Limit, X-RateLimit-Remaining and X-RateLimit-Reset headers.',
+      ].join('\n'),
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    security: [{ apiKey: [] }],
+    tags: [...new Set(API_V1_ROUTES.map(route => route.tag))].map(name => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: 'http',
+          scheme: 'bearer',
+          description: `Scopes: ${API_KEY_SCOPES.map(scope => scope.value).join(', ')}`,
+        },
+      },
+      schemas: {
+        ...Object.fromEntries(Object.entries(API_RESOURCES).map(([name, schema]) => [name, schema.jsonSchema])),
+        Pagination: {
+          type: 'object',
+          properties: {
+            limit: { type: 'integer' },
+            offset: { type: 'integer' },
+            has_more: { type: 'boolean' },
+          },
+          required: ['limit', 'offset', 'has_more'],
+        },
+        Error: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+          required: ['error'],
+        },
+      },
+    },
+  };
+}
+
+function buildOperation(route: ApiRoute) {
+  const pathParams = [...route.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string', format: 'uuid' },
+  }));
+
+  const queryParams = Object.entries(route.query?.shape || {}).map(([name, schema]) => ({
+    name,
+    in: 'query',
+    required: !schema.isOptional,
+    schema: schema.jsonSchema,
+  }));
+
+  const ref = { $ref: `#/components/schemas/${route.response.resource}` };
+  const data = route.response.kind === 'single' ? ref : { type: 'array', items: ref };
+
+  return {
+    operationId: route.operationId,
+    summary: route.summary,
+    tags: [route.tag],
+    description: `Requires the \`${route.scope}\` scope.`,
+    parameters: [...pathParams, ...queryParams],
+    ...(route.body ? {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: route.body.jsonSchema } },
+      },
+    } : {}),
+    responses: {
+      [route.response.status || 200]: {
+        description: 'Success',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                data,
+                ...(route.response.kind === 'paginated' ? { pagination: { $ref: '#/components/schemas/Pagination' } } : {}),
+              },
+              required: ['data'],
+            },
+          },
+        },
+      },
+      ...Object.fromEntries(Object.entries(ERROR_RESPONSES).map(([status, description]) => [status, {
+        description,
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+      }])),
+    },
+  };
+}
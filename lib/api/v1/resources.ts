@@ -0,0 +1,320 @@
+/**
+ * Public API v1 resources
+ *
+ * The shape of every object the API returns, and the functions that turn
+ * database rows into them. The schemas become components/schemas in the
+ * OpenAPI document; the serializers are typed against them so the document
+ * can't drift from what the routes send.
+ */
+
+import { s, type Infer } from '@/lib/api/schema';
+import { AI_MODELS } from '@/lib/types';
+
+const id = (description?: string) => s.string({ format: 'uuid', description });
+const timestamp = (description?: string) => s.string({ format: 'date-time', description });
+
+export const ProjectResource = s.object({
+  id: id(),
+  name: s.string(),
+  tracked_brand: s.string(),
+  brand_aliases: s.array(s.string()),
+  website_url: s.nullable(s.string()),
+  industry: s.nullable(s.string()),
+  description: s.nullable(s.string()),
+  key_messages: s.array(s.string()),
+  target_audience: s.nullable(s.string()),
+  key_differentiators: s.array(s.string()),
+  important_keywords: s.array(s.string()),
+  health_score: s.nullable(s.number()),
+  created_at: timestamp(),
+}, { description: 'A tracked brand' });
+
+export const MonitorResource = s.object({
+  id: id(),
+  project_id: id(),
+  name: s.string(),
+  language: s.string({ example: 'en' }),
+  location: s.string({ example: 'US' }),
+  ai_models: s.array(s.enumOf(AI_MODELS)),
+  samples_per_prompt: s.number({ description: 'Times each prompt is asked per model in a collection (1-10)' }),
+  is_active: s.boolean(),
+  schedule_frequency: s.enumOf(['manual', 'daily', 'weekly', 'cron']),
+  schedule_cron: s.nullable(s.string()),
+  next_run_at: s.nullable(timestamp()),
+  last_run_at: s.nullable(timestamp()),
+  created_at: timestamp(),
+}, { description: 'A set of prompts collected on a schedule for one locale' });
+
+export const PromptResource = s.object({
+  id: id(),
+  monitor_id: id(),
+  prompt_text: s.string(),
+  intent_type: s.enumOf(['organic', 'commercial']),
+  tags: s.array(s.string()),
+  visibility_pct: s.nullable(s.number({ description: 'Share of the latest responses that mention the brand' })),
+  last_collected_at: s.nullable(timestamp()),
+  created_at: timestamp(),
+}, { description: 'A question asked to AI engines' });
+
+export const PromptImportResource = s.object({
+  created: s.array(PromptResource),
+  skipped: s.array(s.string(), { description: 'Prompt texts that already existed on the monitor' }),
+});
+
+export const ResponseResource = s.object({
+  id: id(),
+  prompt_id: id(),
+  ai_model: s.enumOf(AI_MODELS),
+  response_text: s.string(),
+  mentions_brand: s.boolean(),
+  cites_domain: s.boolean({ description: 'Whether the answer cites the brand website' }),
+  sentiment_score: s.nullable(s.number({ description: '0 (negative) to 1 (positive)' })),
+  brand_rank: s.nullable(s.number({ integer: true, description: '1-based position among recommended brands' })),
+  brands_mentioned: s.array(s.string()),
+  competitor_ranks: s.nullable(s.record(s.number({ integer: true }))),
+  language: s.nullable(s.string()),
+  location: s.nullable(s.string()),
+  persona_id: s.nullable(id()),
+  analysis: s.nullable(s.json({ description: 'Per-entity mention and sentiment analysis' })),
+  collected_at: timestamp(),
+}, { description: 'One AI engine answer to a prompt' });
+
+export const CitationResource = s.object({
+  id: id(),
+  response_id: id(),
+  prompt_id: id(),
+  ai_model: s.enumOf(AI_MODELS),
+  cited_domain: s.string(),
+  cited_url: s.nullable(s.string()),
+  title: s.nullable(s.string()),
+  snippet: s.nullable(s.string({ description: 'Part of the answer the source supports' })),
+  created_at: timestamp(),
+}, { description: 'A source cited by an AI answer' });
+
+export const MetricResource = s.object({
+  date: s.string({ format: 'date' }),
+  prompt_id: s.nullable(id('Null for project-wide metrics')),
+  ai_model: s.nullable(s.enumOf(AI_MODELS, { description: 'Null for all models combined' })),
+  visibility_score: s.number(),
+  mention_count: s.number({ integer: true }),
+  citation_count: s.number({ integer: true }),
+  sentiment_avg: s.nullable(s.number()),
+  avg_position: s.nullable(s.number()),
+  top3_rate: s.nullable(s.number()),
+  response_count: s.number({ integer: true }),
+  mention_rate_low: s.nullable(s.number({ description: 'Lower bound of the 95% interval for the mention rate, in percent' })),
+  mention_rate_high: s.nullable(s.number({ description: 'Upper bound of the 95% interval for the mention rate, in percent' })),
+  visibility_margin: s.nullable(s.number({ description: 'Half-width of the 95% interval for visibility_score' })),
+}, { description: 'Daily visibility metrics' });
+
+export const KeywordResource = s.object({
+  id: id(),
+  keyword: s.string(),
+  source: s.string({ example: 'manual' }),
+  search_volume: s.nullable(s.number({ integer: true })),
+  cpc: s.nullable(s.number()),
+  difficulty: s.nullable(s.number({ integer: true })),
+  position: s.nullable(s.number()),
+  intent_type: s.nullable(s.enumOf(['informational', 'commercial', 'transactional', 'navigational'])),
+  url: s.nullable(s.string()),
+  last_updated: s.nullable(timestamp()),
+  created_at: timestamp(),
+}, { description: 'A search keyword tracked for the project' });
+
+export const ContentSummaryResource = s.object({
+  id: id(),
+  prompt_id: s.nullable(id()),
+  title: s.string(),
+  content_type: s.string({ example: 'article' }),
+  status: s.enumOf(['generating', 'completed', 'failed', 'draft', 'published']),
+  word_count: s.nullable(s.number({ integer: true })),
+  seo_score: s.nullable(s.number()),
+  meta_description: s.nullable(s.string()),
+  created_at: timestamp(),
+  updated_at: s.nullable(timestamp()),
+}, { description: 'Generated content, without its body' });
+
+export const ContentResource = s.object({
+  ...ContentSummaryResource.shape,
+  content_markdown: s.nullable(s.string()),
+  content_html: s.nullable(s.string()),
+  schema_json: s.nullable(s.json({ description: 'JSON-LD for the page' })),
+}, { description: 'Generated content with its body' });
+
+export type ApiProject = Infer<typeof ProjectResource>;
+export type ApiMonitor = Infer<typeof MonitorResource>;
+export type ApiPrompt = Infer<typeof PromptResource>;
+export type ApiResponse = Infer<typeof ResponseResource>;
+export type ApiCitation = Infer<typeof CitationResource>;
+export type ApiMetric = Infer<typeof MetricResource>;
+export type ApiKeyword = Infer<typeof KeywordResource>;
+export type ApiContentSummary = Infer<typeof ContentSummaryResource>;
+export type ApiContent = Infer<typeof ContentResource>;
+
+// Resources by their name in components/schemas
+export const API_RESOURCES = {
+  Project: ProjectResource,
+  Monitor: MonitorResource,
+  Prompt: PromptResource,
+  PromptImport: PromptImportResource,
+  Response: ResponseResource,
+  Citation: CitationResource,
+  Metric: MetricResource,
+  Keyword: KeywordResource,
+  ContentSummary: ContentSummaryResource,
+  Content: ContentResource,
+};
+
+export type ApiResourceName = keyof typeof API_RESOURCES;
+
+// Database rows are loosely typed (optional columns, joins); read them
+// through this and let the resource type check the result
+type Row = Record<string, unknown>;
+
+const str = (row: Row, key: string) => (row[key] as string | null | undefined) ?? null;
+const num = (row: Row, key: string) => (row[key] as number | null | undefined) ?? null;
+const list = (row: Row, key: string) => (row[key] as string[] | null | undefined) ?? [];
+
+export function toApiProject(row: Row): ApiProject {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    tracked_brand: row.tracked_brand as string,
+    brand_aliases: list(row, 'brand_aliases'),
+    website_url: str(row, 'website_url'),
+    industry: str(row, 'industry'),
+    description: str(row, 'description'),
+    key_messages: list(row, 'key_messages'),
+    target_audience: str(row, 'target_audience'),
+    key_differentiators: list(row, 'key_differentiators'),
+    important_keywords: list(row, 'important_keywords'),
+    health_score: num(row, 'health_score'),
+    created_at: row.created_at as string,
+  };
+}
+
+export function toApiMonitor(row: Row): ApiMonitor {
+  return {
+    id: row.id as string,
+    project_id: row.project_id as string,
+    name: row.name as string,
+    language: row.language as string,
+    location: row.location as string,
+    ai_models: list(row, 'ai_models') as ApiMonitor['ai_models'],
+    samples_per_prompt: num(row, 'samples_per_prompt') ?? 1,
+    is_active: !!row.is_active,
+    schedule_frequency: (row.schedule_frequency as ApiMonitor['schedule_frequency']) || 'manual',
+    schedule_cron: str(row, 'schedule_cron'),
+    next_run_at: str(row, 'next_run_at'),
+    last_run_at: str(row, 'last_run_at'),
+    created_at: row.created_at as string,
+  };
+}
+
+export function toApiPrompt(row: Row): ApiPrompt {
+  return {
+    id: row.id as string,
+    monitor_id: row.monitor_id as string,
+    prompt_text: row.prompt_text as string,
+    intent_type: (row.intent_type as ApiPrompt['intent_type']) || 'organic',
+    tags: list(row, 'tags'),
+    visibility_pct: num(row, 'visibility_pct'),
+    last_collected_at: str(row, 'last_collected_at'),
+    created_at: row.created_at as string,
+  };
+}
+
+export function toApiResponse(row: Row): ApiResponse {
+  return {
+    id: row.id as string,
+    prompt_id: row.prompt_id as string,
+    ai_model: row.ai_model as ApiResponse['ai_model'],
+    response_text: row.response_text as string,
+    mentions_brand: !!row.mentions_brand,
+    cites_domain: !!row.cites_domain,
+    sentiment_score: num(row, 'sentiment_score'),
+    brand_rank: num(row, 'brand_rank'),
+    brands_mentioned: list(row, 'brands_mentioned'),
+    competitor_ranks: (row.competitor_ranks as Record<string, number> | null) ?? null,
+    language: str(row, 'language'),
+    location: str(row, 'location'),
+    persona_id: str(row, 'persona_id'),
+    analysis: row.analysis ?? null,
+    collected_at: row.collected_at as string,
+  };
+}
+
+export function toApiCitation(row: Row & { responses: { prompt_id: string; ai_model: string } }): ApiCitation {
+  const context = row.citation_context as { title: string | null; snippet: string | null } | null;
+
+  return {
+    id: row.id as string,
+    response_id: row.response_id as string,
+    prompt_id: row.responses.prompt_id,
+    ai_model: row.responses.ai_model as ApiCitation['ai_model'],
+    cited_domain: row.cited_domain as string,
+    cited_url: str(row, 'cited_url'),
+    title: context?.title ?? null,
+    snippet: context?.snippet ?? null,
+    created_at: row.created_at as string,
+  };
+}
+
+export function toApiMetric(row: Row): ApiMetric {
+  return {
+    date: row.date as string,
+    prompt_id: str(row, 'prompt_id'),
+    ai_model: str(row, 'ai_model') as ApiMetric['ai_model'],
+    visibility_score: Number(row.visibility_score) || 0,
+    mention_count: Number(row.mention_count) || 0,
+    citation_count: Number(row.citation_count) || 0,
+    sentiment_avg: num(row, 'sentiment_avg'),
+    avg_position: num(row, 'avg_position'),
+    top3_rate: num(row, 'top3_rate'),
+    response_count: Number(row.response_count) || 0,
+    mention_rate_low: num(row, 'mention_rate_low'),
+    mention_rate_high: num(row, 'mention_rate_high'),
+    visibility_margin: num(row, 'visibility_margin'),
+  };
+}
+
+export function toApiKeyword(row: Row): ApiKeyword {
+  return {
+    id: row.id as string,
+    keyword: row.keyword as string,
+    source: (row.source as string) || 'manual',
+    search_volume: num(row, 'search_volume'),
+    cpc: num(row, 'cpc'),
+    difficulty: num(row, 'difficulty'),
+    position: num(row, 'position'),
+    intent_type: str(row, 'intent_type') as ApiKeyword['intent_type'],
+    url: str(row, 'url'),
+    last_updated: str(row, 'last_updated'),
+    created_at: row.created_at as string,
+  };
+}
+
+export function toApiContentSummary(row: Row): ApiContentSummary {
+  return {
+    id: row.id as string,
+    prompt_id: str(row, 'prompt_id'),
+    title: row.title as string,
+    content_type: (row.content_type as string) || 'article',
+    status: row.status as ApiContentSummary['status'],
+    word_count: num(row, 'word_count'),
+    seo_score: num(row, 'seo_score'),
+    meta_description: str(row, 'meta_description'),
+    created_at: row.created_at as string,
+    updated_at: str(row, 'updated_at'),
+  };
+}
+
+export function toApiContent(row: Row): ApiContent {
+  return {
+    ...toApiContentSummary(row),
+    // Content generated before the pipeline only has the legacy column
+    content_markdown: str(row, 'content_markdown') ?? str(row, 'content'),
+    content_html: str(row, 'content_html'),
+    schema_json: row.schema_json ?? null,
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * Public API v1 routes
+ *
+ * Every /api/v1 operation with its scope, parameters, body and response.
+ * Route handlers validate requests with the schemas exported here and the
+ * OpenAPI document is built from API_V1_ROUTES, so both stay in step.
+ */
+
+import { s, type Infer, type Schema } from '@/lib/api/schema';
+import { AI_MODELS, type ApiKeyScope } from '@/lib/types';
+import type { ApiResourceName } from './resources';
+
+export const MAX_PAGE_SIZE = 500;
+
+const pagination = {
+  limit: s.optional(s.number({ integer: true, minimum: 1, maximum: MAX_PAGE_SIZE, description: 'Page size (default 100)' })),
+  offset: s.optional(s.number({ integer: true, minimum: 0, description: 'Rows to skip' })),
+};
+
+const dateRange = {
+  since: s.optional(s.string({ format: 'date-time', description: 'Only items at or after this time' })),
+  until: s.optional(s.string({ format: 'date-time', description: 'Only items before this time' })),
+};
+
+export const listPromptsQuery = s.object({
+  monitor_id: s.optional(s.string({ format: 'uuid' })),
+  ...pagination,
+});
+
+export const importPromptsBody = s.object({
+  monitor_id: s.string({ format: 'uuid', description: 'Monitor the prompts are added to' }),
+  prompts: s.array(s.object({
+    prompt_text: s.string({ minLength: 1, maxLength: 2000 }),
+    intent_type: s.optional(s.enumOf(['organic', 'commercial'])),
+    tags: s.optional(s.array(s.string())),
+  }), { minItems: 1, maxItems: MAX_PAGE_SIZE }),
+});
+
+export const listResponsesQuery = s.object({
+  prompt_id: s.optional(s.string({ format: 'uuid' })),
+  ai_model: s.optional(s.enumOf(AI_MODELS)),
+  mentions_brand: s.optional(s.boolean()),
+  ...dateRange,
+  ...pagination,
+});
+
+export const listCitationsQuery = s.object({
+  domain: s.optional(s.string({ description: 'Cited domain, e.g. example.com' })),
+  ...dateRange,
+  ...pagination,
+});
+
+export const listMetricsQuery = s.object({
+  from: s.optional(s.string({ format: 'date', description: 'First day (default 30 days ago)' })),
+  to: s.optional(s.string({ format: 'date', description: 'Last day (default today)' })),
+  ai_model: s.optional(s.enumOf(AI_MODELS, { description: 'One model instead of all models combined' })),
+  prompt_id: s.optional(s.string({ format: 'uuid', description: 'One prompt instead of the whole project' })),
+});
+
+export const listKeywordsQuery = s.object({
+  source: s.optional(s.string({ description: 'Keyword source, e.g. manual or gsc' })),
+  ...pagination,
+});
+
+export const addKeywordsBody = s.object({
+  keywords: s.array(s.object({
+    keyword: s.string({ minLength: 1, maxLength: 200 }),
+    search_volume: s.optional(s.number({ integer: true, minimum: 0 })),
+    cpc: s.optional(s.number({ minimum: 0 })),
+    difficulty: s.optional(s.number({ integer: true, minimum: 0, maximum: 100 })),
+    intent_type: s.optional(s.enumOf(['informational', 'commercial', 'transactional', 'navigational'])),
+    url: s.optional(s.string()),
+  }), { minItems: 1, maxItems: MAX_PAGE_SIZE }),
+});
+
+export const listContentQuery = s.object({
+  status: s.optional(s.enumOf(['generating', 'completed', 'failed', 'draft', 'published'])),
+  ...pagination,
+});
+
+export type ListPromptsQuery = Infer<typeof listPromptsQuery>;
+export type ImportPromptsBody = Infer<typeof importPromptsBody>;
+export type ListResponsesQuery = Infer<typeof listResponsesQuery>;
+export type ListCitationsQuery = Infer<typeof listCitationsQuery>;
+export type ListMetricsQuery = Infer<typeof listMetricsQuery>;
+export type ListKeywordsQuery = Infer<typeof listKeywordsQuery>;
+export type AddKeywordsBody = Infer<typeof addKeywordsBody>;
+export type ListContentQuery = Infer<typeof listContentQuery>;
+
+export interface ApiRoute {
+  method: 'get' | 'post';
+  // OpenAPI path under /api/v1, with {param} placeholders
+  path: string;
+  operationId: string;
+  summary: string;
+  tag: string;
+  scope: ApiKeyScope;
+  query?: Schema<unknown> & { shape: Record<string, Schema<unknown>> };
+  body?: Schema<unknown>;
+  response: {
+    resource: ApiResourceName;
+    // single: { data }; list: { data: [] }; paginated: { data: [], pagination }
+    kind: 'list' | 'paginated' | 'single';
+    status?: number;
+  };
+}
+
+export const API_V1_ROUTES: ApiRoute[] = [
+  {
+    method: 'get',
+    path: '/projects',
+    operationId: 'listProjects',
+    summary: 'List the projects in the API key\'s workspace',
+    tag: 'Projects',
+    scope: 'projects:read',
+    response: { resource: 'Project', kind: 'list' },
+  },
+  {
+    method: 'get',
+    path: '/projects/{projectId}',
+    operationId: 'getProject',
+    summary: 'Get a project and its Brand Bible',
+    tag: 'Projects',
+    scope: 'projects:read',
+    response: { resource: 'Project', kind: 'single' },
+  },
+  {
+    method: 'get',
+    path: '/projects/{projectId}/monitors',
+    operationId: 'listMonitors',
+    summary: 'List monitors',
+    tag: 'Monitors',
+    scope: 'monitors:read',
+    response: { resource: 'Monitor', kind: 'list' },
+  },
+  {
+    method: 'get',
+    path: '/projects/{projectId}/prompts',
+    operationId: 'listPrompts',
+    summary: 'List prompts',
+    tag: 'Prompts',
+    scope: 'prompts:read',
+    query: listPromptsQuery,
+    response: { resource: 'Prompt', kind: 'paginated' },
+  },
+  {
+    method: 'post',
+    path: '/projects/{projectId}/prompts',
+    operationId: 'importPrompts',
+    summary: 'Add prompts to a monitor, skipping ones it already has',
+    tag: 'Prompts',
+    scope: 'prompts:write',
+    body: importPromptsBody,
+    response: { resource: 'PromptImport', kind: 'single', status: 201 },
+  },
+  {
+    method: 'get',
+    path: '/projects/{projectId}/responses',
+    operationId: 'listResponses',
+    summary: 'List collected AI responses, newest first',
+    tag: 'Responses',
+    scope: 'responses:read',
+    query: listResponsesQuery,
+    response: { resource: 'Response', kind: 'paginated' },
+  },
+  {
+    method: 'get',
+    path: '/projects/{projectId}/citations',
+    operationId: 'listCitations',
+    summary: 'List sources cited by AI responses, newest first',
+    tag: 'Citations',
+    scope: 'citations:read',
+    query: listCitationsQuery,
+    response: { resource: 'Citation', kind: 'paginated' },
+  },
+  {
+    method: 'get',
+    path: '/projects/{projectId}/metrics',
+    operationId: 'listMetrics',
+    summary: 'Daily visibility metrics, oldest first',
+    tag: 'Metrics',
+    scope: 'metrics:read',
+    query: listMetricsQuery,
+    response: { resource: 'Metric', kind: 'list' },
+  },
+  {
+    method: 'get',
+    path: '/projects/{projectId}/keywords',
+    operationId: 'listKeywords',
+    summary: 'List keywords',
+    tag: 'Keywords',
+    scope: 'keywords:read',
+    query: listKeywordsQuery,
+    response: { resource: 'Keyword', kind: 'paginated' },
+  },
+  {
+    method: 'post',
+    path: '/projects/{projectId}/keywords',
+    operationId: 'addKeywords',
+    summary: 'Add keywords; existing ones are updated',
+    tag: 'Keywords',
+    scope: 'keywords:write',
+    body: addKeywordsBody,
+    response: { resource: 'Keyword', kind: 'list', status: 201 },
+  },
+  {
+    method: 'get',
+    path: '/projects/{projectId}/content',
+    operationId: 'listContent',
+    summary: 'List generated content, newest first',
+    tag: 'Content',
+    scope: 'content:read',
+    query: listContentQuery,
+    response: { resource: 'ContentSummary', kind: 'paginated' },
+  },
+  {
+    method: 'get',
+    path: '/projects/{projectId}/content/{contentId}',
+    operationId: 'getContent',
+    summary: 'Get generated content with its body',
+    tag: 'Content',
+    scope: 'content:read',
+    response: { resource: 'Content', kind: 'single' },
+  },
+];
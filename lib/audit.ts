@@ -0,0 +1,61 @@
+/**
+ * Audit events for server-run actions
+ *
+ * Row changes made by signed-in users are logged by a database trigger
+ * (see supabase/migrations/018_add_roles_and_audit.sql). Work the API runs
+ * with the service role - collection runs, re-analysis, Google OAuth - is
+ * invisible to that trigger, so the routes that start it record an event
+ * here on behalf of the signed-in user.
+ */
+
+import { getSessionUser, supabaseAdmin } from '@/lib/supabase-server';
+
+export interface AuditEvent {
+  // Workspace-level actions (API keys) give organizationId instead
+  projectId?: string | null;
+  organizationId?: string | null;
+  // Dotted verb, e.g. collection.run or google.disconnect
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  changes?: Record<string, unknown> | null;
+}
+
+/**
+ * Record an action taken by the current user. Failures are logged and
+ * swallowed so auditing never breaks the action itself.
+ */
+export async function recordAuditEvent(event: AuditEvent): Promise<void> {
+  try {
+    const user = await getSessionUser();
+
+    let organizationId = event.organizationId ?? null;
+    if (!organizationId && event.projectId) {
+      const { data: project } = await supabaseAdmin
+        .from('projects')
+        .select('organization_id')
+        .eq('id', event.projectId)
+        .maybeSingle();
+      organizationId = (project as { organization_id: string | null } | null)?.organization_id ?? null;
+    }
+
+    const { error } = await supabaseAdmin
+      .from('audit_log')
+      .insert({
+        organization_id: organizationId,
+        project_id: event.projectId ?? null,
+        user_id: user?.id ?? null,
+        user_email: user?.email ?? null,
+        action: event.action,
+        entity_type: event.entityType,
+        entity_id: event.entityId ?? null,
+        changes: event.changes ?? null,
+      } as never);
+
+    if (error) {
+      console.error('[Audit] Failed to record event:', error);
+    }
+  } catch (error) {
+    console.error('[Audit] Failed to record event:', error);
+  }
+}
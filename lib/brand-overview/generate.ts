@@ -8,8 +8,10 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import { crawlWebsite, CrawlResult, NavigationItem } from '@/lib/crawler';
-import { supabase } from '@/lib/supabase';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { CONFIG_CHANGE_SOURCE_HEADER } from '@/lib/types';
 import type { BrandOverview, BrandOverviewStatus, ExtendedBrandBible } from '@/lib/types';
+import { dispatchWebhookEvent } from '@/lib/webhooks/dispatch';
 
 const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY,
@@ -20,6 +22,8 @@ export interface GenerateBrandOverviewOptions {
   websiteUrl: string;
   brandName?: string;
   force?: boolean; // Allow regeneration even if COMPLETE
+  // User who asked for the crawl, recorded on the brand config versions it writes
+  actor?: { id: string; email?: string | null };
 }
 
 export interface GenerateBrandOverviewResult {
@@ -41,11 +45,11 @@ export interface GenerateBrandOverviewResult {
 export async function generateBrandOverviewForProject(
   options: GenerateBrandOverviewOptions
 ): Promise<GenerateBrandOverviewResult> {
-  const { projectId, websiteUrl, brandName, force = false } = options;
+  const { projectId, websiteUrl, brandName, force = false, actor } = options;
 
   try {
     // Check for existing overview
-    const { data: existingData } = await supabase
+    const { data: existingData } = await supabaseAdmin
       .from('brand_overviews')
       .select('*')
       .eq('project_id', projectId)
@@ -74,7 +78,7 @@ export async function generateBrandOverviewForProject(
       }
 
       // Update existing to RUNNING
-      await supabase
+      await supabaseAdmin
         .from('brand_overviews')
         .update({
           status: 'RUNNING',
@@ -84,7 +88,7 @@ export async function generateBrandOverviewForProject(
         .eq('id', existing.id);
     } else {
       // Create new record in RUNNING state
-      const { error: insertError } = await supabase
+      const { error: insertError } = await supabaseAdmin
         .from('brand_overviews')
         .insert({
           project_id: projectId,
@@ -103,7 +107,7 @@ export async function generateBrandOverviewForProject(
     }
 
     // Get the current record
-    const { data: recordData } = await supabase
+    const { data: recordData } = await supabaseAdmin
       .from('brand_overviews')
       .select('*')
       .eq('project_id', projectId)
@@ -120,7 +124,7 @@ export async function generateBrandOverviewForProject(
     }
 
     // Run generation (this is the main work)
-    const result = await runGeneration(record.id, projectId, websiteUrl, brandName);
+    const result = await runGeneration(record.id, projectId, websiteUrl, brandName, actor);
 
     return result;
   } catch (error) {
@@ -128,7 +132,7 @@ export async function generateBrandOverviewForProject(
 
     // Try to update status to FAILED
     try {
-      await supabase
+      await supabaseAdmin
         .from('brand_overviews')
         .update({
           status: 'FAILED',
@@ -154,7 +158,8 @@ async function runGeneration(
   overviewId: string,
   projectId: string,
   websiteUrl: string,
-  brandName?: string
+  brandName?: string,
+  actor?: GenerateBrandOverviewOptions['actor']
 ): Promise<GenerateBrandOverviewResult> {
   const warnings: string[] = [];
 
@@ -184,7 +189,7 @@ async function runGeneration(
     let resolvedBrandName = brandName;
     if (!resolvedBrandName) {
       // Try to get from project
-      const { data: projectData } = await supabase
+      const { data: projectData } = await supabaseAdmin
         .from('projects')
         .select('tracked_brand, name')
         .eq('id', projectId)
@@ -210,7 +215,7 @@ async function runGeneration(
     const summaryMd = generateMarkdownSummary(brandBible);
 
     // Step 5: Update database with success
-    const { data: updated, error: updateError } = await supabase
+    const { data: updated, error: updateError } = await supabaseAdmin
       .from('brand_overviews')
       .update({
         status: 'COMPLETE',
@@ -229,10 +234,17 @@ async function runGeneration(
     }
 
     // Also update the project with brand bible data
-    await updateProjectWithBrandBible(projectId, brandBible);
+    await updateProjectWithBrandBible(projectId, brandBible, actor);
 
     console.log(`[BrandOverview] Generation complete for project ${projectId}`);
 
+    await dispatchWebhookEvent(projectId, 'brand_overview.completed', {
+      overview_id: overviewId,
+      brand_name: resolvedBrandName,
+      website_url: normalizedUrl,
+      warnings,
+    });
+
     return {
       success: true,
       status: 'COMPLETE',
@@ -242,7 +254,7 @@ async function runGeneration(
     console.error('[BrandOverview] Generation failed:', error);
 
     // Update database with failure
-    await supabase
+    await supabaseAdmin
       .from('brand_overviews')
       .update({
         status: 'FAILED',
@@ -551,10 +563,11 @@ function generateMarkdownSummary(brandBible: ExtendedBrandBible): string {
  */
 async function updateProjectWithBrandBible(
   projectId: string,
-  brandBible: ExtendedBrandBible
+  brandBible: ExtendedBrandBible,
+  actor?: GenerateBrandOverviewOptions['actor']
 ): Promise<void> {
   try {
-    await supabase
+    let query = supabaseAdmin
       .from('projects')
       .update({
         industry: brandBible.industry,
@@ -569,7 +582,17 @@ async function updateProjectWithBrandBible(
         unique_selling_points: brandBible.unique_selling_points,
         avoid_topics: brandBible.avoid_topics,
       } as never)
-      .eq('id', projectId);
+      .eq('id', projectId)
+      .setHeader(CONFIG_CHANGE_SOURCE_HEADER, 'crawler');
+
+    // Attribute the config version to whoever started the crawl
+    if (actor) {
+      query = query
+        .setHeader('x-change-actor-id', actor.id)
+        .setHeader('x-change-actor-email', actor.email || '');
+    }
+
+    await query;
   } catch (error) {
     console.error('[BrandOverview] Failed to update project:', error);
     // Non-fatal - the brand overview is still saved
@@ -580,7 +603,7 @@ async function updateProjectWithBrandBible(
  * Get the current brand overview for a project
  */
 export async function getBrandOverview(projectId: string): Promise<BrandOverview | null> {
-  const { data, error } = await supabase
+  const { data, error } = await supabaseAdmin
     .from('brand_overviews')
     .select('*')
     .eq('project_id', projectId)
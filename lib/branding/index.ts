@@ -0,0 +1,102 @@
+/**
+ * White label
+ *
+ * The name, logo and colors used on client-facing output: reports, Brand
+ * Bible PDFs and shared dashboards. A workspace sets them in Settings >
+ * White Label; anything left empty falls back to Luminari's own.
+ * Client-safe; server code loads a project's branding with lib/branding/server.
+ */
+
+import type { Organization } from '@/lib/types';
+
+export interface Branding {
+  name: string;
+  logoUrl: string | null;
+  // #rrggbb
+  primaryColor: string;
+  accentColor: string;
+}
+
+export const DEFAULT_BRANDING: Branding = {
+  name: 'Luminari',
+  logoUrl: null,
+  primaryColor: '#4f46e5',
+  accentColor: '#9ca3af',
+};
+
+export const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+type OrganizationBranding = Pick<Organization, 'brand_name' | 'brand_logo_url' | 'brand_primary_color' | 'brand_accent_color'>;
+
+export function resolveBranding(organization: OrganizationBranding | null | undefined): Branding {
+  if (!organization) return DEFAULT_BRANDING;
+
+  return {
+    name: organization.brand_name?.trim() || DEFAULT_BRANDING.name,
+    logoUrl: organization.brand_logo_url?.trim() || null,
+    primaryColor: organization.brand_primary_color || DEFAULT_BRANDING.primaryColor,
+    accentColor: organization.brand_accent_color || DEFAULT_BRANDING.accentColor,
+  };
+}
+
+export function hexToRgb(color: string): [number, number, number] {
+  const hex = HEX_COLOR_PATTERN.test(color) ? color.slice(1) : DEFAULT_BRANDING.primaryColor.slice(1);
+  return [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16)) as [number, number, number];
+}
+
+// Larger logos aren't embedded
+export const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+export const LOGO_TIMEOUT_MS = 10000;
+
+export interface LogoImage {
+  dataUrl: string;
+  format: 'PNG' | 'JPEG';
+}
+
+/**
+ * The logo as a data URL for jsPDF, which can only embed PNG and JPEG. Null
+ * when there's no logo or it can't be fetched (e.g. the host blocks CORS in
+ * the browser); PDFs are then drawn without one. For the browser; server
+ * code uses loadServerLogo() from lib/branding/server.
+ */
+export async function loadLogoDataUrl(logoUrl: string | null): Promise<LogoImage | null> {
+  if (!logoUrl) return null;
+
+  try {
+    const response = await fetch(logoUrl, { signal: AbortSignal.timeout(LOGO_TIMEOUT_MS) });
+    if (!response.ok) return null;
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!logoFormat(contentType)) return null;
+
+    return toLogoImage(new Uint8Array(await response.arrayBuffer()), contentType);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The jsPDF image format for a logo's content type, or null when it can't
+ * be embedded
+ */
+export function logoFormat(contentType: string): LogoImage['format'] | null {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  return type === 'image/png' ? 'PNG' : type === 'image/jpeg' || type === 'image/jpg' ? 'JPEG' : null;
+}
+
+/**
+ * Logo bytes as an embeddable image; null when the type isn't PNG or JPEG
+ * or it's over MAX_LOGO_BYTES
+ */
+export function toLogoImage(bytes: Uint8Array, contentType: string): LogoImage | null {
+  const format = logoFormat(contentType);
+  if (!format || bytes.length > MAX_LOGO_BYTES) return null;
+
+  // String.fromCharCode in chunks; one byte at a time is quadratic
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+
+  return { dataUrl: `data:image/${format.toLowerCase()};base64,${btoa(binary)}`, format };
+}
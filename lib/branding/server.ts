@@ -0,0 +1,52 @@
+/**
+ * Branding lookup for server code (report rendering, shared dashboards)
+ */
+
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { fetchPublicUrl, readBytesLimited } from '@/lib/public-url';
+import type { Organization } from '@/lib/types';
+import {
+  DEFAULT_BRANDING,
+  LOGO_TIMEOUT_MS,
+  MAX_LOGO_BYTES,
+  logoFormat,
+  resolveBranding,
+  toLogoImage,
+  type Branding,
+  type LogoImage,
+} from './index';
+
+export async function getProjectBranding(projectId: string): Promise<Branding> {
+  const { data } = await supabaseAdmin
+    .from('projects')
+    .select('organizations(brand_name, brand_logo_url, brand_primary_color, brand_accent_color)')
+    .eq('id', projectId)
+    .single();
+
+  const project = data as { organizations: Pick<Organization, 'brand_name' | 'brand_logo_url' | 'brand_primary_color' | 'brand_accent_color'> | null } | null;
+  return project ? resolveBranding(project.organizations) : DEFAULT_BRANDING;
+}
+
+/**
+ * The logo for server-rendered PDFs. The URL is user-set, so it's only
+ * fetched from public addresses, and only PNG or JPEG up to MAX_LOGO_BYTES
+ * is read. Null when there's no usable logo.
+ */
+export async function loadServerLogo(logoUrl: string | null): Promise<LogoImage | null> {
+  if (!logoUrl) return null;
+
+  try {
+    const { response } = await fetchPublicUrl(logoUrl, { timeoutMs: LOGO_TIMEOUT_MS });
+    const contentType = response.headers.get('content-type') || '';
+    if (!response.ok || !logoFormat(contentType)) {
+      await response.body?.cancel();
+      return null;
+    }
+
+    // One byte over the cap tells a too-large logo from one exactly at it
+    return toLogoImage(await readBytesLimited(response, MAX_LOGO_BYTES + 1), contentType);
+  } catch (error) {
+    console.error('[Branding] Failed to load logo:', error);
+    return null;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Citation source classification
+ *
+ * Sorts a cited domain into the kind of site it is, which decides whether
+ * and how the brand can influence it: review sites and directories take
+ * listings, news sites take pitches, forums take participation. The brand's
+ * own site and competitor sites are recognised from the project settings;
+ * everything else comes from the known-site lists below, then from URL and
+ * title patterns. Client-safe; users can override a domain's category.
+ */
+
+import type { SourceCategory } from '@/lib/types';
+
+const REVIEW_SITES = [
+  'g2.com', 'capterra.com', 'trustpilot.com', 'trustradius.com', 'getapp.com', 'softwareadvice.com',
+  'yelp.com', 'tripadvisor.com', 'consumerreports.org', 'glassdoor.com', 'sitejabber.com', 'bbb.org',
+  'pcmag.com', 'techradar.com', 'tomsguide.com', 'rtings.com', 'wirecutter.com', 'gartner.com',
+];
+
+const DIRECTORIES = [
+  'crunchbase.com', 'producthunt.com', 'clutch.co', 'goodfirms.co', 'alternativeto.net', 'saasworthy.com',
+  'yellowpages.com', 'angi.com', 'houzz.com', 'thumbtack.com', 'zoominfo.com', 'owler.com', 'apps.apple.com',
+  'play.google.com', 'chromewebstore.google.com', 'marketplace.atlassian.com',
+];
+
+const NEWS_SITES = [
+  'nytimes.com', 'wsj.com', 'reuters.com', 'bloomberg.com', 'bbc.com', 'bbc.co.uk', 'cnn.com', 'theguardian.com',
+  'forbes.com', 'businessinsider.com', 'techcrunch.com', 'theverge.com', 'wired.com', 'cnbc.com', 'apnews.com',
+  'washingtonpost.com', 'ft.com', 'axios.com', 'venturebeat.com', 'zdnet.com', 'cnet.com', 'engadget.com',
+  'arstechnica.com', 'fastcompany.com', 'inc.com', 'entrepreneur.com', 'theinformation.com', 'economist.com',
+];
+
+const FORUMS = [
+  'reddit.com', 'quora.com', 'stackoverflow.com', 'stackexchange.com', 'news.ycombinator.com',
+  'discord.com', 'community.spiceworks.com',
+];
+
+const FORUM_SUBDOMAIN = /^(?:forums?|community|discuss|answers)\./;
+const FORUM_PATH = /\/(?:forums?|community|discussions?|threads?|t)\//i;
+const NEWS_SUBDOMAIN = /^news\./;
+const NEWS_PATH = /\/(?:news|press|press-releases?)\//i;
+const REVIEW_TEXT = /\breviews?\b|\brated\b|\bratings?\b/i;
+const DIRECTORY_TEXT = /\b(?:directory|listings?|alternatives? to|top \d+ .* companies)\b/i;
+
+export interface ClassificationContext {
+  // The brand's domain, without www.
+  ownDomain: string | null;
+  competitorDomains: string[];
+}
+
+/**
+ * Category for a cited domain; url and title sharpen the guess for sites
+ * not on the known lists
+ */
+export function classifyDomain(
+  domain: string,
+  context: ClassificationContext,
+  sample?: { url?: string | null; title?: string | null }
+): SourceCategory {
+  const host = normalizeDomain(domain);
+
+  if (context.ownDomain && matchesDomain(host, context.ownDomain)) return 'own';
+  if (context.competitorDomains.some(d => matchesDomain(host, d))) return 'competitor';
+  if (matchesDomain(host, 'wikipedia.org')) return 'wikipedia';
+  if (FORUMS.some(d => matchesDomain(host, d))) return 'forum';
+  if (REVIEW_SITES.some(d => matchesDomain(host, d))) return 'review';
+  if (DIRECTORIES.some(d => matchesDomain(host, d))) return 'directory';
+  if (NEWS_SITES.some(d => matchesDomain(host, d))) return 'news';
+
+  const path = pathOf(sample?.url);
+  const title = sample?.title || '';
+
+  if (FORUM_SUBDOMAIN.test(host) || FORUM_PATH.test(path)) return 'forum';
+  if (NEWS_SUBDOMAIN.test(host) || NEWS_PATH.test(path)) return 'news';
+  if (REVIEW_TEXT.test(path) || REVIEW_TEXT.test(title)) return 'review';
+  if (DIRECTORY_TEXT.test(path.replace(/[-_/]/g, ' ')) || DIRECTORY_TEXT.test(title)) return 'directory';
+
+  return 'other';
+}
+
+export function normalizeDomain(domain: string): string {
+  return domain.toLowerCase().replace(/^www\./, '');
+}
+
+// The domain itself or any subdomain of it
+export function matchesDomain(domain: string, target: string): boolean {
+  return domain === target || domain.endsWith(`.${target}`);
+}
+
+export function domainFromUrl(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    return normalizeDomain(new URL(url.startsWith('http') ? url : `https://${url}`).hostname);
+  } catch {
+    return null;
+  }
+}
+
+// Whether text names the brand or competitor as a whole word
+export function mentionsName(text: string, name: string): boolean {
+  if (!text || !name) return false;
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+function pathOf(url: string | null | undefined): string {
+  if (!url) return '';
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return '';
+  }
+}
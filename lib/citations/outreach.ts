@@ -0,0 +1,186 @@
+/**
+ * Outreach targets
+ *
+ * Third-party pages the AI answers cite alongside competitors but not the
+ * brand: the places where getting the brand listed, reviewed or quoted is
+ * most likely to change what the engines say. A page qualifies when the
+ * page itself (its fetched text, see pages.ts, or else the cited passage
+ * and title) names a competitor and not the brand, or, failing that, when
+ * the answers citing it named competitors and never the brand. Pages are
+ * ranked by leverage: authority, how often they're cited and by how many
+ * engines.
+ */
+
+import { selectAllRows, supabaseAdmin } from '@/lib/supabase-server';
+import type { AIModel, CitationContext, CitationSource, CitedPage, OutreachTarget, SourceCategory } from '@/lib/types';
+import { classifyDomain, mentionsName, normalizeDomain } from './classify';
+import { loadSourceContext } from './sources';
+
+const MAX_TARGETS = 200;
+// Assumed when a domain's authority hasn't been checked
+const DEFAULT_AUTHORITY = 30;
+// Citations at which a page gets full frequency credit
+const FREQUENCY_CAP = 10;
+const MAX_PROMPTS = 3;
+
+const ACTIONS: Record<SourceCategory, string> = {
+  review: 'Get listed and collect reviews; ask happy customers to review you here',
+  directory: 'Claim or create your listing and keep it complete',
+  news: 'Pitch the author a story, data or an expert quote',
+  forum: 'Join the discussion with genuinely helpful answers, disclosing your affiliation',
+  wikipedia: 'Earn independent coverage that editors can cite; do not edit your own article',
+  other: 'Ask the author to include you, or offer a guest post or comparison data',
+  own: '',
+  competitor: '',
+};
+
+interface OutreachCitationRow {
+  cited_domain: string;
+  cited_url: string | null;
+  citation_context: CitationContext | null;
+  responses: {
+    ai_model: AIModel;
+    mentions_brand: boolean;
+    brands_mentioned: string[] | null;
+    prompts: { prompt_text: string };
+  };
+}
+
+interface PageTotals {
+  domain: string;
+  title: string | null;
+  text: string;
+  citations: number;
+  engines: Set<AIModel>;
+  prompts: Set<string>;
+  brandInAnswers: boolean;
+  answerCompetitors: Set<string>;
+}
+
+/**
+ * A project's outreach targets, highest leverage first, or null when the
+ * project doesn't exist
+ */
+export async function buildOutreachTargets(projectId: string): Promise<OutreachTarget[] | null> {
+  const context = await loadSourceContext(projectId);
+  if (!context) return null;
+
+  type FetchedPage = Pick<CitedPage, 'url' | 'title' | 'mentions_brand' | 'competitors_mentioned'>;
+
+  const [{ data, error }, { data: sourceData }, { data: fetchedData }] = await Promise.all([
+    selectAllRows<OutreachCitationRow>((from, to) => supabaseAdmin
+      .from('citations')
+      .select('cited_domain, cited_url, citation_context, responses!inner(ai_model, mentions_brand, brands_mentioned, prompts!inner(prompt_text, monitors!inner(project_id)))')
+      .eq('responses.prompts.monitors.project_id', projectId)
+      .not('cited_url', 'is', null)
+      .order('created_at', { ascending: false })
+      .order('id')
+      .range(from, to)),
+    supabaseAdmin
+      .from('citation_sources')
+      .select('domain, category, authority')
+      .eq('project_id', projectId),
+    selectAllRows<FetchedPage>((from, to) => supabaseAdmin
+      .from('cited_pages')
+      .select('url, title, mentions_brand, competitors_mentioned')
+      .eq('project_id', projectId)
+      .eq('status', 'fetched')
+      .order('id')
+      .range(from, to)),
+  ]);
+
+  if (error) throw new Error(`Failed to load citations: ${error.message}`);
+
+  const sources = new Map(
+    ((sourceData || []) as Pick<CitationSource, 'domain' | 'category' | 'authority'>[]).map(s => [s.domain, s])
+  );
+  const fetchedPages = new Map(fetchedData.map(p => [p.url, p]));
+  const competitorNames = context.competitors.map(c => c.name);
+
+  const pages = new Map<string, PageTotals>();
+  const allEngines = new Set<AIModel>();
+
+  for (const citation of data) {
+    const url = citation.cited_url!;
+    const page = pages.get(url) || {
+      domain: normalizeDomain(citation.cited_domain),
+      title: null,
+      text: '',
+      citations: 0,
+      engines: new Set<AIModel>(),
+      prompts: new Set<string>(),
+      brandInAnswers: false,
+      answerCompetitors: new Set<string>(),
+    };
+
+    const { title, snippet } = citation.citation_context || { title: null, snippet: null };
+    page.title = page.title || title;
+    for (const part of [title, snippet]) {
+      if (part && !page.text.includes(part)) page.text += ` ${part}`;
+    }
+
+    page.citations++;
+    page.engines.add(citation.responses.ai_model);
+    page.prompts.add(citation.responses.prompts.prompt_text);
+    page.brandInAnswers = page.brandInAnswers || citation.responses.mentions_brand;
+    for (const name of citation.responses.brands_mentioned || []) {
+      const competitor = competitorNames.find(c => c.toLowerCase() === name.toLowerCase());
+      if (competitor) page.answerCompetitors.add(competitor);
+    }
+
+    allEngines.add(citation.responses.ai_model);
+    pages.set(url, page);
+  }
+
+  const targets: OutreachTarget[] = [];
+
+  for (const [url, page] of pages) {
+    const source = sources.get(page.domain);
+    const category = source?.category || classifyDomain(page.domain, context, { url, title: page.title });
+    if (category === 'own' || category === 'competitor') continue;
+
+    // Prefer what the page itself says over the answers around it, and the
+    // whole fetched page over the cited passage
+    const fetched = fetchedPages.get(url);
+    if (fetched ? fetched.mentions_brand : mentionsName(page.text, context.brand)) continue;
+    const pageCompetitors = fetched
+      ? fetched.competitors_mentioned
+      : competitorNames.filter(name => mentionsName(page.text, name));
+
+    let competitors: string[];
+    let evidence: OutreachTarget['evidence'];
+    if (pageCompetitors.length > 0) {
+      competitors = pageCompetitors;
+      evidence = 'page';
+    } else if (!page.brandInAnswers && page.answerCompetitors.size > 0) {
+      competitors = [...page.answerCompetitors];
+      evidence = 'answer';
+    } else {
+      continue;
+    }
+
+    const authority = source?.authority ?? null;
+    targets.push({
+      url,
+      domain: page.domain,
+      title: page.title || fetched?.title || null,
+      category,
+      authority,
+      citations: page.citations,
+      engines: [...page.engines],
+      prompts: [...page.prompts].slice(0, MAX_PROMPTS),
+      competitors,
+      evidence,
+      leverage: Math.round(
+        0.4 * (authority ?? DEFAULT_AUTHORITY) +
+        35 * (Math.min(page.citations, FREQUENCY_CAP) / FREQUENCY_CAP) +
+        25 * (page.engines.size / Math.max(allEngines.size, 1))
+      ),
+      action: ACTIONS[category],
+    });
+  }
+
+  return targets
+    .sort((a, b) => b.leverage - a.leverage || b.citations - a.citations)
+    .slice(0, MAX_TARGETS);
+}
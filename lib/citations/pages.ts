@@ -0,0 +1,173 @@
+/**
+ * Cited pages
+ *
+ * Fetches the pages the AI answers cite and records what they say. After
+ * every collection queueCitedPages() adds newly cited URLs to cited_pages
+ * as pending and refreshes citation counts; the cited-pages cron then
+ * fetches pending pages in batches, storing the title, headings and an
+ * excerpt, and whether the page's full text names the brand or any
+ * competitor (or one of their aliases). Only public addresses are fetched
+ * (lib/public-url.ts), with a timeout and a size cap. Pages that can't be
+ * fetched are marked failed and not retried.
+ */
+
+import { selectAllRows, supabaseAdmin } from '@/lib/supabase-server';
+import { parsePage, USER_AGENT, type CrawledPage } from '@/lib/crawler';
+import { fetchPublicUrl, readTextLimited } from '@/lib/public-url';
+import type { CitedPage } from '@/lib/types';
+import { mentionsName, normalizeDomain } from './classify';
+import { loadSourceContext, type SourceContext } from './sources';
+
+const CONCURRENT_FETCHES = 5;
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_PAGE_BYTES = 2 * 1024 * 1024;
+const MAX_HEADINGS = 20;
+const EXCERPT_LENGTH = 600;
+
+interface PageCitationRow {
+  cited_domain: string;
+  cited_url: string;
+  created_at: string;
+}
+
+/**
+ * Queue a project's cited URLs for fetching and refresh their citation
+ * counts. Returns the number of distinct URLs.
+ */
+export async function queueCitedPages(projectId: string): Promise<number> {
+  const { data, error } = await selectAllRows<PageCitationRow>((from, to) => supabaseAdmin
+    .from('citations')
+    .select('cited_domain, cited_url, created_at, responses!inner(prompts!inner(monitors!inner(project_id)))')
+    .eq('responses.prompts.monitors.project_id', projectId)
+    .not('cited_url', 'is', null)
+    .order('created_at', { ascending: false })
+    .order('id')
+    .range(from, to));
+
+  if (error) throw new Error(`Failed to load citations: ${error.message}`);
+
+  const byUrl = new Map<string, { domain: string; citations: number; last: string }>();
+  for (const citation of data) {
+    if (!/^https?:\/\//i.test(citation.cited_url)) continue;
+
+    const totals = byUrl.get(citation.cited_url) || {
+      domain: normalizeDomain(citation.cited_domain),
+      citations: 0,
+      last: citation.created_at,
+    };
+    totals.citations++;
+    if (citation.created_at > totals.last) totals.last = citation.created_at;
+    byUrl.set(citation.cited_url, totals);
+  }
+
+  if (byUrl.size === 0) return 0;
+
+  // New rows start pending; existing rows keep their status and content
+  const now = new Date().toISOString();
+  const rows = [...byUrl.entries()].map(([url, totals]) => ({
+    project_id: projectId,
+    url,
+    domain: totals.domain,
+    citation_count: totals.citations,
+    last_cited_at: totals.last,
+    updated_at: now,
+  }));
+
+  const { error: upsertError } = await supabaseAdmin
+    .from('cited_pages')
+    .upsert(rows as never, { onConflict: 'project_id,url' });
+
+  if (upsertError) throw new Error(`Failed to queue cited pages: ${upsertError.message}`);
+
+  return rows.length;
+}
+
+/**
+ * Fetch the oldest pending pages across all projects. Returns how many
+ * were attempted.
+ */
+export async function fetchPendingPages(limit = 25): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('cited_pages')
+    .select('id, project_id, url')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('[CitedPages] Failed to load pending pages:', error);
+    return 0;
+  }
+
+  const pending = (data || []) as Pick<CitedPage, 'id' | 'project_id' | 'url'>[];
+  const contexts = new Map<string, Promise<SourceContext | null>>();
+
+  for (let i = 0; i < pending.length; i += CONCURRENT_FETCHES) {
+    await Promise.all(
+      pending.slice(i, i + CONCURRENT_FETCHES).map(async (page) => {
+        if (!contexts.has(page.project_id)) {
+          contexts.set(page.project_id, loadSourceContext(page.project_id));
+        }
+
+        // Any failure marks the page failed so it doesn't block the queue
+        let update: Partial<CitedPage>;
+        try {
+          const context = await contexts.get(page.project_id)!;
+          update = pageUpdate(await fetchCitedPage(page.url), context);
+        } catch (error) {
+          console.error(`[CitedPages] Failed to fetch ${page.url}:`, error);
+          update = pageUpdate(null, null);
+        }
+
+        const { error: updateError } = await supabaseAdmin
+          .from('cited_pages')
+          .update(update as never)
+          .eq('id', page.id);
+
+        if (updateError) {
+          console.error(`[CitedPages] Failed to save ${page.url}:`, updateError);
+        }
+      })
+    );
+  }
+
+  return pending.length;
+}
+
+// The page parsed with its full text, or null when it isn't an HTML page
+async function fetchCitedPage(url: string): Promise<CrawledPage | null> {
+  const { url: finalUrl, response } = await fetchPublicUrl(url, {
+    headers: { 'User-Agent': USER_AGENT },
+    timeoutMs: FETCH_TIMEOUT_MS,
+  });
+
+  if (!response.ok || !(response.headers.get('content-type') || '').includes('text/html')) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  return parsePage(await readTextLimited(response, MAX_PAGE_BYTES), finalUrl, finalUrl, Infinity);
+}
+
+function pageUpdate(crawled: CrawledPage | null, context: SourceContext | null): Partial<CitedPage> {
+  const now = new Date().toISOString();
+  if (!crawled) return { status: 'failed', fetched_at: now, updated_at: now };
+
+  const text = [crawled.title, crawled.metaDescription, ...crawled.headings, crawled.content].join(' ');
+  const names = (candidates: string[], domain: string | null) =>
+    candidates.some(name => mentionsName(text, name)) || (!!domain && text.toLowerCase().includes(domain));
+
+  return {
+    status: 'fetched',
+    title: crawled.title || null,
+    meta_description: crawled.metaDescription || null,
+    headings: crawled.headings.slice(0, MAX_HEADINGS),
+    excerpt: crawled.content.slice(0, EXCERPT_LENGTH) || null,
+    mentions_brand: context ? names([context.brand, ...context.brandAliases], context.ownDomain) : null,
+    competitors_mentioned: (context?.competitors || [])
+      .filter(c => names([c.name, ...c.aliases], c.domain))
+      .map(c => c.name),
+    fetched_at: now,
+    updated_at: now,
+  };
+}
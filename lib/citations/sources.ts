@@ -0,0 +1,184 @@
+/**
+ * Citation Sources
+ *
+ * Rolls a project's citations up into citation_sources: one row per cited
+ * domain with its category (classify.ts), citations per engine, the number
+ * of prompts it was cited for and its authority. Authority is DataForSEO's
+ * domain rank, fetched when credentials are configured and rechecked after
+ * AUTHORITY_MAX_AGE_DAYS. Categories a user picked are kept. Runs after
+ * every collection and on demand from the Citations page.
+ */
+
+import { selectAllRows, supabaseAdmin } from '@/lib/supabase-server';
+import { getDomainRanks } from '@/lib/dataforseo';
+import type { AIModel, CitationContext, CitationSource } from '@/lib/types';
+import { classifyDomain, domainFromUrl, normalizeDomain, type ClassificationContext } from './classify';
+
+const AUTHORITY_MAX_AGE_DAYS = 30;
+
+interface SourceCitationRow {
+  cited_domain: string;
+  cited_url: string | null;
+  citation_context: CitationContext | null;
+  created_at: string;
+  responses: { ai_model: AIModel; prompt_id: string };
+}
+
+interface DomainTotals {
+  citations: number;
+  engines: Partial<Record<AIModel, number>>;
+  prompts: Set<string>;
+  first: string;
+  last: string;
+  sample: { url: string | null; title: string | null };
+}
+
+export interface SourceContext extends ClassificationContext {
+  brand: string;
+  brandAliases: string[];
+  competitors: { name: string; aliases: string[]; domain: string | null }[];
+}
+
+/**
+ * The brand and competitor names, aliases and domains sources are
+ * classified against, or null when the project doesn't exist
+ */
+export async function loadSourceContext(projectId: string): Promise<SourceContext | null> {
+  const { data, error } = await supabaseAdmin
+    .from('projects')
+    .select('tracked_brand, brand_aliases, website_url, competitors(name, aliases, website_url)')
+    .eq('id', projectId)
+    .single();
+
+  if (error || !data) return null;
+
+  const project = data as unknown as {
+    tracked_brand: string;
+    brand_aliases: string[] | null;
+    website_url: string | null;
+    competitors: { name: string; aliases: string[] | null; website_url: string | null }[] | null;
+  };
+
+  const competitors = (project.competitors || []).map(c => ({
+    name: c.name,
+    aliases: c.aliases || [],
+    domain: domainFromUrl(c.website_url),
+  }));
+
+  return {
+    brand: project.tracked_brand,
+    brandAliases: project.brand_aliases || [],
+    ownDomain: domainFromUrl(project.website_url),
+    competitorDomains: competitors.flatMap(c => (c.domain ? [c.domain] : [])),
+    competitors,
+  };
+}
+
+/**
+ * Recompute a project's citation sources. Returns the number of domains, or
+ * null when the project doesn't exist.
+ */
+export async function refreshCitationSources(projectId: string): Promise<number | null> {
+  const context = await loadSourceContext(projectId);
+  if (!context) return null;
+
+  const { data, error } = await selectAllRows<SourceCitationRow>((from, to) => supabaseAdmin
+    .from('citations')
+    .select('cited_domain, cited_url, citation_context, created_at, responses!inner(ai_model, prompt_id, prompts!inner(monitors!inner(project_id)))')
+    .eq('responses.prompts.monitors.project_id', projectId)
+    .order('created_at', { ascending: false })
+    .order('id')
+    .range(from, to));
+
+  if (error) throw new Error(`Failed to load citations: ${error.message}`);
+
+  const byDomain = new Map<string, DomainTotals>();
+  for (const citation of data) {
+    const domain = normalizeDomain(citation.cited_domain);
+    const totals = byDomain.get(domain) || {
+      citations: 0,
+      engines: {},
+      prompts: new Set<string>(),
+      first: citation.created_at,
+      last: citation.created_at,
+      sample: { url: null, title: null },
+    };
+
+    totals.citations++;
+    totals.engines[citation.responses.ai_model] = (totals.engines[citation.responses.ai_model] || 0) + 1;
+    totals.prompts.add(citation.responses.prompt_id);
+    if (citation.created_at < totals.first) totals.first = citation.created_at;
+    if (citation.created_at > totals.last) totals.last = citation.created_at;
+    if (!totals.sample.url && citation.cited_url) {
+      totals.sample = { url: citation.cited_url, title: citation.citation_context?.title || null };
+    }
+
+    byDomain.set(domain, totals);
+  }
+
+  if (byDomain.size === 0) return 0;
+
+  const { data: existingData, error: existingError } = await supabaseAdmin
+    .from('citation_sources')
+    .select('domain, category, category_overridden, authority, authority_checked_at')
+    .eq('project_id', projectId);
+
+  if (existingError) throw new Error(`Failed to load citation sources: ${existingError.message}`);
+
+  type ExistingSource = Pick<CitationSource, 'domain' | 'category' | 'category_overridden' | 'authority' | 'authority_checked_at'>;
+  const existing = new Map(((existingData || []) as ExistingSource[]).map(source => [source.domain, source]));
+
+  const now = new Date().toISOString();
+  const ranks = await fetchStaleAuthority([...byDomain.keys()], existing);
+
+  const rows = [...byDomain.entries()].map(([domain, totals]) => {
+    const previous = existing.get(domain);
+    const checked = ranks && domain in ranks;
+
+    return {
+      project_id: projectId,
+      domain,
+      category: previous?.category_overridden ? previous.category : classifyDomain(domain, context, totals.sample),
+      authority: checked ? ranks[domain] : previous?.authority ?? null,
+      authority_checked_at: checked ? now : previous?.authority_checked_at ?? null,
+      citation_count: totals.citations,
+      prompt_count: totals.prompts.size,
+      engine_counts: totals.engines,
+      first_cited_at: totals.first,
+      last_cited_at: totals.last,
+      updated_at: now,
+    };
+  });
+
+  const { error: upsertError } = await supabaseAdmin
+    .from('citation_sources')
+    .upsert(rows as never, { onConflict: 'project_id,domain' });
+
+  if (upsertError) throw new Error(`Failed to save citation sources: ${upsertError.message}`);
+
+  console.log(`[CitationSources] Saved ${rows.length} sources for project ${projectId}`);
+  return rows.length;
+}
+
+// Domain ranks for domains never checked or checked too long ago; null when
+// DataForSEO isn't configured or the lookup fails, so refreshes still work
+async function fetchStaleAuthority(
+  domains: string[],
+  existing: Map<string, Pick<CitationSource, 'authority_checked_at'>>
+): Promise<Record<string, number> | null> {
+  if (!process.env.DATAFORSEO_LOGIN || !process.env.DATAFORSEO_PASSWORD) return null;
+
+  const cutoff = new Date(Date.now() - AUTHORITY_MAX_AGE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const stale = domains.filter(domain => {
+    const checkedAt = existing.get(domain)?.authority_checked_at;
+    return !checkedAt || checkedAt < cutoff;
+  });
+  if (stale.length === 0) return null;
+
+  try {
+    return await getDomainRanks(stale);
+  } catch (error) {
+    console.error('[CitationSources] Authority lookup failed:', error);
+    return null;
+  }
+}
@@ -0,0 +1,589 @@
+/**
+ * Bulk Response Collection
+ *
+ * The shared collection path used by /api/collect-all, the scheduler, and
+ * the resume/retry endpoints. A run is created up front with one item per
+ * prompt x model, repeated for each of the monitor's personas and samples.
+ * Items are then processed prompt by prompt, each recording its own status,
+ * error and latency. A prompt's samples are asked one round at a time so a
+ * model isn't hit with all of them at once. Processing stops starting new
+ * rounds once an optional deadline passes, leaving the run interrupted so
+ * it can be resumed later; the project-wide refreshes that normally follow
+ * (answer gaps, citation sources, cited pages) are then left to the resume
+ * as well, so the request ends within its time limit. Each prompt is asked
+ * in its monitor's language and market (see locale.ts), and responses
+ * record the locale they were collected under.
+ */
+
+import { supabaseAdmin } from '@/lib/supabase-server';
+import {
+  collectSingleResponse,
+  checkDomainCitation,
+  toCitationContext,
+  AIResponse,
+  type ProviderQueryOptions,
+} from '@/lib/ai-providers';
+import type { AIModel, CollectionRun, CollectionRunItem, CollectionRunStatus, CollectionRunTrigger, Response } from '@/lib/types';
+import {
+  BulkCollectionResults,
+  insertCollectionRun,
+  getCollectionRun,
+  claimRun,
+  getPendingItems,
+  resetItems,
+  updateRunItem,
+  refreshRunTotals,
+  getRunResponseIds,
+} from './runs';
+import { buildLocaleQueryOptions, getLocalizedPromptText, type CollectionLocale } from './locale';
+import { loadPersonas, withPersonaContext } from './persona';
+import { analyzeResponse, type AnalysisEntity } from '@/lib/response-analysis/analyze';
+import { updateVisibilityMetrics } from './metrics';
+import { updateShareOfVoice } from './share-of-voice';
+import { evaluateAlertRules } from '@/lib/alerts/evaluate';
+import { analyzeAnswerGaps } from '@/lib/answer-gaps/analyze';
+import { refreshCitationSources } from '@/lib/citations/sources';
+import { queueCitedPages } from '@/lib/citations/pages';
+import { queueWebhookEvent, toResponseEventData } from '@/lib/webhooks/dispatch';
+
+export type { BulkCollectionResults } from './runs';
+
+// Rate limiting: process prompts with a delay to avoid API rate limits
+const DELAY_BETWEEN_PROMPTS = 2000; // 2 seconds between prompts
+
+// Stop starting new sample rounds after this long so routes with a 300s
+// maxDuration can finish the round in flight, record totals and update
+// metrics before the platform kills the request
+export const COLLECTION_TIME_BUDGET_MS = 210 * 1000;
+
+export interface RunCollectionOptions {
+  projectId?: string;
+  monitorId?: string;
+  limit?: number;
+  trigger: CollectionRunTrigger;
+  /** Epoch ms after which no new sample rounds are started */
+  deadline?: number;
+}
+
+export interface ProcessRunOptions {
+  /** Epoch ms after which no new sample rounds are started */
+  deadline?: number;
+}
+
+export interface CollectionRunOutcome {
+  run: CollectionRun | null;
+  status: CollectionRunStatus;
+  results: BulkCollectionResults;
+  /** Another request is still processing the run, so nothing was done */
+  busy?: boolean;
+}
+
+interface PromptContext {
+  projectId: string;
+  promptText: string;
+  translations: Record<string, string> | null;
+  locale: CollectionLocale;
+  brand: AnalysisEntity;
+  websiteUrl: string;
+  competitors: AnalysisEntity[];
+}
+
+interface PromptContextRow {
+  id: string;
+  prompt_text: string;
+  translations: Record<string, string> | null;
+  monitors: {
+    project_id: string;
+    language: string;
+    location: string;
+    projects: {
+      tracked_brand: string;
+      brand_aliases: string[] | null;
+      website_url: string | null;
+      competitors: { name: string; aliases: string[] | null }[] | null;
+    };
+  };
+}
+
+const EMPTY_RESULTS: BulkCollectionResults = {
+  total: 0,
+  processed: 0,
+  successful: 0,
+  failed: 0,
+  responsessSaved: 0,
+  citationsSaved: 0,
+};
+
+/**
+ * Create a run for every prompt in a project or monitor and process it.
+ * Returns a null run when there are no prompts to collect.
+ */
+export async function runCollection(options: RunCollectionOptions): Promise<CollectionRunOutcome> {
+  const run = await createCollectionRun(options);
+
+  if (!run) {
+    return { run: null, status: 'completed', results: { ...EMPTY_RESULTS } };
+  }
+
+  const { status, results } = await processCollectionRun(run, { deadline: options.deadline });
+  return { run, status, results };
+}
+
+/**
+ * Create a collection run with one pending item per prompt x model
+ */
+export async function createCollectionRun(
+  options: Omit<RunCollectionOptions, 'deadline'>
+): Promise<CollectionRun | null> {
+  const { projectId, monitorId, limit, trigger } = options;
+
+  if (!projectId && !monitorId) {
+    throw new Error('Either projectId or monitorId is required');
+  }
+
+  // Fetch prompts based on project or monitor
+  let promptsQuery = supabaseAdmin
+    .from('prompts')
+    .select('id, monitor_id, monitors!inner(project_id, ai_models, persona_ids, samples_per_prompt)')
+    .order('created_at', { ascending: true });
+
+  if (monitorId) {
+    promptsQuery = promptsQuery.eq('monitor_id', monitorId);
+  } else if (projectId) {
+    promptsQuery = promptsQuery.eq('monitors.project_id', projectId);
+  }
+
+  if (limit) {
+    promptsQuery = promptsQuery.limit(limit);
+  }
+
+  const { data, error: promptsError } = await promptsQuery;
+
+  if (promptsError) {
+    console.error('Prompts fetch error:', promptsError);
+    throw new Error('Failed to fetch prompts');
+  }
+
+  const prompts = (data || []) as unknown as {
+    id: string;
+    monitor_id: string;
+    monitors: { project_id: string; ai_models: AIModel[]; persona_ids: string[] | null; samples_per_prompt: number | null };
+  }[];
+
+  if (prompts.length === 0) {
+    return null;
+  }
+
+  // Skip personas that were deleted but are still listed on a monitor
+  const personas = await loadPersonas([
+    ...new Set(prompts.flatMap(prompt => prompt.monitors.persona_ids || [])),
+  ]);
+
+  // Without personas each prompt x model is asked with no persona; every
+  // combination is repeated once per sample
+  const items = prompts.flatMap(prompt => {
+    const existing = (prompt.monitors.persona_ids || []).filter(id => personas.has(id));
+    const personaIds = existing.length > 0 ? existing : [null];
+    const sampleIndexes = [...Array(prompt.monitors.samples_per_prompt || 1).keys()];
+    return prompt.monitors.ai_models.flatMap(model =>
+      personaIds.flatMap(personaId =>
+        sampleIndexes.map(sampleIndex => ({ promptId: prompt.id, model, personaId, sampleIndex }))
+      )
+    );
+  });
+
+  return insertCollectionRun({
+    projectId: projectId || prompts[0].monitors.project_id,
+    monitorId: monitorId || null,
+    trigger,
+    items,
+    promptsTotal: prompts.length,
+  });
+}
+
+/**
+ * Process all pending items of a run, prompt by prompt
+ */
+export async function processCollectionRun(
+  run: CollectionRun,
+  options: ProcessRunOptions = {}
+): Promise<{ status: CollectionRunStatus; results: BulkCollectionResults }> {
+  // Alerts only look at responses collected by this invocation, not ones
+  // from an earlier attempt of a resumed run
+  const processingStartedAt = new Date().toISOString();
+  const pendingItems = await getPendingItems(run.id);
+
+  // Group items by prompt so each prompt's models are queried together
+  const itemsByPrompt = new Map<string, CollectionRunItem[]>();
+  for (const item of pendingItems) {
+    const items = itemsByPrompt.get(item.prompt_id) || [];
+    items.push(item);
+    itemsByPrompt.set(item.prompt_id, items);
+  }
+
+  const contexts = await loadPromptContexts([...itemsByPrompt.keys()]);
+  const personas = await loadPersonas([
+    ...new Set(pendingItems.map(item => item.persona_id).filter((id): id is string => !!id)),
+  ]);
+
+  console.log(`Processing collection run ${run.id}: ${pendingItems.length} items across ${itemsByPrompt.size} prompts`);
+
+  let interrupted = false;
+  let promptIndex = 0;
+
+  const pastDeadline = () => !!options.deadline && Date.now() > options.deadline;
+
+  for (const [promptId, items] of itemsByPrompt) {
+    if (pastDeadline()) {
+      console.log(`Collection run ${run.id} hit its time budget; leaving ${itemsByPrompt.size - promptIndex} prompts pending`);
+      interrupted = true;
+      break;
+    }
+
+    const context = contexts.get(promptId);
+
+    if (!context) {
+      // Prompt was deleted after the run was created
+      await Promise.all(items.map(item => updateRunItem(item.id, {
+        status: 'failed',
+        error: 'Prompt no longer exists',
+        completed_at: new Date().toISOString(),
+      })));
+      promptIndex++;
+      continue;
+    }
+
+    try {
+      console.log(`Collecting for: "${context.promptText.slice(0, 40)}..." (${context.locale.language}-${context.locale.location})`);
+
+      const queryText = await getLocalizedPromptText(
+        promptId,
+        context.promptText,
+        context.translations,
+        context.locale.language
+      );
+      const queryOptions = buildLocaleQueryOptions(context.locale);
+
+      for (const round of groupBySample(items)) {
+        // Later samples of this prompt stay pending for the resume
+        if (pastDeadline()) {
+          interrupted = true;
+          break;
+        }
+
+        await Promise.all(round.map(item => {
+          const persona = item.persona_id ? personas.get(item.persona_id) : undefined;
+          return collectItem(item, promptId, context, queryText, withPersonaContext(queryOptions, persona));
+        }));
+      }
+
+      // Update prompt's last collected timestamp once all its samples are in
+      if (!interrupted) {
+        await supabaseAdmin
+          .from('prompts')
+          .update({ last_collected_at: new Date().toISOString() } as never)
+          .eq('id', promptId);
+      }
+    } catch (error) {
+      console.error(`Error processing prompt ${promptId}:`, error);
+    }
+
+    promptIndex++;
+
+    if (interrupted) {
+      console.log(`Collection run ${run.id} hit its time budget mid-prompt; leaving ${itemsByPrompt.size - promptIndex + 1} prompts pending`);
+      break;
+    }
+
+    // Rate limiting delay
+    if (promptIndex < itemsByPrompt.size) {
+      await delay(DELAY_BETWEEN_PROMPTS);
+    }
+  }
+
+  const outcome = await refreshRunTotals(run.id, interrupted ? 'interrupted' : 'running');
+
+  console.log(`Collection run ${run.id} ${outcome.status}. Results:`, outcome.results);
+
+  // Metrics and alerts cover this run's responses, so they always run
+  await updateVisibilityMetrics(run.project_id, [...itemsByPrompt.keys()]);
+  await updateShareOfVoice(run.project_id);
+  await evaluateAlertRules(run.project_id, await getRunResponseIds(run.id, processingStartedAt));
+
+  // Project-wide refreshes can take a while; past the deadline they're left
+  // for the resume (or the next collection) rather than risk the time limit
+  if (pastDeadline()) {
+    console.log(`Collection run ${run.id} is out of time; skipping answer gap, citation source and cited page refreshes`);
+  } else {
+    await analyzeAnswerGaps(run.project_id).catch(error => {
+      console.error('[AnswerGaps] Analysis failed:', error);
+    });
+    await refreshCitationSources(run.project_id).catch(error => {
+      console.error('[CitationSources] Refresh failed:', error);
+    });
+    await queueCitedPages(run.project_id).catch(error => {
+      console.error('[CitedPages] Queueing failed:', error);
+    });
+  }
+
+  // An interrupted run completes when it's resumed
+  if (outcome.status !== 'interrupted') {
+    await queueWebhookEvent(run.project_id, 'collection.completed', {
+      run_id: run.id,
+      monitor_id: run.monitor_id,
+      trigger: run.trigger,
+      status: outcome.status,
+      results: outcome.results,
+    });
+  }
+
+  return outcome;
+}
+
+/**
+ * Resume a run: items left running by a crashed or timed-out request are
+ * reset to pending, then all pending items are processed. The run is
+ * claimed first, so a run another request is still processing is left
+ * alone (busy); a 'running' run past its deadline is stale and is resumed.
+ * Returns null when the run doesn't exist.
+ */
+export async function resumeCollectionRun(
+  runId: string,
+  options: ProcessRunOptions = {}
+): Promise<CollectionRunOutcome | null> {
+  const run = await getCollectionRun(runId);
+  if (!run) return null;
+
+  if (!(await claimRun(run))) {
+    return { run, status: run.status, results: { ...EMPTY_RESULTS }, busy: true };
+  }
+
+  await resetItems(runId, 'running');
+
+  const { status, results } = await processCollectionRun(run, options);
+  return { run, status, results };
+}
+
+/**
+ * Retry only the failed items of a run, claiming it first like
+ * resumeCollectionRun.
+ * Returns null when the run doesn't exist.
+ */
+export async function retryFailedItems(
+  runId: string,
+  options: ProcessRunOptions = {}
+): Promise<CollectionRunOutcome | null> {
+  const run = await getCollectionRun(runId);
+  if (!run) return null;
+
+  if (!(await claimRun(run))) {
+    return { run, status: run.status, results: { ...EMPTY_RESULTS }, busy: true };
+  }
+
+  const resetCount = await resetItems(runId, 'failed');
+
+  if (resetCount === 0) {
+    // Nothing to retry: put back the status the run had before the claim
+    const { status, results } = await refreshRunTotals(runId, run.status === 'running' ? 'interrupted' : run.status);
+    return { run, status, results };
+  }
+
+  const { status, results } = await processCollectionRun(run, options);
+  return { run, status, results };
+}
+
+/**
+ * Load the brand context needed to analyze responses for each prompt
+ */
+async function loadPromptContexts(promptIds: string[]): Promise<Map<string, PromptContext>> {
+  const contexts = new Map<string, PromptContext>();
+  if (promptIds.length === 0) return contexts;
+
+  const { data, error } = await supabaseAdmin
+    .from('prompts')
+    .select(`
+      id,
+      prompt_text,
+      translations,
+      monitors!inner (
+        project_id,
+        language,
+        location,
+        projects!inner (
+          tracked_brand,
+          brand_aliases,
+          website_url,
+          competitors (
+            name,
+            aliases
+          )
+        )
+      )
+    `)
+    .in('id', promptIds);
+
+  if (error) {
+    console.error('Prompts fetch error:', error);
+    throw new Error('Failed to fetch prompts');
+  }
+
+  for (const row of (data || []) as unknown as PromptContextRow[]) {
+    const project = row.monitors.projects;
+    contexts.set(row.id, {
+      projectId: row.monitors.project_id,
+      promptText: row.prompt_text,
+      translations: row.translations,
+      locale: { language: row.monitors.language, location: row.monitors.location },
+      brand: { name: project.tracked_brand, aliases: project.brand_aliases || [] },
+      websiteUrl: project.website_url || '',
+      competitors: project.competitors?.map(c => ({ name: c.name, aliases: c.aliases || [] })) || [],
+    });
+  }
+
+  return contexts;
+}
+
+/**
+ * Query one model for one prompt and record the outcome on the run item
+ */
+async function collectItem(
+  item: CollectionRunItem,
+  promptId: string,
+  context: PromptContext,
+  queryText: string,
+  queryOptions: ProviderQueryOptions
+): Promise<void> {
+  const startedAt = new Date();
+
+  await updateRunItem(item.id, {
+    status: 'running',
+    attempts: (item.attempts || 0) + 1,
+    started_at: startedAt.toISOString(),
+  });
+
+  const aiResponse = await collectSingleResponse(queryText, item.ai_model, queryOptions);
+  const latencyMs = Date.now() - startedAt.getTime();
+
+  if (!aiResponse.success) {
+    console.error(`${aiResponse.model} failed:`, aiResponse.error);
+    await updateRunItem(item.id, {
+      status: 'failed',
+      error: aiResponse.error || 'Unknown error',
+      latency_ms: latencyMs,
+      completed_at: new Date().toISOString(),
+    });
+    return;
+  }
+
+  const saved = await saveResponse(promptId, aiResponse, context, item.persona_id, item.sample_index || 0);
+
+  await updateRunItem(item.id, saved.responseId
+    ? {
+        status: 'succeeded',
+        error: null,
+        latency_ms: latencyMs,
+        response_id: saved.responseId,
+        citations_count: saved.citationsCount,
+        completed_at: new Date().toISOString(),
+      }
+    : {
+        status: 'failed',
+        error: 'Failed to save response',
+        latency_ms: latencyMs,
+        completed_at: new Date().toISOString(),
+      });
+}
+
+async function saveResponse(
+  promptId: string,
+  aiResponse: AIResponse,
+  context: PromptContext,
+  personaId: string | null,
+  sampleIndex: number
+): Promise<{ responseId: string | null; citationsCount: number }> {
+  const { brand, websiteUrl, competitors, locale } = context;
+
+  // Analyze the response
+  const citesDomain = checkDomainCitation(aiResponse.citedUrls || [], websiteUrl);
+  const analyzed = await analyzeResponse({ responseText: aiResponse.responseText, brand, competitors });
+
+  // Save response to database
+  const { data: response, error: responseError } = await supabaseAdmin
+    .from('responses')
+    .insert({
+      prompt_id: promptId,
+      ai_model: aiResponse.model,
+      response_text: aiResponse.responseText,
+      sentiment_score: analyzed.sentimentScore,
+      mentions_brand: analyzed.mentionsBrand,
+      cites_domain: citesDomain,
+      is_featured: false,
+      brands_mentioned: analyzed.brandsMentioned,
+      analysis: analyzed.analysis,
+      analysis_confidence: analyzed.confidence,
+      brand_rank: analyzed.brandRank,
+      competitor_ranks: analyzed.competitorRanks,
+      language: locale.language,
+      location: locale.location,
+      persona_id: personaId,
+      sample_index: sampleIndex,
+    } as never)
+    .select()
+    .single();
+
+  if (responseError || !response) {
+    console.error('Response save error:', responseError);
+    return { responseId: null, citationsCount: 0 };
+  }
+
+  const responseId = (response as Response).id;
+
+  // Save citations
+  let citationsCount = 0;
+  if (aiResponse.sources && aiResponse.sources.length > 0) {
+    for (const source of aiResponse.sources) {
+      const domain = extractDomain(source.url);
+      if (domain) {
+        const { error: citationError } = await supabaseAdmin
+          .from('citations')
+          .insert({
+            response_id: responseId,
+            cited_domain: domain,
+            cited_url: source.url,
+            citation_context: toCitationContext(source),
+          } as never);
+
+        if (!citationError) {
+          citationsCount++;
+        }
+      }
+    }
+  }
+
+  await queueWebhookEvent(context.projectId, 'response.created', toResponseEventData(response as Response, citationsCount));
+
+  return { responseId, citationsCount };
+}
+
+// A prompt's items in sample order: every model and persona for sample 0, then sample 1, ...
+function groupBySample(items: CollectionRunItem[]): CollectionRunItem[][] {
+  const rounds = new Map<number, CollectionRunItem[]>();
+  for (const item of items) {
+    const index = item.sample_index || 0;
+    rounds.set(index, [...(rounds.get(index) || []), item]);
+  }
+  return [...rounds].sort((a, b) => a[0] - b[0]).map(([, round]) => round);
+}
+
+function extractDomain(url: string): string | null {
+  try {
+    const urlObj = new URL(url);
+    return urlObj.hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
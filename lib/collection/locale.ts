@@ -0,0 +1,96 @@
+/**
+ * Collection Locale
+ *
+ * Turns a monitor's language and location into the context sent to AI
+ * engines: a system instruction describing the user's market, a country
+ * code for engines with localized web search, and the prompt text
+ * translated into the monitor's language (cached on the prompt row; the
+ * cache is cleared by a trigger whenever prompt_text changes).
+ */
+
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { callClaude } from '@/lib/content-pipeline/ai-client';
+import type { ProviderQueryOptions } from '@/lib/ai-providers';
+import { MONITOR_LANGUAGES, MONITOR_LOCATIONS } from '@/lib/types';
+
+export interface CollectionLocale {
+  language: string;
+  location: string;
+}
+
+export const DEFAULT_LOCALE: CollectionLocale = { language: 'en', location: 'US' };
+
+function getLanguageLabel(language: string): string {
+  return MONITOR_LANGUAGES.find(l => l.value === language)?.label || language;
+}
+
+function getLocation(location: string) {
+  return MONITOR_LOCATIONS.find(l => l.value === location);
+}
+
+/**
+ * Whether a locale is the default en/US market. Default-locale monitors are
+ * queried without extra context so their history stays comparable with
+ * responses collected before localization existed.
+ */
+export function isDefaultLocale(locale: CollectionLocale): boolean {
+  return locale.language === DEFAULT_LOCALE.language && locale.location === DEFAULT_LOCALE.location;
+}
+
+/**
+ * Build provider query options for a locale
+ */
+export function buildLocaleQueryOptions(locale: CollectionLocale): ProviderQueryOptions {
+  if (isDefaultLocale(locale)) return {};
+
+  const location = getLocation(locale.location);
+  const languageLabel = getLanguageLabel(locale.language);
+
+  const market = location?.countryCode
+    ? `The user is located in ${location.label}. Prefer products, services, providers and sources that are available and relevant in ${location.label}.`
+    : 'The user has no specific location; answer for an international audience.';
+
+  return {
+    systemContext: `${market} Respond in ${languageLabel}.`,
+    countryCode: location?.countryCode || null,
+  };
+}
+
+/**
+ * Get the prompt text in the monitor's language, translating and caching it
+ * on the prompt when needed. Falls back to the original text if translation
+ * fails so collection isn't blocked.
+ */
+export async function getLocalizedPromptText(
+  promptId: string,
+  promptText: string,
+  translations: Record<string, string> | null | undefined,
+  language: string
+): Promise<string> {
+  if (language === DEFAULT_LOCALE.language) return promptText;
+
+  const cached = translations?.[language];
+  if (cached) return cached;
+
+  try {
+    const { translation } = await callClaude<{ translation: string }>(
+      `You translate search queries that people ask AI assistants. Translate the user's query into ${getLanguageLabel(language)} the way a native speaker would naturally ask it. Keep brand and product names unchanged. If the query is already in ${getLanguageLabel(language)}, return it unchanged. Respond with JSON only: {"translation": "..."}`,
+      promptText,
+      { temperature: 0, maxTokens: 500, timeoutMs: 30000 }
+    );
+
+    if (!translation?.trim()) return promptText;
+
+    // Only cache it if the prompt wasn't edited while translating
+    await supabaseAdmin
+      .from('prompts')
+      .update({ translations: { ...(translations || {}), [language]: translation.trim() } } as never)
+      .eq('id', promptId)
+      .eq('prompt_text', promptText);
+
+    return translation.trim();
+  } catch (error) {
+    console.error(`[Locale] Failed to translate prompt ${promptId} to ${language}:`, error);
+    return promptText;
+  }
+}
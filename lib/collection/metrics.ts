@@ -0,0 +1,243 @@
+/**
+ * Visibility Metrics
+ *
+ * Writes the daily rows in visibility_metrics after collection:
+ *  - one project-wide row (prompt_id and ai_model NULL) over every response
+ *  - per-prompt rows over the responses collected that day, one for all
+ *    models (ai_model NULL) and one per model
+ *
+ * The all-model prompt score is also copied to prompts.visibility_pct.
+ * Every row carries 95% confidence intervals for its mention rate and
+ * visibility score (see lib/response-analysis/confidence.ts).
+ */
+
+import { selectAllRows, supabaseAdmin } from '@/lib/supabase-server';
+import { computeRankMetrics } from '@/lib/response-analysis/rank-metrics';
+import {
+  CITATION_WEIGHT,
+  MENTION_WEIGHT,
+  meanInterval,
+  proportionInterval,
+  responseVisibility,
+} from '@/lib/response-analysis/confidence';
+
+export interface MetricsResponseRow {
+  prompt_id: string;
+  ai_model: string;
+  mentions_brand: boolean;
+  cites_domain: boolean;
+  sentiment_score: number | null;
+  brand_rank: number | null;
+}
+
+export interface ResponseMetrics {
+  total: number;
+  mentions: number;
+  citations: number;
+  mentionRate: number;
+  citationRate: number;
+  visibilityScore: number;
+  sentimentAvg: number;
+  avgPosition: number | null;
+  top3Rate: number;
+  /** 95% interval bounds for mentionRate */
+  mentionRateLow: number;
+  mentionRateHigh: number;
+  /** Half-width of the 95% interval for visibilityScore */
+  visibilityMargin: number;
+}
+
+const RESPONSE_METRICS_FIELDS = 'id, prompt_id, ai_model, mentions_brand, cites_domain, sentiment_score, brand_rank';
+// Prompt ids per .in() filter, to keep request URLs short
+const ID_CHUNK_SIZE = 150;
+
+/**
+ * Summarize a set of responses into the values stored in visibility_metrics
+ */
+export function computeResponseMetrics(
+  responses: Omit<MetricsResponseRow, 'prompt_id' | 'ai_model'>[]
+): ResponseMetrics {
+  const total = responses.length;
+  const mentions = responses.filter(r => r.mentions_brand).length;
+  const citations = responses.filter(r => r.cites_domain).length;
+
+  // Calculate average sentiment (only from non-null values)
+  const sentimentValues = responses
+    .map(r => r.sentiment_score)
+    .filter((s): s is number => s !== null);
+  const sentimentAvg = sentimentValues.length > 0
+    ? sentimentValues.reduce((sum, s) => sum + s, 0) / sentimentValues.length
+    : 0.5; // Default to neutral
+
+  // Calculate visibility score (weighted: mentions 60%, citations 40%)
+  const mentionRate = total > 0 ? (mentions / total) * 100 : 0;
+  const citationRate = total > 0 ? (citations / total) * 100 : 0;
+  const visibilityScore = (mentionRate * MENTION_WEIGHT) + (citationRate * CITATION_WEIGHT);
+
+  const mentionInterval = proportionInterval(mentions, total);
+  const visibilityInterval = meanInterval(responses.map(responseVisibility));
+
+  const { avgPosition, top3Rate } = computeRankMetrics(responses.map(r => r.brand_rank));
+
+  return {
+    total,
+    mentions,
+    citations,
+    mentionRate,
+    citationRate,
+    visibilityScore,
+    sentimentAvg,
+    avgPosition,
+    top3Rate,
+    mentionRateLow: mentionInterval.low,
+    mentionRateHigh: mentionInterval.high,
+    visibilityMargin: visibilityInterval.margin,
+  };
+}
+
+/**
+ * visibility_metrics columns for a set of metrics
+ */
+export function toMetricsRow(metrics: ResponseMetrics) {
+  return {
+    visibility_score: Math.round(metrics.visibilityScore * 10) / 10,
+    mention_count: metrics.mentions,
+    citation_count: metrics.citations,
+    sentiment_avg: Math.round(metrics.sentimentAvg * 100) / 100,
+    avg_position: metrics.avgPosition,
+    top3_rate: metrics.top3Rate,
+    response_count: metrics.total,
+    mention_rate_low: Math.round(metrics.mentionRateLow * 10) / 10,
+    mention_rate_high: Math.round(metrics.mentionRateHigh * 10) / 10,
+    visibility_margin: Math.round(metrics.visibilityMargin * 10) / 10,
+  };
+}
+
+/**
+ * Update visibility_metrics after collection. Pass the prompts that were
+ * just collected to also refresh their per-prompt rows.
+ */
+export async function updateVisibilityMetrics(projectId: string, collectedPromptIds: string[] = []): Promise<void> {
+  try {
+    // Get all responses for this project
+    const { data: prompts } = await supabaseAdmin
+      .from('prompts')
+      .select('id, monitors!inner(project_id)')
+      .eq('monitors.project_id', projectId);
+
+    if (!prompts || prompts.length === 0) return;
+
+    const promptIds = (prompts as { id: string }[]).map(p => p.id);
+
+    // Get response stats
+    const responses: MetricsResponseRow[] = [];
+    for (let i = 0; i < promptIds.length; i += ID_CHUNK_SIZE) {
+      const { data, error: fetchError } = await selectAllRows<MetricsResponseRow>((from, to) => supabaseAdmin
+        .from('responses')
+        .select(RESPONSE_METRICS_FIELDS)
+        .in('prompt_id', promptIds.slice(i, i + ID_CHUNK_SIZE))
+        .order('id')
+        .range(from, to));
+
+      // A partial read would store a wrong score, so skip the update
+      if (fetchError) {
+        console.error('Error fetching responses for metrics:', fetchError);
+        return;
+      }
+
+      responses.push(...data);
+    }
+
+    if (responses.length === 0) return;
+
+    const metrics = computeResponseMetrics(responses);
+    const today = new Date().toISOString().split('T')[0];
+
+    // Upsert to visibility_metrics
+    const { error } = await supabaseAdmin
+      .from('visibility_metrics')
+      .upsert({
+        project_id: projectId,
+        prompt_id: null, // Aggregate metrics for the whole project
+        ai_model: null,
+        date: today,
+        ...toMetricsRow(metrics),
+      } as never, { onConflict: 'project_id,prompt_id,ai_model,date' });
+
+    if (error) {
+      console.error('Error updating visibility_metrics:', error);
+    } else {
+      console.log(`Updated visibility_metrics for project ${projectId}: score=${metrics.visibilityScore.toFixed(1)}, mentions=${metrics.mentions}, citations=${metrics.citations}`);
+    }
+
+    const ownPromptIds = collectedPromptIds.filter(id => promptIds.includes(id));
+    if (ownPromptIds.length > 0) {
+      await updatePromptMetrics(projectId, ownPromptIds);
+    }
+  } catch (error) {
+    console.error('Error in updateVisibilityMetrics:', error);
+  }
+}
+
+/**
+ * Write today's per-prompt rows (all models and per model) from the
+ * responses collected today, and keep prompts.visibility_pct current
+ */
+export async function updatePromptMetrics(projectId: string, promptIds: string[]): Promise<void> {
+  const today = new Date().toISOString().split('T')[0];
+
+  const { data: responses, error: fetchError } = await selectAllRows<MetricsResponseRow>((from, to) => supabaseAdmin
+    .from('responses')
+    .select(RESPONSE_METRICS_FIELDS)
+    .in('prompt_id', promptIds)
+    .gte('collected_at', `${today}T00:00:00Z`)
+    .order('id')
+    .range(from, to));
+
+  if (fetchError) {
+    console.error('Error fetching prompt responses for metrics:', fetchError);
+    return;
+  }
+
+  const rows: Record<string, unknown>[] = [];
+  const visibilityByPrompt = new Map<string, number>();
+
+  for (const promptId of promptIds) {
+    const promptResponses = responses.filter(r => r.prompt_id === promptId);
+    if (promptResponses.length === 0) continue;
+
+    const overall = toMetricsRow(computeResponseMetrics(promptResponses));
+    visibilityByPrompt.set(promptId, overall.visibility_score);
+    rows.push({ project_id: projectId, prompt_id: promptId, ai_model: null, date: today, ...overall });
+
+    const models = [...new Set(promptResponses.map(r => r.ai_model))];
+    for (const model of models) {
+      const modelMetrics = computeResponseMetrics(promptResponses.filter(r => r.ai_model === model));
+      rows.push({ project_id: projectId, prompt_id: promptId, ai_model: model, date: today, ...toMetricsRow(modelMetrics) });
+    }
+  }
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabaseAdmin
+    .from('visibility_metrics')
+    .upsert(rows as never, { onConflict: 'project_id,prompt_id,ai_model,date' });
+
+  if (error) {
+    console.error('Error updating prompt visibility_metrics:', error);
+    return;
+  }
+
+  for (const [promptId, visibility] of visibilityByPrompt) {
+    const { error: promptError } = await supabaseAdmin
+      .from('prompts')
+      .update({ visibility_pct: visibility } as never)
+      .eq('id', promptId);
+
+    if (promptError) {
+      console.error(`Error updating visibility_pct for prompt ${promptId}:`, promptError);
+    }
+  }
+
+  console.log(`Updated visibility_metrics for ${visibilityByPrompt.size} prompts in project ${projectId}`);
+}
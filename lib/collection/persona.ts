@@ -0,0 +1,67 @@
+/**
+ * Persona Context
+ *
+ * Builds the system context that conditions an AI engine to answer as it
+ * would for a specific persona, so persona-tagged responses can be compared.
+ */
+
+import { supabaseAdmin } from '@/lib/supabase-server';
+import type { ProviderQueryOptions } from '@/lib/ai-providers';
+import type { Persona } from '@/lib/types';
+
+/**
+ * Load personas by id, keyed by id
+ */
+export async function loadPersonas(personaIds: string[]): Promise<Map<string, Persona>> {
+  const personas = new Map<string, Persona>();
+  if (personaIds.length === 0) return personas;
+
+  const { data, error } = await supabaseAdmin
+    .from('personas')
+    .select('*')
+    .in('id', personaIds);
+
+  if (error) {
+    console.error('Personas fetch error:', error);
+    throw new Error('Failed to fetch personas');
+  }
+
+  for (const persona of (data || []) as Persona[]) {
+    personas.set(persona.id, persona);
+  }
+
+  return personas;
+}
+
+/**
+ * Describe the person asking so the engine tailors its answer to them
+ */
+export function buildPersonaContext(persona: Persona): string {
+  const details = [`The person asking is "${persona.name}".`];
+
+  if (persona.description) {
+    details.push(persona.description.trim().replace(/\.?$/, '.'));
+  }
+  if (persona.age_range) {
+    details.push(`Age range: ${persona.age_range}.`);
+  }
+  if (persona.traits?.length) {
+    details.push(`Traits: ${persona.traits.join(', ')}.`);
+  }
+
+  details.push('Tailor your answer and any recommendations to this person.');
+
+  return details.join(' ');
+}
+
+/**
+ * Add a persona's context to a request's query options
+ */
+export function withPersonaContext(options: ProviderQueryOptions, persona?: Persona): ProviderQueryOptions {
+  if (!persona) return options;
+
+  return {
+    ...options,
+    systemContext: [options.systemContext, buildPersonaContext(persona)].filter(Boolean).join('\n\n'),
+  };
+}
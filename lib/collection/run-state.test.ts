@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { CollectionRunItemStatus, CollectionRunStatus } from '@/lib/types';
+import { STALE_RUN_MS, canClaimRun, isStaleRun, summarizeRunItems } from './run-state';
+
+const NOW = new Date('2026-01-01T12:00:00Z').getTime();
+
+function run(status: CollectionRunStatus, startedAgoMs: number, claimedAgoMs: number | null = null) {
+  return {
+    status,
+    started_at: new Date(NOW - startedAgoMs).toISOString(),
+    claimed_at: claimedAgoMs === null ? null : new Date(NOW - claimedAgoMs).toISOString(),
+  };
+}
+
+function item(promptId: string, status: CollectionRunItemStatus, citations = 0) {
+  return { prompt_id: promptId, status, citations_count: citations };
+}
+
+describe('isStaleRun', () => {
+  it('is stale once a running run has gone unclaimed past the limit', () => {
+    expect(isStaleRun(run('running', STALE_RUN_MS + 1000), NOW)).toBe(true);
+    expect(isStaleRun(run('running', STALE_RUN_MS - 1000), NOW)).toBe(false);
+  });
+
+  it('measures from the latest claim, not the start', () => {
+    expect(isStaleRun(run('running', 60 * 60 * 1000, 60 * 1000), NOW)).toBe(false);
+    expect(isStaleRun(run('running', 60 * 60 * 1000, STALE_RUN_MS + 1000), NOW)).toBe(true);
+  });
+
+  it('only applies to running runs', () => {
+    for (const status of ['completed', 'failed', 'interrupted'] as const) {
+      expect(isStaleRun(run(status, 60 * 60 * 1000), NOW)).toBe(false);
+    }
+  });
+});
+
+describe('canClaimRun', () => {
+  it('lets finished and interrupted runs be claimed', () => {
+    for (const status of ['completed', 'failed', 'interrupted'] as const) {
+      expect(canClaimRun(run(status, 1000), NOW)).toBe(true);
+    }
+  });
+
+  it('leaves a running run to its request until it is stale', () => {
+    expect(canClaimRun(run('running', 1000, 1000), NOW)).toBe(false);
+    expect(canClaimRun(run('running', STALE_RUN_MS + 1000), NOW)).toBe(true);
+  });
+});
+
+describe('summarizeRunItems', () => {
+  it('counts a prompt as processed once none of its items are pending or running', () => {
+    const { status, results } = summarizeRunItems([
+      item('a', 'succeeded', 2),
+      item('a', 'failed'),
+      item('b', 'succeeded', 1),
+      item('b', 'pending'),
+      item('c', 'running'),
+    ], 'interrupted');
+
+    expect(status).toBe('interrupted');
+    expect(results).toEqual({
+      total: 3,
+      processed: 1,
+      successful: 2,
+      failed: 1,
+      responsessSaved: 2,
+      citationsSaved: 3,
+    });
+  });
+
+  it('completes the run once every prompt is processed, failures included', () => {
+    const { status, results } = summarizeRunItems([
+      item('a', 'succeeded'),
+      item('a', 'failed'),
+      item('b', 'failed'),
+    ], 'running');
+
+    expect(status).toBe('completed');
+    expect(results.processed).toBe(2);
+    expect(results.failed).toBe(2);
+  });
+
+  it('completes an empty run', () => {
+    expect(summarizeRunItems([], 'running')).toEqual({
+      status: 'completed',
+      results: { total: 0, processed: 0, successful: 0, failed: 0, responsessSaved: 0, citationsSaved: 0 },
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Collection run state
+ *
+ * Pure rules for a run's lifecycle, shared by the collection code and the
+ * run history pages: how a run's counters and status follow from its
+ * items, and when a run left 'running' no longer has a request behind it.
+ */
+
+import type { CollectionRun, CollectionRunItem, CollectionRunStatus } from '@/lib/types';
+
+// Collection requests are killed after their 300s maxDuration, so a run
+// still 'running' this long after it was claimed has nobody processing it
+export const STALE_RUN_MS = 10 * 60 * 1000;
+
+export interface BulkCollectionResults {
+  total: number;
+  processed: number;
+  successful: number;
+  failed: number;
+  responsessSaved: number;
+  citationsSaved: number;
+}
+
+/**
+ * Whether a 'running' run was abandoned, e.g. its request hit the platform
+ * time limit before it could mark the run interrupted
+ */
+export function isStaleRun(run: Pick<CollectionRun, 'status' | 'started_at' | 'claimed_at'>, now = Date.now()): boolean {
+  return run.status === 'running' && now - new Date(run.claimed_at || run.started_at).getTime() > STALE_RUN_MS;
+}
+
+/**
+ * Whether a request may take the run over: anything but a run another
+ * request is still processing
+ */
+export function canClaimRun(run: Pick<CollectionRun, 'status' | 'started_at' | 'claimed_at'>, now = Date.now()): boolean {
+  return run.status !== 'running' || isStaleRun(run, now);
+}
+
+export type RunItemTotalsRow = Pick<CollectionRunItem, 'prompt_id' | 'status' | 'citations_count'>;
+
+/**
+ * Run counters and status from its items: a prompt is processed once none
+ * of its items are pending or running, and the run is completed once every
+ * prompt is
+ */
+export function summarizeRunItems(
+  items: RunItemTotalsRow[],
+  unfinishedStatus: CollectionRunStatus
+): { status: CollectionRunStatus; results: BulkCollectionResults } {
+  const promptIds = new Set(items.map(i => i.prompt_id));
+  const unfinishedPrompts = new Set(
+    items.filter(i => i.status === 'pending' || i.status === 'running').map(i => i.prompt_id)
+  );
+  const succeeded = items.filter(i => i.status === 'succeeded');
+  const failed = items.filter(i => i.status === 'failed').length;
+
+  const results: BulkCollectionResults = {
+    total: promptIds.size,
+    processed: promptIds.size - unfinishedPrompts.size,
+    successful: succeeded.length,
+    failed,
+    responsessSaved: succeeded.length,
+    citationsSaved: succeeded.reduce((sum, i) => sum + (i.citations_count || 0), 0),
+  };
+
+  return {
+    status: unfinishedPrompts.size === 0 ? 'completed' : unfinishedStatus,
+    results,
+  };
+}
@@ -0,0 +1,307 @@
+/**
+ * Collection run records
+ *
+ * Every bulk collection (manual or scheduled) is recorded in collection_runs,
+ * with one collection_run_items row per prompt x model (x persona, x sample) attempt.
+ * Items carry their own status, error and latency so runs can be resumed and
+ * failed responses retried.
+ */
+
+import { selectAllRows, supabaseAdmin } from '@/lib/supabase-server';
+import type {
+  AIModel,
+  CollectionRun,
+  CollectionRunItem,
+  CollectionRunItemStatus,
+  CollectionRunStatus,
+  CollectionRunTrigger,
+} from '@/lib/types';
+import { canClaimRun, isStaleRun, summarizeRunItems, type BulkCollectionResults, type RunItemTotalsRow } from './run-state';
+
+export type { BulkCollectionResults } from './run-state';
+
+export interface CreateRunOptions {
+  projectId: string;
+  monitorId?: string | null;
+  trigger: CollectionRunTrigger;
+  items: { promptId: string; model: AIModel; personaId: string | null; sampleIndex: number }[];
+  promptsTotal: number;
+}
+
+/**
+ * Create a collection run in the running state along with its pending items
+ */
+export async function insertCollectionRun(options: CreateRunOptions): Promise<CollectionRun> {
+  const { data, error } = await supabaseAdmin
+    .from('collection_runs')
+    .insert({
+      project_id: options.projectId,
+      monitor_id: options.monitorId || null,
+      trigger: options.trigger,
+      status: 'running',
+      prompts_total: options.promptsTotal,
+      items_total: options.items.length,
+    } as never)
+    .select()
+    .single();
+
+  if (error || !data) {
+    console.error('[CollectionRun] Failed to create run:', error);
+    throw new Error('Failed to create collection run');
+  }
+
+  const run = data as CollectionRun;
+
+  if (options.items.length > 0) {
+    const { error: itemsError } = await supabaseAdmin
+      .from('collection_run_items')
+      .insert(options.items.map(item => ({
+        run_id: run.id,
+        prompt_id: item.promptId,
+        ai_model: item.model,
+        persona_id: item.personaId,
+        sample_index: item.sampleIndex,
+        status: 'pending',
+      })) as never);
+
+    if (itemsError) {
+      console.error('[CollectionRun] Failed to create run items:', itemsError);
+      await markRunFailed(run.id, 'Failed to create run items');
+      throw new Error('Failed to create collection run items');
+    }
+  }
+
+  return run;
+}
+
+/**
+ * Get a single run by id
+ */
+export async function getCollectionRun(runId: string): Promise<CollectionRun | null> {
+  const { data, error } = await supabaseAdmin
+    .from('collection_runs')
+    .select('*')
+    .eq('id', runId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return data as CollectionRun;
+}
+
+/**
+ * Get a monitor's latest scheduled run if it was left unfinished: interrupted
+ * at its deadline, or still 'running' with nobody processing it.
+ * Returns null when the latest scheduled run needs nothing more.
+ */
+export async function getUnfinishedScheduledRun(monitorId: string): Promise<CollectionRun | null> {
+  const { data, error } = await supabaseAdmin
+    .from('collection_runs')
+    .select('*')
+    .eq('monitor_id', monitorId)
+    .eq('trigger', 'schedule')
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[CollectionRun] Failed to fetch latest scheduled run:', error);
+    throw new Error('Failed to fetch latest scheduled run');
+  }
+
+  const run = data as CollectionRun | null;
+  if (!run) return null;
+
+  return run.status === 'interrupted' || isStaleRun(run) ? run : null;
+}
+
+/**
+ * Get the items of a run still waiting to be collected
+ */
+export async function getPendingItems(runId: string): Promise<CollectionRunItem[]> {
+  const { data, error } = await selectAllRows<CollectionRunItem>((from, to) => supabaseAdmin
+    .from('collection_run_items')
+    .select('*')
+    .eq('run_id', runId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+    .order('id')
+    .range(from, to));
+
+  if (error) {
+    console.error('[CollectionRun] Failed to fetch pending items:', error);
+    throw new Error('Failed to fetch pending run items');
+  }
+
+  return data;
+}
+
+/**
+ * Ids of the responses a run saved since the given time, i.e. during one
+ * processing pass
+ */
+export async function getRunResponseIds(runId: string, since: string): Promise<string[]> {
+  const { data, error } = await selectAllRows<{ response_id: string }>((from, to) => supabaseAdmin
+    .from('collection_run_items')
+    .select('response_id')
+    .eq('run_id', runId)
+    .eq('status', 'succeeded')
+    .gte('completed_at', since)
+    .not('response_id', 'is', null)
+    .order('id')
+    .range(from, to));
+
+  if (error) {
+    console.error('[CollectionRun] Failed to fetch run responses:', error);
+    return [];
+  }
+
+  return data.map(item => item.response_id);
+}
+
+/**
+ * Move items in one status back to pending (used by resume and retry)
+ */
+export async function resetItems(runId: string, fromStatus: CollectionRunItemStatus): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('collection_run_items')
+    .update({ status: 'pending', error: null } as never)
+    .eq('run_id', runId)
+    .eq('status', fromStatus)
+    .select('id');
+
+  if (error) {
+    console.error(`[CollectionRun] Failed to reset ${fromStatus} items:`, error);
+    throw new Error('Failed to reset run items');
+  }
+
+  return data?.length || 0;
+}
+
+/**
+ * Record the outcome of a single item
+ */
+export async function updateRunItem(
+  itemId: string,
+  updates: Partial<Omit<CollectionRunItem, 'id' | 'run_id' | 'prompt_id' | 'ai_model'>>
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('collection_run_items')
+    .update(updates as never)
+    .eq('id', itemId);
+
+  if (error) {
+    console.error(`[CollectionRun] Failed to update item ${itemId}:`, error);
+  }
+}
+
+/**
+ * Set the status of a run
+ */
+export async function setRunStatus(runId: string, status: CollectionRunStatus): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('collection_runs')
+    .update({
+      status,
+      error: null,
+      completed_at: status === 'running' ? null : new Date().toISOString(),
+    } as never)
+    .eq('id', runId);
+
+  if (error) {
+    console.error('[CollectionRun] Failed to update run status:', error);
+  }
+}
+
+/**
+ * Take a run over for processing and move it to running. The update only
+ * matches while the run is as it was read, so of two requests resuming the
+ * same run only one wins. Returns false when another request has it.
+ */
+export async function claimRun(run: CollectionRun): Promise<boolean> {
+  if (!canClaimRun(run)) return false;
+
+  let query = supabaseAdmin
+    .from('collection_runs')
+    .update({
+      status: 'running',
+      error: null,
+      completed_at: null,
+      claimed_at: new Date().toISOString(),
+    } as never)
+    .eq('id', run.id)
+    .eq('status', run.status);
+
+  query = run.claimed_at ? query.eq('claimed_at', run.claimed_at) : query.is('claimed_at', null);
+
+  const { data, error } = await query.select('id');
+
+  if (error) {
+    console.error('[CollectionRun] Failed to claim run:', error);
+    throw new Error('Failed to claim collection run');
+  }
+
+  return (data?.length || 0) > 0;
+}
+
+/**
+ * Mark a run as failed
+ */
+export async function markRunFailed(runId: string, message: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('collection_runs')
+    .update({
+      status: 'failed',
+      error: message,
+      completed_at: new Date().toISOString(),
+    } as never)
+    .eq('id', runId);
+
+  if (error) {
+    console.error('[CollectionRun] Failed to mark run as failed:', error);
+  }
+}
+
+/**
+ * Recompute run counters from its items and settle the run status.
+ * A run with no pending or running items is completed; otherwise it keeps
+ * `unfinishedStatus` (interrupted when a time budget was hit).
+ */
+export async function refreshRunTotals(
+  runId: string,
+  unfinishedStatus: CollectionRunStatus = 'running'
+): Promise<{ status: CollectionRunStatus; results: BulkCollectionResults }> {
+  const { data: items, error } = await selectAllRows<RunItemTotalsRow>((from, to) => supabaseAdmin
+    .from('collection_run_items')
+    .select('prompt_id, status, citations_count')
+    .eq('run_id', runId)
+    .order('id')
+    .range(from, to));
+
+  if (error) {
+    console.error('[CollectionRun] Failed to fetch run items:', error);
+    throw new Error('Failed to fetch run items');
+  }
+
+  const { status, results } = summarizeRunItems(items, unfinishedStatus);
+
+  const { error: updateError } = await supabaseAdmin
+    .from('collection_runs')
+    .update({
+      status,
+      prompts_processed: results.processed,
+      responses_saved: results.responsessSaved,
+      citations_saved: results.citationsSaved,
+      failed_count: results.failed,
+      completed_at: status === 'running' ? null : new Date().toISOString(),
+    } as never)
+    .eq('id', runId);
+
+  if (updateError) {
+    console.error('[CollectionRun] Failed to update run totals:', updateError);
+  }
+
+  return { status, results };
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeNextRunAt,
+  getNextCronDate,
+  getScheduleExpression,
+  isValidCronExpression,
+  parseCronExpression,
+} from './schedule';
+
+describe('parseCronExpression', () => {
+  it('expands wildcards, lists, ranges and steps', () => {
+    const cron = parseCronExpression('*/15 0-6/2 1,15 * 1-5');
+
+    expect([...cron.minutes.values]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours.values]).toEqual([0, 2, 4, 6]);
+    expect([...cron.daysOfMonth.values]).toEqual([1, 15]);
+    expect(cron.months.values.size).toBe(12);
+    expect(cron.months.wildcard).toBe(true);
+    expect([...cron.daysOfWeek.values]).toEqual([1, 2, 3, 4, 5]);
+    expect(cron.daysOfWeek.wildcard).toBe(false);
+  });
+
+  it('treats a start with a step as running to the end of the range', () => {
+    expect([...parseCronExpression('5/20 * * * *').minutes.values]).toEqual([5, 25, 45]);
+  });
+
+  it('normalizes Sunday written as 7 to 0', () => {
+    expect([...parseCronExpression('0 0 * * 7').daysOfWeek.values]).toEqual([0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCronExpression('* * * *')).toThrow('5 fields');
+    expect(() => parseCronExpression('60 * * * *')).toThrow('minute');
+    expect(() => parseCronExpression('* 24 * * *')).toThrow('hour');
+    expect(() => parseCronExpression('* * 0 * *')).toThrow('day of month');
+    expect(() => parseCronExpression('* * * 5-2 *')).toThrow('month');
+    expect(() => parseCronExpression('*/0 * * * *')).toThrow('step');
+    expect(() => parseCronExpression('a * * * *')).toThrow('minute');
+  });
+});
+
+describe('getNextCronDate', () => {
+  it('finds the next matching minute strictly after the start', () => {
+    expect(getNextCronDate('0 6 * * *', new Date('2026-01-01T05:59:30Z'))?.toISOString())
+      .toBe('2026-01-01T06:00:00.000Z');
+    expect(getNextCronDate('0 6 * * *', new Date('2026-01-01T06:00:00Z'))?.toISOString())
+      .toBe('2026-01-02T06:00:00.000Z');
+  });
+
+  it('skips to the next matching weekday', () => {
+    // 2026-01-01 is a Thursday
+    expect(getNextCronDate('0 6 * * 1', new Date('2026-01-01T12:00:00Z'))?.toISOString())
+      .toBe('2026-01-05T06:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 13th, or any Friday: Friday the 6th comes first
+    expect(getNextCronDate('0 0 13 * 5', new Date('2026-02-01T00:00:00Z'))?.toISOString())
+      .toBe('2026-02-06T00:00:00.000Z');
+  });
+
+  it('carries over month and year boundaries', () => {
+    expect(getNextCronDate('30 23 31 12 *', new Date('2026-06-01T00:00:00Z'))?.toISOString())
+      .toBe('2026-12-31T23:30:00.000Z');
+    expect(getNextCronDate('0 0 29 2 *', new Date('2026-03-01T00:00:00Z'))?.toISOString())
+      .toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('returns null for expressions that never fire', () => {
+    expect(getNextCronDate('0 0 30 2 *', new Date('2026-01-01T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('isValidCronExpression', () => {
+  it('accepts expressions that fire and rejects ones that do not', () => {
+    expect(isValidCronExpression('0 */4 * * *')).toBe(true);
+    expect(isValidCronExpression('0 0 30 2 *')).toBe(false);
+    expect(isValidCronExpression('every day')).toBe(false);
+  });
+});
+
+describe('schedules', () => {
+  const from = new Date('2026-01-01T12:00:00Z');
+
+  it('resolves presets and custom expressions', () => {
+    expect(getScheduleExpression({ schedule_frequency: 'daily', schedule_cron: '* * * * *' })).toBe('0 6 * * *');
+    expect(getScheduleExpression({ schedule_frequency: 'weekly', schedule_cron: null })).toBe('0 6 * * 1');
+    expect(getScheduleExpression({ schedule_frequency: 'cron', schedule_cron: ' 15 * * * * ' })).toBe('15 * * * *');
+    expect(getScheduleExpression({ schedule_frequency: 'cron', schedule_cron: null })).toBeNull();
+    expect(getScheduleExpression({ schedule_frequency: 'manual', schedule_cron: '0 6 * * *' })).toBeNull();
+  });
+
+  it('computes the next run, or null when there is none', () => {
+    expect(computeNextRunAt({ schedule_frequency: 'daily', schedule_cron: null }, from)?.toISOString())
+      .toBe('2026-01-02T06:00:00.000Z');
+    expect(computeNextRunAt({ schedule_frequency: 'cron', schedule_cron: '15 * * * *' }, from)?.toISOString())
+      .toBe('2026-01-01T12:15:00.000Z');
+    expect(computeNextRunAt({ schedule_frequency: 'cron', schedule_cron: '61 * * * *' }, from)).toBeNull();
+    expect(computeNextRunAt({ schedule_frequency: 'manual', schedule_cron: null }, from)).toBeNull();
+  });
+});
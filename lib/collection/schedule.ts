@@ -0,0 +1,196 @@
+/**
+ * Monitor collection schedules
+ *
+ * Schedules are stored on the monitor as a frequency plus an optional
+ * 5-field cron expression. Daily and weekly are presets for fixed cron
+ * expressions so every schedule is evaluated the same way. All times are UTC.
+ */
+
+import type { Monitor, ScheduleFrequency } from '@/lib/types';
+
+const SCHEDULE_PRESETS: Record<Exclude<ScheduleFrequency, 'manual' | 'cron'>, string> = {
+  daily: '0 6 * * *',  // Every day at 06:00 UTC
+  weekly: '0 6 * * 1', // Every Monday at 06:00 UTC
+};
+
+// Upper bound on search steps so an impossible expression (e.g. Feb 31) can't loop forever
+const MAX_SEARCH_STEPS = 5000;
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+interface ParsedCron {
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+}
+
+const FIELD_RANGES: { name: string; min: number; max: number }[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }, // 0 and 7 are both Sunday
+];
+
+/**
+ * Parse a single cron field supporting `*`, lists, ranges and steps
+ */
+function parseField(field: string, range: { name: string; min: number; max: number }): CronField {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart !== undefined ? Number(stepPart) : 1;
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in ${range.name} field`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      start = range.min;
+      end = range.max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-').map(Number);
+      start = from;
+      end = to;
+    } else {
+      start = Number(rangePart);
+      // "5/15" means starting at 5, every 15
+      end = stepPart !== undefined ? range.max : start;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < range.min || end > range.max || start > end) {
+      throw new Error(`Invalid value "${part}" in ${range.name} field`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard: field === '*' };
+}
+
+/**
+ * Parse a 5-field cron expression (minute hour day-of-month month day-of-week)
+ */
+export function parseCronExpression(expression: string): ParsedCron {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELD_RANGES[i])
+  );
+
+  // Normalize Sunday to 0
+  if (daysOfWeek.values.has(7)) {
+    daysOfWeek.values.delete(7);
+    daysOfWeek.values.add(0);
+  }
+
+  return { minutes, hours, daysOfMonth, months, daysOfWeek };
+}
+
+/**
+ * Check whether a cron expression is valid and ever fires; "0 0 30 2 *"
+ * (Feb 30) parses but never runs
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    return getNextCronDate(expression) !== null;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+  const domMatch = cron.daysOfMonth.values.has(date.getUTCDate());
+  const dowMatch = cron.daysOfWeek.values.has(date.getUTCDay());
+
+  // Standard cron semantics: when both day fields are restricted, either may match
+  if (!cron.daysOfMonth.wildcard && !cron.daysOfWeek.wildcard) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Find the next time after `from` that matches the cron expression
+ */
+export function getNextCronDate(expression: string, from: Date = new Date()): Date | null {
+  const cron = parseCronExpression(expression);
+
+  // Start at the next whole minute
+  const date = new Date(from.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!cron.months.values.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.values.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.values.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the cron expression a monitor's schedule runs on
+ */
+export function getScheduleExpression(
+  monitor: Pick<Monitor, 'schedule_frequency' | 'schedule_cron'>
+): string | null {
+  switch (monitor.schedule_frequency) {
+    case 'daily':
+    case 'weekly':
+      return SCHEDULE_PRESETS[monitor.schedule_frequency];
+    case 'cron':
+      return monitor.schedule_cron?.trim() || null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Compute when a monitor should next be collected.
+ * Returns null for manual monitors or invalid cron expressions.
+ */
+export function computeNextRunAt(
+  monitor: Pick<Monitor, 'schedule_frequency' | 'schedule_cron'>,
+  from: Date = new Date()
+): Date | null {
+  const expression = getScheduleExpression(monitor);
+  if (!expression) return null;
+
+  try {
+    return getNextCronDate(expression, from);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Scheduled Collection
+ *
+ * Finds active monitors whose next_run_at has passed, claims each one by
+ * advancing next_run_at (so overlapping scheduler invocations don't collect
+ * the same monitor twice), then runs the shared collection path. A monitor
+ * whose last scheduled run was left unfinished resumes that run instead of
+ * starting a new one, so a schedule that never fits in one invocation still
+ * completes its prompts. A null
+ * next_run_at only means due for monitors that have never run; once claimed,
+ * null means the schedule has no future run and the monitor isn't picked up
+ * again until its schedule is saved.
+ */
+
+import { supabaseAdmin } from '@/lib/supabase-server';
+import type { CollectionRunStatus, Monitor } from '@/lib/types';
+import { resumeCollectionRun, runCollection } from './collect';
+import { getUnfinishedScheduledRun } from './runs';
+import { computeNextRunAt } from './schedule';
+
+// Cap per invocation so one scheduler call stays within the function time limit
+const MAX_MONITORS_PER_TICK = 5;
+
+export interface ScheduledRunSummary {
+  monitorId: string;
+  monitorName: string;
+  runId: string | null;
+  status: CollectionRunStatus | 'skipped';
+  responsesSaved: number;
+  nextRunAt: string | null;
+  error?: string;
+}
+
+type ScheduledMonitor = Pick<
+  Monitor,
+  'id' | 'project_id' | 'name' | 'schedule_frequency' | 'schedule_cron' | 'next_run_at'
+>;
+
+/**
+ * Get active, scheduled monitors that are due to run
+ */
+export async function getDueMonitors(now: Date = new Date()): Promise<ScheduledMonitor[]> {
+  const { data, error } = await supabaseAdmin
+    .from('monitors')
+    .select('id, project_id, name, schedule_frequency, schedule_cron, next_run_at')
+    .eq('is_active', true)
+    .neq('schedule_frequency', 'manual')
+    .or(`next_run_at.lte.${now.toISOString()},and(next_run_at.is.null,last_run_at.is.null)`)
+    .order('next_run_at', { ascending: true, nullsFirst: true })
+    .limit(MAX_MONITORS_PER_TICK);
+
+  if (error) {
+    console.error('[Scheduler] Failed to fetch due monitors:', error);
+    throw new Error('Failed to fetch due monitors');
+  }
+
+  return (data || []) as ScheduledMonitor[];
+}
+
+/**
+ * Advance next_run_at only if nobody else has already done so.
+ * Returns false when another scheduler invocation claimed the monitor first.
+ */
+async function claimMonitor(monitor: ScheduledMonitor, now: Date): Promise<{ claimed: boolean; nextRunAt: string | null }> {
+  const nextRunAt = computeNextRunAt(monitor, now)?.toISOString() || null;
+  if (!nextRunAt) {
+    console.warn(`[Scheduler] Monitor ${monitor.id} has no future run; it won't be scheduled again until its schedule is saved`);
+  }
+
+  let claimQuery = supabaseAdmin
+    .from('monitors')
+    .update({ next_run_at: nextRunAt, last_run_at: now.toISOString() } as never)
+    .eq('id', monitor.id);
+
+  claimQuery = monitor.next_run_at
+    ? claimQuery.eq('next_run_at', monitor.next_run_at)
+    : claimQuery.is('next_run_at', null);
+
+  const { data, error } = await claimQuery.select('id');
+
+  if (error) {
+    console.error(`[Scheduler] Failed to claim monitor ${monitor.id}:`, error);
+    return { claimed: false, nextRunAt };
+  }
+
+  return { claimed: !!data && data.length > 0, nextRunAt };
+}
+
+/**
+ * Collect responses for every monitor that is due.
+ * Runs that don't finish before `deadline` are left interrupted; the
+ * monitor's next due tick resumes them, and they can also be resumed from
+ * the monitor's run history.
+ */
+export async function runDueMonitors(
+  now: Date = new Date(),
+  deadline?: number
+): Promise<ScheduledRunSummary[]> {
+  const dueMonitors = await getDueMonitors(now);
+  const summaries: ScheduledRunSummary[] = [];
+
+  for (const monitor of dueMonitors) {
+    // Leave remaining monitors due for the next scheduler tick
+    if (deadline && Date.now() > deadline) break;
+
+    const { claimed, nextRunAt } = await claimMonitor(monitor, now);
+
+    if (!claimed) {
+      summaries.push({
+        monitorId: monitor.id,
+        monitorName: monitor.name,
+        runId: null,
+        status: 'skipped',
+        responsesSaved: 0,
+        nextRunAt,
+      });
+      continue;
+    }
+
+    console.log(`[Scheduler] Running scheduled collection for monitor "${monitor.name}"`);
+
+    try {
+      const unfinishedRun = await getUnfinishedScheduledRun(monitor.id);
+      const resumed = unfinishedRun && await resumeCollectionRun(unfinishedRun.id, { deadline });
+
+      if (resumed?.busy) {
+        summaries.push({
+          monitorId: monitor.id,
+          monitorName: monitor.name,
+          runId: resumed.run?.id || null,
+          status: 'skipped',
+          responsesSaved: 0,
+          nextRunAt,
+        });
+        continue;
+      }
+
+      const { run, status, results } = resumed || await runCollection({
+        monitorId: monitor.id,
+        trigger: 'schedule',
+        deadline,
+      });
+
+      summaries.push({
+        monitorId: monitor.id,
+        monitorName: monitor.name,
+        runId: run?.id || null,
+        status,
+        responsesSaved: results.responsessSaved,
+        nextRunAt,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Collection failed';
+      console.error(`[Scheduler] Monitor ${monitor.id} failed:`, error);
+
+      summaries.push({
+        monitorId: monitor.id,
+        monitorName: monitor.name,
+        runId: null,
+        status: 'failed',
+        responsesSaved: 0,
+        nextRunAt,
+        error: message,
+      });
+    }
+  }
+
+  return summaries;
+}
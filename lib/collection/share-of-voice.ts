@@ -0,0 +1,335 @@
+/**
+ * Share of Voice
+ *
+ * Summarizes today's responses per tracked entity (the brand and each
+ * competitor) into share_of_voice_metrics: mentions, domain citations,
+ * average rank and sentiment, broken down by model and monitor and by prompt
+ * tag and intent type. Re-running on the same day replaces that day's rows.
+ *
+ * When a competitor out-mentions the brand in a tag or intent segment where
+ * it didn't on the previous recorded day, a competitor alert is raised.
+ */
+
+import { selectAllRows, supabaseAdmin } from '@/lib/supabase-server';
+import type { ResponseAnalysis, ShareOfVoiceSegmentType } from '@/lib/types';
+
+interface ShareOfVoiceResponseRow {
+  ai_model: string;
+  mentions_brand: boolean;
+  brands_mentioned: string[] | null;
+  sentiment_score: number | null;
+  brand_rank: number | null;
+  competitor_ranks: Record<string, number> | null;
+  analysis: ResponseAnalysis | null;
+  prompts: { intent_type: string; tags: string[] | null; monitor_id: string };
+  citations: { cited_domain: string }[] | null;
+}
+
+interface TrackedEntity {
+  name: string;
+  isBrand: boolean;
+  domain: string | null;
+}
+
+interface Breakdown {
+  ai_model: string | null;
+  monitor_id: string | null;
+  segment_type: ShareOfVoiceSegmentType;
+  segment_value: string | null;
+}
+
+interface EntityTotals {
+  mentions: number;
+  citations: number;
+  rankSum: number;
+  rankCount: number;
+  sentimentSum: number;
+  sentimentCount: number;
+}
+
+interface BreakdownTotals {
+  breakdown: Breakdown;
+  responses: number;
+  entities: Map<string, EntityTotals>;
+}
+
+interface SegmentMentions {
+  brand: number;
+  competitors: Map<string, number>;
+}
+
+/**
+ * Recompute today's share-of-voice rows for a project and raise alerts for
+ * competitors that overtook the brand on a tag or intent type
+ */
+export async function updateShareOfVoice(projectId: string): Promise<void> {
+  try {
+    const entities = await loadTrackedEntities(projectId);
+    if (!entities) return;
+
+    const today = new Date().toISOString().split('T')[0];
+
+    const { data: responses, error } = await selectAllRows<ShareOfVoiceResponseRow>((from, to) => supabaseAdmin
+      .from('responses')
+      .select(`
+        ai_model, mentions_brand, brands_mentioned, sentiment_score, brand_rank, competitor_ranks, analysis,
+        prompts!inner(intent_type, tags, monitor_id, monitors!inner(project_id)),
+        citations(cited_domain)
+      `)
+      .eq('prompts.monitors.project_id', projectId)
+      .gte('collected_at', `${today}T00:00:00Z`)
+      .order('id')
+      .range(from, to));
+
+    if (error) {
+      console.error('[ShareOfVoice] Failed to fetch responses:', error);
+      return;
+    }
+
+    if (responses.length === 0) return;
+
+    const groups = new Map<string, BreakdownTotals>();
+
+    for (const response of responses) {
+      for (const breakdown of breakdownsFor(response)) {
+        const key = JSON.stringify(breakdown);
+        const group = groups.get(key) || { breakdown, responses: 0, entities: new Map() };
+        group.responses++;
+
+        for (const entity of entities) {
+          const totals = group.entities.get(entity.name) || {
+            mentions: 0, citations: 0, rankSum: 0, rankCount: 0, sentimentSum: 0, sentimentCount: 0,
+          };
+          addObservation(totals, response, entity);
+          group.entities.set(entity.name, totals);
+        }
+
+        groups.set(key, group);
+      }
+    }
+
+    const rows = [];
+    for (const group of groups.values()) {
+      const totalMentions = [...group.entities.values()].reduce((sum, t) => sum + t.mentions, 0);
+
+      for (const entity of entities) {
+        const totals = group.entities.get(entity.name)!;
+        rows.push({
+          entity_name: entity.name,
+          is_brand: entity.isBrand,
+          ...group.breakdown,
+          response_count: group.responses,
+          mention_count: totals.mentions,
+          citation_count: totals.citations,
+          share: totalMentions > 0 ? Math.round((totals.mentions / totalMentions) * 1000) / 10 : 0,
+          avg_rank: totals.rankCount > 0 ? Math.round((totals.rankSum / totals.rankCount) * 10) / 10 : null,
+          sentiment_avg: totals.sentimentCount > 0
+            ? Math.round((totals.sentimentSum / totals.sentimentCount) * 100) / 100
+            : null,
+        });
+      }
+    }
+
+    // Replace the whole day; an upsert would keep rows for breakdowns that
+    // no longer occur, e.g. a tag removed from every prompt since the last run
+    const { error: saveError } = await supabaseAdmin.rpc('replace_share_of_voice' as never, {
+      project: projectId,
+      day: today,
+      metric_rows: rows,
+    } as never);
+
+    if (saveError) {
+      console.error('[ShareOfVoice] Failed to save metrics:', saveError);
+      return;
+    }
+
+    console.log(`[ShareOfVoice] Saved ${rows.length} rows for project ${projectId}`);
+
+    await raiseOvertakeAlerts(projectId, today, groups, entities);
+  } catch (error) {
+    console.error('[ShareOfVoice] Update failed:', error);
+  }
+}
+
+async function loadTrackedEntities(projectId: string): Promise<TrackedEntity[] | null> {
+  const { data, error } = await supabaseAdmin
+    .from('projects')
+    .select('tracked_brand, website_url, competitors(name, website_url)')
+    .eq('id', projectId)
+    .single();
+
+  if (error || !data) return null;
+
+  const project = data as unknown as {
+    tracked_brand: string;
+    website_url: string | null;
+    competitors: { name: string; website_url: string | null }[] | null;
+  };
+
+  return [
+    { name: project.tracked_brand, isBrand: true, domain: toDomain(project.website_url) },
+    ...(project.competitors || []).map(c => ({ name: c.name, isBrand: false, domain: toDomain(c.website_url) })),
+  ];
+}
+
+// Every breakdown a response counts toward
+function breakdownsFor(response: ShareOfVoiceResponseRow): Breakdown[] {
+  const { monitor_id: monitorId, intent_type: intent, tags } = response.prompts;
+  const model = response.ai_model;
+
+  return [
+    { ai_model: null, monitor_id: null, segment_type: 'all', segment_value: null },
+    { ai_model: model, monitor_id: null, segment_type: 'all', segment_value: null },
+    { ai_model: null, monitor_id: monitorId, segment_type: 'all', segment_value: null },
+    { ai_model: model, monitor_id: monitorId, segment_type: 'all', segment_value: null },
+    { ai_model: null, monitor_id: null, segment_type: 'intent', segment_value: intent },
+    ...[...new Set(tags || [])].map(tag => (
+      { ai_model: null, monitor_id: null, segment_type: 'tag' as const, segment_value: tag }
+    )),
+  ];
+}
+
+function addObservation(totals: EntityTotals, response: ShareOfVoiceResponseRow, entity: TrackedEntity): void {
+  const analyzed = response.analysis?.entities?.find(
+    e => e.is_brand === entity.isBrand && e.name.toLowerCase() === entity.name.toLowerCase()
+  );
+
+  const mentioned = entity.isBrand
+    ? response.mentions_brand
+    : analyzed?.mentioned ?? (response.brands_mentioned || []).some(b => b.toLowerCase() === entity.name.toLowerCase());
+
+  if (mentioned) {
+    totals.mentions++;
+
+    const sentiment = analyzed?.sentiment ?? (entity.isBrand ? response.sentiment_score : null);
+    if (typeof sentiment === 'number') {
+      totals.sentimentSum += sentiment;
+      totals.sentimentCount++;
+    }
+  }
+
+  const rank = entity.isBrand ? response.brand_rank : response.competitor_ranks?.[entity.name];
+  if (typeof rank === 'number') {
+    totals.rankSum += rank;
+    totals.rankCount++;
+  }
+
+  const domain = entity.domain;
+  if (domain && (response.citations || []).some(c => c.cited_domain === domain || c.cited_domain.endsWith(`.${domain}`))) {
+    totals.citations++;
+  }
+}
+
+/**
+ * Alert when a competitor out-mentions the brand in a tag or intent segment
+ * where it didn't on the previous recorded day. Segments without history
+ * don't alert, so the first collection doesn't flood the project.
+ */
+async function raiseOvertakeAlerts(
+  projectId: string,
+  today: string,
+  groups: Map<string, BreakdownTotals>,
+  entities: TrackedEntity[]
+): Promise<void> {
+  const brandName = entities.find(e => e.isBrand)!.name;
+
+  const current = new Map<string, SegmentMentions>();
+  for (const { breakdown, entities: totals } of groups.values()) {
+    if (breakdown.segment_type === 'all') continue;
+    current.set(`${breakdown.segment_type}:${breakdown.segment_value}`, {
+      brand: totals.get(brandName)?.mentions || 0,
+      competitors: new Map(
+        entities.filter(e => !e.isBrand).map(e => [e.name, totals.get(e.name)?.mentions || 0])
+      ),
+    });
+  }
+  if (current.size === 0) return;
+
+  const lookback = new Date(today);
+  lookback.setDate(lookback.getDate() - 30);
+
+  const { data, error } = await selectAllRows<{
+    date: string;
+    entity_name: string;
+    is_brand: boolean;
+    segment_type: string;
+    segment_value: string;
+    mention_count: number;
+  }>((from, to) => supabaseAdmin
+    .from('share_of_voice_metrics')
+    .select('date, entity_name, is_brand, segment_type, segment_value, mention_count')
+    .eq('project_id', projectId)
+    .neq('segment_type', 'all')
+    .is('ai_model', null)
+    .is('monitor_id', null)
+    .lt('date', today)
+    .gte('date', lookback.toISOString().split('T')[0])
+    .order('date', { ascending: false })
+    .order('id')
+    .range(from, to));
+
+  if (error) {
+    console.error('[ShareOfVoice] Failed to fetch previous segments:', error);
+    return;
+  }
+
+  // Most recent earlier day per segment
+  const previous = new Map<string, { date: string; segment: SegmentMentions }>();
+  for (const row of data) {
+    const key = `${row.segment_type}:${row.segment_value}`;
+    const entry = previous.get(key) || { date: row.date, segment: { brand: 0, competitors: new Map() } };
+    if (entry.date !== row.date) continue;
+    if (row.is_brand) {
+      entry.segment.brand = row.mention_count;
+    } else {
+      entry.segment.competitors.set(row.entity_name, row.mention_count);
+    }
+    previous.set(key, entry);
+  }
+
+  const alerts = [];
+  for (const [key, segment] of current) {
+    const before = previous.get(key)?.segment;
+    if (!before) continue;
+
+    const [segmentType, ...rest] = key.split(':');
+    for (const [competitor, mentions] of segment.competitors) {
+      const wasAhead = (before.competitors.get(competitor) || 0) > before.brand;
+      if (mentions > segment.brand && !wasAhead) {
+        alerts.push({
+          project_id: projectId,
+          date: today,
+          competitor_name: competitor,
+          segment_type: segmentType,
+          segment_value: rest.join(':'),
+          brand_mentions: segment.brand,
+          competitor_mentions: mentions,
+        });
+      }
+    }
+  }
+
+  if (alerts.length === 0) return;
+
+  const { error: alertError } = await supabaseAdmin
+    .from('competitor_alerts')
+    .upsert(alerts as never, {
+      onConflict: 'project_id,date,competitor_name,segment_type,segment_value',
+      ignoreDuplicates: true,
+    });
+
+  if (alertError) {
+    console.error('[ShareOfVoice] Failed to save competitor alerts:', alertError);
+  } else {
+    console.log(`[ShareOfVoice] Raised ${alerts.length} competitor alerts for project ${projectId}`);
+  }
+}
+
+function toDomain(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url.startsWith('http') ? url : `https://${url}`).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
@@ -232,6 +232,8 @@ export interface PipelineRequest {
   targetWordCount?: number;
   contentType?: 'article' | 'blog-post' | 'guide' | 'how-to';
   additionalNotes?: string;
+  // Answer gap the content is for; its findings are added to the notes
+  answerGapId?: string;
 }
 
 export interface PipelineResponse {
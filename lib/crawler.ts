@@ -87,10 +87,12 @@ export interface AggregatedContent {
   navigationText: string;
 }
 
-const USER_AGENT = 'Luminari Brand Analyzer/1.0 (https://useluminari.com)';
+export const USER_AGENT = 'Luminari Brand Analyzer/1.0 (https://useluminari.com)';
 const MAX_PAGES = 200;
 const CONCURRENT_REQUESTS = 5;
 const REQUEST_DELAY = 300;
+// Page text kept per crawled page
+const MAX_CONTENT_LENGTH = 10000;
 
 // Priority order for crawling - expanded for law firms and service businesses
 const PAGE_PRIORITY: Record<string, number> = {
@@ -954,7 +956,9 @@ function prioritizeUrls(urls: string[], baseUrl: string): string[] {
     .map(item => item.url);
 }
 
-async function crawlPage(url: string, baseUrl: string): Promise<CrawledPage | null> {
+// Fetch and parse one page; links are kept only when on baseUrl's host.
+// Null when the page can't be fetched or isn't HTML.
+export async function crawlPage(url: string, baseUrl: string): Promise<CrawledPage | null> {
   try {
     const response = await fetch(url, {
       headers: { 'User-Agent': USER_AGENT },
@@ -966,62 +970,69 @@ async function crawlPage(url: string, baseUrl: string): Promise<CrawledPage | nu
     const contentType = response.headers.get('content-type') || '';
     if (!contentType.includes('text/html')) return null;
 
-    const html = await response.text();
-    const $ = cheerio.load(html);
+    return parsePage(await response.text(), url, baseUrl);
+  } catch (error) {
+    console.error(`Error crawling ${url}:`, error);
+    return null;
+  }
+}
 
-    const title = $('title').text().trim() || '';
-    const metaDescription = $('meta[name="description"]').attr('content') || undefined;
+/**
+ * Extract a page's title, headings, text and same-host links from its HTML.
+ * The text is cut to maxContentLength characters.
+ */
+export function parsePage(html: string, url: string, baseUrl: string, maxContentLength = MAX_CONTENT_LENGTH): CrawledPage {
+  const $ = cheerio.load(html);
 
-    const headings: string[] = [];
-    $('h1, h2, h3').each((_, el) => {
-      const text = $(el).text().trim();
-      if (text) headings.push(text);
-    });
+  const title = $('title').text().trim() || '';
+  const metaDescription = $('meta[name="description"]').attr('content') || undefined;
 
-    $('script, style, nav, footer, header, aside, iframe, noscript, [role="navigation"], [role="banner"], [role="contentinfo"]').remove();
+  const headings: string[] = [];
+  $('h1, h2, h3').each((_, el) => {
+    const text = $(el).text().trim();
+    if (text) headings.push(text);
+  });
 
-    const content = $('body').text()
-      .replace(/\s+/g, ' ')
-      .trim()
-      .slice(0, 10000) || '';
+  $('script, style, nav, footer, header, aside, iframe, noscript, [role="navigation"], [role="banner"], [role="contentinfo"]').remove();
 
-    const links: string[] = [];
-    $('a[href]').each((_, el) => {
-      const href = $(el).attr('href');
-      if (!href) return;
+  const content = $('body').text()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxContentLength) || '';
 
-      try {
-        const absoluteUrl = new URL(href, url).toString();
-        const urlObj = new URL(absoluteUrl);
-        const baseObj = new URL(baseUrl);
+  const links: string[] = [];
+  $('a[href]').each((_, el) => {
+    const href = $(el).attr('href');
+    if (!href) return;
 
-        if (urlObj.hostname === baseObj.hostname) {
-          const cleanUrl = `${urlObj.origin}${urlObj.pathname}`;
-          if (!links.includes(cleanUrl)) {
-            links.push(cleanUrl);
-          }
+    try {
+      const absoluteUrl = new URL(href, url).toString();
+      const urlObj = new URL(absoluteUrl);
+      const baseObj = new URL(baseUrl);
+
+      if (urlObj.hostname === baseObj.hostname) {
+        const cleanUrl = `${urlObj.origin}${urlObj.pathname}`;
+        if (!links.includes(cleanUrl)) {
+          links.push(cleanUrl);
         }
-      } catch {
-        // Invalid URL
       }
-    });
+    } catch {
+      // Invalid URL
+    }
+  });
 
-    const pageType = classifyPage(url, title, content, headings);
+  const pageType = classifyPage(url, title, content, headings);
 
-    return {
-      url,
-      title,
-      pageType,
-      content,
-      headings,
-      links,
-      metaDescription,
-      crawledAt: new Date(),
-    };
-  } catch (error) {
-    console.error(`Error crawling ${url}:`, error);
-    return null;
-  }
+  return {
+    url,
+    title,
+    pageType,
+    content,
+    headings,
+    links,
+    metaDescription,
+    crawledAt: new Date(),
+  };
 }
 
 function classifyPage(url: string, title: string, content: string, headings: string[]): PageType {
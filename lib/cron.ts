@@ -0,0 +1,37 @@
+/**
+ * Cron authentication
+ *
+ * The /api/cron/* routes run with the service role and spend AI and crawl
+ * credits, so they only run for requests carrying
+ * `Authorization: Bearer <CRON_SECRET>` (Vercel Cron sends this header
+ * automatically). Without CRON_SECRET configured they refuse to run.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Returns an error response unless the request carries the cron secret
+ */
+export function requireCronSecret(request: NextRequest): NextResponse | null {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('[Cron] CRON_SECRET is not configured');
+    return NextResponse.json(
+      { error: 'Cron is not configured' },
+      { status: 500 }
+    );
+  }
+
+  // Compare digests so the check takes the same time whatever was sent
+  const expected = createHash('sha256').update(`Bearer ${cronSecret}`).digest();
+  const actual = createHash('sha256').update(request.headers.get('authorization') || '').digest();
+  if (!timingSafeEqual(actual, expected)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  return null;
+}
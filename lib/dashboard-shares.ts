@@ -0,0 +1,50 @@
+/**
+ * Shared dashboards
+ *
+ * A share link is /share/<token>. The token is shown once when the link is
+ * created; only its SHA-256 hash is stored (see
+ * supabase/migrations/024_add_white_label.sql). Links stop working once
+ * revoked or expired.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import type { DashboardShare } from '@/lib/types';
+
+const TOKEN_PREFIX = 'shr_';
+const DISPLAY_PREFIX_LENGTH = 10;
+
+export function generateShareToken(): { token: string; prefix: string; hash: string } {
+  const token = `${TOKEN_PREFIX}${randomBytes(24).toString('base64url')}`;
+  return { token, prefix: token.slice(0, DISPLAY_PREFIX_LENGTH), hash: hashShareToken(token) };
+}
+
+export function hashShareToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * The active share for a token, or null when it doesn't exist, was revoked
+ * or has expired. Counts the view.
+ */
+export async function findActiveShare(token: string): Promise<DashboardShare | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) return null;
+
+  const { data } = await supabaseAdmin
+    .from('dashboard_shares')
+    .select('*')
+    .eq('token_hash', hashShareToken(token))
+    .maybeSingle();
+
+  const share = data as DashboardShare | null;
+  if (!share || share.revoked_at || new Date(share.expires_at) <= new Date()) {
+    return null;
+  }
+
+  await supabaseAdmin
+    .from('dashboard_shares')
+    .update({ last_viewed_at: new Date().toISOString(), view_count: share.view_count + 1 } as never)
+    .eq('id', share.id);
+
+  return share;
+}
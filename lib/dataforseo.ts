@@ -276,3 +276,40 @@ export async function getApiBalance(): Promise<{ balance: number; currency: stri
     throw error;
   }
 }
+
+// Get domain authority ranks (0-100) for up to 1000 domains
+export async function getDomainRanks(domains: string[]): Promise<Record<string, number>> {
+  try {
+    const response = await fetch('https://api.dataforseo.com/v3/backlinks/bulk_ranks/live', {
+      method: 'POST',
+      headers: {
+        'Authorization': getAuthHeader(),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify([
+        {
+          targets: domains.slice(0, 1000),
+          rank_scale: 'one_hundred',
+        }
+      ]),
+    });
+
+    if (!response.ok) {
+      throw new Error(`DataForSEO API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const ranks: Record<string, number> = {};
+
+    for (const item of (data.tasks?.[0]?.result?.[0]?.items || []) as { target: string; rank: number | null }[]) {
+      if (item.target && typeof item.rank === 'number') {
+        ranks[item.target] = item.rank;
+      }
+    }
+
+    return ranks;
+  } catch (error) {
+    console.error('DataForSEO getDomainRanks error:', error);
+    throw error;
+  }
+}
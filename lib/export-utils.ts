@@ -1,4 +1,5 @@
 import { jsPDF } from 'jspdf'
+import { DEFAULT_BRANDING, hexToRgb, loadLogoDataUrl, type Branding } from './branding'
 import type { Project } from './types'
 
 // Brand Bible data structure for export
@@ -61,8 +62,9 @@ export function exportBrandBibleAsJSON(project: Project): void {
   URL.revokeObjectURL(url)
 }
 
-// Export Brand Bible as PDF
-export function exportBrandBibleAsPDF(project: Project): void {
+// Export Brand Bible as PDF, white-labelled with the workspace's branding
+export async function exportBrandBibleAsPDF(project: Project, branding: Branding = DEFAULT_BRANDING): Promise<void> {
+  const logo = await loadLogoDataUrl(branding.logoUrl)
   const doc = new jsPDF()
   const pageWidth = doc.internal.pageSize.getWidth()
   const margin = 20
@@ -112,10 +114,21 @@ export function exportBrandBibleAsPDF(project: Project): void {
     yPosition += 8
   }
 
+  // Logo
+  if (logo) {
+    try {
+      const { width, height } = doc.getImageProperties(logo.dataUrl)
+      const scale = Math.min(40 / width, 16 / height)
+      doc.addImage(logo.dataUrl, logo.format, pageWidth - margin - width * scale, 12, width * scale, height * scale)
+    } catch {
+      // Unreadable image; export without it
+    }
+  }
+
   // Title
   doc.setFontSize(24)
   doc.setFont('helvetica', 'bold')
-  doc.setTextColor(0, 0, 0)
+  doc.setTextColor(...hexToRgb(branding.primaryColor))
   yPosition = addText('Brand Bible', 24, true)
   yPosition += 5
 
@@ -222,7 +235,7 @@ export function exportBrandBibleAsPDF(project: Project): void {
     doc.setFontSize(8)
     doc.setTextColor(150, 150, 150)
     doc.text(
-      `Page ${i} of ${pageCount} | Generated by Luminari`,
+      `Page ${i} of ${pageCount} | Generated by ${branding.name}`,
       pageWidth / 2,
       doc.internal.pageSize.getHeight() - 10,
       { align: 'center' }
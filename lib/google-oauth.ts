@@ -1,5 +1,10 @@
 // Google OAuth2 helper functions for GSC and GA4 integration
 
+import { randomBytes, timingSafeEqual } from 'crypto'
+import { decryptSecret, encryptSecret, isEncrypted, signPayload, verifyPayload } from '@/lib/crypto'
+import { supabaseAdmin } from '@/lib/supabase-server'
+import type { GoogleConnection } from '@/lib/types'
+
 const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID || ''
 const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET || ''
 
@@ -12,6 +17,55 @@ export const GOOGLE_SCOPES = [
   'https://www.googleapis.com/auth/analytics.readonly',   // Google Analytics
 ]
 
+// The connect route sets this cookie to the state's nonce; the callback
+// only accepts a state whose nonce matches, so a state can't be replayed
+// from another browser
+export const OAUTH_NONCE_COOKIE = 'google_oauth_nonce'
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000
+
+interface OAuthState {
+  projectId: string
+  userId: string
+  nonce: string
+  exp: number
+}
+
+/**
+ * Create a signed OAuth state for connecting a project. Returns the nonce
+ * to store in the OAUTH_NONCE_COOKIE alongside it.
+ */
+export function createOAuthState(projectId: string, userId: string): { state: string; nonce: string } {
+  const nonce = randomBytes(16).toString('base64url')
+  const state = signPayload({
+    projectId,
+    userId,
+    nonce,
+    exp: Date.now() + OAUTH_STATE_TTL_MS,
+  } satisfies OAuthState)
+
+  return { state, nonce }
+}
+
+/**
+ * Validate the state Google hands back. Returns null if the signature,
+ * nonce or expiry doesn't check out.
+ */
+export function verifyOAuthState(
+  state: string,
+  nonce: string | undefined
+): { projectId: string; userId: string } | null {
+  const payload = verifyPayload<OAuthState>(state)
+  if (!payload || !nonce || payload.exp < Date.now()) return null
+
+  const expected = Buffer.from(payload.nonce)
+  const actual = Buffer.from(nonce)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  return { projectId: payload.projectId, userId: payload.userId }
+}
+
 /**
  * Generate Google OAuth2 authorization URL
  */
@@ -70,6 +124,7 @@ export async function exchangeCodeForTokens(
  */
 export async function refreshAccessToken(refreshToken: string): Promise<{
   access_token: string
+  refresh_token?: string
   expires_in: number
   token_type: string
   scope: string
@@ -118,34 +173,60 @@ export async function getGoogleUserInfo(accessToken: string): Promise<{
 }
 
 /**
- * Get valid access token, refreshing if needed
+ * Get a valid access token for a stored connection, refreshing it if it's
+ * about to expire. Refreshed tokens are saved back encrypted, as are tokens
+ * left in plaintext from before encryption was added.
  */
-export async function getValidAccessToken(
-  accessToken: string,
-  refreshToken: string | null,
-  tokenExpiry: Date
-): Promise<{ accessToken: string; newExpiry?: Date }> {
+export async function getValidAccessToken(connection: GoogleConnection): Promise<string> {
+  const accessToken = decryptSecret(connection.access_token)
+  const refreshToken = connection.refresh_token ? decryptSecret(connection.refresh_token) : null
+
   // Check if token is expired (with 5 minute buffer)
   const now = new Date()
   const buffer = 5 * 60 * 1000 // 5 minutes
+  const isFresh = new Date(connection.token_expiry).getTime() > now.getTime() + buffer
+  const needsEncrypting = !isEncrypted(connection.access_token) ||
+    (!!connection.refresh_token && !isEncrypted(connection.refresh_token))
 
-  if (tokenExpiry.getTime() > now.getTime() + buffer) {
-    // Token is still valid
-    return { accessToken }
+  if (isFresh && !needsEncrypting) {
+    return accessToken
   }
 
-  // Token is expired or about to expire, refresh it
-  if (!refreshToken) {
-    throw new Error('Token expired and no refresh token available')
+  let update: Record<string, string> = {}
+  let validToken = accessToken
+
+  if (isFresh) {
+    update = {
+      access_token: encryptSecret(accessToken),
+      ...(refreshToken ? { refresh_token: encryptSecret(refreshToken) } : {}),
+    }
+  } else {
+    // Token is expired or about to expire, refresh it
+    if (!refreshToken) {
+      throw new Error('Token expired and no refresh token available')
+    }
+
+    const tokens = await refreshAccessToken(refreshToken)
+    validToken = tokens.access_token
+    update = {
+      access_token: encryptSecret(tokens.access_token),
+      // Google may rotate the refresh token
+      refresh_token: encryptSecret(tokens.refresh_token || refreshToken),
+      token_expiry: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
+    }
   }
 
-  const tokens = await refreshAccessToken(refreshToken)
-  const newExpiry = new Date(Date.now() + tokens.expires_in * 1000)
+  // Note: Using type assertion since google_connections table may not be in generated types yet
+  const { error } = await supabaseAdmin
+    .from('google_connections' as 'projects')
+    .update({ ...update, updated_at: new Date().toISOString() } as never)
+    .eq('id', connection.id)
 
-  return {
-    accessToken: tokens.access_token,
-    newExpiry,
+  if (error) {
+    console.error('[Google OAuth] Failed to save refreshed tokens:', error)
   }
+
+  return validToken
 }
 
 /**
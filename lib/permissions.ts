@@ -0,0 +1,49 @@
+/**
+ * Role permissions
+ *
+ * What each membership role may do. Every member can view a project's data;
+ * anything that changes it needs one of the permissions below. API routes
+ * check these with requireAccess(), pages use them to hide actions the user
+ * can't take, and the write policies in
+ * supabase/migrations/018_add_roles_and_audit.sql enforce the same matrix
+ * for direct database access.
+ */
+
+import type { MembershipRole } from '@/lib/types';
+
+export type Permission =
+  | 'content:write'
+  | 'collection:run'
+  | 'prompts:manage'
+  | 'keywords:manage'
+  | 'project:manage'
+  | 'integrations:manage'
+  | 'project:delete'
+  | 'members:manage';
+
+const ROLE_PERMISSIONS: Record<MembershipRole, Permission[]> = {
+  owner: [
+    'content:write',
+    'collection:run',
+    'prompts:manage',
+    'keywords:manage',
+    'project:manage',
+    'integrations:manage',
+    'project:delete',
+    'members:manage',
+  ],
+  editor: [
+    'content:write',
+    'collection:run',
+    'prompts:manage',
+    'keywords:manage',
+    'project:manage',
+    'integrations:manage',
+  ],
+  writer: ['content:write'],
+  viewer: [],
+};
+
+export function can(role: MembershipRole | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,76 @@
+/**
+ * Project export
+ *
+ * Reads a project and every archived table (see ./tables) with the service
+ * role. Callers check access first.
+ */
+
+import { gzipSync } from 'zlib';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { ARCHIVE_FORMAT, ARCHIVE_TABLES, ARCHIVE_VERSION, type ArchiveRow, type ArchiveTableName, type ProjectArchive } from './tables';
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+// Parent ids per .in() filter, to keep request URLs short
+const ID_CHUNK_SIZE = 150;
+
+export async function exportProject(projectId: string): Promise<ProjectArchive | null> {
+  const { data: project } = await supabaseAdmin
+    .from('projects')
+    .select('*')
+    .eq('id', projectId)
+    .maybeSingle();
+
+  if (!project) return null;
+
+  const tables: Partial<Record<ArchiveTableName, ArchiveRow[]>> = {};
+
+  for (const table of ARCHIVE_TABLES) {
+    if (table.parent) {
+      const parentIds = (tables[table.parent.table] || []).map(row => row.id as string);
+      const rows: ArchiveRow[] = [];
+      for (let i = 0; i < parentIds.length; i += ID_CHUNK_SIZE) {
+        rows.push(...await fetchAll(table.name, table.parent.column, parentIds.slice(i, i + ID_CHUNK_SIZE)));
+      }
+      tables[table.name] = rows;
+    } else {
+      tables[table.name] = await fetchAll(table.name, 'project_id', [projectId]);
+    }
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: project as ArchiveRow,
+    tables,
+  };
+}
+
+/**
+ * The archive as a gzipped JSON file
+ */
+export function compressArchive(archive: ProjectArchive): Uint8Array {
+  return new Uint8Array(gzipSync(JSON.stringify(archive)));
+}
+
+async function fetchAll(table: ArchiveTableName, column: string, ids: string[]): Promise<ArchiveRow[]> {
+  const rows: ArchiveRow[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from(table as 'projects')
+      .select('*')
+      .in(column as 'id', ids)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error(`[Export] Failed to read ${table}:`, error);
+      throw new Error(`Failed to read ${table}`);
+    }
+
+    rows.push(...(data || []) as ArchiveRow[]);
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
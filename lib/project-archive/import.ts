@@ -0,0 +1,161 @@
+/**
+ * Project import
+ *
+ * Recreates an exported project in a workspace. Every row gets a new id and
+ * references between rows are rewritten to match, so an archive can be
+ * imported any number of times, into the same environment (to clone a
+ * template) or another one. History keeps its original timestamps. If any
+ * insert fails the half-imported project is deleted.
+ */
+
+import { randomUUID } from 'crypto';
+import { gunzipSync } from 'zlib';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import type { Project } from '@/lib/types';
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_TABLES,
+  ARCHIVE_VERSION,
+  type ArchiveRow,
+  type ArchiveTable,
+  type ArchiveTableName,
+  type ProjectArchive,
+} from './tables';
+
+const INSERT_BATCH_SIZE = 500;
+
+// Project columns that belong to the source environment
+const PROJECT_COLUMNS_TO_RESET = ['id', 'organization_id', 'created_at'];
+
+export interface ImportProjectOptions {
+  organizationId: string;
+  // Defaults to the exported project's name
+  name?: string;
+}
+
+export interface ImportProjectResult {
+  project: Project;
+  // Rows imported per table
+  counts: Partial<Record<ArchiveTableName, number>>;
+}
+
+export type ArchiveParseResult =
+  | { archive: ProjectArchive; error: null }
+  | { archive: null; error: string };
+
+/**
+ * Read an uploaded archive, gzipped (as exported) or plain JSON
+ */
+export function parseArchive(bytes: Uint8Array): ArchiveParseResult {
+  let archive: ProjectArchive;
+
+  try {
+    const isGzip = bytes[0] === 0x1f && bytes[1] === 0x8b;
+    const json = isGzip ? gunzipSync(bytes).toString('utf8') : new TextDecoder().decode(bytes);
+    archive = JSON.parse(json);
+  } catch {
+    return { archive: null, error: 'File is not a project export' };
+  }
+
+  if (archive?.format !== ARCHIVE_FORMAT || !archive.project || typeof archive.tables !== 'object') {
+    return { archive: null, error: 'File is not a project export' };
+  }
+
+  if (archive.version > ARCHIVE_VERSION) {
+    return { archive: null, error: 'This export was made by a newer version of Luminari' };
+  }
+
+  return { archive, error: null };
+}
+
+export async function importProject(archive: ProjectArchive, options: ImportProjectOptions): Promise<ImportProjectResult> {
+  const projectRow: ArchiveRow = { ...archive.project };
+  for (const column of PROJECT_COLUMNS_TO_RESET) {
+    delete projectRow[column];
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('projects')
+    .insert({
+      ...projectRow,
+      name: options.name?.trim() || projectRow.name,
+      organization_id: options.organizationId,
+    } as never)
+    .select()
+    .single();
+
+  if (error || !data) {
+    console.error('[Import] Failed to create project:', error);
+    throw new Error('Failed to create project. The export may come from an incompatible version.');
+  }
+
+  const project = data as Project;
+  const ids = new Map<ArchiveTableName, Map<string, string>>();
+  const counts: ImportProjectResult['counts'] = {};
+
+  try {
+    for (const table of ARCHIVE_TABLES) {
+      const rows = (archive.tables[table.name] || [])
+        .map(row => remapRow(row, table, project.id, ids))
+        .filter((row): row is ArchiveRow => row !== null);
+
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        const { error: insertError } = await supabaseAdmin
+          .from(table.name as 'projects')
+          .insert(rows.slice(i, i + INSERT_BATCH_SIZE) as never);
+
+        if (insertError) {
+          console.error(`[Import] Failed to import ${table.name}:`, insertError);
+          throw new Error(`Failed to import ${table.name.replace(/_/g, ' ')}`);
+        }
+      }
+
+      counts[table.name] = rows.length;
+    }
+  } catch (importError) {
+    // Cascades to everything imported so far
+    await supabaseAdmin.from('projects').delete().eq('id', project.id);
+    throw importError;
+  }
+
+  return { project, counts };
+}
+
+/**
+ * Give a row a new id (recorded in `ids`) and point its references at the
+ * new ids. Null when a required reference can't be mapped.
+ */
+function remapRow(
+  row: ArchiveRow,
+  table: ArchiveTable,
+  projectId: string,
+  ids: Map<ArchiveTableName, Map<string, string>>
+): ArchiveRow | null {
+  const mapped: ArchiveRow = { ...row, id: randomUUID() };
+  const required = [...(table.required || []), ...(table.parent ? [table.parent.column] : [])];
+
+  if ('project_id' in mapped) {
+    mapped.project_id = projectId;
+  }
+
+  for (const [column, target] of Object.entries(table.references)) {
+    if (mapped[column] === null || mapped[column] === undefined) continue;
+
+    const newId = ids.get(target)?.get(mapped[column] as string) ?? null;
+    if (!newId && required.includes(column)) return null;
+    mapped[column] = newId;
+  }
+
+  for (const [column, target] of Object.entries(table.arrayReferences || {})) {
+    if (!Array.isArray(mapped[column])) continue;
+
+    mapped[column] = (mapped[column] as string[])
+      .map(id => ids.get(target)?.get(id))
+      .filter(Boolean);
+  }
+
+  if (!ids.has(table.name)) ids.set(table.name, new Map());
+  ids.get(table.name)!.set(row.id as string, mapped.id as string);
+
+  return mapped;
+}
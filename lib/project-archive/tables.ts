@@ -0,0 +1,87 @@
+/**
+ * What a project archive contains
+ *
+ * Tables are listed parents first, which is the order they're exported and
+ * imported in. Rows keep every column; on import each row gets a new id and
+ * the columns in `references` are rewritten to the new ids of the rows they
+ * point at. Collection runs, alerts, webhooks, reports, share links, Google
+ * connections and history are workspace or environment specific and are
+ * left out.
+ */
+
+export type ArchiveTableName =
+  | 'competitors'
+  | 'personas'
+  | 'monitors'
+  | 'prompts'
+  | 'responses'
+  | 'citations'
+  | 'visibility_metrics'
+  | 'share_of_voice_metrics'
+  | 'keywords'
+  | 'keyword_history'
+  | 'keyword_cart'
+  | 'competitor_domains'
+  | 'competitor_keywords'
+  | 'generated_content'
+  | 'answer_gaps'
+  | 'citation_sources'
+  | 'cited_pages'
+  | 'brand_overviews';
+
+export interface ArchiveTable {
+  name: ArchiveTableName;
+  // Rows belong to the project directly (project_id) or through a parent
+  // table's rows (e.g. prompts through monitor_id)
+  parent: { table: ArchiveTableName; column: string } | null;
+  // Columns holding ids of other archived rows. Unmapped references become
+  // NULL, except in the parent column and `required` columns, where the row
+  // is dropped instead.
+  references: Record<string, ArchiveTableName>;
+  required?: string[];
+  // UUID[] columns holding ids of other archived rows
+  arrayReferences?: Record<string, ArchiveTableName>;
+}
+
+export const ARCHIVE_TABLES: ArchiveTable[] = [
+  { name: 'competitors', parent: null, references: {} },
+  { name: 'personas', parent: null, references: {} },
+  { name: 'monitors', parent: null, references: {}, arrayReferences: { persona_ids: 'personas' } },
+  { name: 'prompts', parent: { table: 'monitors', column: 'monitor_id' }, references: { monitor_id: 'monitors' } },
+  {
+    name: 'responses',
+    parent: { table: 'prompts', column: 'prompt_id' },
+    references: { prompt_id: 'prompts', persona_id: 'personas' },
+  },
+  { name: 'citations', parent: { table: 'responses', column: 'response_id' }, references: { response_id: 'responses' } },
+  { name: 'visibility_metrics', parent: null, references: { prompt_id: 'prompts' } },
+  { name: 'share_of_voice_metrics', parent: null, references: { monitor_id: 'monitors' } },
+  { name: 'keywords', parent: null, references: {} },
+  { name: 'keyword_history', parent: { table: 'keywords', column: 'keyword_id' }, references: { keyword_id: 'keywords' } },
+  { name: 'keyword_cart', parent: null, references: { keyword_id: 'keywords' }, required: ['keyword_id'] },
+  { name: 'competitor_domains', parent: null, references: {} },
+  { name: 'competitor_keywords', parent: null, references: {} },
+  { name: 'generated_content', parent: null, references: { prompt_id: 'prompts' } },
+  {
+    name: 'answer_gaps',
+    parent: null,
+    references: { prompt_id: 'prompts', content_id: 'generated_content' },
+    required: ['prompt_id'],
+  },
+  { name: 'citation_sources', parent: null, references: {} },
+  { name: 'cited_pages', parent: null, references: {} },
+  { name: 'brand_overviews', parent: null, references: {} },
+];
+
+export const ARCHIVE_FORMAT = 'luminari.project';
+export const ARCHIVE_VERSION = 1;
+
+export type ArchiveRow = Record<string, unknown>;
+
+export interface ProjectArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: ArchiveRow;
+  tables: Partial<Record<ArchiveTableName, ArchiveRow[]>>;
+}
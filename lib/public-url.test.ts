@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { checkPublicUrl, isPublicAddress } from './public-url';
+
+describe('isPublicAddress', () => {
+  it('accepts public addresses', () => {
+    for (const address of ['8.8.8.8', '1.1.1.1', '172.32.0.1', '2606:4700:4700::1111']) {
+      expect(isPublicAddress(address), address).toBe(true);
+    }
+  });
+
+  it('refuses loopback, private, link-local and reserved IPv4', () => {
+    for (const address of [
+      '0.0.0.0',
+      '10.1.2.3',
+      '100.64.0.1',
+      '127.0.0.1',
+      '169.254.169.254',
+      '172.16.0.1',
+      '172.31.255.255',
+      '192.168.1.1',
+      '198.18.0.1',
+      '224.0.0.1',
+      '255.255.255.255',
+    ]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it('refuses loopback, unique-local, link-local and multicast IPv6', () => {
+    for (const address of ['::', '::1', 'fd00::1', 'fe80::1', 'ff02::1', '2001:db8::1']) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it('checks IPv4-mapped IPv6 addresses as IPv4', () => {
+    expect(isPublicAddress('::ffff:127.0.0.1')).toBe(false);
+    expect(isPublicAddress('::ffff:7f00:1')).toBe(false);
+    expect(isPublicAddress('::ffff:a9fe:a9fe')).toBe(false);
+    expect(isPublicAddress('::ffff:8.8.8.8')).toBe(true);
+    expect(isPublicAddress('::ffff:808:808')).toBe(true);
+  });
+
+  it('refuses anything that is not an IP address', () => {
+    expect(isPublicAddress('localhost')).toBe(false);
+    expect(isPublicAddress('')).toBe(false);
+  });
+});
+
+describe('checkPublicUrl', () => {
+  it('accepts http(s) URLs on public addresses', async () => {
+    expect(await checkPublicUrl('https://8.8.8.8/hook')).toBeNull();
+    expect(await checkPublicUrl(' http://[2606:4700:4700::1111]:8080/ ')).toBeNull();
+  });
+
+  it('refuses invalid URLs and other protocols', async () => {
+    expect(await checkPublicUrl('not a url')).toBe('Invalid URL');
+    expect(await checkPublicUrl('ftp://8.8.8.8/file')).toBe('URL must use http or https');
+    expect(await checkPublicUrl('file:///etc/passwd')).toBe('URL must use http or https');
+  });
+
+  it('refuses hosts that are private addresses however they are written', async () => {
+    for (const url of [
+      'http://127.0.0.1/',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://2130706433/',
+      'http://0x7f.1/',
+      'http://[::1]:3000/',
+      'http://[::ffff:127.0.0.1]/',
+    ]) {
+      expect(await checkPublicUrl(url), url).toBe('URL must point to a public address');
+    }
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Public URL checks
+ *
+ * Server-side requests to URLs that users or AI answers supply (webhook
+ * endpoints, cited pages) must not reach the server's own network: the
+ * host is resolved and every address it resolves to has to be public, so
+ * loopback, private ranges, link-local (including cloud metadata at
+ * 169.254.169.254) and similar are refused. Check right before each
+ * request, not only when the URL is saved, since DNS can change;
+ * fetchPublicUrl() does so for every redirect hop.
+ */
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+const BLOCKED = new BlockList();
+
+// Non-public IPv4 ranges (RFC 6890 and friends)
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED.addSubnet(network, prefix, 'ipv4');
+}
+
+// Non-public IPv6 ranges; IPv4-mapped addresses are checked as IPv4
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED.addSubnet(network, prefix, 'ipv6');
+}
+
+// ::ffff:127.0.0.1, or ::ffff:7f00:1 as URL parsing writes it
+const IPV4_MAPPED = /^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/i;
+
+export function isPublicAddress(address: string): boolean {
+  const mapped = address.match(IPV4_MAPPED);
+  if (mapped) {
+    if (mapped[1]) return isPublicAddress(mapped[1]);
+    const [high, low] = [parseInt(mapped[2], 16), parseInt(mapped[3], 16)];
+    return isPublicAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+
+  const family = isIP(address);
+  if (family === 4) return !BLOCKED.check(address, 'ipv4');
+  if (family === 6) return !BLOCKED.check(address, 'ipv6');
+  return false;
+}
+
+/**
+ * Why the URL may not be requested, or null when it's an http(s) URL whose
+ * host only resolves to public addresses
+ */
+export async function checkPublicUrl(value: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return 'Invalid URL';
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return 'URL must use http or https';
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true, verbatim: true })).map(a => a.address);
+  } catch {
+    return `Could not resolve ${host}`;
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    return 'URL must point to a public address';
+  }
+
+  return null;
+}
+
+export interface PublicFetchOptions {
+  headers?: Record<string, string>;
+  /** Covers every redirect hop and reading the body */
+  timeoutMs: number;
+  maxRedirects?: number;
+}
+
+/**
+ * GET a URL that must be public, following redirects by hand so every hop
+ * is checked too. Throws when a hop isn't public, there are too many
+ * redirects, or the request fails or times out.
+ */
+export async function fetchPublicUrl(
+  value: string,
+  { headers, timeoutMs, maxRedirects = 5 }: PublicFetchOptions
+): Promise<{ url: string; response: Response }> {
+  const signal = AbortSignal.timeout(timeoutMs);
+  let url = value;
+
+  for (let hop = 0; ; hop++) {
+    const urlError = await checkPublicUrl(url);
+    if (urlError) throw new Error(`${urlError}: ${url}`);
+
+    const response = await fetch(url, { headers, redirect: 'manual', signal });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { url, response };
+    }
+
+    await response.body?.cancel();
+    if (hop >= maxRedirects) throw new Error(`Too many redirects: ${value}`);
+    url = new URL(location, url).toString();
+  }
+}
+
+/**
+ * The first maxBytes of a response body; the rest is never downloaded
+ */
+export async function readBytesLimited(response: Response, maxBytes: number): Promise<Uint8Array> {
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (size < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.byteLength;
+  }
+  await reader.cancel();
+
+  return new Uint8Array(Buffer.concat(chunks).subarray(0, maxBytes));
+}
+
+/**
+ * A response body as text, reading at most maxBytes of it
+ */
+export async function readTextLimited(response: Response, maxBytes: number): Promise<string> {
+  return new TextDecoder().decode(await readBytesLimited(response, maxBytes));
+}
@@ -0,0 +1,302 @@
+/**
+ * Report data
+ *
+ * Builds the ReportData snapshot for a project and period. Only the requested
+ * sections are queried; sections that can't be built (Google not connected,
+ * API errors) are listed in `unavailable` instead of failing the report.
+ */
+
+import { supabaseAdmin } from '@/lib/supabase-server';
+import type { Competitor, GeneratedContent, Project, ReportData, ReportSection, ShareOfVoiceMetric, VisibilityMetric } from '@/lib/types';
+import { fetchAnalyticsSummary, fetchSearchConsoleSummary, getGoogleConnection } from './google';
+import { addDays } from './schedule';
+
+// Responses and citations read per report; enough for a month of a large project
+const MAX_ROWS = 5000;
+const TOP_DOMAINS = 10;
+const TOP_GAPS = 15;
+const MAX_CONTENT_ITEMS = 20;
+
+// Same bands as the sentiment page
+const POSITIVE_SENTIMENT = 0.7;
+const NEUTRAL_SENTIMENT = 0.4;
+
+interface PeriodResponse {
+  id: string;
+  prompt_id: string;
+  mentions_brand: boolean;
+  sentiment_score: number | null;
+  brands_mentioned: string[] | null;
+  prompts: { prompt_text: string };
+}
+
+export async function buildReportData(
+  projectId: string,
+  periodStart: string,
+  periodEnd: string,
+  sections: ReportSection[]
+): Promise<ReportData> {
+  const { data, error } = await supabaseAdmin
+    .from('projects')
+    .select('name, tracked_brand, website_url')
+    .eq('id', projectId)
+    .single();
+
+  const project = data as Pick<Project, 'name' | 'tracked_brand' | 'website_url'> | null;
+  if (error || !project) {
+    throw new Error('Project not found');
+  }
+
+  const report: ReportData = {
+    project,
+    generatedAt: new Date().toISOString(),
+    periodStart,
+    periodEnd,
+    unavailable: [],
+  };
+
+  const wants = (section: ReportSection) => sections.includes(section);
+
+  if (wants('visibility')) {
+    report.visibility = await buildVisibility(projectId, periodStart, periodEnd);
+  }
+
+  if (wants('share_of_voice')) {
+    report.shareOfVoice = await buildShareOfVoice(projectId, periodStart, periodEnd);
+  }
+
+  if (wants('citations')) {
+    report.citations = await buildCitations(projectId, periodStart, periodEnd, project.website_url);
+  }
+
+  if (wants('sentiment') || wants('answer_gaps')) {
+    const responses = await fetchPeriodResponses(projectId, periodStart, periodEnd);
+
+    if (wants('sentiment')) {
+      report.sentiment = buildSentiment(responses);
+    }
+
+    if (wants('answer_gaps')) {
+      const { data: competitors } = await supabaseAdmin
+        .from('competitors')
+        .select('name')
+        .eq('project_id', projectId);
+      report.answerGaps = buildAnswerGaps(responses, (competitors || []) as Pick<Competitor, 'name'>[], project.tracked_brand);
+    }
+  }
+
+  if (wants('content')) {
+    report.content = await buildContent(projectId, periodStart, periodEnd);
+  }
+
+  if (wants('search_console') || wants('analytics')) {
+    const connection = await getGoogleConnection(projectId);
+
+    if (wants('search_console')) {
+      const { summary, reason } = await fetchSearchConsoleSummary(connection, periodStart, periodEnd);
+      if (summary) report.searchConsole = summary;
+      else report.unavailable.push({ section: 'search_console', reason });
+    }
+
+    if (wants('analytics')) {
+      const { summary, reason } = await fetchAnalyticsSummary(connection, periodStart, periodEnd);
+      if (summary) report.analytics = summary;
+      else report.unavailable.push({ section: 'analytics', reason });
+    }
+  }
+
+  return report;
+}
+
+async function buildVisibility(projectId: string, periodStart: string, periodEnd: string): Promise<ReportData['visibility']> {
+  const days = daysBetween(periodStart, periodEnd);
+  const previousStart = addDays(periodStart, -days);
+
+  const { data } = await supabaseAdmin
+    .from('visibility_metrics')
+    .select('date, visibility_score, mention_count, citation_count, response_count')
+    .eq('project_id', projectId)
+    .is('prompt_id', null)
+    .is('ai_model', null)
+    .gte('date', previousStart)
+    .lte('date', periodEnd)
+    .order('date', { ascending: true });
+
+  const rows = (data || []) as Pick<VisibilityMetric, 'date' | 'visibility_score' | 'mention_count' | 'citation_count' | 'response_count'>[];
+  const current = rows.filter(row => row.date >= periodStart);
+  const previous = rows.filter(row => row.date < periodStart);
+
+  return {
+    average: average(current.map(row => row.visibility_score)),
+    previousAverage: average(previous.map(row => row.visibility_score)),
+    responseCount: sum(current.map(row => row.response_count)),
+    mentionCount: sum(current.map(row => row.mention_count)),
+    citationCount: sum(current.map(row => row.citation_count)),
+    daily: current.map(row => ({ date: row.date, visibility_score: row.visibility_score })),
+  };
+}
+
+async function buildShareOfVoice(projectId: string, periodStart: string, periodEnd: string): Promise<ReportData['shareOfVoice']> {
+  const { data } = await supabaseAdmin
+    .from('share_of_voice_metrics')
+    .select('entity_name, is_brand, mention_count')
+    .eq('project_id', projectId)
+    .is('ai_model', null)
+    .is('monitor_id', null)
+    .eq('segment_type', 'all')
+    .gte('date', periodStart)
+    .lte('date', periodEnd);
+
+  const byEntity = new Map<string, { name: string; isBrand: boolean; mentionCount: number }>();
+  for (const row of (data || []) as Pick<ShareOfVoiceMetric, 'entity_name' | 'is_brand' | 'mention_count'>[]) {
+    const entity = byEntity.get(row.entity_name) || { name: row.entity_name, isBrand: row.is_brand, mentionCount: 0 };
+    entity.mentionCount += row.mention_count || 0;
+    byEntity.set(row.entity_name, entity);
+  }
+
+  const totalMentions = sum([...byEntity.values()].map(entity => entity.mentionCount));
+
+  return {
+    entities: [...byEntity.values()]
+      .map(entity => ({
+        ...entity,
+        share: totalMentions > 0 ? Math.round((entity.mentionCount / totalMentions) * 1000) / 10 : 0,
+      }))
+      .sort((a, b) => b.mentionCount - a.mentionCount),
+  };
+}
+
+async function buildCitations(
+  projectId: string,
+  periodStart: string,
+  periodEnd: string,
+  websiteUrl: string | null
+): Promise<ReportData['citations']> {
+  const { data } = await supabaseAdmin
+    .from('citations')
+    .select('cited_domain, responses!inner(prompts!inner(monitors!inner(project_id)))')
+    .eq('responses.prompts.monitors.project_id', projectId)
+    .gte('created_at', periodStart)
+    .lt('created_at', addDays(periodEnd, 1))
+    .limit(MAX_ROWS);
+
+  const ownDomain = websiteUrl ? websiteUrl.replace(/^(https?:\/\/)?(www\.)?/, '').split('/')[0].toLowerCase() : null;
+  const isOwnDomain = (domain: string) => !!ownDomain && (domain === ownDomain || domain.endsWith(`.${ownDomain}`));
+
+  const counts = new Map<string, number>();
+  for (const row of (data || []) as { cited_domain: string }[]) {
+    const domain = row.cited_domain.toLowerCase().replace(/^www\./, '');
+    counts.set(domain, (counts.get(domain) || 0) + 1);
+  }
+
+  return {
+    total: sum([...counts.values()]),
+    ownDomain: sum([...counts].filter(([domain]) => isOwnDomain(domain)).map(([, count]) => count)),
+    topDomains: [...counts]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_DOMAINS)
+      .map(([domain, count]) => ({ domain, count, isOwnDomain: isOwnDomain(domain) })),
+  };
+}
+
+async function fetchPeriodResponses(projectId: string, periodStart: string, periodEnd: string): Promise<PeriodResponse[]> {
+  const { data } = await supabaseAdmin
+    .from('responses')
+    .select('id, prompt_id, mentions_brand, sentiment_score, brands_mentioned, prompts!inner(prompt_text, monitors!inner(project_id))')
+    .eq('prompts.monitors.project_id', projectId)
+    .gte('collected_at', periodStart)
+    .lt('collected_at', addDays(periodEnd, 1))
+    .limit(MAX_ROWS);
+
+  return (data || []) as unknown as PeriodResponse[];
+}
+
+function buildSentiment(responses: PeriodResponse[]): ReportData['sentiment'] {
+  const scores = responses
+    .filter(r => r.mentions_brand && r.sentiment_score !== null)
+    .map(r => r.sentiment_score as number);
+
+  return {
+    positive: scores.filter(score => score >= POSITIVE_SENTIMENT).length,
+    neutral: scores.filter(score => score >= NEUTRAL_SENTIMENT && score < POSITIVE_SENTIMENT).length,
+    negative: scores.filter(score => score < NEUTRAL_SENTIMENT).length,
+    average: average(scores),
+  };
+}
+
+// Prompts the brand never appeared for in the period, with the competitors
+// that did - the same definition as the Answer Gaps page
+function buildAnswerGaps(
+  responses: PeriodResponse[],
+  competitors: Pick<Competitor, 'name'>[],
+  trackedBrand: string
+): ReportData['answerGaps'] {
+  const competitorNames = new Set(competitors.map(c => c.name.toLowerCase()));
+  const brand = trackedBrand.toLowerCase();
+
+  const byPrompt = new Map<string, { promptText: string; responseCount: number; mentioned: boolean; competitors: Set<string> }>();
+  for (const response of responses) {
+    const prompt = byPrompt.get(response.prompt_id) || {
+      promptText: response.prompts.prompt_text,
+      responseCount: 0,
+      mentioned: false,
+      competitors: new Set<string>(),
+    };
+
+    prompt.responseCount++;
+    prompt.mentioned = prompt.mentioned || response.mentions_brand;
+    for (const name of response.brands_mentioned || []) {
+      if (competitorNames.has(name.toLowerCase()) && name.toLowerCase() !== brand) {
+        prompt.competitors.add(name);
+      }
+    }
+
+    byPrompt.set(response.prompt_id, prompt);
+  }
+
+  const gaps = [...byPrompt.values()]
+    .filter(prompt => !prompt.mentioned)
+    .sort((a, b) => b.competitors.size - a.competitors.size || b.responseCount - a.responseCount);
+
+  return {
+    promptCount: byPrompt.size,
+    gapCount: gaps.length,
+    gaps: gaps.slice(0, TOP_GAPS).map(prompt => ({
+      promptText: prompt.promptText,
+      responseCount: prompt.responseCount,
+      competitors: [...prompt.competitors],
+    })),
+  };
+}
+
+async function buildContent(projectId: string, periodStart: string, periodEnd: string): Promise<ReportData['content']> {
+  const { data } = await supabaseAdmin
+    .from('generated_content')
+    .select('title, content_type, status, created_at')
+    .eq('project_id', projectId)
+    .neq('status', 'failed')
+    .gte('created_at', periodStart)
+    .lt('created_at', addDays(periodEnd, 1))
+    .order('created_at', { ascending: false });
+
+  const items = (data || []) as Pick<GeneratedContent, 'title' | 'content_type' | 'status' | 'created_at'>[];
+
+  return {
+    total: items.length,
+    published: items.filter(item => item.status === 'published').length,
+    items: items.slice(0, MAX_CONTENT_ITEMS),
+  };
+}
+
+// Inclusive number of days from start to end
+function daysBetween(start: string, end: string): number {
+  return Math.round((Date.parse(end) - Date.parse(start)) / (24 * 60 * 60 * 1000)) + 1;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + (value || 0), 0);
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? Math.round((sum(values) / values.length) * 10) / 10 : null;
+}
@@ -0,0 +1,38 @@
+/**
+ * Formatting shared by the PDF and HTML report renderers
+ */
+
+import type { ReportData } from '@/lib/types';
+
+export function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+export function formatPeriod(data: Pick<ReportData, 'periodStart' | 'periodEnd'>): string {
+  return `${formatDate(data.periodStart)} – ${formatDate(data.periodEnd)}`;
+}
+
+export function formatNumber(value: number | null | undefined, digits = 0): string {
+  if (value === null || value === undefined) return '—';
+  return value.toLocaleString('en-US', { maximumFractionDigits: digits, minimumFractionDigits: digits });
+}
+
+// "+3.2 pts vs previous period", or null when there's nothing to compare
+export function formatVisibilityChange(visibility: NonNullable<ReportData['visibility']>): string | null {
+  if (visibility.average === null || visibility.previousAverage === null) return null;
+  const change = Math.round((visibility.average - visibility.previousAverage) * 10) / 10;
+  return `${change >= 0 ? '+' : ''}${change} pts vs previous period`;
+}
+
+export function reportFileName(data: Pick<ReportData, 'project' | 'periodStart' | 'periodEnd'>, extension: 'pdf' | 'html'): string {
+  const name = (data.project.name || data.project.tracked_brand)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${name}-report-${data.periodStart}-to-${data.periodEnd}.${extension}`;
+}
@@ -0,0 +1,173 @@
+/**
+ * Report generation and delivery
+ *
+ * Creates the archive row, fills in the data snapshot and, when there are
+ * recipients, emails the report through Resend (RESEND_API_KEY, plus
+ * REPORTS_FROM_EMAIL or ALERTS_FROM_EMAIL): the HTML report is the body and
+ * the PDF or HTML file is attached.
+ */
+
+import { supabaseAdmin } from '@/lib/supabase-server';
+import type { Branding } from '@/lib/branding';
+import { getProjectBranding, loadServerLogo } from '@/lib/branding/server';
+import type { Report, ReportFormat, ReportSection } from '@/lib/types';
+import { buildReportData } from './data';
+import { reportFileName } from './format';
+import { renderReportHtml } from './render-html';
+import { renderReportPdf } from './render-pdf';
+
+const EMAIL_TIMEOUT_MS = 30000;
+
+export interface GenerateReportOptions {
+  projectId: string;
+  title: string;
+  periodStart: string;
+  periodEnd: string;
+  sections: ReportSection[];
+  scheduleId?: string | null;
+  recipients?: string[];
+  // Attachment format when emailing
+  format?: ReportFormat;
+  createdBy?: string | null;
+}
+
+/**
+ * Generate a report and send it to its recipients. Build and email failures
+ * are recorded on the report rather than thrown.
+ */
+export async function generateReport(options: GenerateReportOptions): Promise<Report> {
+  const recipients = options.recipients || [];
+
+  const { data: created, error: createError } = await supabaseAdmin
+    .from('reports')
+    .insert({
+      project_id: options.projectId,
+      schedule_id: options.scheduleId ?? null,
+      title: options.title,
+      period_start: options.periodStart,
+      period_end: options.periodEnd,
+      sections: options.sections,
+      status: 'generating',
+      recipients,
+      created_by: options.createdBy ?? null,
+    } as never)
+    .select()
+    .single();
+
+  if (createError || !created) {
+    console.error('[Reports] Failed to create report:', createError);
+    throw new Error('Failed to create report');
+  }
+
+  let report = created as Report;
+
+  try {
+    const data = await buildReportData(options.projectId, options.periodStart, options.periodEnd, options.sections);
+    report = await updateReport(report.id, { status: 'completed', data });
+  } catch (error) {
+    console.error(`[Reports] Failed to build report ${report.id}:`, error);
+    return updateReport(report.id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Failed to build report',
+    });
+  }
+
+  if (recipients.length > 0) {
+    const sendError = await sendReport(report, recipients, options.format || 'pdf');
+    report = await updateReport(report.id, sendError ? { error: sendError } : { sent_at: new Date().toISOString() });
+  }
+
+  return report;
+}
+
+/**
+ * Render a completed report in the requested format, with the workspace's
+ * current branding
+ */
+export async function renderReport(
+  report: Report,
+  format: ReportFormat,
+  branding?: Branding
+): Promise<{ body: Uint8Array; contentType: string; fileName: string }> {
+  if (!report.data) {
+    throw new Error('Report has no data');
+  }
+
+  const brand = branding || await getProjectBranding(report.project_id);
+
+  return format === 'pdf'
+    ? {
+        body: new Uint8Array(renderReportPdf(report.title, report.data, brand, await loadServerLogo(brand.logoUrl))),
+        contentType: 'application/pdf',
+        fileName: reportFileName(report.data, 'pdf'),
+      }
+    : {
+        body: new TextEncoder().encode(renderReportHtml(report.title, report.data, brand)),
+        contentType: 'text/html; charset=utf-8',
+        fileName: reportFileName(report.data, 'html'),
+      };
+}
+
+/**
+ * Email a completed report. Returns an error message, or null once sent.
+ */
+async function sendReport(report: Report, to: string[], format: ReportFormat): Promise<string | null> {
+  const apiKey = process.env.RESEND_API_KEY;
+  const from = process.env.REPORTS_FROM_EMAIL || process.env.ALERTS_FROM_EMAIL;
+
+  if (!report.data) return 'Report has no data';
+
+  if (!apiKey || !from) {
+    console.warn('[Reports] Email skipped: RESEND_API_KEY and REPORTS_FROM_EMAIL are not configured');
+    return 'Email is not configured';
+  }
+
+  const branding = await getProjectBranding(report.project_id);
+  const attachment = await renderReport(report, format, branding);
+
+  try {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        // Send under the workspace's name unless the address already has one
+        from: from.includes('<') ? from : `${branding.name} <${from}>`,
+        to,
+        subject: `[${report.data.project.name}] ${report.title}`,
+        html: renderReportHtml(report.title, report.data, branding),
+        attachments: [{ filename: attachment.fileName, content: Buffer.from(attachment.body).toString('base64') }],
+      }),
+      signal: AbortSignal.timeout(EMAIL_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error(`[Reports] Email delivery failed for report ${report.id}:`, error);
+      return `Email delivery failed (HTTP ${response.status})`;
+    }
+
+    return null;
+  } catch (error) {
+    console.error(`[Reports] Email delivery failed for report ${report.id}:`, error);
+    return 'Email delivery failed';
+  }
+}
+
+async function updateReport(id: string, updates: Partial<Report>): Promise<Report> {
+  const { data, error } = await supabaseAdmin
+    .from('reports')
+    .update(updates as never)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error || !data) {
+    console.error(`[Reports] Failed to update report ${id}:`, error);
+    throw new Error('Failed to update report');
+  }
+
+  return data as Report;
+}
@@ -0,0 +1,146 @@
+/**
+ * Google summaries for reports
+ *
+ * Search Console and GA4 totals for a report period, fetched live with the
+ * project's Google connection. Each returns either the summary or the reason
+ * it isn't available, which the report shows in place of the section.
+ */
+
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { getValidAccessToken } from '@/lib/google-oauth';
+import type { GoogleConnection, ReportData } from '@/lib/types';
+
+const TOP_ROWS = 10;
+
+type Summary<T> = { summary: T; reason: null } | { summary: null; reason: string };
+
+interface GA4Row {
+  dimensionValues?: { value: string }[];
+  metricValues: { value: string }[];
+}
+
+export async function getGoogleConnection(projectId: string): Promise<GoogleConnection | null> {
+  const { data } = await supabaseAdmin
+    .from('google_connections' as 'projects')
+    .select('*')
+    .eq('project_id' as 'id', projectId)
+    .maybeSingle() as { data: GoogleConnection | null };
+
+  return data;
+}
+
+export async function fetchSearchConsoleSummary(
+  connection: GoogleConnection | null,
+  periodStart: string,
+  periodEnd: string
+): Promise<Summary<NonNullable<ReportData['searchConsole']>>> {
+  if (!connection) return { summary: null, reason: 'Google is not connected' };
+  if (!connection.gsc_property) return { summary: null, reason: 'No Search Console property selected' };
+
+  try {
+    const accessToken = await getValidAccessToken(connection);
+    const query = async (body: Record<string, unknown>) => {
+      const response = await fetch(
+        `https://www.googleapis.com/webmasters/v3/sites/${encodeURIComponent(connection.gsc_property!)}/searchAnalytics/query`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ startDate: periodStart, endDate: periodEnd, ...body }),
+        }
+      );
+      if (!response.ok) {
+        throw new Error(`Search Console responded ${response.status}: ${await response.text()}`);
+      }
+      const data = await response.json();
+      return (data.rows || []) as { keys?: string[]; clicks: number; impressions: number; ctr: number; position: number }[];
+    };
+
+    const [totals, queries] = await Promise.all([
+      query({}),
+      query({ dimensions: ['query'], rowLimit: TOP_ROWS }),
+    ]);
+
+    const total = totals[0];
+    return {
+      summary: {
+        clicks: total?.clicks || 0,
+        impressions: total?.impressions || 0,
+        ctr: total?.ctr || 0,
+        position: total ? Math.round(total.position * 10) / 10 : 0,
+        topQueries: queries.map(row => ({
+          query: row.keys?.[0] || '',
+          clicks: row.clicks,
+          impressions: row.impressions,
+          position: Math.round(row.position * 10) / 10,
+        })),
+      },
+      reason: null,
+    };
+  } catch (error) {
+    console.error('[Reports] Search Console summary failed:', error);
+    return { summary: null, reason: 'Search Console data could not be loaded' };
+  }
+}
+
+export async function fetchAnalyticsSummary(
+  connection: GoogleConnection | null,
+  periodStart: string,
+  periodEnd: string
+): Promise<Summary<NonNullable<ReportData['analytics']>>> {
+  if (!connection) return { summary: null, reason: 'Google is not connected' };
+  if (!connection.ga4_property) return { summary: null, reason: 'No GA4 property selected' };
+
+  try {
+    const accessToken = await getValidAccessToken(connection);
+    const runReport = async (body: Record<string, unknown>) => {
+      const response = await fetch(
+        `https://analyticsdata.googleapis.com/v1beta/${connection.ga4_property}:runReport`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ dateRanges: [{ startDate: periodStart, endDate: periodEnd }], ...body }),
+        }
+      );
+      if (!response.ok) {
+        throw new Error(`GA4 responded ${response.status}: ${await response.text()}`);
+      }
+      const data = await response.json();
+      return (data.rows || []) as GA4Row[];
+    };
+
+    const [totals, channels] = await Promise.all([
+      runReport({
+        metrics: [{ name: 'sessions' }, { name: 'totalUsers' }, { name: 'screenPageViews' }],
+      }),
+      runReport({
+        dimensions: [{ name: 'sessionDefaultChannelGroup' }],
+        metrics: [{ name: 'sessions' }],
+        orderBys: [{ metric: { metricName: 'sessions' }, desc: true }],
+        limit: TOP_ROWS,
+      }),
+    ]);
+
+    const values = totals[0]?.metricValues || [];
+    return {
+      summary: {
+        sessions: parseInt(values[0]?.value || '0'),
+        users: parseInt(values[1]?.value || '0'),
+        pageViews: parseInt(values[2]?.value || '0'),
+        topChannels: channels.map(row => ({
+          channel: row.dimensionValues?.[0]?.value || 'Unknown',
+          sessions: parseInt(row.metricValues[0]?.value || '0'),
+        })),
+      },
+      reason: null,
+    };
+  } catch (error) {
+    console.error('[Reports] GA4 summary failed:', error);
+    return { summary: null, reason: 'Google Analytics data could not be loaded' };
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * HTML report
+ *
+ * A single self-contained page (inline styles, no scripts; the workspace logo
+ * is the only external asset) so it renders the same in a browser, as a
+ * download and as an email body.
+ */
+
+import { DEFAULT_BRANDING, type Branding } from '@/lib/branding';
+import { REPORT_SECTIONS, type ReportData, type ReportSection } from '@/lib/types';
+import { formatDate, formatNumber, formatPeriod, formatVisibilityChange } from './format';
+
+export function renderReportHtml(title: string, data: ReportData, branding: Branding = DEFAULT_BRANDING): string {
+  const sections = [
+    data.visibility && visibilitySection(data.visibility, branding),
+    data.shareOfVoice && shareOfVoiceSection(data.shareOfVoice, branding),
+    data.citations && citationsSection(data.citations),
+    data.sentiment && sentimentSection(data.sentiment),
+    data.answerGaps && answerGapsSection(data.answerGaps),
+    data.content && contentSection(data.content),
+    data.searchConsole && searchConsoleSection(data.searchConsole),
+    data.analytics && analyticsSection(data.analytics),
+    ...data.unavailable.map(({ section, reason }) =>
+      card(sectionLabel(section), `<p style="color:#6b7280;margin:0">${escapeHtml(reason)}</p>`)
+    ),
+  ].filter(Boolean);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+</head>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Helvetica,Arial,sans-serif;color:#111827">
+<div style="max-width:720px;margin:0 auto">
+  <div style="background:${branding.primaryColor};color:#fff;border-radius:8px;padding:24px;margin-bottom:16px">
+    ${branding.logoUrl ? `<img src="${escapeHtml(branding.logoUrl)}" alt="${escapeHtml(branding.name)}" style="float:right;max-height:48px;max-width:160px">` : ''}
+    <div style="font-size:13px;opacity:0.8">${escapeHtml(data.project.website_url || '')}</div>
+    <h1 style="margin:4px 0 8px;font-size:24px">${escapeHtml(data.project.name || data.project.tracked_brand)}</h1>
+    <div style="font-size:15px">${escapeHtml(title)} · ${formatPeriod(data)}</div>
+  </div>
+  ${sections.join('\n  ')}
+  <p style="text-align:center;color:#9ca3af;font-size:12px">Generated by ${escapeHtml(branding.name)} on ${formatDate(data.generatedAt.split('T')[0])}</p>
+</div>
+</body>
+</html>`;
+}
+
+function visibilitySection(visibility: NonNullable<ReportData['visibility']>, branding: Branding): string {
+  const change = formatVisibilityChange(visibility);
+  const max = Math.max(100, ...visibility.daily.map(day => day.visibility_score));
+  const bars = visibility.daily.map(day =>
+    `<td style="vertical-align:bottom;padding:0 1px" title="${formatDate(day.date)}: ${formatNumber(day.visibility_score, 1)}">` +
+    `<div style="background:${branding.primaryColor};height:${Math.max(2, Math.round((day.visibility_score / max) * 80))}px"></div></td>`
+  ).join('');
+
+  return card('Visibility trend', `
+    ${stats([
+      ['Average visibility', visibility.average === null ? '—' : `${formatNumber(visibility.average, 1)}%`, change],
+      ['Responses', formatNumber(visibility.responseCount), null],
+      ['Brand mentions', formatNumber(visibility.mentionCount), null],
+      ['Domain citations', formatNumber(visibility.citationCount), null],
+    ])}
+    ${visibility.daily.length > 0
+      ? `<table style="width:100%;height:84px;border-collapse:collapse;margin-top:12px"><tr>${bars}</tr></table>`
+      : empty('No collections in this period')}`);
+}
+
+function shareOfVoiceSection(shareOfVoice: NonNullable<ReportData['shareOfVoice']>, branding: Branding): string {
+  if (shareOfVoice.entities.length === 0) return card('Share of voice', empty('No mentions in this period'));
+
+  return card('Share of voice', table(
+    ['Brand', 'Mentions', 'Share'],
+    shareOfVoice.entities.map(entity => [
+      entity.isBrand ? `<strong>${escapeHtml(entity.name)}</strong>` : escapeHtml(entity.name),
+      formatNumber(entity.mentionCount),
+      `${bar(entity.share, entity.isBrand ? branding.primaryColor : branding.accentColor)} ${formatNumber(entity.share, 1)}%`,
+    ])
+  ));
+}
+
+function citationsSection(citations: NonNullable<ReportData['citations']>): string {
+  return card('Top citations', `
+    ${stats([
+      ['Citations', formatNumber(citations.total), null],
+      ['Citing your domain', formatNumber(citations.ownDomain), null],
+    ])}
+    ${citations.topDomains.length > 0
+      ? table(['Domain', 'Citations'], citations.topDomains.map(domain => [
+          domain.isOwnDomain ? `<strong>${escapeHtml(domain.domain)}</strong>` : escapeHtml(domain.domain),
+          formatNumber(domain.count),
+        ]))
+      : empty('No citations in this period')}`);
+}
+
+function sentimentSection(sentiment: NonNullable<ReportData['sentiment']>): string {
+  const total = sentiment.positive + sentiment.neutral + sentiment.negative;
+  const pct = (count: number) => (total > 0 ? (count / total) * 100 : 0);
+
+  return card('Sentiment', `
+    ${stats([
+      ['Positive', formatNumber(sentiment.positive), `${formatNumber(pct(sentiment.positive))}%`],
+      ['Neutral', formatNumber(sentiment.neutral), `${formatNumber(pct(sentiment.neutral))}%`],
+      ['Negative', formatNumber(sentiment.negative), `${formatNumber(pct(sentiment.negative))}%`],
+      ['Average score', formatNumber(sentiment.average, 2), null],
+    ])}
+    ${total > 0
+      ? `<div style="display:flex;height:10px;border-radius:5px;overflow:hidden;margin-top:12px">
+          <div style="width:${pct(sentiment.positive)}%;background:#16a34a"></div>
+          <div style="width:${pct(sentiment.neutral)}%;background:#eab308"></div>
+          <div style="width:${pct(sentiment.negative)}%;background:#dc2626"></div>
+        </div>`
+      : empty('No brand mentions with sentiment in this period')}`);
+}
+
+function answerGapsSection(answerGaps: NonNullable<ReportData['answerGaps']>): string {
+  return card('Answer gaps', `
+    <p style="margin:0 0 12px;color:#4b5563">The brand was missing from ${formatNumber(answerGaps.gapCount)} of ${formatNumber(answerGaps.promptCount)} prompts answered this period.</p>
+    ${answerGaps.gaps.length > 0
+      ? table(['Prompt', 'Competitors mentioned'], answerGaps.gaps.map(gap => [
+          escapeHtml(gap.promptText),
+          gap.competitors.length > 0 ? escapeHtml(gap.competitors.join(', ')) : '—',
+        ]))
+      : ''}`);
+}
+
+function contentSection(content: NonNullable<ReportData['content']>): string {
+  return card('Content produced', `
+    ${stats([
+      ['Pieces created', formatNumber(content.total), null],
+      ['Published', formatNumber(content.published), null],
+    ])}
+    ${content.items.length > 0
+      ? table(['Title', 'Type', 'Status', 'Created'], content.items.map(item => [
+          escapeHtml(item.title),
+          escapeHtml(item.content_type),
+          escapeHtml(item.status),
+          formatDate(item.created_at.split('T')[0]),
+        ]))
+      : empty('No content created in this period')}`);
+}
+
+function searchConsoleSection(searchConsole: NonNullable<ReportData['searchConsole']>): string {
+  return card('Search Console', `
+    ${stats([
+      ['Clicks', formatNumber(searchConsole.clicks), null],
+      ['Impressions', formatNumber(searchConsole.impressions), null],
+      ['CTR', `${formatNumber(searchConsole.ctr * 100, 1)}%`, null],
+      ['Avg. position', formatNumber(searchConsole.position, 1), null],
+    ])}
+    ${searchConsole.topQueries.length > 0
+      ? table(['Query', 'Clicks', 'Impressions', 'Position'], searchConsole.topQueries.map(query => [
+          escapeHtml(query.query),
+          formatNumber(query.clicks),
+          formatNumber(query.impressions),
+          formatNumber(query.position, 1),
+        ]))
+      : ''}`);
+}
+
+function analyticsSection(analytics: NonNullable<ReportData['analytics']>): string {
+  return card('Google Analytics', `
+    ${stats([
+      ['Sessions', formatNumber(analytics.sessions), null],
+      ['Users', formatNumber(analytics.users), null],
+      ['Page views', formatNumber(analytics.pageViews), null],
+    ])}
+    ${analytics.topChannels.length > 0
+      ? table(['Channel', 'Sessions'], analytics.topChannels.map(channel => [
+          escapeHtml(channel.channel),
+          formatNumber(channel.sessions),
+        ]))
+      : ''}`);
+}
+
+function card(title: string, body: string): string {
+  return `<div style="background:#fff;border-radius:8px;padding:20px;margin-bottom:16px">
+    <h2 style="margin:0 0 12px;font-size:17px">${escapeHtml(title)}</h2>
+    ${body}
+  </div>`;
+}
+
+function stats(items: [label: string, value: string, note: string | null][]): string {
+  return `<table style="width:100%;border-collapse:collapse"><tr>${items.map(([label, value, note]) =>
+    `<td style="padding:4px 8px 4px 0;vertical-align:top">
+      <div style="font-size:12px;color:#6b7280">${escapeHtml(label)}</div>
+      <div style="font-size:20px;font-weight:600">${escapeHtml(value)}</div>
+      ${note ? `<div style="font-size:12px;color:#6b7280">${escapeHtml(note)}</div>` : ''}
+    </td>`
+  ).join('')}</tr></table>`;
+}
+
+// Cells are already-escaped HTML
+function table(headers: string[], rows: string[][]): string {
+  return `<table style="width:100%;border-collapse:collapse;font-size:14px;margin-top:12px">
+    <tr>${headers.map(header => `<th style="text-align:left;padding:6px 8px 6px 0;border-bottom:1px solid #e5e7eb;color:#6b7280;font-weight:500">${escapeHtml(header)}</th>`).join('')}</tr>
+    ${rows.map(row => `<tr>${row.map(cell => `<td style="padding:6px 8px 6px 0;border-bottom:1px solid #f3f4f6">${cell}</td>`).join('')}</tr>`).join('\n    ')}
+  </table>`;
+}
+
+function bar(pct: number, color: string): string {
+  return `<span style="display:inline-block;width:${Math.round(Math.min(pct, 100))}px;height:8px;background:${color};border-radius:4px"></span>`;
+}
+
+function empty(message: string): string {
+  return `<p style="color:#6b7280;margin:12px 0 0">${escapeHtml(message)}</p>`;
+}
+
+function sectionLabel(section: ReportSection): string {
+  return REPORT_SECTIONS.find(option => option.value === section)?.label || section;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,285 @@
+/**
+ * PDF report
+ *
+ * Drawn with jsPDF like the Brand Bible export (lib/export-utils.ts), but
+ * returned as bytes so it can be generated on the server, attached to emails
+ * and downloaded from the archive.
+ */
+
+import { jsPDF } from 'jspdf';
+import { DEFAULT_BRANDING, hexToRgb, type Branding } from '@/lib/branding';
+import { REPORT_SECTIONS, type ReportData } from '@/lib/types';
+import { formatDate, formatNumber, formatPeriod, formatVisibilityChange } from './format';
+
+const MARGIN = 20;
+const HEADER_HEIGHT = 42;
+const MUTED: [number, number, number] = [107, 114, 128];
+const TEXT: [number, number, number] = [17, 24, 39];
+
+// logo is the workspace logo from loadServerLogo(), drawn in the header band
+export function renderReportPdf(
+  title: string,
+  data: ReportData,
+  branding: Branding = DEFAULT_BRANDING,
+  logo: { dataUrl: string; format: 'PNG' | 'JPEG' } | null = null
+): ArrayBuffer {
+  const primary = hexToRgb(branding.primaryColor);
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  let y = 0;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - MARGIN) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const text = (value: string, fontSize: number, options: { bold?: boolean; color?: [number, number, number] } = {}) => {
+    doc.setFontSize(fontSize);
+    doc.setFont('helvetica', options.bold ? 'bold' : 'normal');
+    doc.setTextColor(...(options.color || TEXT));
+    const lines = doc.splitTextToSize(value, contentWidth);
+    const lineHeight = fontSize * 0.45;
+    ensureSpace(lines.length * lineHeight);
+    doc.text(lines, MARGIN, y);
+    y += lines.length * lineHeight + 2;
+  };
+
+  const heading = (value: string) => {
+    ensureSpace(30);
+    y += 6;
+    text(value, 14, { bold: true });
+    doc.setDrawColor(229, 231, 235);
+    doc.line(MARGIN, y - 1, pageWidth - MARGIN, y - 1);
+    y += 4;
+  };
+
+  // A row of label/value pairs
+  const stats = (items: [label: string, value: string, note?: string | null][]) => {
+    ensureSpace(20);
+    const columnWidth = contentWidth / items.length;
+    items.forEach(([label, value, note], index) => {
+      const x = MARGIN + index * columnWidth;
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8);
+      doc.setTextColor(...MUTED);
+      doc.text(label, x, y);
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(14);
+      doc.setTextColor(...TEXT);
+      doc.text(value, x, y + 7);
+      if (note) {
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(8);
+        doc.setTextColor(...MUTED);
+        doc.text(note, x, y + 12);
+      }
+    });
+    y += 18;
+  };
+
+  // Columns after the first are right-aligned numbers
+  const table = (headers: string[], rows: string[][], firstColumnShare = 0.55) => {
+    const firstWidth = contentWidth * firstColumnShare;
+    const otherWidth = (contentWidth - firstWidth) / Math.max(headers.length - 1, 1);
+    const columnRight = (index: number) => MARGIN + firstWidth + otherWidth * index;
+
+    const row = (cells: string[], header: boolean) => {
+      doc.setFont('helvetica', header ? 'bold' : 'normal');
+      doc.setFontSize(9);
+      doc.setTextColor(...(header ? MUTED : TEXT));
+      const firstLines = doc.splitTextToSize(cells[0], firstWidth - 4) as string[];
+      const height = firstLines.length * 4.2 + 2;
+      ensureSpace(height);
+      doc.text(firstLines, MARGIN, y);
+      cells.slice(1).forEach((cell, index) => {
+        doc.text(cell, columnRight(index + 1), y, { align: 'right' });
+      });
+      y += height;
+    };
+
+    row(headers, true);
+    rows.forEach(cells => row(cells, false));
+    y += 2;
+  };
+
+  // Header band
+  doc.setFillColor(...primary);
+  doc.rect(0, 0, pageWidth, HEADER_HEIGHT, 'F');
+  if (logo) {
+    try {
+      const { width, height } = doc.getImageProperties(logo.dataUrl);
+      const scale = Math.min(40 / width, 22 / height);
+      doc.addImage(logo.dataUrl, logo.format, pageWidth - MARGIN - width * scale, (HEADER_HEIGHT - height * scale) / 2, width * scale, height * scale);
+    } catch {
+      // Unreadable image; the name in the header is enough
+    }
+  }
+  doc.setTextColor(255, 255, 255);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text(data.project.name || data.project.tracked_brand, MARGIN, 18);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(11);
+  doc.text(`${title} · ${formatPeriod(data)}`, MARGIN, 27);
+  if (data.project.website_url) {
+    doc.setFontSize(9);
+    doc.text(data.project.website_url, MARGIN, 34);
+  }
+  y = 54;
+
+  if (data.visibility) {
+    const visibility = data.visibility;
+    heading('Visibility trend');
+    stats([
+      ['Average visibility', visibility.average === null ? '—' : `${formatNumber(visibility.average, 1)}%`, formatVisibilityChange(visibility)],
+      ['Responses', formatNumber(visibility.responseCount)],
+      ['Brand mentions', formatNumber(visibility.mentionCount)],
+      ['Domain citations', formatNumber(visibility.citationCount)],
+    ]);
+
+    if (visibility.daily.length > 0) {
+      const chartHeight = 35;
+      ensureSpace(chartHeight + 8);
+      const max = Math.max(100, ...visibility.daily.map(day => day.visibility_score));
+      const barWidth = contentWidth / visibility.daily.length;
+      doc.setFillColor(...primary);
+      visibility.daily.forEach((day, index) => {
+        const height = Math.max(0.5, (day.visibility_score / max) * chartHeight);
+        doc.rect(MARGIN + index * barWidth + 0.3, y + chartHeight - height, Math.max(barWidth - 0.6, 0.3), height, 'F');
+      });
+      doc.setFontSize(7);
+      doc.setTextColor(...MUTED);
+      doc.text(formatDate(visibility.daily[0].date), MARGIN, y + chartHeight + 5);
+      doc.text(formatDate(visibility.daily[visibility.daily.length - 1].date), pageWidth - MARGIN, y + chartHeight + 5, { align: 'right' });
+      y += chartHeight + 10;
+    } else {
+      text('No collections in this period', 9, { color: MUTED });
+    }
+  }
+
+  if (data.shareOfVoice) {
+    heading('Share of voice');
+    if (data.shareOfVoice.entities.length > 0) {
+      table(['Brand', 'Mentions', 'Share'], data.shareOfVoice.entities.map(entity => [
+        entity.isBrand ? `${entity.name} (you)` : entity.name,
+        formatNumber(entity.mentionCount),
+        `${formatNumber(entity.share, 1)}%`,
+      ]));
+    } else {
+      text('No mentions in this period', 9, { color: MUTED });
+    }
+  }
+
+  if (data.citations) {
+    heading('Top citations');
+    stats([
+      ['Citations', formatNumber(data.citations.total)],
+      ['Citing your domain', formatNumber(data.citations.ownDomain)],
+    ]);
+    if (data.citations.topDomains.length > 0) {
+      table(['Domain', 'Citations'], data.citations.topDomains.map(domain => [
+        domain.isOwnDomain ? `${domain.domain} (you)` : domain.domain,
+        formatNumber(domain.count),
+      ]));
+    }
+  }
+
+  if (data.sentiment) {
+    const sentiment = data.sentiment;
+    const total = sentiment.positive + sentiment.neutral + sentiment.negative;
+    const pct = (count: number) => `${formatNumber(total > 0 ? (count / total) * 100 : 0)}%`;
+    heading('Sentiment');
+    stats([
+      ['Positive', formatNumber(sentiment.positive), pct(sentiment.positive)],
+      ['Neutral', formatNumber(sentiment.neutral), pct(sentiment.neutral)],
+      ['Negative', formatNumber(sentiment.negative), pct(sentiment.negative)],
+      ['Average score', formatNumber(sentiment.average, 2)],
+    ]);
+  }
+
+  if (data.answerGaps) {
+    heading('Answer gaps');
+    text(`The brand was missing from ${formatNumber(data.answerGaps.gapCount)} of ${formatNumber(data.answerGaps.promptCount)} prompts answered this period.`, 9, { color: MUTED });
+    if (data.answerGaps.gaps.length > 0) {
+      table(['Prompt', 'Competitors mentioned'], data.answerGaps.gaps.map(gap => [
+        gap.promptText,
+        gap.competitors.slice(0, 3).join(', ') || '—',
+      ]), 0.65);
+    }
+  }
+
+  if (data.content) {
+    heading('Content produced');
+    stats([
+      ['Pieces created', formatNumber(data.content.total)],
+      ['Published', formatNumber(data.content.published)],
+    ]);
+    if (data.content.items.length > 0) {
+      table(['Title', 'Status', 'Created'], data.content.items.map(item => [
+        item.title,
+        item.status,
+        formatDate(item.created_at.split('T')[0]),
+      ]));
+    }
+  }
+
+  if (data.searchConsole) {
+    const searchConsole = data.searchConsole;
+    heading('Search Console');
+    stats([
+      ['Clicks', formatNumber(searchConsole.clicks)],
+      ['Impressions', formatNumber(searchConsole.impressions)],
+      ['CTR', `${formatNumber(searchConsole.ctr * 100, 1)}%`],
+      ['Avg. position', formatNumber(searchConsole.position, 1)],
+    ]);
+    if (searchConsole.topQueries.length > 0) {
+      table(['Query', 'Clicks', 'Impressions', 'Position'], searchConsole.topQueries.map(query => [
+        query.query,
+        formatNumber(query.clicks),
+        formatNumber(query.impressions),
+        formatNumber(query.position, 1),
+      ]), 0.5);
+    }
+  }
+
+  if (data.analytics) {
+    heading('Google Analytics');
+    stats([
+      ['Sessions', formatNumber(data.analytics.sessions)],
+      ['Users', formatNumber(data.analytics.users)],
+      ['Page views', formatNumber(data.analytics.pageViews)],
+    ]);
+    if (data.analytics.topChannels.length > 0) {
+      table(['Channel', 'Sessions'], data.analytics.topChannels.map(channel => [
+        channel.channel,
+        formatNumber(channel.sessions),
+      ]));
+    }
+  }
+
+  for (const { section, reason } of data.unavailable) {
+    heading(REPORT_SECTIONS.find(option => option.value === section)?.label || section);
+    text(reason, 9, { color: MUTED });
+  }
+
+  // Footer on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(150, 150, 150);
+    doc.text(
+      `Page ${i} of ${pageCount} | Generated by ${branding.name} on ${formatDate(data.generatedAt.split('T')[0])}`,
+      pageWidth / 2,
+      pageHeight - 10,
+      { align: 'center' }
+    );
+  }
+
+  return doc.output('arraybuffer');
+}
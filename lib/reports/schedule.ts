@@ -0,0 +1,40 @@
+/**
+ * Report schedules
+ *
+ * Weekly schedules run on Mondays and cover the previous 7 days; monthly
+ * schedules run on the 1st and cover the previous calendar month. All times
+ * are UTC.
+ */
+
+import { getNextCronDate } from '@/lib/collection/schedule';
+import type { ReportFrequency } from '@/lib/types';
+
+const SCHEDULE_CRON: Record<ReportFrequency, string> = {
+  weekly: '0 7 * * 1',  // Mondays at 07:00 UTC
+  monthly: '0 7 1 * *', // The 1st at 07:00 UTC
+};
+
+export function computeReportNextRunAt(frequency: ReportFrequency, from: Date = new Date()): Date | null {
+  return getNextCronDate(SCHEDULE_CRON[frequency], from);
+}
+
+/**
+ * The period a report run at `runAt` covers, as inclusive dates
+ */
+export function getReportPeriod(frequency: ReportFrequency, runAt: Date = new Date()): { periodStart: string; periodEnd: string } {
+  const today = runAt.toISOString().split('T')[0];
+
+  if (frequency === 'weekly') {
+    return { periodStart: addDays(today, -7), periodEnd: addDays(today, -1) };
+  }
+
+  const firstOfMonth = `${today.slice(0, 7)}-01`;
+  const periodEnd = addDays(firstOfMonth, -1);
+  return { periodStart: `${periodEnd.slice(0, 7)}-01`, periodEnd };
+}
+
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
@@ -0,0 +1,92 @@
+/**
+ * Scheduled Reports
+ *
+ * Generates and emails reports for schedules whose next_run_at has passed.
+ * Each schedule is claimed by advancing next_run_at, like monitors in
+ * lib/collection/scheduler.ts, so overlapping cron invocations don't send a
+ * report twice.
+ */
+
+import { supabaseAdmin } from '@/lib/supabase-server';
+import type { ReportSchedule } from '@/lib/types';
+import { generateReport } from './generate';
+import { computeReportNextRunAt, getReportPeriod } from './schedule';
+
+// Cap per invocation so one cron call stays within the function time limit
+const MAX_SCHEDULES_PER_TICK = 10;
+
+export interface ScheduledReportSummary {
+  scheduleId: string;
+  reportId: string | null;
+  status: 'completed' | 'failed' | 'skipped';
+  nextRunAt: string | null;
+}
+
+export async function runDueReportSchedules(now: Date = new Date()): Promise<ScheduledReportSummary[]> {
+  const { data, error } = await supabaseAdmin
+    .from('report_schedules')
+    .select('*')
+    .eq('is_active', true)
+    .or(`next_run_at.is.null,next_run_at.lte.${now.toISOString()}`)
+    .order('next_run_at', { ascending: true, nullsFirst: true })
+    .limit(MAX_SCHEDULES_PER_TICK);
+
+  if (error) {
+    console.error('[Reports] Failed to fetch due schedules:', error);
+    throw new Error('Failed to fetch due report schedules');
+  }
+
+  const summaries: ScheduledReportSummary[] = [];
+
+  for (const schedule of (data || []) as ReportSchedule[]) {
+    const nextRunAt = computeReportNextRunAt(schedule.frequency, now)?.toISOString() || null;
+
+    // Schedules saved without next_run_at get one instead of sending a
+    // report straight away
+    if (!schedule.next_run_at) {
+      await supabaseAdmin
+        .from('report_schedules')
+        .update({ next_run_at: nextRunAt } as never)
+        .eq('id', schedule.id)
+        .is('next_run_at', null);
+      summaries.push({ scheduleId: schedule.id, reportId: null, status: 'skipped', nextRunAt });
+      continue;
+    }
+
+    const { data: claimed } = await supabaseAdmin
+      .from('report_schedules')
+      .update({ next_run_at: nextRunAt, last_run_at: now.toISOString() } as never)
+      .eq('id', schedule.id)
+      .eq('next_run_at', schedule.next_run_at)
+      .select('id');
+
+    if (!claimed || claimed.length === 0) {
+      summaries.push({ scheduleId: schedule.id, reportId: null, status: 'skipped', nextRunAt });
+      continue;
+    }
+
+    try {
+      const report = await generateReport({
+        projectId: schedule.project_id,
+        scheduleId: schedule.id,
+        title: schedule.name,
+        ...getReportPeriod(schedule.frequency, new Date(schedule.next_run_at)),
+        sections: schedule.sections,
+        recipients: schedule.recipients,
+        format: schedule.format,
+      });
+
+      summaries.push({
+        scheduleId: schedule.id,
+        reportId: report.id,
+        status: report.status === 'completed' ? 'completed' : 'failed',
+        nextRunAt,
+      });
+    } catch (error) {
+      console.error(`[Reports] Schedule ${schedule.id} failed:`, error);
+      summaries.push({ scheduleId: schedule.id, reportId: null, status: 'failed', nextRunAt });
+    }
+  }
+
+  return summaries;
+}
@@ -0,0 +1,261 @@
+/**
+ * Response Analysis
+ *
+ * Detects which tracked entities (the brand and each competitor, including
+ * their aliases) an AI response mentions, quotes the sentences that mention
+ * them, scores sentiment toward each one and extracts the ordered list of
+ * brands the response recommends (giving each entity's rank). A model does
+ * the analysis when ANTHROPIC_API_KEY is set; otherwise, or if the model
+ * call fails, the keyword heuristics in lib/ai-providers are used as an
+ * offline fallback.
+ */
+
+import { callClaude } from '@/lib/content-pipeline/ai-client';
+import { analyzeSentiment, checkBrandMention } from '@/lib/ai-providers';
+import type { EntityMention, ResponseAnalysis } from '@/lib/types';
+
+const ANALYSIS_MODEL = process.env.ANALYSIS_MODEL || 'claude-haiku-4-5-20251001';
+
+// Long answers are truncated so analysis stays fast and cheap
+const MAX_RESPONSE_CHARS = 12000;
+
+// Heuristic results are less reliable than model judgements
+const HEURISTIC_CONFIDENCE = 0.5;
+
+export interface AnalysisEntity {
+  name: string;
+  aliases: string[];
+}
+
+export interface AnalyzeResponseInput {
+  responseText: string;
+  brand: AnalysisEntity;
+  competitors: AnalysisEntity[];
+}
+
+/**
+ * Analysis plus the summary fields stored directly on the response row
+ */
+export interface AnalyzeResponseResult {
+  analysis: ResponseAnalysis;
+  mentionsBrand: boolean;
+  brandsMentioned: string[];
+  /** Brand sentiment, 0 (negative) to 1 (positive); null when not mentioned */
+  sentimentScore: number | null;
+  confidence: number;
+  /** Brand position among the recommended brands; null when not ranked */
+  brandRank: number | null;
+  /** Competitor name -> position, for ranked competitors only */
+  competitorRanks: Record<string, number>;
+}
+
+interface ModelEntityResult {
+  name: string;
+  mentioned: boolean;
+  sentences?: string[];
+  sentiment?: number | null;
+  confidence?: number;
+}
+
+/**
+ * Analyze a response, falling back to heuristics when the model is
+ * unavailable
+ */
+export async function analyzeResponse(input: AnalyzeResponseInput): Promise<AnalyzeResponseResult> {
+  let analysis: ResponseAnalysis | null = null;
+
+  if (process.env.ANTHROPIC_API_KEY) {
+    try {
+      analysis = await analyzeWithModel(input);
+    } catch (error) {
+      console.error('[Analysis] Model analysis failed, using heuristics:', error);
+    }
+  }
+
+  return summarize(analysis || analyzeWithHeuristics(input));
+}
+
+function summarize(analysis: ResponseAnalysis): AnalyzeResponseResult {
+  const brand = analysis.entities.find(e => e.is_brand);
+
+  return {
+    analysis,
+    mentionsBrand: !!brand?.mentioned,
+    brandsMentioned: analysis.entities.filter(e => e.mentioned).map(e => e.name),
+    sentimentScore: brand?.mentioned ? brand.sentiment : null,
+    confidence: brand?.confidence ?? HEURISTIC_CONFIDENCE,
+    brandRank: brand?.rank ?? null,
+    competitorRanks: Object.fromEntries(
+      analysis.entities
+        .filter(e => !e.is_brand && typeof e.rank === 'number')
+        .map(e => [e.name, e.rank as number])
+    ),
+  };
+}
+
+async function analyzeWithModel(input: AnalyzeResponseInput): Promise<ResponseAnalysis> {
+  const entities = [input.brand, ...input.competitors];
+
+  const entityList = entities
+    .map(e => e.aliases.length > 0 ? `- ${e.name} (also known as: ${e.aliases.join(', ')})` : `- ${e.name}`)
+    .join('\n');
+
+  const systemPrompt = `You analyze answers written by AI assistants to measure brand visibility.
+
+For each entity in the list, decide whether the answer mentions it. Count the entity's name, its aliases, obvious misspellings and products that clearly belong to it. Do not count generic words that merely share a name (e.g. "apple" the fruit).
+
+For each mentioned entity:
+- quote every sentence that mentions it exactly as written in the answer
+- score the sentiment the answer expresses toward that entity from 0 (negative) through 0.5 (neutral) to 1 (positive)
+
+Give a confidence from 0 to 1 for each judgement.
+
+Also list, in the order the answer presents them, every brand, company or product the answer recommends or offers as an option, including ones not in the entity list. Use the entity name exactly as listed for listed entities. Use [] when the answer doesn't recommend anything.
+
+Respond with JSON only:
+{"entities": [{"name": "<entity name exactly as listed>", "mentioned": true, "sentences": ["..."], "sentiment": 0.8, "confidence": 0.9}], "ranking": ["<first recommended brand>", "..."]}
+Include every listed entity. Use "sentences": [] and "sentiment": null when an entity isn't mentioned.`;
+
+  const userMessage = `Entities:\n${entityList}\n\nAnswer:\n"""\n${input.responseText.slice(0, MAX_RESPONSE_CHARS)}\n"""`;
+
+  const result = await callClaude<{ entities: ModelEntityResult[]; ranking?: string[] }>(systemPrompt, userMessage, {
+    model: ANALYSIS_MODEL,
+    temperature: 0,
+    maxTokens: 2000,
+    timeoutMs: 60000,
+  });
+
+  const byName = new Map(
+    (result.entities || []).map(e => [e.name?.toLowerCase(), e])
+  );
+  const ranking = (Array.isArray(result.ranking) ? result.ranking : [])
+    .filter((name): name is string => typeof name === 'string' && name.trim().length > 0);
+
+  return {
+    method: 'llm',
+    model: ANALYSIS_MODEL,
+    analyzed_at: new Date().toISOString(),
+    ranking,
+    entities: entities.map((entity, index) => {
+      const found = byName.get(entity.name.toLowerCase());
+      const mentioned = !!found?.mentioned;
+      return {
+        name: entity.name,
+        is_brand: index === 0,
+        mentioned,
+        sentences: mentioned ? (found?.sentences || []) : [],
+        sentiment: mentioned ? clampScore(found?.sentiment) : null,
+        confidence: clampScore(found?.confidence) ?? HEURISTIC_CONFIDENCE,
+        rank: mentioned ? findRank(ranking, entity) : null,
+      };
+    }),
+  };
+}
+
+/**
+ * 1-based position of an entity (by name or alias) in a ranking
+ */
+function findRank(ranking: string[], entity: AnalysisEntity): number | null {
+  const terms = [entity.name, ...entity.aliases].map(t => t.toLowerCase());
+  const index = ranking.findIndex(name => terms.includes(name.trim().toLowerCase()));
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * Keyword-based fallback. Sentiment is only scored over the sentences that
+ * mention the entity, not the whole answer. When the answer is a list, an
+ * entity's rank is the list item it first appears in (so untracked brands
+ * still count toward position); otherwise entities are ranked by first
+ * mention.
+ */
+export function analyzeWithHeuristics(input: AnalyzeResponseInput): ResponseAnalysis {
+  const sentences = splitSentences(input.responseText);
+  const listItems = splitListItems(input.responseText);
+
+  // Positions used for ranking: first mentioning sentence and list item
+  const positions = new Map<EntityMention, { sentence: number; listItem: number }>();
+
+  const analyzeEntity = (entity: AnalysisEntity, isBrand: boolean): EntityMention => {
+    const terms = [entity.name, ...entity.aliases];
+    const matches = (sentence: string) =>
+      isBrand
+        ? terms.some(term => checkBrandMention(sentence, term))
+        : terms.some(term => sentence.toLowerCase().includes(term.toLowerCase()));
+
+    const mentioning = sentences.filter(matches);
+    const mentioned = mentioning.length > 0;
+
+    let sentiment: number | null = null;
+    if (mentioned) {
+      // analyzeSentiment returns -1..1 and requires the term in the text
+      const text = mentioning.join(' ');
+      const term = terms.find(t => text.toLowerCase().includes(t.toLowerCase())) || entity.name;
+      const raw = analyzeSentiment(text, term);
+      sentiment = raw === null ? 0.5 : Math.round(((raw + 1) / 2) * 100) / 100;
+    }
+
+    const mention: EntityMention = {
+      name: entity.name,
+      is_brand: isBrand,
+      mentioned,
+      sentences: mentioning,
+      sentiment,
+      confidence: HEURISTIC_CONFIDENCE,
+      rank: null,
+    };
+    positions.set(mention, {
+      sentence: mentioned ? sentences.indexOf(mentioning[0]) : -1,
+      listItem: listItems.findIndex(matches),
+    });
+    return mention;
+  };
+
+  const analyzed = [
+    analyzeEntity(input.brand, true),
+    ...input.competitors.map(c => analyzeEntity(c, false)),
+  ];
+
+  const isList = listItems.length > 0;
+  const positionOf = (e: EntityMention) => {
+    const position = positions.get(e)!;
+    return isList ? position.listItem : position.sentence;
+  };
+
+  const ranked = analyzed
+    .filter(e => e.mentioned && positionOf(e) !== -1)
+    .sort((a, b) => positionOf(a) - positionOf(b));
+
+  ranked.forEach((entity, index) => {
+    entity.rank = isList ? positionOf(entity) + 1 : index + 1;
+  });
+
+  return {
+    method: 'heuristic',
+    model: null,
+    analyzed_at: new Date().toISOString(),
+    ranking: ranked.map(e => e.name),
+    entities: analyzed,
+  };
+}
+
+/**
+ * Top-level numbered or bulleted list items, in order
+ */
+function splitListItems(text: string): string[] {
+  return text
+    .split('\n')
+    .filter(line => /^\s?(\d+[.)]|[-*•])\s+/.test(line))
+    .map(line => line.trim());
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+}
+
+function clampScore(value: number | null | undefined): number | null {
+  if (typeof value !== 'number' || Number.isNaN(value)) return null;
+  return Math.max(0, Math.min(1, value));
+}
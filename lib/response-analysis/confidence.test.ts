@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareMeans,
+  comparePaired,
+  compareProportions,
+  meanInterval,
+  proportionInterval,
+  responseVisibility,
+} from './confidence';
+
+describe('proportionInterval', () => {
+  it('gives the Wilson score interval', () => {
+    const interval = proportionInterval(5, 10);
+
+    expect(interval.rate).toBe(50);
+    expect(interval.low).toBeCloseTo(23.66, 2);
+    expect(interval.high).toBeCloseTo(76.34, 2);
+    expect(interval.margin).toBeCloseTo(26.34, 2);
+  });
+
+  it('stays within 0-100 at the extremes', () => {
+    const none = proportionInterval(0, 10);
+    expect(none.low).toBe(0);
+    expect(none.high).toBeCloseTo(27.75, 2);
+
+    const all = proportionInterval(10, 10);
+    expect(all.low).toBeCloseTo(72.25, 2);
+    expect(all.high).toBe(100);
+  });
+
+  it('narrows as the sample grows', () => {
+    expect(proportionInterval(50, 100).margin).toBeLessThan(proportionInterval(5, 10).margin);
+  });
+
+  it('is empty without responses', () => {
+    expect(proportionInterval(0, 0)).toEqual({ rate: 0, low: 0, high: 0, margin: 0 });
+  });
+});
+
+describe('meanInterval', () => {
+  it('uses the sample standard error', () => {
+    const interval = meanInterval([40, 60, 60, 40]);
+
+    expect(interval.rate).toBe(50);
+    // sd = sqrt(400 / 3), se = sd / 2
+    expect(interval.standardError).toBeCloseTo(5.774, 3);
+    expect(interval.margin).toBeCloseTo(1.96 * 5.774, 2);
+  });
+
+  it('clamps bounds to the 0-100 scale', () => {
+    const interval = meanInterval([0, 100]);
+    expect(interval.low).toBe(0);
+    expect(interval.high).toBe(100);
+  });
+
+  it('has no spread for fewer than two values', () => {
+    expect(meanInterval([]).margin).toBe(0);
+    expect(meanInterval([60]).margin).toBe(0);
+  });
+});
+
+describe('responseVisibility', () => {
+  it('weights mentions and citations', () => {
+    expect(responseVisibility({ mentions_brand: false, cites_domain: false })).toBe(0);
+    expect(responseVisibility({ mentions_brand: false, cites_domain: true })).toBe(40);
+    expect(responseVisibility({ mentions_brand: true, cites_domain: false })).toBe(60);
+    expect(responseVisibility({ mentions_brand: true, cites_domain: true })).toBe(100);
+  });
+});
+
+describe('compareProportions', () => {
+  it('flags a change larger than sampling noise', () => {
+    const test = compareProportions({ successes: 10, total: 100 }, { successes: 30, total: 100 });
+
+    expect(test.difference).toBeCloseTo(20);
+    expect(test.pValue).toBeLessThan(0.001);
+    expect(test.significant).toBe(true);
+  });
+
+  it('does not flag a small change on a small sample', () => {
+    const test = compareProportions({ successes: 5, total: 10 }, { successes: 6, total: 10 });
+
+    expect(test.difference).toBeCloseTo(10);
+    expect(test.significant).toBe(false);
+  });
+
+  it('cannot test without responses or spread', () => {
+    expect(compareProportions({ successes: 0, total: 0 }, { successes: 3, total: 10 }))
+      .toMatchObject({ pValue: 1, significant: false });
+    expect(compareProportions({ successes: 0, total: 10 }, { successes: 0, total: 10 }))
+      .toMatchObject({ difference: 0, pValue: 1, significant: false });
+  });
+});
+
+describe('compareMeans', () => {
+  it('gives a two-sided p-value from the combined standard error', () => {
+    // z = 1.96 sits right at the 5% level
+    const test = compareMeans({ mean: 0, standardError: 1 }, { mean: 1.96, standardError: 0 });
+
+    expect(test.difference).toBeCloseTo(1.96);
+    expect(test.pValue).toBeCloseTo(0.05, 4);
+  });
+
+  it('flags a change larger than both errors', () => {
+    expect(compareMeans({ mean: 50, standardError: 2 }, { mean: 60, standardError: 2 }).significant).toBe(true);
+    expect(compareMeans({ mean: 50, standardError: 5 }, { mean: 55, standardError: 5 }).significant).toBe(false);
+  });
+});
+
+describe('comparePaired', () => {
+  it('tests the mean per-unit difference', () => {
+    const test = comparePaired([10, 20, 30, 40, 50], [30, 45, 50, 55, 75]);
+
+    expect(test.difference).toBe(21);
+    expect(test.significant).toBe(true);
+  });
+
+  it('does not flag differences that cancel out', () => {
+    const test = comparePaired([10, 50, 30, 70], [50, 10, 70, 30]);
+
+    expect(test.difference).toBe(0);
+    expect(test.significant).toBe(false);
+  });
+
+  it('cannot test without pairs', () => {
+    expect(comparePaired([], [])).toEqual({ difference: 0, pValue: 1, significant: false });
+  });
+});
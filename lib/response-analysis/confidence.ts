@@ -0,0 +1,146 @@
+/**
+ * Confidence intervals
+ *
+ * AI answers are non-deterministic, so a visibility or mention rate measured
+ * from a handful of responses is an estimate. These helpers give 95%
+ * intervals for the rates stored in visibility_metrics and test whether two
+ * measurements differ by more than sampling noise. Within one row each
+ * response counts as one independent trial; across prompts, responses to
+ * the same prompt are correlated, so project-level comparisons treat the
+ * prompt as the unit (see comparePaired).
+ */
+
+// Visibility score weights: mentions 60%, citations 40%
+export const MENTION_WEIGHT = 0.6;
+export const CITATION_WEIGHT = 0.4;
+
+// Two-sided 95%
+const Z_95 = 1.96;
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+export interface RateInterval {
+  /** Percent, 0-100 */
+  rate: number;
+  low: number;
+  high: number;
+  /** Half-width of the interval, for "34% ± 8%" */
+  margin: number;
+}
+
+export interface ChangeTest {
+  /** Current minus previous, in the measurement's units */
+  difference: number;
+  pValue: number;
+  significant: boolean;
+}
+
+/**
+ * Wilson score interval for a proportion; well behaved for small samples
+ * and rates near 0 or 100%
+ */
+export function proportionInterval(successes: number, total: number): RateInterval {
+  if (total <= 0) return { rate: 0, low: 0, high: 0, margin: 0 };
+
+  const p = successes / total;
+  const z2 = Z_95 * Z_95;
+  const center = (p + z2 / (2 * total)) / (1 + z2 / total);
+  const spread = (Z_95 / (1 + z2 / total)) * Math.sqrt((p * (1 - p)) / total + z2 / (4 * total * total));
+
+  const low = Math.max(0, center - spread) * 100;
+  const high = Math.min(1, center + spread) * 100;
+
+  return { rate: p * 100, low, high, margin: (high - low) / 2 };
+}
+
+/**
+ * Normal interval for a mean; values are per-response scores on a 0-100
+ * scale, so the bounds are clamped to it
+ */
+export function meanInterval(values: number[]): RateInterval & { standardError: number } {
+  const n = values.length;
+  if (n === 0) return { rate: 0, low: 0, high: 0, margin: 0, standardError: 0 };
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const variance = n > 1 ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1) : 0;
+  const standardError = Math.sqrt(variance / n);
+  const margin = Z_95 * standardError;
+
+  return { rate: mean, low: Math.max(0, mean - margin), high: Math.min(100, mean + margin), margin, standardError };
+}
+
+/**
+ * A response's contribution to the visibility score (0, 40, 60 or 100); the
+ * score is the mean of these over a set of responses
+ */
+export function responseVisibility(response: { mentions_brand: boolean; cites_domain: boolean }): number {
+  return (response.mentions_brand ? MENTION_WEIGHT * 100 : 0) + (response.cites_domain ? CITATION_WEIGHT * 100 : 0);
+}
+
+/**
+ * Two-proportion z-test between a previous and a current measurement
+ */
+export function compareProportions(
+  previous: { successes: number; total: number },
+  current: { successes: number; total: number }
+): ChangeTest {
+  const p1 = previous.total > 0 ? previous.successes / previous.total : 0;
+  const p2 = current.total > 0 ? current.successes / current.total : 0;
+  const difference = (p2 - p1) * 100;
+
+  if (previous.total === 0 || current.total === 0) {
+    return { difference, pValue: 1, significant: false };
+  }
+
+  const pooled = (previous.successes + current.successes) / (previous.total + current.total);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / previous.total + 1 / current.total));
+
+  return testDifference(standardError > 0 ? (p2 - p1) / standardError : NaN, difference);
+}
+
+/**
+ * z-test between two means from their standard errors (Welch-style)
+ */
+export function compareMeans(
+  previous: { mean: number; standardError: number },
+  current: { mean: number; standardError: number }
+): ChangeTest {
+  const difference = current.mean - previous.mean;
+  const standardError = Math.sqrt(previous.standardError ** 2 + current.standardError ** 2);
+  return testDifference(standardError > 0 ? difference / standardError : NaN, difference);
+}
+
+/**
+ * Paired z-test over the same units measured twice, e.g. each prompt's rate
+ * on two collection days; values are matched by index
+ */
+export function comparePaired(previous: number[], current: number[]): ChangeTest {
+  const differences = current.map((value, i) => value - previous[i]);
+  const n = differences.length;
+  if (n === 0) return { difference: 0, pValue: 1, significant: false };
+
+  const mean = differences.reduce((sum, d) => sum + d, 0) / n;
+  const variance = n > 1 ? differences.reduce((sum, d) => sum + (d - mean) ** 2, 0) / (n - 1) : 0;
+  const standardError = Math.sqrt(variance / n);
+
+  return testDifference(standardError > 0 ? mean / standardError : NaN, mean);
+}
+
+// z is the difference over its standard error; reported is the difference in
+// the caller's units
+function testDifference(z: number, reported: number): ChangeTest {
+  if (!Number.isFinite(z)) {
+    // No measurable spread (e.g. a single response each): can't tell change from noise
+    return { difference: reported, pValue: 1, significant: false };
+  }
+
+  const pValue = 2 * (1 - normalCdf(Math.abs(z)));
+  return { difference: reported, pValue, significant: pValue < SIGNIFICANCE_LEVEL };
+}
+
+// Standard normal CDF (Abramowitz & Stegun 26.2.17, error < 7.5e-8)
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+  const tail = density * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+}
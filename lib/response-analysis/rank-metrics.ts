@@ -0,0 +1,30 @@
+/**
+ * Rank Metrics
+ *
+ * Aggregates the brand rank stored on each response into the position
+ * metrics kept in visibility_metrics.
+ */
+
+export const TOP_RANK_CUTOFF = 3;
+
+export interface RankMetrics {
+  /** Mean brand rank over responses that rank the brand; null when none do */
+  avgPosition: number | null;
+  /** % of all responses that rank the brand in the top 3 */
+  top3Rate: number;
+}
+
+/**
+ * Summarize brand ranks, one entry per response (null when not ranked)
+ */
+export function computeRankMetrics(ranks: (number | null | undefined)[]): RankMetrics {
+  const ranked = ranks.filter((r): r is number => typeof r === 'number');
+  const top = ranked.filter(r => r <= TOP_RANK_CUTOFF).length;
+
+  return {
+    avgPosition: ranked.length > 0
+      ? Math.round((ranked.reduce((sum, r) => sum + r, 0) / ranked.length) * 10) / 10
+      : null,
+    top3Rate: ranks.length > 0 ? Math.round((top / ranks.length) * 1000) / 10 : 0,
+  };
+}
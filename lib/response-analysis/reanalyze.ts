@@ -0,0 +1,126 @@
+/**
+ * Response Re-analysis
+ *
+ * Backfills analysis for responses collected before model-based analysis
+ * existed (or re-runs it after aliases change) and updates the summary
+ * fields stored on each response.
+ */
+
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { analyzeResponse } from './analyze';
+
+export interface ReanalyzeOptions {
+  projectId: string;
+  limit?: number;
+  /** Re-analyze responses that already have an analysis */
+  force?: boolean;
+  /** With force: the cursor returned by the previous call */
+  cursor?: string | null;
+}
+
+export interface ReanalyzeResult {
+  analyzed: number;
+  failed: number;
+  remaining: number;
+  /** With force: pass to the next call to continue after this page; null when done */
+  cursor: string | null;
+}
+
+interface ProjectEntitiesRow {
+  tracked_brand: string;
+  brand_aliases: string[] | null;
+  competitors: { name: string; aliases: string[] | null }[] | null;
+}
+
+/**
+ * Analyze up to `limit` responses of a project, newest first. With force
+ * every response matches, so calls page through them with a cursor (the
+ * last response handled). Returns null when the project doesn't exist.
+ */
+export async function reanalyzeProjectResponses(options: ReanalyzeOptions): Promise<ReanalyzeResult | null> {
+  const { projectId, limit = 25, force = false, cursor = null } = options;
+
+  const { data: projectData, error: projectError } = await supabaseAdmin
+    .from('projects')
+    .select('tracked_brand, brand_aliases, competitors(name, aliases)')
+    .eq('id', projectId)
+    .single();
+
+  if (projectError || !projectData) {
+    return null;
+  }
+
+  const project = projectData as unknown as ProjectEntitiesRow;
+  const brand = { name: project.tracked_brand, aliases: project.brand_aliases || [] };
+  const competitors = (project.competitors || []).map(c => ({ name: c.name, aliases: c.aliases || [] }));
+
+  let query = supabaseAdmin
+    .from('responses')
+    .select('id, response_text, prompts!inner(monitors!inner(project_id))', { count: 'exact' })
+    .eq('prompts.monitors.project_id', projectId)
+    .order('collected_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (!force) {
+    query = query.is('analysis', null);
+  } else if (cursor) {
+    const { data: last } = await supabaseAdmin
+      .from('responses')
+      .select('collected_at')
+      .eq('id', cursor)
+      .maybeSingle();
+
+    if (!last) throw new Error('Unknown cursor');
+
+    // Older than the cursor, or as old with a lower id
+    const collectedAt = (last as { collected_at: string }).collected_at;
+    query = query.or(`collected_at.lt."${collectedAt}",and(collected_at.eq."${collectedAt}",id.lt.${cursor})`);
+  }
+
+  const { data, count, error } = await query;
+
+  if (error) {
+    console.error('[Analysis] Failed to fetch responses:', error);
+    throw new Error('Failed to fetch responses');
+  }
+
+  const responses = (data || []) as unknown as { id: string; response_text: string }[];
+  let analyzed = 0;
+  let failed = 0;
+
+  for (const response of responses) {
+    const result = await analyzeResponse({ responseText: response.response_text, brand, competitors });
+
+    const { error: updateError } = await supabaseAdmin
+      .from('responses')
+      .update({
+        mentions_brand: result.mentionsBrand,
+        sentiment_score: result.sentimentScore,
+        brands_mentioned: result.brandsMentioned,
+        analysis: result.analysis,
+        analysis_confidence: result.confidence,
+        brand_rank: result.brandRank,
+        competitor_ranks: result.competitorRanks,
+      } as never)
+      .eq('id', response.id);
+
+    if (updateError) {
+      console.error(`[Analysis] Failed to update response ${response.id}:`, updateError);
+      failed++;
+    } else {
+      analyzed++;
+    }
+  }
+
+  // With force, failures are passed over like the rest of the page;
+  // otherwise they stay unanalyzed and are picked up again
+  const remaining = Math.max(0, (count || 0) - (force ? responses.length : analyzed));
+
+  return {
+    analyzed,
+    failed,
+    remaining,
+    cursor: force && remaining > 0 && responses.length > 0 ? responses[responses.length - 1].id : null,
+  };
+}
@@ -0,0 +1,267 @@
+/**
+ * Response diffing
+ *
+ * Compares responses to the same prompt from the same model and persona
+ * collected at different times: brands that appeared or dropped out, ranking
+ * moves, citations gained or lost, sentiment shifts and a sentence-level diff
+ * of the answer text. A run's samples are interchangeable, so a run is
+ * compared through its representative sample (the one closest to the rest
+ * of its set) rather than sample by sample. Pure functions, used by the
+ * Responses page comparison view and the monitor's "what changed" digest.
+ */
+
+import type { Response } from '@/lib/types';
+
+// Sentiment is 0-1; smaller moves are treated as noise between runs
+export const SENTIMENT_SHIFT_THRESHOLD = 0.15;
+
+// Bounds the O(n*m) text diff on very long answers
+const MAX_DIFF_SENTENCES = 400;
+
+export type DiffableResponse = Pick<
+  Response,
+  'id' | 'mentions_brand' | 'sentiment_score' | 'brands_mentioned' | 'brand_rank' | 'competitor_ranks' | 'collected_at'
+> & {
+  response_text?: string;
+  citations?: { cited_domain: string; cited_url: string | null }[] | null;
+};
+
+export interface RankChange {
+  name: string;
+  isBrand: boolean;
+  // null when the entity wasn't ranked in that response
+  from: number | null;
+  to: number | null;
+}
+
+export interface TextDiffSegment {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface ResponseDiff {
+  previousId: string;
+  currentId: string;
+  // 'gained' when the tracked brand is now mentioned, 'lost' when it dropped out
+  brandMention: 'gained' | 'lost' | null;
+  brandsAdded: string[];
+  brandsRemoved: string[];
+  rankChanges: RankChange[];
+  citationsAdded: string[];
+  citationsRemoved: string[];
+  sentiment: {
+    from: number | null;
+    to: number | null;
+    delta: number | null;
+    shifted: boolean;
+  };
+  // Only computed when both responses carry their text
+  text: TextDiffSegment[] | null;
+}
+
+/**
+ * Diff two responses in one prompt/model series. brandName labels the tracked
+ * brand's rank in rankChanges.
+ */
+export function diffResponses(
+  previous: DiffableResponse,
+  current: DiffableResponse,
+  brandName = 'Your brand'
+): ResponseDiff {
+  const brands = diffSets(previous.brands_mentioned || [], current.brands_mentioned || []);
+  const citations = diffSets(citationKeys(previous), citationKeys(current));
+
+  const from = previous.sentiment_score;
+  const to = current.sentiment_score;
+  const delta = from !== null && to !== null ? Math.round((to - from) * 100) / 100 : null;
+
+  return {
+    previousId: previous.id,
+    currentId: current.id,
+    brandMention: previous.mentions_brand === current.mentions_brand
+      ? null
+      : current.mentions_brand ? 'gained' : 'lost',
+    brandsAdded: brands.added,
+    brandsRemoved: brands.removed,
+    rankChanges: diffRanks(previous, current, brandName),
+    citationsAdded: citations.added,
+    citationsRemoved: citations.removed,
+    sentiment: {
+      from,
+      to,
+      delta,
+      shifted: delta !== null && Math.abs(delta) >= SENTIMENT_SHIFT_THRESHOLD,
+    },
+    text: previous.response_text !== undefined && current.response_text !== undefined
+      ? diffText(previous.response_text, current.response_text)
+      : null,
+  };
+}
+
+/**
+ * Whether anything tracked changed between the two responses. Text-only
+ * rewording doesn't count.
+ */
+export function hasChanges(diff: ResponseDiff): boolean {
+  return diff.brandMention !== null ||
+    diff.brandsAdded.length > 0 ||
+    diff.brandsRemoved.length > 0 ||
+    diff.rankChanges.length > 0 ||
+    diff.citationsAdded.length > 0 ||
+    diff.citationsRemoved.length > 0 ||
+    diff.sentiment.shifted;
+}
+
+/**
+ * Responses are compared within a series: same prompt, model and persona.
+ * Sample numbers carry no meaning across runs, so they aren't part of it.
+ */
+export function seriesKey(response: Pick<Response, 'prompt_id' | 'ai_model' | 'persona_id'>): string {
+  return `${response.prompt_id}|${response.ai_model}|${response.persona_id || ''}`;
+}
+
+/**
+ * The sample that differs least from the other samples of its set, counting
+ * tracked changes; ties go to the earliest in the list
+ */
+export function representativeResponse<T extends DiffableResponse>(samples: T[]): T {
+  let best = samples[0];
+  let bestDistance = Infinity;
+
+  for (const sample of samples) {
+    const distance = samples.reduce(
+      (sum, other) => sum + (other === sample ? 0 : countChanges(diffResponses(tracked(other), tracked(sample)))),
+      0
+    );
+    if (distance < bestDistance) {
+      best = sample;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Sentence-level diff of two answers, in reading order
+ */
+export function diffText(previous: string, current: string): TextDiffSegment[] {
+  const a = splitSentences(previous);
+  const b = splitSentences(current);
+
+  // Too long to diff cheaply: show the old answer removed and the new one added
+  if (a.length > MAX_DIFF_SENTENCES || b.length > MAX_DIFF_SENTENCES) {
+    return [
+      ...a.map(text => ({ type: 'removed' as const, text })),
+      ...b.map(text => ({ type: 'added' as const, text })),
+    ];
+  }
+
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = normalize(a[i]) === normalize(b[j])
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: TextDiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (normalize(a[i]) === normalize(b[j])) {
+      segments.push({ type: 'same', text: b[j] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      segments.push({ type: 'removed', text: a[i++] });
+    } else {
+      segments.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) segments.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) segments.push({ type: 'added', text: b[j++] });
+
+  return segments;
+}
+
+function diffRanks(previous: DiffableResponse, current: DiffableResponse, brandName: string): RankChange[] {
+  const changes: RankChange[] = [];
+
+  const brandFrom = previous.brand_rank ?? null;
+  const brandTo = current.brand_rank ?? null;
+  if (brandFrom !== brandTo) {
+    changes.push({ name: brandName, isBrand: true, from: brandFrom, to: brandTo });
+  }
+
+  const before = previous.competitor_ranks || {};
+  const after = current.competitor_ranks || {};
+  for (const name of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const from = before[name] ?? null;
+    const to = after[name] ?? null;
+    if (from !== to) {
+      changes.push({ name, isBrand: false, from, to });
+    }
+  }
+
+  // Best current position first; dropped-out entities last
+  return changes.sort((x, y) => (x.to ?? Infinity) - (y.to ?? Infinity) || (x.from ?? Infinity) - (y.from ?? Infinity));
+}
+
+// Number of tracked differences, for picking a representative sample
+function countChanges(diff: ResponseDiff): number {
+  return (diff.brandMention ? 1 : 0) +
+    diff.brandsAdded.length +
+    diff.brandsRemoved.length +
+    diff.rankChanges.length +
+    diff.citationsAdded.length +
+    diff.citationsRemoved.length +
+    (diff.sentiment.shifted ? 1 : 0);
+}
+
+// Skips the text diff, which doesn't count as a change
+function tracked(response: DiffableResponse): DiffableResponse {
+  return { ...response, response_text: undefined };
+}
+
+// Cited URLs, falling back to the domain when the engine gave no URL
+function citationKeys(response: DiffableResponse): string[] {
+  return (response.citations || []).map(citation =>
+    (citation.cited_url || citation.cited_domain).replace(/^https?:\/\/(www\.)?/, '').replace(/\/$/, '')
+  );
+}
+
+// Case-insensitive set difference, keeping the first spelling seen
+function diffSets(before: string[], after: string[]): { added: string[]; removed: string[] } {
+  const toMap = (values: string[]) => {
+    const map = new Map<string, string>();
+    for (const value of values) {
+      const key = value.trim().toLowerCase();
+      if (key && !map.has(key)) map.set(key, value.trim());
+    }
+    return map;
+  };
+
+  const a = toMap(before);
+  const b = toMap(after);
+
+  return {
+    added: [...b].filter(([key]) => !a.has(key)).map(([, value]) => value),
+    removed: [...a].filter(([key]) => !b.has(key)).map(([, value]) => value),
+  };
+}
+
+// Lines first (lists and headings), then sentences within each line
+function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .flatMap(line => line.split(/(?<=[.!?])(?<!^\s*\d+\.)\s+(?=[A-Z0-9*"'(\[])/))
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+function normalize(sentence: string): string {
+  return sentence.toLowerCase().replace(/\s+/g, ' ');
+}
@@ -0,0 +1,149 @@
+/**
+ * Server-side Supabase clients
+ *
+ * createRouteClient() acts as the signed-in user: it reads the session from
+ * the request cookies, so RLS limits every query to projects in the user's
+ * organizations. Route handlers use it for their own reads and writes.
+ *
+ * supabaseAdmin uses the service role key and bypasses RLS. It is for work
+ * that has no user (scheduled collection) and for the shared collection and
+ * analysis modules, which routes only call after requireAccess() has
+ * confirmed the user may touch the target rows.
+ */
+
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { createClient, type User } from '@supabase/supabase-js';
+import type { Database, MembershipRole } from './types';
+import { can, type Permission } from './permissions';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+export const supabaseAdmin = createClient<Database>(
+  supabaseUrl,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  { auth: { persistSession: false, autoRefreshToken: false } }
+);
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+/**
+ * Every row a query matches, read a page at a time: `page` runs the query
+ * with .range(from, to). Order the query by a unique column last so pages
+ * don't overlap. Stops at the first error.
+ */
+export async function selectAllRows<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>
+): Promise<{ data: T[]; error: { message: string } | null }> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) return { data: rows, error };
+
+    rows.push(...(data || []) as T[]);
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null };
+  }
+}
+
+/**
+ * Client bound to the current request's session. Untyped, like the
+ * per-route clients it replaces.
+ */
+export async function createRouteClient() {
+  const cookieStore = await cookies();
+
+  return createServerClient(supabaseUrl, supabaseAnonKey, {
+    cookies: {
+      getAll() {
+        return cookieStore.getAll();
+      },
+      setAll(cookiesToSet) {
+        try {
+          cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options));
+        } catch {
+          // Cookies are read-only outside route handlers; the proxy refreshes the session instead
+        }
+      },
+    },
+  });
+}
+
+/**
+ * The signed-in user, verified with Supabase Auth, or null
+ */
+export async function getSessionUser(): Promise<User | null> {
+  const client = await createRouteClient();
+  const { data: { user } } = await client.auth.getUser();
+  return user;
+}
+
+/**
+ * Returns a 401 response when nobody is signed in, otherwise null
+ */
+export async function requireUser(): Promise<NextResponse | null> {
+  const user = await getSessionUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+  return null;
+}
+
+type AccessTable = 'projects' | 'monitors' | 'prompts' | 'collection_runs' | 'generated_content' | 'reports';
+
+const ACCESS_LABELS: Record<AccessTable, string> = {
+  projects: 'Project',
+  monitors: 'Monitor',
+  prompts: 'Prompt',
+  collection_runs: 'Collection run',
+  generated_content: 'Content',
+  reports: 'Report',
+};
+
+// How to reach the owning project from each table
+const PROJECT_ID_COLUMNS: Record<AccessTable, string> = {
+  projects: 'id',
+  monitors: 'project_id',
+  prompts: 'monitors!inner(project_id)',
+  collection_runs: 'project_id',
+  generated_content: 'project_id',
+  reports: 'project_id',
+};
+
+/**
+ * Returns a 401 response when nobody is signed in and a 404 when the row
+ * doesn't exist or belongs to an organization the user isn't a member of.
+ * Rows the user can't see are reported as missing so ids from other
+ * organizations can't be probed. When a permission is given, members whose
+ * role doesn't grant it get a 403. Returns null when access is allowed.
+ */
+export async function requireAccess(
+  table: AccessTable,
+  id: string,
+  permission?: Permission
+): Promise<NextResponse | null> {
+  const client = await createRouteClient();
+  const { data: { user } } = await client.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data } = await client.from(table).select(PROJECT_ID_COLUMNS[table]).eq('id', id).maybeSingle();
+  if (!data) {
+    return NextResponse.json({ error: `${ACCESS_LABELS[table]} not found` }, { status: 404 });
+  }
+
+  if (!permission) return null;
+
+  const row = data as { id?: string; project_id?: string; monitors?: { project_id: string } };
+  const projectId = row.monitors?.project_id ?? row.project_id ?? row.id;
+
+  const { data: role } = await client.rpc('project_role', { project: projectId });
+  if (!can(role as MembershipRole | null, permission)) {
+    return NextResponse.json({ error: 'Your role does not allow this action' }, { status: 403 });
+  }
+  return null;
+}
@@ -1,15 +1,10 @@
-import { createClient } from '@supabase/supabase-js'
+import { createBrowserClient } from '@supabase/ssr'
 import type { Database } from './types'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 
-export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey)
-
-// Server-side client for server components
-export function createServerClient() {
-  return createClient<Database>(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-  )
-}
+// Browser client. The session lives in cookies so server routes and the
+// proxy see the same signed-in user; RLS scopes every query to the user's
+// organizations. Server code uses lib/supabase-server instead.
+export const supabase = createBrowserClient<Database>(supabaseUrl, supabaseAnonKey)
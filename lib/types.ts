@@ -67,6 +67,101 @@ export type Database = {
         Insert: Omit<BrandOverview, 'id' | 'created_at' | 'updated_at'>
         Update: Partial<Omit<BrandOverview, 'id'>>
       }
+      collection_runs: {
+        Row: CollectionRun
+        Insert: Omit<CollectionRun, 'id' | 'started_at'>
+        Update: Partial<Omit<CollectionRun, 'id'>>
+      }
+      collection_run_items: {
+        Row: CollectionRunItem
+        Insert: Omit<CollectionRunItem, 'id' | 'created_at'>
+        Update: Partial<Omit<CollectionRunItem, 'id'>>
+      }
+      share_of_voice_metrics: {
+        Row: ShareOfVoiceMetric
+        Insert: Omit<ShareOfVoiceMetric, 'id' | 'created_at'>
+        Update: Partial<Omit<ShareOfVoiceMetric, 'id'>>
+      }
+      competitor_alerts: {
+        Row: CompetitorAlert
+        Insert: Omit<CompetitorAlert, 'id' | 'created_at'>
+        Update: Partial<Omit<CompetitorAlert, 'id'>>
+      }
+      alert_rules: {
+        Row: AlertRule
+        Insert: Omit<AlertRule, 'id' | 'created_at' | 'updated_at' | 'last_triggered_at'>
+        Update: Partial<Omit<AlertRule, 'id'>>
+      }
+      notifications: {
+        Row: Notification
+        Insert: Omit<Notification, 'id' | 'created_at' | 'read_at'>
+        Update: Partial<Omit<Notification, 'id'>>
+      }
+      webhook_endpoints: {
+        Row: WebhookEndpoint
+        Insert: Omit<WebhookEndpoint, 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<WebhookEndpoint, 'id'>>
+      }
+      api_keys: {
+        Row: ApiKey
+        Insert: Omit<ApiKey, 'id' | 'created_at' | 'last_used_at' | 'revoked_at'>
+        Update: Partial<Omit<ApiKey, 'id'>>
+      }
+      report_schedules: {
+        Row: ReportSchedule
+        Insert: Omit<ReportSchedule, 'id' | 'created_at' | 'updated_at' | 'last_run_at'>
+        Update: Partial<Omit<ReportSchedule, 'id'>>
+      }
+      reports: {
+        Row: Report
+        Insert: Omit<Report, 'id' | 'created_at'>
+        Update: Partial<Omit<Report, 'id'>>
+      }
+      answer_gaps: {
+        Row: AnswerGap
+        Insert: Omit<AnswerGap, 'id' | 'created_at' | 'updated_at' | 'first_detected_at'>
+        Update: Partial<Omit<AnswerGap, 'id'>>
+      }
+      citation_sources: {
+        Row: CitationSource
+        Insert: Omit<CitationSource, 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<CitationSource, 'id'>>
+      }
+      cited_pages: {
+        Row: CitedPage
+        Insert: Omit<CitedPage, 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Omit<CitedPage, 'id'>>
+      }
+      dashboard_shares: {
+        Row: DashboardShare
+        Insert: Omit<DashboardShare, 'id' | 'created_at' | 'last_viewed_at' | 'view_count' | 'revoked_at'>
+        Update: Partial<Omit<DashboardShare, 'id'>>
+      }
+      webhook_deliveries: {
+        Row: WebhookDelivery
+        Insert: Omit<WebhookDelivery, 'id' | 'created_at'>
+        Update: Partial<Omit<WebhookDelivery, 'id'>>
+      }
+      organizations: {
+        Row: Organization
+        Insert: Omit<Organization, 'id' | 'created_at' | 'created_by'>
+        Update: Partial<Omit<Organization, 'id'>>
+      }
+      memberships: {
+        Row: Membership
+        Insert: Omit<Membership, 'id' | 'created_at'>
+        Update: Partial<Omit<Membership, 'id'>>
+      }
+      audit_log: {
+        Row: AuditLogEntry
+        Insert: Omit<AuditLogEntry, 'id' | 'created_at'>
+        Update: Partial<Omit<AuditLogEntry, 'id'>>
+      }
+      config_versions: {
+        Row: ConfigVersion
+        Insert: Omit<ConfigVersion, 'id' | 'created_at'>
+        Update: Partial<Omit<ConfigVersion, 'id'>>
+      }
     }
   }
 }
@@ -85,8 +180,12 @@ export const BRAND_VOICE_OPTIONS: { value: BrandVoice; label: string; descriptio
 // Entity types
 export interface Project {
   id: string
+  // Workspace that owns the project; set from the creator's oldest membership when omitted
+  organization_id?: string | null
   name: string
   tracked_brand: string
+  // Other names the brand goes by, used when detecting mentions
+  brand_aliases?: string[]
   website_url: string | null
   industry?: string
   description?: string
@@ -114,6 +213,7 @@ export interface Competitor {
   project_id: string
   name: string
   website_url?: string
+  aliases?: string[]
   created_at: string
 }
 
@@ -134,10 +234,21 @@ export interface Monitor {
   language: string
   location: string
   ai_models: AIModel[]
+  // Personas each prompt is asked as; empty means no persona
+  persona_ids?: string[]
+  // Times each prompt x model (x persona) is asked per collection, 1-10
+  samples_per_prompt?: number
   is_active: boolean
+  schedule_frequency: ScheduleFrequency
+  schedule_cron?: string | null
+  next_run_at?: string | null
+  last_run_at?: string | null
   created_at: string
 }
 
+// Upper bound for Monitor.samples_per_prompt (enforced by a check constraint)
+export const MAX_SAMPLES_PER_PROMPT = 10
+
 export interface Prompt {
   id: string
   monitor_id: string
@@ -148,6 +259,8 @@ export interface Prompt {
   difficulty_score?: number
   visibility_pct?: number
   last_collected_at?: string
+  // Cached translations of prompt_text keyed by language code
+  translations?: Record<string, string>
   created_at: string
 }
 
@@ -161,48 +274,768 @@ export interface Response {
   cites_domain: boolean
   is_featured: boolean
   brands_mentioned?: string[]
+  // Monitor locale the response was collected under
+  language?: string | null
+  location?: string | null
+  persona_id?: string | null
+  // 0-based sample within a collection, when the monitor asks more than once
+  sample_index?: number
+  // Per-entity mention and sentiment analysis (see lib/response-analysis)
+  analysis?: ResponseAnalysis | null
+  analysis_confidence?: number | null
+  // 1-based position of the brand in the response's recommendations; null when not ranked
+  brand_rank?: number | null
+  // Competitor name -> 1-based position, for ranked competitors only
+  competitor_ranks?: Record<string, number> | null
   collected_at: string
 }
 
+// Response analysis
+export type AnalysisMethod = 'llm' | 'heuristic'
+
+export interface EntityMention {
+  name: string
+  is_brand: boolean
+  mentioned: boolean
+  // Sentences quoted verbatim from the response
+  sentences: string[]
+  // 0 (negative) to 1 (positive); null when not mentioned
+  sentiment: number | null
+  // 0 to 1
+  confidence: number
+  // 1-based position among the brands the response recommends; null when not ranked
+  rank?: number | null
+}
+
+export interface ResponseAnalysis {
+  method: AnalysisMethod
+  model: string | null
+  entities: EntityMention[]
+  // Brands the response recommends, in the order it presents them
+  ranking?: string[]
+  analyzed_at: string
+}
+
 export interface Citation {
   id: string
   response_id: string
   cited_domain: string
   cited_url: string | null
-  citation_context: string | null
+  citation_context: CitationContext | null
   created_at: string
 }
 
+// Source details reported by the engine's web search
+export interface CitationContext {
+  title: string | null
+  // Part of the answer the source supports
+  snippet: string | null
+}
+
 export interface VisibilityMetric {
   id: string
   project_id: string
+  // NULL for the project-wide row
   prompt_id: string | null
+  // NULL for the all-model row
+  ai_model: AIModel | null
   date: string
   visibility_score: number
   mention_count: number
   citation_count: number
   sentiment_avg: number | null
+  // Mean brand rank over responses that rank the brand
+  avg_position: number | null
+  // % of responses that rank the brand in the top 3
+  top3_rate: number | null
+  // Responses the row was computed from
+  response_count: number
+  // 95% Wilson interval for the mention rate, in percent
+  mention_rate_low?: number | null
+  mention_rate_high?: number | null
+  // Half-width of the 95% interval for visibility_score, in points
+  visibility_margin?: number | null
+}
+
+// Share of voice
+export type ShareOfVoiceSegmentType = 'all' | 'tag' | 'intent'
+
+// One entity's daily share of voice within a breakdown
+export interface ShareOfVoiceMetric {
+  id: string
+  project_id: string
+  date: string
+  entity_name: string
+  is_brand: boolean
+  // NULL means all models / all monitors
+  ai_model: AIModel | null
+  monitor_id: string | null
+  segment_type: ShareOfVoiceSegmentType
+  // Tag or intent type; NULL for 'all'
+  segment_value: string | null
+  response_count: number
+  mention_count: number
+  citation_count: number
+  // % of all tracked-entity mentions in the breakdown
+  share: number
+  avg_rank: number | null
+  sentiment_avg: number | null
+  created_at: string
+}
+
+// Raised when a competitor out-mentions the brand on a tag or intent type
+export interface CompetitorAlert {
+  id: string
+  project_id: string
+  date: string
+  competitor_name: string
+  segment_type: Exclude<ShareOfVoiceSegmentType, 'all'>
+  segment_value: string
+  brand_mentions: number
+  competitor_mentions: number
+  dismissed_at: string | null
+  created_at: string
+}
+
+// Alert rules, evaluated after each collection (see lib/alerts)
+export type AlertRuleType =
+  | 'visibility_drop'
+  | 'prompt_lost'
+  | 'negative_sentiment'
+  | 'new_competitor'
+  | 'citation_lost'
+
+export type AlertChannel = 'email' | 'webhook'
+
+export type NotificationSeverity = 'info' | 'warning' | 'critical'
+
+export const ALERT_RULE_TYPE_OPTIONS: {
+  value: AlertRuleType
+  label: string
+  description: string
+  // Meaning of the threshold and its default; null when the rule has none
+  threshold: { label: string; default: number } | null
+}[] = [
+  {
+    value: 'visibility_drop',
+    label: 'Visibility drop',
+    description: 'Project visibility score falls compared with the previous day',
+    threshold: { label: 'Minimum drop (points)', default: 10 },
+  },
+  {
+    value: 'prompt_lost',
+    label: 'Brand lost from a prompt',
+    description: 'The brand disappears from a prompt where it used to be mentioned',
+    threshold: { label: 'Previous mention rate at least (%)', default: 50 },
+  },
+  {
+    value: 'negative_sentiment',
+    label: 'Negative sentiment',
+    description: 'An answer mentions the brand negatively',
+    threshold: { label: 'Sentiment at or below (0-1)', default: 0.3 },
+  },
+  {
+    value: 'new_competitor',
+    label: 'New competitor detected',
+    description: 'An untracked brand starts appearing in answers',
+    threshold: { label: 'Minimum answers mentioning it', default: 1 },
+  },
+  {
+    value: 'citation_lost',
+    label: 'Citation lost',
+    description: 'Your domain stops being cited on a prompt that cited it',
+    threshold: null,
+  },
+]
+
+export interface AlertRule {
+  id: string
+  project_id: string
+  name: string
+  rule_type: AlertRuleType
+  threshold: number | null
+  channels: AlertChannel[]
+  email_recipients: string[]
+  // Slack-compatible incoming webhook; receives { text }
+  webhook_url: string | null
+  is_active: boolean
+  last_triggered_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface Notification {
+  id: string
+  project_id: string
+  rule_id: string | null
+  rule_type: AlertRuleType
+  severity: NotificationSeverity
+  title: string
+  body: string | null
+  data: Record<string, unknown> | null
+  dedupe_key: string
+  read_at: string | null
+  created_at: string
+}
+
+// Outbound webhooks (see lib/webhooks)
+export type WebhookEvent =
+  | 'collection.completed'
+  | 'response.created'
+  | 'content.generated'
+  | 'content.status_changed'
+  | 'brand_overview.completed'
+
+export const WEBHOOK_EVENT_OPTIONS: { value: WebhookEvent; description: string }[] = [
+  { value: 'collection.completed', description: 'A collection run finished' },
+  { value: 'response.created', description: 'An AI response was collected and analyzed' },
+  { value: 'content.generated', description: 'Content was generated and saved' },
+  { value: 'content.status_changed', description: 'Content moved to another status' },
+  { value: 'brand_overview.completed', description: 'Brand overview generation finished' },
+]
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed'
+
+export interface WebhookEndpoint {
+  id: string
+  project_id: string
+  url: string
+  description: string | null
+  events: WebhookEvent[]
+  // Encrypted; only the server decrypts it to sign deliveries
+  secret: string
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface WebhookDelivery {
+  id: string
+  endpoint_id: string
+  project_id: string
+  event: WebhookEvent | 'ping'
+  payload: Record<string, unknown>
+  status: WebhookDeliveryStatus
+  attempts: number
+  next_attempt_at: string | null
+  response_status: number | null
+  response_body: string | null
+  delivered_at: string | null
+  created_at: string
+}
+
+// Workspaces: users reach projects through their memberships
+export type MembershipRole = 'owner' | 'editor' | 'writer' | 'viewer'
+
+export const MEMBERSHIP_ROLES: MembershipRole[] = ['owner', 'editor', 'writer', 'viewer']
+
+export const MEMBERSHIP_ROLE_LABELS: Record<MembershipRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  writer: 'Writer',
+  viewer: 'Viewer',
+}
+
+export interface Organization {
+  id: string
+  name: string
+  // NULL for the workspace that held projects from before sign-in existed
+  created_by: string | null
+  // White label for client-facing output (reports, exports, shared
+  // dashboards); NULL falls back to Luminari's own (see lib/branding)
+  brand_name: string | null
+  brand_logo_url: string | null
+  brand_primary_color: string | null
+  brand_accent_color: string | null
+  created_at: string
+}
+
+export interface Membership {
+  id: string
+  organization_id: string
+  user_id: string
+  email: string | null
+  role: MembershipRole
+  created_at: string
+}
+
+// Who changed what. Row changes come from a database trigger (action is
+// insert/update/delete); server-run actions such as collection.run are
+// recorded by the API route that starts them.
+export interface AuditLogEntry {
+  id: string
+  organization_id: string | null
+  project_id: string | null
+  user_id: string | null
+  user_email: string | null
+  action: string
+  entity_type: string
+  entity_id: string | null
+  changes: Record<string, unknown> | null
+  created_at: string
+}
+
+// Public REST API keys (see lib/api). A key reaches every project in its
+// workspace, limited to its scopes.
+export type ApiKeyScope =
+  | 'projects:read'
+  | 'monitors:read'
+  | 'prompts:read'
+  | 'prompts:write'
+  | 'responses:read'
+  | 'citations:read'
+  | 'metrics:read'
+  | 'keywords:read'
+  | 'keywords:write'
+  | 'content:read'
+
+export const API_KEY_SCOPES: { value: ApiKeyScope; description: string }[] = [
+  { value: 'projects:read', description: 'List projects and their Brand Bible' },
+  { value: 'monitors:read', description: 'List monitors' },
+  { value: 'prompts:read', description: 'List prompts' },
+  { value: 'prompts:write', description: 'Import prompts' },
+  { value: 'responses:read', description: 'Read collected AI responses' },
+  { value: 'citations:read', description: 'Read citations' },
+  { value: 'metrics:read', description: 'Read daily visibility metrics' },
+  { value: 'keywords:read', description: 'List keywords' },
+  { value: 'keywords:write', description: 'Add keywords' },
+  { value: 'content:read', description: 'Read generated content' },
+]
+
+export interface ApiKey {
+  id: string
+  organization_id: string
+  name: string
+  key_prefix: string
+  // SHA-256 of the key; the key itself is only shown when it's created
+  key_hash: string
+  scopes: ApiKeyScope[]
+  rate_limit_per_minute: number
+  created_by: string | null
+  last_used_at: string | null
+  expires_at: string | null
+  revoked_at: string | null
+  created_at: string
+}
+
+// Client reports (see lib/reports). Each report stores a snapshot of its
+// period's data; the PDF and HTML are rendered from it on download.
+export type ReportSection =
+  | 'visibility'
+  | 'share_of_voice'
+  | 'citations'
+  | 'sentiment'
+  | 'answer_gaps'
+  | 'content'
+  | 'search_console'
+  | 'analytics'
+
+export const REPORT_SECTIONS: { value: ReportSection; label: string; description: string }[] = [
+  { value: 'visibility', label: 'Visibility trend', description: 'Daily visibility score against the previous period' },
+  { value: 'share_of_voice', label: 'Share of voice', description: 'Mentions of the brand and competitors' },
+  { value: 'citations', label: 'Top citations', description: 'Domains AI engines cited most' },
+  { value: 'sentiment', label: 'Sentiment', description: 'Positive, neutral and negative mentions' },
+  { value: 'answer_gaps', label: 'Answer gaps', description: 'Prompts where the brand was missing' },
+  { value: 'content', label: 'Content produced', description: 'Content generated in the period' },
+  { value: 'search_console', label: 'Search Console', description: 'Clicks, impressions and top queries' },
+  { value: 'analytics', label: 'Google Analytics', description: 'Sessions, users and top channels' },
+]
+
+export type ReportFrequency = 'weekly' | 'monthly'
+export type ReportFormat = 'pdf' | 'html'
+export type ReportStatus = 'generating' | 'completed' | 'failed'
+
+export interface ReportSchedule {
+  id: string
+  project_id: string
+  name: string
+  // Weekly reports cover the previous 7 days, monthly the previous calendar month
+  frequency: ReportFrequency
+  sections: ReportSection[]
+  recipients: string[]
+  // Attached to the email; the HTML version is always the email body
+  format: ReportFormat
+  is_active: boolean
+  next_run_at: string | null
+  last_run_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface Report {
+  id: string
+  project_id: string
+  schedule_id: string | null
+  title: string
+  period_start: string
+  period_end: string
+  sections: ReportSection[]
+  status: ReportStatus
+  data: ReportData | null
+  error: string | null
+  recipients: string[]
+  sent_at: string | null
+  created_by: string | null
+  created_at: string
+}
+
+export interface ReportData {
+  project: { name: string; tracked_brand: string; website_url: string | null }
+  generatedAt: string
+  // Inclusive dates (YYYY-MM-DD)
+  periodStart: string
+  periodEnd: string
+  visibility?: {
+    average: number | null
+    // Same-length period just before this one
+    previousAverage: number | null
+    responseCount: number
+    mentionCount: number
+    citationCount: number
+    daily: { date: string; visibility_score: number }[]
+  }
+  shareOfVoice?: {
+    entities: { name: string; isBrand: boolean; mentionCount: number; share: number }[]
+  }
+  citations?: {
+    total: number
+    ownDomain: number
+    topDomains: { domain: string; count: number; isOwnDomain: boolean }[]
+  }
+  sentiment?: {
+    positive: number
+    neutral: number
+    negative: number
+    average: number | null
+  }
+  answerGaps?: {
+    promptCount: number
+    // Prompts without a brand mention; gaps lists the top ones
+    gapCount: number
+    gaps: { promptText: string; responseCount: number; competitors: string[] }[]
+  }
+  content?: {
+    total: number
+    published: number
+    items: { title: string; content_type: string; status: string; created_at: string }[]
+  }
+  searchConsole?: {
+    clicks: number
+    impressions: number
+    ctr: number
+    position: number
+    topQueries: { query: string; clicks: number; impressions: number; position: number }[]
+  }
+  analytics?: {
+    sessions: number
+    users: number
+    pageViews: number
+    topChannels: { channel: string; sessions: number }[]
+  }
+  // Requested sections that couldn't be built, e.g. Google not connected
+  unavailable: { section: ReportSection; reason: string }[]
+}
+
+// Answer gaps (lib/answer-gaps/analyze.ts)
+export type AnswerGapStatus = 'open' | 'in_progress' | 'resolved' | 'expired' | 'dismissed'
+export type AnswerGapPriority = 'high' | 'medium' | 'low'
+
+// A competitor that appeared in the answers the brand was missing from
+export interface AnswerGapCompetitor {
+  name: string
+  mentions: number
+  // Percent of the gap's responses that mention it
+  mention_rate: number
+  avg_rank: number | null
+  // Phrases the answers praised it for, most frequent first
+  attributes: string[]
+  // Sentences quoted verbatim from the answers
+  quotes: string[]
+}
+
+export interface AnswerGapSource {
+  domain: string
+  url: string | null
+  title: string | null
+  citations: number
+  // Competitor whose website this is; null for third-party sources
+  owner: string | null
+}
+
+export interface AnswerGapRecommendation {
+  type: 'content' | 'pr'
+  title: string
+  detail: string
+}
+
+export interface AnswerGap {
+  id: string
+  project_id: string
+  prompt_id: string
+  status: AnswerGapStatus
+  priority: AnswerGapPriority
+  // 0-100, higher is a bigger opportunity
+  score: number
+  response_count: number
+  // Percent of the analyzed responses that mention the brand
+  brand_mention_rate: number
+  competitors: AnswerGapCompetitor[]
+  cited_sources: AnswerGapSource[]
+  // What the brand is missing that the winning answers drew on
+  missing_content: string[]
+  recommendations: AnswerGapRecommendation[]
+  content_id: string | null
+  first_detected_at: string
+  analyzed_at: string
+  resolved_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Citation sources (lib/citations): what kind of site a cited domain is
+export type SourceCategory = 'own' | 'competitor' | 'review' | 'directory' | 'news' | 'forum' | 'wikipedia' | 'other'
+
+export const SOURCE_CATEGORY_LABELS: Record<SourceCategory, string> = {
+  own: 'Your site',
+  competitor: 'Competitor',
+  review: 'Review site',
+  directory: 'Directory',
+  news: 'News',
+  forum: 'Forum',
+  wikipedia: 'Wikipedia',
+  other: 'Other',
+}
+
+// One row per cited domain per project, refreshed after every collection
+export interface CitationSource {
+  id: string
+  project_id: string
+  domain: string
+  category: SourceCategory
+  // Set by a user; refreshes keep the category
+  category_overridden: boolean
+  // 0-100 domain rank from DataForSEO; null when not checked
+  authority: number | null
+  authority_checked_at: string | null
+  citation_count: number
+  // Distinct prompts whose answers cited the domain
+  prompt_count: number
+  // Citations per engine
+  engine_counts: Partial<Record<AIModel, number>>
+  first_cited_at: string | null
+  last_cited_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type CitedPageStatus = 'pending' | 'fetched' | 'failed'
+
+// A URL cited in a project's AI answers, fetched in the background
+export interface CitedPage {
+  id: string
+  project_id: string
+  url: string
+  domain: string
+  status: CitedPageStatus
+  title: string | null
+  meta_description: string | null
+  headings: string[]
+  // Start of the page's main text
+  excerpt: string | null
+  // Null until the page is fetched
+  mentions_brand: boolean | null
+  competitors_mentioned: string[]
+  citation_count: number
+  last_cited_at: string | null
+  fetched_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// A third-party page cited alongside competitors but not the brand
+export interface OutreachTarget {
+  url: string
+  domain: string
+  title: string | null
+  category: SourceCategory
+  authority: number | null
+  citations: number
+  engines: AIModel[]
+  prompts: string[]
+  competitors: string[]
+  // page: competitors are named on the page (its fetched text, or else the
+  // cited passage and title); answer: named in the answers that cited it
+  evidence: 'page' | 'answer'
+  // 0-100, higher is more worth pursuing
+  leverage: number
+  action: string
+}
+
+// A read-only dashboard link (/share/<token>) for people without an account.
+// Only a SHA-256 hash of the token is stored, like API keys.
+export interface DashboardShare {
+  id: string
+  project_id: string
+  name: string
+  token_prefix: string
+  token_hash: string
+  // Days of data the dashboard shows, ending yesterday
+  period_days: number
+  expires_at: string
+  revoked_at: string | null
+  last_viewed_at: string | null
+  view_count: number
+  created_by: string | null
+  created_at: string
+}
+
+// Where a brand configuration change came from. Writers send it in the
+// CONFIG_CHANGE_SOURCE_HEADER request header.
+export type ConfigChangeSource = 'human' | 'ai_enhancement' | 'crawler' | 'revert' | 'system'
+
+export const CONFIG_CHANGE_SOURCE_HEADER = 'x-change-source'
+
+export const CONFIG_CHANGE_SOURCE_LABELS: Record<ConfigChangeSource, string> = {
+  human: 'Manual edit',
+  ai_enhancement: 'AI enhancement',
+  crawler: 'Website crawl',
+  revert: 'Revert',
+  system: 'System',
+}
+
+// One numbered change to a project's brand fields, competitors, personas or
+// monitors, written by trigger (supabase/migrations/019_add_config_versions.sql)
+export interface ConfigVersion {
+  id: string
+  project_id: string
+  version: number
+  entity_type: 'projects' | 'competitors' | 'personas' | 'monitors'
+  entity_id: string
+  operation: 'insert' | 'update' | 'delete'
+  source: ConfigChangeSource
+  user_id: string | null
+  user_email: string | null
+  // Changed columns only for updates; the full row for inserts and deletes
+  before_data: Record<string, unknown> | null
+  after_data: Record<string, unknown> | null
+  created_at: string
 }
 
 // Enums and constants
-export type AIModel = 'chatgpt' | 'claude' | 'gemini' | 'perplexity' | 'copilot'
 
-export const AI_MODELS: AIModel[] = ['chatgpt', 'claude', 'gemini', 'perplexity', 'copilot']
+// AI engine catalogue. Adding an engine here makes it available to the
+// AIModel union, monitor forms, filters and charts; its server-side query
+// adapter is registered in lib/ai-providers.
+export const AI_ENGINES = [
+  { id: 'chatgpt', label: 'ChatGPT', color: '#10a37f', defaultEnabled: true },
+  { id: 'claude', label: 'Claude', color: '#d97706', defaultEnabled: true },
+  { id: 'gemini', label: 'Gemini', color: '#4285f4', defaultEnabled: true },
+  { id: 'perplexity', label: 'Perplexity', color: '#6366f1', defaultEnabled: true },
+  { id: 'copilot', label: 'Copilot', color: '#0078d4', defaultEnabled: true },
+  { id: 'grok', label: 'Grok', color: '#1f2937', defaultEnabled: false },
+  { id: 'mistral', label: 'Mistral', color: '#fa520f', defaultEnabled: false },
+  { id: 'deepseek', label: 'DeepSeek', color: '#4d6bfe', defaultEnabled: false },
+  { id: 'meta', label: 'Meta AI', color: '#0866ff', defaultEnabled: false },
+  { id: 'local', label: 'Local Model', color: '#6b7280', defaultEnabled: false },
+] as const
+
+export type AIModel = (typeof AI_ENGINES)[number]['id']
+
+export const AI_MODELS: AIModel[] = AI_ENGINES.map(e => e.id)
+
+// Engines selected by default on new monitors
+export const DEFAULT_AI_MODELS: AIModel[] = AI_ENGINES.filter(e => e.defaultEnabled).map(e => e.id)
+
+export const AI_MODEL_LABELS = Object.fromEntries(
+  AI_ENGINES.map(e => [e.id, e.label])
+) as Record<AIModel, string>
+
+export const AI_MODEL_COLORS = Object.fromEntries(
+  AI_ENGINES.map(e => [e.id, e.color])
+) as Record<AIModel, string>
+
+// Monitor locales
+export const MONITOR_LANGUAGES: { value: string; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Spanish' },
+  { value: 'fr', label: 'French' },
+  { value: 'de', label: 'German' },
+  { value: 'pt', label: 'Portuguese' },
+  { value: 'it', label: 'Italian' },
+  { value: 'nl', label: 'Dutch' },
+  { value: 'ja', label: 'Japanese' },
+  { value: 'zh', label: 'Chinese' },
+]
+
+// countryCode is the ISO 3166-1 alpha-2 code sent to web-search location options
+export const MONITOR_LOCATIONS: { value: string; label: string; countryCode: string | null }[] = [
+  { value: 'US', label: 'United States', countryCode: 'US' },
+  { value: 'UK', label: 'United Kingdom', countryCode: 'GB' },
+  { value: 'CA', label: 'Canada', countryCode: 'CA' },
+  { value: 'AU', label: 'Australia', countryCode: 'AU' },
+  { value: 'DE', label: 'Germany', countryCode: 'DE' },
+  { value: 'FR', label: 'France', countryCode: 'FR' },
+  { value: 'Global', label: 'Global', countryCode: null },
+]
+
+// Collection schedules
+export type ScheduleFrequency = 'manual' | 'daily' | 'weekly' | 'cron'
+
+export const SCHEDULE_FREQUENCY_OPTIONS: { value: ScheduleFrequency; label: string; description: string }[] = [
+  { value: 'manual', label: 'Manual', description: 'Only collect when triggered from the app' },
+  { value: 'daily', label: 'Daily', description: 'Every day at 06:00 UTC' },
+  { value: 'weekly', label: 'Weekly', description: 'Every Monday at 06:00 UTC' },
+  { value: 'cron', label: 'Custom', description: 'Custom cron expression (UTC)' },
+]
+
+// Collection runs
+export type CollectionRunTrigger = 'manual' | 'schedule'
+export type CollectionRunStatus = 'running' | 'completed' | 'failed' | 'interrupted'
+export type CollectionRunItemStatus = 'pending' | 'running' | 'succeeded' | 'failed'
 
-export const AI_MODEL_LABELS: Record<AIModel, string> = {
-  chatgpt: 'ChatGPT',
-  claude: 'Claude',
-  gemini: 'Gemini',
-  perplexity: 'Perplexity',
-  copilot: 'Copilot'
+export const COLLECTION_RUN_STATUS_LABELS: Record<CollectionRunStatus, string> = {
+  running: 'Running',
+  completed: 'Completed',
+  failed: 'Failed',
+  interrupted: 'Interrupted',
 }
 
-export const AI_MODEL_COLORS: Record<AIModel, string> = {
-  chatgpt: '#10a37f',
-  claude: '#d97706',
-  gemini: '#4285f4',
-  perplexity: '#6366f1',
-  copilot: '#0078d4'
+export interface CollectionRun {
+  id: string
+  project_id: string
+  monitor_id: string | null
+  trigger: CollectionRunTrigger
+  status: CollectionRunStatus
+  prompts_total: number
+  prompts_processed: number
+  items_total: number
+  responses_saved: number
+  citations_saved: number
+  failed_count: number
+  error: string | null
+  started_at: string
+  // When a request last started processing the run
+  claimed_at: string | null
+  completed_at: string | null
+}
+
+// One prompt x model attempt within a collection run
+export interface CollectionRunItem {
+  id: string
+  run_id: string
+  prompt_id: string
+  ai_model: AIModel
+  persona_id: string | null
+  sample_index: number
+  status: CollectionRunItemStatus
+  error: string | null
+  latency_ms: number | null
+  attempts: number
+  response_id: string | null
+  citations_count: number
+  started_at: string | null
+  completed_at: string | null
+  created_at: string
 }
 
 // Intent types
@@ -652,6 +1485,7 @@ export interface GoogleConnection {
   project_id: string
   google_email: string
   google_sub?: string
+  // Encrypted at rest (lib/crypto); read them through getValidAccessToken
   access_token: string
   refresh_token?: string
   token_expiry: string
@@ -0,0 +1,345 @@
+/**
+ * Outbound Webhooks
+ *
+ * Events are POSTed as JSON to every active endpoint of the project that
+ * subscribes to them:
+ *
+ *   { "id": "<delivery id>", "event": "response.created", "project_id": "...",
+ *     "created_at": "...", "data": { ... } }
+ *
+ * Each request carries X-Luminari-Event, X-Luminari-Delivery and
+ * X-Luminari-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>"
+ * keyed with the endpoint's secret>. Receivers should recompute the
+ * signature and reject old timestamps.
+ *
+ * Endpoints must resolve to public addresses (lib/public-url.ts), checked
+ * when they're registered and again before every attempt; redirects are not
+ * followed. A delivery succeeds on any 2xx response.
+ *
+ * dispatchWebhookEvent() sends right away; queueWebhookEvent() only records
+ * the deliveries, for work like collection that shouldn't wait on slow
+ * endpoints. Queued deliveries and failures are sent by
+ * retryDueDeliveries() (called from /api/cron/webhooks), which claims each
+ * delivery before sending so overlapping runs don't send it twice. Failures
+ * are retried after 1 minute, 5 minutes, 30 minutes, 2 hours and 12 hours,
+ * then marked failed. Dispatch never throws: webhooks must not fail the work
+ * that raised them.
+ */
+
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabase-server';
+import { decryptSecret, encryptSecret } from '@/lib/crypto';
+import { checkPublicUrl, readTextLimited } from '@/lib/public-url';
+import type { GeneratedContent, Response, WebhookDelivery, WebhookEndpoint, WebhookEvent } from '@/lib/types';
+
+const DELIVERY_TIMEOUT_MS = 10000;
+const RESPONSE_BODY_LIMIT = 1000;
+
+const CONCURRENT_DELIVERIES = 10;
+// How long a delivery being sent is hidden from other cron runs; well over
+// DELIVERY_TIMEOUT_MS
+const CLAIM_LEASE_MS = 60 * 1000;
+
+// Wait before each retry, in minutes
+const RETRY_BACKOFF_MINUTES = [1, 5, 30, 120, 720];
+const MAX_ATTEMPTS = RETRY_BACKOFF_MINUTES.length + 1;
+
+/**
+ * A new signing secret and its encrypted form for storage
+ */
+export function generateWebhookSecret(): { secret: string; encrypted: string } {
+  const secret = `whsec_${randomBytes(24).toString('base64url')}`;
+  return { secret, encrypted: encryptSecret(secret) };
+}
+
+/**
+ * Deliver an event now to every active endpoint of the project subscribed
+ * to it
+ */
+export async function dispatchWebhookEvent(
+  projectId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const endpoints = await loadSubscribedEndpoints(projectId, event);
+
+    await Promise.all(endpoints.map(async endpoint => {
+      // Left for the cron only if this attempt never records its outcome
+      const delivery = await createDelivery(endpoint, event, data, leaseExpiry());
+      if (delivery) {
+        await attemptDelivery(delivery, endpoint);
+      }
+    }));
+  } catch (error) {
+    console.error(`[Webhooks] Dispatch of ${event} failed:`, error);
+  }
+}
+
+/**
+ * Record deliveries of an event for the webhooks cron to send
+ */
+export async function queueWebhookEvent(
+  projectId: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const endpoints = await loadSubscribedEndpoints(projectId, event);
+    const now = new Date().toISOString();
+
+    await Promise.all(endpoints.map(endpoint => createDelivery(endpoint, event, data, now)));
+  } catch (error) {
+    console.error(`[Webhooks] Queueing of ${event} failed:`, error);
+  }
+}
+
+/**
+ * response.created data for a saved response
+ */
+export function toResponseEventData(response: Response, citationsCount: number): Record<string, unknown> {
+  return {
+    response_id: response.id,
+    prompt_id: response.prompt_id,
+    ai_model: response.ai_model,
+    response_text: response.response_text,
+    mentions_brand: response.mentions_brand,
+    cites_domain: response.cites_domain,
+    sentiment_score: response.sentiment_score,
+    brand_rank: response.brand_rank ?? null,
+    brands_mentioned: response.brands_mentioned || [],
+    competitor_ranks: response.competitor_ranks ?? null,
+    citations_count: citationsCount,
+    language: response.language ?? null,
+    location: response.location ?? null,
+    persona_id: response.persona_id ?? null,
+    collected_at: response.collected_at,
+  };
+}
+
+/**
+ * content.generated data for saved content; the body itself is left out
+ */
+export function toContentEventData(content: GeneratedContent): Record<string, unknown> {
+  return {
+    content_id: content.id,
+    prompt_id: content.prompt_id ?? null,
+    title: content.title,
+    content_type: content.content_type,
+    status: content.status,
+    word_count: content.word_count,
+    seo_score: content.seo_score ?? null,
+    created_at: content.created_at,
+  };
+}
+
+/**
+ * Send a ping to one endpoint from the settings page. Pings are logged like
+ * any delivery but not retried. Returns null when the delivery couldn't be
+ * recorded.
+ */
+export async function sendTestDelivery(endpoint: WebhookEndpoint): Promise<WebhookDelivery | null> {
+  const delivery = await createDelivery(endpoint, 'ping', {
+    message: 'Test delivery from Luminari',
+  }, null);
+  if (!delivery) return null;
+
+  return attemptDelivery(delivery, endpoint, { retry: false });
+}
+
+/**
+ * Send queued deliveries and retry those whose backoff has elapsed. Returns
+ * how many were attempted.
+ */
+export async function retryDueDeliveries(limit = 50): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .select('*, webhook_endpoints!inner(*)')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('[Webhooks] Failed to load due deliveries:', error);
+    return 0;
+  }
+
+  const due = (data || []) as (WebhookDelivery & { webhook_endpoints: WebhookEndpoint })[];
+  let attempted = 0;
+
+  for (let i = 0; i < due.length; i += CONCURRENT_DELIVERIES) {
+    await Promise.all(due.slice(i, i + CONCURRENT_DELIVERIES).map(async ({ webhook_endpoints: endpoint, ...delivery }) => {
+      if (!(await claimDelivery(delivery))) return;
+      attempted++;
+
+      if (!endpoint.is_active) {
+        await updateDelivery(delivery.id, {
+          status: 'failed',
+          next_attempt_at: null,
+          response_body: 'Endpoint was disabled',
+        });
+        return;
+      }
+      await attemptDelivery(delivery, endpoint);
+    }));
+  }
+
+  return attempted;
+}
+
+async function loadSubscribedEndpoints(projectId: string, event: WebhookEvent): Promise<WebhookEndpoint[]> {
+  const { data, error } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('project_id', projectId)
+    .eq('is_active', true)
+    .contains('events', [event]);
+
+  if (error) {
+    console.error('[Webhooks] Failed to load endpoints:', error);
+    return [];
+  }
+
+  return (data || []) as WebhookEndpoint[];
+}
+
+// Push a due delivery's next attempt past the lease so no other cron run
+// picks it up; false when another run claimed it first
+async function claimDelivery(delivery: WebhookDelivery): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .update({ next_attempt_at: leaseExpiry() } as never)
+    .eq('id', delivery.id)
+    .eq('status', 'pending')
+    .eq('next_attempt_at', delivery.next_attempt_at!)
+    .select('id');
+
+  if (error) {
+    console.error(`[Webhooks] Failed to claim delivery ${delivery.id}:`, error);
+    return false;
+  }
+
+  return (data || []).length > 0;
+}
+
+function leaseExpiry(): string {
+  return new Date(Date.now() + CLAIM_LEASE_MS).toISOString();
+}
+
+async function createDelivery(
+  endpoint: WebhookEndpoint,
+  event: WebhookDelivery['event'],
+  data: Record<string, unknown>,
+  nextAttemptAt: string | null
+): Promise<WebhookDelivery | null> {
+  const id = randomUUID();
+  const payload = {
+    id,
+    event,
+    project_id: endpoint.project_id,
+    created_at: new Date().toISOString(),
+    data,
+  };
+
+  const { data: delivery, error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .insert({
+      id,
+      endpoint_id: endpoint.id,
+      project_id: endpoint.project_id,
+      event,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: nextAttemptAt,
+    } as never)
+    .select()
+    .single();
+
+  if (error || !delivery) {
+    console.error(`[Webhooks] Failed to record delivery for endpoint ${endpoint.id}:`, error);
+    return null;
+  }
+
+  return delivery as WebhookDelivery;
+}
+
+async function attemptDelivery(
+  delivery: WebhookDelivery,
+  endpoint: WebhookEndpoint,
+  options: { retry?: boolean } = {}
+): Promise<WebhookDelivery> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+
+  let responseStatus: number | null = null;
+  let responseBody: string;
+
+  try {
+    // Re-checked on every send: the host may now resolve somewhere private
+    const urlError = await checkPublicUrl(endpoint.url);
+    if (urlError) throw new Error(urlError);
+
+    const signature = createHmac('sha256', decryptSecret(endpoint.secret))
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Luminari-Webhooks/1.0',
+        'X-Luminari-Event': delivery.event,
+        'X-Luminari-Delivery': delivery.id,
+        'X-Luminari-Signature': `t=${timestamp},v1=${signature}`,
+      },
+      body,
+      // A redirect could lead past the address check; 3xx counts as a failure
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+
+    responseStatus = response.status;
+    responseBody = (await readTextLimited(response, RESPONSE_BODY_LIMIT).catch(() => '')).slice(0, RESPONSE_BODY_LIMIT);
+  } catch (error) {
+    responseBody = error instanceof Error ? error.message : 'Delivery failed';
+  }
+
+  const succeeded = responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+  const canRetry = options.retry !== false && attempts < MAX_ATTEMPTS;
+
+  const updates: Partial<WebhookDelivery> = {
+    attempts,
+    response_status: responseStatus,
+    response_body: responseBody,
+  };
+
+  if (succeeded) {
+    Object.assign(updates, { status: 'succeeded', next_attempt_at: null, delivered_at: new Date().toISOString() });
+  } else if (canRetry) {
+    const nextAttempt = new Date(Date.now() + RETRY_BACKOFF_MINUTES[attempts - 1] * 60 * 1000);
+    Object.assign(updates, { status: 'pending', next_attempt_at: nextAttempt.toISOString() });
+  } else {
+    Object.assign(updates, { status: 'failed', next_attempt_at: null });
+  }
+
+  if (!succeeded) {
+    console.warn(`[Webhooks] Delivery ${delivery.id} to ${endpoint.url} failed (attempt ${attempts}): ${responseStatus ?? responseBody}`);
+  }
+
+  await updateDelivery(delivery.id, updates);
+  return { ...delivery, ...updates };
+}
+
+async function updateDelivery(id: string, updates: Partial<WebhookDelivery>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .update(updates as never)
+    .eq('id', id);
+
+  if (error) {
+    console.error(`[Webhooks] Failed to update delivery ${id}:`, error);
+  }
+}
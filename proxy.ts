@@ -0,0 +1,52 @@
+/**
+ * Session proxy
+ *
+ * Runs before every page and API request: refreshes the Supabase Auth
+ * session cookie so server routes see a valid user, and sends signed-out
+ * visitors to /login. API routes are not redirected; they answer 401
+ * themselves (and the cron routes authenticate with CRON_SECRET). Shared
+ * dashboards (/share/<token>) are opened without an account.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+
+const PUBLIC_PATHS = ['/login', '/auth/', '/share/'];
+
+export async function proxy(request: NextRequest) {
+  let response = NextResponse.next({ request });
+
+  const supabase = createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll();
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+          response = NextResponse.next({ request });
+          cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options));
+        },
+      },
+    }
+  );
+
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { pathname } = request.nextUrl;
+  const isPublic = pathname.startsWith('/api/') || PUBLIC_PATHS.some(p => pathname.startsWith(p));
+
+  if (!user && !isPublic) {
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('next', pathname);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  return response;
+}
+
+export const config = {
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)'],
+};
@@ -1,18 +1,33 @@
 import { createClient } from '@supabase/supabase-js'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+// Service role bypasses RLS; the anon key can't see any rows without a signed-in user
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
 
 const supabase = createClient(supabaseUrl, supabaseKey)
 
 async function seed() {
   console.log('🌱 Seeding Luminari database...\n')
 
+  // Projects belong to a workspace; use the oldest one (created when the first account signs up)
+  const { data: organization } = await supabase
+    .from('organizations')
+    .select('id')
+    .order('created_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (!organization) {
+    console.error('No workspace found. Sign up in the app first, then re-run the seed.')
+    return
+  }
+
   // 1. Create Project
   console.log('Creating project...')
   const { data: project, error: projectError } = await supabase
     .from('projects')
     .insert({
+      organization_id: organization.id,
       name: 'Luminari Demo',
       tracked_brand: 'Luminari',
       website_url: 'https://useluminari.com'
@@ -127,11 +142,11 @@ async function seed() {
   const citableResponses = responses.filter(r => r.cites_domain)
 
   const citations = [
-    { cited_domain: 'useluminari.com', cited_url: 'https://useluminari.com/features', citation_context: 'Luminari offers comprehensive AI visibility tracking' },
-    { cited_domain: 'searchenginejournal.com', cited_url: 'https://searchenginejournal.com/geo-guide', citation_context: 'Guide to generative engine optimization' },
-    { cited_domain: 'hubspot.com', cited_url: 'https://hubspot.com/ai-marketing', citation_context: 'AI marketing strategies' },
-    { cited_domain: 'moz.com', cited_url: 'https://moz.com/ai-seo', citation_context: 'AI and SEO intersection' },
-    { cited_domain: 'semrush.com', cited_url: 'https://semrush.com/blog/ai-visibility', citation_context: 'AI visibility monitoring guide' },
+    { cited_domain: 'useluminari.com', cited_url: 'https://useluminari.com/features', citation_context: { title: 'Features', snippet: 'Luminari offers comprehensive AI visibility tracking' } },
+    { cited_domain: 'searchenginejournal.com', cited_url: 'https://searchenginejournal.com/geo-guide', citation_context: { title: 'GEO Guide', snippet: 'Guide to generative engine optimization' } },
+    { cited_domain: 'hubspot.com', cited_url: 'https://hubspot.com/ai-marketing', citation_context: { title: 'AI Marketing', snippet: 'AI marketing strategies' } },
+    { cited_domain: 'moz.com', cited_url: 'https://moz.com/ai-seo', citation_context: { title: 'AI and SEO', snippet: 'AI and SEO intersection' } },
+    { cited_domain: 'semrush.com', cited_url: 'https://semrush.com/blog/ai-visibility', citation_context: { title: 'AI Visibility', snippet: 'AI visibility monitoring guide' } },
   ]
 
   const citationInserts = citations.map((c, i) => ({
@@ -0,0 +1,49 @@
+-- Scheduled collection for monitors
+-- Each monitor carries its own collection schedule. The scheduler route
+-- (/api/cron/collect) picks up monitors whose next_run_at has passed and
+-- records every run in collection_runs.
+
+-- 1. Schedule columns on monitors
+ALTER TABLE monitors
+  ADD COLUMN IF NOT EXISTS schedule_frequency TEXT NOT NULL DEFAULT 'manual'
+    CHECK (schedule_frequency IN ('manual', 'daily', 'weekly', 'cron')),
+  ADD COLUMN IF NOT EXISTS schedule_cron TEXT,
+  ADD COLUMN IF NOT EXISTS next_run_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_run_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_monitors_next_run ON monitors(next_run_at)
+  WHERE is_active = true AND schedule_frequency <> 'manual';
+
+COMMENT ON COLUMN monitors.schedule_frequency IS 'manual, daily, weekly, or cron (uses schedule_cron)';
+COMMENT ON COLUMN monitors.schedule_cron IS '5-field cron expression evaluated in UTC, e.g. "0 6 * * 1-5"';
+COMMENT ON COLUMN monitors.next_run_at IS 'When the scheduler should next collect responses for this monitor';
+
+-- 2. Collection runs (one row per collect-all or scheduled run)
+CREATE TABLE IF NOT EXISTS collection_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  monitor_id UUID REFERENCES monitors(id) ON DELETE CASCADE,
+
+  -- What started the run: manual (collect-all button) or schedule (cron)
+  trigger TEXT NOT NULL DEFAULT 'manual' CHECK (trigger IN ('manual', 'schedule')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+
+  prompts_total INT DEFAULT 0,
+  prompts_processed INT DEFAULT 0,
+  responses_saved INT DEFAULT 0,
+  citations_saved INT DEFAULT 0,
+  failed_count INT DEFAULT 0,
+  error TEXT,
+
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_collection_runs_project ON collection_runs(project_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_collection_runs_monitor ON collection_runs(monitor_id, started_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE collection_runs ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for public access (matching existing pattern)
+CREATE POLICY "Allow all access to collection_runs" ON collection_runs FOR ALL USING (true);
@@ -0,0 +1,47 @@
+-- Collection run items
+-- Every prompt x model attempt in a collection run is recorded with its own
+-- status, error and latency so an interrupted run can be resumed and failed
+-- AI responses can be retried without re-querying the ones that succeeded.
+
+-- 1. Allow runs to be left interrupted (time budget hit or request timed out)
+ALTER TABLE collection_runs DROP CONSTRAINT IF EXISTS collection_runs_status_check;
+ALTER TABLE collection_runs ADD CONSTRAINT collection_runs_status_check
+  CHECK (status IN ('running', 'completed', 'failed', 'interrupted'));
+
+ALTER TABLE collection_runs ADD COLUMN IF NOT EXISTS items_total INT DEFAULT 0;
+
+-- When a request last started processing the run. Resume and retry claim a
+-- run by moving this forward conditionally, so two requests never process
+-- it at once; a run still 'running' long after its claim was abandoned.
+ALTER TABLE collection_runs ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMPTZ DEFAULT NOW();
+
+-- 2. Run items
+CREATE TABLE IF NOT EXISTS collection_run_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES collection_runs(id) ON DELETE CASCADE,
+  prompt_id UUID NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+  ai_model TEXT NOT NULL,
+
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'succeeded', 'failed')),
+  error TEXT,
+  latency_ms INT,
+  attempts INT DEFAULT 0,
+
+  -- Set once the response has been saved
+  response_id UUID REFERENCES responses(id) ON DELETE SET NULL,
+  citations_count INT DEFAULT 0,
+
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(run_id, prompt_id, ai_model)
+);
+
+CREATE INDEX IF NOT EXISTS idx_collection_run_items_run ON collection_run_items(run_id, status);
+
+-- Enable Row Level Security
+ALTER TABLE collection_run_items ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for public access (matching existing pattern)
+CREATE POLICY "Allow all access to collection_run_items" ON collection_run_items FOR ALL USING (true);
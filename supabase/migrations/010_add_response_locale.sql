@@ -0,0 +1,40 @@
+-- Localized collection
+-- Prompts are asked in their monitor's language and market. Each response
+-- records the locale it was collected under so dashboards can be split by
+-- market, and translated prompt variants are cached on the prompt.
+
+-- 1. Locale each response was collected under
+ALTER TABLE responses
+  ADD COLUMN IF NOT EXISTS language TEXT,
+  ADD COLUMN IF NOT EXISTS location TEXT;
+
+-- Existing responses were all collected without localization (en/US)
+UPDATE responses SET language = 'en', location = 'US' WHERE language IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_responses_locale ON responses(language, location);
+
+COMMENT ON COLUMN responses.language IS 'Monitor language code the response was collected in, e.g. "de"';
+COMMENT ON COLUMN responses.location IS 'Monitor location the response was collected for, e.g. "DE" or "Global"';
+
+-- 2. Translated prompt variants
+ALTER TABLE prompts
+  ADD COLUMN IF NOT EXISTS translations JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN prompts.translations IS 'Cached translations of prompt_text keyed by language code, e.g. {"de": "..."}';
+
+-- Translations belong to the text they were made from; editing the prompt
+-- (from any client) drops them so the next collection translates again
+CREATE OR REPLACE FUNCTION clear_prompt_translations()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.prompt_text IS DISTINCT FROM OLD.prompt_text THEN
+    NEW.translations = '{}'::jsonb;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prompts_clear_translations
+  BEFORE UPDATE OF prompt_text ON prompts
+  FOR EACH ROW
+  EXECUTE FUNCTION clear_prompt_translations();
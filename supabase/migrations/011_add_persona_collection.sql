@@ -0,0 +1,24 @@
+-- Persona-conditioned collection
+-- Monitors can select personas; each prompt is then asked once per persona
+-- with that persona's context, and responses are tagged with the persona so
+-- visibility can be compared across audiences.
+
+-- 1. Personas selected on a monitor (empty = ask without a persona)
+ALTER TABLE monitors
+  ADD COLUMN IF NOT EXISTS persona_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- 2. Persona each response was collected for
+ALTER TABLE responses
+  ADD COLUMN IF NOT EXISTS persona_id UUID REFERENCES personas(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_responses_persona ON responses(persona_id);
+
+-- 3. Run items become prompt x model x persona
+ALTER TABLE collection_run_items
+  ADD COLUMN IF NOT EXISTS persona_id UUID REFERENCES personas(id) ON DELETE CASCADE;
+
+ALTER TABLE collection_run_items
+  DROP CONSTRAINT IF EXISTS collection_run_items_run_id_prompt_id_ai_model_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_collection_run_items_unique
+  ON collection_run_items(run_id, prompt_id, ai_model, COALESCE(persona_id, '00000000-0000-0000-0000-000000000000'::uuid));
@@ -0,0 +1,17 @@
+-- Model-based response analysis
+-- Responses store a per-entity analysis (brand and competitors: mentioned,
+-- quoted sentences, sentiment, confidence) so dashboards can re-use it
+-- without re-running analysis. Brands and competitors gain aliases that the
+-- analysis also matches.
+
+-- 1. Analysis results on responses
+ALTER TABLE responses
+  ADD COLUMN IF NOT EXISTS analysis JSONB,
+  ADD COLUMN IF NOT EXISTS analysis_confidence FLOAT;
+
+COMMENT ON COLUMN responses.analysis IS 'Per-entity mention/sentiment analysis: {method, model, entities: [{name, is_brand, mentioned, sentences, sentiment, confidence}], analyzed_at}';
+COMMENT ON COLUMN responses.analysis_confidence IS 'Confidence (0-1) of the tracked brand mention judgement';
+
+-- 2. Aliases used when detecting mentions
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS brand_aliases TEXT[] DEFAULT '{}';
+ALTER TABLE competitors ADD COLUMN IF NOT EXISTS aliases TEXT[] DEFAULT '{}';
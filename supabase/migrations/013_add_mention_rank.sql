@@ -0,0 +1,24 @@
+-- Mention position and recommendation rank
+-- Response analysis extracts the ordered list of brands each response
+-- recommends. Responses store the tracked brand's rank and each competitor's
+-- rank, and visibility_metrics gains average position and top-3 rate.
+-- Responses analyzed before this migration have no rank until re-analyzed
+-- (POST /api/analyze-responses with force: true).
+
+-- 1. Ranks on responses
+ALTER TABLE responses
+  ADD COLUMN IF NOT EXISTS brand_rank INTEGER,
+  ADD COLUMN IF NOT EXISTS competitor_ranks JSONB DEFAULT '{}';
+
+COMMENT ON COLUMN responses.brand_rank IS '1-based position of the tracked brand among the brands the response recommends; NULL when not ranked';
+COMMENT ON COLUMN responses.competitor_ranks IS 'Competitor name -> 1-based position, for ranked competitors only';
+
+CREATE INDEX IF NOT EXISTS idx_responses_brand_rank ON responses(brand_rank) WHERE brand_rank IS NOT NULL;
+
+-- 2. Position metrics
+ALTER TABLE visibility_metrics
+  ADD COLUMN IF NOT EXISTS avg_position FLOAT,
+  ADD COLUMN IF NOT EXISTS top3_rate FLOAT;
+
+COMMENT ON COLUMN visibility_metrics.avg_position IS 'Mean brand rank over responses that rank the brand';
+COMMENT ON COLUMN visibility_metrics.top3_rate IS 'Percentage of responses ranking the brand in the top 3';
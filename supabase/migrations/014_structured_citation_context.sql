@@ -0,0 +1,14 @@
+-- Structured citation context
+-- Engines now answer with their native web search / grounding enabled and
+-- report the sources they used. citation_context stores each source's page
+-- title and the part of the answer it supported as JSON instead of free text.
+
+-- 1. Convert existing free-text context to {title, snippet}
+ALTER TABLE citations
+  ALTER COLUMN citation_context TYPE JSONB
+  USING CASE
+    WHEN citation_context IS NULL THEN NULL
+    ELSE jsonb_build_object('title', NULL, 'snippet', citation_context)
+  END;
+
+COMMENT ON COLUMN citations.citation_context IS 'Source details from the engine''s web search: {title, snippet}; NULL when only the URL is known';
@@ -0,0 +1,33 @@
+-- Per-prompt, per-model visibility metrics
+-- Collection now writes, besides the project-wide row, daily rows for each
+-- collected prompt: one across all models (ai_model NULL) and one per model,
+-- computed from that day's responses. prompts.visibility_pct mirrors the
+-- prompt's latest all-model score.
+
+-- 1. Model dimension and sample size
+ALTER TABLE visibility_metrics
+  ADD COLUMN IF NOT EXISTS ai_model TEXT,
+  ADD COLUMN IF NOT EXISTS response_count INT DEFAULT 0;
+
+COMMENT ON COLUMN visibility_metrics.ai_model IS 'AI model the row covers; NULL for all models';
+COMMENT ON COLUMN visibility_metrics.response_count IS 'Number of responses the row was computed from';
+
+-- 2. One row per project/prompt/model/day. NULLs (project-wide and all-model
+-- rows) must compare equal or upserts keep inserting duplicates.
+DELETE FROM visibility_metrics a
+  USING visibility_metrics b
+  WHERE a.project_id = b.project_id
+    AND a.prompt_id IS NOT DISTINCT FROM b.prompt_id
+    AND a.ai_model IS NOT DISTINCT FROM b.ai_model
+    AND a.date = b.date
+    AND a.ctid < b.ctid;
+
+ALTER TABLE visibility_metrics DROP CONSTRAINT IF EXISTS visibility_metrics_project_id_prompt_id_date_key;
+ALTER TABLE visibility_metrics
+  ADD CONSTRAINT visibility_metrics_scope_date_key
+  UNIQUE NULLS NOT DISTINCT (project_id, prompt_id, ai_model, date);
+
+CREATE INDEX IF NOT EXISTS idx_visibility_prompt_date ON visibility_metrics(prompt_id, date DESC) WHERE prompt_id IS NOT NULL;
+
+-- 3. Prompt visibility kept current by collection
+COMMENT ON COLUMN prompts.visibility_pct IS 'Latest all-model visibility score of the prompt (see visibility_metrics)';
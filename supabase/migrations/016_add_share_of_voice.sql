@@ -0,0 +1,90 @@
+-- Competitor share of voice over time
+-- After each collection, today's responses are summarized per entity (the
+-- tracked brand and each competitor): mentions, domain citations, average
+-- rank and sentiment. Rows are broken down by model and monitor (NULL means
+-- all), plus one segment per prompt tag and intent type. When a competitor
+-- out-mentions the brand in a tag or intent segment it didn't lead the day
+-- before, a competitor alert is raised.
+
+-- 1. Daily share-of-voice series
+CREATE TABLE IF NOT EXISTS share_of_voice_metrics (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+
+  -- Entity the row describes
+  entity_name TEXT NOT NULL,
+  is_brand BOOLEAN DEFAULT false,
+
+  -- Breakdown; NULL means all models / all monitors
+  ai_model TEXT,
+  monitor_id UUID REFERENCES monitors(id) ON DELETE CASCADE,
+  -- 'all', or 'tag' / 'intent' with the tag or intent type in segment_value
+  segment_type TEXT NOT NULL DEFAULT 'all' CHECK (segment_type IN ('all', 'tag', 'intent')),
+  segment_value TEXT,
+
+  response_count INT DEFAULT 0,
+  mention_count INT DEFAULT 0,
+  citation_count INT DEFAULT 0,
+  -- Entity mentions as a % of all tracked-entity mentions in the breakdown
+  share FLOAT DEFAULT 0,
+  avg_rank FLOAT,
+  sentiment_avg FLOAT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT share_of_voice_metrics_scope_key
+    UNIQUE NULLS NOT DISTINCT (project_id, date, entity_name, ai_model, monitor_id, segment_type, segment_value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_of_voice_project_date ON share_of_voice_metrics(project_id, date DESC);
+
+-- 2. Competitor overtake alerts
+CREATE TABLE IF NOT EXISTS competitor_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  competitor_name TEXT NOT NULL,
+  segment_type TEXT NOT NULL CHECK (segment_type IN ('tag', 'intent')),
+  segment_value TEXT NOT NULL,
+  brand_mentions INT DEFAULT 0,
+  competitor_mentions INT DEFAULT 0,
+  dismissed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(project_id, date, competitor_name, segment_type, segment_value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_competitor_alerts_project ON competitor_alerts(project_id, created_at DESC);
+
+-- 3. Replace a project's rows for one day in a single transaction, so a
+-- failed insert keeps the previous rows and readers never see the day
+-- half-written. metric_rows is a JSON array of share_of_voice_metrics rows
+-- without project_id and date. Called by the service role after collection.
+CREATE OR REPLACE FUNCTION replace_share_of_voice(project UUID, day DATE, metric_rows JSONB)
+RETURNS void
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM share_of_voice_metrics WHERE project_id = project AND date = day;
+
+  INSERT INTO share_of_voice_metrics (
+    project_id, date, entity_name, is_brand, ai_model, monitor_id, segment_type, segment_value,
+    response_count, mention_count, citation_count, share, avg_rank, sentiment_avg
+  )
+  SELECT
+    project, day, r.entity_name, r.is_brand, r.ai_model, r.monitor_id, r.segment_type, r.segment_value,
+    r.response_count, r.mention_count, r.citation_count, r.share, r.avg_rank, r.sentiment_avg
+  FROM jsonb_populate_recordset(NULL::share_of_voice_metrics, metric_rows) AS r;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION replace_share_of_voice(UUID, DATE, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Enable Row Level Security
+ALTER TABLE share_of_voice_metrics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE competitor_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Create policy for public access (matching existing pattern)
+CREATE POLICY "Allow all access to share_of_voice_metrics" ON share_of_voice_metrics FOR ALL USING (true);
+CREATE POLICY "Allow all access to competitor_alerts" ON competitor_alerts FOR ALL USING (true);
@@ -0,0 +1,338 @@
+-- User accounts, organizations and membership-scoped row-level security
+-- Every project now belongs to an organization, and users reach projects
+-- through their memberships. The "Allow all access" policies are replaced
+-- with policies that only let members of a project's organization read or
+-- write it and everything hanging off it. Server code that runs without a
+-- user (cron collection) uses the service role key, which bypasses RLS.
+--
+-- Projects created before sign-in existed move into a "Default workspace"
+-- that nobody can reach until an admin hands it over. After deploying, the
+-- admin signs up, then runs once in the SQL editor:
+--   SELECT assign_legacy_workspace('admin@example.com');
+
+-- 1. Organizations and memberships
+CREATE TABLE IF NOT EXISTS organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  -- NULL only for the workspace holding projects created before sign-in existed
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS memberships (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_memberships_user ON memberships(user_id);
+
+-- 2. Projects belong to an organization
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_projects_organization ON projects(organization_id);
+
+-- Existing projects move into a shared workspace assigned by an admin (see
+-- assign_legacy_workspace below)
+DO $$
+DECLARE
+  legacy_org UUID;
+BEGIN
+  IF EXISTS (SELECT 1 FROM projects WHERE organization_id IS NULL) THEN
+    INSERT INTO organizations (name, created_by) VALUES ('Default workspace', NULL)
+    RETURNING id INTO legacy_org;
+
+    UPDATE projects SET organization_id = legacy_org WHERE organization_id IS NULL;
+  END IF;
+END $$;
+
+-- 3. Membership checks
+-- SECURITY DEFINER so policies on memberships can use them without recursing
+CREATE OR REPLACE FUNCTION is_org_member(org UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM memberships
+    WHERE organization_id = org AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_org_owner(org UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM memberships
+    WHERE organization_id = org AND user_id = auth.uid() AND role = 'owner'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_project_member(project UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM projects p
+    JOIN memberships m ON m.organization_id = p.organization_id
+    WHERE p.id = project AND m.user_id = auth.uid()
+  );
+$$;
+
+-- 4. New accounts get a personal workspace
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  -- on_organization_created makes the new user its owner
+  INSERT INTO organizations (name, created_by)
+  VALUES (COALESCE(split_part(NEW.email, '@', 1), 'My') || '''s workspace', NEW.id);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION handle_new_user();
+
+-- Organizations created from the app make their creator the owner
+CREATE OR REPLACE FUNCTION add_organization_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.created_by IS NOT NULL THEN
+    INSERT INTO memberships (organization_id, user_id, email, role)
+    SELECT NEW.id, u.id, u.email, 'owner' FROM auth.users u WHERE u.id = NEW.created_by
+    ON CONFLICT (organization_id, user_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_organization_created ON organizations;
+CREATE TRIGGER on_organization_created
+  AFTER INSERT ON organizations
+  FOR EACH ROW EXECUTE FUNCTION add_organization_owner();
+
+-- Hands the pre-auth workspace to an existing account as its owner. Only
+-- callable with the service role (SQL editor), never from the app.
+CREATE OR REPLACE FUNCTION assign_legacy_workspace(owner_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  org_id UUID;
+  owner_id UUID;
+BEGIN
+  SELECT id INTO owner_id FROM auth.users WHERE lower(email) = lower(owner_email);
+  IF owner_id IS NULL THEN
+    RAISE EXCEPTION 'No account with email %', owner_email;
+  END IF;
+
+  SELECT o.id INTO org_id
+  FROM organizations o
+  WHERE o.created_by IS NULL
+    AND NOT EXISTS (SELECT 1 FROM memberships m WHERE m.organization_id = o.id)
+  ORDER BY o.created_at
+  LIMIT 1;
+  IF org_id IS NULL THEN
+    RAISE EXCEPTION 'No unassigned legacy workspace';
+  END IF;
+
+  INSERT INTO memberships (organization_id, user_id, email, role)
+  VALUES (org_id, owner_id, owner_email, 'owner');
+
+  RETURN org_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION assign_legacy_workspace(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- The account an email belongs to, for adding existing users to a
+-- workspace. Reads auth.users, so only the service role may call it.
+CREATE OR REPLACE FUNCTION find_user_id_by_email(lookup_email TEXT)
+RETURNS UUID
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT id FROM auth.users WHERE lower(email) = lower(lookup_email) LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION find_user_id_by_email(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- memberships.email mirrors the account's address; whatever a client
+-- writes is replaced, so nobody can claim someone else's email
+CREATE OR REPLACE FUNCTION set_membership_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  SELECT email INTO NEW.email FROM auth.users WHERE id = NEW.user_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_membership_email
+  BEFORE INSERT OR UPDATE ON memberships
+  FOR EACH ROW EXECUTE FUNCTION set_membership_email();
+
+-- Projects created without an organization go to the user's oldest workspace
+CREATE OR REPLACE FUNCTION set_project_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.organization_id IS NULL THEN
+    SELECT organization_id INTO NEW.organization_id
+    FROM memberships
+    WHERE user_id = auth.uid()
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_project_organization ON projects;
+CREATE TRIGGER set_project_organization
+  BEFORE INSERT ON projects
+  FOR EACH ROW EXECUTE FUNCTION set_project_organization();
+
+-- 5. Replace the open policies
+DROP POLICY IF EXISTS "Allow all access to projects" ON projects;
+DROP POLICY IF EXISTS "Allow all access to monitors" ON monitors;
+DROP POLICY IF EXISTS "Allow all access to prompts" ON prompts;
+DROP POLICY IF EXISTS "Allow all access to responses" ON responses;
+DROP POLICY IF EXISTS "Allow all access to citations" ON citations;
+DROP POLICY IF EXISTS "Allow all access to visibility_metrics" ON visibility_metrics;
+DROP POLICY IF EXISTS "Allow all competitors" ON competitors;
+DROP POLICY IF EXISTS "Allow all personas" ON personas;
+DROP POLICY IF EXISTS "Allow all access to generated_content" ON generated_content;
+DROP POLICY IF EXISTS "Allow all access to keywords" ON keywords;
+DROP POLICY IF EXISTS "Allow all access to keyword_history" ON keyword_history;
+DROP POLICY IF EXISTS "Allow all access to competitor_keywords" ON competitor_keywords;
+DROP POLICY IF EXISTS "Allow all access to optimization_tasks" ON optimization_tasks;
+DROP POLICY IF EXISTS "Allow all access to google_connections" ON google_connections;
+DROP POLICY IF EXISTS "Allow all access to brand_overviews" ON brand_overviews;
+DROP POLICY IF EXISTS "Allow all access to collection_runs" ON collection_runs;
+DROP POLICY IF EXISTS "Allow all access to collection_run_items" ON collection_run_items;
+DROP POLICY IF EXISTS "Allow all access to share_of_voice_metrics" ON share_of_voice_metrics;
+DROP POLICY IF EXISTS "Allow all access to competitor_alerts" ON competitor_alerts;
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE memberships ENABLE ROW LEVEL SECURITY;
+
+-- OAuth tokens are only read by server routes with the service role, so
+-- google_connections gets no policies at all
+ALTER TABLE google_connections ENABLE ROW LEVEL SECURITY;
+
+-- Organizations: members read, owners manage, any signed-in user can create one
+CREATE POLICY "Members can view organizations" ON organizations
+  FOR SELECT USING (is_org_member(id));
+CREATE POLICY "Users can create organizations" ON organizations
+  FOR INSERT TO authenticated WITH CHECK (created_by = auth.uid());
+CREATE POLICY "Owners can update organizations" ON organizations
+  FOR UPDATE USING (is_org_owner(id));
+CREATE POLICY "Owners can delete organizations" ON organizations
+  FOR DELETE USING (is_org_owner(id));
+
+-- Memberships: members see each other, owners add and remove members
+CREATE POLICY "Members can view memberships" ON memberships
+  FOR SELECT USING (is_org_member(organization_id));
+CREATE POLICY "Owners can manage memberships" ON memberships
+  FOR ALL USING (is_org_owner(organization_id)) WITH CHECK (is_org_owner(organization_id));
+CREATE POLICY "Members can leave organizations" ON memberships
+  FOR DELETE USING (user_id = auth.uid());
+
+-- Projects
+CREATE POLICY "Members can access projects" ON projects
+  FOR ALL USING (is_org_member(organization_id)) WITH CHECK (is_org_member(organization_id));
+
+-- Tables keyed by project
+CREATE POLICY "Members can access monitors" ON monitors
+  FOR ALL USING (is_project_member(project_id)) WITH CHECK (is_project_member(project_id));
+CREATE POLICY "Members can access visibility_metrics" ON visibility_metrics
+  FOR ALL USING (is_project_member(project_id)) WITH CHECK (is_project_member(project_id));
+CREATE POLICY "Members can access competitors" ON competitors
+  FOR ALL USING (is_project_member(project_id)) WITH CHECK (is_project_member(project_id));
+CREATE POLICY "Members can access personas" ON personas
+  FOR ALL USING (is_project_member(project_id)) WITH CHECK (is_project_member(project_id));
+CREATE POLICY "Members can access generated_content" ON generated_content
+  FOR ALL USING (is_project_member(project_id)) WITH CHECK (is_project_member(project_id));
+CREATE POLICY "Members can access keywords" ON keywords
+  FOR ALL USING (is_project_member(project_id)) WITH CHECK (is_project_member(project_id));
+CREATE POLICY "Members can access competitor_keywords" ON competitor_keywords
+  FOR ALL USING (is_project_member(project_id)) WITH CHECK (is_project_member(project_id));
+CREATE POLICY "Members can access optimization_tasks" ON optimization_tasks
+  FOR ALL USING (is_project_member(project_id)) WITH CHECK (is_project_member(project_id));
+CREATE POLICY "Members can access brand_overviews" ON brand_overviews
+  FOR ALL USING (is_project_member(project_id)) WITH CHECK (is_project_member(project_id));
+CREATE POLICY "Members can access collection_runs" ON collection_runs
+  FOR ALL USING (is_project_member(project_id)) WITH CHECK (is_project_member(project_id));
+CREATE POLICY "Members can access share_of_voice_metrics" ON share_of_voice_metrics
+  FOR ALL USING (is_project_member(project_id)) WITH CHECK (is_project_member(project_id));
+CREATE POLICY "Members can access competitor_alerts" ON competitor_alerts
+  FOR ALL USING (is_project_member(project_id)) WITH CHECK (is_project_member(project_id));
+
+-- Tables reached through a parent row
+CREATE POLICY "Members can access prompts" ON prompts
+  FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM monitors m WHERE m.id = prompts.monitor_id AND is_project_member(m.project_id)
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM monitors m WHERE m.id = prompts.monitor_id AND is_project_member(m.project_id)
+  ));
+
+CREATE POLICY "Members can access responses" ON responses
+  FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM prompts p JOIN monitors m ON m.id = p.monitor_id
+    WHERE p.id = responses.prompt_id AND is_project_member(m.project_id)
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM prompts p JOIN monitors m ON m.id = p.monitor_id
+    WHERE p.id = responses.prompt_id AND is_project_member(m.project_id)
+  ));
+
+CREATE POLICY "Members can access citations" ON citations
+  FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM responses r
+    JOIN prompts p ON p.id = r.prompt_id
+    JOIN monitors m ON m.id = p.monitor_id
+    WHERE r.id = citations.response_id AND is_project_member(m.project_id)
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM responses r
+    JOIN prompts p ON p.id = r.prompt_id
+    JOIN monitors m ON m.id = p.monitor_id
+    WHERE r.id = citations.response_id AND is_project_member(m.project_id)
+  ));
+
+CREATE POLICY "Members can access keyword_history" ON keyword_history
+  FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM keywords k WHERE k.id = keyword_history.keyword_id AND is_project_member(k.project_id)
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM keywords k WHERE k.id = keyword_history.keyword_id AND is_project_member(k.project_id)
+  ));
+
+CREATE POLICY "Members can access collection_run_items" ON collection_run_items
+  FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM collection_runs r WHERE r.id = collection_run_items.run_id AND is_project_member(r.project_id)
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM collection_runs r WHERE r.id = collection_run_items.run_id AND is_project_member(r.project_id)
+  ));
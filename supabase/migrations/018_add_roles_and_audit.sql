@@ -0,0 +1,308 @@
+-- Role-based permissions and audit log
+-- Memberships carry one of four roles:
+--   owner  - everything, including members and deleting brands
+--   editor - runs collections and manages brands, prompts, keywords and integrations
+--   writer - creates and edits content; read-only elsewhere
+--   viewer - read-only
+-- Every member can read their organization's data; write policies check the
+-- role. The same matrix is mirrored in lib/permissions.ts for API routes and UI.
+--
+-- Changes made by signed-in users are recorded in audit_log by trigger.
+-- Server work done with the service role (collection runs, Google OAuth) is
+-- logged by the API routes that start it.
+
+-- 1. Roles
+ALTER TABLE memberships DROP CONSTRAINT IF EXISTS memberships_role_check;
+UPDATE memberships SET role = 'editor' WHERE role = 'member';
+ALTER TABLE memberships
+  ADD CONSTRAINT memberships_role_check CHECK (role IN ('owner', 'editor', 'writer', 'viewer')),
+  ALTER COLUMN role SET DEFAULT 'viewer';
+
+CREATE OR REPLACE FUNCTION has_org_role(org UUID, roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM memberships
+    WHERE organization_id = org AND user_id = auth.uid() AND role = ANY(roles)
+  );
+$$;
+
+-- The caller's role on a project, or NULL when they aren't a member
+CREATE OR REPLACE FUNCTION project_role(project UUID)
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT m.role FROM projects p
+  JOIN memberships m ON m.organization_id = p.organization_id
+  WHERE p.id = project AND m.user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION has_project_role(project UUID, roles TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT COALESCE(project_role(project) = ANY(roles), false);
+$$;
+
+-- Only owners and editors can create brands in a workspace
+CREATE OR REPLACE FUNCTION set_project_organization()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.organization_id IS NULL THEN
+    SELECT organization_id INTO NEW.organization_id
+    FROM memberships
+    WHERE user_id = auth.uid() AND role IN ('owner', 'editor')
+    ORDER BY created_at
+    LIMIT 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- 2. Role-aware policies
+-- Each table gets a read policy for all members and a write policy for the
+-- roles allowed to change it (policies are OR'd, so writers of a table can
+-- also read it).
+DROP POLICY IF EXISTS "Members can access projects" ON projects;
+
+CREATE POLICY "Members can view projects" ON projects
+  FOR SELECT USING (is_org_member(organization_id));
+CREATE POLICY "Editors can create projects" ON projects
+  FOR INSERT WITH CHECK (has_org_role(organization_id, ARRAY['owner', 'editor']));
+CREATE POLICY "Editors can update projects" ON projects
+  FOR UPDATE USING (has_org_role(organization_id, ARRAY['owner', 'editor']));
+CREATE POLICY "Owners can delete projects" ON projects
+  FOR DELETE USING (has_org_role(organization_id, ARRAY['owner']));
+
+-- Tables keyed by project
+DO $$
+DECLARE
+  tbl TEXT;
+  writers TEXT;
+BEGIN
+  FOR tbl, writers IN VALUES
+    ('monitors', 'owner,editor'),
+    ('visibility_metrics', 'owner,editor'),
+    ('competitors', 'owner,editor'),
+    ('personas', 'owner,editor'),
+    ('keywords', 'owner,editor'),
+    ('competitor_keywords', 'owner,editor'),
+    ('brand_overviews', 'owner,editor'),
+    ('collection_runs', 'owner,editor'),
+    ('share_of_voice_metrics', 'owner,editor'),
+    ('competitor_alerts', 'owner,editor'),
+    ('generated_content', 'owner,editor,writer'),
+    ('optimization_tasks', 'owner,editor,writer')
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Members can access ' || tbl, tbl);
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR SELECT USING (is_project_member(project_id))',
+      'Members can view ' || tbl, tbl
+    );
+    EXECUTE format(
+      'CREATE POLICY %I ON %I FOR ALL USING (has_project_role(project_id, %L::TEXT[])) '
+      'WITH CHECK (has_project_role(project_id, %L::TEXT[]))',
+      'Roles can change ' || tbl, tbl,
+      '{' || writers || '}', '{' || writers || '}'
+    );
+  END LOOP;
+END $$;
+
+-- Tables reached through a parent row
+DROP POLICY IF EXISTS "Members can access prompts" ON prompts;
+DROP POLICY IF EXISTS "Members can access responses" ON responses;
+DROP POLICY IF EXISTS "Members can access citations" ON citations;
+DROP POLICY IF EXISTS "Members can access keyword_history" ON keyword_history;
+DROP POLICY IF EXISTS "Members can access collection_run_items" ON collection_run_items;
+
+CREATE POLICY "Members can view prompts" ON prompts
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM monitors m WHERE m.id = prompts.monitor_id AND is_project_member(m.project_id)
+  ));
+CREATE POLICY "Roles can change prompts" ON prompts
+  FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM monitors m
+    WHERE m.id = prompts.monitor_id AND has_project_role(m.project_id, ARRAY['owner', 'editor'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM monitors m
+    WHERE m.id = prompts.monitor_id AND has_project_role(m.project_id, ARRAY['owner', 'editor'])
+  ));
+
+CREATE POLICY "Members can view responses" ON responses
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM prompts p JOIN monitors m ON m.id = p.monitor_id
+    WHERE p.id = responses.prompt_id AND is_project_member(m.project_id)
+  ));
+CREATE POLICY "Roles can change responses" ON responses
+  FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM prompts p JOIN monitors m ON m.id = p.monitor_id
+    WHERE p.id = responses.prompt_id AND has_project_role(m.project_id, ARRAY['owner', 'editor'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM prompts p JOIN monitors m ON m.id = p.monitor_id
+    WHERE p.id = responses.prompt_id AND has_project_role(m.project_id, ARRAY['owner', 'editor'])
+  ));
+
+CREATE POLICY "Members can view citations" ON citations
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM responses r
+    JOIN prompts p ON p.id = r.prompt_id
+    JOIN monitors m ON m.id = p.monitor_id
+    WHERE r.id = citations.response_id AND is_project_member(m.project_id)
+  ));
+CREATE POLICY "Roles can change citations" ON citations
+  FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM responses r
+    JOIN prompts p ON p.id = r.prompt_id
+    JOIN monitors m ON m.id = p.monitor_id
+    WHERE r.id = citations.response_id AND has_project_role(m.project_id, ARRAY['owner', 'editor'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM responses r
+    JOIN prompts p ON p.id = r.prompt_id
+    JOIN monitors m ON m.id = p.monitor_id
+    WHERE r.id = citations.response_id AND has_project_role(m.project_id, ARRAY['owner', 'editor'])
+  ));
+
+CREATE POLICY "Members can view keyword_history" ON keyword_history
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM keywords k WHERE k.id = keyword_history.keyword_id AND is_project_member(k.project_id)
+  ));
+CREATE POLICY "Roles can change keyword_history" ON keyword_history
+  FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM keywords k
+    WHERE k.id = keyword_history.keyword_id AND has_project_role(k.project_id, ARRAY['owner', 'editor'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM keywords k
+    WHERE k.id = keyword_history.keyword_id AND has_project_role(k.project_id, ARRAY['owner', 'editor'])
+  ));
+
+CREATE POLICY "Members can view collection_run_items" ON collection_run_items
+  FOR SELECT USING (EXISTS (
+    SELECT 1 FROM collection_runs r WHERE r.id = collection_run_items.run_id AND is_project_member(r.project_id)
+  ));
+CREATE POLICY "Roles can change collection_run_items" ON collection_run_items
+  FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM collection_runs r
+    WHERE r.id = collection_run_items.run_id AND has_project_role(r.project_id, ARRAY['owner', 'editor'])
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM collection_runs r
+    WHERE r.id = collection_run_items.run_id AND has_project_role(r.project_id, ARRAY['owner', 'editor'])
+  ));
+
+-- 3. Audit log
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  -- Kept when the project is deleted so the deletion stays visible
+  project_id UUID,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  user_email TEXT,
+  -- insert | update | delete for row changes, or an app action such as collection.run
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id UUID,
+  -- Changed columns ({column: {old, new}}) for updates, the row for inserts and deletes
+  changes JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_project ON audit_log(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_organization ON audit_log(organization_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION record_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  row_data JSONB := COALESCE(new_row, old_row);
+  diff JSONB;
+  proj UUID;
+  org UUID;
+BEGIN
+  -- Service-role writes (collection, metrics) are logged by the app, not here
+  IF auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT jsonb_object_agg(n.key, jsonb_build_object('old', old_row -> n.key, 'new', n.value))
+    INTO diff
+    FROM jsonb_each(new_row) n
+    WHERE n.value IS DISTINCT FROM old_row -> n.key
+      AND n.key NOT IN ('updated_at', 'last_updated');
+    IF diff IS NULL THEN
+      RETURN NULL;
+    END IF;
+  ELSE
+    diff := row_data;
+  END IF;
+
+  IF TG_TABLE_NAME = 'projects' THEN
+    proj := (row_data ->> 'id')::UUID;
+    org := (row_data ->> 'organization_id')::UUID;
+  ELSIF TG_TABLE_NAME = 'memberships' THEN
+    org := (row_data ->> 'organization_id')::UUID;
+  ELSIF TG_TABLE_NAME = 'prompts' THEN
+    SELECT project_id INTO proj FROM monitors WHERE id = (row_data ->> 'monitor_id')::UUID;
+  ELSE
+    proj := (row_data ->> 'project_id')::UUID;
+  END IF;
+
+  IF org IS NULL AND proj IS NOT NULL THEN
+    SELECT organization_id INTO org FROM projects WHERE id = proj;
+  END IF;
+
+  -- Rows removed by a cascading project or organization delete aren't logged
+  -- individually; the parent's delete is
+  IF org IS NULL OR NOT EXISTS (SELECT 1 FROM organizations WHERE id = org) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (organization_id, project_id, user_id, user_email, action, entity_type, entity_id, changes)
+  VALUES (
+    org, proj, auth.uid(), auth.jwt() ->> 'email',
+    lower(TG_OP), TG_TABLE_NAME, (row_data ->> 'id')::UUID, diff
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  tbl TEXT;
+BEGIN
+  FOREACH tbl IN ARRAY ARRAY[
+    'projects', 'memberships', 'monitors', 'prompts', 'competitors', 'personas',
+    'keywords', 'generated_content', 'optimization_tasks', 'competitor_alerts'
+  ]
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_changes ON %I', tbl);
+    EXECUTE format(
+      'CREATE TRIGGER audit_changes AFTER INSERT OR UPDATE OR DELETE ON %I '
+      'FOR EACH ROW EXECUTE FUNCTION record_audit()',
+      tbl
+    );
+  END LOOP;
+END $$;
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Members read their organization's history; rows are only written by the
+-- trigger above and the service role
+CREATE POLICY "Members can view audit_log" ON audit_log
+  FOR SELECT USING (is_org_member(organization_id));
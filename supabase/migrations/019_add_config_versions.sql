@@ -0,0 +1,197 @@
+-- Versioned history of brand configuration
+-- Every change to a project's brand fields, competitors, personas and
+-- monitors is stored as a numbered version per project with the actor and
+-- where the change came from:
+--   human          - edits in the app
+--   ai_enhancement - Brand Bible suggestions from /api/enhance-brand-bible
+--   crawler        - brand overview generation from the website crawl
+--   revert         - restoring an earlier version
+--   system         - any other service-role write
+-- Writers tag their requests with an x-change-source header; the trigger
+-- falls back to human/system when it's missing. Service-role writers name
+-- the user they act for with x-change-actor-id / x-change-actor-email.
+-- revert_config_to_version() undoes newer versions so the configuration
+-- matches an earlier one.
+
+-- 1. Versions
+CREATE TABLE IF NOT EXISTS config_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  -- Table the change was made to: projects, competitors, personas or monitors
+  entity_type TEXT NOT NULL,
+  entity_id UUID NOT NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('insert', 'update', 'delete')),
+  source TEXT NOT NULL DEFAULT 'human'
+    CHECK (source IN ('human', 'ai_enhancement', 'crawler', 'revert', 'system')),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  user_email TEXT,
+  -- Updates store only the changed columns; deletes store the full row in
+  -- before_data and inserts in after_data
+  before_data JSONB,
+  after_data JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(project_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_config_versions_project ON config_versions(project_id, version DESC);
+
+-- 2. Recording trigger
+CREATE OR REPLACE FUNCTION record_config_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  -- Bookkeeping columns that change without anyone editing the configuration
+  ignored TEXT[] := ARRAY[
+    'updated_at', 'last_updated', 'created_at', 'health_score', 'health_updated_at',
+    'indexed_pages', 'last_collected_at', 'next_run_at', 'last_run_at'
+  ];
+  old_row JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  row_data JSONB := COALESCE(new_row, old_row);
+  headers JSON := NULLIF(current_setting('request.headers', true), '')::JSON;
+  actor_id UUID := auth.uid();
+  actor_email TEXT := auth.jwt() ->> 'email';
+  proj UUID;
+  before_diff JSONB;
+  after_diff JSONB;
+  src TEXT;
+  next_version INTEGER;
+BEGIN
+  proj := CASE WHEN TG_TABLE_NAME = 'projects'
+    THEN (row_data ->> 'id')::UUID
+    ELSE (row_data ->> 'project_id')::UUID
+  END;
+
+  -- Rows removed by a cascading project delete have nowhere to be recorded
+  IF NOT EXISTS (SELECT 1 FROM projects WHERE id = proj) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT
+      jsonb_object_agg(n.key, old_row -> n.key),
+      jsonb_object_agg(n.key, n.value)
+    INTO before_diff, after_diff
+    FROM jsonb_each(new_row) n
+    WHERE n.value IS DISTINCT FROM old_row -> n.key
+      AND n.key <> ALL(ignored);
+    IF after_diff IS NULL THEN
+      RETURN NULL;
+    END IF;
+  ELSE
+    before_diff := old_row;
+    after_diff := new_row;
+  END IF;
+
+  -- Reverts set app.change_source themselves; API writers send a header
+  src := COALESCE(
+    NULLIF(current_setting('app.change_source', true), ''),
+    headers ->> 'x-change-source'
+  );
+  IF src IS NULL OR src NOT IN ('human', 'ai_enhancement', 'crawler', 'revert', 'system') THEN
+    src := CASE WHEN auth.uid() IS NULL THEN 'system' ELSE 'human' END;
+  END IF;
+
+  -- Only the service role may say who it's acting for
+  IF actor_id IS NULL AND auth.role() = 'service_role' THEN
+    actor_id := NULLIF(headers ->> 'x-change-actor-id', '')::UUID;
+    actor_email := headers ->> 'x-change-actor-email';
+  END IF;
+
+  -- Serialize version numbers per project
+  PERFORM pg_advisory_xact_lock(hashtext(proj::TEXT));
+  SELECT COALESCE(MAX(version), 0) + 1 INTO next_version
+  FROM config_versions WHERE project_id = proj;
+
+  INSERT INTO config_versions (
+    project_id, version, entity_type, entity_id, operation, source,
+    user_id, user_email, before_data, after_data
+  )
+  VALUES (
+    proj, next_version, TG_TABLE_NAME, (row_data ->> 'id')::UUID, lower(TG_OP), src,
+    actor_id, actor_email, before_diff, after_diff
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Projects are versioned from their first edit; creating or deleting a
+-- project isn't something to revert
+DROP TRIGGER IF EXISTS version_config ON projects;
+CREATE TRIGGER version_config AFTER UPDATE ON projects
+  FOR EACH ROW EXECUTE FUNCTION record_config_version();
+
+DO $$
+DECLARE
+  tbl TEXT;
+BEGIN
+  FOREACH tbl IN ARRAY ARRAY['competitors', 'personas', 'monitors']
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS version_config ON %I', tbl);
+    EXECUTE format(
+      'CREATE TRIGGER version_config AFTER INSERT OR UPDATE OR DELETE ON %I '
+      'FOR EACH ROW EXECUTE FUNCTION record_config_version()',
+      tbl
+    );
+  END LOOP;
+END $$;
+
+-- 3. Revert
+-- Undoes every version newer than target_version, newest first, so the
+-- configuration ends up as it was right after that version. Runs as the
+-- caller: the role checks on each table still apply. The undo writes are
+-- recorded as new versions with source 'revert', so a revert can itself be
+-- reverted. Re-created monitors come back without the prompts that were
+-- deleted along with them.
+CREATE OR REPLACE FUNCTION revert_config_to_version(project UUID, target_version INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql SET search_path = public
+AS $$
+DECLARE
+  v config_versions%ROWTYPE;
+  cols TEXT;
+  reverted INTEGER := 0;
+BEGIN
+  IF NOT has_project_role(project, ARRAY['owner', 'editor']) THEN
+    RAISE EXCEPTION 'Your role does not allow this action' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_config('app.change_source', 'revert', true);
+
+  FOR v IN
+    SELECT * FROM config_versions
+    WHERE project_id = project AND version > target_version
+    ORDER BY version DESC
+  LOOP
+    IF v.operation = 'insert' THEN
+      EXECUTE format('DELETE FROM %I WHERE id = $1', v.entity_type) USING v.entity_id;
+    ELSIF v.operation = 'delete' THEN
+      EXECUTE format(
+        'INSERT INTO %I SELECT * FROM jsonb_populate_record(NULL::%I, $1) ON CONFLICT (id) DO NOTHING',
+        v.entity_type, v.entity_type
+      ) USING v.before_data;
+    ELSE
+      SELECT string_agg(format('%I', key), ', ') INTO cols
+      FROM jsonb_object_keys(v.before_data) AS key;
+      EXECUTE format(
+        'UPDATE %I SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::%I, $1)) WHERE id = $2',
+        v.entity_type, cols, cols, v.entity_type
+      ) USING v.before_data, v.entity_id;
+    END IF;
+    reverted := reverted + 1;
+  END LOOP;
+
+  PERFORM set_config('app.change_source', '', true);
+  RETURN reverted;
+END;
+$$;
+
+-- 4. Row Level Security
+ALTER TABLE config_versions ENABLE ROW LEVEL SECURITY;
+
+-- Members read the history; rows are only written by the trigger above
+CREATE POLICY "Members can view config_versions" ON config_versions
+  FOR SELECT USING (is_project_member(project_id));
@@ -0,0 +1,83 @@
+-- Alert rules and notifications
+-- Rules are configured per project and evaluated after each collection
+-- (lib/alerts/evaluate.ts). Every alert becomes a notification shown in the
+-- in-app notification center and, depending on the rule's channels, is also
+-- sent by email or to a Slack-compatible incoming webhook.
+
+-- 1. Alert rules
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- visibility_drop    - project visibility score fell by at least threshold points
+  -- prompt_lost        - brand absent from a prompt where it was in at least
+  --                      threshold % of answers the previous collection
+  -- negative_sentiment - brand mentioned with sentiment at or below threshold (0-1)
+  -- new_competitor     - an untracked brand appears in at least threshold answers
+  -- citation_lost      - our domain no longer cited on a prompt that cited it
+  rule_type TEXT NOT NULL CHECK (rule_type IN (
+    'visibility_drop', 'prompt_lost', 'negative_sentiment', 'new_competitor', 'citation_lost'
+  )),
+  threshold NUMERIC,
+  -- Delivery besides the in-app notification center: email, webhook
+  channels TEXT[] DEFAULT '{}',
+  email_recipients TEXT[] DEFAULT '{}',
+  webhook_url TEXT,
+  is_active BOOLEAN DEFAULT true,
+  last_triggered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_project ON alert_rules(project_id) WHERE is_active;
+
+-- 2. Notifications
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  rule_id UUID REFERENCES alert_rules(id) ON DELETE SET NULL,
+  rule_type TEXT NOT NULL,
+  severity TEXT NOT NULL DEFAULT 'warning' CHECK (severity IN ('info', 'warning', 'critical')),
+  title TEXT NOT NULL,
+  body TEXT,
+  -- Rule-specific details, e.g. prompt ids or the competitor name
+  data JSONB,
+  -- Identifies the condition so re-evaluating the same day doesn't repeat it
+  dedupe_key TEXT NOT NULL,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(rule_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_project ON notifications(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(project_id) WHERE read_at IS NULL;
+
+-- 3. Row Level Security
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Rules hold webhook URLs, so only the roles that manage them can read them
+CREATE POLICY "Roles can view alert_rules" ON alert_rules
+  FOR SELECT USING (has_project_role(project_id, ARRAY['owner', 'editor']));
+CREATE POLICY "Roles can change alert_rules" ON alert_rules
+  FOR ALL
+  USING (has_project_role(project_id, ARRAY['owner', 'editor']))
+  WITH CHECK (has_project_role(project_id, ARRAY['owner', 'editor']));
+
+-- Any member can read notifications and mark them read, but change nothing
+-- else about them (column grants below); they're created by the service
+-- role during collection
+CREATE POLICY "Members can view notifications" ON notifications
+  FOR SELECT USING (is_project_member(project_id));
+CREATE POLICY "Members can mark notifications read" ON notifications
+  FOR UPDATE
+  USING (is_project_member(project_id))
+  WITH CHECK (is_project_member(project_id));
+
+REVOKE UPDATE ON notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON notifications TO authenticated;
+
+-- 4. Audit
+DROP TRIGGER IF EXISTS audit_changes ON alert_rules;
+CREATE TRIGGER audit_changes AFTER INSERT OR UPDATE OR DELETE ON alert_rules
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
@@ -0,0 +1,76 @@
+-- Outbound webhooks
+-- Projects register endpoints that receive a signed POST for the events they
+-- subscribe to:
+--   collection.completed     - a collection run finished
+--   response.created         - an AI response was collected and analyzed
+--   content.generated        - content was generated and saved
+--   content.status_changed   - content moved to another status
+--   brand_overview.completed - brand overview generation finished
+-- Every attempt is logged in webhook_deliveries. Failed deliveries are retried
+-- with backoff by /api/cron/webhooks (lib/webhooks/dispatch.ts).
+
+-- 1. Endpoints
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  description TEXT,
+  events TEXT[] NOT NULL DEFAULT '{}',
+  -- HMAC signing secret, encrypted with lib/crypto.ts; shown once on creation
+  secret TEXT NOT NULL,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_project ON webhook_endpoints(project_id) WHERE is_active;
+
+-- 2. Delivery log
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  -- pending: waiting for its next attempt; failed: out of attempts
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ,
+  response_status INTEGER,
+  -- First 1000 characters of the endpoint's response, or the network error
+  response_body TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+
+-- 3. Row Level Security
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Endpoints are created through /api/brand/[brandId]/webhooks so the secret
+-- can be generated and encrypted server-side and the URL checked; roles that
+-- manage integrations can read and delete them directly, and update all but
+-- the URL and secret (column grants below)
+CREATE POLICY "Roles can view webhook_endpoints" ON webhook_endpoints
+  FOR SELECT USING (has_project_role(project_id, ARRAY['owner', 'editor']));
+CREATE POLICY "Roles can update webhook_endpoints" ON webhook_endpoints
+  FOR UPDATE
+  USING (has_project_role(project_id, ARRAY['owner', 'editor']))
+  WITH CHECK (has_project_role(project_id, ARRAY['owner', 'editor']));
+CREATE POLICY "Roles can delete webhook_endpoints" ON webhook_endpoints
+  FOR DELETE USING (has_project_role(project_id, ARRAY['owner', 'editor']));
+
+REVOKE UPDATE ON webhook_endpoints FROM anon, authenticated;
+GRANT UPDATE (description, events, is_active, updated_at) ON webhook_endpoints TO authenticated;
+
+-- Deliveries are written by the service role
+CREATE POLICY "Roles can view webhook_deliveries" ON webhook_deliveries
+  FOR SELECT USING (has_project_role(project_id, ARRAY['owner', 'editor']));
+
+-- 4. Audit
+DROP TRIGGER IF EXISTS audit_changes ON webhook_endpoints;
+CREATE TRIGGER audit_changes AFTER INSERT OR UPDATE OR DELETE ON webhook_endpoints
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
@@ -0,0 +1,147 @@
+-- API keys for the public REST API (/api/v1)
+-- Keys belong to a workspace and reach every project in it. Only a SHA-256
+-- hash of the key is stored; the key itself is shown once on creation.
+-- Scopes limit what a key can do (see API_KEY_SCOPES in lib/types.ts) and
+-- each key has a per-minute request limit counted in api_rate_limits.
+
+-- 1. Keys
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- First characters of the key, to tell keys apart in the UI
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  rate_limit_per_minute INTEGER NOT NULL DEFAULT 60 CHECK (rate_limit_per_minute > 0),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  last_used_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_organization ON api_keys(organization_id);
+
+-- 2. Rate limiting
+-- One row per key per minute window; old windows are cleared as new ones open
+CREATE TABLE IF NOT EXISTS api_rate_limits (
+  key_id UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  window_start TIMESTAMPTZ NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (key_id, window_start)
+);
+
+-- Counts a request against the key's current window and reports whether it
+-- is within the limit. Called by the service role for every API request.
+CREATE OR REPLACE FUNCTION consume_api_rate_limit(key UUID, max_requests INTEGER)
+RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, reset_at TIMESTAMPTZ)
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  current_window TIMESTAMPTZ := date_trunc('minute', NOW());
+  used INTEGER;
+BEGIN
+  INSERT INTO api_rate_limits (key_id, window_start, request_count)
+  VALUES (key, current_window, 1)
+  ON CONFLICT (key_id, window_start)
+  DO UPDATE SET request_count = api_rate_limits.request_count + 1
+  RETURNING request_count INTO used;
+
+  IF used = 1 THEN
+    DELETE FROM api_rate_limits WHERE key_id = key AND window_start < current_window;
+  END IF;
+
+  RETURN QUERY SELECT
+    used <= max_requests,
+    GREATEST(max_requests - used, 0),
+    current_window + INTERVAL '1 minute';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION consume_api_rate_limit(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- 3. Row Level Security
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Keys are created through /api/organizations/[orgId]/api-keys so the key can
+-- be generated and hashed server-side; owners can list and revoke them
+CREATE POLICY "Owners can view api_keys" ON api_keys
+  FOR SELECT USING (has_org_role(organization_id, ARRAY['owner']));
+CREATE POLICY "Owners can update api_keys" ON api_keys
+  FOR UPDATE
+  USING (has_org_role(organization_id, ARRAY['owner']))
+  WITH CHECK (has_org_role(organization_id, ARRAY['owner']));
+CREATE POLICY "Owners can delete api_keys" ON api_keys
+  FOR DELETE USING (has_org_role(organization_id, ARRAY['owner']));
+
+-- api_rate_limits has no policies: only the service role touches it
+
+-- 4. Audit
+-- Keys belong to an organization rather than a project; teach record_audit()
+-- where to find it
+CREATE OR REPLACE FUNCTION record_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  new_row JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  row_data JSONB := COALESCE(new_row, old_row);
+  diff JSONB;
+  proj UUID;
+  org UUID;
+BEGIN
+  -- Service-role writes (collection, metrics) are logged by the app, not here
+  IF auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT jsonb_object_agg(n.key, jsonb_build_object('old', old_row -> n.key, 'new', n.value))
+    INTO diff
+    FROM jsonb_each(new_row) n
+    WHERE n.value IS DISTINCT FROM old_row -> n.key
+      AND n.key NOT IN ('updated_at', 'last_updated');
+    IF diff IS NULL THEN
+      RETURN NULL;
+    END IF;
+  ELSE
+    diff := row_data;
+  END IF;
+
+  IF TG_TABLE_NAME = 'projects' THEN
+    proj := (row_data ->> 'id')::UUID;
+    org := (row_data ->> 'organization_id')::UUID;
+  ELSIF TG_TABLE_NAME IN ('memberships', 'api_keys') THEN
+    org := (row_data ->> 'organization_id')::UUID;
+  ELSIF TG_TABLE_NAME = 'prompts' THEN
+    SELECT project_id INTO proj FROM monitors WHERE id = (row_data ->> 'monitor_id')::UUID;
+  ELSE
+    proj := (row_data ->> 'project_id')::UUID;
+  END IF;
+
+  IF org IS NULL AND proj IS NOT NULL THEN
+    SELECT organization_id INTO org FROM projects WHERE id = proj;
+  END IF;
+
+  -- Rows removed by a cascading project or organization delete aren't logged
+  -- individually; the parent's delete is
+  IF org IS NULL OR NOT EXISTS (SELECT 1 FROM organizations WHERE id = org) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (organization_id, project_id, user_id, user_email, action, entity_type, entity_id, changes)
+  VALUES (
+    org, proj, auth.uid(), auth.jwt() ->> 'email',
+    lower(TG_OP), TG_TABLE_NAME, (row_data ->> 'id')::UUID, diff
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_changes ON api_keys;
+CREATE TRIGGER audit_changes AFTER INSERT OR UPDATE OR DELETE ON api_keys
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
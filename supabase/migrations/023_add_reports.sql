@@ -0,0 +1,71 @@
+-- Client reports
+-- A report snapshots one period's visibility, share of voice, citations,
+-- sentiment, answer gaps, content and Google data (lib/reports/data.ts) and
+-- is rendered to PDF or HTML from that snapshot whenever it's downloaded, so
+-- the archive always shows what was sent. Schedules generate and email a
+-- report weekly or monthly (lib/reports/scheduler.ts, run by /api/cron/reports).
+
+-- 1. Schedules
+CREATE TABLE IF NOT EXISTS report_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- weekly  - Mondays, covering the previous 7 days
+  -- monthly - the 1st, covering the previous calendar month
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'monthly')),
+  sections TEXT[] NOT NULL DEFAULT '{}',
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  -- Attachment format; the email body is always the HTML report
+  format TEXT NOT NULL DEFAULT 'pdf' CHECK (format IN ('pdf', 'html')),
+  is_active BOOLEAN DEFAULT true,
+  next_run_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_schedules_due ON report_schedules(next_run_at) WHERE is_active;
+
+-- 2. Archive
+CREATE TABLE IF NOT EXISTS reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  schedule_id UUID REFERENCES report_schedules(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  sections TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'generating' CHECK (status IN ('generating', 'completed', 'failed')),
+  -- ReportData snapshot (lib/types.ts)
+  data JSONB,
+  error TEXT,
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  sent_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reports_project ON reports(project_id, created_at DESC);
+
+-- 3. Row Level Security
+ALTER TABLE report_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+
+-- Any member can read schedules and the archive; owners and editors manage
+-- schedules. Reports are generated by the API with the service role.
+CREATE POLICY "Members can view report_schedules" ON report_schedules
+  FOR SELECT USING (is_project_member(project_id));
+CREATE POLICY "Roles can change report_schedules" ON report_schedules
+  FOR ALL
+  USING (has_project_role(project_id, ARRAY['owner', 'editor']))
+  WITH CHECK (has_project_role(project_id, ARRAY['owner', 'editor']));
+
+CREATE POLICY "Members can view reports" ON reports
+  FOR SELECT USING (is_project_member(project_id));
+CREATE POLICY "Roles can delete reports" ON reports
+  FOR DELETE USING (has_project_role(project_id, ARRAY['owner', 'editor']));
+
+-- 4. Audit
+DROP TRIGGER IF EXISTS audit_changes ON report_schedules;
+CREATE TRIGGER audit_changes AFTER INSERT OR UPDATE OR DELETE ON report_schedules
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
@@ -0,0 +1,57 @@
+-- White label and shared dashboards
+-- A workspace can replace Luminari's name, logo and colors on client-facing
+-- output: reports, Brand Bible PDFs and shared dashboards (lib/branding).
+-- Shared dashboards are read-only links (/share/<token>) that work without an
+-- account. Like API keys, only a SHA-256 hash of the token is stored and the
+-- link is shown once on creation; links always expire.
+
+-- 1. Workspace branding
+-- NULL falls back to Luminari's own. Owners edit it through the existing
+-- "Owners can update organizations" policy.
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS brand_name TEXT,
+  ADD COLUMN IF NOT EXISTS brand_logo_url TEXT,
+  ADD COLUMN IF NOT EXISTS brand_primary_color TEXT
+    CHECK (brand_primary_color ~ '^#[0-9a-fA-F]{6}$'),
+  ADD COLUMN IF NOT EXISTS brand_accent_color TEXT
+    CHECK (brand_accent_color ~ '^#[0-9a-fA-F]{6}$');
+
+-- 2. Shared dashboards
+CREATE TABLE IF NOT EXISTS dashboard_shares (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- First characters of the token, to tell links apart in the UI
+  token_prefix TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  -- Days of data shown, ending yesterday
+  period_days INTEGER NOT NULL DEFAULT 30 CHECK (period_days BETWEEN 7 AND 90),
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  last_viewed_at TIMESTAMPTZ,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dashboard_shares_project ON dashboard_shares(project_id, created_at DESC);
+
+-- 3. Row Level Security
+ALTER TABLE dashboard_shares ENABLE ROW LEVEL SECURITY;
+
+-- Links are created through /api/brand/[brandId]/shares so the token can be
+-- generated and hashed server-side, and opened by /share/[token] with the
+-- service role. Members can see them; owners and editors revoke them.
+CREATE POLICY "Members can view dashboard_shares" ON dashboard_shares
+  FOR SELECT USING (is_project_member(project_id));
+CREATE POLICY "Roles can update dashboard_shares" ON dashboard_shares
+  FOR UPDATE
+  USING (has_project_role(project_id, ARRAY['owner', 'editor']))
+  WITH CHECK (has_project_role(project_id, ARRAY['owner', 'editor']));
+CREATE POLICY "Roles can delete dashboard_shares" ON dashboard_shares
+  FOR DELETE USING (has_project_role(project_id, ARRAY['owner', 'editor']));
+
+-- 4. Audit
+DROP TRIGGER IF EXISTS audit_changes ON dashboard_shares;
+CREATE TRIGGER audit_changes AFTER INSERT OR UPDATE OR DELETE ON dashboard_shares
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
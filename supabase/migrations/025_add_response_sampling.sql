@@ -0,0 +1,33 @@
+-- Repeated sampling and confidence intervals
+-- AI answers vary from one request to the next, so a monitor can ask each
+-- prompt x model (x persona) several times per collection. Every sample is
+-- stored as its own response, and visibility_metrics records 95% confidence
+-- intervals so a change can be told apart from sampling noise.
+
+-- 1. Samples per prompt x model on a monitor
+ALTER TABLE monitors
+  ADD COLUMN IF NOT EXISTS samples_per_prompt INTEGER NOT NULL DEFAULT 1
+    CHECK (samples_per_prompt BETWEEN 1 AND 10);
+
+-- 2. Sample each response and run item belongs to (0-based)
+ALTER TABLE responses
+  ADD COLUMN IF NOT EXISTS sample_index INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE collection_run_items
+  ADD COLUMN IF NOT EXISTS sample_index INTEGER NOT NULL DEFAULT 0;
+
+-- Run items become prompt x model x persona x sample
+DROP INDEX IF EXISTS idx_collection_run_items_unique;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_collection_run_items_unique
+  ON collection_run_items(run_id, prompt_id, ai_model, COALESCE(persona_id, '00000000-0000-0000-0000-000000000000'::uuid), sample_index);
+
+-- 3. Confidence intervals on metrics rows
+ALTER TABLE visibility_metrics
+  ADD COLUMN IF NOT EXISTS mention_rate_low FLOAT,
+  ADD COLUMN IF NOT EXISTS mention_rate_high FLOAT,
+  ADD COLUMN IF NOT EXISTS visibility_margin FLOAT;
+
+COMMENT ON COLUMN visibility_metrics.mention_rate_low IS 'Lower bound of the 95% Wilson interval for the mention rate, in percent';
+COMMENT ON COLUMN visibility_metrics.mention_rate_high IS 'Upper bound of the 95% Wilson interval for the mention rate, in percent';
+COMMENT ON COLUMN visibility_metrics.visibility_margin IS 'Half-width of the 95% interval for visibility_score, in points';
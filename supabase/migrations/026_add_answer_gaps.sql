@@ -0,0 +1,54 @@
+-- Answer gaps
+-- One record per prompt the brand is missing from, refreshed after every
+-- collection by lib/answer-gaps/analyze.ts. Besides the priority it keeps
+-- why competitors won (the sources the answers cited and the attributes they
+-- were praised for), what content the brand lacks and suggested content and
+-- PR actions. A gap can be pushed into the content pipeline, which links the
+-- generated content back to it.
+
+-- 1. Gaps
+CREATE TABLE IF NOT EXISTS answer_gaps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  prompt_id UUID NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+  -- open        - found by the latest analysis
+  -- in_progress - content has been generated for it
+  -- resolved    - the brand now appears in most answers (set by the analysis)
+  -- expired     - the prompt has no responses in the analysis window any more
+  -- dismissed   - hidden by a user; the analysis keeps it dismissed
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'resolved', 'expired', 'dismissed')),
+  priority TEXT NOT NULL CHECK (priority IN ('high', 'medium', 'low')),
+  -- 0-100, higher is a bigger opportunity
+  score FLOAT NOT NULL DEFAULT 0,
+  response_count INTEGER NOT NULL DEFAULT 0,
+  -- Percent of the analyzed responses that mention the brand
+  brand_mention_rate FLOAT NOT NULL DEFAULT 0,
+  -- AnswerGapCompetitor[], AnswerGapSource[], string[] and
+  -- AnswerGapRecommendation[] (lib/types.ts)
+  competitors JSONB NOT NULL DEFAULT '[]',
+  cited_sources JSONB NOT NULL DEFAULT '[]',
+  missing_content JSONB NOT NULL DEFAULT '[]',
+  recommendations JSONB NOT NULL DEFAULT '[]',
+  -- Latest content generated from the gap
+  content_id UUID REFERENCES generated_content(id) ON DELETE SET NULL,
+  first_detected_at TIMESTAMPTZ DEFAULT NOW(),
+  analyzed_at TIMESTAMPTZ DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (project_id, prompt_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_answer_gaps_project ON answer_gaps(project_id, status, score DESC);
+
+-- 2. Row Level Security
+ALTER TABLE answer_gaps ENABLE ROW LEVEL SECURITY;
+
+-- Any member can read gaps; owners and editors can change their status.
+-- The analysis writes with the service role.
+CREATE POLICY "Members can view answer_gaps" ON answer_gaps
+  FOR SELECT USING (is_project_member(project_id));
+CREATE POLICY "Roles can update answer_gaps" ON answer_gaps
+  FOR UPDATE
+  USING (has_project_role(project_id, ARRAY['owner', 'editor']))
+  WITH CHECK (has_project_role(project_id, ARRAY['owner', 'editor']));
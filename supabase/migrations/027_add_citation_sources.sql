@@ -0,0 +1,44 @@
+-- Citation sources
+-- One row per domain the AI answers cite for a project, refreshed after every
+-- collection by lib/citations/sources.ts: what kind of site it is (review
+-- site, directory, news, forum, Wikipedia, competitor or the brand's own
+-- site), its authority and how often each engine cites it. Outreach targets
+-- are built from these rows and the citations themselves.
+
+-- 1. Sources
+CREATE TABLE IF NOT EXISTS citation_sources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  -- Lowercased, without www.
+  domain TEXT NOT NULL,
+  category TEXT NOT NULL DEFAULT 'other'
+    CHECK (category IN ('own', 'competitor', 'review', 'directory', 'news', 'forum', 'wikipedia', 'other')),
+  -- Set when a user picks the category; refreshes leave it alone
+  category_overridden BOOLEAN NOT NULL DEFAULT false,
+  -- 0-100 domain rank from DataForSEO, rechecked monthly
+  authority FLOAT,
+  authority_checked_at TIMESTAMPTZ,
+  citation_count INTEGER NOT NULL DEFAULT 0,
+  prompt_count INTEGER NOT NULL DEFAULT 0,
+  -- Citations per engine, e.g. {"chatgpt": 12, "perplexity": 4}
+  engine_counts JSONB NOT NULL DEFAULT '{}',
+  first_cited_at TIMESTAMPTZ,
+  last_cited_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (project_id, domain)
+);
+
+CREATE INDEX IF NOT EXISTS idx_citation_sources_project ON citation_sources(project_id, citation_count DESC);
+
+-- 2. Row Level Security
+ALTER TABLE citation_sources ENABLE ROW LEVEL SECURITY;
+
+-- Any member can read sources; owners and editors can recategorize them.
+-- Refreshes write with the service role.
+CREATE POLICY "Members can view citation_sources" ON citation_sources
+  FOR SELECT USING (is_project_member(project_id));
+CREATE POLICY "Roles can update citation_sources" ON citation_sources
+  FOR UPDATE
+  USING (has_project_role(project_id, ARRAY['owner', 'editor']))
+  WITH CHECK (has_project_role(project_id, ARRAY['owner', 'editor']));
@@ -0,0 +1,39 @@
+-- Cited pages
+-- Every URL the AI answers cite for a project, fetched in the background by
+-- lib/citations/pages.ts (cron: /api/cron/cited-pages). Stores what the page
+-- says (title, headings, an excerpt) and whether it mentions the brand or
+-- its competitors, so the Citations page can show trusted pages that leave
+-- the brand out.
+
+-- 1. Pages
+CREATE TABLE IF NOT EXISTS cited_pages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  -- Lowercased, without www.
+  domain TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'fetched', 'failed')),
+  title TEXT,
+  meta_description TEXT,
+  headings JSONB NOT NULL DEFAULT '[]',
+  excerpt TEXT,
+  mentions_brand BOOLEAN,
+  competitors_mentioned TEXT[] NOT NULL DEFAULT '{}',
+  citation_count INTEGER NOT NULL DEFAULT 0,
+  last_cited_at TIMESTAMPTZ,
+  fetched_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (project_id, url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cited_pages_project ON cited_pages(project_id, citation_count DESC);
+CREATE INDEX IF NOT EXISTS idx_cited_pages_pending ON cited_pages(created_at) WHERE status = 'pending';
+
+-- 2. Row Level Security
+ALTER TABLE cited_pages ENABLE ROW LEVEL SECURITY;
+
+-- Any member can read pages; queueing and fetching write with the service role.
+CREATE POLICY "Members can view cited_pages" ON cited_pages
+  FOR SELECT USING (is_project_member(project_id));